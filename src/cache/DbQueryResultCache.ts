@@ -3,6 +3,7 @@ import { DataSource } from "../data-source/DataSource"
 import { MssqlParameter } from "../driver/sqlserver/MssqlParameter"
 import { QueryRunner } from "../query-runner/QueryRunner"
 import { Table } from "../schema-builder/table/Table"
+import { TableColumn } from "../schema-builder/table/TableColumn"
 import { QueryResultCache } from "./QueryResultCache"
 import { QueryResultCacheOptions } from "./QueryResultCacheOptions"
 import { v4 as uuidv4 } from "uuid"
@@ -66,7 +67,19 @@ export class DbQueryResultCache implements QueryResultCache {
         const tableExist = await queryRunner.hasTable(
             this.queryResultCacheTable,
         ) // todo: table name should be configurable
-        if (tableExist) return
+        if (tableExist) {
+            // cache tables created by previous versions have no tags column
+            const hasTagsColumn = await queryRunner.hasColumn(
+                this.queryResultCacheTable,
+                "tags",
+            )
+            if (!hasTagsColumn)
+                await queryRunner.addColumn(
+                    this.queryResultCacheTable,
+                    this.createTagsColumn(),
+                )
+            return
+        }
 
         await queryRunner.createTable(
             new Table({
@@ -125,6 +138,7 @@ export class DbQueryResultCache implements QueryResultCache {
                         }),
                         isNullable: false,
                     },
+                    this.createTagsColumn(),
                 ],
             }),
         )
@@ -221,7 +235,19 @@ export class DbQueryResultCache implements QueryResultCache {
             queryRunner = this.connection.createQueryRunner("master")
         }
 
-        let insertedValues: ObjectLiteral = options
+        // tags are stored wrapped in commas, so a single tag can be matched using LIKE
+        const tags =
+            options.tags && options.tags.length > 0
+                ? `,${options.tags.join(",")},`
+                : null
+        let insertedValues: ObjectLiteral = {
+            identifier: options.identifier,
+            time: options.time,
+            duration: options.duration,
+            query: options.query,
+            result: options.result,
+            tags,
+        }
         if (this.connection.driver.options.type === "mssql") {
             // todo: bad abstraction, re-implement this part, probably better if we create an entity metadata for cache table
             insertedValues = {
@@ -230,6 +256,7 @@ export class DbQueryResultCache implements QueryResultCache {
                 duration: new MssqlParameter(options.duration, "int"),
                 query: new MssqlParameter(options.query, "nvarchar"),
                 result: new MssqlParameter(options.result, "nvarchar"),
+                tags: new MssqlParameter(tags, "nvarchar"),
             }
         }
 
@@ -285,6 +312,76 @@ export class DbQueryResultCache implements QueryResultCache {
         }
     }
 
+    /**
+     * Marks given expired result as being refreshed by the caller.
+     * Creation time of the result is updated only if it was not changed by another caller,
+     * so stale result is returned to other callers until the refreshed result is stored.
+     */
+    async lockRefresh(
+        options: QueryResultCacheOptions,
+        savedCache: QueryResultCacheOptions,
+        queryRunner?: QueryRunner,
+    ): Promise<boolean> {
+        const shouldCreateQueryRunner =
+            queryRunner === undefined ||
+            queryRunner?.getReplicationMode() === "slave"
+
+        if (queryRunner === undefined || shouldCreateQueryRunner) {
+            queryRunner = this.connection.createQueryRunner("master")
+        }
+
+        const isMssql = this.connection.driver.options.type === "mssql"
+        const qb = this.createTimeUpdateQueryBuilder(
+            queryRunner,
+            savedCache,
+            new Date().getTime(),
+        )
+        qb.andWhere(`${qb.escape("time")} = :savedTime`, {
+            savedTime: isMssql
+                ? new MssqlParameter(savedCache.time, "bigint")
+                : savedCache.time,
+        })
+
+        const result = await qb.execute()
+
+        if (shouldCreateQueryRunner) {
+            await queryRunner.release()
+        }
+
+        // drivers not returning number of affected rows are always refreshed
+        return result.affected === undefined || result.affected > 0
+    }
+
+    /**
+     * Restores creation time of the result marked as being refreshed by lockRefresh,
+     * so it is expired again and the next caller refreshes it.
+     */
+    async unlockRefresh(
+        options: QueryResultCacheOptions,
+        savedCache: QueryResultCacheOptions,
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        const shouldCreateQueryRunner =
+            queryRunner === undefined ||
+            queryRunner?.getReplicationMode() === "slave"
+
+        if (queryRunner === undefined || shouldCreateQueryRunner) {
+            queryRunner = this.connection.createQueryRunner("master")
+        }
+
+        try {
+            await this.createTimeUpdateQueryBuilder(
+                queryRunner,
+                savedCache,
+                Number(savedCache.time),
+            ).execute()
+        } finally {
+            if (shouldCreateQueryRunner) {
+                await queryRunner.release()
+            }
+        }
+    }
+
     /**
      * Clears everything stored in the cache.
      */
@@ -320,10 +417,84 @@ export class DbQueryResultCache implements QueryResultCache {
         }
     }
 
+    /**
+     * Removes all cached results having any of the given tags from cache.
+     */
+    async invalidateTags(
+        tags: string[],
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        if (tags.length === 0) return
+
+        const _queryRunner: QueryRunner = queryRunner || this.getQueryRunner()
+        const qb = _queryRunner.manager
+            .createQueryBuilder()
+            .delete()
+            .from(this.queryResultCacheTable)
+        tags.forEach((tag, index) => {
+            qb.orWhere(`${qb.escape("tags")} LIKE :tag${index}`, {
+                [`tag${index}`]: `%,${tag},%`,
+            })
+        })
+        await qb.execute()
+
+        if (!queryRunner) {
+            await _queryRunner.release()
+        }
+    }
+
     // -------------------------------------------------------------------------
     // Protected Methods
     // -------------------------------------------------------------------------
 
+    /**
+     * Creates a query updating creation time of the given cached result.
+     */
+    protected createTimeUpdateQueryBuilder(
+        queryRunner: QueryRunner,
+        savedCache: QueryResultCacheOptions,
+        time: number,
+    ) {
+        const isMssql = this.connection.driver.options.type === "mssql"
+        const qb = queryRunner.manager
+            .createQueryBuilder()
+            .update(this.queryResultCacheTable)
+            .set({ time: isMssql ? new MssqlParameter(time, "bigint") : time })
+
+        if (savedCache.identifier) {
+            qb.where(`${qb.escape("identifier")} = :identifier`, {
+                identifier: isMssql
+                    ? new MssqlParameter(savedCache.identifier, "nvarchar")
+                    : savedCache.identifier,
+            })
+        } else if (this.connection.driver.options.type === "oracle") {
+            qb.where(`dbms_lob.compare("query", :query) = 0`, {
+                query: savedCache.query,
+            })
+        } else {
+            qb.where(`${qb.escape("query")} = :query`, {
+                query: isMssql
+                    ? new MssqlParameter(savedCache.query, "nvarchar")
+                    : savedCache.query,
+            })
+        }
+        return qb
+    }
+
+    /**
+     * Creates column storing tags of the cached results.
+     */
+    protected createTagsColumn(): TableColumn {
+        const driver = this.connection.driver
+        return new TableColumn({
+            name: "tags",
+            type: driver.normalizeType({
+                type: driver.mappedDataTypes.cacheQuery,
+            }),
+            isNullable: true,
+        })
+    }
+
     /**
      * Gets a query runner to work with.
      */
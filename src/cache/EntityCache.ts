@@ -0,0 +1,281 @@
+import { DataSource } from "../data-source/DataSource"
+import { EntityMetadata } from "../metadata/EntityMetadata"
+import { ObjectLiteral } from "../common/ObjectLiteral"
+import { QueryRunner } from "../query-runner/QueryRunner"
+import { EntitySubscriberInterface } from "../subscriber/EntitySubscriberInterface"
+import { TransactionCommitEvent } from "../subscriber/event/TransactionCommitEvent"
+import { TransactionRollbackEvent } from "../subscriber/event/TransactionRollbackEvent"
+
+/**
+ * Caches entities loaded by their primary keys in the query result cache
+ * and removes them from the cache when they are changed.
+ * Entities changed inside a transaction are removed once the transaction is committed.
+ */
+export class EntityCache implements EntitySubscriberInterface {
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Cache identifiers and tags to remove once active transactions of the query runners are committed.
+     */
+    protected pendingEvictions = new WeakMap<
+        QueryRunner,
+        { identifiers: Set<string>; tags: Set<string> }
+    >()
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(protected connection: DataSource) {}
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Gets identifier under which entity found by given condition is cached.
+     * Returns undefined if entity is not cached or condition is not its primary keys.
+     */
+    getIdentifier(metadata: EntityMetadata, where: any): string | undefined {
+        if (!metadata.cache || !this.connection.queryResultCache)
+            return undefined
+        if (
+            !where ||
+            typeof where !== "object" ||
+            Array.isArray(where) ||
+            Object.keys(where).length !== metadata.primaryColumns.length
+        )
+            return undefined
+
+        const values: string[] = []
+        for (const column of metadata.primaryColumns) {
+            if (column.embeddedMetadata || column.relationMetadata)
+                return undefined
+
+            const value = where[column.propertyName]
+            if (typeof value !== "string" && typeof value !== "number")
+                return undefined
+
+            values.push(String(value))
+        }
+
+        // entities with the same primary keys can belong to different tenants
+        if (metadata.tenantColumn) {
+            const tenantId = this.connection.tenantContext.getTenantId()
+            if (tenantId === undefined) return undefined
+
+            values.unshift(String(tenantId))
+        }
+        return `typeorm:entity:${metadata.tablePath}:${JSON.stringify(values)}`
+    }
+
+    /**
+     * Checks if entity is stored in the cache under the given identifier and its result is not expired.
+     */
+    async isCached(
+        identifier: string,
+        queryRunner?: QueryRunner,
+    ): Promise<boolean> {
+        const queryResultCache = this.connection.queryResultCache
+        if (!queryResultCache) return false
+
+        try {
+            const savedCache = await queryResultCache.getFromCache(
+                { identifier, duration: 0 },
+                queryRunner,
+            )
+            return !!savedCache && !queryResultCache.isExpired(savedCache)
+        } catch (error) {
+            const cacheOptions =
+                typeof this.connection.options.cache === "object"
+                    ? this.connection.options.cache
+                    : {}
+            if (!cacheOptions.ignoreErrors) {
+                throw error
+            }
+            return false
+        }
+    }
+
+    /**
+     * Removes entities with given ids from the cache.
+     */
+    async evict(
+        metadata: EntityMetadata,
+        entityIds: (ObjectLiteral | undefined)[],
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        // entities changed without tenant can be cached by any tenant
+        if (
+            metadata.tenantColumn &&
+            this.connection.tenantContext.isRunningWithoutTenant()
+        )
+            return this.evictAll(metadata, queryRunner)
+
+        const identifiers: string[] = []
+        for (const entityId of entityIds) {
+            const identifier = this.getIdentifier(metadata, entityId)
+            if (identifier && identifiers.indexOf(identifier) === -1)
+                identifiers.push(identifier)
+        }
+        if (identifiers.length === 0) return
+
+        await this.invalidate(identifiers, [], queryRunner)
+    }
+
+    /**
+     * Removes all entities of the given entity from the cache.
+     * Used when changed entities are not known, for example after query builder updates.
+     */
+    async evictAll(
+        metadata: EntityMetadata,
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        if (!metadata.cache || !this.connection.queryResultCache) return
+
+        await this.invalidate([], [metadata.tablePath], queryRunner)
+    }
+
+    /**
+     * Removes from the cache all entities which may be changed by foreign keys
+     * when entities of the given entity are removed from the database.
+     */
+    async evictDependents(
+        metadata: EntityMetadata,
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        const dependents = this.getDependentMetadatas(metadata)
+        for (const dependent of dependents) {
+            await this.evictAll(dependent, queryRunner)
+        }
+    }
+
+    afterTransactionCommit(event: TransactionCommitEvent): Promise<void> {
+        return this.flush(event.queryRunner)
+    }
+
+    afterTransactionRollback(event: TransactionRollbackEvent): void {
+        if (event.queryRunner.isTransactionActive) return
+
+        this.pendingEvictions.delete(event.queryRunner)
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Removes given cache identifiers and tags from the cache,
+     * or postpones it until the active transaction is committed.
+     */
+    protected async invalidate(
+        identifiers: string[],
+        tags: string[],
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        if (!queryRunner || !queryRunner.isTransactionActive) {
+            await this.remove(identifiers, tags, queryRunner)
+            return
+        }
+
+        let pending = this.pendingEvictions.get(queryRunner)
+        if (!pending) {
+            pending = { identifiers: new Set(), tags: new Set() }
+            this.pendingEvictions.set(queryRunner, pending)
+        }
+        identifiers.forEach((identifier) =>
+            pending!.identifiers.add(identifier),
+        )
+        tags.forEach((tag) => pending!.tags.add(tag))
+    }
+
+    /**
+     * Removes cache identifiers and tags postponed until the transaction of given query runner is committed.
+     */
+    protected async flush(queryRunner: QueryRunner): Promise<void> {
+        // nested transactions are committed together with the outer one
+        if (queryRunner.isTransactionActive) return
+
+        const pending = this.pendingEvictions.get(queryRunner)
+        if (!pending) return
+
+        this.pendingEvictions.delete(queryRunner)
+        await this.remove(
+            Array.from(pending.identifiers),
+            Array.from(pending.tags),
+            queryRunner,
+        )
+    }
+
+    /**
+     * Removes given cache identifiers and tags from the cache.
+     * Whole cache is cleared if cache does not support tags.
+     */
+    protected async remove(
+        identifiers: string[],
+        tags: string[],
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        const queryResultCache = this.connection.queryResultCache
+        if (!queryResultCache) return
+
+        try {
+            if (identifiers.length > 0)
+                await queryResultCache.remove(identifiers, queryRunner)
+
+            if (tags.length > 0) {
+                if (queryResultCache.invalidateTags) {
+                    await queryResultCache.invalidateTags(tags, queryRunner)
+                } else {
+                    await queryResultCache.clear(queryRunner)
+                }
+            }
+        } catch (error) {
+            const cacheOptions =
+                typeof this.connection.options.cache === "object"
+                    ? this.connection.options.cache
+                    : {}
+            if (!cacheOptions.ignoreErrors) {
+                throw error
+            }
+        }
+    }
+
+    /**
+     * Gets cached entities whose rows are changed or removed by foreign keys
+     * when rows of the given entity are removed, including indirect ones.
+     */
+    protected getDependentMetadatas(
+        metadata: EntityMetadata,
+        visited: EntityMetadata[] = [],
+    ): EntityMetadata[] {
+        const dependents: EntityMetadata[] = []
+        for (const dependent of this.connection.entityMetadatas) {
+            if (visited.indexOf(dependent) !== -1) continue
+
+            const foreignKeys = dependent.foreignKeys.filter(
+                (foreignKey) =>
+                    foreignKey.referencedEntityMetadata === metadata &&
+                    foreignKey.onDelete !== "NO ACTION" &&
+                    foreignKey.onDelete !== "RESTRICT",
+            )
+            if (foreignKeys.length === 0) continue
+
+            visited.push(dependent)
+            if (dependent.cache) dependents.push(dependent)
+
+            // only removed rows can change rows of other entities
+            if (
+                foreignKeys.some(
+                    (foreignKey) => foreignKey.onDelete === "CASCADE",
+                )
+            )
+                dependents.push(
+                    ...this.getDependentMetadatas(dependent, visited),
+                )
+        }
+        return dependents
+    }
+}
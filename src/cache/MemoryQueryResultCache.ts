@@ -0,0 +1,179 @@
+import { QueryResultCache } from "./QueryResultCache"
+import { QueryResultCacheOptions } from "./QueryResultCacheOptions"
+import { DataSource } from "../data-source/DataSource"
+import { QueryRunner } from "../query-runner/QueryRunner"
+
+/**
+ * Caches query result in memory of the current process.
+ * When cache is full, least recently used results are removed first.
+ */
+export class MemoryQueryResultCache implements QueryResultCache {
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Cached results by their keys, ordered from the least to the most recently used.
+     */
+    protected entries = new Map<string, QueryResultCacheOptions>()
+
+    /**
+     * Keys of the cached results by their tags.
+     */
+    protected taggedKeys = new Map<string, Set<string>>()
+
+    /**
+     * Maximum number of cached results.
+     */
+    protected maxEntries: number
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(protected connection: DataSource) {
+        const cacheOptions =
+            typeof this.connection.options.cache === "object"
+                ? this.connection.options.cache
+                : {}
+        this.maxEntries = cacheOptions.maxEntries || 1000
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates a connection with given cache provider.
+     */
+    async connect(): Promise<void> {}
+
+    /**
+     * Disconnects with given cache provider.
+     */
+    async disconnect(): Promise<void> {
+        this.entries.clear()
+        this.taggedKeys.clear()
+    }
+
+    /**
+     * Memory cache does not need any schema.
+     */
+    async synchronize(queryRunner?: QueryRunner): Promise<void> {}
+
+    /**
+     * Get data from cache.
+     * Returns cache result if found.
+     * Returns undefined if result is not cached.
+     */
+    async getFromCache(
+        options: QueryResultCacheOptions,
+        queryRunner?: QueryRunner,
+    ): Promise<QueryResultCacheOptions | undefined> {
+        const key = this.getKey(options)
+        if (!key) return undefined
+
+        const savedCache = this.entries.get(key)
+        if (!savedCache) return undefined
+
+        // move result to the end of the map to mark it as the most recently used
+        this.entries.delete(key)
+        this.entries.set(key, savedCache)
+        return savedCache
+    }
+
+    /**
+     * Checks if cache is expired or not.
+     */
+    isExpired(savedCache: QueryResultCacheOptions): boolean {
+        return savedCache.time! + savedCache.duration < new Date().getTime()
+    }
+
+    /**
+     * Stores given query result in the cache.
+     */
+    async storeInCache(
+        options: QueryResultCacheOptions,
+        savedCache: QueryResultCacheOptions | undefined,
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        const key = this.getKey(options)
+        if (!key) return
+
+        this.deleteKey(key)
+        this.entries.set(key, options)
+        for (const tag of options.tags || []) {
+            let keys = this.taggedKeys.get(tag)
+            if (!keys) {
+                keys = new Set()
+                this.taggedKeys.set(tag, keys)
+            }
+            keys.add(key)
+        }
+
+        while (this.entries.size > this.maxEntries) {
+            this.deleteKey(this.entries.keys().next().value)
+        }
+    }
+
+    /**
+     * Clears everything stored in the cache.
+     */
+    async clear(queryRunner?: QueryRunner): Promise<void> {
+        this.entries.clear()
+        this.taggedKeys.clear()
+    }
+
+    /**
+     * Removes all cached results by given identifiers from cache.
+     */
+    async remove(
+        identifiers: string[],
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        identifiers.forEach((identifier) => this.deleteKey(identifier))
+    }
+
+    /**
+     * Removes all cached results having any of the given tags from cache.
+     */
+    async invalidateTags(
+        tags: string[],
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        for (const tag of tags) {
+            const keys = this.taggedKeys.get(tag)
+            if (!keys) continue
+
+            keys.forEach((key) => this.deleteKey(key))
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Gets key under which result is cached.
+     */
+    protected getKey(options: QueryResultCacheOptions): string | undefined {
+        return options.identifier || options.query
+    }
+
+    /**
+     * Removes a single cached result together with its tags.
+     */
+    protected deleteKey(key: string): void {
+        const savedCache = this.entries.get(key)
+        if (!savedCache) return
+
+        this.entries.delete(key)
+        for (const tag of savedCache.tags || []) {
+            const keys = this.taggedKeys.get(tag)
+            if (!keys) continue
+
+            keys.delete(key)
+            if (keys.size === 0) this.taggedKeys.delete(tag)
+        }
+    }
+}
@@ -42,6 +42,27 @@ export interface QueryResultCache {
      */
     isExpired(savedCache: QueryResultCacheOptions): boolean
 
+    /**
+     * Marks given expired result as being refreshed by the caller.
+     * Returns false if another caller is already refreshing it, in which case the stale result is used.
+     * Cache providers not implementing this method are refreshed by every caller outside of the current process.
+     */
+    lockRefresh?(
+        options: QueryResultCacheOptions,
+        savedCache: QueryResultCacheOptions,
+        queryRunner?: QueryRunner,
+    ): Promise<boolean>
+
+    /**
+     * Releases the lock taken by lockRefresh when refreshing the result has failed,
+     * so the stale result is refreshed again by the next caller.
+     */
+    unlockRefresh?(
+        options: QueryResultCacheOptions,
+        savedCache: QueryResultCacheOptions,
+        queryRunner?: QueryRunner,
+    ): Promise<void>
+
     /**
      * Clears everything stored in the cache.
      */
@@ -51,4 +72,10 @@ export interface QueryResultCache {
      * Removes all cached results by given identifiers from cache.
      */
     remove(identifiers: string[], queryRunner?: QueryRunner): Promise<void>
+
+    /**
+     * Removes all cached results having any of the given tags from cache.
+     * Cache providers not implementing this method are not invalidated by tags.
+     */
+    invalidateTags?(tags: string[], queryRunner?: QueryRunner): Promise<void>
 }
@@ -1,5 +1,6 @@
 import { RedisQueryResultCache } from "./RedisQueryResultCache"
 import { DbQueryResultCache } from "./DbQueryResultCache"
+import { MemoryQueryResultCache } from "./MemoryQueryResultCache"
 import { QueryResultCache } from "./QueryResultCache"
 import { DataSource } from "../data-source/DataSource"
 import { TypeORMError } from "../error/TypeORMError"
@@ -39,6 +40,8 @@ export class QueryResultCacheFactory {
             cache.type === "ioredis/cluster"
         ) {
             return new RedisQueryResultCache(this.connection, cache.type)
+        } else if (cache.type === "memory") {
+            return new MemoryQueryResultCache(this.connection)
         } else {
             return new DbQueryResultCache(this.connection)
         }
@@ -0,0 +1,121 @@
+import { DataSource } from "../data-source/DataSource"
+import { EntityMetadata } from "../metadata/EntityMetadata"
+import { QueryRunner } from "../query-runner/QueryRunner"
+import { EntitySubscriberInterface } from "../subscriber/EntitySubscriberInterface"
+import { InsertEvent } from "../subscriber/event/InsertEvent"
+import { RecoverEvent } from "../subscriber/event/RecoverEvent"
+import { RemoveEvent } from "../subscriber/event/RemoveEvent"
+import { SoftRemoveEvent } from "../subscriber/event/SoftRemoveEvent"
+import { TransactionCommitEvent } from "../subscriber/event/TransactionCommitEvent"
+import { TransactionRollbackEvent } from "../subscriber/event/TransactionRollbackEvent"
+import { UpdateEvent } from "../subscriber/event/UpdateEvent"
+
+/**
+ * Removes cached query results tagged with paths of the changed tables.
+ * Changes made inside a transaction invalidate the cache once the transaction is committed.
+ */
+export class QueryResultCacheInvalidator implements EntitySubscriberInterface {
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Tags changed in the active transactions of the query runners.
+     */
+    protected pendingTags = new WeakMap<QueryRunner, Set<string>>()
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(protected connection: DataSource) {}
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    afterInsert(event: InsertEvent<any>): Promise<void> {
+        return this.invalidate(event.queryRunner, event.metadata)
+    }
+
+    afterUpdate(event: UpdateEvent<any>): Promise<void> {
+        return this.invalidate(event.queryRunner, event.metadata)
+    }
+
+    afterRemove(event: RemoveEvent<any>): Promise<void> {
+        return this.invalidate(event.queryRunner, event.metadata)
+    }
+
+    afterSoftRemove(event: SoftRemoveEvent<any>): Promise<void> {
+        return this.invalidate(event.queryRunner, event.metadata)
+    }
+
+    afterRecover(event: RecoverEvent<any>): Promise<void> {
+        return this.invalidate(event.queryRunner, event.metadata)
+    }
+
+    async afterTransactionCommit(event: TransactionCommitEvent): Promise<void> {
+        // nested transactions are committed together with the outer one
+        if (event.queryRunner.isTransactionActive) return
+
+        const tags = this.pendingTags.get(event.queryRunner)
+        if (!tags) return
+
+        this.pendingTags.delete(event.queryRunner)
+        await this.invalidateTags(Array.from(tags), event.queryRunner)
+    }
+
+    afterTransactionRollback(event: TransactionRollbackEvent): void {
+        if (event.queryRunner.isTransactionActive) return
+
+        this.pendingTags.delete(event.queryRunner)
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Invalidates results cached for the table of the given entity,
+     * or postpones it until the active transaction is committed.
+     */
+    protected async invalidate(
+        queryRunner: QueryRunner,
+        metadata: EntityMetadata,
+    ): Promise<void> {
+        if (!queryRunner.isTransactionActive) {
+            await this.invalidateTags([metadata.tablePath], queryRunner)
+            return
+        }
+
+        let tags = this.pendingTags.get(queryRunner)
+        if (!tags) {
+            tags = new Set()
+            this.pendingTags.set(queryRunner, tags)
+        }
+        tags.add(metadata.tablePath)
+    }
+
+    /**
+     * Removes cached results having given tags, if cache supports tags.
+     */
+    protected async invalidateTags(
+        tags: string[],
+        queryRunner: QueryRunner,
+    ): Promise<void> {
+        const queryResultCache = this.connection.queryResultCache
+        if (!queryResultCache || !queryResultCache.invalidateTags) return
+
+        try {
+            await queryResultCache.invalidateTags(tags, queryRunner)
+        } catch (error) {
+            const cacheOptions =
+                typeof this.connection.options.cache === "object"
+                    ? this.connection.options.cache
+                    : {}
+            if (!cacheOptions.ignoreErrors) {
+                throw error
+            }
+        }
+    }
+}
@@ -18,6 +18,12 @@ export interface QueryResultCacheOptions {
      */
     duration: number
 
+    /**
+     * Time in milliseconds after expiration during which the expired result is still returned,
+     * while a single caller refreshes it.
+     */
+    staleWhileRevalidate?: number
+
     /**
      * Cached query.
      */
@@ -27,4 +33,10 @@ export interface QueryResultCacheOptions {
      * Query result that will be cached.
      */
     result?: any
+
+    /**
+     * Tags of the cached result, used to invalidate results by tags.
+     * Contains paths of the tables used by the query and tags set by user.
+     */
+    tags?: string[]
 }
@@ -163,13 +163,13 @@ export class RedisQueryResultCache implements QueryResultCache {
         savedCache: QueryResultCacheOptions,
         queryRunner?: QueryRunner,
     ): Promise<void> {
-        return new Promise<void>((ok, fail) => {
+        await new Promise<void>((ok, fail) => {
             if (options.identifier) {
                 this.client.set(
                     options.identifier,
                     JSON.stringify(options),
                     "PX",
-                    options.duration,
+                    this.getExpirationTime(options),
                     (err: any, result: any) => {
                         if (err) return fail(err)
                         ok()
@@ -180,7 +180,7 @@ export class RedisQueryResultCache implements QueryResultCache {
                     options.query,
                     JSON.stringify(options),
                     "PX",
-                    options.duration,
+                    this.getExpirationTime(options),
                     (err: any, result: any) => {
                         if (err) return fail(err)
                         ok()
@@ -188,6 +188,58 @@ export class RedisQueryResultCache implements QueryResultCache {
                 )
             }
         })
+
+        const key = options.identifier || options.query
+        if (key && options.tags) {
+            await Promise.all(
+                options.tags.map((tag) => this.addKeyToTag(tag, key)),
+            )
+        }
+
+        // refreshed result is stored, so other callers can refresh it once it expires again
+        if (key && options.staleWhileRevalidate) {
+            await this.deleteKey(this.getRefreshLockKey(key))
+        }
+    }
+
+    /**
+     * Marks given expired result as being refreshed by the caller.
+     * Returns false if another caller is already refreshing it.
+     */
+    lockRefresh(
+        options: QueryResultCacheOptions,
+        savedCache: QueryResultCacheOptions,
+        queryRunner?: QueryRunner,
+    ): Promise<boolean> {
+        return new Promise<boolean>((ok, fail) => {
+            const key = options.identifier || options.query
+            if (!key) return ok(true)
+
+            // lock expires together with the stale result in case refresh has failed
+            this.client.set(
+                this.getRefreshLockKey(key),
+                "1",
+                "PX",
+                options.staleWhileRevalidate || options.duration,
+                "NX",
+                (err: any, result: any) => {
+                    if (err) return fail(err)
+                    ok(result === "OK")
+                },
+            )
+        })
+    }
+
+    /**
+     * Removes the mark set by lockRefresh when refreshing the result has failed.
+     */
+    async unlockRefresh(
+        options: QueryResultCacheOptions,
+        savedCache: QueryResultCacheOptions,
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        const key = options.identifier || options.query
+        if (key) await this.deleteKey(this.getRefreshLockKey(key))
     }
 
     /**
@@ -216,10 +268,79 @@ export class RedisQueryResultCache implements QueryResultCache {
         )
     }
 
+    /**
+     * Removes all cached results having any of the given tags from cache.
+     */
+    async invalidateTags(
+        tags: string[],
+        queryRunner?: QueryRunner,
+    ): Promise<void> {
+        await Promise.all(
+            tags.map(async (tag) => {
+                const keys = await this.getTagKeys(tag)
+                await Promise.all(keys.map((key) => this.deleteKey(key)))
+                await this.deleteKey(this.getTagKey(tag))
+            }),
+        )
+    }
+
     // -------------------------------------------------------------------------
     // Protected Methods
     // -------------------------------------------------------------------------
 
+    /**
+     * Gets time in milliseconds in which cached result is removed from redis.
+     * Expired results are kept during stale-while-revalidate window.
+     */
+    protected getExpirationTime(options: QueryResultCacheOptions): number {
+        return options.duration + (options.staleWhileRevalidate || 0)
+    }
+
+    /**
+     * Gets key used to mark result cached under given key as being refreshed.
+     */
+    protected getRefreshLockKey(key: string): string {
+        return `typeorm:cache:refresh:${key}`
+    }
+
+    /**
+     * Gets key of the redis set storing keys of the results cached with given tag.
+     */
+    protected getTagKey(tag: string): string {
+        return `typeorm:cache:tag:${tag}`
+    }
+
+    /**
+     * Adds key of the cached result into the set of given tag.
+     */
+    protected addKeyToTag(tag: string, key: string): Promise<void> {
+        return new Promise<void>((ok, fail) => {
+            this.client.sadd(
+                this.getTagKey(tag),
+                key,
+                (err: any, result: any) => {
+                    if (err) return fail(err)
+                    ok()
+                },
+            )
+        })
+    }
+
+    /**
+     * Gets keys of the results cached with given tag.
+     */
+    protected getTagKeys(tag: string): Promise<string[]> {
+        return new Promise<string[]>((ok, fail) => {
+            this.client.smembers(
+                this.getTagKey(tag),
+                (err: any, result: any) => {
+                    if (err) return fail(err)
+                    ok(result || [])
+                },
+            )
+        })
+    }
+
     /**
      * Removes a single key from redis database.
      */
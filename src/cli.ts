@@ -5,6 +5,8 @@ import { SchemaSyncCommand } from "./commands/SchemaSyncCommand"
 import { SchemaDropCommand } from "./commands/SchemaDropCommand"
 import { QueryCommand } from "./commands/QueryCommand"
 import { EntityCreateCommand } from "./commands/EntityCreateCommand"
+import { EntityIntrospectCommand } from "./commands/EntityIntrospectCommand"
+import { EntityExportCommand } from "./commands/EntityExportCommand"
 import { MigrationCreateCommand } from "./commands/MigrationCreateCommand"
 import { MigrationRunCommand } from "./commands/MigrationRunCommand"
 import { MigrationRevertCommand } from "./commands/MigrationRevertCommand"
@@ -15,6 +17,9 @@ import { MigrationGenerateCommand } from "./commands/MigrationGenerateCommand"
 import { VersionCommand } from "./commands/VersionCommand"
 import { InitCommand } from "./commands/InitCommand"
 import { CacheClearCommand } from "./commands/CacheClearCommand"
+import { SeedCreateCommand } from "./commands/SeedCreateCommand"
+import { SeedRunCommand } from "./commands/SeedRunCommand"
+import { SeedShowCommand } from "./commands/SeedShowCommand"
 
 yargs
     .usage("Usage: $0 <command> [options]")
@@ -23,12 +28,17 @@ yargs
     .command(new SchemaDropCommand())
     .command(new QueryCommand())
     .command(new EntityCreateCommand())
+    .command(new EntityIntrospectCommand())
+    .command(new EntityExportCommand())
     .command(new SubscriberCreateCommand())
     .command(new MigrationCreateCommand())
     .command(new MigrationGenerateCommand())
     .command(new MigrationRunCommand())
     .command(new MigrationShowCommand())
     .command(new MigrationRevertCommand())
+    .command(new SeedCreateCommand())
+    .command(new SeedRunCommand())
+    .command(new SeedShowCommand())
     .command(new VersionCommand())
     .command(new CacheClearCommand())
     .command(new InitCommand())
@@ -6,6 +6,9 @@ import { DataSource } from "../data-source"
 import { InstanceChecker } from "../util/InstanceChecker"
 import { importOrRequireFile } from "../util/ImportUtils"
 import { CommandDataSource } from "./CommandDataSource"
+import { MigrationDryRun } from "../migration/MigrationDryRun"
+import { highlight } from "cli-highlight"
+import chalk from "chalk"
 
 /**
  * Command line utils functions.
@@ -124,4 +127,67 @@ export class CommandUtils {
             ? new Date(Number(timestampOptionArgument)).getTime()
             : Date.now()
     }
+
+    /**
+     * Builds sql script from queries recorded during migrations dry-run.
+     * Raw queries which may not be captured faithfully are marked with a warning comment.
+     */
+    static getMigrationDryRunSql(dryRuns: MigrationDryRun[]): string {
+        return dryRuns
+            .map((dryRun) => {
+                const lines = [
+                    `-- Migration ${dryRun.migration.name} (${dryRun.direction})`,
+                ]
+                for (const query of dryRun.queries) {
+                    if (dryRun.rawQueries.indexOf(query) !== -1)
+                        lines.push(
+                            "-- WARNING: raw query, its result was not available to the migration during dry-run",
+                        )
+
+                    let sqlString = query.query.trim()
+                    sqlString =
+                        sqlString.substr(-1) === ";"
+                            ? sqlString
+                            : sqlString + ";"
+                    if (query.parameters && query.parameters.length)
+                        sqlString += ` -- PARAMETERS: ${JSON.stringify(
+                            query.parameters,
+                        )}`
+                    lines.push(sqlString)
+                }
+                return lines.join("\n")
+            })
+            .join("\n\n")
+    }
+
+    /**
+     * Prints queries recorded during migrations dry-run,
+     * or writes them into the given sql file.
+     */
+    static async logMigrationDryRuns(
+        dryRuns: MigrationDryRun[],
+        outputPath?: string,
+    ): Promise<void> {
+        const sql = CommandUtils.getMigrationDryRunSql(dryRuns)
+        if (outputPath) {
+            await CommandUtils.createFile(outputPath, sql + "\n")
+            console.log(
+                `Dry-run sql has been written to ${chalk.blue(outputPath)}.`,
+            )
+        } else {
+            console.log(highlight(sql))
+        }
+
+        const rawQueriesCount = dryRuns.reduce(
+            (count, dryRun) => count + dryRun.rawQueries.length,
+            0,
+        )
+        if (rawQueriesCount > 0)
+            console.log(
+                chalk.yellow(
+                    `${rawQueriesCount} raw queries were recorded without being executed, ` +
+                        `migrations depending on their results may run differently.`,
+                ),
+            )
+    }
 }
@@ -0,0 +1,114 @@
+import { DataSource } from "../data-source/DataSource"
+import * as yargs from "yargs"
+import chalk from "chalk"
+import { PlatformTools } from "../platform/PlatformTools"
+import path from "path"
+import process from "process"
+import { CommandUtils } from "./CommandUtils"
+import { JsonSchemaExporter } from "../schema-export/JsonSchemaExporter"
+import { EntitySchemaExporter } from "../schema-export/EntitySchemaExporter"
+
+/**
+ * Exports entities as JSON Schema or EntitySchema definitions.
+ */
+export class EntityExportCommand implements yargs.CommandModule {
+    command = "entity:export <path>"
+    describe = "Exports entities as JSON Schema or EntitySchema definitions."
+
+    builder(args: yargs.Argv) {
+        return args
+            .positional("path", {
+                type: "string",
+                describe:
+                    "Path of the directory where exported files are created",
+                demandOption: true,
+            })
+            .option("dataSource", {
+                alias: "d",
+                type: "string",
+                describe:
+                    "Path to the file where your DataSource instance is defined.",
+                demandOption: true,
+            })
+            .option("format", {
+                alias: "f",
+                choices: ["json-schema", "entity-schema"],
+                default: "json-schema",
+                describe: "Format of exported files.",
+            })
+            .option("baseUri", {
+                type: "string",
+                describe:
+                    "URI prepended to identifiers of exported JSON schemas.",
+            })
+            .option("overwrite", {
+                type: "boolean",
+                default: false,
+                describe: "Overwrites existing files.",
+            })
+    }
+
+    async handler(args: yargs.Arguments) {
+        let dataSource: DataSource | undefined = undefined
+        try {
+            dataSource = await CommandUtils.loadDataSource(
+                path.resolve(process.cwd(), args.dataSource as string),
+            )
+            dataSource.setOptions({
+                synchronize: false,
+                migrationsRun: false,
+                dropSchema: false,
+                logging: false,
+            })
+            await dataSource.initialize()
+
+            let files: { fileName: string; content: string }[]
+            if (args.format === "entity-schema") {
+                files = new EntitySchemaExporter(dataSource).generate()
+            } else {
+                const schemas = new JsonSchemaExporter(dataSource, {
+                    baseUri: args.baseUri as string | undefined,
+                }).createSchemas()
+                files = Object.keys(schemas).map((name) => ({
+                    fileName: name + ".json",
+                    content: JSON.stringify(schemas[name], null, 4) + "\n",
+                }))
+            }
+
+            await dataSource.destroy()
+            dataSource = undefined
+
+            const directory = path.resolve(process.cwd(), args.path as string)
+            const filePaths = files.map((file) =>
+                path.join(directory, file.fileName),
+            )
+            if (!args.overwrite) {
+                for (const filePath of filePaths) {
+                    if (await CommandUtils.fileExists(filePath)) {
+                        throw `File ${chalk.blue(
+                            filePath,
+                        )} already exists. Use --overwrite option to replace it.`
+                    }
+                }
+            }
+
+            for (let i = 0; i < files.length; i++) {
+                await CommandUtils.createFile(filePaths[i], files[i].content)
+                console.log(
+                    chalk.green(
+                        `File ${chalk.blue(
+                            filePaths[i],
+                        )} has been exported successfully.`,
+                    ),
+                )
+            }
+        } catch (err) {
+            PlatformTools.logCmdErr("Error during entity export:", err)
+
+            if (dataSource && dataSource.isInitialized)
+                await dataSource.destroy()
+
+            process.exit(1)
+        }
+    }
+}
@@ -0,0 +1,116 @@
+import { DataSource } from "../data-source/DataSource"
+import * as yargs from "yargs"
+import chalk from "chalk"
+import { PlatformTools } from "../platform/PlatformTools"
+import path from "path"
+import process from "process"
+import { CommandUtils } from "./CommandUtils"
+import { EntityIntrospector } from "./EntityIntrospector"
+
+/**
+ * Generates entities from tables and views of an existing database.
+ */
+export class EntityIntrospectCommand implements yargs.CommandModule {
+    command = "entity:introspect <path>"
+    describe =
+        "Generates entities from tables and views of an existing database."
+
+    builder(args: yargs.Argv) {
+        return args
+            .positional("path", {
+                type: "string",
+                describe:
+                    "Path of the directory where entity files are created",
+                demandOption: true,
+            })
+            .option("dataSource", {
+                alias: "d",
+                type: "string",
+                describe:
+                    "Path to the file where your DataSource instance is defined.",
+                demandOption: true,
+            })
+            .option("include", {
+                type: "array",
+                string: true,
+                describe:
+                    "Names of tables and views to generate entities for. Names can contain * wildcards.",
+            })
+            .option("exclude", {
+                type: "array",
+                string: true,
+                describe:
+                    "Names of tables and views not to generate entities for. Names can contain * wildcards.",
+            })
+            .option("overwrite", {
+                type: "boolean",
+                default: false,
+                describe: "Overwrites existing entity files.",
+            })
+    }
+
+    async handler(args: yargs.Arguments) {
+        let dataSource: DataSource | undefined = undefined
+        try {
+            dataSource = await CommandUtils.loadDataSource(
+                path.resolve(process.cwd(), args.dataSource as string),
+            )
+            dataSource.setOptions({
+                synchronize: false,
+                migrationsRun: false,
+                dropSchema: false,
+                logging: false,
+            })
+            await dataSource.initialize()
+
+            const entities = await new EntityIntrospector(dataSource, {
+                include: args.include as string[] | undefined,
+                exclude: args.exclude as string[] | undefined,
+            }).generate()
+
+            await dataSource.destroy()
+            dataSource = undefined
+
+            if (entities.length === 0) {
+                console.log(
+                    chalk.yellow(
+                        "No tables or views were found in the database.",
+                    ),
+                )
+                return
+            }
+
+            const directory = path.resolve(process.cwd(), args.path as string)
+            const filePaths = entities.map((entity) =>
+                path.join(directory, entity.fileName),
+            )
+            if (!args.overwrite) {
+                for (const filePath of filePaths) {
+                    if (await CommandUtils.fileExists(filePath)) {
+                        throw `File ${chalk.blue(
+                            filePath,
+                        )} already exists. Use --overwrite option to replace it.`
+                    }
+                }
+            }
+
+            for (let i = 0; i < entities.length; i++) {
+                await CommandUtils.createFile(filePaths[i], entities[i].content)
+                console.log(
+                    chalk.green(
+                        `Entity ${chalk.blue(
+                            filePaths[i],
+                        )} has been generated successfully.`,
+                    ),
+                )
+            }
+        } catch (err) {
+            PlatformTools.logCmdErr("Error during entity introspection:", err)
+
+            if (dataSource && dataSource.isInitialized)
+                await dataSource.destroy()
+
+            process.exit(1)
+        }
+    }
+}
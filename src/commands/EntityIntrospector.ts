@@ -0,0 +1,1204 @@
+import { DataSource } from "../data-source/DataSource"
+import { DriverUtils } from "../driver/DriverUtils"
+import { ObjectLiteral } from "../common/ObjectLiteral"
+import { QueryRunner } from "../query-runner/QueryRunner"
+import { Table } from "../schema-builder/table/Table"
+import { TableColumn } from "../schema-builder/table/TableColumn"
+import { TableForeignKey } from "../schema-builder/table/TableForeignKey"
+import { View } from "../schema-builder/view/View"
+import { camelCase } from "../util/StringUtils"
+
+/**
+ * Options of entities introspection.
+ */
+export interface EntityIntrospectorOptions {
+    /**
+     * Names of tables and views to generate entities for.
+     * Names can contain "*" wildcards. All tables and views are used by default.
+     */
+    include?: string[]
+
+    /**
+     * Names of tables and views not to generate entities for.
+     * Names can contain "*" wildcards.
+     */
+    exclude?: string[]
+}
+
+/**
+ * Entity file generated from a table or a view.
+ */
+export interface IntrospectedEntity {
+    /**
+     * Name of the generated entity class.
+     */
+    className: string
+
+    /**
+     * Name of the file the entity class should be written to.
+     */
+    fileName: string
+
+    /**
+     * Source code of the entity file.
+     */
+    content: string
+}
+
+/**
+ * Tables and views of the introspected schema, read from the database catalog.
+ */
+interface SchemaCatalog {
+    /**
+     * Paths of the tables.
+     */
+    tablePaths: string[]
+
+    /**
+     * Views with their expressions.
+     */
+    views: View[]
+
+    /**
+     * Column names of the tables and views in ordinal order, by table and view names.
+     */
+    columnNames: Map<string, string[]>
+}
+
+/**
+ * Table or view for which an entity class is generated.
+ */
+interface EntityModel {
+    className: string
+    table?: Table
+    view?: View
+
+    /**
+     * Property names by column names.
+     */
+    propertyNames: Map<string, string>
+
+    /**
+     * Names of all properties of the class, used to avoid name clashes.
+     */
+    usedNames: Set<string>
+
+    /**
+     * Class members, each one being a list of lines.
+     */
+    members: string[][]
+
+    /**
+     * Decorators and types imported from "typeorm".
+     */
+    imports: Set<string>
+
+    /**
+     * Classes of related entities.
+     */
+    relatedClasses: Set<string>
+
+    /**
+     * Columns of one-to-one relations, whose unique constraints are created by the relations.
+     */
+    oneToOneColumnNames: string[][]
+}
+
+/**
+ * Generates entity classes from tables and views of an existing database.
+ */
+export class EntityIntrospector {
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(
+        protected connection: DataSource,
+        protected options: EntityIntrospectorOptions = {},
+    ) {}
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Loads tables and views from the database and generates entity files for them.
+     */
+    async generate(): Promise<IntrospectedEntity[]> {
+        const queryRunner = this.connection.createQueryRunner()
+        try {
+            const catalog = await this.loadCatalog(queryRunner)
+            const tables = (
+                await queryRunner.getTables(
+                    catalog &&
+                        catalog.tablePaths.filter((path) =>
+                            this.isIncluded(path),
+                        ),
+                )
+            ).filter((table) => this.isIncluded(table.name))
+            if (catalog)
+                tables.forEach((table) => this.sortColumns(table, catalog))
+
+            const views = (
+                catalog
+                    ? await this.loadCatalogViews(queryRunner, catalog)
+                    : await queryRunner.getViews()
+            ).filter((view) => this.isIncluded(view.name))
+
+            // tables having only foreign keys to two entities are represented by many-to-many relations
+            const junctionTables = tables.filter((table) =>
+                this.isJunctionTable(table, tables),
+            )
+            const entityTables = tables.filter(
+                (table) => junctionTables.indexOf(table) === -1,
+            )
+
+            const usedClassNames = new Set<string>()
+            const models = entityTables.map((table) =>
+                this.createTableModel(table, usedClassNames),
+            )
+            for (const model of models) {
+                for (const foreignKey of model.table!.foreignKeys) {
+                    const target = this.findModel(
+                        models,
+                        foreignKey.referencedTableName,
+                    )
+                    if (target)
+                        this.addForeignKeyRelation(model, target, foreignKey)
+                }
+            }
+            for (const junctionTable of junctionTables) {
+                this.addManyToManyRelation(models, junctionTable)
+            }
+
+            for (const view of views) {
+                models.push(
+                    await this.createViewModel(
+                        queryRunner,
+                        view,
+                        usedClassNames,
+                        catalog &&
+                            catalog.columnNames.get(this.getName(view.name)),
+                    ),
+                )
+            }
+
+            return models.map((model) => ({
+                className: model.className,
+                fileName: model.className + ".ts",
+                content: this.render(model),
+            }))
+        } finally {
+            await queryRunner.release()
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Reads tables and views of the configured or current schema from the database catalog,
+     * so views are told apart from tables and tables of other schemas, including system ones, are skipped.
+     * Returns undefined for drivers whose catalog is not read, all tables and views known to query runner are used then.
+     */
+    protected async loadCatalog(
+        queryRunner: QueryRunner,
+    ): Promise<SchemaCatalog | undefined> {
+        const driver = this.connection.driver
+        let tables: ObjectLiteral[]
+        let views: ObjectLiteral[]
+        let columns: ObjectLiteral[] = []
+        let schemaPrefix: string | undefined
+        let databasePrefix: string | undefined
+
+        if (DriverUtils.isPostgresFamily(driver)) {
+            const { schema: configuredSchema } = this.connection.options as {
+                schema?: string
+            }
+            const schema = this.escapeLiteral(
+                configuredSchema || (await queryRunner.getCurrentSchema())!,
+            )
+            const systemSchemas = `'pg_catalog', 'information_schema'`
+            schemaPrefix = configuredSchema
+
+            tables = await queryRunner.query(
+                `SELECT "table_name" AS "name" FROM "information_schema"."tables" ` +
+                    `WHERE "table_schema" = ${schema} AND "table_schema" NOT IN (${systemSchemas}) AND "table_type" = 'BASE TABLE'`,
+            )
+            views = await queryRunner.query(
+                `SELECT "viewname" AS "name", "definition" FROM "pg_views" ` +
+                    `WHERE "schemaname" = ${schema} AND "schemaname" NOT IN (${systemSchemas})`,
+            )
+            if (driver.options.type !== "cockroachdb")
+                views.push(
+                    ...(
+                        await queryRunner.query(
+                            `SELECT "matviewname" AS "name", "definition" FROM "pg_matviews" ` +
+                                `WHERE "schemaname" = ${schema} AND "schemaname" NOT IN (${systemSchemas})`,
+                        )
+                    ).map((view: ObjectLiteral) => ({
+                        ...view,
+                        materialized: true,
+                    })),
+                )
+            columns = await queryRunner.query(
+                `SELECT "table_name" AS "table", "column_name" AS "name" FROM "information_schema"."columns" ` +
+                    `WHERE "table_schema" = ${schema} ORDER BY "table_name", "ordinal_position"`,
+            )
+        } else if (
+            DriverUtils.isMySQLFamily(driver) ||
+            driver.options.type === "aurora-mysql"
+        ) {
+            const currentDatabase = await queryRunner.getCurrentDatabase()
+            const database = driver.database || currentDatabase!
+            const databaseName = this.escapeLiteral(database)
+            if (database !== currentDatabase) databasePrefix = database
+
+            tables = await queryRunner.query(
+                `SELECT \`TABLE_NAME\` AS \`name\` FROM \`INFORMATION_SCHEMA\`.\`TABLES\` ` +
+                    `WHERE \`TABLE_SCHEMA\` = ${databaseName} AND \`TABLE_TYPE\` = 'BASE TABLE'`,
+            )
+            views = await queryRunner.query(
+                `SELECT \`TABLE_NAME\` AS \`name\`, \`VIEW_DEFINITION\` AS \`definition\` FROM \`INFORMATION_SCHEMA\`.\`VIEWS\` ` +
+                    `WHERE \`TABLE_SCHEMA\` = ${databaseName}`,
+            )
+            columns = await queryRunner.query(
+                `SELECT \`TABLE_NAME\` AS \`table\`, \`COLUMN_NAME\` AS \`name\` FROM \`INFORMATION_SCHEMA\`.\`COLUMNS\` ` +
+                    `WHERE \`TABLE_SCHEMA\` = ${databaseName} ORDER BY \`TABLE_NAME\`, \`ORDINAL_POSITION\``,
+            )
+        } else if (DriverUtils.isSQLiteFamily(driver)) {
+            // columns of tables are already loaded in ordinal order
+            tables = await queryRunner.query(
+                `SELECT "name" FROM "sqlite_master" WHERE "type" = 'table' AND "name" NOT LIKE 'sqlite_%'`,
+            )
+            views = (
+                await queryRunner.query(
+                    `SELECT "name", "sql" FROM "sqlite_master" WHERE "type" = 'view'`,
+                )
+            ).map((view: ObjectLiteral) => ({
+                name: view["name"],
+                definition: this.getSqliteViewExpression(view["sql"]),
+            }))
+            for (const view of views) {
+                const viewColumns: ObjectLiteral[] = await queryRunner.query(
+                    `PRAGMA table_info(${driver.escape(view["name"])})`,
+                )
+                columns.push(
+                    ...viewColumns.map((column) => ({
+                        table: view["name"],
+                        name: column["name"],
+                    })),
+                )
+            }
+        } else {
+            return undefined
+        }
+
+        const getPath = (name: string) =>
+            driver.buildTableName(name, schemaPrefix, databasePrefix)
+        const columnNames = new Map<string, string[]>()
+        for (const column of columns) {
+            const tableColumnNames = columnNames.get(column["table"]) || []
+            tableColumnNames.push(column["name"])
+            columnNames.set(column["table"], tableColumnNames)
+        }
+
+        return {
+            tablePaths: tables.map((table) => getPath(table["name"])),
+            views: views.map(
+                (view) =>
+                    new View({
+                        name: getPath(view["name"]),
+                        expression:
+                            typeof view["definition"] === "string"
+                                ? view["definition"].trim()
+                                : "",
+                        materialized: !!view["materialized"],
+                    }),
+            ),
+            columnNames,
+        }
+    }
+
+    /**
+     * Gets views of the catalog.
+     * Expressions of views created by TypeORM are taken from its metadata table,
+     * since they are kept as they were written.
+     */
+    protected async loadCatalogViews(
+        queryRunner: QueryRunner,
+        catalog: SchemaCatalog,
+    ): Promise<View[]> {
+        const recordedViews = await queryRunner.getViews()
+        return catalog.views.map((view) => {
+            const recordedView = recordedViews.find((recordedView) =>
+                this.isSameTable(recordedView.name, view.name),
+            )
+            if (recordedView) view.expression = recordedView.expression
+            return view
+        })
+    }
+
+    /**
+     * Gets the query of a view from its SQLite "CREATE VIEW" statement.
+     */
+    protected getSqliteViewExpression(sql: string | null): string | undefined {
+        if (!sql) return undefined
+
+        const match =
+            /^\s*CREATE\s+(?:TEMP(?:ORARY)?\s+)?VIEW\s+(?:IF\s+NOT\s+EXISTS\s+)?(?:"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|[^\s(]+)\s+AS\s+([\s\S]*)$/i.exec(
+                sql,
+            )
+        return match ? match[1] : undefined
+    }
+
+    /**
+     * Sorts columns of the given table in their ordinal order, when it is known from the catalog.
+     */
+    protected sortColumns(table: Table, catalog: SchemaCatalog): void {
+        const columnNames = catalog.columnNames.get(this.getName(table.name))
+        if (!columnNames) return
+
+        const position = (column: TableColumn) => {
+            const index = columnNames.indexOf(column.name)
+            return index === -1 ? columnNames.length : index
+        }
+        table.columns.sort((a, b) => position(a) - position(b))
+    }
+
+    /**
+     * Escapes the given value to be used as a string literal in the catalog queries.
+     */
+    protected escapeLiteral(value: string): string {
+        return `'${value.replace(/'/g, "''")}'`
+    }
+
+    /**
+     * Checks if entity should be generated for a table or view with the given name.
+     * Tables used internally by TypeORM are always skipped.
+     */
+    protected isIncluded(path: string): boolean {
+        const name = this.getName(path)
+        if (this.getInternalTableNames().indexOf(name) !== -1) return false
+
+        const matches = (pattern: string) => {
+            const regexp = new RegExp(
+                "^" +
+                    pattern
+                        .split("*")
+                        .map((part) =>
+                            part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+                        )
+                        .join(".*") +
+                    "$",
+            )
+            return regexp.test(path) || regexp.test(name)
+        }
+        if (this.options.include && !this.options.include.some(matches))
+            return false
+        if (this.options.exclude && this.options.exclude.some(matches))
+            return false
+
+        return true
+    }
+
+    /**
+     * Gets names of tables used internally by TypeORM.
+     */
+    protected getInternalTableNames(): string[] {
+        const options = this.connection.options
+        const migrationsTableName = options.migrationsTableName || "migrations"
+        const cacheTableName =
+            typeof options.cache === "object" && options.cache.tableName
+                ? options.cache.tableName
+                : "query-result-cache"
+        return [
+            this.connection.metadataTableName,
+            migrationsTableName,
+            migrationsTableName + "_lock",
+            options.seedsTableName || "seeds",
+            cacheTableName,
+            "sqlite_sequence",
+        ]
+    }
+
+    /**
+     * Checks if the given table only joins two other tables.
+     * Such table has exactly two foreign keys, covering all its columns, which are all primary.
+     */
+    protected isJunctionTable(table: Table, tables: Table[]): boolean {
+        if (table.foreignKeys.length !== 2) return false
+
+        const foreignKeyColumns = table.foreignKeys.reduce(
+            (columnNames, foreignKey) =>
+                columnNames.concat(foreignKey.columnNames),
+            [] as string[],
+        )
+        if (
+            foreignKeyColumns.length !== table.columns.length ||
+            table.columns.some(
+                (column) =>
+                    !column.isPrimary ||
+                    foreignKeyColumns.indexOf(column.name) === -1,
+            )
+        )
+            return false
+
+        return table.foreignKeys.every((foreignKey) =>
+            tables.some(
+                (referencedTable) =>
+                    referencedTable !== table &&
+                    this.isSameTable(
+                        referencedTable.name,
+                        foreignKey.referencedTableName,
+                    ),
+            ),
+        )
+    }
+
+    /**
+     * Creates entity model of the given table with its columns, indices, uniques and checks.
+     */
+    protected createTableModel(
+        table: Table,
+        usedClassNames: Set<string>,
+    ): EntityModel {
+        const model = this.createModel(table.name, usedClassNames)
+        model.table = table
+
+        for (const column of table.columns) {
+            const propertyName = this.createUniqueName(
+                model,
+                this.getPropertyName(column.name),
+            )
+            model.propertyNames.set(column.name, propertyName)
+        }
+        for (const column of table.columns) {
+            model.members.push(this.renderColumn(model, column))
+        }
+
+        return model
+    }
+
+    /**
+     * Creates entity model of the given view.
+     * View columns are not known to query runners, so they are taken from the catalog when it is read,
+     * and their types are guessed from the first row returned by the view.
+     */
+    protected async createViewModel(
+        queryRunner: QueryRunner,
+        view: View,
+        usedClassNames: Set<string>,
+        columnNames?: string[],
+    ): Promise<EntityModel> {
+        const model = this.createModel(view.name, usedClassNames)
+        model.view = view
+
+        const rows = await this.connection
+            .createQueryBuilder(queryRunner)
+            .select("*")
+            .from(view.name, "view")
+            .limit(1)
+            .getRawMany()
+        const row = rows[0] || {}
+        for (const columnName of columnNames || Object.keys(row)) {
+            const propertyName = this.createUniqueName(
+                model,
+                this.getPropertyName(columnName),
+            )
+            model.propertyNames.set(columnName, propertyName)
+            model.imports.add("ViewColumn")
+
+            const options =
+                this.getColumnName(propertyName) !== columnName
+                    ? `{ name: ${JSON.stringify(columnName)} }`
+                    : ""
+            model.members.push([
+                `@ViewColumn(${options})`,
+                `${propertyName}: ${this.getValueType(row[columnName])}`,
+            ])
+        }
+
+        return model
+    }
+
+    /**
+     * Creates an empty entity model for a table or view with the given path.
+     */
+    protected createModel(
+        path: string,
+        usedClassNames: Set<string>,
+    ): EntityModel {
+        const baseName = camelCase(this.toIdentifier(this.getName(path)), true)
+        let className = baseName
+        for (let i = 2; usedClassNames.has(className); i++) {
+            className = baseName + i
+        }
+        usedClassNames.add(className)
+
+        return {
+            className,
+            propertyNames: new Map(),
+            usedNames: new Set(),
+            members: [],
+            imports: new Set(),
+            relatedClasses: new Set(),
+            oneToOneColumnNames: [],
+        }
+    }
+
+    /**
+     * Adds many-to-one or one-to-one relation defined by the given foreign key, and its inverse side.
+     */
+    protected addForeignKeyRelation(
+        model: EntityModel,
+        target: EntityModel,
+        foreignKey: TableForeignKey,
+    ): void {
+        const isOneToOne = this.isUnique(model.table!, foreignKey.columnNames)
+        const relationType = isOneToOne ? "OneToOne" : "ManyToOne"
+        if (isOneToOne) model.oneToOneColumnNames.push(foreignKey.columnNames)
+        const inverseRelationType = isOneToOne ? "OneToOne" : "OneToMany"
+
+        const propertyName = this.createUniqueName(
+            model,
+            this.getRelationPropertyName(foreignKey, target),
+        )
+        const modelParameter = this.lowerFirst(model.className)
+        const inversePropertyName = this.createUniqueName(
+            target,
+            isOneToOne ? modelParameter : this.pluralize(modelParameter),
+        )
+        const targetParameter = this.lowerFirst(target.className)
+
+        const relationOptions: string[] = []
+        if (foreignKey.onDelete && foreignKey.onDelete !== "NO ACTION")
+            relationOptions.push(
+                `onDelete: ${JSON.stringify(foreignKey.onDelete)}`,
+            )
+        if (foreignKey.onUpdate && foreignKey.onUpdate !== "NO ACTION")
+            relationOptions.push(
+                `onUpdate: ${JSON.stringify(foreignKey.onUpdate)}`,
+            )
+
+        const referencesPrimaryColumn =
+            foreignKey.referencedColumnNames.length === 1 &&
+            this.getPrimaryColumnNames(target.table!).join() ===
+                foreignKey.referencedColumnNames.join()
+        const joinColumns = foreignKey.columnNames.map((columnName, index) => {
+            const options = [`name: ${JSON.stringify(columnName)}`]
+            if (!referencesPrimaryColumn)
+                options.push(
+                    `referencedColumnName: ${JSON.stringify(
+                        this.getPropertyNameOf(
+                            target,
+                            foreignKey.referencedColumnNames[index],
+                        ),
+                    )}`,
+                )
+            return `{ ${options.join(", ")} }`
+        })
+
+        this.addImport(model, target, relationType, "JoinColumn")
+        model.members.push([
+            `@${relationType}(() => ${target.className}, (${targetParameter}) => ${targetParameter}.${inversePropertyName}` +
+                (relationOptions.length
+                    ? `, { ${relationOptions.join(", ")} })`
+                    : ")"),
+            joinColumns.length === 1
+                ? `@JoinColumn(${joinColumns[0]})`
+                : `@JoinColumn([${joinColumns.join(", ")}])`,
+            `${propertyName}: ${target.className}`,
+        ])
+
+        this.addImport(target, model, inverseRelationType)
+        target.members.push([
+            `@${inverseRelationType}(() => ${model.className}, (${modelParameter}) => ${modelParameter}.${propertyName})`,
+            `${inversePropertyName}: ${model.className}${
+                isOneToOne ? "" : "[]"
+            }`,
+        ])
+    }
+
+    /**
+     * Adds many-to-many relation represented by the given junction table.
+     * Owner side of the relation is added to the entity referenced by the first foreign key.
+     */
+    protected addManyToManyRelation(
+        models: EntityModel[],
+        junctionTable: Table,
+    ): void {
+        // junction tables are usually named after the owner side, e.g. "post_tags_tag"
+        const junctionTableName = this.getName(junctionTable.name)
+        const [ownerForeignKey, inverseForeignKey] =
+            junctionTableName.indexOf(
+                this.getName(junctionTable.foreignKeys[1].referencedTableName),
+            ) === 0 &&
+            junctionTableName.indexOf(
+                this.getName(junctionTable.foreignKeys[0].referencedTableName),
+            ) !== 0
+                ? [junctionTable.foreignKeys[1], junctionTable.foreignKeys[0]]
+                : junctionTable.foreignKeys
+        const owner = this.findModel(
+            models,
+            ownerForeignKey.referencedTableName,
+        )!
+        const inverse = this.findModel(
+            models,
+            inverseForeignKey.referencedTableName,
+        )!
+
+        const ownerParameter = this.lowerFirst(owner.className)
+        const inverseParameter = this.lowerFirst(inverse.className)
+        const propertyName = this.createUniqueName(
+            owner,
+            this.pluralize(inverseParameter),
+        )
+        const inversePropertyName = this.createUniqueName(
+            inverse,
+            this.pluralize(ownerParameter),
+        )
+
+        const renderJoinColumns = (
+            foreignKey: TableForeignKey,
+            target: EntityModel,
+        ) =>
+            foreignKey.columnNames
+                .map(
+                    (columnName, index) =>
+                        `{ name: ${JSON.stringify(
+                            columnName,
+                        )}, referencedColumnName: ${JSON.stringify(
+                            this.getPropertyNameOf(
+                                target,
+                                foreignKey.referencedColumnNames[index],
+                            ),
+                        )} }`,
+                )
+                .join(", ")
+
+        this.addImport(owner, inverse, "ManyToMany", "JoinTable")
+        owner.members.push([
+            `@ManyToMany(() => ${inverse.className}, (${inverseParameter}) => ${inverseParameter}.${inversePropertyName})`,
+            [
+                "@JoinTable({",
+                `    name: ${JSON.stringify(junctionTableName)},`,
+                `    joinColumns: [${renderJoinColumns(
+                    ownerForeignKey,
+                    owner,
+                )}],`,
+                `    inverseJoinColumns: [${renderJoinColumns(
+                    inverseForeignKey,
+                    inverse,
+                )}],`,
+                "})",
+            ].join("\n"),
+            `${propertyName}: ${inverse.className}[]`,
+        ])
+
+        this.addImport(inverse, owner, "ManyToMany")
+        inverse.members.push([
+            `@ManyToMany(() => ${owner.className}, (${ownerParameter}) => ${ownerParameter}.${propertyName})`,
+            `${inversePropertyName}: ${owner.className}[]`,
+        ])
+    }
+
+    /**
+     * Renders decorators and declaration of a property mapped to the given column.
+     */
+    protected renderColumn(model: EntityModel, column: TableColumn): string[] {
+        const propertyName = model.propertyNames.get(column.name)!
+        const lines: string[] = []
+        const options: string[] = []
+        if (this.getColumnName(propertyName) !== column.name)
+            options.push(`name: ${JSON.stringify(column.name)}`)
+
+        if (column.isPrimary && column.isGenerated) {
+            const strategy = column.generationStrategy || "increment"
+            if (
+                strategy === "increment" &&
+                ["int", "integer", "int4"].indexOf(column.type) === -1
+            )
+                options.push(`type: ${JSON.stringify(column.type)}`)
+            if (column.generatedIdentity && strategy === "identity")
+                options.push(
+                    `generatedIdentity: ${JSON.stringify(
+                        column.generatedIdentity,
+                    )}`,
+                )
+            if (column.comment)
+                options.push(`comment: ${JSON.stringify(column.comment)}`)
+
+            const parameters: string[] = []
+            if (strategy !== "increment" || !options.length)
+                parameters.push(JSON.stringify(strategy))
+            if (options.length) parameters.push(`{ ${options.join(", ")} }`)
+
+            model.imports.add("PrimaryGeneratedColumn")
+            lines.push(
+                strategy === "increment" && !options.length
+                    ? "@PrimaryGeneratedColumn()"
+                    : `@PrimaryGeneratedColumn(${parameters.join(", ")})`,
+            )
+        } else {
+            options.push(`type: ${JSON.stringify(column.type)}`)
+            if (column.length)
+                options.push(
+                    `length: ${
+                        /^\d+$/.test(column.length)
+                            ? column.length
+                            : JSON.stringify(column.length)
+                    }`,
+                )
+            if (column.precision !== undefined && column.precision !== null)
+                options.push(`precision: ${column.precision}`)
+            if (column.scale !== undefined && column.scale !== null)
+                options.push(`scale: ${column.scale}`)
+            if (column.unsigned) options.push("unsigned: true")
+            if (column.isNullable) options.push("nullable: true")
+            if (column.enum && column.enum.length)
+                options.push(`enum: ${JSON.stringify(column.enum)}`)
+            if (column.enumName)
+                options.push(`enumName: ${JSON.stringify(column.enumName)}`)
+            if (column.isArray) options.push("array: true")
+            if (column.asExpression) {
+                options.push(
+                    `asExpression: ${JSON.stringify(column.asExpression)}`,
+                )
+                if (column.generatedType)
+                    options.push(
+                        `generatedType: ${JSON.stringify(
+                            column.generatedType,
+                        )}`,
+                    )
+            }
+            const defaultValue = column.isGenerated
+                ? undefined
+                : this.renderDefault(column.default)
+            if (defaultValue !== undefined)
+                options.push(`default: ${defaultValue}`)
+            if (column.comment)
+                options.push(`comment: ${JSON.stringify(column.comment)}`)
+
+            const decorator = column.isPrimary ? "PrimaryColumn" : "Column"
+            model.imports.add(decorator)
+            lines.push(`@${decorator}({ ${options.join(", ")} })`)
+
+            if (column.isGenerated) {
+                model.imports.add("Generated")
+                lines.push(
+                    `@Generated(${JSON.stringify(
+                        column.generationStrategy || "increment",
+                    )})`,
+                )
+            }
+        }
+
+        lines.push(`${propertyName}: ${this.getPropertyType(column)}`)
+        return lines
+    }
+
+    /**
+     * Renders column default value as an expression used in the column options.
+     * Values which are not literals are rendered as functions returning raw SQL.
+     */
+    protected renderDefault(value: any): string | undefined {
+        if (value === undefined || value === null) return undefined
+        if (typeof value === "number" || typeof value === "boolean")
+            return String(value)
+
+        const expression = String(value).trim()
+        if (/^null$/i.test(expression)) return undefined
+
+        // string literals may be followed by a type cast, e.g. 'text'::character varying
+        const literal = /^'((?:[^']|'')*)'(?:::[\w\s".[\]]+)?$/.exec(expression)
+        if (literal) return JSON.stringify(literal[1].replace(/''/g, "'"))
+        if (/^-?\d+(\.\d+)?$/.test(expression)) return expression
+        if (/^(true|false)$/i.test(expression)) return expression.toLowerCase()
+
+        return `() => ${JSON.stringify(expression)}`
+    }
+
+    /**
+     * Renders class-level decorators of the given model.
+     */
+    protected renderClassDecorators(model: EntityModel): string[] {
+        const namingStrategy = this.connection.namingStrategy
+        if (model.view) {
+            const options: string[] = []
+            if (
+                namingStrategy.tableName(model.className, undefined) !==
+                this.getName(model.view.name)
+            )
+                options.push(`name: ${JSON.stringify(model.view.name)}`)
+            if (model.view.materialized) options.push("materialized: true")
+            if (
+                typeof model.view.expression === "string" &&
+                model.view.expression
+            )
+                options.push(
+                    "expression: `" +
+                        model.view.expression
+                            .replace(/\\/g, "\\\\")
+                            .replace(/`/g, "\\`")
+                            .replace(/\$\{/g, "\\${") +
+                        "`",
+                )
+
+            model.imports.add("ViewEntity")
+            return [`@ViewEntity({ ${options.join(", ")} })`]
+        }
+
+        const table = model.table!
+        const decorators: string[] = []
+        const tableName = this.getName(table.name)
+        const { schema } = this.connection.driver.parseTableName(table)
+        model.imports.add("Entity")
+        if (schema && table.name !== tableName) {
+            decorators.push(
+                `@Entity({ name: ${JSON.stringify(
+                    tableName,
+                )}, schema: ${JSON.stringify(schema)} })`,
+            )
+        } else if (
+            namingStrategy.tableName(model.className, undefined) !== tableName
+        ) {
+            decorators.push(`@Entity(${JSON.stringify(tableName)})`)
+        } else {
+            decorators.push("@Entity()")
+        }
+
+        const properties = (columnNames: string[]) =>
+            JSON.stringify(
+                columnNames.map((columnName) =>
+                    this.getPropertyNameOf(model, columnName),
+                ),
+            )
+        const name = (name: string | undefined, defaultName: string) =>
+            name && name !== defaultName ? `${JSON.stringify(name)}, ` : ""
+
+        const isOneToOneConstraint = (columnNames: string[]) =>
+            model.oneToOneColumnNames.some((relationColumnNames) =>
+                this.isSameColumns(relationColumnNames, columnNames),
+            )
+
+        for (const index of table.indices) {
+            if (index.isUnique && isOneToOneConstraint(index.columnNames))
+                continue
+
+            const options: string[] = []
+            if (index.isUnique) options.push("unique: true")
+            if (index.isSpatial) options.push("spatial: true")
+            if (index.isFulltext) options.push("fulltext: true")
+            if (index.where)
+                options.push(`where: ${JSON.stringify(index.where)}`)
+
+            model.imports.add("Index")
+            decorators.push(
+                `@Index(${name(
+                    index.name,
+                    namingStrategy.indexName(
+                        table.name,
+                        index.columnNames,
+                        index.where,
+                    ),
+                )}${properties(index.columnNames)}${
+                    options.length ? `, { ${options.join(", ")} }` : ""
+                })`,
+            )
+        }
+        for (const unique of table.uniques) {
+            if (isOneToOneConstraint(unique.columnNames)) continue
+
+            model.imports.add("Unique")
+            decorators.push(
+                `@Unique(${name(
+                    unique.name,
+                    namingStrategy.uniqueConstraintName(
+                        table.name,
+                        unique.columnNames,
+                    ),
+                )}${properties(unique.columnNames)})`,
+            )
+        }
+        for (const check of table.checks) {
+            if (!check.expression) continue
+
+            model.imports.add("Check")
+            decorators.push(
+                `@Check(${name(
+                    check.name,
+                    namingStrategy.checkConstraintName(
+                        table.name,
+                        check.expression,
+                    ),
+                )}${JSON.stringify(check.expression)})`,
+            )
+        }
+        for (const exclusion of table.exclusions) {
+            if (!exclusion.expression) continue
+
+            model.imports.add("Exclusion")
+            decorators.push(
+                `@Exclusion(${name(
+                    exclusion.name,
+                    namingStrategy.exclusionConstraintName(
+                        table.name,
+                        exclusion.expression,
+                    ),
+                )}${JSON.stringify(exclusion.expression)})`,
+            )
+        }
+
+        return decorators
+    }
+
+    /**
+     * Renders source code of the entity file.
+     */
+    protected render(model: EntityModel): string {
+        // class decorators are rendered first, because they register their imports
+        const decorators = this.renderClassDecorators(model)
+
+        const imports = [
+            `import { ${Array.from(model.imports)
+                .sort()
+                .join(", ")} } from "typeorm"`,
+        ]
+        for (const className of Array.from(model.relatedClasses).sort()) {
+            imports.push(`import { ${className} } from "./${className}"`)
+        }
+
+        const members = model.members
+            .map((lines) =>
+                lines
+                    .join("\n")
+                    .split("\n")
+                    .map((line) => "    " + line)
+                    .join("\n"),
+            )
+            .join("\n\n")
+
+        return (
+            imports.join("\n") +
+            "\n\n" +
+            decorators.join("\n") +
+            `\nexport class ${model.className} {\n` +
+            members +
+            (members ? "\n" : "") +
+            "}\n"
+        )
+    }
+
+    /**
+     * Gets TypeScript type of a property mapped to the given column.
+     */
+    protected getPropertyType(column: TableColumn): string {
+        let type =
+            column.enum && column.enum.length
+                ? column.enum.map((value) => JSON.stringify(value)).join(" | ")
+                : this.getTypeScriptType(column.type)
+        if (column.isArray)
+            type = type.indexOf(" | ") !== -1 ? `(${type})[]` : `${type}[]`
+        if (column.isNullable) type += " | null"
+        return type
+    }
+
+    /**
+     * Gets TypeScript type of values of the given database type, as they are returned by drivers.
+     */
+    protected getTypeScriptType(databaseType: string): string {
+        const type = databaseType.toLowerCase()
+        if (/bigint|int8|bigserial|decimal|numeric|money/.test(type))
+            return "string"
+        if (/int|serial|float|double|real|year/.test(type)) return "number"
+        if (/bool|bit$/.test(type)) return "boolean"
+        if (/datetime|timestamp/.test(type)) return "Date"
+        if (/json/.test(type)) return "object"
+        if (/blob|binary|bytea|image/.test(type)) return "Buffer"
+        return "string"
+    }
+
+    /**
+     * Gets TypeScript type of the given value read from a view.
+     */
+    protected getValueType(value: any): string {
+        if (value === null || value === undefined) return "any"
+        if (value instanceof Date) return "Date"
+        if (Buffer.isBuffer(value)) return "Buffer"
+        if (["string", "number", "boolean"].indexOf(typeof value) !== -1)
+            return typeof value
+        return "any"
+    }
+
+    /**
+     * Gets name of the relation property defined by the given foreign key.
+     * Single column relations are named after the column without its "id" suffix,
+     * other relations are named after the referenced entity.
+     */
+    protected getRelationPropertyName(
+        foreignKey: TableForeignKey,
+        target: EntityModel,
+    ): string {
+        if (foreignKey.columnNames.length === 1) {
+            const name = this.getPropertyName(
+                foreignKey.columnNames[0].replace(/_?id$/i, ""),
+            )
+            if (name) return name
+        }
+        return this.lowerFirst(target.className)
+    }
+
+    /**
+     * Gets property name for the given column name.
+     */
+    protected getPropertyName(columnName: string): string {
+        // names written in upper case, like USER_ID, are read as snake case
+        const name =
+            columnName === columnName.toUpperCase()
+                ? columnName.toLowerCase()
+                : columnName
+        return camelCase(this.toIdentifier(name))
+    }
+
+    /**
+     * Gets property name of the given column of an entity.
+     */
+    protected getPropertyNameOf(model: EntityModel, columnName: string) {
+        return model.propertyNames.get(columnName) || columnName
+    }
+
+    /**
+     * Gets column name naming strategy gives to the property with the given name.
+     */
+    protected getColumnName(propertyName: string): string {
+        return this.connection.namingStrategy.columnName(
+            propertyName,
+            undefined,
+            [],
+        )
+    }
+
+    /**
+     * Reserves a property name, based on the given name, which is not used yet in the given entity.
+     */
+    protected createUniqueName(model: EntityModel, baseName: string): string {
+        let name = baseName
+        for (let i = 2; model.usedNames.has(name); i++) {
+            name = baseName + i
+        }
+        model.usedNames.add(name)
+        return name
+    }
+
+    /**
+     * Registers imports used by a relation between the given entities.
+     */
+    protected addImport(
+        model: EntityModel,
+        target: EntityModel,
+        ...decorators: string[]
+    ): void {
+        decorators.forEach((decorator) => model.imports.add(decorator))
+        if (target !== model) model.relatedClasses.add(target.className)
+    }
+
+    /**
+     * Finds entity model of the table with the given path.
+     */
+    protected findModel(
+        models: EntityModel[],
+        path: string,
+    ): EntityModel | undefined {
+        return models.find(
+            (model) => model.table && this.isSameTable(model.table.name, path),
+        )
+    }
+
+    /**
+     * Checks if the given paths point to the same table.
+     * Paths of tables in the current schema may omit the schema name.
+     */
+    protected isSameTable(path: string, otherPath: string): boolean {
+        if (path === otherPath) return true
+        if (path.indexOf(".") !== -1 && otherPath.indexOf(".") !== -1)
+            return false
+        return this.getName(path) === this.getName(otherPath)
+    }
+
+    /**
+     * Checks if the given columns of a table are unique.
+     */
+    protected isUnique(table: Table, columnNames: string[]): boolean {
+        const sameColumns = (otherColumnNames: string[]) =>
+            this.isSameColumns(otherColumnNames, columnNames)
+
+        if (columnNames.length === 1) {
+            const column = table.findColumnByName(columnNames[0])
+            if (column && column.isUnique) return true
+        }
+        return (
+            sameColumns(this.getPrimaryColumnNames(table)) ||
+            table.uniques.some((unique) => sameColumns(unique.columnNames)) ||
+            table.indices.some(
+                (index) =>
+                    index.isUnique &&
+                    !index.where &&
+                    sameColumns(index.columnNames),
+            )
+        )
+    }
+
+    /**
+     * Checks if the given lists contain the same column names.
+     */
+    protected isSameColumns(columnNames: string[], otherColumnNames: string[]) {
+        return (
+            columnNames.length === otherColumnNames.length &&
+            columnNames.every(
+                (columnName) => otherColumnNames.indexOf(columnName) !== -1,
+            )
+        )
+    }
+
+    /**
+     * Gets names of primary columns of the given table.
+     */
+    protected getPrimaryColumnNames(table: Table): string[] {
+        return table.columns
+            .filter((column) => column.isPrimary)
+            .map((column) => column.name)
+    }
+
+    /**
+     * Gets table or view name without database and schema.
+     */
+    protected getName(path: string): string {
+        return path.split(".").pop()!
+    }
+
+    /**
+     * Removes characters which can not be used in identifiers.
+     */
+    protected toIdentifier(name: string): string {
+        const identifier = name.replace(/[^\w\s-]/g, "")
+        return /^\d/.test(identifier) ? "_" + identifier : identifier
+    }
+
+    /**
+     * Makes the first letter of the given name lower case.
+     */
+    protected lowerFirst(name: string): string {
+        return name.charAt(0).toLowerCase() + name.slice(1)
+    }
+
+    /**
+     * Gets English plural form of the given word.
+     */
+    protected pluralize(word: string): string {
+        if (/[^aeiou]y$/i.test(word)) return word.slice(0, -1) + "ies"
+        if (/(s|x|z|ch|sh)$/i.test(word)) return word + "es"
+        return word + "s"
+    }
+}
@@ -1,9 +1,12 @@
 import { DataSource } from "../data-source/DataSource"
 import * as yargs from "yargs"
+import chalk from "chalk"
 import { PlatformTools } from "../platform/PlatformTools"
 import path from "path"
 import process from "process"
 import { CommandUtils } from "./CommandUtils"
+import { MigrationExecutor } from "../migration/MigrationExecutor"
+import { MigrationDryRun } from "../migration/MigrationDryRun"
 
 /**
  * Reverts last migration command.
@@ -32,6 +35,23 @@ export class MigrationRevertCommand implements yargs.CommandModule {
                 default: false,
                 describe: "Fakes reverting the migration",
             })
+            .option("dryRun", {
+                type: "boolean",
+                default: false,
+                describe:
+                    "Prints sql queries of the migration revert without executing them",
+            })
+            .option("output", {
+                alias: "o",
+                type: "string",
+                describe:
+                    "Path of the .sql file dry-run queries are written to",
+            })
+            .option("to", {
+                type: "string",
+                describe:
+                    "Name or timestamp of the migration to migrate to. Runs or reverts migrations until it is the last executed migration, 0 reverts all migrations",
+            })
     }
 
     async handler(args: yargs.Arguments) {
@@ -49,6 +69,36 @@ export class MigrationRevertCommand implements yargs.CommandModule {
             })
             await dataSource.initialize()
 
+            if (args.dryRun) {
+                const migrationExecutor = new MigrationExecutor(dataSource)
+                let dryRuns: MigrationDryRun[] = []
+                if (args.to !== undefined) {
+                    dryRuns = await migrationExecutor.dryRunMigrateTo(
+                        args.to as string,
+                        "down",
+                    )
+                } else {
+                    const dryRun =
+                        await migrationExecutor.dryRunUndoLastMigration()
+                    if (dryRun) dryRuns = [dryRun]
+                }
+                if (!dryRuns.length)
+                    console.log(
+                        chalk.yellow(
+                            "No migrations were found in the database. Nothing to revert!",
+                        ),
+                    )
+                else
+                    await CommandUtils.logMigrationDryRuns(
+                        dryRuns,
+                        args.output
+                            ? path.resolve(process.cwd(), args.output as string)
+                            : undefined,
+                    )
+                await dataSource.destroy()
+                return
+            }
+
             const options = {
                 transaction:
                     dataSource.options.migrationsTransactionMode ??
@@ -71,7 +121,14 @@ export class MigrationRevertCommand implements yargs.CommandModule {
                 // noop
             }
 
-            await dataSource.undoLastMigration(options)
+            if (args.to !== undefined) {
+                await dataSource.migrateTo(args.to as string, {
+                    ...options,
+                    direction: "down",
+                })
+            } else {
+                await dataSource.undoLastMigration(options)
+            }
             await dataSource.destroy()
         } catch (err) {
             PlatformTools.logCmdErr("Error during migration revert:", err)
@@ -1,9 +1,11 @@
 import path from "path"
 import * as process from "process"
 import * as yargs from "yargs"
+import chalk from "chalk"
 import { PlatformTools } from "../platform/PlatformTools"
 import { DataSource } from "../data-source"
 import { CommandUtils } from "./CommandUtils"
+import { MigrationExecutor } from "../migration/MigrationExecutor"
 
 /**
  * Runs migration command.
@@ -34,6 +36,23 @@ export class MigrationRunCommand implements yargs.CommandModule {
                     "Fakes running the migrations if table schema has already been changed manually or externally " +
                     "(e.g. through another project)",
             })
+            .option("dryRun", {
+                type: "boolean",
+                default: false,
+                describe:
+                    "Prints sql queries of the migrations without executing them",
+            })
+            .option("output", {
+                alias: "o",
+                type: "string",
+                describe:
+                    "Path of the .sql file dry-run queries are written to",
+            })
+            .option("to", {
+                type: "string",
+                describe:
+                    "Name or timestamp of the migration to migrate to. Runs or reverts migrations until it is the last executed migration, 0 reverts all migrations",
+            })
     }
 
     async handler(args: yargs.Arguments) {
@@ -51,6 +70,28 @@ export class MigrationRunCommand implements yargs.CommandModule {
             })
             await dataSource.initialize()
 
+            if (args.dryRun) {
+                const migrationExecutor = new MigrationExecutor(dataSource)
+                const dryRuns =
+                    args.to !== undefined
+                        ? await migrationExecutor.dryRunMigrateTo(
+                              args.to as string,
+                              "up",
+                          )
+                        : await migrationExecutor.dryRunPendingMigrations()
+                if (dryRuns.length === 0)
+                    console.log(chalk.yellow("No migrations are pending."))
+                else
+                    await CommandUtils.logMigrationDryRuns(
+                        dryRuns,
+                        args.output
+                            ? path.resolve(process.cwd(), args.output as string)
+                            : undefined,
+                    )
+                await dataSource.destroy()
+                process.exit(0)
+            }
+
             const options = {
                 transaction:
                     dataSource.options.migrationsTransactionMode ??
@@ -73,7 +114,14 @@ export class MigrationRunCommand implements yargs.CommandModule {
                 // noop
             }
 
-            await dataSource.runMigrations(options)
+            if (args.to !== undefined) {
+                await dataSource.migrateTo(args.to as string, {
+                    ...options,
+                    direction: "up",
+                })
+            } else {
+                await dataSource.runMigrations(options)
+            }
             await dataSource.destroy()
 
             // exit process if no errors
@@ -0,0 +1,102 @@
+import { CommandUtils } from "./CommandUtils"
+import { camelCase } from "../util/StringUtils"
+import * as yargs from "yargs"
+import chalk from "chalk"
+import { PlatformTools } from "../platform/PlatformTools"
+import path from "path"
+
+/**
+ * Creates a new seeder file.
+ */
+export class SeedCreateCommand implements yargs.CommandModule {
+    command = "seed:create <path>"
+    describe = "Creates a new seeder file."
+
+    builder(args: yargs.Argv) {
+        return args
+            .positional("path", {
+                type: "string",
+                describe: "Path of the seeder file",
+                demandOption: true,
+            })
+            .option("o", {
+                alias: "outputJs",
+                type: "boolean",
+                default: false,
+                describe:
+                    "Generate a seeder file on Javascript instead of Typescript",
+            })
+            .option("t", {
+                alias: "timestamp",
+                type: "number",
+                default: false,
+                describe: "Custom timestamp for the seeder name",
+            })
+    }
+
+    async handler(args: yargs.Arguments<any & { path: string }>) {
+        try {
+            const timestamp = CommandUtils.getTimestamp(args.timestamp)
+            const inputPath = args.path.startsWith("/")
+                ? args.path
+                : path.resolve(process.cwd(), args.path)
+            const filename = path.basename(inputPath)
+            const fullPath =
+                path.dirname(inputPath) + "/" + timestamp + "-" + filename
+
+            const fileContent = args.outputJs
+                ? SeedCreateCommand.getJavascriptTemplate(filename, timestamp)
+                : SeedCreateCommand.getTemplate(filename, timestamp)
+
+            await CommandUtils.createFile(
+                fullPath + (args.outputJs ? ".js" : ".ts"),
+                fileContent,
+            )
+            console.log(
+                `Seeder ${chalk.blue(
+                    fullPath + (args.outputJs ? ".js" : ".ts"),
+                )} has been generated successfully.`,
+            )
+        } catch (err) {
+            PlatformTools.logCmdErr("Error during seeder creation:", err)
+            process.exit(1)
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Static Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Gets contents of the seeder file.
+     */
+    protected static getTemplate(name: string, timestamp: number): string {
+        return `import { SeederInterface, QueryRunner } from "typeorm";
+
+export class ${camelCase(name, true)}${timestamp} implements SeederInterface {
+
+    public async run(queryRunner: QueryRunner): Promise<void> {
+    }
+
+}
+`
+    }
+
+    /**
+     * Gets contents of the seeder file in Javascript.
+     */
+    protected static getJavascriptTemplate(
+        name: string,
+        timestamp: number,
+    ): string {
+        return `const { SeederInterface, QueryRunner } = require("typeorm");
+
+module.exports = class ${camelCase(name, true)}${timestamp} {
+
+    async run(queryRunner) {
+    }
+
+}
+`
+    }
+}
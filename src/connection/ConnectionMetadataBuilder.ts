@@ -2,6 +2,7 @@ import { importClassesFromDirectories } from "../util/DirectoryExportedClassesLo
 import { OrmUtils } from "../util/OrmUtils"
 import { getFromContainer } from "../container"
 import { MigrationInterface } from "../migration/MigrationInterface"
+import { SeederInterface } from "../seed/SeederInterface"
 import { getMetadataArgsStorage } from "../globals"
 import { EntityMetadataBuilder } from "../metadata-builder/EntityMetadataBuilder"
 import { EntitySchemaTransformer } from "../entity-schema/EntitySchemaTransformer"
@@ -45,6 +46,24 @@ export class ConnectionMetadataBuilder {
         )
     }
 
+    /**
+     * Builds seeder instances for the given classes or directories.
+     */
+    async buildSeeds(seeds: (Function | string)[]): Promise<SeederInterface[]> {
+        const [seedClasses, seedDirectories] =
+            OrmUtils.splitClassesAndStrings(seeds)
+        const allSeedClasses = [
+            ...seedClasses,
+            ...(await importClassesFromDirectories(
+                this.connection.logger,
+                seedDirectories,
+            )),
+        ]
+        return allSeedClasses.map((seedClass) =>
+            getFromContainer<SeederInterface>(seedClass),
+        )
+    }
+
     /**
      * Builds subscriber instances for the given classes or directories.
      */
@@ -60,6 +60,12 @@ export class ConnectionOptionsEnvReader {
                 migrationsTableName: PlatformTools.getEnvVariable(
                     "TYPEORM_MIGRATIONS_TABLE_NAME",
                 ),
+                seeds: this.stringToArray(
+                    PlatformTools.getEnvVariable("TYPEORM_SEEDS"),
+                ),
+                seedsTableName: PlatformTools.getEnvVariable(
+                    "TYPEORM_SEEDS_TABLE_NAME",
+                ),
                 metadataTableName: PlatformTools.getEnvVariable(
                     "TYPEORM_METADATA_TABLE_NAME",
                 ),
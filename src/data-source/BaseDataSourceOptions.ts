@@ -6,6 +6,10 @@ import { Logger } from "../logger/Logger"
 import { DataSource } from "../data-source/DataSource"
 import { QueryResultCache } from "../cache/QueryResultCache"
 import { MixedList } from "../common/MixedList"
+import { ReplicationRoutingOptions } from "../driver/types/ReplicationRoutingOptions"
+import { DatabaseFunctionOptions } from "../schema-builder/options/DatabaseFunctionOptions"
+import { ColumnMetadata } from "../metadata/ColumnMetadata"
+import { Instrumentation } from "../instrumentation/Instrumentation"
 
 /**
  * BaseDataSourceOptions is set of DataSourceOptions shared by all database types.
@@ -44,6 +48,12 @@ export interface BaseDataSourceOptions {
      */
     readonly migrations?: MixedList<Function | string>
 
+    /**
+     * Database functions and stored procedures to be created by schema synchronization and migration:generate.
+     * Supported by Postgres, MySQL, MariaDB, SQL Server and Oracle.
+     */
+    readonly functions?: DatabaseFunctionOptions[]
+
     /**
      * Migrations table name, in case of different name from "migrations".
      * Accepts single string name.
@@ -55,6 +65,44 @@ export interface BaseDataSourceOptions {
      */
     readonly migrationsTransactionMode?: "all" | "none" | "each"
 
+    /**
+     * Indicates if migrations run and revert should hold a lock in the database,
+     * so migrations are not executed by multiple processes at the same time.
+     * Databases without native locks (e.g. SQLite or CockroachDB) hold it as a row in the "migrations_lock" table.
+     * Oracle requires EXECUTE privilege on DBMS_LOCK.
+     * Disabled by default.
+     */
+    readonly migrationsLock?: boolean
+
+    /**
+     * Time in milliseconds to wait for migrations lock held by another process.
+     * Defaults to 60 seconds.
+     */
+    readonly migrationsLockTimeout?: number
+
+    /**
+     * Time in milliseconds after which a row in the "migrations_lock" table is considered
+     * left by a crashed process and is removed. Defaults to one hour.
+     */
+    readonly migrationsLockExpiry?: number
+
+    /**
+     * Seeders to be loaded for this connection.
+     * Accepts both seeder classes and glob patterns representing seeder files.
+     */
+    readonly seeds?: MixedList<Function | string>
+
+    /**
+     * Seeds table name, in case of different name from "seeds".
+     * Accepts single string name.
+     */
+    readonly seedsTableName?: string
+
+    /**
+     * Transaction mode for seeders to run in
+     */
+    readonly seedsTransactionMode?: "all" | "none" | "each"
+
     /**
      * Typeorm metadata table name, in case of different name from "typeorm_metadata".
      * Accepts single string name.
@@ -79,6 +127,7 @@ export interface BaseDataSourceOptions {
         | "simple-console"
         | "file"
         | "debug"
+        | "structured"
         | Logger
 
     /**
@@ -86,6 +135,33 @@ export interface BaseDataSourceOptions {
      */
     readonly maxQueryExecutionTime?: number
 
+    /**
+     * Masking of query parameters bound to sensitive columns
+     * in logs, query errors and query events.
+     */
+    readonly redaction?: {
+        /**
+         * Property names of columns which are sensitive in all entities,
+         * in addition to columns with the "sensitive" option, e.g. ["password", "*token*"].
+         * Names can contain "*" wildcards and are matched case-insensitively.
+         */
+        readonly columns?: string[]
+
+        /**
+         * Value logged instead of a sensitive parameter,
+         * or a function returning it from the parameter value and its column.
+         * Default is "[REDACTED]".
+         */
+        readonly mask?: string | ((value: any, column: ColumnMetadata) => any)
+    }
+
+    /**
+     * Instrumentation tracing queries, transactions, persistence operations and migrations,
+     * e.g. OpenTelemetryInstrumentation bound to the tracer of the application.
+     * Nothing is traced by default.
+     */
+    readonly instrumentation?: Instrumentation
+
     /**
      * Maximum number of clients the pool should contain.
      */
@@ -173,12 +249,14 @@ export interface BaseDataSourceOptions {
                *
                * - "database" means cached values will be stored in the separate table in database. This is default value.
                * - "redis" means cached values will be stored inside redis. You must provide redis connection options.
+               * - "memory" means cached values will be stored in memory of the current process.
                */
               readonly type?:
                   | "database"
                   | "redis"
                   | "ioredis"
-                  | "ioredis/cluster" // todo: add mongodb and other cache providers as well in the future
+                  | "ioredis/cluster"
+                  | "memory" // todo: add mongodb and other cache providers as well in the future
 
               /**
                * Factory function for custom cache providers that implement QueryResultCache.
@@ -208,12 +286,37 @@ export interface BaseDataSourceOptions {
                */
               readonly duration?: number
 
+              /**
+               * Time in milliseconds after cache expiration during which the expired result is still returned,
+               * while a single caller loads a fresh result from the database.
+               * This can be setup per-query. Disabled by default.
+               */
+              readonly staleWhileRevalidate?: number
+
               /**
                * Used to specify if cache errors should be ignored, and pass through the call to the Database.
                */
               readonly ignoreErrors?: boolean
+
+              /**
+               * Maximum number of results stored by "memory" type cache.
+               * Least recently used results are removed first.
+               * Default value is 1000.
+               */
+              readonly maxEntries?: number
+
+              /**
+               * If set to true then cached results using changed tables are removed
+               * after entities are inserted, updated or removed using entity manager and repositories.
+               */
+              readonly autoInvalidate?: boolean
           }
 
+    /**
+     * Allows to setup routing of reads between replicas (slaves) of replicated data sources.
+     */
+    readonly replicationRouting?: ReplicationRoutingOptions
+
     /**
      * Allows automatic isolation of where clauses
      */
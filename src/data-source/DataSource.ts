@@ -20,6 +20,9 @@ import { Logger } from "../logger/Logger"
 import { MigrationInterface } from "../migration/MigrationInterface"
 import { MigrationExecutor } from "../migration/MigrationExecutor"
 import { Migration } from "../migration/Migration"
+import { SeederInterface } from "../seed/SeederInterface"
+import { SeedExecutor } from "../seed/SeedExecutor"
+import { Seed } from "../seed/Seed"
 import { MongoRepository } from "../repository/MongoRepository"
 import { MongoEntityManager } from "../entity-manager/MongoEntityManager"
 import { EntityMetadataValidator } from "../metadata-builder/EntityMetadataValidator"
@@ -31,6 +34,11 @@ import { QueryRunner } from "../query-runner/QueryRunner"
 import { SelectQueryBuilder } from "../query-builder/SelectQueryBuilder"
 import { LoggerFactory } from "../logger/LoggerFactory"
 import { QueryResultCacheFactory } from "../cache/QueryResultCacheFactory"
+import { QueryResultCacheInvalidator } from "../cache/QueryResultCacheInvalidator"
+import { EntityCache } from "../cache/EntityCache"
+import { ReplicationWriteTracker } from "../driver/ReplicationWriteTracker"
+import { TenantContext } from "../tenant/TenantContext"
+import { InstrumentationContext } from "../instrumentation/InstrumentationContext"
 import { QueryResultCache } from "../cache/QueryResultCache"
 import { SqljsEntityManager } from "../entity-manager/SqljsEntityManager"
 import { RelationLoader } from "../query-builder/RelationLoader"
@@ -106,6 +114,11 @@ export class DataSource {
      */
     readonly migrations: MigrationInterface[] = []
 
+    /**
+     * Seeder instances that are registered for this connection.
+     */
+    readonly seeds: SeederInterface[] = []
+
     /**
      * Entity subscriber instances that are registered for this connection.
      */
@@ -127,6 +140,34 @@ export class DataSource {
      */
     queryResultCache?: QueryResultCache
 
+    /**
+     * Query results being loaded to refresh the cache, by their cache keys.
+     * Used to run a single query when the same cached query is loaded concurrently.
+     *
+     * @internal
+     */
+    readonly queryResultCacheRefreshes = new Map<string, Promise<any>>()
+
+    /**
+     * Used to work with entities cached by their primary keys.
+     */
+    readonly entityCache: EntityCache
+
+    /**
+     * Used to execute reads on master shortly after data is written.
+     */
+    readonly replicationWriteTracker: ReplicationWriteTracker
+
+    /**
+     * Keeps the tenant by which entities with a tenant column are filtered.
+     */
+    readonly tenantContext: TenantContext
+
+    /**
+     * Starts spans of queries, transactions, persistence operations and migrations.
+     */
+    readonly instrumentationContext: InstrumentationContext
+
     /**
      * Used to load relations and work with lazy relations.
      */
@@ -154,6 +195,10 @@ export class DataSource {
         this.queryResultCache = options.cache
             ? new QueryResultCacheFactory(this).create()
             : undefined
+        this.entityCache = new EntityCache(this)
+        this.replicationWriteTracker = new ReplicationWriteTracker(this)
+        this.tenantContext = new TenantContext()
+        this.instrumentationContext = new InstrumentationContext(this)
         this.relationLoader = new RelationLoader(this)
         this.relationIdLoader = new RelationIdLoader(this)
         this.isInitialized = false
@@ -423,6 +468,33 @@ export class DataSource {
         await migrationExecutor.undoLastMigration()
     }
 
+    /**
+     * Runs or reverts migrations, so the given target becomes the last executed migration.
+     * Target is a migration name or timestamp, 0 reverts all executed migrations.
+     * When direction is given, migrating to a target which requires the opposite direction throws an error.
+     * Can be used only after connection to the database is established.
+     */
+    async migrateTo(
+        target: string | number,
+        options?: {
+            transaction?: "all" | "none" | "each"
+            fake?: boolean
+            direction?: "up" | "down"
+        },
+    ): Promise<Migration[]> {
+        if (!this.isInitialized)
+            throw new CannotExecuteNotConnectedError(this.name)
+
+        const migrationExecutor = new MigrationExecutor(this)
+        migrationExecutor.transaction =
+            options?.transaction ||
+            this.options?.migrationsTransactionMode ||
+            "all"
+        migrationExecutor.fake = (options && options.fake) || false
+
+        return migrationExecutor.migrateTo(target, options?.direction)
+    }
+
     /**
      * Lists all migrations and whether they have been run.
      * Returns true if there are pending migrations
@@ -435,6 +507,38 @@ export class DataSource {
         return await migrationExecutor.showMigrations()
     }
 
+    /**
+     * Runs all pending seeders.
+     * One-time seeders that were already executed are skipped.
+     * Can be used only after connection to the database is established.
+     */
+    async runSeeds(options?: {
+        transaction?: "all" | "none" | "each"
+        fake?: boolean
+    }): Promise<Seed[]> {
+        if (!this.isInitialized)
+            throw new CannotExecuteNotConnectedError(this.name)
+
+        const seedExecutor = new SeedExecutor(this)
+        seedExecutor.transaction =
+            options?.transaction || this.options?.seedsTransactionMode || "all"
+        seedExecutor.fake = (options && options.fake) || false
+
+        return await seedExecutor.executePendingSeeds()
+    }
+
+    /**
+     * Lists all seeders and whether they have been run.
+     * Returns true if there are pending one-time seeders.
+     */
+    async showSeeds(): Promise<boolean> {
+        if (!this.isInitialized) {
+            throw new CannotExecuteNotConnectedError(this.name)
+        }
+        const seedExecutor = new SeedExecutor(this)
+        return await seedExecutor.showSeeds()
+    }
+
     /**
      * Checks if entity metadata exist for the given entity class, target name or table name.
      */
@@ -700,6 +804,11 @@ export class DataSource {
         const subscribers = await connectionMetadataBuilder.buildSubscribers(
             flattenedSubscribers,
         )
+        if (
+            typeof this.options.cache === "object" &&
+            this.options.cache.autoInvalidate
+        )
+            subscribers.push(new QueryResultCacheInvalidator(this))
         ObjectUtils.assign(this, { subscribers: subscribers })
 
         // build entity metadatas
@@ -717,6 +826,14 @@ export class DataSource {
             ),
         })
 
+        // cached entities are removed from the cache when transactions changing them are committed
+        if (entityMetadatas.some((metadata) => metadata.cache))
+            this.subscribers.push(this.entityCache)
+
+        // reads are executed on master for a while after data is written
+        if (this.options.replicationRouting?.stickyReadsAfterWrite)
+            this.subscribers.push(this.replicationWriteTracker)
+
         // create migration instances
         const flattenedMigrations = ObjectUtils.mixedListToArray(
             this.options.migrations || [],
@@ -726,6 +843,13 @@ export class DataSource {
         )
         ObjectUtils.assign(this, { migrations: migrations })
 
+        // create seeder instances
+        const flattenedSeeds = ObjectUtils.mixedListToArray(
+            this.options.seeds || [],
+        )
+        const seeds = await connectionMetadataBuilder.buildSeeds(flattenedSeeds)
+        ObjectUtils.assign(this, { seeds: seeds })
+
         // validate all created entity metadatas to make sure user created entities are valid and correct
         entityMetadataValidator.validateMany(
             this.entityMetadatas.filter(
@@ -748,6 +872,9 @@ export class DataSource {
      * Get the replication mode SELECT queries should use for this datasource by default
      */
     defaultReplicationModeForReads(): ReplicationMode {
+        if (this.replicationWriteTracker.isSticky()) {
+            return "master"
+        }
         if ("replication" in this.driver.options) {
             const value = (
                 this.driver.options.replication as {
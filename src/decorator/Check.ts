@@ -1,5 +1,6 @@
 import { getMetadataArgsStorage } from "../globals"
 import { CheckMetadataArgs } from "../metadata-args/CheckMetadataArgs"
+import { CheckOptions } from "./options/CheckOptions"
 import { TypeORMError } from "../error"
 
 /**
@@ -9,6 +10,16 @@ import { TypeORMError } from "../error"
  */
 export function Check(expression: string): ClassDecorator & PropertyDecorator
 
+/**
+ * Creates a database check.
+ * Can be used on entity property or on entity.
+ * Can create checks with composite columns when used on entity.
+ */
+export function Check(
+    expression: string,
+    options: CheckOptions,
+): ClassDecorator & PropertyDecorator
+
 /**
  * Creates a database check.
  * Can be used on entity property or on entity.
@@ -17,6 +28,7 @@ export function Check(expression: string): ClassDecorator & PropertyDecorator
 export function Check(
     name: string,
     expression: string,
+    options?: CheckOptions,
 ): ClassDecorator & PropertyDecorator
 
 /**
@@ -26,10 +38,19 @@ export function Check(
  */
 export function Check(
     nameOrExpression: string,
-    maybeExpression?: string,
+    maybeExpressionOrOptions?: string | CheckOptions,
+    maybeOptions?: CheckOptions,
 ): ClassDecorator & PropertyDecorator {
+    const maybeExpression =
+        typeof maybeExpressionOrOptions === "string"
+            ? maybeExpressionOrOptions
+            : undefined
     const name = maybeExpression ? nameOrExpression : undefined
     const expression = maybeExpression ? maybeExpression : nameOrExpression
+    const options =
+        (typeof maybeExpressionOrOptions === "object"
+            ? maybeExpressionOrOptions
+            : maybeOptions) || {}
 
     if (!expression) throw new TypeORMError(`Check expression is required`)
 
@@ -43,6 +64,7 @@ export function Check(
                 : (clsOrObject as Function),
             name: name,
             expression: expression,
+            dependsOnFunctions: options.dependsOnFunctions,
         } as CheckMetadataArgs)
     }
 }
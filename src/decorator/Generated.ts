@@ -1,23 +1,39 @@
 import { getMetadataArgsStorage } from "../globals"
 import { GeneratedMetadataArgs } from "../metadata-args/GeneratedMetadataArgs"
+import { GeneratedSequenceOptions } from "./options/GeneratedSequenceOptions"
 
 /**
  * Marks a column to generate a value on entity insertion.
- * There are three types of generation strategy - increment, uuid and rowid (cockroachdb only).
+ * There are four types of generation strategy - increment, uuid, rowid (cockroachdb only) and sequence.
  * Increment uses a number which increases by one on each insertion.
  * Uuid generates a special UUID token.
  * Rowid supports only in CockroachDB and uses `unique_rowid()` function
+ * Sequence takes the next value of the named database sequence.
  *
  * Note, some databases do not support non-primary generation columns.
  */
 export function Generated(
-    strategy: "increment" | "uuid" | "rowid" = "increment",
+    strategy?: "increment" | "uuid" | "rowid",
+): PropertyDecorator
+
+/**
+ * Marks a column to take its value from the named database sequence on entity insertion.
+ */
+export function Generated(
+    strategy: "sequence",
+    options: GeneratedSequenceOptions,
+): PropertyDecorator
+
+export function Generated(
+    strategy: "increment" | "uuid" | "rowid" | "sequence" = "increment",
+    options?: GeneratedSequenceOptions,
 ): PropertyDecorator {
     return function (object: Object, propertyName: string) {
         getMetadataArgsStorage().generations.push({
             target: object.constructor,
             propertyName: propertyName,
             strategy: strategy,
+            sequenceName: options ? options.sequenceName : undefined,
         } as GeneratedMetadataArgs)
     }
 }
@@ -0,0 +1,20 @@
+import { getMetadataArgsStorage } from "../globals"
+import { SequenceMetadataArgs } from "../metadata-args/SequenceMetadataArgs"
+import { SequenceOptions } from "./options/SequenceOptions"
+
+/**
+ * Creates a named database sequence together with the entity.
+ * Sequence can be used by columns generated with "sequence" strategy.
+ */
+export function Sequence(
+    name: string,
+    options?: SequenceOptions,
+): ClassDecorator {
+    return function (target: Function) {
+        getMetadataArgsStorage().sequences.push({
+            target: target,
+            name: name,
+            ...options,
+        } as SequenceMetadataArgs)
+    }
+}
@@ -0,0 +1,48 @@
+import { getMetadataArgsStorage } from "../globals"
+import { TriggerMetadataArgs } from "../metadata-args/TriggerMetadataArgs"
+import { TriggerOptions } from "./options/TriggerOptions"
+import { TypeORMError } from "../error"
+
+/**
+ * Creates a database trigger on the entity's table.
+ * Trigger executes either given body or an existing function (Postgres only).
+ */
+export function Trigger(options: TriggerOptions): ClassDecorator
+
+/**
+ * Creates a database trigger on the entity's table.
+ * Trigger executes either given body or an existing function (Postgres only).
+ */
+export function Trigger(name: string, options: TriggerOptions): ClassDecorator
+
+/**
+ * Creates a database trigger on the entity's table.
+ * Trigger executes either given body or an existing function (Postgres only).
+ */
+export function Trigger(
+    nameOrOptions: string | TriggerOptions,
+    maybeOptions?: TriggerOptions,
+): ClassDecorator {
+    const name = typeof nameOrOptions === "string" ? nameOrOptions : undefined
+    const options =
+        typeof nameOrOptions === "string" ? maybeOptions : nameOrOptions
+
+    if (!options || !options.events || !options.events.length)
+        throw new TypeORMError(`Trigger events are required`)
+    if (!options.body === !options.function)
+        throw new TypeORMError(
+            `Trigger must have either a body or a function, but not both`,
+        )
+
+    return function (target: Function) {
+        getMetadataArgsStorage().triggers.push({
+            target: target,
+            name: name,
+            timing: options.timing,
+            events: options.events,
+            level: options.level,
+            body: options.body,
+            function: options.function,
+        } as TriggerMetadataArgs)
+    }
+}
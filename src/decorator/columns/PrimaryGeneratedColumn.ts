@@ -4,6 +4,7 @@ import { PrimaryGeneratedColumnUUIDOptions } from "../options/PrimaryGeneratedCo
 import { GeneratedMetadataArgs } from "../../metadata-args/GeneratedMetadataArgs"
 import { ColumnOptions } from "../options/ColumnOptions"
 import { PrimaryGeneratedColumnIdentityOptions } from "../options/PrimaryGeneratedColumnIdentityOptions"
+import { PrimaryGeneratedColumnSequenceOptions } from "../options/PrimaryGeneratedColumnSequenceOptions"
 import { ObjectUtils } from "../../util/ObjectUtils"
 
 /**
@@ -47,6 +48,15 @@ export function PrimaryGeneratedColumn(
     options?: PrimaryGeneratedColumnIdentityOptions,
 ): PropertyDecorator
 
+/**
+ * Column decorator is used to mark a specific class property as a table column.
+ * Column values are taken from the named database sequence.
+ */
+export function PrimaryGeneratedColumn(
+    strategy: "sequence",
+    options: PrimaryGeneratedColumnSequenceOptions,
+): PropertyDecorator
+
 /**
  * Column decorator is used to mark a specific class property as a table column.
  * Only properties decorated with this decorator will be persisted to the database when entity be saved.
@@ -58,17 +68,20 @@ export function PrimaryGeneratedColumn(
         | "uuid"
         | "rowid"
         | "identity"
+        | "sequence"
         | PrimaryGeneratedColumnNumericOptions
         | PrimaryGeneratedColumnUUIDOptions
         | PrimaryGeneratedColumnIdentityOptions,
     maybeOptions?:
         | PrimaryGeneratedColumnNumericOptions
         | PrimaryGeneratedColumnUUIDOptions
-        | PrimaryGeneratedColumnIdentityOptions,
+        | PrimaryGeneratedColumnIdentityOptions
+        | PrimaryGeneratedColumnSequenceOptions,
 ): PropertyDecorator {
     // normalize parameters
     const options: ColumnOptions = {}
-    let strategy: "increment" | "uuid" | "rowid" | "identity"
+    let strategy: "increment" | "uuid" | "rowid" | "identity" | "sequence"
+    let sequenceName: string | undefined
     if (strategyOrOptions) {
         if (typeof strategyOrOptions === "string")
             strategy = strategyOrOptions as
@@ -76,6 +89,7 @@ export function PrimaryGeneratedColumn(
                 | "uuid"
                 | "rowid"
                 | "identity"
+                | "sequence"
 
         if (ObjectUtils.isObject(strategyOrOptions)) {
             strategy = "increment"
@@ -84,12 +98,21 @@ export function PrimaryGeneratedColumn(
     } else {
         strategy = "increment"
     }
-    if (ObjectUtils.isObject(maybeOptions)) Object.assign(options, maybeOptions)
+    if (ObjectUtils.isObject(maybeOptions)) {
+        const { sequenceName: givenSequenceName, ...columnOptions } =
+            maybeOptions as PrimaryGeneratedColumnSequenceOptions
+        sequenceName = givenSequenceName
+        Object.assign(options, columnOptions)
+    }
 
     return function (object: Object, propertyName: string) {
         // if column type is not explicitly set then determine it based on generation strategy
         if (!options.type) {
-            if (strategy === "increment" || strategy === "identity") {
+            if (
+                strategy === "increment" ||
+                strategy === "identity" ||
+                strategy === "sequence"
+            ) {
                 options.type = Number
             } else if (strategy === "uuid") {
                 options.type = "uuid"
@@ -114,6 +137,7 @@ export function PrimaryGeneratedColumn(
             target: object.constructor,
             propertyName: propertyName,
             strategy: strategy,
+            sequenceName: sequenceName,
         } as GeneratedMetadataArgs)
     }
 }
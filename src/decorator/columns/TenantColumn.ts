@@ -0,0 +1,37 @@
+import { getMetadataArgsStorage } from "../../globals"
+import { ColumnMetadataArgs } from "../../metadata-args/ColumnMetadataArgs"
+import { ColumnTypeUndefinedError } from "../../error/ColumnTypeUndefinedError"
+import { ColumnOptions } from "../options/ColumnOptions"
+
+/**
+ * This column will store id of the tenant owning the entity.
+ * Queries are automatically filtered by the tenant set in the data source tenant context,
+ * and inserted entities get its id.
+ */
+export function TenantColumn(options?: ColumnOptions): PropertyDecorator {
+    return function (object: Object, propertyName: string) {
+        options = options || {}
+
+        // if type is not given explicitly then try to guess it
+        if (!options.type) {
+            const reflectMetadataType =
+                Reflect && (Reflect as any).getMetadata
+                    ? (Reflect as any).getMetadata(
+                          "design:type",
+                          object,
+                          propertyName,
+                      )
+                    : undefined
+            if (reflectMetadataType) options.type = reflectMetadataType
+        }
+        if (!options.type)
+            throw new ColumnTypeUndefinedError(object, propertyName)
+
+        getMetadataArgsStorage().columns.push({
+            target: object.constructor,
+            propertyName: propertyName,
+            mode: "tenant",
+            options: options,
+        } as ColumnMetadataArgs)
+    }
+}
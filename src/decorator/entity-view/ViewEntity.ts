@@ -41,6 +41,7 @@ export function ViewEntity(
             dependsOn: options.dependsOn
                 ? new Set(options.dependsOn)
                 : undefined,
+            dependsOnFunctions: options.dependsOnFunctions,
             type: "view",
             database: options.database ? options.database : undefined,
             schema: options.schema ? options.schema : undefined,
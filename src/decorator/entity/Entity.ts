@@ -42,6 +42,8 @@ export function Entity(
             synchronize: options.synchronize,
             withoutRowid: options.withoutRowid,
             comment: options.comment ? options.comment : undefined,
+            partitioning: options.partitioning,
+            cache: options.cache,
         } as TableMetadataArgs)
     }
 }
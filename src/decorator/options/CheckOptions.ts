@@ -0,0 +1,10 @@
+/**
+ * Describes all check's options.
+ */
+export interface CheckOptions {
+    /**
+     * Names of the database functions (declared in the "functions" data source option) the check expression depends on.
+     * Check is recreated when any of these functions has to be recreated.
+     */
+    dependsOnFunctions?: string[]
+}
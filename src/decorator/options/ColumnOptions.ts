@@ -90,6 +90,12 @@ export interface ColumnOptions extends ColumnCommonOptions {
      */
     comment?: string
 
+    /**
+     * Indicates if values of this column are sensitive, e.g. passwords or tokens.
+     * Query parameters bound to sensitive columns are masked in logs, query errors and query events.
+     */
+    sensitive?: boolean
+
     /**
      * The precision for a decimal (exact numeric) column (applies only for decimal column), which is the maximum
      * number of digits that are stored for the values.
@@ -0,0 +1,10 @@
+/**
+ * Describes how entities are cached by their primary keys.
+ */
+export interface EntityCacheOptions {
+    /**
+     * Time in milliseconds in which cached entity will expire.
+     * If not set then global caching time will be used.
+     */
+    ttl?: number
+}
@@ -1,4 +1,6 @@
 import { OrderByCondition } from "../../find-options/OrderByCondition"
+import { EntityPartitioningOptions } from "./EntityPartitioningOptions"
+import { EntityCacheOptions } from "./EntityCacheOptions"
 
 /**
  * Describes all entity's options.
@@ -51,4 +53,15 @@ export interface EntityOptions {
      * Table comment. Not supported by all database types.
      */
     comment?: string
+
+    /**
+     * Declarative table partitioning. Supported by Postgres and MySQL.
+     */
+    partitioning?: EntityPartitioningOptions
+
+    /**
+     * Enables caching of entities loaded by their primary keys using query result cache.
+     * Cached entities are removed when they are changed using entity manager, repositories or query builder.
+     */
+    cache?: boolean | EntityCacheOptions
 }
@@ -0,0 +1,23 @@
+import { TablePartitionOptions } from "../../schema-builder/options/TablePartitionOptions"
+
+/**
+ * Describes how entity's table is partitioned.
+ */
+export interface EntityPartitioningOptions {
+    /**
+     * Partitioning strategy.
+     */
+    type: "RANGE" | "LIST" | "HASH"
+
+    /**
+     * Property names of the columns used as partition key.
+     */
+    columns: string[]
+
+    /**
+     * Partitions created together with the table.
+     * Schema synchronization creates declared partitions missing in the database,
+     * but never drops partitions which are not declared here.
+     */
+    partitions?: TablePartitionOptions[]
+}
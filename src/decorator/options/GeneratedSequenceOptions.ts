@@ -0,0 +1,10 @@
+/**
+ * Describes options of a column generated with "sequence" strategy.
+ */
+export interface GeneratedSequenceOptions {
+    /**
+     * Name of the sequence which provides column values.
+     * Sequence is created automatically if it is not declared with @Sequence decorator.
+     */
+    sequenceName: string
+}
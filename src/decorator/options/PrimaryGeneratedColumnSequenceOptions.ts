@@ -0,0 +1,32 @@
+import { PrimaryGeneratedColumnType } from "../../driver/types/ColumnTypes"
+
+/**
+ * Describes all options for PrimaryGeneratedColumn decorator with sequence generation strategy.
+ */
+export interface PrimaryGeneratedColumnSequenceOptions {
+    /**
+     * Name of the sequence which provides column values.
+     * Sequence is created automatically if it is not declared with @Sequence decorator.
+     */
+    sequenceName: string
+
+    /**
+     * Column type. Must be one of the value from the ColumnTypes class.
+     */
+    type?: PrimaryGeneratedColumnType
+
+    /**
+     * Column name in the database.
+     */
+    name?: string
+
+    /**
+     * Column comment. Not supported by all database types.
+     */
+    comment?: string
+
+    /**
+     * Name of the primary key constraint.
+     */
+    primaryKeyConstraintName?: string
+}
@@ -0,0 +1,40 @@
+/**
+ * Describes all sequence's options.
+ */
+export interface SequenceOptions {
+    /**
+     * First value returned by the sequence.
+     */
+    start?: number
+
+    /**
+     * Value added to the current sequence value to create a new value.
+     */
+    increment?: number
+
+    /**
+     * Minimum value the sequence can generate.
+     */
+    minValue?: number
+
+    /**
+     * Maximum value the sequence can generate.
+     */
+    maxValue?: number
+
+    /**
+     * Indicates if sequence wraps around when it reaches its maximum (or minimum) value.
+     */
+    cycle?: boolean
+
+    /**
+     * Number of sequence values preallocated and stored in memory.
+     */
+    cache?: number
+
+    /**
+     * Property name of the column which owns the sequence.
+     * Sequence is dropped together with its owner column. Supported by Postgres and CockroachDB.
+     */
+    ownedBy?: string
+}
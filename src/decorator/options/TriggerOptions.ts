@@ -0,0 +1,32 @@
+/**
+ * Describes all trigger's options.
+ */
+export interface TriggerOptions {
+    /**
+     * When trigger fires relative to the triggering statement.
+     */
+    timing: "BEFORE" | "AFTER" | "INSTEAD OF"
+
+    /**
+     * Statements which fire the trigger.
+     */
+    events: ("INSERT" | "UPDATE" | "DELETE")[]
+
+    /**
+     * Indicates if trigger fires once per affected row or once per statement.
+     * Default is "ROW".
+     */
+    level?: "ROW" | "STATEMENT"
+
+    /**
+     * Trigger action, as written after the trigger header,
+     * e.g. "BEGIN ... END" block or a single statement.
+     * In Postgres body is wrapped into a trigger function of the same name as the trigger.
+     */
+    body?: string
+
+    /**
+     * Name of the existing function executed by the trigger. Supported only by Postgres.
+     */
+    function?: string
+}
@@ -43,4 +43,10 @@ export interface ViewEntityOptions {
      * to ensure correct order of view migrations.
      */
     dependsOn?: (Function | string)[]
+
+    /**
+     * Names of the database functions (declared in the "functions" data source option) the view depends on.
+     * View is recreated when any of these functions has to be recreated.
+     */
+    dependsOnFunctions?: string[]
 }
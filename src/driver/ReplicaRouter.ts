@@ -0,0 +1,228 @@
+import { ReplicationRoutingOptions } from "./types/ReplicationRoutingOptions"
+
+/**
+ * Selects replicas (slaves) used for reads by replicated drivers,
+ * and keeps track of replicas evicted because they are failing or lagging behind master.
+ */
+export class ReplicaRouter {
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Index of the replica from which "round-robin" selection continues.
+     */
+    protected nextIndex = 0
+
+    /**
+     * Number of connections in use, by replica index.
+     */
+    protected activeConnections: number[]
+
+    /**
+     * Time until which replicas are evicted, by replica index.
+     */
+    protected evictedUntil: number[]
+
+    /**
+     * Timer running periodic health checks.
+     */
+    protected healthCheckTimer?: any
+
+    /**
+     * Indicates if health checks are being run.
+     */
+    protected isCheckingHealth = false
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(
+        readonly replicaCount: number,
+        readonly options: ReplicationRoutingOptions = {},
+    ) {
+        this.activeConnections = new Array(replicaCount).fill(0)
+        this.evictedUntil = new Array(replicaCount).fill(0)
+    }
+
+    // -------------------------------------------------------------------------
+    // Accessors
+    // -------------------------------------------------------------------------
+
+    /**
+     * Indicates if failing replicas are evicted and reads are retried on other replicas.
+     */
+    get isFailoverEnabled(): boolean {
+        return !!this.options.healthCheck
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Selects index of the replica to use for the next read.
+     * Returns undefined if all replicas, except excluded ones, are evicted.
+     */
+    select(excluded: number[] = []): number | undefined {
+        const candidates: number[] = []
+        for (let i = 0; i < this.replicaCount; i++) {
+            // candidates are listed in round-robin order
+            const index = (this.nextIndex + i) % this.replicaCount
+            if (excluded.indexOf(index) === -1 && this.isAvailable(index))
+                candidates.push(index)
+        }
+        if (candidates.length === 0) return undefined
+
+        let selected: number
+        switch (this.options.policy) {
+            case "round-robin":
+                selected = candidates[0]
+                break
+            case "least-connections":
+                selected = candidates.reduce((selected, index) =>
+                    this.activeConnections[index] <
+                    this.activeConnections[selected]
+                        ? index
+                        : selected,
+                )
+                break
+            case "weighted":
+                selected = this.selectWeighted(candidates)
+                break
+            default:
+                selected =
+                    candidates[Math.floor(Math.random() * candidates.length)]
+        }
+
+        this.nextIndex = (selected + 1) % this.replicaCount
+        return selected
+    }
+
+    /**
+     * Marks a connection to the given replica as being in use.
+     */
+    acquire(index: number): void {
+        this.activeConnections[index]++
+    }
+
+    /**
+     * Marks a connection to the given replica as released.
+     */
+    release(index: number): void {
+        if (this.activeConnections[index] > 0) this.activeConnections[index]--
+    }
+
+    /**
+     * Gets number of connections to the given replica in use.
+     */
+    getActiveConnections(index: number): number {
+        return this.activeConnections[index]
+    }
+
+    /**
+     * Stops using the given replica until eviction time passes or it passes a health check.
+     */
+    evict(index: number): void {
+        const evictionTime = this.options.healthCheck?.evictionTime ?? 30000
+        this.evictedUntil[index] = Date.now() + evictionTime
+    }
+
+    /**
+     * Starts using the given evicted replica again.
+     */
+    restore(index: number): void {
+        this.evictedUntil[index] = 0
+    }
+
+    /**
+     * Checks if the given replica can be used.
+     */
+    isAvailable(index: number): boolean {
+        return this.evictedUntil[index] <= Date.now()
+    }
+
+    /**
+     * Checks all replicas using the given function, which returns replication lag of a replica in milliseconds.
+     * Replicas for which the function fails or returns lag greater than allowed are evicted,
+     * others are restored.
+     */
+    async checkHealth(
+        check: (index: number) => Promise<number>,
+    ): Promise<void> {
+        if (this.isCheckingHealth) return
+
+        this.isCheckingHealth = true
+        try {
+            const maxReplicationLag =
+                this.options.healthCheck?.maxReplicationLag
+            await Promise.all(
+                this.evictedUntil.map(async (_, index) => {
+                    try {
+                        const lag = await check(index)
+                        if (
+                            maxReplicationLag !== undefined &&
+                            lag > maxReplicationLag
+                        ) {
+                            this.evict(index)
+                        } else {
+                            this.restore(index)
+                        }
+                    } catch {
+                        this.evict(index)
+                    }
+                }),
+            )
+        } finally {
+            this.isCheckingHealth = false
+        }
+    }
+
+    /**
+     * Starts periodic health checks, if their interval is set.
+     */
+    startHealthChecks(check: (index: number) => Promise<number>): void {
+        const interval = this.options.healthCheck?.interval
+        if (!interval || this.healthCheckTimer) return
+
+        this.healthCheckTimer = setInterval(
+            () => this.checkHealth(check),
+            interval,
+        )
+        // health checks should not keep the process running
+        if (this.healthCheckTimer.unref) this.healthCheckTimer.unref()
+    }
+
+    /**
+     * Stops periodic health checks.
+     */
+    stopHealthChecks(): void {
+        if (!this.healthCheckTimer) return
+
+        clearInterval(this.healthCheckTimer)
+        this.healthCheckTimer = undefined
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Selects a random replica with probability proportional to its weight.
+     */
+    protected selectWeighted(candidates: number[]): number {
+        const weights = candidates.map((index) =>
+            Math.max(this.options.weights?.[index] ?? 1, 0),
+        )
+        const total = weights.reduce((total, weight) => total + weight, 0)
+        if (total === 0) return candidates[0]
+
+        let random = Math.random() * total
+        for (let i = 0; i < candidates.length; i++) {
+            random -= weights[i]
+            if (random < 0) return candidates[i]
+        }
+        return candidates[candidates.length - 1]
+    }
+}
@@ -0,0 +1,103 @@
+import { DataSource } from "../data-source/DataSource"
+import { QueryRunner } from "../query-runner/QueryRunner"
+import { EntitySubscriberInterface } from "../subscriber/EntitySubscriberInterface"
+import { InsertEvent } from "../subscriber/event/InsertEvent"
+import { RecoverEvent } from "../subscriber/event/RecoverEvent"
+import { RemoveEvent } from "../subscriber/event/RemoveEvent"
+import { SoftRemoveEvent } from "../subscriber/event/SoftRemoveEvent"
+import { TransactionCommitEvent } from "../subscriber/event/TransactionCommitEvent"
+import { TransactionRollbackEvent } from "../subscriber/event/TransactionRollbackEvent"
+import { UpdateEvent } from "../subscriber/event/UpdateEvent"
+
+/**
+ * Tracks time of the last write, so that reads following it are executed on master
+ * until the written data is replicated to slaves.
+ * Writes made inside a transaction are tracked once the transaction is committed.
+ */
+export class ReplicationWriteTracker implements EntitySubscriberInterface {
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Time of the last write.
+     */
+    protected lastWriteTime = 0
+
+    /**
+     * Query runners which have written data in their active transactions.
+     */
+    protected pendingWrites = new WeakSet<QueryRunner>()
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(protected connection: DataSource) {}
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Checks if reads should be executed on master because data was written recently.
+     */
+    isSticky(): boolean {
+        const stickyReadsAfterWrite =
+            this.connection.options.replicationRouting?.stickyReadsAfterWrite
+        if (!stickyReadsAfterWrite) return false
+
+        return Date.now() - this.lastWriteTime < stickyReadsAfterWrite
+    }
+
+    afterInsert(event: InsertEvent<any>): void {
+        this.markWrite(event.queryRunner)
+    }
+
+    afterUpdate(event: UpdateEvent<any>): void {
+        this.markWrite(event.queryRunner)
+    }
+
+    afterRemove(event: RemoveEvent<any>): void {
+        this.markWrite(event.queryRunner)
+    }
+
+    afterSoftRemove(event: SoftRemoveEvent<any>): void {
+        this.markWrite(event.queryRunner)
+    }
+
+    afterRecover(event: RecoverEvent<any>): void {
+        this.markWrite(event.queryRunner)
+    }
+
+    afterTransactionCommit(event: TransactionCommitEvent): void {
+        // nested transactions are committed together with the outer one
+        if (event.queryRunner.isTransactionActive) return
+        if (!this.pendingWrites.has(event.queryRunner)) return
+
+        this.pendingWrites.delete(event.queryRunner)
+        this.lastWriteTime = Date.now()
+    }
+
+    afterTransactionRollback(event: TransactionRollbackEvent): void {
+        if (event.queryRunner.isTransactionActive) return
+
+        this.pendingWrites.delete(event.queryRunner)
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Tracks a write made by the given query runner,
+     * or postpones it until the active transaction is committed.
+     */
+    protected markWrite(queryRunner: QueryRunner): void {
+        if (queryRunner.isTransactionActive) {
+            this.pendingWrites.add(queryRunner)
+        } else {
+            this.lastWriteTime = Date.now()
+        }
+    }
+}
@@ -20,6 +20,10 @@ import { ColumnType } from "../types/ColumnTypes"
 import { TableCheck } from "../../schema-builder/table/TableCheck"
 import { IsolationLevel } from "../types/IsolationLevel"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
 import { TypeORMError } from "../../error"
 import { MetadataTableType } from "../types/MetadataTableType"
 import { InstanceChecker } from "../../util/InstanceChecker"
@@ -99,6 +103,10 @@ export class AuroraMysqlQueryRunner
         }
 
         if (this.transactionDepth === 0) {
+            this.connection.instrumentationContext.startTransactionSpan(
+                this,
+                isolationLevel,
+            )
             this.transactionDepth += 1
             await this.client.startTransaction()
         } else {
@@ -127,6 +135,10 @@ export class AuroraMysqlQueryRunner
             this.transactionDepth -= 1
             await this.client.commitTransaction()
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "commit",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionCommit")
@@ -150,6 +162,10 @@ export class AuroraMysqlQueryRunner
             this.transactionDepth -= 1
             await this.client.rollbackTransaction()
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "rollback",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionRollback")
@@ -165,7 +181,19 @@ export class AuroraMysqlQueryRunner
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
-        const raw = await this.client.query(query, parameters)
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
+        let raw: any
+        try {
+            raw = await this.client.query(query, parameters)
+            span.end()
+        } catch (err) {
+            span.end(err)
+            throw err
+        }
 
         const result = new QueryResult()
 
@@ -1714,6 +1742,141 @@ export class AuroraMysqlQueryRunner
         throw new TypeORMError(`MySql does not support exclusion constraints.`)
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `aurora-mysql driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `aurora-mysql driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `aurora-mysql driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `aurora-mysql driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Creates a new trigger.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        throw new TypeORMError(`aurora-mysql driver does not support triggers.`)
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        throw new TypeORMError(`aurora-mysql driver does not support triggers.`)
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`MySql does not support sequences.`)
+    }
+
+    /**
+     * Changes options of the sequence.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        throw new TypeORMError(`MySql does not support sequences.`)
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`MySql does not support sequences.`)
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Aurora MySql driver does not support functions.`,
+        )
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Aurora MySql driver does not support functions.`,
+        )
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Aurora MySql driver does not support functions.`,
+        )
+    }
+
     /**
      * Creates a new foreign key.
      */
@@ -110,6 +110,10 @@ export class AuroraPostgresQueryRunner
         }
 
         if (this.transactionDepth === 0) {
+            this.connection.instrumentationContext.startTransactionSpan(
+                this,
+                isolationLevel,
+            )
             this.transactionDepth += 1
             await this.client.startTransaction()
         } else {
@@ -138,6 +142,10 @@ export class AuroraPostgresQueryRunner
             this.transactionDepth -= 1
             await this.client.commitTransaction()
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "commit",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionCommit")
@@ -161,6 +169,10 @@ export class AuroraPostgresQueryRunner
             this.transactionDepth -= 1
             await this.client.rollbackTransaction()
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "rollback",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionRollback")
@@ -176,7 +188,19 @@ export class AuroraPostgresQueryRunner
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
-        const raw = await this.client.query(query, parameters)
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
+        let raw: any
+        try {
+            raw = await this.client.query(query, parameters)
+            span.end()
+        } catch (err) {
+            span.end(err)
+            throw err
+        }
 
         const result = new QueryResult()
 
@@ -78,12 +78,20 @@ export class BetterSqlite3QueryRunner extends AbstractSqliteQueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const connection = this.driver.connection
 
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(query, loggedParameters, this)
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
         const queryStartTime = +new Date()
 
         const stmt = await this.getStmt(query)
@@ -117,18 +125,33 @@ export class BetterSqlite3QueryRunner extends AbstractSqliteQueryRunner {
                 connection.logger.logQuerySlow(
                     queryExecutionTime,
                     query,
-                    parameters,
+                    loggedParameters,
                     this,
                 )
 
+            connection.logger.logQueryExecuted?.(
+                queryExecutionTime,
+                query,
+                loggedParameters,
+                stmt.reader ? result.records.length : result.affected,
+                this,
+            )
+            span.end()
+
             if (!useStructuredResult) {
                 return result.raw
             }
 
             return result
         } catch (err) {
-            connection.logger.logQueryError(err, query, parameters, this)
-            throw new QueryFailedError(query, parameters, err)
+            connection.logger.logQueryError(err, query, loggedParameters, this)
+            span.end(err)
+            throw new QueryFailedError(
+                query,
+                parameters,
+                err,
+                redactedParameters,
+            )
         }
     }
 
@@ -55,18 +55,28 @@ export class CapacitorQueryRunner extends AbstractSqliteQueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const databaseConnection = await this.connect()
 
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(query, loggedParameters, this)
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
 
         const command = query.substring(
             0,
             query.indexOf(" ") !== -1 ? query.indexOf(" ") : undefined,
         )
 
+        const queryStartTime = +new Date()
+
         try {
             let raw: any
 
@@ -101,6 +111,31 @@ export class CapacitorQueryRunner extends AbstractSqliteQueryRunner {
                 result.raw = raw.changes.lastId || raw.changes.changes
             }
 
+            // log slow queries if maxQueryExecution time is set
+            const maxQueryExecutionTime =
+                this.driver.options.maxQueryExecutionTime
+            const queryEndTime = +new Date()
+            const queryExecutionTime = queryEndTime - queryStartTime
+            if (
+                maxQueryExecutionTime &&
+                queryExecutionTime > maxQueryExecutionTime
+            )
+                this.driver.connection.logger.logQuerySlow(
+                    queryExecutionTime,
+                    query,
+                    loggedParameters,
+                    this,
+                )
+
+            this.driver.connection.logger.logQueryExecuted?.(
+                queryExecutionTime,
+                query,
+                loggedParameters,
+                result.affected ?? result.records.length,
+                this,
+            )
+            span.end()
+
             if (!useStructuredResult) {
                 return result.raw
             }
@@ -110,11 +145,17 @@ export class CapacitorQueryRunner extends AbstractSqliteQueryRunner {
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                loggedParameters,
                 this,
             )
+            span.end(err)
 
-            throw new QueryFailedError(query, parameters, err)
+            throw new QueryFailedError(
+                query,
+                parameters,
+                err,
+                redactedParameters,
+            )
         }
     }
 
@@ -637,7 +637,7 @@ export class CockroachDriver implements Driver {
         scale?: number
         isArray?: boolean
         isGenerated?: boolean
-        generationStrategy?: "increment" | "uuid" | "rowid"
+        generationStrategy?: "increment" | "uuid" | "rowid" | "sequence"
     }): string {
         if (
             column.type === Number ||
@@ -700,6 +700,14 @@ export class CockroachDriver implements Driver {
     normalizeDefault(columnMetadata: ColumnMetadata): string | undefined {
         const defaultValue = columnMetadata.default
 
+        if (
+            columnMetadata.isGenerated &&
+            columnMetadata.generationStrategy === "sequence" &&
+            columnMetadata.sequenceName
+        ) {
+            return this.buildSequenceDefault(columnMetadata.sequenceName)
+        }
+
         if (defaultValue === undefined || defaultValue === null) {
             return undefined
         }
@@ -760,6 +768,13 @@ export class CockroachDriver implements Driver {
         return `${defaultValue}`
     }
 
+    /**
+     * Builds default value expression of the column which takes its values from the given sequence.
+     */
+    buildSequenceDefault(sequenceName: string): string {
+        return `nextval('${sequenceName}')`
+    }
+
     /**
      * Normalizes "isUnique" value of the column.
      */
@@ -936,7 +951,9 @@ export class CockroachDriver implements Driver {
                         tableColumn.enum,
                         columnMetadata.enum.map((val) => val + ""),
                     )) || // enums in postgres are always strings
-                tableColumn.isGenerated !== columnMetadata.isGenerated ||
+                tableColumn.isGenerated !==
+                    (columnMetadata.isGenerated &&
+                        columnMetadata.generationStrategy !== "sequence") || // sequence defaults are compared as regular defaults
                 tableColumn.generatedType !== columnMetadata.generatedType ||
                 (tableColumn.asExpression || "").trim() !==
                     (columnMetadata.asExpression || "").trim() ||
@@ -21,6 +21,10 @@ import { TableCheck } from "../../schema-builder/table/TableCheck"
 import { ColumnType } from "../types/ColumnTypes"
 import { IsolationLevel } from "../types/IsolationLevel"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
 import { ReplicationMode } from "../types/ReplicationMode"
 import { TypeORMError } from "../../error"
 import { MetadataTableType } from "../types/MetadataTableType"
@@ -61,7 +65,11 @@ export class CockroachQueryRunner
     /**
      * Stores all executed queries to be able to run them again if transaction fails.
      */
-    protected queries: { query: string; parameters?: any[] }[] = []
+    protected queries: {
+        query: string
+        parameters?: any[]
+        redactedParameters?: any[]
+    }[] = []
 
     /**
      * Indicates if running queries must be stored
@@ -190,6 +198,10 @@ export class CockroachQueryRunner
         }
 
         if (this.transactionDepth === 0) {
+            this.connection.instrumentationContext.startTransactionSpan(
+                this,
+                isolationLevel,
+            )
             this.transactionDepth += 1
             await this.query("START TRANSACTION")
             await this.query("SAVEPOINT cockroach_restart")
@@ -229,6 +241,10 @@ export class CockroachQueryRunner
             await this.query("COMMIT")
             this.queries = []
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "commit",
+            )
             this.transactionRetries = 0
         }
 
@@ -255,6 +271,10 @@ export class CockroachQueryRunner
             await this.query("ROLLBACK")
             this.queries = []
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "rollback",
+            )
             this.transactionRetries = 0
         }
 
@@ -268,23 +288,31 @@ export class CockroachQueryRunner
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const databaseConnection = await this.connect()
         const broadcasterResult = new BroadcasterResult()
 
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(query, loggedParameters, this)
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
         this.broadcaster.broadcastBeforeQueryEvent(
             broadcasterResult,
             query,
-            parameters,
+            loggedParameters,
         )
 
         const queryStartTime = +new Date()
 
         if (this.isTransactionActive && this.storeQueries) {
-            this.queries.push({ query, parameters })
+            this.queries.push({ query, parameters, redactedParameters })
         }
 
         try {
@@ -308,7 +336,7 @@ export class CockroachQueryRunner
                 this.driver.connection.logger.logQuerySlow(
                     queryExecutionTime,
                     query,
-                    parameters,
+                    loggedParameters,
                     this,
                 )
             }
@@ -332,10 +360,19 @@ export class CockroachQueryRunner
                     result.raw = raw.rows
             }
 
+            this.driver.connection.logger.logQueryExecuted?.(
+                queryExecutionTime,
+                query,
+                loggedParameters,
+                result.affected,
+                this,
+            )
+            span.end()
+
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 true,
                 queryExecutionTime,
                 raw,
@@ -354,6 +391,7 @@ export class CockroachQueryRunner
                 this.transactionRetries <
                     (this.driver.options.maxTransactionRetries || 5)
             ) {
+                span.end(err)
                 this.transactionRetries += 1
                 this.storeQueries = false
                 await this.query("ROLLBACK TO SAVEPOINT cockroach_restart")
@@ -368,10 +406,15 @@ export class CockroachQueryRunner
                 for (const q of this.queries) {
                     this.driver.connection.logger.logQuery(
                         `Retrying transaction for query "${q.query}"`,
-                        q.parameters,
+                        q.redactedParameters ?? q.parameters,
                         this,
                     )
-                    result = await this.query(q.query, q.parameters)
+                    result = await this.query(
+                        q.query,
+                        q.parameters,
+                        false,
+                        q.redactedParameters,
+                    )
                 }
                 this.transactionRetries = 0
                 this.storeQueries = true
@@ -381,19 +424,25 @@ export class CockroachQueryRunner
                 this.driver.connection.logger.logQueryError(
                     err,
                     query,
-                    parameters,
+                    loggedParameters,
                     this,
                 )
+                span.end(err)
                 this.broadcaster.broadcastAfterQueryEvent(
                     broadcasterResult,
                     query,
-                    parameters,
+                    loggedParameters,
                     false,
                     undefined,
                     undefined,
                     err,
                 )
-                throw new QueryFailedError(query, parameters, err)
+                throw new QueryFailedError(
+                    query,
+                    parameters,
+                    err,
+                    redactedParameters,
+                )
             }
         } finally {
             await broadcasterResult.wait()
@@ -408,6 +457,7 @@ export class CockroachQueryRunner
         parameters?: any[],
         onEnd?: Function,
         onError?: Function,
+        redactedParameters?: any[],
     ): Promise<ReadStream> {
         const QueryStream = this.driver.loadStreamDependency()
         if (this.isReleased) {
@@ -415,7 +465,11 @@ export class CockroachQueryRunner
         }
 
         const databaseConnection = await this.connect()
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(
+            query,
+            redactedParameters ?? parameters,
+            this,
+        )
         const stream = databaseConnection.query(
             new QueryStream(query, parameters),
         )
@@ -2649,6 +2703,172 @@ export class CockroachQueryRunner
         )
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `CockroachDB driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `CockroachDB driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `CockroachDB driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `CockroachDB driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Creates a new trigger.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        throw new TypeORMError(`CockroachDB driver does not support triggers.`)
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        throw new TypeORMError(`CockroachDB driver does not support triggers.`)
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        upQueries.push(this.createSequenceSql(sequence))
+        if (syncWithMetadata)
+            upQueries.push(await this.insertSequenceDefinitionSql(sequence))
+        downQueries.push(this.dropSequenceSql(sequence))
+        if (syncWithMetadata)
+            downQueries.push(await this.deleteSequenceDefinitionSql(sequence))
+        await this.executeQueries(upQueries, downQueries)
+    }
+
+    /**
+     * Changes options of the sequence.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        const oldSequence = InstanceChecker.isTableSequence(oldSequenceOrName)
+            ? oldSequenceOrName
+            : await this.getCachedSequence(oldSequenceOrName)
+
+        const upQueries: Query[] = [
+            this.alterSequenceSql(newSequence, oldSequence),
+        ]
+        const downQueries: Query[] = [
+            this.alterSequenceSql(oldSequence, newSequence),
+        ]
+        await this.executeQueries(upQueries, downQueries)
+
+        const index = this.loadedSequences.indexOf(oldSequence)
+        if (index !== -1) this.loadedSequences[index] = newSequence.clone()
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const sequence = InstanceChecker.isTableSequence(sequenceOrName)
+            ? sequenceOrName
+            : await this.getCachedSequence(sequenceOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata)
+            upQueries.push(await this.deleteSequenceDefinitionSql(sequence))
+        upQueries.push(this.dropSequenceSql(sequence))
+        if (syncWithMetadata)
+            downQueries.push(await this.insertSequenceDefinitionSql(sequence))
+        downQueries.push(this.createSequenceSql(sequence))
+        await this.executeQueries(upQueries, downQueries)
+
+        this.loadedSequences = this.loadedSequences.filter(
+            (loadedSequence) => loadedSequence.name !== sequence.name,
+        )
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`CockroachDB does not support functions.`)
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`CockroachDB does not support functions.`)
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`CockroachDB does not support functions.`)
+    }
+
     /**
      * Creates a new foreign key.
      */
@@ -2931,6 +3151,59 @@ export class CockroachQueryRunner
         })
     }
 
+    /**
+     * Loads sequences created by TypeORM (with given names) from the database.
+     */
+    protected async loadSequences(
+        sequenceNames?: string[],
+    ): Promise<TableSequence[]> {
+        const hasTable = await this.hasTable(this.getTypeormMetadataTableName())
+        if (!hasTable) {
+            return []
+        }
+
+        const currentSchema = await this.getCurrentSchema()
+
+        const sequencesCondition = (sequenceNames || [])
+            .map((sequenceName) => {
+                const { schema, tableName } =
+                    this.driver.parseTableName(sequenceName)
+
+                return `("t"."schema" = '${
+                    schema || currentSchema
+                }' AND "t"."name" = '${tableName}')`
+            })
+            .join(" OR ")
+
+        const query =
+            `SELECT "t"."schema", "t"."name", "s"."seqstart", "s"."seqincrement", "s"."seqmin", "s"."seqmax", "s"."seqcache", "s"."seqcycle" ` +
+            `FROM ${this.escapePath(this.getTypeormMetadataTableName())} "t" ` +
+            `INNER JOIN "pg_catalog"."pg_namespace" "ns" ON "ns"."nspname" = "t"."schema" ` +
+            `INNER JOIN "pg_catalog"."pg_class" "c" ON "c"."relname" = "t"."name" AND "c"."relnamespace" = "ns"."oid" ` +
+            `INNER JOIN "pg_catalog"."pg_sequence" "s" ON "s"."seqrelid" = "c"."oid" ` +
+            `WHERE "t"."type" = '${MetadataTableType.SEQUENCE}' ${
+                sequencesCondition ? `AND (${sequencesCondition})` : ""
+            }`
+        const dbSequences: ObjectLiteral[] = await this.query(query)
+        return dbSequences.map((dbSequence) => {
+            const schema =
+                dbSequence["schema"] === currentSchema &&
+                !this.driver.options.schema
+                    ? undefined
+                    : dbSequence["schema"]
+
+            return new TableSequence({
+                name: this.driver.buildTableName(dbSequence["name"], schema),
+                start: Number(dbSequence["seqstart"]),
+                increment: Number(dbSequence["seqincrement"]),
+                minValue: Number(dbSequence["seqmin"]),
+                maxValue: Number(dbSequence["seqmax"]),
+                cycle: dbSequence["seqcycle"] === true,
+                cache: Number(dbSequence["seqcache"]),
+            })
+        })
+    }
+
     /**
      * Loads all tables (with given names) from the database and creates a Table from them.
      */
@@ -3335,10 +3608,27 @@ export class CockroachQueryRunner
                                 } else if (
                                     dbColumn["column_default"].indexOf(
                                         "nextval",
+                                    ) !== -1 &&
+                                    dbColumn["column_default"].indexOf(
+                                        this.buildSequenceName(
+                                            table,
+                                            dbColumn["column_name"],
+                                        ),
                                     ) !== -1
                                 ) {
                                     tableColumn.isGenerated = true
                                     tableColumn.generationStrategy = "increment"
+                                } else if (
+                                    /^nextval\('[^']+'/.test(
+                                        dbColumn["column_default"],
+                                    )
+                                ) {
+                                    // column takes its values from a standalone sequence
+                                    tableColumn.default = dbColumn[
+                                        "column_default"
+                                    ]
+                                        .replace(/::regclass/i, "")
+                                        .replace(`'${currentSchema}.`, "'")
                                 } else if (
                                     dbColumn["column_default"] ===
                                     "gen_random_uuid()"
@@ -4018,6 +4308,106 @@ export class CockroachQueryRunner
         )
     }
 
+    /**
+     * Builds create sequence sql.
+     */
+    protected createSequenceSql(sequence: TableSequence): Query {
+        let sql = `CREATE SEQUENCE ${this.escapePath(sequence.name)}`
+        if (sequence.increment !== undefined)
+            sql += ` INCREMENT BY ${sequence.increment}`
+        if (sequence.minValue !== undefined)
+            sql += ` MINVALUE ${sequence.minValue}`
+        if (sequence.maxValue !== undefined)
+            sql += ` MAXVALUE ${sequence.maxValue}`
+        if (sequence.start !== undefined) sql += ` START WITH ${sequence.start}`
+        if (sequence.cache !== undefined) sql += ` CACHE ${sequence.cache}`
+        if (sequence.cycle) sql += ` CYCLE`
+        if (sequence.ownedByTable && sequence.ownedByColumn)
+            sql += ` OWNED BY ${this.escapePath(sequence.ownedByTable)}."${
+                sequence.ownedByColumn
+            }"`
+
+        return new Query(sql)
+    }
+
+    /**
+     * Builds alter sequence sql changing previous sequence options to the options of the given sequence.
+     * Options not set on the given sequence are left unchanged.
+     */
+    protected alterSequenceSql(
+        sequence: TableSequence,
+        previousSequence: TableSequence,
+    ): Query {
+        let sql = `ALTER SEQUENCE ${this.escapePath(sequence.name)}`
+        if (sequence.increment !== undefined)
+            sql += ` INCREMENT BY ${sequence.increment}`
+        if (sequence.minValue !== undefined)
+            sql += ` MINVALUE ${sequence.minValue}`
+        if (sequence.maxValue !== undefined)
+            sql += ` MAXVALUE ${sequence.maxValue}`
+        if (sequence.start !== undefined) sql += ` START WITH ${sequence.start}`
+        if (sequence.cache !== undefined) sql += ` CACHE ${sequence.cache}`
+        if (sequence.cycle) sql += ` CYCLE`
+        if (sequence.ownedByTable && sequence.ownedByColumn) {
+            sql += ` OWNED BY ${this.escapePath(sequence.ownedByTable)}."${
+                sequence.ownedByColumn
+            }"`
+        } else if (previousSequence.ownedByColumn) {
+            sql += ` OWNED BY NONE`
+        }
+
+        return new Query(sql)
+    }
+
+    /**
+     * Builds drop sequence sql.
+     */
+    protected dropSequenceSql(sequence: TableSequence): Query {
+        return new Query(`DROP SEQUENCE ${this.escapePath(sequence.name)}`)
+    }
+
+    /**
+     * Builds sql inserting sequence into typeorm metadata table.
+     */
+    protected async insertSequenceDefinitionSql(
+        sequence: TableSequence,
+    ): Promise<Query> {
+        const currentSchema = await this.getCurrentSchema()
+        let { schema, tableName: name } = this.driver.parseTableName(
+            sequence.name,
+        )
+        if (!schema) {
+            schema = currentSchema
+        }
+
+        return this.insertTypeormMetadataSql({
+            type: MetadataTableType.SEQUENCE,
+            schema: schema,
+            name: name,
+        })
+    }
+
+    /**
+     * Builds sql removing sequence from typeorm metadata table.
+     */
+    protected async deleteSequenceDefinitionSql(
+        sequence: TableSequence,
+    ): Promise<Query> {
+        const currentSchema = await this.getCurrentSchema()
+        let { schema, tableName: name } = this.driver.parseTableName(
+            sequence.name,
+        )
+        if (!schema) {
+            schema = currentSchema
+        }
+
+        return this.deleteTypeormMetadataSql({
+            type: MetadataTableType.SEQUENCE,
+            schema: schema,
+            name: name,
+        })
+    }
+
     /**
      * Builds create foreign key sql.
      */
@@ -4188,7 +4578,10 @@ export class CockroachQueryRunner
         if (column.type === "enum" || column.type === "simple-enum") {
             c += " " + this.buildEnumName(table, column)
             if (column.isArray) c += " array"
-        } else if (!column.isGenerated) {
+        } else if (
+            !column.isGenerated ||
+            column.generationStrategy === "sequence"
+        ) {
             c += " " + this.connection.driver.createFullType(column)
         }
 
@@ -4203,11 +4596,20 @@ export class CockroachQueryRunner
 
         if (!column.isNullable) c += " NOT NULL"
         if (
-            !column.isGenerated &&
+            (!column.isGenerated || column.generationStrategy === "sequence") &&
             column.default !== undefined &&
             column.default !== null
-        )
+        ) {
             c += " DEFAULT " + column.default
+        } else if (
+            column.isGenerated &&
+            column.generationStrategy === "sequence" &&
+            column.sequenceName
+        ) {
+            c += ` DEFAULT ${this.driver.buildSequenceDefault(
+                column.sequenceName,
+            )}`
+        }
 
         return c
     }
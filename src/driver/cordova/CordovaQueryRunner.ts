@@ -49,17 +49,25 @@ export class CordovaQueryRunner extends AbstractSqliteQueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const databaseConnection = await this.connect()
         const broadcasterResult = new BroadcasterResult()
 
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(query, loggedParameters, this)
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
         this.broadcaster.broadcastBeforeQueryEvent(
             broadcasterResult,
             query,
-            parameters,
+            loggedParameters,
         )
 
         const queryStartTime = +new Date()
@@ -83,7 +91,7 @@ export class CordovaQueryRunner extends AbstractSqliteQueryRunner {
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 true,
                 queryExecutionTime,
                 raw,
@@ -97,7 +105,7 @@ export class CordovaQueryRunner extends AbstractSqliteQueryRunner {
                 this.driver.connection.logger.logQuerySlow(
                     queryExecutionTime,
                     query,
-                    parameters,
+                    loggedParameters,
                     this,
                 )
             }
@@ -116,6 +124,15 @@ export class CordovaQueryRunner extends AbstractSqliteQueryRunner {
                 result.raw = resultSet
             }
 
+            this.driver.connection.logger.logQueryExecuted?.(
+                queryExecutionTime,
+                query,
+                loggedParameters,
+                raw.rowsAffected || result.records.length,
+                this,
+            )
+            span.end()
+
             if (useStructuredResult) {
                 return result
             } else {
@@ -125,20 +142,26 @@ export class CordovaQueryRunner extends AbstractSqliteQueryRunner {
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                loggedParameters,
                 this,
             )
+            span.end(err)
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 false,
                 undefined,
                 undefined,
                 err,
             )
 
-            throw new QueryFailedError(query, parameters, err)
+            throw new QueryFailedError(
+                query,
+                parameters,
+                err,
+                redactedParameters,
+            )
         } finally {
             await broadcasterResult.wait()
         }
@@ -71,6 +71,7 @@ export class ExpoQueryRunner extends AbstractSqliteQueryRunner {
             throw err
         }
 
+        this.connection.instrumentationContext.startTransactionSpan(this)
         this.transactionDepth += 1
 
         await this.broadcaster.broadcast("AfterTransactionStart")
@@ -95,6 +96,10 @@ export class ExpoQueryRunner extends AbstractSqliteQueryRunner {
 
         this.transaction = undefined
         this.isTransactionActive = false
+        this.connection.instrumentationContext.endTransactionSpan(
+            this,
+            "commit",
+        )
 
         this.transactionDepth -= 1
 
@@ -119,6 +124,10 @@ export class ExpoQueryRunner extends AbstractSqliteQueryRunner {
 
         this.transaction = undefined
         this.isTransactionActive = false
+        this.connection.instrumentationContext.endTransactionSpan(
+            this,
+            "rollback",
+        )
 
         this.transactionDepth -= 1
 
@@ -160,18 +169,30 @@ export class ExpoQueryRunner extends AbstractSqliteQueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         return new Promise<any>(async (ok, fail) => {
             const databaseConnection = await this.connect()
             const broadcasterResult = new BroadcasterResult()
 
-            this.driver.connection.logger.logQuery(query, parameters, this)
+            this.driver.connection.logger.logQuery(
+                query,
+                loggedParameters,
+                this,
+            )
+            const span =
+                this.driver.connection.instrumentationContext.startQuerySpan(
+                    query,
+                    this,
+                )
             this.broadcaster.broadcastBeforeQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
             )
 
             const queryStartTime = +new Date()
@@ -196,7 +217,7 @@ export class ExpoQueryRunner extends AbstractSqliteQueryRunner {
                             this.broadcaster.broadcastAfterQueryEvent(
                                 broadcasterResult,
                                 query,
-                                parameters,
+                                loggedParameters,
                                 true,
                                 queryExecutionTime,
                                 raw,
@@ -211,7 +232,7 @@ export class ExpoQueryRunner extends AbstractSqliteQueryRunner {
                                 this.driver.connection.logger.logQuerySlow(
                                     queryExecutionTime,
                                     query,
-                                    parameters,
+                                    loggedParameters,
                                     this,
                                 )
                             }
@@ -237,6 +258,15 @@ export class ExpoQueryRunner extends AbstractSqliteQueryRunner {
                                 result.raw = raw.insertId
                             }
 
+                            this.driver.connection.logger.logQueryExecuted?.(
+                                queryExecutionTime,
+                                query,
+                                loggedParameters,
+                                result.affected || result.records.length,
+                                this,
+                            )
+                            span.end()
+
                             if (useStructuredResult) {
                                 ok(result)
                             } else {
@@ -247,13 +277,14 @@ export class ExpoQueryRunner extends AbstractSqliteQueryRunner {
                             this.driver.connection.logger.logQueryError(
                                 err,
                                 query,
-                                parameters,
+                                loggedParameters,
                                 this,
                             )
+                            span.end(err)
                             this.broadcaster.broadcastAfterQueryEvent(
                                 broadcasterResult,
                                 query,
-                                parameters,
+                                loggedParameters,
                                 false,
                                 undefined,
                                 undefined,
@@ -261,7 +292,14 @@ export class ExpoQueryRunner extends AbstractSqliteQueryRunner {
                             )
                             await broadcasterResult.wait()
 
-                            fail(new QueryFailedError(query, parameters, err))
+                            fail(
+                                new QueryFailedError(
+                                    query,
+                                    parameters,
+                                    err,
+                                    redactedParameters,
+                                ),
+                            )
                         },
                     )
                 },
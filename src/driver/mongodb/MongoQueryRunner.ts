@@ -12,6 +12,12 @@ import { TableUnique } from "../../schema-builder/table/TableUnique"
 import { Broadcaster } from "../../subscriber/Broadcaster"
 import { TableCheck } from "../../schema-builder/table/TableCheck"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
+import { ProcedureParameter } from "../../query-runner/ProcedureParameter"
+import { ProcedureResult } from "../../query-runner/ProcedureResult"
 import { TypeORMError } from "../../error"
 
 import {
@@ -110,6 +116,16 @@ export class MongoQueryRunner implements QueryRunner {
      */
     loadedViews: View[]
 
+    /**
+     * All sequences created by TypeORM in the database.
+     */
+    loadedSequences: TableSequence[]
+
+    /**
+     * All functions and stored procedures created by TypeORM in the database.
+     */
+    loadedFunctions: DatabaseFunction[]
+
     /**
      * Real database connection from a connection pool used to perform queries.
      */
@@ -574,6 +590,18 @@ export class MongoQueryRunner implements QueryRunner {
         )
     }
 
+    /**
+     * For MongoDB database we don't call stored procedures.
+     */
+    callProcedure(
+        name: string,
+        parameters?: ProcedureParameter[],
+    ): Promise<ProcedureResult> {
+        throw new TypeORMError(
+            `Calling stored procedures is not supported by MongoDB driver.`,
+        )
+    }
+
     /**
      * Returns raw data stream.
      */
@@ -1090,6 +1118,169 @@ export class MongoQueryRunner implements QueryRunner {
         )
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Creates a new trigger.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Loads all sequences (with given names) from the database.
+     */
+    async getSequences(sequencePaths?: string[]): Promise<TableSequence[]> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Changes options of the sequence.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Loads functions and stored procedures with given names from the database.
+     */
+    async getFunctions(functionNames?: string[]): Promise<DatabaseFunction[]> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Schema update queries are not supported by MongoDB driver.`,
+        )
+    }
+
     /**
      * Creates a new foreign key.
      */
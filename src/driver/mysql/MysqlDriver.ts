@@ -27,6 +27,7 @@ import { TableForeignKey } from "../../schema-builder/table/TableForeignKey"
 import { VersionUtils } from "../../util/VersionUtils"
 import { InstanceChecker } from "../../util/InstanceChecker"
 import { UpsertType } from "../types/UpsertType"
+import { ReplicaRouter } from "../ReplicaRouter"
 
 /**
  * Organizes communication with MySQL DBMS.
@@ -57,6 +58,12 @@ export class MysqlDriver implements Driver {
      */
     poolCluster: any
 
+    /**
+     * Selects slaves used for reads, if replication routing is enabled.
+     * Used in replication mode.
+     */
+    replicaRouter?: ReplicaRouter
+
     // -------------------------------------------------------------------------
     // Public Implemented Properties
     // -------------------------------------------------------------------------
@@ -396,6 +403,17 @@ export class MysqlDriver implements Driver {
                     this.options.replication.master,
                 ),
             )
+
+            // without routing options slaves are selected by the pool cluster selector
+            if (this.connection.options.replicationRouting) {
+                this.replicaRouter = new ReplicaRouter(
+                    this.options.replication.slaves.length,
+                    this.connection.options.replicationRouting,
+                )
+                this.replicaRouter.startHealthChecks((index) =>
+                    this.getReplicationLag(index),
+                )
+            }
         } else {
             this.pool = await this.createPool(
                 this.createConnectionOptions(this.options, this.options),
@@ -453,6 +471,8 @@ export class MysqlDriver implements Driver {
             return Promise.reject(new ConnectionIsNotSetError("mysql"))
 
         if (this.poolCluster) {
+            if (this.replicaRouter) this.replicaRouter.stopHealthChecks()
+            this.replicaRouter = undefined
             return new Promise<void>((ok, fail) => {
                 this.poolCluster.end((err: any) => (err ? fail(err) : ok()))
                 this.poolCluster = undefined
@@ -926,17 +946,72 @@ export class MysqlDriver implements Driver {
      * Used for replication.
      * If replication is not setup then returns master (default) connection's database connection.
      */
-    obtainSlaveConnection(): Promise<any> {
+    async obtainSlaveConnection(): Promise<any> {
         if (!this.poolCluster) return this.obtainMasterConnection()
+        if (!this.replicaRouter) return this.obtainClusterConnection("SLAVE*")
 
-        return new Promise<any>((ok, fail) => {
-            this.poolCluster.getConnection(
-                "SLAVE*",
-                (err: any, dbConnection: any) => {
-                    err ? fail(err) : ok(this.prepareDbConnection(dbConnection))
-                },
-            )
-        })
+        const router = this.replicaRouter
+        const excluded: number[] = []
+        for (let i = 0; i < router.replicaCount; i++) {
+            const index = router.select(excluded)
+            if (index === undefined) break
+
+            let dbConnection: any
+            try {
+                dbConnection = await this.obtainClusterConnection(
+                    "SLAVE" + index,
+                )
+            } catch (err) {
+                if (!router.isFailoverEnabled) throw err
+
+                router.evict(index)
+                excluded.push(index)
+                continue
+            }
+
+            router.acquire(index)
+            const release = dbConnection.release
+            dbConnection.release = (...args: any[]) => {
+                dbConnection.release = release
+                router.release(index)
+                return release.apply(dbConnection, args)
+            }
+            return dbConnection
+        }
+
+        // all slaves are evicted, so reads are executed on master
+        return this.obtainMasterConnection()
+    }
+
+    /**
+     * Gets replication lag of the slave with the given index in milliseconds.
+     * Used by replication health checks.
+     */
+    async getReplicationLag(index: number): Promise<number> {
+        const dbConnection = await this.obtainClusterConnection("SLAVE" + index)
+        const query = "SHOW SLAVE STATUS"
+        this.connection.logger.logQuery(query)
+        try {
+            const rows: ObjectLiteral[] = await new Promise((ok, fail) => {
+                dbConnection.query(query, (err: any, rows: any) =>
+                    err ? fail(err) : ok(rows),
+                )
+            })
+            // server which is not a replica does not lag
+            if (rows.length === 0) return 0
+
+            const seconds =
+                rows[0]["Seconds_Behind_Master"] ??
+                rows[0]["Seconds_Behind_Source"]
+            if (seconds === null || seconds === undefined)
+                throw new TypeORMError(
+                    `Replication is not running on slave ${index}`,
+                )
+
+            return Number(seconds) * 1000
+        } finally {
+            dbConnection.release()
+        }
     }
 
     /**
@@ -1274,6 +1349,20 @@ export class MysqlDriver implements Driver {
         })
     }
 
+    /**
+     * Obtains a new database connection from pools of the pool cluster matching given pattern.
+     */
+    protected obtainClusterConnection(pattern: string): Promise<any> {
+        return new Promise<any>((ok, fail) => {
+            this.poolCluster.getConnection(
+                pattern,
+                (err: any, dbConnection: any) => {
+                    err ? fail(err) : ok(this.prepareDbConnection(dbConnection))
+                },
+            )
+        })
+    }
+
     /**
      * Attaches all required base handlers to a database connection, such as the unhandled error handler.
      */
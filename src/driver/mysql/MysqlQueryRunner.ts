@@ -1,4 +1,6 @@
 import { QueryResult } from "../../query-runner/QueryResult"
+import { ProcedureParameter } from "../../query-runner/ProcedureParameter"
+import { ProcedureResult } from "../../query-runner/ProcedureResult"
 import { QueryRunner } from "../../query-runner/QueryRunner"
 import { ObjectLiteral } from "../../common/ObjectLiteral"
 import { TransactionNotStartedError } from "../../error/TransactionNotStartedError"
@@ -21,6 +23,10 @@ import { ColumnType } from "../types/ColumnTypes"
 import { TableCheck } from "../../schema-builder/table/TableCheck"
 import { IsolationLevel } from "../types/IsolationLevel"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
 import { VersionUtils } from "../../util/VersionUtils"
 import { ReplicationMode } from "../types/ReplicationMode"
 import { TypeORMError } from "../../error"
@@ -119,6 +125,10 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
             throw err
         }
         if (this.transactionDepth === 0) {
+            this.connection.instrumentationContext.startTransactionSpan(
+                this,
+                isolationLevel,
+            )
             this.transactionDepth += 1
             if (isolationLevel) {
                 await this.query(
@@ -152,6 +162,10 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.transactionDepth -= 1
             await this.query("COMMIT")
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "commit",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionCommit")
@@ -175,6 +189,10 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.transactionDepth -= 1
             await this.query("ROLLBACK")
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "rollback",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionRollback")
@@ -187,94 +205,128 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         return new Promise(async (ok, fail) => {
             const broadcasterResult = new BroadcasterResult()
 
             try {
                 const databaseConnection = await this.connect()
 
-                this.driver.connection.logger.logQuery(query, parameters, this)
+                this.driver.connection.logger.logQuery(
+                    query,
+                    loggedParameters,
+                    this,
+                )
                 this.broadcaster.broadcastBeforeQueryEvent(
                     broadcasterResult,
                     query,
-                    parameters,
+                    loggedParameters,
                 )
 
+                const span =
+                    this.driver.connection.instrumentationContext.startQuerySpan(
+                        query,
+                        this,
+                    )
                 const queryStartTime = +new Date()
                 databaseConnection.query(
                     query,
                     parameters,
                     async (err: any, raw: any) => {
-                        // log slow queries if maxQueryExecution time is set
-                        const maxQueryExecutionTime =
-                            this.driver.options.maxQueryExecutionTime
-                        const queryEndTime = +new Date()
-                        const queryExecutionTime = queryEndTime - queryStartTime
-
-                        if (
-                            maxQueryExecutionTime &&
-                            queryExecutionTime > maxQueryExecutionTime
-                        )
-                            this.driver.connection.logger.logQuerySlow(
-                                queryExecutionTime,
-                                query,
-                                parameters,
-                                this,
-                            )
+                        let queryError = err || undefined
+                        try {
+                            // log slow queries if maxQueryExecution time is set
+                            const maxQueryExecutionTime =
+                                this.driver.options.maxQueryExecutionTime
+                            const queryEndTime = +new Date()
+                            const queryExecutionTime =
+                                queryEndTime - queryStartTime
 
-                        if (err) {
-                            this.driver.connection.logger.logQueryError(
-                                err,
-                                query,
-                                parameters,
-                                this,
+                            if (
+                                maxQueryExecutionTime &&
+                                queryExecutionTime > maxQueryExecutionTime
                             )
+                                this.driver.connection.logger.logQuerySlow(
+                                    queryExecutionTime,
+                                    query,
+                                    loggedParameters,
+                                    this,
+                                )
+
+                            if (err) {
+                                this.driver.connection.logger.logQueryError(
+                                    err,
+                                    query,
+                                    loggedParameters,
+                                    this,
+                                )
+                                this.broadcaster.broadcastAfterQueryEvent(
+                                    broadcasterResult,
+                                    query,
+                                    loggedParameters,
+                                    false,
+                                    undefined,
+                                    undefined,
+                                    err,
+                                )
+
+                                return fail(
+                                    new QueryFailedError(
+                                        query,
+                                        parameters,
+                                        err,
+                                        redactedParameters,
+                                    ),
+                                )
+                            }
+
                             this.broadcaster.broadcastAfterQueryEvent(
                                 broadcasterResult,
                                 query,
-                                parameters,
-                                false,
-                                undefined,
+                                loggedParameters,
+                                true,
+                                queryExecutionTime,
+                                raw,
                                 undefined,
-                                err,
                             )
 
-                            return fail(
-                                new QueryFailedError(query, parameters, err),
-                            )
-                        }
+                            const result = new QueryResult()
 
-                        this.broadcaster.broadcastAfterQueryEvent(
-                            broadcasterResult,
-                            query,
-                            parameters,
-                            true,
-                            queryExecutionTime,
-                            raw,
-                            undefined,
-                        )
+                            result.raw = raw
 
-                        const result = new QueryResult()
-
-                        result.raw = raw
+                            try {
+                                result.records = Array.from(raw)
+                            } catch {
+                                // Do nothing.
+                            }
 
-                        try {
-                            result.records = Array.from(raw)
-                        } catch {
-                            // Do nothing.
-                        }
+                            if (raw?.hasOwnProperty("affectedRows")) {
+                                result.affected = raw.affectedRows
+                            }
 
-                        if (raw?.hasOwnProperty("affectedRows")) {
-                            result.affected = raw.affectedRows
-                        }
+                            this.driver.connection.logger.logQueryExecuted?.(
+                                queryExecutionTime,
+                                query,
+                                loggedParameters,
+                                result.affected ?? result.records.length,
+                                this,
+                            )
 
-                        if (useStructuredResult) {
-                            ok(result)
-                        } else {
-                            ok(result.raw)
+                            if (useStructuredResult) {
+                                ok(result)
+                            } else {
+                                ok(result.raw)
+                            }
+                        } catch (error) {
+                            queryError = error
+                            fail(error)
+                        } finally {
+                            span.end(queryError)
                         }
                     },
                 )
@@ -286,6 +338,62 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
         })
     }
 
+    /**
+     * Calls a stored procedure with the given parameters.
+     * OUT and INOUT parameters are passed using session variables, which are selected after the call.
+     */
+    async callProcedure(
+        name: string,
+        parameters: ProcedureParameter[] = [],
+    ): Promise<ProcedureResult> {
+        const values: any[] = []
+        const args: string[] = []
+        const outputs: { variable: string; name: string }[] = []
+        for (const [index, parameter] of parameters.entries()) {
+            if (!parameter.mode || parameter.mode === "IN") {
+                values.push(parameter.value)
+                args.push("?")
+                continue
+            }
+
+            const variable = `@typeorm_procedure_${index}`
+            if (parameter.mode === "INOUT")
+                await this.query(`SET ${variable} = ?`, [parameter.value])
+            args.push(variable)
+            outputs.push({
+                variable,
+                name: parameter.name || String(index),
+            })
+        }
+
+        const raw = await this.query(
+            `CALL ${this.escapePath(name)}(${args.join(", ")})`,
+            values,
+        )
+
+        // result of the call contains all result sets followed by the call status
+        const procedureResult = new ProcedureResult()
+        if (Array.isArray(raw))
+            procedureResult.resultSets = raw.filter((result) =>
+                Array.isArray(result),
+            )
+
+        if (outputs.length > 0) {
+            const [row] = await this.query(
+                `SELECT ${outputs
+                    .map(
+                        (output) =>
+                            `${output.variable} AS ${this.driver.escape(
+                                output.name,
+                            )}`,
+                    )
+                    .join(", ")}`,
+            )
+            procedureResult.outputs = { ...row }
+        }
+        return procedureResult
+    }
+
     /**
      * Returns raw data stream.
      */
@@ -294,13 +402,18 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
         parameters?: any[],
         onEnd?: Function,
         onError?: Function,
+        redactedParameters?: any[],
     ): Promise<ReadStream> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
         return new Promise(async (ok, fail) => {
             try {
                 const databaseConnection = await this.connect()
-                this.driver.connection.logger.logQuery(query, parameters, this)
+                this.driver.connection.logger.logQuery(
+                    query,
+                    redactedParameters ?? parameters,
+                    this,
+                )
                 const databaseQuery = databaseConnection.query(
                     query,
                     parameters,
@@ -468,6 +581,11 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
                 downQueries.push(this.dropForeignKeySql(table, foreignKey)),
             )
 
+        table.triggers.forEach((trigger) => {
+            upQueries.push(this.createTriggerSql(table, trigger))
+            downQueries.push(this.dropTriggerSql(table, trigger))
+        })
+
         // if table has column with generated type, we must add the expression to the metadata table
         const generatedColumns = table.columns.filter(
             (column) => column.generatedType && column.asExpression,
@@ -529,6 +647,11 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
             upQueries.push(this.dropIndexSql(table, index)),
         )
 
+        table.triggers.forEach((trigger) => {
+            upQueries.push(this.dropTriggerSql(table, trigger))
+            downQueries.push(this.createTriggerSql(table, trigger))
+        })
+
         upQueries.push(this.dropTableSql(table))
         downQueries.push(this.createTableSql(table, createForeignKeys))
 
@@ -2095,6 +2218,225 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
         throw new TypeORMError(`MySql does not support exclusion constraints.`)
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+
+        const up = this.createPartitionSql(table, partition)
+        const down = this.dropPartitionSql(table, partition)
+        await this.executeQueries(up, down)
+        table.addPartition(partition)
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+        const partition = InstanceChecker.isTablePartition(partitionOrName)
+            ? partitionOrName
+            : table.partitions.find((p) => p.name === partitionOrName)
+        if (!partition)
+            throw new TypeORMError(
+                `Supplied partition was not found in table ${table.name}`,
+            )
+
+        const up = this.dropPartitionSql(table, partition)
+        const down = this.createPartitionSql(table, partition)
+        await this.executeQueries(up, down)
+        table.removePartition(partition)
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `MySql does not support attaching partitions. Use createPartition instead.`,
+        )
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `MySql does not support detaching partitions. Use dropPartition instead.`,
+        )
+    }
+
+    /**
+     * Creates a new trigger.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+
+        const up = this.createTriggerSql(table, trigger)
+        const down = this.dropTriggerSql(table, trigger)
+        await this.executeQueries(up, down)
+        table.addTrigger(trigger)
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+        const trigger = InstanceChecker.isTableTrigger(triggerOrName)
+            ? triggerOrName
+            : table.triggers.find((t) => t.name === triggerOrName)
+        if (!trigger)
+            throw new TypeORMError(
+                `Supplied trigger was not found in table ${table.name}`,
+            )
+
+        const up = this.dropTriggerSql(table, trigger)
+        const down = this.createTriggerSql(table, trigger)
+        await this.executeQueries(up, down)
+        table.removeTrigger(trigger)
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`MySql does not support sequences.`)
+    }
+
+    /**
+     * Changes options of the sequence.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        throw new TypeORMError(`MySql does not support sequences.`)
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`MySql does not support sequences.`)
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        upQueries.push(this.createFunctionSql(fn))
+        if (syncWithMetadata)
+            upQueries.push(await this.insertFunctionDefinitionSql(fn))
+        downQueries.push(this.dropFunctionSql(fn))
+        if (syncWithMetadata)
+            downQueries.push(await this.deleteFunctionDefinitionSql(fn))
+        await this.executeQueries(upQueries, downQueries)
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     * MySql can not replace functions, so function is always recreated.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const oldFunction = InstanceChecker.isDatabaseFunction(
+            oldFunctionOrName,
+        )
+            ? oldFunctionOrName
+            : await this.getCachedFunction(oldFunctionOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata) {
+            upQueries.push(await this.deleteFunctionDefinitionSql(oldFunction))
+            downQueries.push(
+                await this.insertFunctionDefinitionSql(oldFunction),
+            )
+        }
+        upQueries.push(this.dropFunctionSql(oldFunction))
+        downQueries.push(this.createFunctionSql(oldFunction))
+        upQueries.push(this.createFunctionSql(newFunction))
+        downQueries.push(this.dropFunctionSql(newFunction))
+        if (syncWithMetadata) {
+            upQueries.push(await this.insertFunctionDefinitionSql(newFunction))
+            downQueries.push(
+                await this.deleteFunctionDefinitionSql(newFunction),
+            )
+        }
+        await this.executeQueries(upQueries, downQueries)
+
+        const index = this.loadedFunctions.indexOf(oldFunction)
+        if (index !== -1) this.loadedFunctions[index] = newFunction.clone()
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const fn = InstanceChecker.isDatabaseFunction(functionOrName)
+            ? functionOrName
+            : await this.getCachedFunction(functionOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata)
+            upQueries.push(await this.deleteFunctionDefinitionSql(fn))
+        upQueries.push(this.dropFunctionSql(fn))
+        if (syncWithMetadata)
+            downQueries.push(await this.insertFunctionDefinitionSql(fn))
+        downQueries.push(this.createFunctionSql(fn))
+        await this.executeQueries(upQueries, downQueries)
+
+        this.loadedFunctions = this.loadedFunctions.filter(
+            (loadedFunction) => loadedFunction.name !== fn.name,
+        )
+    }
+
     /**
      * Creates a new foreign key.
      */
@@ -2279,6 +2621,14 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
                 dropViewQueries.map((q) => this.query(q["query"])),
             )
 
+            // functions and procedures created by TypeORM are read before the metadata table is dropped
+            const currentDatabase = await this.getCurrentDatabase()
+            const functions = (await this.loadFunctions()).filter(
+                (fn) =>
+                    (this.driver.parseTableName(fn.name).database ||
+                        currentDatabase) === dbName,
+            )
+
             const disableForeignKeysCheckQuery = `SET FOREIGN_KEY_CHECKS = 0;`
             const dropTablesQuery = `SELECT concat('DROP TABLE IF EXISTS \`', table_schema, '\`.\`', table_name, '\`') AS \`query\` FROM \`INFORMATION_SCHEMA\`.\`TABLES\` WHERE \`TABLE_SCHEMA\` = '${dbName}'`
             const enableForeignKeysCheckQuery = `SET FOREIGN_KEY_CHECKS = 1;`
@@ -2292,6 +2642,10 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
             )
             await this.query(enableForeignKeysCheckQuery)
 
+            for (const fn of functions) {
+                await this.query(this.dropFunctionSql(fn).query)
+            }
+
             if (!isAnotherTransactionActive) await this.commitTransaction()
         } catch (error) {
             try {
@@ -2356,6 +2710,56 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
         })
     }
 
+    /**
+     * Loads functions and stored procedures created by TypeORM (with given names) from the database.
+     */
+    protected async loadFunctions(
+        functionNames?: string[],
+    ): Promise<DatabaseFunction[]> {
+        const hasTable = await this.hasTable(this.getTypeormMetadataTableName())
+        if (!hasTable) {
+            return []
+        }
+
+        const currentDatabase = await this.getCurrentDatabase()
+        const functionsCondition =
+            !functionNames || functionNames.length === 0
+                ? "1=1"
+                : functionNames
+                      .map((functionName) => {
+                          let { database, tableName: name } =
+                              this.driver.parseTableName(functionName)
+
+                          if (!database) {
+                              database = currentDatabase
+                          }
+
+                          return `(\`t\`.\`schema\` = '${database}' AND \`t\`.\`name\` = '${name}')`
+                      })
+                      .join(" OR ")
+
+        const query =
+            `SELECT \`t\`.* FROM ${this.escapePath(
+                this.getTypeormMetadataTableName(),
+            )} \`t\` ` +
+            `WHERE \`t\`.\`type\` IN ('${MetadataTableType.FUNCTION}', '${MetadataTableType.PROCEDURE}') AND (${functionsCondition}) ` +
+            `AND EXISTS (SELECT 1 FROM \`information_schema\`.\`routines\` \`r\` WHERE \`r\`.\`routine_schema\` = \`t\`.\`schema\` AND \`r\`.\`routine_name\` = \`t\`.\`name\`)`
+
+        const dbFunctions: ObjectLiteral[] = await this.query(query)
+        return dbFunctions.map((dbFunction) => {
+            const db =
+                dbFunction["schema"] === currentDatabase
+                    ? undefined
+                    : dbFunction["schema"]
+
+            return this.parseFunctionDefinition(
+                this.driver.buildTableName(dbFunction["name"], undefined, db),
+                dbFunction["type"],
+                dbFunction["value"],
+            )
+        })
+    }
+
     /**
      * Loads all tables (with given names) from the database and creates a Table from them.
      */
@@ -2543,18 +2947,67 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
                     \`rc\`.\`CONSTRAINT_NAME\` = \`kcu\`.\`CONSTRAINT_NAME\`
             `
 
+        // Avoid data directory scan: TABLE_SCHEMA
+        // Avoid database directory scan: TABLE_NAME
+        const partitionsSql = dbTables
+            .map(({ TABLE_SCHEMA, TABLE_NAME }) => {
+                return `
+                SELECT
+                    \`TABLE_SCHEMA\`,
+                    \`TABLE_NAME\`,
+                    \`PARTITION_NAME\`,
+                    \`PARTITION_ORDINAL_POSITION\`,
+                    \`PARTITION_METHOD\`,
+                    \`PARTITION_EXPRESSION\`,
+                    \`PARTITION_DESCRIPTION\`
+                FROM \`INFORMATION_SCHEMA\`.\`PARTITIONS\`
+                WHERE
+                    \`TABLE_SCHEMA\` = '${TABLE_SCHEMA}'
+                    AND
+                    \`TABLE_NAME\` = '${TABLE_NAME}'
+                    AND
+                    \`PARTITION_NAME\` IS NOT NULL
+            `
+            })
+            .join(" UNION ")
+
+        // Avoid data directory scan: EVENT_OBJECT_SCHEMA
+        // Avoid database directory scan: EVENT_OBJECT_TABLE
+        const triggersSql = dbTables
+            .map(({ TABLE_SCHEMA, TABLE_NAME }) => {
+                return `
+                SELECT
+                    \`EVENT_OBJECT_SCHEMA\`,
+                    \`EVENT_OBJECT_TABLE\`,
+                    \`TRIGGER_NAME\`,
+                    \`ACTION_TIMING\`,
+                    \`EVENT_MANIPULATION\`,
+                    \`ACTION_STATEMENT\`
+                FROM \`INFORMATION_SCHEMA\`.\`TRIGGERS\`
+                WHERE
+                    \`EVENT_OBJECT_SCHEMA\` = '${TABLE_SCHEMA}'
+                    AND
+                    \`EVENT_OBJECT_TABLE\` = '${TABLE_NAME}'
+            `
+            })
+            .join(" UNION ")
+
         const [
             dbColumns,
             dbPrimaryKeys,
             dbCollations,
             dbIndices,
             dbForeignKeys,
+            dbPartitions,
+            dbTriggers,
         ]: ObjectLiteral[][] = await Promise.all([
             this.query(columnsSql),
             this.query(primaryKeySql),
             this.query(collationsSql),
             this.query(indicesSql),
             this.query(foreignKeysSql),
+            this.query(partitionsSql),
+            this.query(triggersSql),
         ])
 
         const isMariaDb = this.driver.options.type === "mariadb"
@@ -2974,6 +3427,73 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
 
                 table.comment = dbTable["TABLE_COMMENT"]
 
+                // subpartitions are listed as separate rows of the same partition
+                const tablePartitions = OrmUtils.uniq(
+                    dbPartitions.filter(
+                        (dbPartition) =>
+                            dbPartition["TABLE_NAME"] ===
+                                dbTable["TABLE_NAME"] &&
+                            dbPartition["TABLE_SCHEMA"] ===
+                                dbTable["TABLE_SCHEMA"],
+                    ),
+                    (dbPartition) => dbPartition["PARTITION_NAME"],
+                ).sort(
+                    (a, b) =>
+                        a["PARTITION_ORDINAL_POSITION"] -
+                        b["PARTITION_ORDINAL_POSITION"],
+                )
+                if (tablePartitions.length > 0) {
+                    // partition method is e.g. RANGE, RANGE COLUMNS, LIST COLUMNS, HASH or KEY
+                    const method: string =
+                        tablePartitions[0]["PARTITION_METHOD"]
+                    const type =
+                        method.indexOf("RANGE") !== -1
+                            ? "RANGE"
+                            : method.indexOf("LIST") !== -1
+                            ? "LIST"
+                            : "HASH"
+                    table.partitioning = {
+                        type,
+                        columnNames: tablePartitions[0]["PARTITION_EXPRESSION"]
+                            .split(",")
+                            .map((columnName: string) =>
+                                columnName.trim().replace(/^`(.*)`$/, "$1"),
+                            ),
+                    }
+                    table.partitions = tablePartitions.map(
+                        (dbPartition) =>
+                            new TablePartition({
+                                name: dbPartition["PARTITION_NAME"],
+                                values:
+                                    type === "RANGE"
+                                        ? `LESS THAN (${dbPartition["PARTITION_DESCRIPTION"]})`
+                                        : type === "LIST"
+                                        ? `IN (${dbPartition["PARTITION_DESCRIPTION"]})`
+                                        : undefined,
+                            }),
+                    )
+                }
+
+                // MySql triggers always fire for each row on a single event
+                table.triggers = dbTriggers
+                    .filter(
+                        (dbTrigger) =>
+                            dbTrigger["EVENT_OBJECT_TABLE"] ===
+                                dbTable["TABLE_NAME"] &&
+                            dbTrigger["EVENT_OBJECT_SCHEMA"] ===
+                                dbTable["TABLE_SCHEMA"],
+                    )
+                    .map(
+                        (dbTrigger) =>
+                            new TableTrigger({
+                                name: dbTrigger["TRIGGER_NAME"],
+                                timing: dbTrigger["ACTION_TIMING"],
+                                events: [dbTrigger["EVENT_MANIPULATION"]],
+                                level: "ROW",
+                                body: dbTrigger["ACTION_STATEMENT"],
+                            }),
+                    )
+
                 return table
             }),
         )
@@ -3111,9 +3631,118 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
             sql += ` COMMENT="${table.comment}"`
         }
 
+        if (table.partitioning) {
+            sql += ` ${this.buildPartitioningSql(table)}`
+        }
+
         return new Query(sql)
     }
 
+    /**
+     * Builds partitioning clause of the create table sql.
+     * COLUMNS partitioning is used since it allows non-integer partition keys,
+     * and KEY partitioning is its counterpart for hash partitioning.
+     */
+    protected buildPartitioningSql(table: Table): string {
+        const { type, columnNames } = table.partitioning!
+        const columns = columnNames
+            .map((columnName) => `\`${columnName}\``)
+            .join(", ")
+        let sql =
+            type === "HASH"
+                ? `PARTITION BY KEY (${columns})`
+                : `PARTITION BY ${type} COLUMNS (${columns})`
+
+        if (table.partitions.length > 0) {
+            sql += ` (${table.partitions
+                .map((partition) => this.buildPartitionSql(partition))
+                .join(", ")})`
+        }
+
+        return sql
+    }
+
+    /**
+     * Builds definition of a single partition, e.g. PARTITION `p2024` VALUES LESS THAN ('2025-01-01').
+     */
+    protected buildPartitionSql(partition: TablePartition): string {
+        let sql = `PARTITION \`${partition.name}\``
+        if (partition.values) sql += ` VALUES ${partition.values}`
+        return sql
+    }
+
+    /**
+     * Builds create partition sql.
+     */
+    protected createPartitionSql(
+        table: Table,
+        partition: TablePartition,
+    ): Query {
+        return new Query(
+            `ALTER TABLE ${this.escapePath(
+                table,
+            )} ADD PARTITION (${this.buildPartitionSql(partition)})`,
+        )
+    }
+
+    /**
+     * Builds drop partition sql.
+     * Hash partitions can not be dropped by name, their number is decreased instead.
+     */
+    protected dropPartitionSql(table: Table, partition: TablePartition): Query {
+        if (table.partitioning?.type === "HASH")
+            return new Query(
+                `ALTER TABLE ${this.escapePath(table)} COALESCE PARTITION 1`,
+            )
+
+        return new Query(
+            `ALTER TABLE ${this.escapePath(table)} DROP PARTITION \`${
+                partition.name
+            }\``,
+        )
+    }
+
+    /**
+     * Builds create trigger sql.
+     */
+    protected createTriggerSql(table: Table, trigger: TableTrigger): Query {
+        if (trigger.events.length !== 1)
+            throw new TypeORMError(
+                `MySql triggers must have exactly one event, trigger "${trigger.name}" has ${trigger.events.length}.`,
+            )
+        if (trigger.level !== "ROW")
+            throw new TypeORMError(`MySql supports only row level triggers.`)
+        if (!trigger.body)
+            throw new TypeORMError(
+                `MySql triggers must have a body, executing functions is not supported.`,
+            )
+
+        return new Query(
+            `CREATE TRIGGER ${this.getTriggerPath(table, trigger)} ${
+                trigger.timing
+            } ${trigger.events[0]} ON ${this.escapePath(table)} FOR EACH ROW ${
+                trigger.body
+            }`,
+        )
+    }
+
+    /**
+     * Builds drop trigger sql.
+     */
+    protected dropTriggerSql(table: Table, trigger: TableTrigger): Query {
+        return new Query(`DROP TRIGGER ${this.getTriggerPath(table, trigger)}`)
+    }
+
+    /**
+     * Escapes path of the trigger, which resides in the database of the table.
+     */
+    protected getTriggerPath(table: Table, trigger: TableTrigger): string {
+        const { database } = this.driver.parseTableName(table)
+        return this.escapePath(
+            database ? `${database}.${trigger.name}` : trigger.name,
+        )
+    }
+
     /**
      * Builds drop table sql
      */
@@ -3234,6 +3863,93 @@ export class MysqlQueryRunner extends BaseQueryRunner implements QueryRunner {
         )
     }
 
+    /**
+     * Builds create function sql.
+     * Function body may start with function characteristics, e.g. "DETERMINISTIC RETURN a + b".
+     */
+    protected createFunctionSql(fn: DatabaseFunction): Query {
+        let sql = `CREATE ${
+            fn.type === "procedure" ? "PROCEDURE" : "FUNCTION"
+        } ${this.escapePath(fn.name)}(${this.buildFunctionParametersSql(fn)})`
+        if (fn.returns) sql += ` RETURNS ${fn.returns}`
+        sql += ` ${fn.body}`
+        return new Query(sql)
+    }
+
+    /**
+     * Builds drop function sql.
+     */
+    protected dropFunctionSql(fn: DatabaseFunction): Query {
+        return new Query(
+            `DROP ${
+                fn.type === "procedure" ? "PROCEDURE" : "FUNCTION"
+            } ${this.escapePath(fn.name)}`,
+        )
+    }
+
+    /**
+     * Builds parameters list of the function.
+     * MySql supports parameter modes only in stored procedures.
+     */
+    protected buildFunctionParametersSql(fn: DatabaseFunction): string {
+        return fn.parameters
+            .map((parameter) =>
+                [
+                    fn.type === "procedure" ? parameter.mode : undefined,
+                    parameter.name,
+                    parameter.type,
+                ]
+                    .filter((part) => !!part)
+                    .join(" "),
+            )
+            .join(", ")
+    }
+
+    /**
+     * Builds sql inserting function into typeorm metadata table.
+     */
+    protected async insertFunctionDefinitionSql(
+        fn: DatabaseFunction,
+    ): Promise<Query> {
+        let { database, tableName: name } = this.driver.parseTableName(fn.name)
+
+        if (!database) {
+            database = await this.getCurrentDatabase()
+        }
+
+        return this.insertTypeormMetadataSql({
+            type:
+                fn.type === "procedure"
+                    ? MetadataTableType.PROCEDURE
+                    : MetadataTableType.FUNCTION,
+            schema: database,
+            name,
+            value: this.buildFunctionDefinition(fn),
+        })
+    }
+
+    /**
+     * Builds sql removing function from typeorm metadata table.
+     */
+    protected async deleteFunctionDefinitionSql(
+        fn: DatabaseFunction,
+    ): Promise<Query> {
+        let { database, tableName: name } = this.driver.parseTableName(fn.name)
+
+        if (!database) {
+            database = await this.getCurrentDatabase()
+        }
+
+        return this.deleteTypeormMetadataSql({
+            type:
+                fn.type === "procedure"
+                    ? MetadataTableType.PROCEDURE
+                    : MetadataTableType.FUNCTION,
+            schema: database,
+            name,
+        })
+    }
+
     /**
      * Builds create foreign key sql.
      */
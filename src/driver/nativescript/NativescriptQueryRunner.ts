@@ -47,17 +47,24 @@ export class NativescriptQueryRunner extends AbstractSqliteQueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) {
             throw new QueryRunnerAlreadyReleasedError()
         }
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const connection = this.driver.connection
 
         return new Promise(async (ok, fail) => {
             const databaseConnection = await this.connect()
             const isInsertQuery = query.substr(0, 11) === "INSERT INTO"
-            connection.logger.logQuery(query, parameters, this)
+            connection.logger.logQuery(query, loggedParameters, this)
+            const span = connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
 
             const handler = (err: any, raw: any) => {
                 // log slow queries if maxQueryExecution time is set
@@ -73,7 +80,7 @@ export class NativescriptQueryRunner extends AbstractSqliteQueryRunner {
                     connection.logger.logQuerySlow(
                         queryExecutionTime,
                         query,
-                        parameters,
+                        loggedParameters,
                         this,
                     )
                 }
@@ -82,10 +89,18 @@ export class NativescriptQueryRunner extends AbstractSqliteQueryRunner {
                     connection.logger.logQueryError(
                         err,
                         query,
-                        parameters,
+                        loggedParameters,
                         this,
                     )
-                    fail(new QueryFailedError(query, parameters, err))
+                    span.end(err)
+                    return fail(
+                        new QueryFailedError(
+                            query,
+                            parameters,
+                            err,
+                            redactedParameters,
+                        ),
+                    )
                 }
 
                 const result = new QueryResult()
@@ -95,6 +110,15 @@ export class NativescriptQueryRunner extends AbstractSqliteQueryRunner {
                     result.records = raw
                 }
 
+                connection.logger.logQueryExecuted?.(
+                    queryExecutionTime,
+                    query,
+                    loggedParameters,
+                    isInsertQuery ? undefined : result.records.length,
+                    this,
+                )
+                span.end()
+
                 if (useStructuredResult) {
                     ok(result)
                 } else {
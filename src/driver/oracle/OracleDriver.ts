@@ -650,6 +650,14 @@ export class OracleDriver implements Driver {
     normalizeDefault(columnMetadata: ColumnMetadata): string | undefined {
         const defaultValue = columnMetadata.default
 
+        if (
+            columnMetadata.isGenerated &&
+            columnMetadata.generationStrategy === "sequence" &&
+            columnMetadata.sequenceName
+        ) {
+            return this.buildSequenceDefault(columnMetadata.sequenceName)
+        }
+
         if (typeof defaultValue === "number") {
             return "" + defaultValue
         }
@@ -673,6 +681,17 @@ export class OracleDriver implements Driver {
         return `${defaultValue}`
     }
 
+    /**
+     * Builds default value expression of the column which takes its values from the given sequence.
+     */
+    buildSequenceDefault(sequenceName: string): string {
+        const sequencePath = sequenceName
+            .split(".")
+            .map((part) => this.escape(part))
+            .join(".")
+        return `${sequencePath}.NEXTVAL`
+    }
+
     /**
      * Normalizes "isUnique" value of the column.
      */
@@ -831,6 +850,7 @@ export class OracleDriver implements Driver {
                 tableColumn.isUnique !==
                     this.normalizeIsUnique(columnMetadata) ||
                 (columnMetadata.generationStrategy !== "uuid" &&
+                    columnMetadata.generationStrategy !== "sequence" && // sequence defaults are compared as regular defaults
                     tableColumn.isGenerated !== columnMetadata.isGenerated)
 
             // DEBUG SECTION
@@ -19,9 +19,15 @@ import { TableCheck } from "../../schema-builder/table/TableCheck"
 import { ColumnType } from "../types/ColumnTypes"
 import { IsolationLevel } from "../types/IsolationLevel"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
 import { ReplicationMode } from "../types/ReplicationMode"
 import { TypeORMError } from "../../error"
 import { QueryResult } from "../../query-runner/QueryResult"
+import { ProcedureParameter } from "../../query-runner/ProcedureParameter"
+import { ProcedureResult } from "../../query-runner/ProcedureResult"
 import { MetadataTableType } from "../types/MetadataTableType"
 import { InstanceChecker } from "../../util/InstanceChecker"
 import { BroadcasterResult } from "../../subscriber/BroadcasterResult"
@@ -136,6 +142,10 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
         }
 
         if (this.transactionDepth === 0) {
+            this.connection.instrumentationContext.startTransactionSpan(
+                this,
+                isolationLevel,
+            )
             this.transactionDepth += 1
             await this.query(
                 "SET TRANSACTION ISOLATION LEVEL " + isolationLevel,
@@ -160,6 +170,10 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
         if (this.transactionDepth === 1) {
             await this.query("COMMIT")
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "commit",
+            )
         }
         this.transactionDepth -= 1
 
@@ -184,6 +198,10 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.transactionDepth -= 1
             await this.query("ROLLBACK")
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "rollback",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionRollback")
@@ -196,17 +214,25 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const databaseConnection = await this.connect()
         const broadcasterResult = new BroadcasterResult()
 
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(query, loggedParameters, this)
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
         this.broadcaster.broadcastBeforeQueryEvent(
             broadcasterResult,
             query,
-            parameters,
+            loggedParameters,
         )
 
         const queryStartTime = +new Date()
@@ -232,7 +258,7 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 true,
                 queryExecutionTime,
                 raw,
@@ -246,7 +272,7 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
                 this.driver.connection.logger.logQuerySlow(
                     queryExecutionTime,
                     query,
-                    parameters,
+                    loggedParameters,
                     this,
                 )
 
@@ -280,6 +306,15 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
                 result.affected = raw.rowsAffected
             }
 
+            this.driver.connection.logger.logQueryExecuted?.(
+                queryExecutionTime,
+                query,
+                loggedParameters,
+                result.affected ?? result.records.length,
+                this,
+            )
+            span.end()
+
             if (useStructuredResult) {
                 return result
             } else {
@@ -289,25 +324,96 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                loggedParameters,
                 this,
             )
+            span.end(err)
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 false,
                 undefined,
                 undefined,
                 err,
             )
 
-            throw new QueryFailedError(query, parameters, err)
+            throw new QueryFailedError(
+                query,
+                parameters,
+                err,
+                redactedParameters,
+            )
         } finally {
             await broadcasterResult.wait()
         }
     }
 
+    /**
+     * Calls a stored procedure with the given parameters.
+     * Cursors returned in OUT parameters are fetched and returned as result sets.
+     */
+    async callProcedure(
+        name: string,
+        parameters: ProcedureParameter[] = [],
+    ): Promise<ProcedureResult> {
+        const oracle = this.driver.oracle
+        const binds = parameters.map((parameter) => {
+            if ((!parameter.mode || parameter.mode === "IN") && !parameter.type)
+                return parameter.value
+
+            return {
+                dir:
+                    parameter.mode === "OUT"
+                        ? oracle.BIND_OUT
+                        : parameter.mode === "INOUT"
+                        ? oracle.BIND_INOUT
+                        : oracle.BIND_IN,
+                val: parameter.value,
+                type: this.procedureParameterTypeToNativeType(parameter.type),
+            }
+        })
+        const args = parameters.map((parameter, index) =>
+            parameter.name
+                ? `${parameter.name} => :${index + 1}`
+                : `:${index + 1}`,
+        )
+
+        let sql = `BEGIN ${this.escapePath(name)}`
+        if (args.length > 0) sql += `(${args.join(", ")})`
+        sql += `; END;`
+        const result: QueryResult = await this.query(sql, binds, true)
+
+        const procedureResult = new ProcedureResult()
+        const outParameters = parameters
+            .map((parameter, index) => ({ parameter, index }))
+            .filter(
+                ({ parameter }) =>
+                    parameter.mode === "OUT" || parameter.mode === "INOUT",
+            )
+        if (outParameters.length === 0) {
+            // implicit results returned using DBMS_SQL.RETURN_RESULT
+            if (Array.isArray(result.raw))
+                procedureResult.resultSets = result.raw
+            return procedureResult
+        }
+
+        for (const [
+            outIndex,
+            { parameter, index },
+        ] of outParameters.entries()) {
+            let value = result.raw[outIndex]
+            if (value && typeof value.getRows === "function") {
+                const resultSet = value
+                value = await resultSet.getRows()
+                await resultSet.close()
+                procedureResult.resultSets.push(value)
+            }
+            procedureResult.outputs[parameter.name || String(index)] = value
+        }
+        return procedureResult
+    }
+
     /**
      * Returns raw data stream.
      */
@@ -316,6 +422,7 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
         parameters?: any[],
         onEnd?: Function,
         onError?: Function,
+        redactedParameters?: any[],
     ): Promise<ReadStream> {
         if (this.isReleased) {
             throw new QueryRunnerAlreadyReleasedError()
@@ -328,7 +435,11 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
 
         const databaseConnection = await this.connect()
 
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(
+            query,
+            redactedParameters ?? parameters,
+            this,
+        )
 
         try {
             const stream = databaseConnection.queryStream(
@@ -349,10 +460,15 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                redactedParameters ?? parameters,
                 this,
             )
-            throw new QueryFailedError(query, parameters, err)
+            throw new QueryFailedError(
+                query,
+                parameters,
+                err,
+                redactedParameters,
+            )
         }
     }
 
@@ -531,6 +647,11 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
             })
         }
 
+        table.triggers.forEach((trigger) => {
+            upQueries.push(this.createTriggerSql(table, trigger))
+            downQueries.push(this.dropTriggerSql(table, trigger))
+        })
+
         // if table have column with generated type, we must add the expression to the metadata table
         const generatedColumns = table.columns.filter(
             (column) => column.generatedType && column.asExpression,
@@ -595,6 +716,11 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
                 upQueries.push(this.dropForeignKeySql(table, foreignKey)),
             )
 
+        table.triggers.forEach((trigger) => {
+            upQueries.push(this.dropTriggerSql(table, trigger))
+            downQueries.push(this.createTriggerSql(table, trigger))
+        })
+
         upQueries.push(this.dropTableSql(table))
         downQueries.push(this.createTableSql(table, createForeignKeys))
 
@@ -1083,7 +1209,8 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
 
         if (
             (newColumn.isGenerated !== oldColumn.isGenerated &&
-                newColumn.generationStrategy !== "uuid") ||
+                newColumn.generationStrategy !== "uuid" &&
+                newColumn.generationStrategy !== "sequence") ||
             oldColumn.type !== newColumn.type ||
             oldColumn.length !== newColumn.length ||
             oldColumn.generatedType !== newColumn.generatedType ||
@@ -2058,6 +2185,247 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
         throw new TypeORMError(`Oracle does not support exclusion constraints.`)
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Oracle driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Oracle driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Oracle driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `Oracle driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Creates a new trigger.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+
+        const up = this.createTriggerSql(table, trigger)
+        const down = this.dropTriggerSql(table, trigger)
+        await this.executeQueries(up, down)
+        table.addTrigger(trigger)
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+        const trigger = InstanceChecker.isTableTrigger(triggerOrName)
+            ? triggerOrName
+            : table.triggers.find((t) => t.name === triggerOrName)
+        if (!trigger)
+            throw new TypeORMError(
+                `Supplied trigger was not found in table ${table.name}`,
+            )
+
+        const up = this.dropTriggerSql(table, trigger)
+        const down = this.createTriggerSql(table, trigger)
+        await this.executeQueries(up, down)
+        table.removeTrigger(trigger)
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        upQueries.push(this.createSequenceSql(sequence))
+        if (syncWithMetadata)
+            upQueries.push(await this.insertSequenceDefinitionSql(sequence))
+        downQueries.push(this.dropSequenceSql(sequence))
+        if (syncWithMetadata)
+            downQueries.push(await this.deleteSequenceDefinitionSql(sequence))
+        await this.executeQueries(upQueries, downQueries)
+    }
+
+    /**
+     * Changes options of the sequence.
+     * Oracle does not allow to change start value of the existing sequence, so it is left unchanged.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        const oldSequence = InstanceChecker.isTableSequence(oldSequenceOrName)
+            ? oldSequenceOrName
+            : await this.getCachedSequence(oldSequenceOrName)
+
+        const upQueries: Query[] = [this.alterSequenceSql(newSequence)]
+        const downQueries: Query[] = [this.alterSequenceSql(oldSequence)]
+        await this.executeQueries(upQueries, downQueries)
+
+        const index = this.loadedSequences.indexOf(oldSequence)
+        if (index !== -1) this.loadedSequences[index] = newSequence.clone()
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const sequence = InstanceChecker.isTableSequence(sequenceOrName)
+            ? sequenceOrName
+            : await this.getCachedSequence(sequenceOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata)
+            upQueries.push(await this.deleteSequenceDefinitionSql(sequence))
+        upQueries.push(this.dropSequenceSql(sequence))
+        if (syncWithMetadata)
+            downQueries.push(await this.insertSequenceDefinitionSql(sequence))
+        downQueries.push(this.createSequenceSql(sequence))
+        await this.executeQueries(upQueries, downQueries)
+
+        this.loadedSequences = this.loadedSequences.filter(
+            (loadedSequence) => loadedSequence.name !== sequence.name,
+        )
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        upQueries.push(this.createFunctionSql(fn))
+        if (syncWithMetadata)
+            upQueries.push(await this.insertFunctionDefinitionSql(fn))
+        downQueries.push(this.dropFunctionSql(fn))
+        if (syncWithMetadata)
+            downQueries.push(await this.deleteFunctionDefinitionSql(fn))
+        await this.executeQueries(upQueries, downQueries)
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     * Function is recreated if it was changed into a procedure or vice versa.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const oldFunction = InstanceChecker.isDatabaseFunction(
+            oldFunctionOrName,
+        )
+            ? oldFunctionOrName
+            : await this.getCachedFunction(oldFunctionOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata) {
+            upQueries.push(await this.deleteFunctionDefinitionSql(oldFunction))
+            downQueries.push(
+                await this.insertFunctionDefinitionSql(oldFunction),
+            )
+        }
+        if (oldFunction.type === newFunction.type) {
+            upQueries.push(this.createFunctionSql(newFunction))
+            downQueries.push(this.createFunctionSql(oldFunction))
+        } else {
+            upQueries.push(this.dropFunctionSql(oldFunction))
+            downQueries.push(this.createFunctionSql(oldFunction))
+            upQueries.push(this.createFunctionSql(newFunction))
+            downQueries.push(this.dropFunctionSql(newFunction))
+        }
+        if (syncWithMetadata) {
+            upQueries.push(await this.insertFunctionDefinitionSql(newFunction))
+            downQueries.push(
+                await this.deleteFunctionDefinitionSql(newFunction),
+            )
+        }
+        await this.executeQueries(upQueries, downQueries)
+
+        const index = this.loadedFunctions.indexOf(oldFunction)
+        if (index !== -1) this.loadedFunctions[index] = newFunction.clone()
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const fn = InstanceChecker.isDatabaseFunction(functionOrName)
+            ? functionOrName
+            : await this.getCachedFunction(functionOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata)
+            upQueries.push(await this.deleteFunctionDefinitionSql(fn))
+        upQueries.push(this.dropFunctionSql(fn))
+        if (syncWithMetadata)
+            downQueries.push(await this.insertFunctionDefinitionSql(fn))
+        downQueries.push(this.createFunctionSql(fn))
+        await this.executeQueries(upQueries, downQueries)
+
+        this.loadedFunctions = this.loadedFunctions.filter(
+            (loadedFunction) => loadedFunction.name !== fn.name,
+        )
+    }
+
     /**
      * Creates a new foreign key.
      */
@@ -2239,6 +2607,13 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
                 dropMatViewQueries.map((query) => this.query(query["query"])),
             )
 
+            // functions and procedures created by TypeORM are read before the metadata table is dropped
+            const currentSchema = await this.getCurrentSchema()
+            const functions = (await this.loadFunctions()).filter((fn) => {
+                const { schema } = this.driver.parseTableName(fn.name)
+                return !schema || schema === currentSchema
+            })
+
             // drop tables
             const dropTablesQuery = `SELECT 'DROP TABLE "' || TABLE_NAME || '" CASCADE CONSTRAINTS' AS "query" FROM "USER_TABLES"`
             const dropTableQueries: ObjectLiteral[] = await this.query(
@@ -2247,6 +2622,20 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
             await Promise.all(
                 dropTableQueries.map((query) => this.query(query["query"])),
             )
+
+            // drop sequences, except sequences generated for identity columns
+            const dropSequencesQuery = `SELECT 'DROP SEQUENCE "' || SEQUENCE_NAME || '"' AS "query" FROM "USER_SEQUENCES" WHERE "SEQUENCE_NAME" NOT LIKE 'ISEQ$$%'`
+            const dropSequenceQueries: ObjectLiteral[] = await this.query(
+                dropSequencesQuery,
+            )
+            await Promise.all(
+                dropSequenceQueries.map((query) => this.query(query["query"])),
+            )
+
+            // drop functions and procedures
+            for (const fn of functions) {
+                await this.query(this.dropFunctionSql(fn).query)
+            }
             if (!isAnotherTransactionActive) await this.commitTransaction()
         } catch (error) {
             try {
@@ -2310,6 +2699,118 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
         })
     }
 
+    /**
+     * Loads sequences created by TypeORM (with given names) from the database.
+     * Oracle does not expose start value of the sequence, so it is not loaded.
+     */
+    protected async loadSequences(
+        sequenceNames?: string[],
+    ): Promise<TableSequence[]> {
+        const hasTable = await this.hasTable(this.getTypeormMetadataTableName())
+        if (!hasTable) {
+            return []
+        }
+
+        const currentSchema = await this.getCurrentSchema()
+        const sequencesCondition =
+            !sequenceNames || sequenceNames.length === 0
+                ? "1=1"
+                : sequenceNames
+                      .map((sequenceName) =>
+                          this.driver.parseTableName(sequenceName),
+                      )
+                      .map(({ schema, tableName }) => {
+                          if (!schema) {
+                              schema =
+                                  this.driver.options.schema || currentSchema
+                          }
+
+                          return `("T"."schema" = '${schema}' AND "T"."name" = '${tableName}')`
+                      })
+                      .join(" OR ")
+
+        const query =
+            `SELECT "S".* FROM ${this.escapePath(
+                this.getTypeormMetadataTableName(),
+            )} "T" ` +
+            `INNER JOIN "ALL_SEQUENCES" "S" ON "S"."SEQUENCE_OWNER" = "T"."schema" AND "S"."SEQUENCE_NAME" = "T"."name" ` +
+            `WHERE "T"."type" = '${MetadataTableType.SEQUENCE}' AND (${sequencesCondition})`
+
+        const dbSequences: ObjectLiteral[] = await this.query(query)
+        return dbSequences.map((dbSequence) => {
+            const schema =
+                dbSequence["SEQUENCE_OWNER"] === currentSchema &&
+                !this.driver.options.schema
+                    ? undefined
+                    : dbSequence["SEQUENCE_OWNER"]
+
+            return new TableSequence({
+                name: this.driver.buildTableName(
+                    dbSequence["SEQUENCE_NAME"],
+                    schema,
+                ),
+                increment: Number(dbSequence["INCREMENT_BY"]),
+                minValue: Number(dbSequence["MIN_VALUE"]),
+                maxValue: Number(dbSequence["MAX_VALUE"]),
+                cycle: dbSequence["CYCLE_FLAG"] === "Y",
+                // NOCACHE sequences have zero cache size
+                cache: Number(dbSequence["CACHE_SIZE"]) || 1,
+            })
+        })
+    }
+
+    /**
+     * Loads functions and stored procedures created by TypeORM (with given names) from the database.
+     */
+    protected async loadFunctions(
+        functionNames?: string[],
+    ): Promise<DatabaseFunction[]> {
+        const hasTable = await this.hasTable(this.getTypeormMetadataTableName())
+        if (!hasTable) {
+            return []
+        }
+
+        const currentSchema = await this.getCurrentSchema()
+        const functionsCondition =
+            !functionNames || functionNames.length === 0
+                ? "1=1"
+                : functionNames
+                      .map((functionName) =>
+                          this.driver.parseTableName(functionName),
+                      )
+                      .map(({ schema, tableName }) => {
+                          if (!schema) {
+                              schema =
+                                  this.driver.options.schema || currentSchema
+                          }
+
+                          return `("T"."schema" = '${schema}' AND "T"."name" = '${tableName}')`
+                      })
+                      .join(" OR ")
+
+        const query =
+            `SELECT "T".* FROM ${this.escapePath(
+                this.getTypeormMetadataTableName(),
+            )} "T" ` +
+            `WHERE "T"."type" IN ('${MetadataTableType.FUNCTION}', '${MetadataTableType.PROCEDURE}') AND (${functionsCondition}) ` +
+            `AND EXISTS (SELECT 1 FROM "ALL_OBJECTS" "O" WHERE "O"."OWNER" = "T"."schema" AND "O"."OBJECT_NAME" = "T"."name" AND "O"."OBJECT_TYPE" IN ('FUNCTION', 'PROCEDURE'))`
+
+        const dbFunctions: ObjectLiteral[] = await this.query(query)
+        return dbFunctions.map((dbFunction) => {
+            const schema =
+                dbFunction["schema"] === currentSchema &&
+                !this.driver.options.schema
+                    ? undefined
+                    : dbFunction["schema"]
+
+            return this.parseFunctionDefinition(
+                this.driver.buildTableName(dbFunction["name"], schema),
+                dbFunction["type"],
+                dbFunction["value"],
+            )
+        })
+    }
+
     /**
      * Loads all tables (with given names) from the database and creates a Table from them.
      */
@@ -2385,16 +2886,28 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
             `INNER JOIN "ALL_CONS_COLUMNS" "COL" ON "COL"."OWNER" = "C"."OWNER" AND "COL"."CONSTRAINT_NAME" = "C"."CONSTRAINT_NAME" ` +
             `WHERE (${columnsCondition}) AND "C"."CONSTRAINT_TYPE" IN ('C', 'U', 'P') AND "C"."GENERATED" = 'USER NAME'`
 
+        const triggersCondition = dbTables
+            .map(({ TABLE_NAME, OWNER }) => {
+                return `("T"."TABLE_OWNER" = '${OWNER}' AND "T"."TABLE_NAME" = '${TABLE_NAME}')`
+            })
+            .join(" OR ")
+        const triggersSql =
+            `SELECT "T"."TRIGGER_NAME", "T"."TRIGGER_TYPE", "T"."TRIGGERING_EVENT", "T"."TABLE_OWNER", "T"."TABLE_NAME", "T"."TRIGGER_BODY" ` +
+            `FROM "ALL_TRIGGERS" "T" ` +
+            `WHERE (${triggersCondition}) AND "T"."BASE_OBJECT_TYPE" = 'TABLE'`
+
         const [
             dbColumns,
             dbIndices,
             dbForeignKeys,
             dbConstraints,
+            dbTriggers,
         ]: ObjectLiteral[][] = await Promise.all([
             this.query(columnsSql),
             this.query(indicesSql),
             this.query(foreignKeysSql),
             this.query(constraintsSql),
+            this.query(triggersSql),
         ])
 
         // create tables for loaded tables
@@ -2774,6 +3287,32 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
                         })
                     })
 
+                // trigger type is e.g. "BEFORE EACH ROW", "AFTER STATEMENT" or "INSTEAD OF"
+                table.triggers = dbTriggers
+                    .filter(
+                        (dbTrigger) =>
+                            dbTrigger["TABLE_NAME"] === dbTable["TABLE_NAME"] &&
+                            dbTrigger["TABLE_OWNER"] === dbTable["OWNER"],
+                    )
+                    .map((dbTrigger) => {
+                        const type: string = dbTrigger["TRIGGER_TYPE"]
+                        return new TableTrigger({
+                            name: dbTrigger["TRIGGER_NAME"],
+                            timing: type.startsWith("BEFORE")
+                                ? "BEFORE"
+                                : type.startsWith("INSTEAD OF")
+                                ? "INSTEAD OF"
+                                : "AFTER",
+                            events: dbTrigger["TRIGGERING_EVENT"].split(" OR "),
+                            level:
+                                type.indexOf("EACH ROW") !== -1 ||
+                                type.startsWith("INSTEAD OF")
+                                    ? "ROW"
+                                    : "STATEMENT",
+                            body: dbTrigger["TRIGGER_BODY"],
+                        })
+                    })
+
                 return table
             }),
         )
@@ -2897,6 +3436,42 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
         return new Query(sql)
     }
 
+    /**
+     * Builds create trigger sql.
+     */
+    protected createTriggerSql(table: Table, trigger: TableTrigger): Query {
+        if (!trigger.body)
+            throw new TypeORMError(
+                `Oracle triggers must have a body, executing functions is not supported.`,
+            )
+
+        const level = trigger.level === "ROW" ? " FOR EACH ROW" : ""
+        return new Query(
+            `CREATE TRIGGER ${this.getTriggerPath(table, trigger)} ${
+                trigger.timing
+            } ${trigger.events.join(" OR ")} ON ${this.escapePath(
+                table,
+            )}${level} ${trigger.body}`,
+        )
+    }
+
+    /**
+     * Builds drop trigger sql.
+     */
+    protected dropTriggerSql(table: Table, trigger: TableTrigger): Query {
+        return new Query(`DROP TRIGGER ${this.getTriggerPath(table, trigger)}`)
+    }
+
+    /**
+     * Escapes path of the trigger, which resides in the schema of the table.
+     */
+    protected getTriggerPath(table: Table, trigger: TableTrigger): string {
+        const { schema } = this.driver.parseTableName(table)
+        return this.escapePath(
+            schema ? `${schema}.${trigger.name}` : trigger.name,
+        )
+    }
+
     /**
      * Builds drop table sql.
      */
@@ -3096,6 +3671,185 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
         )
     }
 
+    /**
+     * Builds create sequence sql.
+     */
+    protected createSequenceSql(sequence: TableSequence): Query {
+        let sql = `CREATE SEQUENCE ${this.escapePath(sequence.name)}`
+        if (sequence.start !== undefined) sql += ` START WITH ${sequence.start}`
+        sql += this.buildSequenceOptionsSql(sequence)
+        return new Query(sql)
+    }
+
+    /**
+     * Builds alter sequence sql changing sequence options to the options of the given sequence.
+     */
+    protected alterSequenceSql(sequence: TableSequence): Query {
+        return new Query(
+            `ALTER SEQUENCE ${this.escapePath(
+                sequence.name,
+            )}${this.buildSequenceOptionsSql(sequence)}`,
+        )
+    }
+
+    /**
+     * Builds options of the sequence shared by create and alter sequence sql.
+     * Options not set on the given sequence are left to the database defaults.
+     */
+    protected buildSequenceOptionsSql(sequence: TableSequence): string {
+        let sql = ""
+        if (sequence.increment !== undefined)
+            sql += ` INCREMENT BY ${sequence.increment}`
+        if (sequence.minValue !== undefined)
+            sql += ` MINVALUE ${sequence.minValue}`
+        if (sequence.maxValue !== undefined)
+            sql += ` MAXVALUE ${sequence.maxValue}`
+        if (sequence.cache !== undefined)
+            sql += sequence.cache > 1 ? ` CACHE ${sequence.cache}` : ` NOCACHE`
+        sql += sequence.cycle ? ` CYCLE` : ` NOCYCLE`
+        return sql
+    }
+
+    /**
+     * Builds drop sequence sql.
+     */
+    protected dropSequenceSql(sequence: TableSequence): Query {
+        return new Query(`DROP SEQUENCE ${this.escapePath(sequence.name)}`)
+    }
+
+    /**
+     * Builds sql inserting sequence into typeorm metadata table.
+     */
+    protected async insertSequenceDefinitionSql(
+        sequence: TableSequence,
+    ): Promise<Query> {
+        let { schema, tableName: name } = this.driver.parseTableName(
+            sequence.name,
+        )
+
+        if (!schema) {
+            schema = await this.getCurrentSchema()
+        }
+
+        return this.insertTypeormMetadataSql({
+            type: MetadataTableType.SEQUENCE,
+            schema,
+            name,
+        })
+    }
+
+    /**
+     * Builds sql removing sequence from typeorm metadata table.
+     */
+    protected async deleteSequenceDefinitionSql(
+        sequence: TableSequence,
+    ): Promise<Query> {
+        let { schema, tableName: name } = this.driver.parseTableName(
+            sequence.name,
+        )
+
+        if (!schema) {
+            schema = await this.getCurrentSchema()
+        }
+
+        return this.deleteTypeormMetadataSql({
+            type: MetadataTableType.SEQUENCE,
+            schema,
+            name,
+        })
+    }
+
+    /**
+     * Converts type of the stored procedure parameter into native oracle type.
+     */
+    protected procedureParameterTypeToNativeType(type?: string): any {
+        if (!type) return undefined
+
+        const normalizedType = type.toLowerCase()
+        if (normalizedType === "cursor" || normalizedType === "sys_refcursor")
+            return this.driver.oracle.CURSOR
+
+        return this.driver.columnTypeToNativeParameter(normalizedType as any)
+    }
+
+    /**
+     * Builds create or replace function sql.
+     */
+    protected createFunctionSql(fn: DatabaseFunction): Query {
+        const parameters = fn.parameters
+            .map((parameter) => {
+                const mode =
+                    parameter.mode === "INOUT" ? "IN OUT" : parameter.mode
+                return [parameter.name, mode, parameter.type]
+                    .filter((part) => !!part)
+                    .join(" ")
+            })
+            .join(", ")
+        let sql = `CREATE OR REPLACE ${
+            fn.type === "procedure" ? "PROCEDURE" : "FUNCTION"
+        } ${this.escapePath(fn.name)}`
+        if (parameters) sql += `(${parameters})`
+        if (fn.type !== "procedure") sql += ` RETURN ${fn.returns}`
+        sql += ` AS ${fn.body}`
+        return new Query(sql)
+    }
+
+    /**
+     * Builds drop function sql.
+     */
+    protected dropFunctionSql(fn: DatabaseFunction): Query {
+        return new Query(
+            `DROP ${
+                fn.type === "procedure" ? "PROCEDURE" : "FUNCTION"
+            } ${this.escapePath(fn.name)}`,
+        )
+    }
+
+    /**
+     * Builds sql inserting function into typeorm metadata table.
+     */
+    protected async insertFunctionDefinitionSql(
+        fn: DatabaseFunction,
+    ): Promise<Query> {
+        let { schema, tableName: name } = this.driver.parseTableName(fn.name)
+
+        if (!schema) {
+            schema = await this.getCurrentSchema()
+        }
+
+        return this.insertTypeormMetadataSql({
+            type:
+                fn.type === "procedure"
+                    ? MetadataTableType.PROCEDURE
+                    : MetadataTableType.FUNCTION,
+            schema,
+            name,
+            value: this.buildFunctionDefinition(fn),
+        })
+    }
+
+    /**
+     * Builds sql removing function from typeorm metadata table.
+     */
+    protected async deleteFunctionDefinitionSql(
+        fn: DatabaseFunction,
+    ): Promise<Query> {
+        let { schema, tableName: name } = this.driver.parseTableName(fn.name)
+
+        if (!schema) {
+            schema = await this.getCurrentSchema()
+        }
+
+        return this.deleteTypeormMetadataSql({
+            type:
+                fn.type === "procedure"
+                    ? MetadataTableType.PROCEDURE
+                    : MetadataTableType.FUNCTION,
+            schema,
+            name,
+        })
+    }
+
     /**
      * Builds create foreign key sql.
      */
@@ -3156,7 +3910,18 @@ export class OracleQueryRunner extends BaseQueryRunner implements QueryRunner {
         if (column.default !== undefined && column.default !== null)
             // DEFAULT must be placed before NOT NULL
             c += " DEFAULT " + column.default
-        if (column.isNullable !== true && !column.isGenerated)
+        else if (
+            column.isGenerated === true &&
+            column.generationStrategy === "sequence" &&
+            column.sequenceName
+        )
+            c +=
+                " DEFAULT " +
+                this.driver.buildSequenceDefault(column.sequenceName)
+        if (
+            column.isNullable !== true &&
+            (!column.isGenerated || column.generationStrategy === "sequence")
+        )
             // NOT NULL is not supported with GENERATED
             c += " NOT NULL"
         if (
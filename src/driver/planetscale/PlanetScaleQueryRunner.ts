@@ -13,6 +13,10 @@ import { Table } from "../../schema-builder/table/Table"
 import { TableCheck } from "../../schema-builder/table/TableCheck"
 import { TableColumn } from "../../schema-builder/table/TableColumn"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
 import { TableForeignKey } from "../../schema-builder/table/TableForeignKey"
 import { TableIndex } from "../../schema-builder/table/TableIndex"
 import { TableUnique } from "../../schema-builder/table/TableUnique"
@@ -119,6 +123,10 @@ export class PlanetScaleQueryRunner
             throw err
         }
         if (this.transactionDepth === 0) {
+            this.connection.instrumentationContext.startTransactionSpan(
+                this,
+                isolationLevel,
+            )
             this.transactionDepth += 1
             if (isolationLevel) {
                 await this.query(
@@ -152,6 +160,10 @@ export class PlanetScaleQueryRunner
             this.transactionDepth -= 1
             await this.query("COMMIT")
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "commit",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionCommit")
@@ -175,6 +187,10 @@ export class PlanetScaleQueryRunner
             this.transactionDepth -= 1
             await this.query("ROLLBACK")
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "rollback",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionRollback")
@@ -187,6 +203,7 @@ export class PlanetScaleQueryRunner
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         switch (this.driver.type) {
             case "serverless":
@@ -194,12 +211,14 @@ export class PlanetScaleQueryRunner
                     query,
                     parameters,
                     useStructuredResult,
+                    redactedParameters,
                 )
             case "mysql":
                 return await this.queryMysql(
                     query,
                     parameters,
                     useStructuredResult,
+                    redactedParameters,
                 )
             default:
                 throw new TypeORMError(
@@ -215,20 +234,32 @@ export class PlanetScaleQueryRunner
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         let databaseConnection: Connection
         let driver = this.driver as PlanetScaleServerlessDriver
         return new Promise(async (ok, fail) => {
             const broadcasterResult = new BroadcasterResult()
+            const span =
+                this.driver.dataSource.instrumentationContext.startQuerySpan(
+                    query,
+                    this,
+                )
             try {
                 databaseConnection = driver.obtainConnection()
-                this.driver.dataSource.logger.logQuery(query, parameters, this)
+                this.driver.dataSource.logger.logQuery(
+                    query,
+                    loggedParameters,
+                    this,
+                )
                 this.broadcaster.broadcastBeforeQueryEvent(
                     broadcasterResult,
                     query,
-                    parameters,
+                    loggedParameters,
                 )
                 const queryStartTime = +new Date()
 
@@ -253,7 +284,7 @@ export class PlanetScaleQueryRunner
                     this.driver.dataSource.logger.logQuerySlow(
                         queryExecutionTime,
                         query,
-                        parameters,
+                        loggedParameters,
                         this,
                     )
                 }
@@ -269,7 +300,7 @@ export class PlanetScaleQueryRunner
                 this.broadcaster.broadcastAfterQueryEvent(
                     broadcasterResult,
                     query,
-                    parameters,
+                    loggedParameters,
                     true,
                     queryExecutionTime,
                     result.raw,
@@ -282,6 +313,15 @@ export class PlanetScaleQueryRunner
                     // Do nothing.
                 }
 
+                this.driver.dataSource.logger.logQueryExecuted?.(
+                    queryExecutionTime,
+                    query,
+                    loggedParameters,
+                    data.rowsAffected || result.records.length,
+                    this,
+                )
+                span.end()
+
                 if (useStructuredResult) {
                     ok(result)
                 } else {
@@ -291,19 +331,27 @@ export class PlanetScaleQueryRunner
                 this.driver.dataSource.logger.logQueryError(
                     err,
                     query,
-                    parameters,
+                    loggedParameters,
                     this,
                 )
+                span.end(err)
                 this.broadcaster.broadcastAfterQueryEvent(
                     broadcasterResult,
                     query,
-                    parameters,
+                    loggedParameters,
                     false,
                     undefined,
                     undefined,
                     err,
                 )
-                fail(new QueryFailedError(query, parameters, err))
+                fail(
+                    new QueryFailedError(
+                        query,
+                        parameters,
+                        err,
+                        redactedParameters,
+                    ),
+                )
             } finally {
                 if (databaseConnection) {
                     driver.releaseConnection(databaseConnection)
@@ -320,20 +368,32 @@ export class PlanetScaleQueryRunner
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         return new Promise(async (ok, fail) => {
             const broadcasterResult = new BroadcasterResult()
 
             try {
                 const databaseConnection = await this.connect()
 
-                this.driver.dataSource.logger.logQuery(query, parameters, this)
+                this.driver.dataSource.logger.logQuery(
+                    query,
+                    loggedParameters,
+                    this,
+                )
+                const span =
+                    this.driver.dataSource.instrumentationContext.startQuerySpan(
+                        query,
+                        this,
+                    )
                 this.broadcaster.broadcastBeforeQueryEvent(
                     broadcasterResult,
                     query,
-                    parameters,
+                    loggedParameters,
                 )
 
                 const queryStartTime = +new Date()
@@ -353,7 +413,7 @@ export class PlanetScaleQueryRunner
                             this.driver.dataSource.logger.logQuerySlow(
                                 queryExecutionTime,
                                 query,
-                                parameters,
+                                loggedParameters,
                                 this,
                             )
 
@@ -361,27 +421,33 @@ export class PlanetScaleQueryRunner
                             this.driver.dataSource.logger.logQueryError(
                                 err,
                                 query,
-                                parameters,
+                                loggedParameters,
                                 this,
                             )
+                            span.end(err)
                             this.broadcaster.broadcastAfterQueryEvent(
                                 broadcasterResult,
                                 query,
-                                parameters,
+                                loggedParameters,
                                 false,
                                 undefined,
                                 undefined,
                                 err,
                             )
                             return fail(
-                                new QueryFailedError(query, parameters, err),
+                                new QueryFailedError(
+                                    query,
+                                    parameters,
+                                    err,
+                                    redactedParameters,
+                                ),
                             )
                         }
 
                         this.broadcaster.broadcastAfterQueryEvent(
                             broadcasterResult,
                             query,
-                            parameters,
+                            loggedParameters,
                             true,
                             queryExecutionTime,
                             raw,
@@ -402,6 +468,15 @@ export class PlanetScaleQueryRunner
                             result.affected = raw.affectedRows
                         }
 
+                        this.driver.dataSource.logger.logQueryExecuted?.(
+                            queryExecutionTime,
+                            query,
+                            loggedParameters,
+                            result.affected ?? result.records.length,
+                            this,
+                        )
+                        span.end()
+
                         if (useStructuredResult) {
                             ok(result)
                         } else {
@@ -2264,6 +2339,135 @@ export class PlanetScaleQueryRunner
         )
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `PlanetScale does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `PlanetScale does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `PlanetScale does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `PlanetScale does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Creates a new trigger.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        throw new TypeORMError(`PlanetScale does not support triggers.`)
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        throw new TypeORMError(`PlanetScale does not support triggers.`)
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`PlanetScale does not support sequences.`)
+    }
+
+    /**
+     * Changes options of the sequence.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        throw new TypeORMError(`PlanetScale does not support sequences.`)
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`PlanetScale does not support sequences.`)
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`PlanetScale does not support functions.`)
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`PlanetScale does not support functions.`)
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`PlanetScale does not support functions.`)
+    }
+
     /**
      * Creates a new foreign key.
      */
@@ -28,6 +28,7 @@ import { View } from "../../schema-builder/view/View"
 import { TableForeignKey } from "../../schema-builder/table/TableForeignKey"
 import { InstanceChecker } from "../../util/InstanceChecker"
 import { UpsertType } from "../types/UpsertType"
+import { ReplicaRouter } from "../ReplicaRouter"
 
 /**
  * Organizes communication with PostgreSQL DBMS.
@@ -58,6 +59,12 @@ export class PostgresDriver implements Driver {
      */
     slaves: any[] = []
 
+    /**
+     * Selects slaves used for reads.
+     * Used in replication.
+     */
+    replicaRouter?: ReplicaRouter
+
     /**
      * We store all created query runners because we need to release them.
      */
@@ -353,6 +360,13 @@ export class PostgresDriver implements Driver {
                 this.options,
                 this.options.replication.master,
             )
+            this.replicaRouter = new ReplicaRouter(
+                this.slaves.length,
+                this.connection.options.replicationRouting,
+            )
+            this.replicaRouter.startHealthChecks((index) =>
+                this.getReplicationLag(index),
+            )
         } else {
             this.master = await this.createPool(this.options, this.options)
         }
@@ -600,10 +614,12 @@ export class PostgresDriver implements Driver {
         if (!this.master)
             return Promise.reject(new ConnectionIsNotSetError("postgres"))
 
+        if (this.replicaRouter) this.replicaRouter.stopHealthChecks()
         await this.closePool(this.master)
         await Promise.all(this.slaves.map((slave) => this.closePool(slave)))
         this.master = undefined
         this.slaves = []
+        this.replicaRouter = undefined
     }
 
     /**
@@ -1011,6 +1027,14 @@ export class PostgresDriver implements Driver {
     normalizeDefault(columnMetadata: ColumnMetadata): string | undefined {
         const defaultValue = columnMetadata.default
 
+        if (
+            columnMetadata.isGenerated &&
+            columnMetadata.generationStrategy === "sequence" &&
+            columnMetadata.sequenceName
+        ) {
+            return this.buildSequenceDefault(columnMetadata.sequenceName)
+        }
+
         if (defaultValue === null || defaultValue === undefined) {
             return undefined
         }
@@ -1048,6 +1072,20 @@ export class PostgresDriver implements Driver {
         return `${defaultValue}`
     }
 
+    /**
+     * Builds default value expression of the column which takes its values from the given sequence.
+     * Sequence name is quoted the same way Postgres prints it back in column defaults.
+     */
+    buildSequenceDefault(sequenceName: string): string {
+        const sequencePath = sequenceName
+            .split(".")
+            .map((part) =>
+                /^[a-z_][a-z0-9_$]*$/.test(part) ? part : `"${part}"`,
+            )
+            .join(".")
+        return `nextval('${sequencePath}')`
+    }
+
     /**
      * Compares "default" value of the column.
      * Postgres sorts json values before it is saved, so in that case a deep comparison has to be performed to see if has changed.
@@ -1171,11 +1209,7 @@ export class PostgresDriver implements Driver {
             throw new TypeORMError("Driver not Connected")
         }
 
-        return new Promise((ok, fail) => {
-            this.master.connect((err: any, connection: any, release: any) => {
-                err ? fail(err) : ok([connection, release])
-            })
-        })
+        return this.obtainConnection(this.master)
     }
 
     /**
@@ -1188,15 +1222,56 @@ export class PostgresDriver implements Driver {
             return this.obtainMasterConnection()
         }
 
-        const random = Math.floor(Math.random() * this.slaves.length)
+        const router = this.replicaRouter!
+        const excluded: number[] = []
+        for (let i = 0; i < router.replicaCount; i++) {
+            const index = router.select(excluded)
+            if (index === undefined) break
 
-        return new Promise((ok, fail) => {
-            this.slaves[random].connect(
-                (err: any, connection: any, release: any) => {
-                    err ? fail(err) : ok([connection, release])
-                },
-            )
-        })
+            try {
+                const [connection, release] = await this.obtainConnection(
+                    this.slaves[index],
+                )
+                router.acquire(index)
+                return [
+                    connection,
+                    (err?: Error) => {
+                        router.release(index)
+                        release(err)
+                    },
+                ]
+            } catch (err) {
+                if (!router.isFailoverEnabled) throw err
+
+                router.evict(index)
+                excluded.push(index)
+            }
+        }
+
+        // all slaves are evicted, so reads are executed on master
+        return this.obtainMasterConnection()
+    }
+
+    /**
+     * Gets replication lag of the slave with the given index in milliseconds.
+     * Used by replication health checks.
+     */
+    async getReplicationLag(index: number): Promise<number> {
+        const [connection, release] = await this.obtainConnection(
+            this.slaves[index],
+        )
+        try {
+            const result = (await this.executeQuery(
+                connection,
+                `SELECT CASE WHEN NOT pg_is_in_recovery() OR pg_last_wal_receive_lsn() = pg_last_wal_replay_lsn() THEN 0 ` +
+                    `ELSE COALESCE(EXTRACT(EPOCH FROM now() - pg_last_xact_replay_timestamp()), 0) END AS "lag"`,
+            )) as { rows: { lag: string | number }[] }
+            release()
+            return Number(result.rows[0].lag) * 1000
+        } catch (err) {
+            release(err)
+            throw err
+        }
     }
 
     /**
@@ -1257,7 +1332,9 @@ export class PostgresDriver implements Driver {
                         tableColumn.enum,
                         columnMetadata.enum.map((val) => val + ""),
                     )) || // enums in postgres are always strings
-                tableColumn.isGenerated !== columnMetadata.isGenerated ||
+                tableColumn.isGenerated !==
+                    (columnMetadata.isGenerated &&
+                        columnMetadata.generationStrategy !== "sequence") || // sequence defaults are compared as regular defaults
                 (tableColumn.spatialFeatureType || "").toLowerCase() !==
                     (columnMetadata.spatialFeatureType || "").toLowerCase() ||
                 tableColumn.srid !== columnMetadata.srid ||
@@ -1552,6 +1629,17 @@ export class PostgresDriver implements Driver {
         })
     }
 
+    /**
+     * Obtains a new database connection from the given pool.
+     */
+    protected obtainConnection(pool: any): Promise<[any, Function]> {
+        return new Promise((ok, fail) => {
+            pool.connect((err: any, connection: any, release: any) => {
+                err ? fail(err) : ok([connection, release])
+            })
+        })
+    }
+
     /**
      * Executes given query.
      */
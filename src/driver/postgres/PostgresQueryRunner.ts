@@ -6,6 +6,8 @@ import { TransactionNotStartedError } from "../../error/TransactionNotStartedErr
 import { ReadStream } from "../../platform/PlatformTools"
 import { BaseQueryRunner } from "../../query-runner/BaseQueryRunner"
 import { QueryResult } from "../../query-runner/QueryResult"
+import { ProcedureParameter } from "../../query-runner/ProcedureParameter"
+import { ProcedureResult } from "../../query-runner/ProcedureResult"
 import { QueryRunner } from "../../query-runner/QueryRunner"
 import { TableIndexOptions } from "../../schema-builder/options/TableIndexOptions"
 import { Table } from "../../schema-builder/table/Table"
@@ -14,6 +16,10 @@ import { TableColumn } from "../../schema-builder/table/TableColumn"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
 import { TableForeignKey } from "../../schema-builder/table/TableForeignKey"
 import { TableIndex } from "../../schema-builder/table/TableIndex"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
 import { TableUnique } from "../../schema-builder/table/TableUnique"
 import { View } from "../../schema-builder/view/View"
 import { Broadcaster } from "../../subscriber/Broadcaster"
@@ -174,6 +180,10 @@ export class PostgresQueryRunner
         }
 
         if (this.transactionDepth === 0) {
+            this.connection.instrumentationContext.startTransactionSpan(
+                this,
+                isolationLevel,
+            )
             this.transactionDepth += 1
             await this.query("START TRANSACTION")
             if (isolationLevel) {
@@ -207,6 +217,10 @@ export class PostgresQueryRunner
             this.transactionDepth -= 1
             await this.query("COMMIT")
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "commit",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionCommit")
@@ -230,6 +244,10 @@ export class PostgresQueryRunner
             this.transactionDepth -= 1
             await this.query("ROLLBACK")
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "rollback",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionRollback")
@@ -242,19 +260,28 @@ export class PostgresQueryRunner
         query: string,
         parameters?: any[],
         useStructuredResult: boolean = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const databaseConnection = await this.connect()
         const broadcasterResult = new BroadcasterResult()
 
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(query, loggedParameters, this)
         this.broadcaster.broadcastBeforeQueryEvent(
             broadcasterResult,
             query,
-            parameters,
+            loggedParameters,
         )
 
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
+        let queryError: any
         try {
             const queryStartTime = +new Date()
             const raw = await databaseConnection.query(query, parameters)
@@ -267,7 +294,7 @@ export class PostgresQueryRunner
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 true,
                 queryExecutionTime,
                 raw,
@@ -281,7 +308,7 @@ export class PostgresQueryRunner
                 this.driver.connection.logger.logQuerySlow(
                     queryExecutionTime,
                     query,
-                    parameters,
+                    loggedParameters,
                     this,
                 )
 
@@ -304,36 +331,81 @@ export class PostgresQueryRunner
                     default:
                         result.raw = raw.rows
                 }
+            }
 
-                if (!useStructuredResult) {
-                    return result.raw
-                }
+            this.driver.connection.logger.logQueryExecuted?.(
+                queryExecutionTime,
+                query,
+                loggedParameters,
+                result.affected,
+                this,
+            )
+
+            if (raw && !useStructuredResult) {
+                return result.raw
             }
 
             return result
         } catch (err) {
+            queryError = err
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                loggedParameters,
                 this,
             )
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 false,
                 undefined,
                 undefined,
                 err,
             )
 
-            throw new QueryFailedError(query, parameters, err)
+            throw new QueryFailedError(
+                query,
+                parameters,
+                err,
+                redactedParameters,
+            )
         } finally {
+            span.end(queryError)
             await broadcasterResult.wait()
         }
     }
 
+    /**
+     * Calls a stored procedure with the given parameters.
+     * NULL is passed in place of OUT parameters, their values are returned in a single row.
+     */
+    async callProcedure(
+        name: string,
+        parameters: ProcedureParameter[] = [],
+    ): Promise<ProcedureResult> {
+        const values: any[] = []
+        const args = parameters.map((parameter) => {
+            let arg = "NULL"
+            if (parameter.mode !== "OUT") {
+                values.push(parameter.value)
+                arg = `$${values.length}`
+            }
+            return parameter.name ? `${parameter.name} => ${arg}` : arg
+        })
+
+        const result: QueryResult = await this.query(
+            `CALL ${this.escapePath(name)}(${args.join(", ")})`,
+            values,
+            true,
+        )
+
+        const procedureResult = new ProcedureResult()
+        if (result.records.length > 0)
+            procedureResult.outputs = result.records[0]
+        return procedureResult
+    }
+
     /**
      * Returns raw data stream.
      */
@@ -342,12 +414,17 @@ export class PostgresQueryRunner
         parameters?: any[],
         onEnd?: Function,
         onError?: Function,
+        redactedParameters?: any[],
     ): Promise<ReadStream> {
         const QueryStream = this.driver.loadStreamDependency()
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
         const databaseConnection = await this.connect()
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(
+            query,
+            redactedParameters ?? parameters,
+            this,
+        )
         const stream = databaseConnection.query(
             new QueryStream(query, parameters),
         )
@@ -581,6 +658,14 @@ export class PostgresQueryRunner
         upQueries.push(this.createTableSql(table, createForeignKeys))
         downQueries.push(this.dropTableSql(table))
 
+        // partitions are tables in postgres, they can be created only after the partitioned table
+        if (table.partitioning) {
+            table.partitions.forEach((partition) => {
+                upQueries.push(this.createPartitionSql(table, partition))
+                downQueries.push(this.dropPartitionSql(table, partition))
+            })
+        }
+
         // if createForeignKeys is true, we must drop created foreign keys in down query.
         // createTable does not need separate method to create foreign keys, because it create fk's in the same query with table creation.
         if (createForeignKeys)
@@ -602,6 +687,15 @@ export class PostgresQueryRunner
             })
         }
 
+        table.triggers.forEach((trigger) => {
+            if (trigger.body) {
+                upQueries.push(this.createTriggerFunctionSql(table, trigger))
+                downQueries.push(this.dropTriggerFunctionSql(table, trigger))
+            }
+            upQueries.push(this.createTriggerSql(table, trigger))
+            downQueries.push(this.dropTriggerSql(table, trigger))
+        })
+
         if (table.comment) {
             upQueries.push(
                 new Query(
@@ -657,6 +751,16 @@ export class PostgresQueryRunner
                 upQueries.push(this.dropForeignKeySql(table, foreignKey)),
             )
 
+        // triggers are dropped together with the table, but their functions are not
+        table.triggers.forEach((trigger) => {
+            upQueries.push(this.dropTriggerSql(table, trigger))
+            downQueries.push(this.createTriggerSql(table, trigger))
+            if (trigger.body) {
+                upQueries.push(this.dropTriggerFunctionSql(table, trigger))
+                downQueries.push(this.createTriggerFunctionSql(table, trigger))
+            }
+        })
+
         upQueries.push(this.dropTableSql(table))
         downQueries.push(this.createTableSql(table, createForeignKeys))
 
@@ -2869,6 +2973,295 @@ export class PostgresQueryRunner
         await Promise.all(promises)
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+
+        const up = this.createPartitionSql(table, partition)
+        const down = this.dropPartitionSql(table, partition)
+        await this.executeQueries(up, down)
+        table.addPartition(partition)
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+        const partition = InstanceChecker.isTablePartition(partitionOrName)
+            ? partitionOrName
+            : table.partitions.find((p) => p.name === partitionOrName)
+        if (!partition)
+            throw new TypeORMError(
+                `Supplied partition was not found in table ${table.name}`,
+            )
+
+        const up = this.dropPartitionSql(table, partition)
+        const down = this.createPartitionSql(table, partition)
+        await this.executeQueries(up, down)
+        table.removePartition(partition)
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+
+        const up = this.attachPartitionSql(table, partition)
+        const down = this.detachPartitionSql(table, partition)
+        await this.executeQueries(up, down)
+        table.addPartition(partition)
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+        const partition = InstanceChecker.isTablePartition(partitionOrName)
+            ? partitionOrName
+            : table.partitions.find((p) => p.name === partitionOrName)
+        if (!partition)
+            throw new TypeORMError(
+                `Supplied partition was not found in table ${table.name}`,
+            )
+
+        const up = this.detachPartitionSql(table, partition)
+        const down = this.attachPartitionSql(table, partition)
+        await this.executeQueries(up, down)
+        table.removePartition(partition)
+    }
+
+    /**
+     * Creates a new trigger.
+     * When trigger has a body, function of the same name executing this body is created as well.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (trigger.body) {
+            upQueries.push(this.createTriggerFunctionSql(table, trigger))
+            downQueries.push(this.dropTriggerFunctionSql(table, trigger))
+        }
+        upQueries.push(this.createTriggerSql(table, trigger))
+        downQueries.push(this.dropTriggerSql(table, trigger))
+        await this.executeQueries(upQueries, downQueries)
+        table.addTrigger(trigger)
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+        const trigger = InstanceChecker.isTableTrigger(triggerOrName)
+            ? triggerOrName
+            : table.triggers.find((t) => t.name === triggerOrName)
+        if (!trigger)
+            throw new TypeORMError(
+                `Supplied trigger was not found in table ${table.name}`,
+            )
+
+        const upQueries: Query[] = [this.dropTriggerSql(table, trigger)]
+        const downQueries: Query[] = [this.createTriggerSql(table, trigger)]
+        if (trigger.body) {
+            upQueries.push(this.dropTriggerFunctionSql(table, trigger))
+            downQueries.push(this.createTriggerFunctionSql(table, trigger))
+        }
+        await this.executeQueries(upQueries, downQueries)
+        table.removeTrigger(trigger)
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        upQueries.push(this.createSequenceSql(sequence))
+        if (syncWithMetadata)
+            upQueries.push(await this.insertSequenceDefinitionSql(sequence))
+        downQueries.push(this.dropSequenceSql(sequence))
+        if (syncWithMetadata)
+            downQueries.push(await this.deleteSequenceDefinitionSql(sequence))
+        await this.executeQueries(upQueries, downQueries)
+    }
+
+    /**
+     * Changes options of the sequence.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        const oldSequence = InstanceChecker.isTableSequence(oldSequenceOrName)
+            ? oldSequenceOrName
+            : await this.getCachedSequence(oldSequenceOrName)
+
+        const upQueries: Query[] = [
+            this.alterSequenceSql(newSequence, oldSequence),
+        ]
+        const downQueries: Query[] = [
+            this.alterSequenceSql(oldSequence, newSequence),
+        ]
+        await this.executeQueries(upQueries, downQueries)
+
+        const index = this.loadedSequences.indexOf(oldSequence)
+        if (index !== -1) this.loadedSequences[index] = newSequence.clone()
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const sequence = InstanceChecker.isTableSequence(sequenceOrName)
+            ? sequenceOrName
+            : await this.getCachedSequence(sequenceOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata)
+            upQueries.push(await this.deleteSequenceDefinitionSql(sequence))
+        upQueries.push(this.dropSequenceSql(sequence))
+        if (syncWithMetadata)
+            downQueries.push(await this.insertSequenceDefinitionSql(sequence))
+        downQueries.push(this.createSequenceSql(sequence))
+        await this.executeQueries(upQueries, downQueries)
+
+        this.loadedSequences = this.loadedSequences.filter(
+            (loadedSequence) => loadedSequence.name !== sequence.name,
+        )
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        upQueries.push(this.createFunctionSql(fn))
+        if (syncWithMetadata)
+            upQueries.push(await this.insertFunctionDefinitionSql(fn))
+        downQueries.push(this.dropFunctionSql(fn))
+        if (syncWithMetadata)
+            downQueries.push(await this.deleteFunctionDefinitionSql(fn))
+        await this.executeQueries(upQueries, downQueries)
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     * Function is recreated if its signature was changed.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const oldFunction = InstanceChecker.isDatabaseFunction(
+            oldFunctionOrName,
+        )
+            ? oldFunctionOrName
+            : await this.getCachedFunction(oldFunctionOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata) {
+            upQueries.push(await this.deleteFunctionDefinitionSql(oldFunction))
+            downQueries.push(
+                await this.insertFunctionDefinitionSql(oldFunction),
+            )
+        }
+        if (oldFunction.isSameSignature(newFunction)) {
+            upQueries.push(this.createFunctionSql(newFunction, true))
+            downQueries.push(this.createFunctionSql(oldFunction, true))
+        } else {
+            upQueries.push(this.dropFunctionSql(oldFunction))
+            downQueries.push(this.createFunctionSql(oldFunction))
+            upQueries.push(this.createFunctionSql(newFunction))
+            downQueries.push(this.dropFunctionSql(newFunction))
+        }
+        if (syncWithMetadata) {
+            upQueries.push(await this.insertFunctionDefinitionSql(newFunction))
+            downQueries.push(
+                await this.deleteFunctionDefinitionSql(newFunction),
+            )
+        }
+        await this.executeQueries(upQueries, downQueries)
+
+        const index = this.loadedFunctions.indexOf(oldFunction)
+        if (index !== -1) this.loadedFunctions[index] = newFunction.clone()
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const fn = InstanceChecker.isDatabaseFunction(functionOrName)
+            ? functionOrName
+            : await this.getCachedFunction(functionOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata)
+            upQueries.push(await this.deleteFunctionDefinitionSql(fn))
+        upQueries.push(this.dropFunctionSql(fn))
+        if (syncWithMetadata)
+            downQueries.push(await this.insertFunctionDefinitionSql(fn))
+        downQueries.push(this.createFunctionSql(fn))
+        await this.executeQueries(upQueries, downQueries)
+
+        this.loadedFunctions = this.loadedFunctions.filter(
+            (loadedFunction) => loadedFunction.name !== fn.name,
+        )
+    }
+
     /**
      * Creates a new foreign key.
      */
@@ -3137,6 +3530,12 @@ export class PostgresQueryRunner
                 )
             }
 
+            // functions and procedures created by TypeORM are read before the metadata table is dropped
+            const functions = (await this.loadFunctions()).filter((fn) => {
+                const { schema } = this.driver.parseTableName(fn.name)
+                return !schema || schemas.includes(schema)
+            })
+
             // ignore spatial_ref_sys; it's a special table supporting PostGIS
             // TODO generalize this as this.driver.ignoreTables
 
@@ -3149,6 +3548,20 @@ export class PostgresQueryRunner
                 dropTableQueries.map((q) => this.query(q["query"])),
             )
 
+            // drop sequences, sequences owned by columns are already dropped with their tables
+            const selectSequenceDropsQuery = `SELECT 'DROP SEQUENCE IF EXISTS "' || sequence_schema || '"."' || sequence_name || '" CASCADE;' as "query" FROM "information_schema"."sequences" WHERE "sequence_schema" IN (${schemaNamesString})`
+            const dropSequenceQueries: ObjectLiteral[] = await this.query(
+                selectSequenceDropsQuery,
+            )
+            await Promise.all(
+                dropSequenceQueries.map((q) => this.query(q["query"])),
+            )
+
+            // drop functions and procedures
+            for (const fn of functions) {
+                await this.query(this.dropFunctionSql(fn).query)
+            }
+
             // drop enum types
             await this.dropEnumTypes(schemaNamesString)
 
@@ -3281,6 +3694,132 @@ export class PostgresQueryRunner
         })
     }
 
+    /**
+     * Loads sequences created by TypeORM (with given names) from the database.
+     */
+    protected async loadSequences(
+        sequenceNames?: string[],
+    ): Promise<TableSequence[]> {
+        const hasTable = await this.hasTable(this.getTypeormMetadataTableName())
+
+        if (!hasTable) return []
+
+        const currentSchema = await this.getCurrentSchema()
+        const sequencesCondition =
+            !sequenceNames || sequenceNames.length === 0
+                ? "1=1"
+                : sequenceNames
+                      .map((sequenceName) =>
+                          this.driver.parseTableName(sequenceName),
+                      )
+                      .map(({ schema, tableName }) => {
+                          if (!schema) {
+                              schema =
+                                  this.driver.options.schema || currentSchema
+                          }
+
+                          return `("t"."schema" = '${schema}' AND "t"."name" = '${tableName}')`
+                      })
+                      .join(" OR ")
+
+        const query =
+            `SELECT "s".*, "ons"."nspname" AS "owner_schema", "ot"."relname" AS "owner_table", "oa"."attname" AS "owner_column" ` +
+            `FROM ${this.escapePath(this.getTypeormMetadataTableName())} "t" ` +
+            `INNER JOIN "pg_sequences" "s" ON "s"."schemaname" = "t"."schema" AND "s"."sequencename" = "t"."name" ` +
+            `INNER JOIN "pg_namespace" "ns" ON "ns"."nspname" = "s"."schemaname" ` +
+            `INNER JOIN "pg_class" "c" ON "c"."relname" = "s"."sequencename" AND "c"."relnamespace" = "ns"."oid" ` +
+            `LEFT JOIN "pg_depend" "d" ON "d"."objid" = "c"."oid" AND "d"."classid" = 'pg_class'::regclass AND "d"."refclassid" = 'pg_class'::regclass AND "d"."deptype" = 'a' ` +
+            `LEFT JOIN "pg_class" "ot" ON "ot"."oid" = "d"."refobjid" ` +
+            `LEFT JOIN "pg_namespace" "ons" ON "ons"."oid" = "ot"."relnamespace" ` +
+            `LEFT JOIN "pg_attribute" "oa" ON "oa"."attrelid" = "d"."refobjid" AND "oa"."attnum" = "d"."refobjsubid" ` +
+            `WHERE "t"."type" = '${MetadataTableType.SEQUENCE}' AND (${sequencesCondition})`
+
+        const dbSequences: ObjectLiteral[] = await this.query(query)
+        return dbSequences.map((dbSequence) => {
+            const schema =
+                dbSequence["schemaname"] === currentSchema &&
+                !this.driver.options.schema
+                    ? undefined
+                    : dbSequence["schemaname"]
+            const ownerSchema =
+                dbSequence["owner_schema"] === currentSchema &&
+                !this.driver.options.schema
+                    ? undefined
+                    : dbSequence["owner_schema"]
+
+            return new TableSequence({
+                name: this.driver.buildTableName(
+                    dbSequence["sequencename"],
+                    schema,
+                ),
+                start: Number(dbSequence["start_value"]),
+                increment: Number(dbSequence["increment_by"]),
+                minValue: Number(dbSequence["min_value"]),
+                maxValue: Number(dbSequence["max_value"]),
+                cycle: dbSequence["cycle"] === true,
+                cache: Number(dbSequence["cache_size"]),
+                ownedByTable: dbSequence["owner_table"]
+                    ? this.driver.buildTableName(
+                          dbSequence["owner_table"],
+                          ownerSchema,
+                      )
+                    : undefined,
+                ownedByColumn: dbSequence["owner_column"] || undefined,
+            })
+        })
+    }
+
+    /**
+     * Loads functions and stored procedures created by TypeORM (with given names) from the database.
+     */
+    protected async loadFunctions(
+        functionNames?: string[],
+    ): Promise<DatabaseFunction[]> {
+        const hasTable = await this.hasTable(this.getTypeormMetadataTableName())
+
+        if (!hasTable) return []
+
+        const currentSchema = await this.getCurrentSchema()
+        const functionsCondition =
+            !functionNames || functionNames.length === 0
+                ? "1=1"
+                : functionNames
+                      .map((functionName) =>
+                          this.driver.parseTableName(functionName),
+                      )
+                      .map(({ schema, tableName }) => {
+                          if (!schema) {
+                              schema =
+                                  this.driver.options.schema || currentSchema
+                          }
+
+                          return `("t"."schema" = '${schema}' AND "t"."name" = '${tableName}')`
+                      })
+                      .join(" OR ")
+
+        const query =
+            `SELECT "t".* FROM ${this.escapePath(
+                this.getTypeormMetadataTableName(),
+            )} "t" ` +
+            `WHERE "t"."type" IN ('${MetadataTableType.FUNCTION}', '${MetadataTableType.PROCEDURE}') AND (${functionsCondition}) ` +
+            `AND EXISTS (SELECT 1 FROM "pg_proc" "p" INNER JOIN "pg_namespace" "n" ON "n"."oid" = "p"."pronamespace" WHERE "p"."proname" = "t"."name" AND "n"."nspname" = "t"."schema")`
+
+        const dbFunctions: ObjectLiteral[] = await this.query(query)
+        return dbFunctions.map((dbFunction) => {
+            const schema =
+                dbFunction["schema"] === currentSchema &&
+                !this.driver.options.schema
+                    ? undefined
+                    : dbFunction["schema"]
+
+            return this.parseFunctionDefinition(
+                this.driver.buildTableName(dbFunction["name"], schema),
+                dbFunction["type"],
+                dbFunction["value"],
+            )
+        })
+    }
+
     /**
      * Loads all tables (with given names) from the database and creates a Table from them.
      */
@@ -3409,16 +3948,49 @@ export class PostgresQueryRunner
             `INNER JOIN "pg_namespace" "ns" ON "cl"."relnamespace" = "ns"."oid" ` +
             `INNER JOIN "pg_attribute" "att2" ON "att2"."attrelid" = "con"."conrelid" AND "att2"."attnum" = "con"."parent"`
 
+        const partitionedTablesSql =
+            `SELECT "ns"."nspname" AS "table_schema", "t"."relname" AS "table_name", pg_get_partkeydef("t"."oid") AS "partition_key" ` +
+            `FROM "pg_partitioned_table" "pt" ` +
+            `INNER JOIN "pg_class" "t" ON "t"."oid" = "pt"."partrelid" ` +
+            `INNER JOIN "pg_namespace" "ns" ON "ns"."oid" = "t"."relnamespace" ` +
+            `WHERE ${constraintsCondition}`
+
+        const partitionsSql =
+            `SELECT "ns"."nspname" AS "table_schema", "t"."relname" AS "table_name", "p"."relname" AS "partition_name", ` +
+            `pg_get_expr("p"."relpartbound", "p"."oid") AS "partition_bound" ` +
+            `FROM "pg_inherits" "inh" ` +
+            `INNER JOIN "pg_class" "t" ON "t"."oid" = "inh"."inhparent" ` +
+            `INNER JOIN "pg_class" "p" ON "p"."oid" = "inh"."inhrelid" ` +
+            `INNER JOIN "pg_namespace" "ns" ON "ns"."oid" = "t"."relnamespace" ` +
+            `WHERE "p"."relispartition" AND (${constraintsCondition}) ` +
+            `ORDER BY "p"."relname"`
+
+        const triggersSql =
+            `SELECT "ns"."nspname" AS "table_schema", "t"."relname" AS "table_name", "tg"."tgname" AS "trigger_name", ` +
+            `"tg"."tgtype" AS "trigger_type", "p"."proname" AS "function_name", "p"."prosrc" AS "function_body" ` +
+            `FROM "pg_trigger" "tg" ` +
+            `INNER JOIN "pg_class" "t" ON "t"."oid" = "tg"."tgrelid" ` +
+            `INNER JOIN "pg_namespace" "ns" ON "ns"."oid" = "t"."relnamespace" ` +
+            `INNER JOIN "pg_proc" "p" ON "p"."oid" = "tg"."tgfoid" ` +
+            `WHERE NOT "tg"."tgisinternal" AND (${constraintsCondition}) ` +
+            `ORDER BY "tg"."tgname"`
+
         const [
             dbColumns,
             dbConstraints,
             dbIndices,
             dbForeignKeys,
+            dbPartitionedTables,
+            dbPartitions,
+            dbTriggers,
         ]: ObjectLiteral[][] = await Promise.all([
             this.query(columnsSql),
             this.query(constraintsSql),
             this.query(indicesSql),
             this.query(foreignKeysSql),
+            hasRelispartitionColumn ? this.query(partitionedTablesSql) : [],
+            hasRelispartitionColumn ? this.query(partitionsSql) : [],
+            this.query(triggersSql),
         ])
 
         // create tables for loaded tables
@@ -4001,6 +4573,89 @@ export class PostgresQueryRunner
                     })
                 })
 
+                // partition key is loaded in the form of RANGE (column1, column2)
+                const dbPartitionedTable = dbPartitionedTables.find(
+                    (dbPartitionedTable) =>
+                        dbPartitionedTable["table_name"] ===
+                            dbTable["table_name"] &&
+                        dbPartitionedTable["table_schema"] ===
+                            dbTable["table_schema"],
+                )
+                const partitionKeyMatch = dbPartitionedTable
+                    ? /^(\w+) \((.*)\)$/.exec(
+                          dbPartitionedTable["partition_key"],
+                      )
+                    : null
+                if (partitionKeyMatch) {
+                    table.partitioning = {
+                        type: partitionKeyMatch[1].toUpperCase() as
+                            | "RANGE"
+                            | "LIST"
+                            | "HASH",
+                        columnNames: partitionKeyMatch[2]
+                            .split(",")
+                            .map((columnName) =>
+                                columnName.trim().replace(/^"(.*)"$/, "$1"),
+                            ),
+                    }
+                    table.partitions = dbPartitions
+                        .filter(
+                            (dbPartition) =>
+                                dbPartition["table_name"] ===
+                                    dbTable["table_name"] &&
+                                dbPartition["table_schema"] ===
+                                    dbTable["table_schema"],
+                        )
+                        .map(
+                            (dbPartition) =>
+                                new TablePartition({
+                                    name: dbPartition["partition_name"],
+                                    values: dbPartition[
+                                        "partition_bound"
+                                    ].replace(/^FOR VALUES /, ""),
+                                }),
+                        )
+                }
+
+                // tgtype is a bit mask: 1 - row level, 2 - before, 4 - insert, 8 - delete, 16 - update, 64 - instead of
+                table.triggers = dbTriggers
+                    .filter(
+                        (dbTrigger) =>
+                            dbTrigger["table_name"] === dbTable["table_name"] &&
+                            dbTrigger["table_schema"] ===
+                                dbTable["table_schema"],
+                    )
+                    .map((dbTrigger) => {
+                        const type = parseInt(dbTrigger["trigger_type"])
+                        const events: ("INSERT" | "UPDATE" | "DELETE")[] = []
+                        if (type & 4) events.push("INSERT")
+                        if (type & 16) events.push("UPDATE")
+                        if (type & 8) events.push("DELETE")
+
+                        // function named as the trigger is the one created from the trigger body
+                        const isOwnFunction =
+                            dbTrigger["function_name"] ===
+                            dbTrigger["trigger_name"]
+
+                        return new TableTrigger({
+                            name: dbTrigger["trigger_name"],
+                            timing:
+                                type & 2
+                                    ? "BEFORE"
+                                    : type & 64
+                                    ? "INSTEAD OF"
+                                    : "AFTER",
+                            events: events,
+                            level: type & 1 ? "ROW" : "STATEMENT",
+                            body: isOwnFunction
+                                ? dbTrigger["function_body"]
+                                : undefined,
+                            function: isOwnFunction
+                                ? undefined
+                                : dbTrigger["function_name"],
+                        })
+                    })
+
                 return table
             }),
         )
@@ -4143,6 +4798,13 @@ export class PostgresQueryRunner
 
         sql += `)`
 
+        if (table.partitioning) {
+            const partitionColumnNames = table.partitioning.columnNames
+                .map((columnName) => `"${columnName}"`)
+                .join(", ")
+            sql += ` PARTITION BY ${table.partitioning.type} (${partitionColumnNames})`
+        }
+
         table.columns
             .filter((it) => it.comment)
             .forEach(
@@ -4500,6 +5162,339 @@ export class PostgresQueryRunner
         )
     }
 
+    /**
+     * Builds create partition sql.
+     */
+    protected createPartitionSql(
+        table: Table,
+        partition: TablePartition,
+    ): Query {
+        return new Query(
+            `CREATE TABLE ${this.getPartitionPath(
+                table,
+                partition,
+            )} PARTITION OF ${this.escapePath(
+                table,
+            )} ${this.buildPartitionBoundSql(partition)}`,
+        )
+    }
+
+    /**
+     * Builds drop partition sql.
+     */
+    protected dropPartitionSql(table: Table, partition: TablePartition): Query {
+        return new Query(
+            `DROP TABLE ${this.getPartitionPath(table, partition)}`,
+        )
+    }
+
+    /**
+     * Builds attach partition sql.
+     */
+    protected attachPartitionSql(
+        table: Table,
+        partition: TablePartition,
+    ): Query {
+        return new Query(
+            `ALTER TABLE ${this.escapePath(
+                table,
+            )} ATTACH PARTITION ${this.getPartitionPath(
+                table,
+                partition,
+            )} ${this.buildPartitionBoundSql(partition)}`,
+        )
+    }
+
+    /**
+     * Builds detach partition sql.
+     */
+    protected detachPartitionSql(
+        table: Table,
+        partition: TablePartition,
+    ): Query {
+        return new Query(
+            `ALTER TABLE ${this.escapePath(
+                table,
+            )} DETACH PARTITION ${this.getPartitionPath(table, partition)}`,
+        )
+    }
+
+    /**
+     * Builds the bound of the partition, e.g. FOR VALUES FROM ('2024-01-01') TO ('2024-02-01').
+     */
+    protected buildPartitionBoundSql(partition: TablePartition): string {
+        return partition.values === "DEFAULT"
+            ? "DEFAULT"
+            : `FOR VALUES ${partition.values}`
+    }
+
+    /**
+     * Escapes path of the partition table, which resides in the schema of the partitioned table.
+     */
+    protected getPartitionPath(
+        table: Table,
+        partition: TablePartition,
+    ): string {
+        const { schema } = this.driver.parseTableName(table)
+        return this.escapePath(
+            schema ? `${schema}.${partition.name}` : partition.name,
+        )
+    }
+
+    /**
+     * Builds create trigger sql.
+     */
+    protected createTriggerSql(table: Table, trigger: TableTrigger): Query {
+        const functionPath = trigger.body
+            ? this.getTriggerFunctionPath(table, trigger)
+            : trigger.function
+        return new Query(
+            `CREATE TRIGGER "${trigger.name}" ${
+                trigger.timing
+            } ${trigger.events.join(" OR ")} ON ${this.escapePath(
+                table,
+            )} FOR EACH ${trigger.level} EXECUTE PROCEDURE ${functionPath}()`,
+        )
+    }
+
+    /**
+     * Builds drop trigger sql.
+     */
+    protected dropTriggerSql(table: Table, trigger: TableTrigger): Query {
+        return new Query(
+            `DROP TRIGGER "${trigger.name}" ON ${this.escapePath(table)}`,
+        )
+    }
+
+    /**
+     * Builds create sql of the function executing trigger body.
+     */
+    protected createTriggerFunctionSql(
+        table: Table,
+        trigger: TableTrigger,
+    ): Query {
+        return new Query(
+            `CREATE OR REPLACE FUNCTION ${this.getTriggerFunctionPath(
+                table,
+                trigger,
+            )}() RETURNS trigger LANGUAGE plpgsql AS $BODY$${
+                trigger.body
+            }$BODY$`,
+        )
+    }
+
+    /**
+     * Builds drop sql of the function executing trigger body.
+     */
+    protected dropTriggerFunctionSql(
+        table: Table,
+        trigger: TableTrigger,
+    ): Query {
+        return new Query(
+            `DROP FUNCTION ${this.getTriggerFunctionPath(table, trigger)}()`,
+        )
+    }
+
+    /**
+     * Escapes path of the function executing trigger body, which resides in the schema of the table.
+     */
+    protected getTriggerFunctionPath(
+        table: Table,
+        trigger: TableTrigger,
+    ): string {
+        const { schema } = this.driver.parseTableName(table)
+        return this.escapePath(
+            schema ? `${schema}.${trigger.name}` : trigger.name,
+        )
+    }
+
+    /**
+     * Builds create sequence sql.
+     */
+    protected createSequenceSql(sequence: TableSequence): Query {
+        let sql = `CREATE SEQUENCE ${this.escapePath(sequence.name)}`
+        if (sequence.increment !== undefined)
+            sql += ` INCREMENT BY ${sequence.increment}`
+        if (sequence.minValue !== undefined)
+            sql += ` MINVALUE ${sequence.minValue}`
+        if (sequence.maxValue !== undefined)
+            sql += ` MAXVALUE ${sequence.maxValue}`
+        if (sequence.start !== undefined) sql += ` START WITH ${sequence.start}`
+        if (sequence.cache !== undefined) sql += ` CACHE ${sequence.cache}`
+        if (sequence.cycle) sql += ` CYCLE`
+        if (sequence.ownedByTable && sequence.ownedByColumn)
+            sql += ` OWNED BY ${this.escapePath(sequence.ownedByTable)}."${
+                sequence.ownedByColumn
+            }"`
+
+        return new Query(sql)
+    }
+
+    /**
+     * Builds alter sequence sql changing previous sequence options to the options of the given sequence.
+     * Options not set on the given sequence are left unchanged.
+     */
+    protected alterSequenceSql(
+        sequence: TableSequence,
+        previousSequence: TableSequence,
+    ): Query {
+        let sql = `ALTER SEQUENCE ${this.escapePath(sequence.name)}`
+        if (sequence.increment !== undefined)
+            sql += ` INCREMENT BY ${sequence.increment}`
+        if (sequence.minValue !== undefined)
+            sql += ` MINVALUE ${sequence.minValue}`
+        if (sequence.maxValue !== undefined)
+            sql += ` MAXVALUE ${sequence.maxValue}`
+        if (sequence.start !== undefined) sql += ` START WITH ${sequence.start}`
+        if (sequence.cache !== undefined) sql += ` CACHE ${sequence.cache}`
+        sql += sequence.cycle ? ` CYCLE` : ` NO CYCLE`
+        if (sequence.ownedByTable && sequence.ownedByColumn) {
+            sql += ` OWNED BY ${this.escapePath(sequence.ownedByTable)}."${
+                sequence.ownedByColumn
+            }"`
+        } else if (previousSequence.ownedByColumn) {
+            sql += ` OWNED BY NONE`
+        }
+
+        return new Query(sql)
+    }
+
+    /**
+     * Builds drop sequence sql.
+     */
+    protected dropSequenceSql(sequence: TableSequence): Query {
+        return new Query(`DROP SEQUENCE ${this.escapePath(sequence.name)}`)
+    }
+
+    /**
+     * Builds sql inserting sequence into typeorm metadata table.
+     */
+    protected async insertSequenceDefinitionSql(
+        sequence: TableSequence,
+    ): Promise<Query> {
+        let { schema, tableName: name } = this.driver.parseTableName(
+            sequence.name,
+        )
+
+        if (!schema) {
+            schema = await this.getCurrentSchema()
+        }
+
+        return this.insertTypeormMetadataSql({
+            type: MetadataTableType.SEQUENCE,
+            schema,
+            name,
+        })
+    }
+
+    /**
+     * Builds sql removing sequence from typeorm metadata table.
+     */
+    protected async deleteSequenceDefinitionSql(
+        sequence: TableSequence,
+    ): Promise<Query> {
+        let { schema, tableName: name } = this.driver.parseTableName(
+            sequence.name,
+        )
+
+        if (!schema) {
+            schema = await this.getCurrentSchema()
+        }
+
+        return this.deleteTypeormMetadataSql({
+            type: MetadataTableType.SEQUENCE,
+            schema,
+            name,
+        })
+    }
+
+    /**
+     * Builds create function sql.
+     * Function is replaced if it already exists and "replace" is set.
+     */
+    protected createFunctionSql(
+        fn: DatabaseFunction,
+        replace: boolean = false,
+    ): Query {
+        let sql = `CREATE ${replace ? "OR REPLACE " : ""}${
+            fn.type === "procedure" ? "PROCEDURE" : "FUNCTION"
+        } ${this.escapePath(fn.name)}(${this.buildFunctionParametersSql(fn)})`
+        if (fn.returns) sql += ` RETURNS ${fn.returns}`
+        sql += ` LANGUAGE ${fn.language || "sql"} AS $BODY$${fn.body}$BODY$`
+        return new Query(sql)
+    }
+
+    /**
+     * Builds drop function sql.
+     */
+    protected dropFunctionSql(fn: DatabaseFunction): Query {
+        return new Query(
+            `DROP ${
+                fn.type === "procedure" ? "PROCEDURE" : "FUNCTION"
+            } ${this.escapePath(fn.name)}(${this.buildFunctionParametersSql(
+                fn,
+            )})`,
+        )
+    }
+
+    /**
+     * Builds parameters list of the function.
+     */
+    protected buildFunctionParametersSql(fn: DatabaseFunction): string {
+        return fn.parameters
+            .map((parameter) =>
+                [parameter.mode, parameter.name, parameter.type]
+                    .filter((part) => !!part)
+                    .join(" "),
+            )
+            .join(", ")
+    }
+
+    /**
+     * Builds sql inserting function into typeorm metadata table.
+     */
+    protected async insertFunctionDefinitionSql(
+        fn: DatabaseFunction,
+    ): Promise<Query> {
+        let { schema, tableName: name } = this.driver.parseTableName(fn.name)
+
+        if (!schema) {
+            schema = await this.getCurrentSchema()
+        }
+
+        return this.insertTypeormMetadataSql({
+            type:
+                fn.type === "procedure"
+                    ? MetadataTableType.PROCEDURE
+                    : MetadataTableType.FUNCTION,
+            schema,
+            name,
+            value: this.buildFunctionDefinition(fn),
+        })
+    }
+
+    /**
+     * Builds sql removing function from typeorm metadata table.
+     */
+    protected async deleteFunctionDefinitionSql(
+        fn: DatabaseFunction,
+    ): Promise<Query> {
+        let { schema, tableName: name } = this.driver.parseTableName(fn.name)
+
+        if (!schema) {
+            schema = await this.getCurrentSchema()
+        }
+
+        return this.deleteTypeormMetadataSql({
+            type:
+                fn.type === "procedure"
+                    ? MetadataTableType.PROCEDURE
+                    : MetadataTableType.FUNCTION,
+            schema,
+            name,
+        })
+    }
+
     /**
      * Builds create foreign key sql.
      */
@@ -4682,7 +5677,8 @@ export class PostgresQueryRunner
         let c = '"' + column.name + '"'
         if (
             column.isGenerated === true &&
-            column.generationStrategy !== "uuid"
+            column.generationStrategy !== "uuid" &&
+            column.generationStrategy !== "sequence"
         ) {
             if (column.generationStrategy === "identity") {
                 // Postgres 10+ Identity generated column
@@ -4706,7 +5702,11 @@ export class PostgresQueryRunner
         if (column.type === "enum" || column.type === "simple-enum") {
             c += " " + this.buildEnumName(table, column)
             if (column.isArray) c += " array"
-        } else if (!column.isGenerated || column.type === "uuid") {
+        } else if (
+            !column.isGenerated ||
+            column.type === "uuid" ||
+            column.generationStrategy === "sequence"
+        ) {
             c += " " + this.connection.driver.createFullType(column)
         }
 
@@ -4726,6 +5726,15 @@ export class PostgresQueryRunner
             !column.default
         )
             c += ` DEFAULT ${this.driver.uuidGenerator}`
+        if (
+            column.isGenerated &&
+            column.generationStrategy === "sequence" &&
+            column.sequenceName &&
+            !column.default
+        )
+            c += ` DEFAULT ${this.driver.buildSequenceDefault(
+                column.sequenceName,
+            )}`
 
         return c
     }
@@ -49,18 +49,30 @@ export class ReactNativeQueryRunner extends AbstractSqliteQueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         return new Promise(async (ok, fail) => {
             const databaseConnection = await this.connect()
             const broadcasterResult = new BroadcasterResult()
 
-            this.driver.connection.logger.logQuery(query, parameters, this)
+            this.driver.connection.logger.logQuery(
+                query,
+                loggedParameters,
+                this,
+            )
+            const span =
+                this.driver.connection.instrumentationContext.startQuerySpan(
+                    query,
+                    this,
+                )
             this.broadcaster.broadcastBeforeQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
             )
 
             const queryStartTime = +new Date()
@@ -77,7 +89,7 @@ export class ReactNativeQueryRunner extends AbstractSqliteQueryRunner {
                     this.broadcaster.broadcastAfterQueryEvent(
                         broadcasterResult,
                         query,
-                        parameters,
+                        loggedParameters,
                         true,
                         queryExecutionTime,
                         raw,
@@ -91,7 +103,7 @@ export class ReactNativeQueryRunner extends AbstractSqliteQueryRunner {
                         this.driver.connection.logger.logQuerySlow(
                             queryExecutionTime,
                             query,
-                            parameters,
+                            loggedParameters,
                             this,
                         )
 
@@ -119,6 +131,15 @@ export class ReactNativeQueryRunner extends AbstractSqliteQueryRunner {
                         result.raw = raw.insertId
                     }
 
+                    this.driver.connection.logger.logQueryExecuted?.(
+                        queryExecutionTime,
+                        query,
+                        loggedParameters,
+                        result.affected || result.records.length,
+                        this,
+                    )
+                    span.end()
+
                     if (useStructuredResult) {
                         ok(result)
                     } else {
@@ -129,13 +150,14 @@ export class ReactNativeQueryRunner extends AbstractSqliteQueryRunner {
                     this.driver.connection.logger.logQueryError(
                         err,
                         query,
-                        parameters,
+                        loggedParameters,
                         this,
                     )
+                    span.end(err)
                     this.broadcaster.broadcastAfterQueryEvent(
                         broadcasterResult,
                         query,
-                        parameters,
+                        loggedParameters,
                         false,
                         undefined,
                         undefined,
@@ -143,7 +165,14 @@ export class ReactNativeQueryRunner extends AbstractSqliteQueryRunner {
                     )
                     await broadcasterResult.wait()
 
-                    fail(new QueryFailedError(query, parameters, err))
+                    fail(
+                        new QueryFailedError(
+                            query,
+                            parameters,
+                            err,
+                            redactedParameters,
+                        ),
+                    )
                 },
             )
         })
@@ -592,6 +592,14 @@ export class SapDriver implements Driver {
     normalizeDefault(columnMetadata: ColumnMetadata): string | undefined {
         const defaultValue = columnMetadata.default
 
+        if (
+            columnMetadata.isGenerated &&
+            columnMetadata.generationStrategy === "sequence" &&
+            columnMetadata.sequenceName
+        ) {
+            return this.buildSequenceDefault(columnMetadata.sequenceName)
+        }
+
         if (typeof defaultValue === "number") {
             return `${defaultValue}`
         }
@@ -615,6 +623,18 @@ export class SapDriver implements Driver {
         return `${defaultValue}`
     }
 
+    /**
+     * Builds expression returning the next value of the given sequence.
+     * SAP HANA does not allow sequences in column defaults, so this expression is inlined into insert queries instead.
+     */
+    buildSequenceDefault(sequenceName: string): string {
+        const sequencePath = sequenceName
+            .split(".")
+            .map((part) => this.escape(part))
+            .join(".")
+        return `${sequencePath}.NEXTVAL`
+    }
+
     /**
      * Normalizes "isUnique" value of the column.
      */
@@ -772,12 +792,14 @@ export class SapDriver implements Driver {
                 tableColumn.comment !==
                     this.escapeComment(columnMetadata.comment) ||
                 (!tableColumn.isGenerated &&
+                    columnMetadata.generationStrategy !== "sequence" && // sequence columns have no default in SAP HANA
                     hanaNullComapatibleDefault !== tableColumn.default) || // we included check for generated here, because generated columns already can have default values
                 tableColumn.isPrimary !== columnMetadata.isPrimary ||
                 tableColumn.isNullable !== columnMetadata.isNullable ||
                 tableColumn.isUnique !==
                     this.normalizeIsUnique(columnMetadata) ||
                 (columnMetadata.generationStrategy !== "uuid" &&
+                    columnMetadata.generationStrategy !== "sequence" &&
                     tableColumn.isGenerated !== columnMetadata.isGenerated)
             )
         })
@@ -11,6 +11,10 @@ import { Table } from "../../schema-builder/table/Table"
 import { TableCheck } from "../../schema-builder/table/TableCheck"
 import { TableColumn } from "../../schema-builder/table/TableColumn"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
 import { TableForeignKey } from "../../schema-builder/table/TableForeignKey"
 import { TableIndex } from "../../schema-builder/table/TableIndex"
 import { TableUnique } from "../../schema-builder/table/TableUnique"
@@ -110,6 +114,10 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
         await this.broadcaster.broadcast("BeforeTransactionStart")
 
         this.isTransactionActive = true
+        this.connection.instrumentationContext.startTransactionSpan(
+            this,
+            isolationLevel,
+        )
 
         /**
          * Disable AUTOCOMMIT while running transaction.
@@ -139,6 +147,10 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
 
         await this.query("COMMIT")
         this.isTransactionActive = false
+        this.connection.instrumentationContext.endTransactionSpan(
+            this,
+            "commit",
+        )
 
         await this.setAutoCommit({ status: "on" })
         await this.broadcaster.broadcast("AfterTransactionCommit")
@@ -157,6 +169,10 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
 
         await this.query("ROLLBACK")
         this.isTransactionActive = false
+        this.connection.instrumentationContext.endTransactionSpan(
+            this,
+            "rollback",
+        )
 
         await this.setAutoCommit({ status: "on" })
         await this.broadcaster.broadcast("AfterTransactionRollback")
@@ -188,23 +204,36 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const release = await this.lock.acquire()
 
         let statement: any
         const result = new QueryResult()
         const broadcasterResult = new BroadcasterResult()
 
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
+
         try {
             const databaseConnection = await this.connect()
 
-            this.driver.connection.logger.logQuery(query, parameters, this)
+            this.driver.connection.logger.logQuery(
+                query,
+                loggedParameters,
+                this,
+            )
             this.broadcaster.broadcastBeforeQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
             )
 
             const queryStartTime = +new Date()
@@ -226,7 +255,12 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
                           databaseConnection.exec.bind(databaseConnection),
                       )(query, parameters, {})
             } catch (err) {
-                throw new QueryFailedError(query, parameters, err)
+                throw new QueryFailedError(
+                    query,
+                    parameters,
+                    err,
+                    redactedParameters,
+                )
             }
 
             // log slow queries if maxQueryExecution time is set
@@ -238,7 +272,7 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 true,
                 queryExecutionTime,
                 raw,
@@ -252,7 +286,7 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
                 this.driver.connection.logger.logQuerySlow(
                     queryExecutionTime,
                     query,
-                    parameters,
+                    loggedParameters,
                     this,
                 )
             }
@@ -263,6 +297,15 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
                 result.records = raw
             }
 
+            this.driver.connection.logger.logQueryExecuted?.(
+                queryExecutionTime,
+                query,
+                loggedParameters,
+                result.affected ?? result.records.length,
+                this,
+            )
+            span.end()
+
             result.raw = raw
 
             if (isInsertQuery) {
@@ -293,13 +336,14 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                loggedParameters,
                 this,
             )
+            span.end(err)
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 false,
                 undefined,
                 undefined,
@@ -333,11 +377,16 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
         parameters?: any[],
         onEnd?: Function,
         onError?: Function,
+        redactedParameters?: any[],
     ): Promise<ReadStream> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
         const databaseConnection = await this.connect()
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(
+            query,
+            redactedParameters ?? parameters,
+            this,
+        )
 
         const prepareAsync = promisify(databaseConnection.prepare).bind(
             databaseConnection,
@@ -1107,7 +1156,8 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
 
         if (
             (newColumn.isGenerated !== oldColumn.isGenerated &&
-                newColumn.generationStrategy !== "uuid") ||
+                newColumn.generationStrategy !== "uuid" &&
+                newColumn.generationStrategy !== "sequence") ||
             newColumn.type !== oldColumn.type ||
             newColumn.length !== oldColumn.length
         ) {
@@ -2215,6 +2265,169 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
         )
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `SAP HANA driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `SAP HANA driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `SAP HANA driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `SAP HANA driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Creates a new trigger.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        throw new TypeORMError(`SAP HANA driver does not support triggers.`)
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        throw new TypeORMError(`SAP HANA driver does not support triggers.`)
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        upQueries.push(this.createSequenceSql(sequence))
+        if (syncWithMetadata)
+            upQueries.push(await this.insertSequenceDefinitionSql(sequence))
+        downQueries.push(this.dropSequenceSql(sequence))
+        if (syncWithMetadata)
+            downQueries.push(await this.deleteSequenceDefinitionSql(sequence))
+        await this.executeQueries(upQueries, downQueries)
+    }
+
+    /**
+     * Changes options of the sequence.
+     * Start value is not changed, since restarting the existing sequence would reuse already generated values.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        const oldSequence = InstanceChecker.isTableSequence(oldSequenceOrName)
+            ? oldSequenceOrName
+            : await this.getCachedSequence(oldSequenceOrName)
+
+        const upQueries: Query[] = [this.alterSequenceSql(newSequence)]
+        const downQueries: Query[] = [this.alterSequenceSql(oldSequence)]
+        await this.executeQueries(upQueries, downQueries)
+
+        const index = this.loadedSequences.indexOf(oldSequence)
+        if (index !== -1) this.loadedSequences[index] = newSequence.clone()
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const sequence = InstanceChecker.isTableSequence(sequenceOrName)
+            ? sequenceOrName
+            : await this.getCachedSequence(sequenceOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata)
+            upQueries.push(await this.deleteSequenceDefinitionSql(sequence))
+        upQueries.push(this.dropSequenceSql(sequence))
+        if (syncWithMetadata)
+            downQueries.push(await this.insertSequenceDefinitionSql(sequence))
+        downQueries.push(this.createSequenceSql(sequence))
+        await this.executeQueries(upQueries, downQueries)
+
+        this.loadedSequences = this.loadedSequences.filter(
+            (loadedSequence) => loadedSequence.name !== sequence.name,
+        )
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`SAP HANA driver does not support functions.`)
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`SAP HANA driver does not support functions.`)
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`SAP HANA driver does not support functions.`)
+    }
+
     /**
      * Creates a new foreign key.
      */
@@ -2410,6 +2623,15 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
                 dropTableQueries.map((q) => this.query(q["query"])),
             )
 
+            // drop sequences, except sequences generated for identity columns
+            const selectSequenceDropsQuery = `SELECT 'DROP SEQUENCE "' || schema_name || '"."' || sequence_name || '";' as "query" FROM "SYS"."SEQUENCES" WHERE "SCHEMA_NAME" IN (${schemaNamesString}) AND "SEQUENCE_NAME" NOT LIKE '$_SYS$_%' ESCAPE '$'`
+            const dropSequenceQueries: ObjectLiteral[] = await this.query(
+                selectSequenceDropsQuery,
+            )
+            await Promise.all(
+                dropSequenceQueries.map((q) => this.query(q["query"])),
+            )
+
             if (!isAnotherTransactionActive) await this.commitTransaction()
         } catch (error) {
             try {
@@ -2472,6 +2694,64 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
         })
     }
 
+    /**
+     * Loads sequences created by TypeORM (with given names) from the database.
+     */
+    protected async loadSequences(
+        sequenceNames?: string[],
+    ): Promise<TableSequence[]> {
+        const hasTable = await this.hasTable(this.getTypeormMetadataTableName())
+        if (!hasTable) {
+            return []
+        }
+
+        const currentSchema = await this.getCurrentSchema()
+        const sequencesCondition =
+            !sequenceNames || sequenceNames.length === 0
+                ? "1=1"
+                : sequenceNames
+                      .map((sequenceName) => {
+                          let { schema, tableName: name } =
+                              this.driver.parseTableName(sequenceName)
+
+                          if (!schema) {
+                              schema = currentSchema
+                          }
+
+                          return `("t"."schema" = '${schema}' AND "t"."name" = '${name}')`
+                      })
+                      .join(" OR ")
+
+        const query =
+            `SELECT "s".* FROM ${this.escapePath(
+                this.getTypeormMetadataTableName(),
+            )} "t" ` +
+            `INNER JOIN "SYS"."SEQUENCES" "s" ON "s"."SCHEMA_NAME" = "t"."schema" AND "s"."SEQUENCE_NAME" = "t"."name" ` +
+            `WHERE "t"."type" = '${MetadataTableType.SEQUENCE}' AND (${sequencesCondition})`
+
+        const dbSequences: ObjectLiteral[] = await this.query(query)
+        return dbSequences.map((dbSequence) => {
+            const schema =
+                dbSequence["SCHEMA_NAME"] === currentSchema &&
+                !this.driver.options.schema
+                    ? undefined
+                    : dbSequence["SCHEMA_NAME"]
+
+            return new TableSequence({
+                name: this.driver.buildTableName(
+                    dbSequence["SEQUENCE_NAME"],
+                    schema,
+                ),
+                start: Number(dbSequence["START_NUMBER"]),
+                increment: Number(dbSequence["INCREMENT_BY"]),
+                minValue: Number(dbSequence["MIN_VALUE"]),
+                maxValue: Number(dbSequence["MAX_VALUE"]),
+                cycle: dbSequence["IS_CYCLED"] === "TRUE",
+                cache: Number(dbSequence["CACHE_SIZE"]) || undefined,
+            })
+        })
+    }
+
     /**
      * Loads all tables (with given names) from the database and creates a Table from them.
      */
@@ -3231,6 +3511,93 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
         )
     }
 
+    /**
+     * Builds create sequence sql.
+     */
+    protected createSequenceSql(sequence: TableSequence): Query {
+        let sql = `CREATE SEQUENCE ${this.escapePath(sequence.name)}`
+        if (sequence.start !== undefined) sql += ` START WITH ${sequence.start}`
+        sql += this.buildSequenceOptionsSql(sequence)
+        return new Query(sql)
+    }
+
+    /**
+     * Builds alter sequence sql changing sequence options to the options of the given sequence.
+     */
+    protected alterSequenceSql(sequence: TableSequence): Query {
+        return new Query(
+            `ALTER SEQUENCE ${this.escapePath(
+                sequence.name,
+            )}${this.buildSequenceOptionsSql(sequence)}`,
+        )
+    }
+
+    /**
+     * Builds options of the sequence shared by create and alter sequence sql.
+     * Options not set on the given sequence are left to the database defaults.
+     */
+    protected buildSequenceOptionsSql(sequence: TableSequence): string {
+        let sql = ""
+        if (sequence.increment !== undefined)
+            sql += ` INCREMENT BY ${sequence.increment}`
+        if (sequence.minValue !== undefined)
+            sql += ` MINVALUE ${sequence.minValue}`
+        if (sequence.maxValue !== undefined)
+            sql += ` MAXVALUE ${sequence.maxValue}`
+        if (sequence.cache !== undefined) sql += ` CACHE ${sequence.cache}`
+        sql += sequence.cycle ? ` CYCLE` : ` NO CYCLE`
+        return sql
+    }
+
+    /**
+     * Builds drop sequence sql.
+     */
+    protected dropSequenceSql(sequence: TableSequence): Query {
+        return new Query(`DROP SEQUENCE ${this.escapePath(sequence.name)}`)
+    }
+
+    /**
+     * Builds sql inserting sequence into typeorm metadata table.
+     */
+    protected async insertSequenceDefinitionSql(
+        sequence: TableSequence,
+    ): Promise<Query> {
+        let { schema, tableName: name } = this.driver.parseTableName(
+            sequence.name,
+        )
+
+        if (!schema) {
+            schema = await this.getCurrentSchema()
+        }
+
+        return this.insertTypeormMetadataSql({
+            type: MetadataTableType.SEQUENCE,
+            schema,
+            name,
+        })
+    }
+
+    /**
+     * Builds sql removing sequence from typeorm metadata table.
+     */
+    protected async deleteSequenceDefinitionSql(
+        sequence: TableSequence,
+    ): Promise<Query> {
+        let { schema, tableName: name } = this.driver.parseTableName(
+            sequence.name,
+        )
+
+        if (!schema) {
+            schema = await this.getCurrentSchema()
+        }
+
+        return this.deleteTypeormMetadataSql({
+            type: MetadataTableType.SEQUENCE,
+            schema,
+            name,
+        })
+    }
+
     /**
      * Builds create foreign key sql.
      */
@@ -3332,12 +3699,17 @@ export class SapQueryRunner extends BaseQueryRunner implements QueryRunner {
             `"${column.name}" ` + this.connection.driver.createFullType(column)
         if (column.charset) c += " CHARACTER SET " + column.charset
         if (column.collation) c += " COLLATE " + column.collation
-        if (column.default !== undefined && column.default !== null) {
+        // SAP HANA does not allow sequences in column defaults, sequence values are inserted explicitly
+        if (
+            column.default !== undefined &&
+            column.default !== null &&
+            column.generationStrategy !== "sequence"
+        ) {
             c += " DEFAULT " + column.default
         } else if (explicitDefault) {
             c += " DEFAULT NULL"
         }
-        if (!column.isGenerated) {
+        if (!column.isGenerated || column.generationStrategy === "sequence") {
             // NOT NULL is not supported with GENERATED
             if (column.isNullable !== true) c += " NOT NULL"
             else if (explicitNullable) c += " NULL"
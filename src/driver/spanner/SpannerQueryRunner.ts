@@ -11,6 +11,10 @@ import { Table } from "../../schema-builder/table/Table"
 import { TableCheck } from "../../schema-builder/table/TableCheck"
 import { TableColumn } from "../../schema-builder/table/TableColumn"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
 import { TableForeignKey } from "../../schema-builder/table/TableForeignKey"
 import { TableIndex } from "../../schema-builder/table/TableIndex"
 import { TableUnique } from "../../schema-builder/table/TableUnique"
@@ -105,6 +109,10 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
             throw err
         }
 
+        this.connection.instrumentationContext.startTransactionSpan(
+            this,
+            isolationLevel,
+        )
         await this.connect()
         await this.sessionTransaction.begin()
         this.connection.logger.logQuery("START TRANSACTION")
@@ -125,6 +133,10 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         await this.sessionTransaction.commit()
         this.connection.logger.logQuery("COMMIT")
         this.isTransactionActive = false
+        this.connection.instrumentationContext.endTransactionSpan(
+            this,
+            "commit",
+        )
 
         await this.broadcaster.broadcast("AfterTransactionCommit")
     }
@@ -142,6 +154,10 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         await this.sessionTransaction.rollback()
         this.connection.logger.logQuery("ROLLBACK")
         this.isTransactionActive = false
+        this.connection.instrumentationContext.endTransactionSpan(
+            this,
+            "rollback",
+        )
 
         await this.broadcaster.broadcast("AfterTransactionRollback")
     }
@@ -153,11 +169,20 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult: boolean = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const broadcasterResult = new BroadcasterResult()
 
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
+
         try {
             const queryStartTime = +new Date()
             await this.connect()
@@ -184,11 +209,15 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
             }
 
             try {
-                this.driver.connection.logger.logQuery(query, parameters, this)
+                this.driver.connection.logger.logQuery(
+                    query,
+                    loggedParameters,
+                    this,
+                )
                 this.broadcaster.broadcastBeforeQueryEvent(
                     broadcasterResult,
                     query,
-                    parameters,
+                    loggedParameters,
                 )
 
                 rawResult = await executor.run({
@@ -222,7 +251,7 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 true,
                 queryExecutionTime,
                 rawResult,
@@ -236,7 +265,7 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
                 this.driver.connection.logger.logQuerySlow(
                     queryExecutionTime,
                     query,
-                    parameters,
+                    loggedParameters,
                     this,
                 )
 
@@ -248,6 +277,15 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
                 result.affected = parseInt(rawResult[1].rowCountExact)
             }
 
+            this.driver.connection.logger.logQueryExecuted?.(
+                queryExecutionTime,
+                query,
+                loggedParameters,
+                result.affected ?? result.records.length,
+                this,
+            )
+            span.end()
+
             if (!useStructuredResult) {
                 return result.records
             }
@@ -257,19 +295,25 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                loggedParameters,
                 this,
             )
+            span.end(err)
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 false,
                 undefined,
                 undefined,
                 err,
             )
-            throw new QueryFailedError(query, parameters, err)
+            throw new QueryFailedError(
+                query,
+                parameters,
+                err,
+                redactedParameters,
+            )
         } finally {
             await broadcasterResult.wait()
         }
@@ -325,11 +369,16 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         parameters?: any[],
         onEnd?: Function,
         onError?: Function,
+        redactedParameters?: any[],
     ): Promise<ReadStream> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
         try {
-            this.driver.connection.logger.logQuery(query, parameters, this)
+            this.driver.connection.logger.logQuery(
+                query,
+                redactedParameters ?? parameters,
+                this,
+            )
             const request = {
                 sql: query,
                 params: parameters
@@ -355,10 +404,15 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                redactedParameters ?? parameters,
                 this,
             )
-            throw new QueryFailedError(query, parameters, err)
+            throw new QueryFailedError(
+                query,
+                parameters,
+                err,
+                redactedParameters,
+            )
         }
     }
 
@@ -1273,6 +1327,127 @@ export class SpannerQueryRunner extends BaseQueryRunner implements QueryRunner {
         )
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support table partitioning.`)
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support table partitioning.`)
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support table partitioning.`)
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support table partitioning.`)
+    }
+
+    /**
+     * Creates a new trigger.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support triggers.`)
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support triggers.`)
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support sequences.`)
+    }
+
+    /**
+     * Changes options of the sequence.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support sequences.`)
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support sequences.`)
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support functions.`)
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support functions.`)
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`Spanner does not support functions.`)
+    }
+
     /**
      * Creates a new foreign key.
      */
@@ -16,6 +16,10 @@ import { OrmUtils } from "../../util/OrmUtils"
 import { TableCheck } from "../../schema-builder/table/TableCheck"
 import { IsolationLevel } from "../types/IsolationLevel"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
 import { TransactionAlreadyStartedError, TypeORMError } from "../../error"
 import { MetadataTableType } from "../types/MetadataTableType"
 import { InstanceChecker } from "../../util/InstanceChecker"
@@ -101,6 +105,10 @@ export abstract class AbstractSqliteQueryRunner
         }
 
         if (this.transactionDepth === 0) {
+            this.connection.instrumentationContext.startTransactionSpan(
+                this,
+                isolationLevel,
+            )
             this.transactionDepth += 1
             if (isolationLevel) {
                 if (isolationLevel === "READ UNCOMMITTED") {
@@ -136,6 +144,10 @@ export abstract class AbstractSqliteQueryRunner
             this.transactionDepth -= 1
             await this.query("COMMIT")
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "commit",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionCommit")
@@ -159,6 +171,10 @@ export abstract class AbstractSqliteQueryRunner
             this.transactionDepth -= 1
             await this.query("ROLLBACK")
             this.isTransactionActive = false
+            this.connection.instrumentationContext.endTransactionSpan(
+                this,
+                "rollback",
+            )
         }
 
         await this.broadcaster.broadcast("AfterTransactionRollback")
@@ -314,6 +330,11 @@ export abstract class AbstractSqliteQueryRunner
             })
         }
 
+        table.triggers.forEach((trigger) => {
+            upQueries.push(this.createTriggerSql(table, trigger))
+            downQueries.push(this.dropTriggerSql(table, trigger))
+        })
+
         // if table have column with generated type, we must add the expression to the metadata table
         const generatedColumns = table.columns.filter(
             (column) => column.generatedType && column.asExpression,
@@ -369,6 +390,11 @@ export abstract class AbstractSqliteQueryRunner
             })
         }
 
+        table.triggers.forEach((trigger) => {
+            upQueries.push(this.dropTriggerSql(table, trigger))
+            downQueries.push(this.createTriggerSql(table, trigger))
+        })
+
         upQueries.push(this.dropTableSql(table, ifExist))
         downQueries.push(this.createTableSql(table, createForeignKeys))
 
@@ -1014,6 +1040,148 @@ export abstract class AbstractSqliteQueryRunner
         throw new TypeORMError(`Sqlite does not support exclusion constraints.`)
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(`Sqlite does not support table partitioning.`)
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(`Sqlite does not support table partitioning.`)
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(`Sqlite does not support table partitioning.`)
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(`Sqlite does not support table partitioning.`)
+    }
+
+    /**
+     * Creates a new trigger.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+
+        const up = this.createTriggerSql(table, trigger)
+        const down = this.dropTriggerSql(table, trigger)
+        await this.executeQueries(up, down)
+        table.addTrigger(trigger)
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+        const trigger = InstanceChecker.isTableTrigger(triggerOrName)
+            ? triggerOrName
+            : table.triggers.find((t) => t.name === triggerOrName)
+        if (!trigger)
+            throw new TypeORMError(
+                `Supplied trigger was not found in table ${table.name}`,
+            )
+
+        const up = this.dropTriggerSql(table, trigger)
+        const down = this.createTriggerSql(table, trigger)
+        await this.executeQueries(up, down)
+        table.removeTrigger(trigger)
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`Sqlite does not support sequences.`)
+    }
+
+    /**
+     * Changes options of the sequence.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        throw new TypeORMError(`Sqlite does not support sequences.`)
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`Sqlite does not support sequences.`)
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`Sqlite does not support functions.`)
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`Sqlite does not support functions.`)
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void> {
+        throw new TypeORMError(`Sqlite does not support functions.`)
+    }
+
     /**
      * Creates a new foreign key.
      */
@@ -1249,7 +1417,7 @@ export abstract class AbstractSqliteQueryRunner
 
     protected async loadTableRecords(
         tablePath: string,
-        tableOrIndex: "table" | "index",
+        tableOrIndex: "table" | "index" | "trigger",
     ) {
         let database: string | undefined = undefined
         const [schema, tableName] = this.splitTablePath(tablePath)
@@ -1289,6 +1457,7 @@ export abstract class AbstractSqliteQueryRunner
 
         let dbTables: { database?: string; name: string; sql: string }[] = []
         let dbIndicesDef: ObjectLiteral[]
+        let dbTriggersDef: ObjectLiteral[]
 
         if (!tableNames) {
             const tablesSql = `SELECT * FROM "sqlite_master" WHERE "type" = 'table'`
@@ -1300,6 +1469,9 @@ export abstract class AbstractSqliteQueryRunner
             dbIndicesDef = await this.query(
                 `SELECT * FROM "sqlite_master" WHERE "type" = 'index' AND "tbl_name" IN (${tableNamesString})`,
             )
+            dbTriggersDef = await this.query(
+                `SELECT * FROM "sqlite_master" WHERE "type" = 'trigger' AND "tbl_name" IN (${tableNamesString})`,
+            )
         } else {
             const tableNamesWithoutDot = tableNames
                 .filter((tableName) => {
@@ -1311,7 +1483,7 @@ export abstract class AbstractSqliteQueryRunner
                 return tableName.split(".").length > 1
             })
 
-            const queryPromises = (type: "table" | "index") => {
+            const queryPromises = (type: "table" | "index" | "trigger") => {
                 const promises = [
                     ...tableNamesWithDot.map((tableName) =>
                         this.loadTableRecords(tableName, type),
@@ -1336,6 +1508,9 @@ export abstract class AbstractSqliteQueryRunner
             dbIndicesDef = (await Promise.all(queryPromises("index")))
                 .reduce((acc, res) => [...acc, ...res], [])
                 .filter(Boolean)
+            dbTriggersDef = (await Promise.all(queryPromises("trigger")))
+                .reduce((acc, res) => [...acc, ...res], [])
+                .filter(Boolean)
         }
 
         // if tables were not found in the db, no need to proceed
@@ -1696,6 +1871,43 @@ export abstract class AbstractSqliteQueryRunner
                     (index) => !!index,
                 ) as TableIndex[]
 
+                // sqlite stores the original CREATE TRIGGER statement, trigger properties are parsed from it
+                table.triggers = dbTriggersDef
+                    .filter(
+                        (dbTrigger) =>
+                            dbTrigger["tbl_name"] === dbTable["name"] &&
+                            dbTrigger["database"] === dbTable["database"],
+                    )
+                    .map((dbTrigger) => {
+                        const match =
+                            /^CREATE\s+(?:TEMP\s+|TEMPORARY\s+)?TRIGGER\s+(?:IF\s+NOT\s+EXISTS\s+)?(?:"[^"]*"|\S+)\s+(BEFORE|AFTER|INSTEAD\s+OF)?\s*(INSERT|UPDATE|DELETE)\b[\s\S]*?\bON\s+(?:"[^"]*"|\S+)\s+(?:FOR\s+EACH\s+ROW\s+)?([\s\S]*)$/i.exec(
+                                dbTrigger["sql"],
+                            )
+                        return new TableTrigger({
+                            name: dbTrigger["name"],
+                            // BEFORE is the default trigger timing in sqlite
+                            timing:
+                                match && match[1]
+                                    ? (match[1]
+                                          .toUpperCase()
+                                          .replace(/\s+/, " ") as
+                                          | "BEFORE"
+                                          | "AFTER"
+                                          | "INSTEAD OF")
+                                    : "BEFORE",
+                            events: match
+                                ? [
+                                      match[2].toUpperCase() as
+                                          | "INSERT"
+                                          | "UPDATE"
+                                          | "DELETE",
+                                  ]
+                                : [],
+                            level: "ROW",
+                            body: match ? match[3] : undefined,
+                        })
+                    })
+
                 return table
             }),
         )
@@ -1852,6 +2064,49 @@ export abstract class AbstractSqliteQueryRunner
         return new Query(sql)
     }
 
+    /**
+     * Builds create trigger sql.
+     */
+    protected createTriggerSql(table: Table, trigger: TableTrigger): Query {
+        if (trigger.events.length !== 1)
+            throw new TypeORMError(
+                `Sqlite triggers must have exactly one event, trigger "${trigger.name}" has ${trigger.events.length}.`,
+            )
+        if (trigger.level !== "ROW")
+            throw new TypeORMError(`Sqlite supports only row level triggers.`)
+        if (!trigger.body)
+            throw new TypeORMError(
+                `Sqlite triggers must have a body, executing functions is not supported.`,
+            )
+
+        // trigger resides in the database of its table, which can not be qualified in the ON clause
+        const [, tableName] = this.splitTablePath(table.name)
+        return new Query(
+            `CREATE TRIGGER ${this.getTriggerPath(table, trigger)} ${
+                trigger.timing
+            } ${trigger.events[0]} ON ${this.escapePath(
+                tableName,
+            )} FOR EACH ROW ${trigger.body}`,
+        )
+    }
+
+    /**
+     * Builds drop trigger sql.
+     */
+    protected dropTriggerSql(table: Table, trigger: TableTrigger): Query {
+        return new Query(`DROP TRIGGER ${this.getTriggerPath(table, trigger)}`)
+    }
+
+    /**
+     * Escapes path of the trigger, which resides in the database of the table.
+     */
+    protected getTriggerPath(table: Table, trigger: TableTrigger): string {
+        const [database] = this.splitTablePath(table.name)
+        return this.escapePath(
+            database ? `${database}.${trigger.name}` : trigger.name,
+        )
+    }
+
     /**
      * Builds drop table sql.
      */
@@ -1993,6 +2248,12 @@ export abstract class AbstractSqliteQueryRunner
         const upQueries: Query[] = []
         const downQueries: Query[] = []
 
+        // drop old table triggers, sqlite drops them together with the table anyway
+        oldTable.triggers.forEach((trigger) => {
+            upQueries.push(this.dropTriggerSql(oldTable, trigger))
+            downQueries.push(this.createTriggerSql(oldTable, trigger))
+        })
+
         // drop old table indices
         oldTable.indices.forEach((index) => {
             upQueries.push(this.dropIndexSql(index))
@@ -2100,6 +2361,12 @@ export abstract class AbstractSqliteQueryRunner
             downQueries.push(this.dropIndexSql(index))
         })
 
+        // recreate table triggers
+        newTable.triggers.forEach((trigger) => {
+            upQueries.push(this.createTriggerSql(newTable, trigger))
+            downQueries.push(this.dropTriggerSql(newTable, trigger))
+        })
+
         // update generated columns in "typeorm_metadata" table
         // Step 1: clear data for removed generated columns
         oldTable.columns
@@ -52,9 +52,12 @@ export class SqliteQueryRunner extends AbstractSqliteQueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const connection = this.driver.connection
         const options = connection.options as SqliteConnectionOptions
         const maxQueryExecutionTime = this.driver.options.maxQueryExecutionTime
@@ -64,7 +67,7 @@ export class SqliteQueryRunner extends AbstractSqliteQueryRunner {
         broadcaster.broadcastBeforeQueryEvent(
             broadcasterResult,
             query,
-            parameters,
+            loggedParameters,
         )
 
         if (!connection.isInitialized) {
@@ -74,7 +77,16 @@ export class SqliteQueryRunner extends AbstractSqliteQueryRunner {
         return new Promise(async (ok, fail) => {
             try {
                 const databaseConnection = await this.connect()
-                this.driver.connection.logger.logQuery(query, parameters, this)
+                this.driver.connection.logger.logQuery(
+                    query,
+                    loggedParameters,
+                    this,
+                )
+                const span =
+                    this.driver.connection.instrumentationContext.startQuerySpan(
+                        query,
+                        this,
+                    )
                 const queryStartTime = +new Date()
                 const isInsertQuery = query.startsWith("INSERT ")
                 const isDeleteQuery = query.startsWith("DELETE ")
@@ -110,7 +122,7 @@ export class SqliteQueryRunner extends AbstractSqliteQueryRunner {
                         connection.logger.logQuerySlow(
                             queryExecutionTime,
                             query,
-                            parameters,
+                            loggedParameters,
                             self,
                         )
 
@@ -118,13 +130,14 @@ export class SqliteQueryRunner extends AbstractSqliteQueryRunner {
                         connection.logger.logQueryError(
                             err,
                             query,
-                            parameters,
+                            loggedParameters,
                             self,
                         )
+                        span.end(err)
                         broadcaster.broadcastAfterQueryEvent(
                             broadcasterResult,
                             query,
-                            parameters,
+                            loggedParameters,
                             false,
                             undefined,
                             undefined,
@@ -132,7 +145,12 @@ export class SqliteQueryRunner extends AbstractSqliteQueryRunner {
                         )
 
                         return fail(
-                            new QueryFailedError(query, parameters, err),
+                            new QueryFailedError(
+                                query,
+                                parameters,
+                                err,
+                                redactedParameters,
+                            ),
                         )
                     } else {
                         const result = new QueryResult()
@@ -146,7 +164,7 @@ export class SqliteQueryRunner extends AbstractSqliteQueryRunner {
                         broadcaster.broadcastAfterQueryEvent(
                             broadcasterResult,
                             query,
-                            parameters,
+                            loggedParameters,
                             true,
                             queryExecutionTime,
                             result.raw,
@@ -159,6 +177,17 @@ export class SqliteQueryRunner extends AbstractSqliteQueryRunner {
 
                         result.affected = this["changes"]
 
+                        connection.logger.logQueryExecuted?.(
+                            queryExecutionTime,
+                            query,
+                            loggedParameters,
+                            Array.isArray(rows)
+                                ? result.records.length
+                                : result.affected,
+                            self,
+                        )
+                        span.end()
+
                         if (useStructuredResult) {
                             ok(result)
                         } else {
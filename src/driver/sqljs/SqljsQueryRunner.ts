@@ -79,19 +79,27 @@ export class SqljsQueryRunner extends AbstractSqliteQueryRunner {
         query: string,
         parameters: any[] = [],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const command = query.trim().split(" ", 1)[0]
 
         const databaseConnection = this.driver.databaseConnection
         const broadcasterResult = new BroadcasterResult()
 
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(query, loggedParameters, this)
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
         this.broadcaster.broadcastBeforeQueryEvent(
             broadcasterResult,
             query,
-            parameters,
+            loggedParameters,
         )
 
         const queryStartTime = +new Date()
@@ -99,11 +107,11 @@ export class SqljsQueryRunner extends AbstractSqliteQueryRunner {
         try {
             statement = databaseConnection.prepare(query)
             if (parameters) {
-                parameters = parameters.map((p) =>
-                    typeof p !== "undefined" ? p : null,
+                statement.bind(
+                    parameters.map((p) =>
+                        typeof p !== "undefined" ? p : null,
+                    ),
                 )
-
-                statement.bind(parameters)
             }
 
             // log slow queries if maxQueryExecution time is set
@@ -119,7 +127,7 @@ export class SqljsQueryRunner extends AbstractSqliteQueryRunner {
                 this.driver.connection.logger.logQuerySlow(
                     queryExecutionTime,
                     query,
-                    parameters,
+                    loggedParameters,
                     this,
                 )
 
@@ -132,7 +140,7 @@ export class SqljsQueryRunner extends AbstractSqliteQueryRunner {
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 true,
                 queryExecutionTime,
                 records,
@@ -145,6 +153,17 @@ export class SqljsQueryRunner extends AbstractSqliteQueryRunner {
             result.records = records
             result.raw = records
 
+            this.driver.connection.logger.logQueryExecuted?.(
+                queryExecutionTime,
+                query,
+                loggedParameters,
+                command === "SELECT" || records.length
+                    ? records.length
+                    : result.affected,
+                this,
+            )
+            span.end()
+
             statement.free()
 
             if (command !== "SELECT") {
@@ -164,20 +183,26 @@ export class SqljsQueryRunner extends AbstractSqliteQueryRunner {
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                loggedParameters,
                 this,
             )
+            span.end(err)
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
                 false,
                 undefined,
                 undefined,
                 err,
             )
 
-            throw new QueryFailedError(query, parameters, err)
+            throw new QueryFailedError(
+                query,
+                parameters,
+                err,
+                redactedParameters,
+            )
         } finally {
             await broadcasterResult.wait()
         }
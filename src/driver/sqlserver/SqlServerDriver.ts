@@ -644,6 +644,14 @@ export class SqlServerDriver implements Driver {
     normalizeDefault(columnMetadata: ColumnMetadata): string | undefined {
         const defaultValue = columnMetadata.default
 
+        if (
+            columnMetadata.isGenerated &&
+            columnMetadata.generationStrategy === "sequence" &&
+            columnMetadata.sequenceName
+        ) {
+            return this.buildSequenceDefault(columnMetadata.sequenceName)
+        }
+
         if (typeof defaultValue === "number") {
             return `${defaultValue}`
         }
@@ -671,6 +679,18 @@ export class SqlServerDriver implements Driver {
         return `${defaultValue}`
     }
 
+    /**
+     * Builds default value expression of the column which takes its values from the given sequence.
+     * Sequence name is quoted the same way SqlServer prints it back in column defaults.
+     */
+    buildSequenceDefault(sequenceName: string): string {
+        const sequencePath = sequenceName
+            .split(".")
+            .map((part) => `[${part}]`)
+            .join(".")
+        return `NEXT VALUE FOR ${sequencePath}`
+    }
+
     /**
      * Normalizes "isUnique" value of the column.
      */
@@ -794,7 +814,9 @@ export class SqlServerDriver implements Driver {
                 tableColumn.precision !== columnMetadata.precision ||
                 tableColumn.scale !== columnMetadata.scale ||
                 // || tableColumn.comment !== columnMetadata.comment || // todo
-                tableColumn.isGenerated !== columnMetadata.isGenerated ||
+                tableColumn.isGenerated !==
+                    (columnMetadata.isGenerated &&
+                        columnMetadata.generationStrategy !== "sequence") || // sequence defaults are compared as regular defaults
                 (!tableColumn.isGenerated &&
                     this.lowerDefaultValueIfNecessary(
                         this.normalizeDefault(columnMetadata),
@@ -1,5 +1,7 @@
 import { ObjectLiteral } from "../../common/ObjectLiteral"
 import { QueryResult } from "../../query-runner/QueryResult"
+import { ProcedureParameter } from "../../query-runner/ProcedureParameter"
+import { ProcedureResult } from "../../query-runner/ProcedureResult"
 import { QueryFailedError } from "../../error/QueryFailedError"
 import { QueryRunnerAlreadyReleasedError } from "../../error/QueryRunnerAlreadyReleasedError"
 import { TransactionNotStartedError } from "../../error/TransactionNotStartedError"
@@ -12,6 +14,10 @@ import { Table } from "../../schema-builder/table/Table"
 import { TableCheck } from "../../schema-builder/table/TableCheck"
 import { TableColumn } from "../../schema-builder/table/TableColumn"
 import { TableExclusion } from "../../schema-builder/table/TableExclusion"
+import { TablePartition } from "../../schema-builder/table/TablePartition"
+import { TableTrigger } from "../../schema-builder/table/TableTrigger"
+import { TableSequence } from "../../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../../schema-builder/function/DatabaseFunction"
 import { TableForeignKey } from "../../schema-builder/table/TableForeignKey"
 import { TableIndex } from "../../schema-builder/table/TableIndex"
 import { TableUnique } from "../../schema-builder/table/TableUnique"
@@ -107,6 +113,10 @@ export class SqlServerQueryRunner
             }
 
             if (this.transactionDepth === 0) {
+                this.connection.instrumentationContext.startTransactionSpan(
+                    this,
+                    isolationLevel,
+                )
                 this.transactionDepth += 1
                 const pool = await (this.mode === "slave"
                     ? this.driver.obtainSlaveConnection()
@@ -153,6 +163,10 @@ export class SqlServerQueryRunner
                 this.databaseConnection.commit(async (err: any) => {
                     if (err) return fail(err)
                     this.isTransactionActive = false
+                    this.connection.instrumentationContext.endTransactionSpan(
+                        this,
+                        "commit",
+                    )
                     this.databaseConnection = null
 
                     await this.broadcaster.broadcast("AfterTransactionCommit")
@@ -187,6 +201,10 @@ export class SqlServerQueryRunner
                 this.databaseConnection.rollback(async (err: any) => {
                     if (err) return fail(err)
                     this.isTransactionActive = false
+                    this.connection.instrumentationContext.endTransactionSpan(
+                        this,
+                        "rollback",
+                    )
                     this.databaseConnection = null
 
                     await this.broadcaster.broadcast("AfterTransactionRollback")
@@ -205,19 +223,32 @@ export class SqlServerQueryRunner
         query: string,
         parameters?: any[],
         useStructuredResult = false,
+        redactedParameters?: any[],
     ): Promise<any> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
+        const loggedParameters = redactedParameters ?? parameters
+
         const release = await this.lock.acquire()
 
         const broadcasterResult = new BroadcasterResult()
 
+        const span =
+            this.driver.connection.instrumentationContext.startQuerySpan(
+                query,
+                this,
+            )
+        let queryError: any
         try {
-            this.driver.connection.logger.logQuery(query, parameters, this)
+            this.driver.connection.logger.logQuery(
+                query,
+                loggedParameters,
+                this,
+            )
             this.broadcaster.broadcastBeforeQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                loggedParameters,
             )
 
             const pool = await (this.mode === "slave"
@@ -247,6 +278,7 @@ export class SqlServerQueryRunner
                 })
             }
             const queryStartTime = +new Date()
+            let queryExecutionTime = 0
 
             const raw = await new Promise<any>((ok, fail) => {
                 request.query(query, (err: any, raw: any) => {
@@ -254,12 +286,12 @@ export class SqlServerQueryRunner
                     const maxQueryExecutionTime =
                         this.driver.options.maxQueryExecutionTime
                     const queryEndTime = +new Date()
-                    const queryExecutionTime = queryEndTime - queryStartTime
+                    queryExecutionTime = queryEndTime - queryStartTime
 
                     this.broadcaster.broadcastAfterQueryEvent(
                         broadcasterResult,
                         query,
-                        parameters,
+                        loggedParameters,
                         true,
                         queryExecutionTime,
                         raw,
@@ -273,19 +305,34 @@ export class SqlServerQueryRunner
                         this.driver.connection.logger.logQuerySlow(
                             queryExecutionTime,
                             query,
-                            parameters,
+                            loggedParameters,
                             this,
                         )
                     }
 
                     if (err) {
-                        fail(new QueryFailedError(query, parameters, err))
+                        return fail(
+                            new QueryFailedError(
+                                query,
+                                parameters,
+                                err,
+                                redactedParameters,
+                            ),
+                        )
                     }
 
                     ok(raw)
                 })
             })
 
+            this.driver.connection.logger.logQueryExecuted?.(
+                queryExecutionTime,
+                query,
+                loggedParameters,
+                raw?.rowsAffected?.[0],
+                this,
+            )
+
             const result = new QueryResult()
 
             if (raw?.hasOwnProperty("recordset")) {
@@ -311,17 +358,157 @@ export class SqlServerQueryRunner
             } else {
                 return result.raw
             }
+        } catch (err) {
+            queryError = err
+            this.driver.connection.logger.logQueryError(
+                err,
+                query,
+                loggedParameters,
+                this,
+            )
+            this.broadcaster.broadcastAfterQueryEvent(
+                broadcasterResult,
+                query,
+                loggedParameters,
+                false,
+                undefined,
+                undefined,
+                err,
+            )
+
+            throw err
+        } finally {
+            span.end(queryError)
+            await broadcasterResult.wait()
+
+            release()
+        }
+    }
+
+    /**
+     * Calls a stored procedure with the given parameters.
+     * SQL Server procedures are called by the driver, so all parameters must be named.
+     */
+    async callProcedure(
+        name: string,
+        parameters: ProcedureParameter[] = [],
+    ): Promise<ProcedureResult> {
+        if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
+
+        for (const parameter of parameters) {
+            if (!parameter.name)
+                throw new TypeORMError(
+                    `Parameters of stored procedure "${name}" must be named.`,
+                )
+            if (parameter.mode && parameter.mode !== "IN" && !parameter.type)
+                throw new TypeORMError(
+                    `Output parameter "${parameter.name}" of stored procedure "${name}" must declare its type.`,
+                )
+        }
+
+        const parameterNames = parameters.map((parameter) =>
+            parameter.name!.startsWith("@")
+                ? parameter.name!.slice(1)
+                : parameter.name!,
+        )
+        const query = `EXEC ${this.escapePath(name)} ${parameters
+            .map(
+                (parameter, index) =>
+                    `@${parameterNames[index]} = @${parameterNames[index]}${
+                        parameter.mode && parameter.mode !== "IN"
+                            ? " OUTPUT"
+                            : ""
+                    }`,
+            )
+            .join(", ")}`.trim()
+        const values = parameters.map((parameter) => parameter.value)
+
+        const release = await this.lock.acquire()
+
+        const broadcasterResult = new BroadcasterResult()
+
+        try {
+            this.driver.connection.logger.logQuery(query, values, this)
+            this.broadcaster.broadcastBeforeQueryEvent(
+                broadcasterResult,
+                query,
+                values,
+            )
+
+            const pool = await (this.mode === "slave"
+                ? this.driver.obtainSlaveConnection()
+                : this.driver.obtainMasterConnection())
+            const request = new this.driver.mssql.Request(
+                this.isTransactionActive ? this.databaseConnection : pool,
+            )
+            parameters.forEach((parameter, index) => {
+                const nativeType = parameter.type
+                    ? this.mssqlParameterToNativeParameter(
+                          new MssqlParameter(
+                              parameter.value,
+                              parameter.type as any,
+                          ),
+                      )
+                    : undefined
+                if (parameter.mode && parameter.mode !== "IN") {
+                    request.output(
+                        parameterNames[index],
+                        nativeType,
+                        parameter.value,
+                    )
+                } else if (nativeType) {
+                    request.input(
+                        parameterNames[index],
+                        nativeType,
+                        parameter.value,
+                    )
+                } else {
+                    request.input(parameterNames[index], parameter.value)
+                }
+            })
+            const queryStartTime = +new Date()
+
+            const raw = await new Promise<any>((ok, fail) => {
+                request.execute(name, (err: any, raw: any) => {
+                    const queryExecutionTime = +new Date() - queryStartTime
+
+                    this.broadcaster.broadcastAfterQueryEvent(
+                        broadcasterResult,
+                        query,
+                        values,
+                        true,
+                        queryExecutionTime,
+                        raw,
+                        undefined,
+                    )
+
+                    if (err) {
+                        return fail(new QueryFailedError(query, values, err))
+                    }
+
+                    ok(raw)
+                })
+            })
+
+            const procedureResult = new ProcedureResult()
+            procedureResult.resultSets = raw.recordsets || []
+            parameters.forEach((parameter, index) => {
+                if (parameter.mode && parameter.mode !== "IN")
+                    procedureResult.outputs[parameter.name!] =
+                        raw.output[parameterNames[index]]
+            })
+            return procedureResult
         } catch (err) {
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                values,
                 this,
             )
             this.broadcaster.broadcastAfterQueryEvent(
                 broadcasterResult,
                 query,
-                parameters,
+                values,
                 false,
                 undefined,
                 undefined,
@@ -344,12 +531,17 @@ export class SqlServerQueryRunner
         parameters?: any[],
         onEnd?: Function,
         onError?: Function,
+        redactedParameters?: any[],
     ): Promise<ReadStream> {
         if (this.isReleased) throw new QueryRunnerAlreadyReleasedError()
 
         const release = await this.lock.acquire()
 
-        this.driver.connection.logger.logQuery(query, parameters, this)
+        this.driver.connection.logger.logQuery(
+            query,
+            redactedParameters ?? parameters,
+            this,
+        )
         const pool = await (this.mode === "slave"
             ? this.driver.obtainSlaveConnection()
             : this.driver.obtainMasterConnection())
@@ -380,7 +572,7 @@ export class SqlServerQueryRunner
             this.driver.connection.logger.logQueryError(
                 err,
                 query,
-                parameters,
+                redactedParameters ?? parameters,
                 this,
             )
         })
@@ -637,6 +829,11 @@ export class SqlServerQueryRunner
             })
         }
 
+        table.triggers.forEach((trigger) => {
+            upQueries.push(this.createTriggerSql(table, trigger))
+            downQueries.push(this.dropTriggerSql(table, trigger))
+        })
+
         // if table have column with generated type, we must add the expression to the metadata table
         const generatedColumns = table.columns.filter(
             (column) => column.generatedType && column.asExpression,
@@ -712,6 +909,11 @@ export class SqlServerQueryRunner
                 upQueries.push(this.dropForeignKeySql(table, foreignKey)),
             )
 
+        table.triggers.forEach((trigger) => {
+            upQueries.push(this.dropTriggerSql(table, trigger))
+            downQueries.push(this.createTriggerSql(table, trigger))
+        })
+
         upQueries.push(this.dropTableSql(table))
         downQueries.push(this.createTableSql(table, createForeignKeys))
 
@@ -1262,7 +1464,8 @@ export class SqlServerQueryRunner
 
         if (
             (newColumn.isGenerated !== oldColumn.isGenerated &&
-                newColumn.generationStrategy !== "uuid") ||
+                newColumn.generationStrategy !== "uuid" &&
+                newColumn.generationStrategy !== "sequence") ||
             newColumn.type !== oldColumn.type ||
             newColumn.length !== oldColumn.length ||
             newColumn.asExpression !== oldColumn.asExpression ||
@@ -2451,6 +2654,247 @@ export class SqlServerQueryRunner
         )
     }
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    async createPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `SqlServer driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Drops a partition of the partitioned table.
+     */
+    async dropPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `SqlServer driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     */
+    async attachPartition(
+        tableOrName: Table | string,
+        partition: TablePartition,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `SqlServer driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Detaches a partition from the partitioned table.
+     */
+    async detachPartition(
+        tableOrName: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void> {
+        throw new TypeORMError(
+            `SqlServer driver does not support table partitioning.`,
+        )
+    }
+
+    /**
+     * Creates a new trigger.
+     */
+    async createTrigger(
+        tableOrName: Table | string,
+        trigger: TableTrigger,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+
+        const up = this.createTriggerSql(table, trigger)
+        const down = this.dropTriggerSql(table, trigger)
+        await this.executeQueries(up, down)
+        table.addTrigger(trigger)
+    }
+
+    /**
+     * Drops a trigger.
+     */
+    async dropTrigger(
+        tableOrName: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void> {
+        const table = InstanceChecker.isTable(tableOrName)
+            ? tableOrName
+            : await this.getCachedTable(tableOrName)
+        const trigger = InstanceChecker.isTableTrigger(triggerOrName)
+            ? triggerOrName
+            : table.triggers.find((t) => t.name === triggerOrName)
+        if (!trigger)
+            throw new TypeORMError(
+                `Supplied trigger was not found in table ${table.name}`,
+            )
+
+        const up = this.dropTriggerSql(table, trigger)
+        const down = this.createTriggerSql(table, trigger)
+        await this.executeQueries(up, down)
+        table.removeTrigger(trigger)
+    }
+
+    /**
+     * Creates a new sequence.
+     */
+    async createSequence(
+        sequence: TableSequence,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        upQueries.push(this.createSequenceSql(sequence))
+        if (syncWithMetadata)
+            upQueries.push(await this.insertSequenceDefinitionSql(sequence))
+        downQueries.push(this.dropSequenceSql(sequence))
+        if (syncWithMetadata)
+            downQueries.push(await this.deleteSequenceDefinitionSql(sequence))
+        await this.executeQueries(upQueries, downQueries)
+    }
+
+    /**
+     * Changes options of the sequence.
+     * Start value is not changed, since restarting the existing sequence would reuse already generated values.
+     */
+    async alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void> {
+        const oldSequence = InstanceChecker.isTableSequence(oldSequenceOrName)
+            ? oldSequenceOrName
+            : await this.getCachedSequence(oldSequenceOrName)
+
+        const upQueries: Query[] = [this.alterSequenceSql(newSequence)]
+        const downQueries: Query[] = [this.alterSequenceSql(oldSequence)]
+        await this.executeQueries(upQueries, downQueries)
+
+        const index = this.loadedSequences.indexOf(oldSequence)
+        if (index !== -1) this.loadedSequences[index] = newSequence.clone()
+    }
+
+    /**
+     * Drops a sequence.
+     */
+    async dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const sequence = InstanceChecker.isTableSequence(sequenceOrName)
+            ? sequenceOrName
+            : await this.getCachedSequence(sequenceOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata)
+            upQueries.push(await this.deleteSequenceDefinitionSql(sequence))
+        upQueries.push(this.dropSequenceSql(sequence))
+        if (syncWithMetadata)
+            downQueries.push(await this.insertSequenceDefinitionSql(sequence))
+        downQueries.push(this.createSequenceSql(sequence))
+        await this.executeQueries(upQueries, downQueries)
+
+        this.loadedSequences = this.loadedSequences.filter(
+            (loadedSequence) => loadedSequence.name !== sequence.name,
+        )
+    }
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    async createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        upQueries.push(this.createFunctionSql(fn))
+        if (syncWithMetadata)
+            upQueries.push(await this.insertFunctionDefinitionSql(fn))
+        downQueries.push(this.dropFunctionSql(fn))
+        if (syncWithMetadata)
+            downQueries.push(await this.deleteFunctionDefinitionSql(fn))
+        await this.executeQueries(upQueries, downQueries)
+    }
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     * Function is recreated if its signature was changed.
+     */
+    async changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const oldFunction = InstanceChecker.isDatabaseFunction(
+            oldFunctionOrName,
+        )
+            ? oldFunctionOrName
+            : await this.getCachedFunction(oldFunctionOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata) {
+            upQueries.push(await this.deleteFunctionDefinitionSql(oldFunction))
+            downQueries.push(
+                await this.insertFunctionDefinitionSql(oldFunction),
+            )
+        }
+        if (oldFunction.isSameSignature(newFunction)) {
+            upQueries.push(this.createFunctionSql(newFunction, true))
+            downQueries.push(this.createFunctionSql(oldFunction, true))
+        } else {
+            upQueries.push(this.dropFunctionSql(oldFunction))
+            downQueries.push(this.createFunctionSql(oldFunction))
+            upQueries.push(this.createFunctionSql(newFunction))
+            downQueries.push(this.dropFunctionSql(newFunction))
+        }
+        if (syncWithMetadata) {
+            upQueries.push(await this.insertFunctionDefinitionSql(newFunction))
+            downQueries.push(
+                await this.deleteFunctionDefinitionSql(newFunction),
+            )
+        }
+        await this.executeQueries(upQueries, downQueries)
+
+        const index = this.loadedFunctions.indexOf(oldFunction)
+        if (index !== -1) this.loadedFunctions[index] = newFunction.clone()
+    }
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    async dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata: boolean = false,
+    ): Promise<void> {
+        const fn = InstanceChecker.isDatabaseFunction(functionOrName)
+            ? functionOrName
+            : await this.getCachedFunction(functionOrName)
+
+        const upQueries: Query[] = []
+        const downQueries: Query[] = []
+        if (syncWithMetadata)
+            upQueries.push(await this.deleteFunctionDefinitionSql(fn))
+        upQueries.push(this.dropFunctionSql(fn))
+        if (syncWithMetadata)
+            downQueries.push(await this.insertFunctionDefinitionSql(fn))
+        downQueries.push(this.createFunctionSql(fn))
+        await this.executeQueries(upQueries, downQueries)
+
+        this.loadedFunctions = this.loadedFunctions.filter(
+            (loadedFunction) => loadedFunction.name !== fn.name,
+        )
+    }
+
     /**
      * Creates a new foreign key.
      */
@@ -2650,6 +3094,13 @@ export class SqlServerQueryRunner
                 }),
             )
 
+            // functions and procedures created by TypeORM are read before the metadata table is dropped,
+            // metadata table keeps functions of the current database only
+            const functions =
+                !database || database === (await this.getCurrentDatabase())
+                    ? await this.loadFunctions()
+                    : []
+
             let allTablesSql = database
                 ? `SELECT * FROM "${database}"."INFORMATION_SCHEMA"."TABLES" WHERE "TABLE_TYPE" = 'BASE TABLE'`
                 : `SELECT * FROM "INFORMATION_SCHEMA"."TABLES" WHERE "TABLE_TYPE" = 'BASE TABLE'`
@@ -2734,6 +3185,26 @@ export class SqlServerQueryRunner
                 )
             }
 
+            const allSequencesSql = database
+                ? `SELECT "s"."name" AS "SEQUENCE_NAME", "sc"."name" AS "SEQUENCE_SCHEMA" FROM "${database}"."sys"."sequences" "s" INNER JOIN "${database}"."sys"."schemas" "sc" ON "sc"."schema_id" = "s"."schema_id"`
+                : `SELECT "s"."name" AS "SEQUENCE_NAME", "sc"."name" AS "SEQUENCE_SCHEMA" FROM "sys"."sequences" "s" INNER JOIN "sys"."schemas" "sc" ON "sc"."schema_id" = "s"."schema_id"`
+            const allSequencesResults: ObjectLiteral[] = await this.query(
+                allSequencesSql,
+            )
+
+            await Promise.all(
+                allSequencesResults.map((sequenceResult) => {
+                    const dropSequenceSql = database
+                        ? `DROP SEQUENCE "${database}"."${sequenceResult["SEQUENCE_SCHEMA"]}"."${sequenceResult["SEQUENCE_NAME"]}"`
+                        : `DROP SEQUENCE "${sequenceResult["SEQUENCE_SCHEMA"]}"."${sequenceResult["SEQUENCE_NAME"]}"`
+                    return this.query(dropSequenceSql)
+                }),
+            )
+
+            for (const fn of functions) {
+                await this.query(this.dropFunctionSql(fn).query)
+            }
+
             if (!isAnotherTransactionActive) await this.commitTransaction()
         } catch (error) {
             try {
@@ -2817,6 +3288,116 @@ export class SqlServerQueryRunner
         })
     }
 
+    /**
+     * Loads sequences created by TypeORM (with given names) from the current database.
+     */
+    protected async loadSequences(
+        sequenceNames?: string[],
+    ): Promise<TableSequence[]> {
+        const hasTable = await this.hasTable(this.getTypeormMetadataTableName())
+        if (!hasTable) {
+            return []
+        }
+
+        const currentSchema = await this.getCurrentSchema()
+        const sequencesCondition =
+            !sequenceNames || sequenceNames.length === 0
+                ? "1=1"
+                : sequenceNames
+                      .map((sequenceName) => {
+                          let { schema, tableName: name } =
+                              this.driver.parseTableName(sequenceName)
+
+                          if (!schema) {
+                              schema = currentSchema
+                          }
+                          return `("T"."SCHEMA" = '${schema}' AND "T"."NAME" = '${name}')`
+                      })
+                      .join(" OR ")
+
+        const query =
+            `SELECT "T"."schema" AS "schema", "T"."name" AS "name", ` +
+            `CAST("S"."start_value" AS bigint) AS "start_value", CAST("S"."increment" AS bigint) AS "increment", ` +
+            `CAST("S"."minimum_value" AS bigint) AS "minimum_value", CAST("S"."maximum_value" AS bigint) AS "maximum_value", ` +
+            `"S"."is_cycling", "S"."is_cached", "S"."cache_size" ` +
+            `FROM ${this.escapePath(this.getTypeormMetadataTableName())} "T" ` +
+            `INNER JOIN "sys"."sequences" "S" ON SCHEMA_NAME("S"."schema_id") = "T"."SCHEMA" AND "S"."name" = "T"."NAME" ` +
+            `WHERE "T"."TYPE" = '${MetadataTableType.SEQUENCE}' AND (${sequencesCondition})`
+
+        const dbSequences: ObjectLiteral[] = await this.query(query)
+        return dbSequences.map((dbSequence) => {
+            const schema =
+                dbSequence["schema"] === currentSchema &&
+                !this.driver.options.schema
+                    ? undefined
+                    : dbSequence["schema"]
+
+            return new TableSequence({
+                name: this.driver.buildTableName(dbSequence["name"], schema),
+                start: Number(dbSequence["start_value"]),
+                increment: Number(dbSequence["increment"]),
+                minValue: Number(dbSequence["minimum_value"]),
+                maxValue: Number(dbSequence["maximum_value"]),
+                cycle: dbSequence["is_cycling"] === true,
+                cache:
+                    dbSequence["cache_size"] !== null &&
+                    dbSequence["cache_size"] !== undefined
+                        ? Number(dbSequence["cache_size"])
+                        : undefined,
+            })
+        })
+    }
+
+    /**
+     * Loads functions and stored procedures created by TypeORM (with given names) from the current database.
+     */
+    protected async loadFunctions(
+        functionNames?: string[],
+    ): Promise<DatabaseFunction[]> {
+        const hasTable = await this.hasTable(this.getTypeormMetadataTableName())
+        if (!hasTable) {
+            return []
+        }
+
+        const currentSchema = await this.getCurrentSchema()
+        const functionsCondition =
+            !functionNames || functionNames.length === 0
+                ? "1=1"
+                : functionNames
+                      .map((functionName) => {
+                          let { schema, tableName: name } =
+                              this.driver.parseTableName(functionName)
+
+                          if (!schema) {
+                              schema = currentSchema
+                          }
+                          return `("T"."SCHEMA" = '${schema}' AND "T"."NAME" = '${name}')`
+                      })
+                      .join(" OR ")
+
+        const query =
+            `SELECT "T".* FROM ${this.escapePath(
+                this.getTypeormMetadataTableName(),
+            )} "T" ` +
+            `WHERE "T"."TYPE" IN ('${MetadataTableType.FUNCTION}', '${MetadataTableType.PROCEDURE}') AND (${functionsCondition}) ` +
+            `AND EXISTS (SELECT 1 FROM "sys"."objects" "O" WHERE "O"."name" = "T"."NAME" AND SCHEMA_NAME("O"."schema_id") = "T"."SCHEMA" AND "O"."type" IN ('FN', 'IF', 'TF', 'P'))`
+
+        const dbFunctions: ObjectLiteral[] = await this.query(query)
+        return dbFunctions.map((dbFunction) => {
+            const schema =
+                dbFunction["schema"] === currentSchema &&
+                !this.driver.options.schema
+                    ? undefined
+                    : dbFunction["schema"]
+
+            return this.parseFunctionDefinition(
+                this.driver.buildTableName(dbFunction["name"], schema),
+                dbFunction["type"],
+                dbFunction["value"],
+            )
+        })
+    }
+
     /**
      * Loads all tables (with given names) from the database and creates a Table from them.
      */
@@ -3029,6 +3610,29 @@ export class SqlServerQueryRunner
             })
             .join(" UNION ALL ")
 
+        // each trigger event is returned as a separate row
+        const triggersSql = Object.entries(dbTablesByCatalog)
+            .map(([TABLE_CATALOG, tables]) => {
+                const conditions = tables
+                    .map(
+                        ({ TABLE_NAME, TABLE_SCHEMA }) =>
+                            `("s"."name" = '${TABLE_SCHEMA}' AND "t"."name" = '${TABLE_NAME}')`,
+                    )
+                    .join(" OR ")
+
+                return (
+                    `SELECT '${TABLE_CATALOG}' AS "TABLE_CATALOG", "s"."name" AS "TABLE_SCHEMA", "t"."name" AS "TABLE_NAME", ` +
+                    `"tr"."name" AS "TRIGGER_NAME", "tr"."is_instead_of_trigger" AS "IS_INSTEAD_OF", "te"."type_desc" AS "EVENT", "m"."definition" AS "DEFINITION" ` +
+                    `FROM "${TABLE_CATALOG}"."sys"."triggers" "tr" ` +
+                    `INNER JOIN "${TABLE_CATALOG}"."sys"."trigger_events" "te" ON "te"."object_id" = "tr"."object_id" ` +
+                    `INNER JOIN "${TABLE_CATALOG}"."sys"."sql_modules" "m" ON "m"."object_id" = "tr"."object_id" ` +
+                    `INNER JOIN "${TABLE_CATALOG}"."sys"."tables" "t" ON "t"."object_id" = "tr"."parent_id" ` +
+                    `INNER JOIN "${TABLE_CATALOG}"."sys"."schemas" "s" ON "s"."schema_id" = "t"."schema_id" ` +
+                    `WHERE (${conditions})`
+                )
+            })
+            .join(" UNION ALL ")
+
         const [
             dbColumns,
             dbConstraints,
@@ -3036,6 +3640,7 @@ export class SqlServerQueryRunner
             dbIdentityColumns,
             dbCollations,
             dbIndices,
+            dbTriggers,
         ]: ObjectLiteral[][] = await Promise.all([
             this.query(columnsSql),
             this.query(constraintsSql),
@@ -3043,6 +3648,7 @@ export class SqlServerQueryRunner
             this.query(identityColumnsSql),
             this.query(dbCollationsSql),
             this.query(indicesSql),
+            this.query(triggersSql),
         ])
 
         // create table schemas for loaded tables
@@ -3307,6 +3913,21 @@ export class SqlServerQueryRunner
                                 tableColumn.default = undefined
                             }
 
+                            // sequence defaults are printed with the schema, even if it was omitted on creation
+                            const currentSchemaSequencePrefix = `NEXT VALUE FOR [${currentSchema}].`
+                            if (
+                                tableColumn.default &&
+                                tableColumn.default.startsWith(
+                                    currentSchemaSequencePrefix,
+                                )
+                            ) {
+                                tableColumn.default =
+                                    "NEXT VALUE FOR " +
+                                    tableColumn.default.substring(
+                                        currentSchemaSequencePrefix.length,
+                                    )
+                            }
+
                             // todo: unable to get default charset
                             // tableColumn.charset = dbColumn["CHARACTER_SET_NAME"];
                             if (dbColumn["COLLATION_NAME"])
@@ -3519,6 +4140,40 @@ export class SqlServerQueryRunner
                     })
                 })
 
+                // find triggers of table, group them by trigger name and build TableTrigger.
+                const tableTriggers = dbTriggers.filter(
+                    (dbTrigger) =>
+                        dbTrigger["TABLE_NAME"] === dbTable["TABLE_NAME"] &&
+                        dbTrigger["TABLE_SCHEMA"] === dbTable["TABLE_SCHEMA"] &&
+                        dbTrigger["TABLE_CATALOG"] === dbTable["TABLE_CATALOG"],
+                )
+
+                table.triggers = OrmUtils.uniq(
+                    tableTriggers,
+                    (dbTrigger) => dbTrigger["TRIGGER_NAME"],
+                ).map((dbTrigger) => {
+                    // trigger body is everything after the AS keyword following trigger events
+                    const bodyMatch =
+                        /\b(?:FOR|AFTER|INSTEAD\s+OF)\s+(?:INSERT|UPDATE|DELETE)(?:\s*,\s*(?:INSERT|UPDATE|DELETE))*\s+(?:NOT\s+FOR\s+REPLICATION\s+)?AS\s+([\s\S]*)$/i.exec(
+                            dbTrigger["DEFINITION"],
+                        )
+                    return new TableTrigger({
+                        name: dbTrigger["TRIGGER_NAME"],
+                        timing: dbTrigger["IS_INSTEAD_OF"]
+                            ? "INSTEAD OF"
+                            : "AFTER",
+                        events: tableTriggers
+                            .filter(
+                                (t) =>
+                                    t["TRIGGER_NAME"] ===
+                                    dbTrigger["TRIGGER_NAME"],
+                            )
+                            .map((t) => t["EVENT"]),
+                        level: "STATEMENT",
+                        body: bodyMatch ? bodyMatch[1] : undefined,
+                    })
+                })
+
                 return table
             }),
         )
@@ -3644,6 +4299,51 @@ export class SqlServerQueryRunner
         return new Query(sql)
     }
 
+    /**
+     * Builds create trigger sql.
+     */
+    protected createTriggerSql(table: Table, trigger: TableTrigger): Query {
+        if (trigger.timing === "BEFORE")
+            throw new TypeORMError(
+                `SqlServer does not support BEFORE triggers, use AFTER or INSTEAD OF.`,
+            )
+        if (trigger.level !== "STATEMENT")
+            throw new TypeORMError(
+                `SqlServer supports only statement level triggers.`,
+            )
+        if (!trigger.body)
+            throw new TypeORMError(
+                `SqlServer triggers must have a body, executing functions is not supported.`,
+            )
+
+        return new Query(
+            `CREATE TRIGGER ${this.getTriggerPath(
+                table,
+                trigger,
+            )} ON ${this.escapePath(table)} ${
+                trigger.timing
+            } ${trigger.events.join(", ")} AS ${trigger.body}`,
+        )
+    }
+
+    /**
+     * Builds drop trigger sql.
+     */
+    protected dropTriggerSql(table: Table, trigger: TableTrigger): Query {
+        return new Query(`DROP TRIGGER ${this.getTriggerPath(table, trigger)}`)
+    }
+
+    /**
+     * Escapes path of the trigger, which resides in the schema of the table.
+     * Triggers can not be created in another database.
+     */
+    protected getTriggerPath(table: Table, trigger: TableTrigger): string {
+        const { schema } = this.driver.parseTableName(table)
+        return this.escapePath(
+            schema ? `${schema}.${trigger.name}` : trigger.name,
+        )
+    }
+
     /**
      * Builds drop table sql.
      */
@@ -3860,6 +4560,184 @@ export class SqlServerQueryRunner
         )
     }
 
+    /**
+     * Builds create sequence sql.
+     */
+    protected createSequenceSql(sequence: TableSequence): Query {
+        let sql = `CREATE SEQUENCE ${this.escapePath(sequence.name)}`
+        if (sequence.start !== undefined) sql += ` START WITH ${sequence.start}`
+        sql += this.buildSequenceOptionsSql(sequence)
+        return new Query(sql)
+    }
+
+    /**
+     * Builds alter sequence sql changing sequence options to the options of the given sequence.
+     */
+    protected alterSequenceSql(sequence: TableSequence): Query {
+        return new Query(
+            `ALTER SEQUENCE ${this.escapePath(
+                sequence.name,
+            )}${this.buildSequenceOptionsSql(sequence)}`,
+        )
+    }
+
+    /**
+     * Builds options of the sequence shared by create and alter sequence sql.
+     * Options not set on the given sequence are left to the database defaults.
+     */
+    protected buildSequenceOptionsSql(sequence: TableSequence): string {
+        let sql = ""
+        if (sequence.increment !== undefined)
+            sql += ` INCREMENT BY ${sequence.increment}`
+        if (sequence.minValue !== undefined)
+            sql += ` MINVALUE ${sequence.minValue}`
+        if (sequence.maxValue !== undefined)
+            sql += ` MAXVALUE ${sequence.maxValue}`
+        if (sequence.cache !== undefined) sql += ` CACHE ${sequence.cache}`
+        sql += sequence.cycle ? ` CYCLE` : ` NO CYCLE`
+        return sql
+    }
+
+    /**
+     * Builds drop sequence sql.
+     */
+    protected dropSequenceSql(sequence: TableSequence): Query {
+        return new Query(`DROP SEQUENCE ${this.escapePath(sequence.name)}`)
+    }
+
+    /**
+     * Builds sql inserting sequence into typeorm metadata table.
+     */
+    protected async insertSequenceDefinitionSql(
+        sequence: TableSequence,
+    ): Promise<Query> {
+        const parsedTableName = this.driver.parseTableName(sequence.name)
+
+        if (!parsedTableName.schema) {
+            parsedTableName.schema = await this.getCurrentSchema()
+        }
+
+        return this.insertTypeormMetadataSql({
+            type: MetadataTableType.SEQUENCE,
+            schema: parsedTableName.schema,
+            name: parsedTableName.tableName,
+        })
+    }
+
+    /**
+     * Builds sql removing sequence from typeorm metadata table.
+     */
+    protected async deleteSequenceDefinitionSql(
+        sequence: TableSequence,
+    ): Promise<Query> {
+        const parsedTableName = this.driver.parseTableName(sequence.name)
+
+        if (!parsedTableName.schema) {
+            parsedTableName.schema = await this.getCurrentSchema()
+        }
+
+        return this.deleteTypeormMetadataSql({
+            type: MetadataTableType.SEQUENCE,
+            schema: parsedTableName.schema,
+            name: parsedTableName.tableName,
+        })
+    }
+
+    /**
+     * Builds create function sql.
+     * Existing function is altered if "alter" is set.
+     */
+    protected createFunctionSql(
+        fn: DatabaseFunction,
+        alter: boolean = false,
+    ): Query {
+        const parameters = this.buildFunctionParametersSql(fn)
+        let sql = `${alter ? "ALTER" : "CREATE"} ${
+            fn.type === "procedure" ? "PROCEDURE" : "FUNCTION"
+        } ${this.escapePath(fn.name)}`
+        if (fn.type === "procedure") {
+            if (parameters) sql += ` ${parameters}`
+        } else {
+            sql += `(${parameters}) RETURNS ${fn.returns}`
+        }
+        sql += ` AS ${fn.body}`
+        return new Query(sql)
+    }
+
+    /**
+     * Builds drop function sql.
+     */
+    protected dropFunctionSql(fn: DatabaseFunction): Query {
+        return new Query(
+            `DROP ${
+                fn.type === "procedure" ? "PROCEDURE" : "FUNCTION"
+            } ${this.escapePath(fn.name)}`,
+        )
+    }
+
+    /**
+     * Builds parameters list of the function.
+     */
+    protected buildFunctionParametersSql(fn: DatabaseFunction): string {
+        return fn.parameters
+            .map((parameter) => {
+                const name = parameter.name!.startsWith("@")
+                    ? parameter.name
+                    : `@${parameter.name}`
+                const output =
+                    parameter.mode === "OUT" || parameter.mode === "INOUT"
+                        ? " OUTPUT"
+                        : ""
+                return `${name} ${parameter.type}${output}`
+            })
+            .join(", ")
+    }
+
+    /**
+     * Builds sql inserting function into typeorm metadata table.
+     */
+    protected async insertFunctionDefinitionSql(
+        fn: DatabaseFunction,
+    ): Promise<Query> {
+        const parsedTableName = this.driver.parseTableName(fn.name)
+
+        if (!parsedTableName.schema) {
+            parsedTableName.schema = await this.getCurrentSchema()
+        }
+
+        return this.insertTypeormMetadataSql({
+            type:
+                fn.type === "procedure"
+                    ? MetadataTableType.PROCEDURE
+                    : MetadataTableType.FUNCTION,
+            schema: parsedTableName.schema,
+            name: parsedTableName.tableName,
+            value: this.buildFunctionDefinition(fn),
+        })
+    }
+
+    /**
+     * Builds sql removing function from typeorm metadata table.
+     */
+    protected async deleteFunctionDefinitionSql(
+        fn: DatabaseFunction,
+    ): Promise<Query> {
+        const parsedTableName = this.driver.parseTableName(fn.name)
+
+        if (!parsedTableName.schema) {
+            parsedTableName.schema = await this.getCurrentSchema()
+        }
+
+        return this.deleteTypeormMetadataSql({
+            type:
+                fn.type === "procedure"
+                    ? MetadataTableType.PROCEDURE
+                    : MetadataTableType.FUNCTION,
+            schema: parsedTableName.schema,
+            name: parsedTableName.tableName,
+        })
+    }
+
     /**
      * Builds create foreign key sql.
      */
@@ -4035,6 +4913,23 @@ export class SqlServerQueryRunner
                 )
             c += ` CONSTRAINT "${defaultName}" DEFAULT NEWSEQUENTIALID()`
         }
+
+        if (
+            column.isGenerated &&
+            column.generationStrategy === "sequence" &&
+            column.sequenceName &&
+            !column.default
+        ) {
+            // we create named constraint to be able to delete this constraint when column been dropped
+            const defaultName =
+                this.connection.namingStrategy.defaultConstraintName(
+                    table,
+                    column.name,
+                )
+            c += ` CONSTRAINT "${defaultName}" DEFAULT ${this.driver.buildSequenceDefault(
+                column.sequenceName,
+            )}`
+        }
         return c
     }
 
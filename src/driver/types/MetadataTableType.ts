@@ -2,4 +2,7 @@ export enum MetadataTableType {
     VIEW = "VIEW",
     MATERIALIZED_VIEW = "MATERIALIZED_VIEW",
     GENERATED_COLUMN = "GENERATED_COLUMN",
+    SEQUENCE = "SEQUENCE",
+    FUNCTION = "FUNCTION",
+    PROCEDURE = "PROCEDURE",
 }
@@ -0,0 +1,64 @@
+/**
+ * Policy used to select a replica (slave) for the next read.
+ *
+ * - "random" selects a random replica. This is default value.
+ * - "round-robin" selects replicas alternately.
+ * - "weighted" selects a random replica with probability proportional to its weight.
+ * - "least-connections" selects a replica with the smallest number of connections in use.
+ */
+export type ReplicationRoutingPolicy =
+    | "random"
+    | "round-robin"
+    | "weighted"
+    | "least-connections"
+
+/**
+ * Options of routing reads between replicas (slaves) of replicated data sources.
+ */
+export interface ReplicationRoutingOptions {
+    /**
+     * Policy used to select a replica for the next read.
+     * Default value is "random".
+     */
+    readonly policy?: ReplicationRoutingPolicy
+
+    /**
+     * Weights of replicas used by "weighted" policy, in the order of replication slaves.
+     * Replicas without weight have weight 1.
+     */
+    readonly weights?: number[]
+
+    /**
+     * Time in milliseconds after a write during which reads are executed on master,
+     * so that written data can be read before it is replicated.
+     * Writes made in a transaction start it once the transaction is committed.
+     * Disabled by default.
+     */
+    readonly stickyReadsAfterWrite?: number
+
+    /**
+     * Enables health checks of replicas.
+     * Replicas which fail to connect or fail a health check are not used until they recover.
+     * Reads are executed on master if all replicas are evicted.
+     */
+    readonly healthCheck?: {
+        /**
+         * Time in milliseconds between health checks of all replicas.
+         * If not set, replicas are evicted only when they fail to connect.
+         */
+        readonly interval?: number
+
+        /**
+         * Time in milliseconds during which a failing replica is not used.
+         * Replicas also recover once they pass a health check.
+         * Default value is 30000 which is equivalent to 30 seconds.
+         */
+        readonly evictionTime?: number
+
+        /**
+         * Maximum replication lag in milliseconds.
+         * Replicas lagging behind master for longer are evicted by health checks.
+         */
+        readonly maxReplicationLag?: number
+    }
+}
@@ -0,0 +1,16 @@
+import { EntityTarget } from "../common/EntityTarget"
+
+/**
+ * Special options passed to EntityManager#callProcedure method.
+ */
+export interface CallProcedureOptions<Entity> {
+    /**
+     * Entity the result set is mapped onto.
+     */
+    entity?: EntityTarget<Entity>
+
+    /**
+     * Index of the result set mapped onto the entity. Default is 0.
+     */
+    resultSetIndex?: number
+}
@@ -24,6 +24,7 @@ import {
 import { AbstractRepository } from "../repository/AbstractRepository"
 import { QueryRunner } from "../query-runner/QueryRunner"
 import { SelectQueryBuilder } from "../query-builder/SelectQueryBuilder"
+import { EntityMetadata } from "../metadata/EntityMetadata"
 import { QueryDeepPartialEntity } from "../query-builder/QueryPartialEntity"
 import { EntityPersistExecutor } from "../persistence/EntityPersistExecutor"
 import { ObjectId } from "../driver/mongodb/typings"
@@ -38,6 +39,13 @@ import { UpsertOptions } from "../repository/UpsertOptions"
 import { InstanceChecker } from "../util/InstanceChecker"
 import { ObjectLiteral } from "../common/ObjectLiteral"
 import { PickKeysByType } from "../common/PickKeysByType"
+import { FindManyCursorOptions } from "../find-options/FindManyCursorOptions"
+import { CursorPaginationResult } from "../query-builder/result/CursorPaginationResult"
+import { ProcedureParameter } from "../query-runner/ProcedureParameter"
+import { ProcedureResult } from "../query-runner/ProcedureResult"
+import { CallProcedureOptions } from "./CallProcedureOptions"
+import { RawSqlResultsToEntityTransformer } from "../query-builder/transformer/RawSqlResultsToEntityTransformer"
+import { DriverUtils } from "../driver/DriverUtils"
 
 /**
  * Entity manager supposed to work with any entity, automatically find its repository and call its methods,
@@ -174,6 +182,69 @@ export class EntityManager {
         return this.connection.query(query, parameters, this.queryRunner)
     }
 
+    /**
+     * Calls a stored procedure and returns all its result sets and values of OUT and INOUT parameters.
+     * If entity is given, result set is mapped onto the entity.
+     */
+    async callProcedure<Entity extends ObjectLiteral = any>(
+        name: string,
+        parameters: ProcedureParameter[] = [],
+        options: CallProcedureOptions<Entity> = {},
+    ): Promise<ProcedureResult<Entity>> {
+        if (this.queryRunner && this.queryRunner.isReleased)
+            throw new QueryRunnerProviderAlreadyReleasedError()
+
+        const queryRunner =
+            this.queryRunner || this.connection.createQueryRunner()
+
+        try {
+            const result: ProcedureResult<Entity> =
+                await queryRunner.callProcedure(name, parameters)
+            if (!options.entity) return result
+
+            const queryBuilder = this.createQueryBuilder(
+                options.entity,
+                this.connection.getMetadata(options.entity).targetName,
+            )
+            const alias = queryBuilder.expressionMap.mainAlias!
+            const resultSet = result.resultSets[options.resultSetIndex || 0]
+            if (!resultSet || resultSet.length === 0) return result
+
+            // transformer expects columns to be prefixed with the alias name
+            const rawResults = resultSet.map((row) =>
+                Object.keys(row).reduce((rawResult, column) => {
+                    rawResult[
+                        DriverUtils.buildAlias(
+                            this.connection.driver,
+                            undefined,
+                            alias.name,
+                            column,
+                        )
+                    ] = row[column]
+                    return rawResult
+                }, {} as ObjectLiteral),
+            )
+            const transformer = new RawSqlResultsToEntityTransformer(
+                queryBuilder.expressionMap,
+                this.connection.driver,
+                [],
+                [],
+                queryRunner,
+            )
+            result.entities = transformer.transform(rawResults, alias)
+            await queryRunner.broadcaster.broadcast(
+                "Load",
+                alias.metadata,
+                result.entities,
+            )
+            return result
+        } finally {
+            if (!this.queryRunner)
+                // if we used a new query runner provider then release it
+                await queryRunner.release()
+        }
+    }
+
     /**
      * Creates a new query builder that can be used to build a SQL query.
      */
@@ -1105,6 +1176,24 @@ export class EntityManager {
             .getMany()
     }
 
+    /**
+     * Finds a page of entities that match given find options using cursor (keyset) pagination.
+     */
+    async paginate<Entity extends ObjectLiteral>(
+        entityClass: EntityTarget<Entity>,
+        options: FindManyCursorOptions<Entity> = {},
+    ): Promise<CursorPaginationResult<Entity>> {
+        const { first, after, last, before, orderBy, ...findOptions } = options
+        const metadata = this.connection.getMetadata(entityClass)
+        return this.createQueryBuilder<Entity>(
+            entityClass as any,
+            FindOptionsUtils.extractFindManyOptionsAlias(findOptions) ||
+                metadata.name,
+        )
+            .setFindOptions(findOptions)
+            .paginate({ first, after, last, before, orderBy })
+    }
+
     /**
      * Finds entities that match given find options.
      */
@@ -1176,12 +1265,49 @@ export class EntityManager {
         if (!ids.length) return Promise.resolve([])
 
         const metadata = this.connection.getMetadata(entityClass)
-        return this.createQueryBuilder<Entity>(
+
+        // cached entities are served from the cache, only entities missing in the cache are loaded by a query
+        let missingIds = ids
+        let cachedEntities: Entity[] = []
+        if (metadata.cache && !this.queryRunner?.isTransactionActive) {
+            const idMaps = ids.map((id) => metadata.ensureEntityIdMap(id))
+            const identifiers = idMaps.map((idMap) =>
+                this.connection.entityCache.getIdentifier(metadata, idMap),
+            )
+            if (identifiers.every((identifier) => !!identifier)) {
+                const cachedIdMaps: ObjectLiteral[] = []
+                missingIds = []
+                for (const [index, identifier] of identifiers.entries()) {
+                    const isCached = await this.connection.entityCache.isCached(
+                        identifier!,
+                        this.queryRunner,
+                    )
+                    if (isCached) {
+                        cachedIdMaps.push(idMaps[index])
+                    } else {
+                        missingIds.push(ids[index])
+                    }
+                }
+
+                const entities = await Promise.all(
+                    cachedIdMaps.map((idMap) =>
+                        this.findOneBy<Entity>(entityClass, idMap as any),
+                    ),
+                )
+                cachedEntities = entities.filter(
+                    (entity) => entity !== null,
+                ) as Entity[]
+                if (!missingIds.length) return cachedEntities
+            }
+        }
+
+        const loadedEntities = await this.createQueryBuilder<Entity>(
             entityClass as any,
             metadata.name,
         )
-            .andWhereInIds(ids)
+            .andWhereInIds(missingIds)
             .getMany()
+        return [...cachedEntities, ...loadedEntities]
     }
 
     /**
@@ -1207,12 +1333,19 @@ export class EntityManager {
         }
 
         // create query builder and apply find options
-        return this.createQueryBuilder<Entity>(entityClass, alias)
-            .setFindOptions({
-                ...options,
-                take: 1,
-            })
-            .getOne()
+        const qb = this.createQueryBuilder<Entity>(
+            entityClass,
+            alias,
+        ).setFindOptions({
+            ...options,
+            take: 1,
+        })
+
+        // entity cache is used only when entity is found just by its primary keys
+        if (Object.keys(options).every((key) => key === "where"))
+            this.applyEntityCache(qb, metadata, options.where)
+
+        return qb.getOne()
     }
 
     /**
@@ -1226,12 +1359,15 @@ export class EntityManager {
         const metadata = this.connection.getMetadata(entityClass)
 
         // create query builder and apply find options
-        return this.createQueryBuilder<Entity>(entityClass, metadata.name)
-            .setFindOptions({
-                where,
-                take: 1,
-            })
-            .getOne()
+        const qb = this.createQueryBuilder<Entity>(
+            entityClass,
+            metadata.name,
+        ).setFindOptions({
+            where,
+            take: 1,
+        })
+        this.applyEntityCache(qb, metadata, where)
+        return qb.getOne()
     }
 
     /**
@@ -1251,12 +1387,14 @@ export class EntityManager {
         const metadata = this.connection.getMetadata(entityClass)
 
         // create query builder and apply find options
-        return this.createQueryBuilder<Entity>(entityClass, metadata.name)
+        const idMap = metadata.ensureEntityIdMap(id)
+        const qb = this.createQueryBuilder<Entity>(entityClass, metadata.name)
             .setFindOptions({
                 take: 1,
             })
-            .whereInIds(metadata.ensureEntityIdMap(id))
-            .getOne()
+            .whereInIds(idMap)
+        this.applyEntityCache(qb, metadata, idMap)
+        return qb.getOne()
     }
 
     /**
@@ -1531,4 +1669,26 @@ export class EntityManager {
 
         return this.queryRunner.release()
     }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Enables caching of the query loading a single entity by its primary keys, if entity is cached.
+     * Cache is not used inside transactions, since they can see not committed changes.
+     */
+    protected applyEntityCache(
+        qb: SelectQueryBuilder<any>,
+        metadata: EntityMetadata,
+        where: any,
+    ): void {
+        if (this.queryRunner && this.queryRunner.isTransactionActive) return
+
+        const identifier = this.connection.entityCache.getIdentifier(
+            metadata,
+            where,
+        )
+        if (identifier) qb.cache(identifier, metadata.cache!.ttl)
+    }
 }
@@ -8,4 +8,9 @@ export interface EntitySchemaCheckOptions {
      * Check expression.
      */
     expression: string
+
+    /**
+     * Names of the database functions the check expression depends on.
+     */
+    dependsOnFunctions?: string[]
 }
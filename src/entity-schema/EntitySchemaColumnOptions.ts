@@ -33,6 +33,11 @@ export interface EntitySchemaColumnOptions extends SpatialColumnOptions {
      */
     version?: boolean
 
+    /**
+     * Indicates if this column is a tenant column.
+     */
+    tenant?: boolean
+
     /**
      * Indicates if this column is a treeChildrenCount column.
      */
@@ -103,7 +108,12 @@ export interface EntitySchemaColumnOptions extends SpatialColumnOptions {
     /**
      * Specifies if this column will use AUTO_INCREMENT or not (e.g. generated number).
      */
-    generated?: true | "increment" | "uuid" | "rowid"
+    generated?: true | "increment" | "uuid" | "rowid" | "sequence"
+
+    /**
+     * Name of the sequence used by a column generated with "sequence" strategy.
+     */
+    sequenceName?: string
 
     /**
      * Specifies if column's value must be unique or not.
@@ -121,6 +131,11 @@ export interface EntitySchemaColumnOptions extends SpatialColumnOptions {
      */
     comment?: string
 
+    /**
+     * Indicates if values of this column are sensitive and must be masked in logs.
+     */
+    sensitive?: boolean
+
     /**
      * Default database value.
      */
@@ -11,8 +11,12 @@ import { TableType } from "../metadata/types/TableTypes"
 import { EntitySchemaUniqueOptions } from "./EntitySchemaUniqueOptions"
 import { EntitySchemaCheckOptions } from "./EntitySchemaCheckOptions"
 import { EntitySchemaExclusionOptions } from "./EntitySchemaExclusionOptions"
+import { EntitySchemaTriggerOptions } from "./EntitySchemaTriggerOptions"
+import { EntitySchemaSequenceOptions } from "./EntitySchemaSequenceOptions"
 import { EntitySchemaInheritanceOptions } from "./EntitySchemaInheritanceOptions"
 import { EntitySchemaRelationIdOptions } from "./EntitySchemaRelationIdOptions"
+import { EntityPartitioningOptions } from "../decorator/options/EntityPartitioningOptions"
+import { EntityCacheOptions } from "../decorator/options/EntityCacheOptions"
 
 /**
  * Interface for entity metadata mappings stored inside "schemas" instead of models decorated by decorators.
@@ -94,6 +98,16 @@ export class EntitySchemaOptions<T> {
      */
     exclusions?: EntitySchemaExclusionOptions[]
 
+    /**
+     * Entity trigger options.
+     */
+    triggers?: EntitySchemaTriggerOptions[]
+
+    /**
+     * Entity sequence options.
+     */
+    sequences?: EntitySchemaSequenceOptions[]
+
     /**
      * Embedded Entities options
      */
@@ -115,11 +129,26 @@ export class EntitySchemaOptions<T> {
      */
     withoutRowid?: boolean
 
+    /**
+     * Declarative table partitioning. Supported by Postgres and MySQL.
+     */
+    partitioning?: EntityPartitioningOptions
+
+    /**
+     * Enables caching of entities loaded by their primary keys using query result cache.
+     */
+    cache?: boolean | EntityCacheOptions
+
     /**
      * View expression.
      */
     expression?: string | ((connection: DataSource) => SelectQueryBuilder<any>)
 
+    /**
+     * Names of the database functions the view depends on.
+     */
+    dependsOnFunctions?: string[]
+
     /**
      * Inheritance options.
      */
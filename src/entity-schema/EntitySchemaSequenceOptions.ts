@@ -0,0 +1,8 @@
+import { SequenceOptions } from "../decorator/options/SequenceOptions"
+
+export interface EntitySchemaSequenceOptions extends SequenceOptions {
+    /**
+     * Sequence name.
+     */
+    name: string
+}
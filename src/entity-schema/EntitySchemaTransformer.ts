@@ -13,6 +13,8 @@ import { GeneratedMetadataArgs } from "../metadata-args/GeneratedMetadataArgs"
 import { UniqueMetadataArgs } from "../metadata-args/UniqueMetadataArgs"
 import { CheckMetadataArgs } from "../metadata-args/CheckMetadataArgs"
 import { ExclusionMetadataArgs } from "../metadata-args/ExclusionMetadataArgs"
+import { TriggerMetadataArgs } from "../metadata-args/TriggerMetadataArgs"
+import { SequenceMetadataArgs } from "../metadata-args/SequenceMetadataArgs"
 import { EntitySchemaColumnOptions } from "./EntitySchemaColumnOptions"
 import { EntitySchemaOptions } from "./EntitySchemaOptions"
 import { EntitySchemaEmbeddedError } from "./EntitySchemaEmbeddedError"
@@ -48,6 +50,9 @@ export class EntitySchemaTransformer {
                 synchronize: options.synchronize,
                 withoutRowid: !!options.withoutRowid,
                 expression: options.expression,
+                dependsOnFunctions: options.dependsOnFunctions,
+                partitioning: options.partitioning,
+                cache: options.cache,
             }
             metadataArgsStorage.tables.push(tableMetadata)
 
@@ -94,6 +99,7 @@ export class EntitySchemaTransformer {
             if (regularColumn.updateDate) mode = "updateDate"
             if (regularColumn.deleteDate) mode = "deleteDate"
             if (regularColumn.version) mode = "version"
+            if (regularColumn.tenant) mode = "tenant"
             if (regularColumn.treeChildrenCount) mode = "treeChildrenCount"
             if (regularColumn.treeLevel) mode = "treeLevel"
             if (regularColumn.objectId) mode = "objectId"
@@ -117,6 +123,7 @@ export class EntitySchemaTransformer {
                     primary: regularColumn.primary,
                     unique: regularColumn.unique,
                     comment: regularColumn.comment,
+                    sensitive: regularColumn.sensitive,
                     default: regularColumn.default,
                     onUpdate: regularColumn.onUpdate,
                     precision: regularColumn.precision,
@@ -146,6 +153,7 @@ export class EntitySchemaTransformer {
                         typeof regularColumn.generated === "string"
                             ? regularColumn.generated
                             : "increment",
+                    sequenceName: regularColumn.sequenceName,
                 }
                 metadataArgsStorage.generations.push(generationArgs)
             }
@@ -316,6 +324,7 @@ export class EntitySchemaTransformer {
                     target: options.target || options.name,
                     name: check.name,
                     expression: check.expression,
+                    dependsOnFunctions: check.dependsOnFunctions,
                 }
                 metadataArgsStorage.checks.push(checkArgs)
             })
@@ -333,6 +342,40 @@ export class EntitySchemaTransformer {
             })
         }
 
+        // add trigger metadata args from the schema
+        if (options.triggers) {
+            options.triggers.forEach((trigger) => {
+                const triggerArgs: TriggerMetadataArgs = {
+                    target: options.target || options.name,
+                    name: trigger.name,
+                    timing: trigger.timing,
+                    events: trigger.events,
+                    level: trigger.level,
+                    body: trigger.body,
+                    function: trigger.function,
+                }
+                metadataArgsStorage.triggers.push(triggerArgs)
+            })
+        }
+
+        // add sequence metadata args from the schema
+        if (options.sequences) {
+            options.sequences.forEach((sequence) => {
+                const sequenceArgs: SequenceMetadataArgs = {
+                    target: options.target || options.name,
+                    name: sequence.name,
+                    start: sequence.start,
+                    increment: sequence.increment,
+                    minValue: sequence.minValue,
+                    maxValue: sequence.maxValue,
+                    cycle: sequence.cycle,
+                    cache: sequence.cache,
+                    ownedBy: sequence.ownedBy,
+                }
+                metadataArgsStorage.sequences.push(sequenceArgs)
+            })
+        }
+
         if (options.embeddeds) {
             Object.keys(options.embeddeds).forEach((columnName) => {
                 const embeddedOptions = options.embeddeds![columnName]
@@ -0,0 +1,8 @@
+import { TriggerOptions } from "../decorator/options/TriggerOptions"
+
+export interface EntitySchemaTriggerOptions extends TriggerOptions {
+    /**
+     * Trigger name.
+     */
+    name?: string
+}
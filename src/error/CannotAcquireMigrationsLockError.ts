@@ -0,0 +1,16 @@
+import { TypeORMError } from "./TypeORMError"
+
+/**
+ * Thrown when migrations lock could not be acquired within the configured timeout,
+ * usually because migrations are being run by another process.
+ */
+export class CannotAcquireMigrationsLockError extends TypeORMError {
+    constructor(timeout: number, reason?: string) {
+        super(
+            `Cannot acquire migrations lock within ${timeout}ms, ` +
+                `migrations are probably being run by another process. ` +
+                `Wait for it to finish or increase "migrationsLockTimeout" data source option.` +
+                (reason ? ` ${reason}` : ""),
+        )
+    }
+}
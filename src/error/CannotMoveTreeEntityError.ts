@@ -0,0 +1,13 @@
+import { TypeORMError } from "./TypeORMError"
+
+/**
+ * Thrown when user moves tree entity under itself or one of its own descendants.
+ */
+export class CannotMoveTreeEntityError extends TypeORMError {
+    constructor(entityName: string) {
+        super(
+            `Cannot move entity "${entityName}" under itself or one of its descendants, ` +
+                `as it would create a cycle in the tree.`,
+        )
+    }
+}
@@ -1,17 +1,21 @@
 import { Migration } from "../migration/Migration"
+import { Seed } from "../seed/Seed"
 import { TypeORMError } from "./TypeORMError"
 
 /**
- * Thrown when the per-migration transaction mode is overriden but the global transaction mode is set to "all".
+ * Thrown when the per-migration or per-seeder transaction mode is overriden but the global transaction mode is set to "all".
  */
 export class ForbiddenTransactionModeOverrideError extends TypeORMError {
-    constructor(migrationsOverridingTransactionMode: Migration[]) {
+    constructor(
+        migrationsOverridingTransactionMode: (Migration | Seed)[],
+        type: "migration" | "seed" = "migration",
+    ) {
         const migrationNames = migrationsOverridingTransactionMode.map(
             (migration) => `"${migration.name}"`,
         )
 
         super(
-            `Migrations ${migrationNames.join(
+            `${type === "seed" ? "Seeds" : "Migrations"} ${migrationNames.join(
                 ", ",
             )} override the transaction mode, but the global transaction mode is "all"`,
         )
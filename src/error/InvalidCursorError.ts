@@ -0,0 +1,12 @@
+import { TypeORMError } from "./TypeORMError"
+
+/**
+ * Thrown when cursor given to cursor pagination cannot be decoded or does not match pagination order.
+ */
+export class InvalidCursorError extends TypeORMError {
+    constructor(cursor: string) {
+        super(
+            `Cursor "${cursor}" is invalid. Make sure cursor was returned by the query with the same order.`,
+        )
+    }
+}
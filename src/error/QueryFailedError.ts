@@ -5,10 +5,17 @@ import { TypeORMError } from "./TypeORMError"
  * Thrown when query execution has failed.
  */
 export class QueryFailedError<T extends Error = Error> extends TypeORMError {
+    /**
+     * Parameters of the failed query.
+     * Parameters bound to sensitive columns are masked.
+     */
+    readonly parameters: any[] | undefined
+
     constructor(
         readonly query: string,
-        readonly parameters: any[] | undefined,
+        parameters: any[] | undefined,
         readonly driverError: T,
+        redactedParameters?: any[],
     ) {
         super(
             driverError
@@ -18,7 +25,18 @@ export class QueryFailedError<T extends Error = Error> extends TypeORMError {
                 .replace(/^Request/, ""),
         )
 
+        this.parameters = redactedParameters ?? parameters
+
         if (driverError) {
+            // statements formatted by driver (e.g. "sql" of mysql errors) contain parameter values,
+            // so query with placeholders is kept instead when some parameters are sensitive
+            if (redactedParameters) {
+                for (const property of QueryFailedError.formattedQueryProperties) {
+                    if (typeof (driverError as any)[property] === "string")
+                        (driverError as any)[property] = query
+                }
+            }
+
             const {
                 name: _, // eslint-disable-line
                 ...otherProperties
@@ -29,4 +47,9 @@ export class QueryFailedError<T extends Error = Error> extends TypeORMError {
             })
         }
     }
+
+    /**
+     * Properties of driver errors containing the failed query with parameter values.
+     */
+    protected static readonly formattedQueryProperties = ["sql"]
 }
@@ -0,0 +1,19 @@
+import { EntityMetadata } from "../metadata/EntityMetadata"
+import { TypeORMError } from "./TypeORMError"
+
+/**
+ * Thrown when inserted or updated entity belongs to a tenant other than the current one.
+ */
+export class TenantMismatchError extends TypeORMError {
+    constructor(
+        metadata: EntityMetadata,
+        tenantId: any,
+        currentTenantId: any,
+        operation: "insert" | "update" = "insert",
+    ) {
+        super(
+            `Cannot ${operation} "${metadata.name}" entity of tenant "${tenantId}" ` +
+                `in the context of tenant "${currentTenantId}".`,
+        )
+    }
+}
@@ -0,0 +1,15 @@
+import { EntityMetadata } from "../metadata/EntityMetadata"
+import { TypeORMError } from "./TypeORMError"
+
+/**
+ * Thrown when entity with a tenant column is queried outside of a tenant context.
+ */
+export class TenantNotSetError extends TypeORMError {
+    constructor(metadata: EntityMetadata) {
+        super(
+            `Tenant is not set for a query of "${metadata.name}" entity. ` +
+                `Run it in a tenant context using "dataSource.tenantContext.run", ` +
+                `or use "dataSource.tenantContext.runWithoutTenant" to query all tenants.`,
+        )
+    }
+}
@@ -21,6 +21,7 @@ export * from "./PrimaryColumnCannotBeNullableError"
 export * from "./CustomRepositoryCannotInheritRepositoryError"
 export * from "./QueryRunnerProviderAlreadyReleasedError"
 export * from "./CannotAttachTreeChildrenEntityError"
+export * from "./CannotMoveTreeEntityError"
 export * from "./CustomRepositoryDoesNotHaveEntityError"
 export * from "./MissingDeleteDateColumnError"
 export * from "./NoConnectionForRepositoryError"
@@ -60,3 +61,7 @@ export * from "./CannotExecuteNotConnectedError"
 export * from "./NoConnectionOptionError"
 export * from "./TypeORMError"
 export * from "./ForbiddenTransactionModeOverrideError"
+export * from "./CannotAcquireMigrationsLockError"
+export * from "./InvalidCursorError"
+export * from "./TenantNotSetError"
+export * from "./TenantMismatchError"
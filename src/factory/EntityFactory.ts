@@ -0,0 +1,394 @@
+import { DataSource } from "../data-source/DataSource"
+import { EntityTarget } from "../common/EntityTarget"
+import { ObjectLiteral } from "../common/ObjectLiteral"
+import { DeepPartial } from "../common/DeepPartial"
+import { EntityMetadata } from "../metadata/EntityMetadata"
+import { ColumnMetadata } from "../metadata/ColumnMetadata"
+import { RelationMetadata } from "../metadata/RelationMetadata"
+import { EntityManager } from "../entity-manager/EntityManager"
+import { TypeORMError } from "../error/TypeORMError"
+import { OrmUtils } from "../util/OrmUtils"
+
+/**
+ * Generates values of the n-th entity made by a factory.
+ * Sequence starts at 1 and is increased every time an entity is made.
+ */
+export type EntityFactoryDefinition<Entity> = (
+    sequence: number,
+) => DeepPartial<Entity>
+
+/**
+ * Makes entities for tests and seeders.
+ *
+ * Values of columns are generated from column metadata (type, length, enum and nullability)
+ * and can be customized using a definition and overrides.
+ * Many-to-one parents are created automatically and to-many children can be requested using has().
+ *
+ * Generated values are deterministic: the same sequence always produces the same values.
+ */
+export class EntityFactory<Entity extends ObjectLiteral> {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Metadata of the entity made by this factory.
+     */
+    readonly metadata: EntityMetadata
+
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sequence number of the last made entity.
+     */
+    protected sequence: number = 0
+
+    /**
+     * Factories used to make related entities, by relation property path.
+     */
+    protected relationFactories: Map<string, EntityFactory<any>> = new Map()
+
+    /**
+     * Number of children to be made for to-many relations, by relation property path.
+     */
+    protected childrenCounts: Map<string, number> = new Map()
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(
+        readonly dataSource: DataSource,
+        readonly target: EntityTarget<Entity>,
+        // intersection keeps entity type inferred from the target only
+        protected definition?: EntityFactoryDefinition<Entity & {}>,
+    ) {
+        this.metadata = dataSource.getMetadata(target)
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Uses the given factory to make the related entity of a to-one relation.
+     * The related entity is made even if relation would not be filled automatically.
+     */
+    for(relationPropertyPath: string, factory?: EntityFactory<any>): this {
+        const relation = this.findRelation(relationPropertyPath)
+        if (relation.isOneToMany || relation.isManyToMany)
+            throw new TypeORMError(
+                `Relation "${relationPropertyPath}" of "${this.metadata.name}" is a to-many relation, use has() instead.`,
+            )
+
+        this.relationFactories.set(
+            relationPropertyPath,
+            factory ?? this.createRelationFactory(relation),
+        )
+        return this
+    }
+
+    /**
+     * Makes the given number of children for a to-many relation,
+     * optionally using the given factory.
+     */
+    has(
+        relationPropertyPath: string,
+        count: number,
+        factory?: EntityFactory<any>,
+    ): this {
+        const relation = this.findRelation(relationPropertyPath)
+        if (!relation.isOneToMany && !relation.isManyToMany)
+            throw new TypeORMError(
+                `Relation "${relationPropertyPath}" of "${this.metadata.name}" is not a to-many relation, use for() instead.`,
+            )
+
+        this.childrenCounts.set(relationPropertyPath, count)
+        if (factory) this.relationFactories.set(relationPropertyPath, factory)
+        return this
+    }
+
+    /**
+     * Makes a new entity in memory, without saving it.
+     */
+    make(overrides?: DeepPartial<Entity>): Entity {
+        const values = this.makeValues(overrides)
+
+        for (const relation of this.getParentRelations(values)) {
+            relation.setEntityValue(
+                values,
+                this.getRelationFactory(relation).make(),
+            )
+        }
+
+        const entity = this.dataSource.manager.create(
+            this.target,
+            values as DeepPartial<Entity>,
+        )
+
+        for (const [propertyPath, count] of this.childrenCounts) {
+            const relation = this.findRelation(propertyPath)
+            const children = this.getRelationFactory(relation).makeMany(
+                count,
+                this.createInverseOverrides(relation, entity),
+            )
+            relation.setEntityValue(entity, children)
+        }
+
+        return entity
+    }
+
+    /**
+     * Makes the given number of new entities in memory, without saving them.
+     */
+    makeMany(count: number, overrides?: DeepPartial<Entity>): Entity[] {
+        return Array.from({ length: count }, () => this.make(overrides))
+    }
+
+    /**
+     * Makes a new entity and saves it with all its related entities.
+     */
+    async create(
+        overrides?: DeepPartial<Entity>,
+        manager: EntityManager = this.dataSource.manager,
+    ): Promise<Entity> {
+        const values = this.makeValues(overrides)
+
+        for (const relation of this.getParentRelations(values)) {
+            relation.setEntityValue(
+                values,
+                await this.getRelationFactory(relation).create(
+                    undefined,
+                    manager,
+                ),
+            )
+        }
+
+        let entity = await manager.save(
+            manager.create(this.target, values as DeepPartial<Entity>),
+        )
+
+        let hasManyToManyChildren = false
+        for (const [propertyPath, count] of this.childrenCounts) {
+            const relation = this.findRelation(propertyPath)
+            const children = await this.getRelationFactory(relation).createMany(
+                count,
+                this.createInverseOverrides(relation, entity),
+                manager,
+            )
+            relation.setEntityValue(entity, children)
+            if (relation.isManyToMany) hasManyToManyChildren = true
+        }
+
+        // junction rows of many-to-many relations are saved together with the entity
+        if (hasManyToManyChildren) entity = await manager.save(entity)
+
+        return entity
+    }
+
+    /**
+     * Makes the given number of new entities and saves them with all their related entities.
+     */
+    async createMany(
+        count: number,
+        overrides?: DeepPartial<Entity>,
+        manager: EntityManager = this.dataSource.manager,
+    ): Promise<Entity[]> {
+        const entities: Entity[] = []
+        for (let i = 0; i < count; i++) {
+            entities.push(await this.create(overrides, manager))
+        }
+        return entities
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Makes values of the next entity: generated column values,
+     * then values from definition, then given overrides.
+     */
+    protected makeValues(overrides?: DeepPartial<Entity>): ObjectLiteral {
+        const sequence = ++this.sequence
+
+        const generatedValues: ObjectLiteral = {}
+        for (const column of this.metadata.columns) {
+            if (!this.shouldGenerateValue(column)) continue
+
+            const value = this.generateColumnValue(column, sequence)
+            if (value === undefined) continue
+
+            OrmUtils.mergeDeep(generatedValues, column.createValueMap(value))
+        }
+
+        return {
+            ...generatedValues,
+            ...(this.definition ? this.definition(sequence) : {}),
+            ...(overrides ?? {}),
+        }
+    }
+
+    /**
+     * Checks if value of the given column should be generated by the factory.
+     * Columns filled by the database or by the orm itself are skipped, and so are
+     * nullable columns and columns with default values.
+     */
+    protected shouldGenerateValue(column: ColumnMetadata): boolean {
+        if (column.isPrimary && !column.isGenerated && !column.relationMetadata)
+            return true
+
+        return !(
+            column.isGenerated ||
+            column.isNullable ||
+            column.default !== undefined ||
+            column.relationMetadata ||
+            column.isVirtual ||
+            column.isVirtualProperty ||
+            column.isDiscriminator ||
+            column.isTreeLevel ||
+            column.isCreateDate ||
+            column.isUpdateDate ||
+            column.isDeleteDate ||
+            column.isVersion ||
+            column.isObjectId ||
+            column.isNestedSetLeft ||
+            column.isNestedSetRight ||
+            column.isMaterializedPath ||
+            column.asExpression ||
+            !column.isInsert
+        )
+    }
+
+    /**
+     * Generates a valid value for the given column using its type, length and enum.
+     */
+    protected generateColumnValue(
+        column: ColumnMetadata,
+        sequence: number,
+    ): any {
+        if (column.enum && column.enum.length > 0) {
+            const value = column.enum[(sequence - 1) % column.enum.length]
+            return column.isArray ? [value] : value
+        }
+
+        const type = this.dataSource.driver.normalizeType(column).toLowerCase()
+
+        let value: any
+        if (
+            column.generationStrategy === "uuid" ||
+            type === "uuid" ||
+            type === "uniqueidentifier"
+        ) {
+            value = `00000000-0000-4000-8000-${sequence
+                .toString(16)
+                .padStart(12, "0")}`
+        } else if (type === "bigint" || type === "int8") {
+            value = String(sequence)
+        } else if (
+            /^((tiny|small|medium|big)?int(eger)?\d*|(small|big)?serial\d?|dec(imal)?|numeric|number|float\d*|double( precision)?|real|(small)?money)$/.test(
+                type,
+            )
+        ) {
+            value = sequence
+        } else if (/bool|^bit$/.test(type)) {
+            value = sequence % 2 === 1
+        } else if (type === "date") {
+            value = this.generateDate(sequence).toISOString().substr(0, 10)
+        } else if (/^time(?! ?stamp)/.test(type)) {
+            value = "00:00:00"
+        } else if (/date|timestamp/.test(type)) {
+            value = this.generateDate(sequence)
+        } else if (type === "simple-json" || /json/.test(type)) {
+            value = {}
+        } else if (type === "simple-array") {
+            value = []
+        } else if (/blob|binary|bytea|raw|image/.test(type)) {
+            value = Buffer.alloc(0)
+        } else if (/char|text|string|clob|citext/.test(type)) {
+            value = `${column.propertyName} ${sequence}`
+            const length = parseInt(column.length)
+            if (length > 0) value = value.substr(value.length - length)
+        } else {
+            return undefined
+        }
+
+        return column.isArray ? [value] : value
+    }
+
+    /**
+     * Generates a date for the given sequence, one day after each other.
+     */
+    protected generateDate(sequence: number): Date {
+        return new Date(Date.UTC(2000, 0, sequence))
+    }
+
+    /**
+     * Gets to-one relations whose related entity must be made, i.e. many-to-one and
+     * owning one-to-one relations without a given value or relations requested using for().
+     * Relations whose join column values are given (e.g. authorId) are not made.
+     */
+    protected getParentRelations(values: ObjectLiteral): RelationMetadata[] {
+        return this.metadata.relations.filter((relation) => {
+            if (relation.getEntityValue(values) !== undefined) return false
+            if (
+                relation.joinColumns.some(
+                    (column) => column.getEntityValue(values) !== undefined,
+                )
+            )
+                return false
+            if (this.relationFactories.has(relation.propertyPath))
+                return relation.isManyToOne || relation.isOneToOne
+
+            // self-referencing relations would make entities endlessly
+            return (
+                (relation.isManyToOne || relation.isOneToOneOwner) &&
+                relation.inverseEntityMetadata !== this.metadata
+            )
+        })
+    }
+
+    /**
+     * Creates overrides linking children of the to-many relation back to their parent.
+     */
+    protected createInverseOverrides(
+        relation: RelationMetadata,
+        parent: Entity,
+    ): ObjectLiteral | undefined {
+        if (!relation.isOneToMany || !relation.inverseRelation) return undefined
+
+        return relation.inverseRelation.createValueMap(parent)
+    }
+
+    protected getRelationFactory(
+        relation: RelationMetadata,
+    ): EntityFactory<any> {
+        let factory = this.relationFactories.get(relation.propertyPath)
+        if (!factory) {
+            factory = this.createRelationFactory(relation)
+            this.relationFactories.set(relation.propertyPath, factory)
+        }
+        return factory
+    }
+
+    protected createRelationFactory(
+        relation: RelationMetadata,
+    ): EntityFactory<any> {
+        return new EntityFactory(
+            this.dataSource,
+            relation.inverseEntityMetadata.target,
+        )
+    }
+
+    protected findRelation(propertyPath: string): RelationMetadata {
+        const relation =
+            this.metadata.findRelationWithPropertyPath(propertyPath)
+        if (!relation)
+            throw new TypeORMError(
+                `Relation "${propertyPath}" was not found in "${this.metadata.name}".`,
+            )
+        return relation
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * Options used to load a page of entities using cursor (keyset) pagination.
+ */
+export interface CursorPaginationOptions {
+    /**
+     * Number of entities to load after the "after" cursor (or from the beginning).
+     * Cannot be used together with "last".
+     */
+    first?: number
+
+    /**
+     * Cursor of the entity after which entities should be loaded.
+     */
+    after?: string
+
+    /**
+     * Number of entities to load before the "before" cursor (or from the end).
+     * Cannot be used together with "first".
+     */
+    last?: number
+
+    /**
+     * Cursor of the entity before which entities should be loaded.
+     */
+    before?: string
+
+    /**
+     * Entity property paths to order by, e.g. { createdAt: "DESC" }.
+     * Primary columns are always appended to the order to make it stable.
+     * Ordered columns cannot be nullable.
+     */
+    orderBy?: { [propertyPath: string]: "ASC" | "DESC" }
+}
@@ -0,0 +1,12 @@
+import { FindManyOptions } from "./FindManyOptions"
+import { CursorPaginationOptions } from "./CursorPaginationOptions"
+
+/**
+ * Defines a special criteria to find a page of entities using cursor (keyset) pagination.
+ * Order and offset pagination options are replaced by cursor pagination options.
+ */
+export type FindManyCursorOptions<Entity = any> = Omit<
+    FindManyOptions<Entity>,
+    "skip" | "take" | "order"
+> &
+    CursorPaginationOptions
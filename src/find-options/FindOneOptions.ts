@@ -60,7 +60,15 @@ export interface FindOneOptions<Entity = any> {
     /**
      * Enables or disables query result caching.
      */
-    cache?: boolean | number | { id: any; milliseconds: number }
+    cache?:
+        | boolean
+        | number
+        | {
+              id: any
+              milliseconds: number
+              tags?: string[]
+              staleWhileRevalidate?: number
+          }
 
     /**
      * Indicates what locking mode should be used.
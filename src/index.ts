@@ -22,6 +22,7 @@ export * from "./decorator/columns/PrimaryGeneratedColumn"
 export * from "./decorator/columns/PrimaryColumn"
 export * from "./decorator/columns/UpdateDateColumn"
 export * from "./decorator/columns/VersionColumn"
+export * from "./decorator/columns/TenantColumn"
 export * from "./decorator/columns/VirtualColumn"
 export * from "./decorator/columns/ViewColumn"
 export * from "./decorator/columns/ObjectIdColumn"
@@ -43,6 +44,12 @@ export * from "./decorator/options/JoinColumnOptions"
 export * from "./decorator/options/JoinTableOptions"
 export * from "./decorator/options/RelationOptions"
 export * from "./decorator/options/EntityOptions"
+export * from "./decorator/options/EntityPartitioningOptions"
+export * from "./decorator/options/EntityCacheOptions"
+export * from "./decorator/options/CheckOptions"
+export * from "./decorator/options/TriggerOptions"
+export * from "./decorator/options/SequenceOptions"
+export * from "./decorator/options/GeneratedSequenceOptions"
 export * from "./decorator/options/ValueTransformer"
 export * from "./decorator/relations/JoinColumn"
 export * from "./decorator/relations/JoinTable"
@@ -64,6 +71,8 @@ export * from "./decorator/Index"
 export * from "./decorator/Unique"
 export * from "./decorator/Check"
 export * from "./decorator/Exclusion"
+export * from "./decorator/Trigger"
+export * from "./decorator/Sequence"
 export * from "./decorator/Generated"
 export * from "./decorator/EntityRepository"
 export * from "./find-options/operator/And"
@@ -85,7 +94,9 @@ export * from "./find-options/operator/MoreThanOrEqual"
 export * from "./find-options/operator/Not"
 export * from "./find-options/operator/Raw"
 export * from "./find-options/operator/JsonContains"
+export * from "./find-options/CursorPaginationOptions"
 export * from "./find-options/EqualOperator"
+export * from "./find-options/FindManyCursorOptions"
 export * from "./find-options/FindManyOptions"
 export * from "./find-options/FindOneOptions"
 export * from "./find-options/FindOperator"
@@ -104,8 +115,10 @@ export * from "./logger/LoggerOptions"
 export * from "./logger/AdvancedConsoleLogger"
 export * from "./logger/SimpleConsoleLogger"
 export * from "./logger/FileLogger"
+export * from "./logger/StructuredLogger"
 export * from "./metadata/EntityMetadata"
 export * from "./entity-manager/EntityManager"
+export * from "./entity-manager/CallProcedureOptions"
 export * from "./repository/AbstractRepository"
 export * from "./repository/Repository"
 export * from "./repository/BaseEntity"
@@ -118,21 +131,36 @@ export * from "./schema-builder/table/TableColumn"
 export * from "./schema-builder/table/TableExclusion"
 export * from "./schema-builder/table/TableForeignKey"
 export * from "./schema-builder/table/TableIndex"
+export * from "./schema-builder/table/TablePartition"
+export * from "./schema-builder/table/TableTrigger"
+export * from "./schema-builder/table/TableSequence"
 export * from "./schema-builder/table/TableUnique"
 export * from "./schema-builder/table/Table"
 export * from "./schema-builder/view/View"
+export * from "./schema-builder/function/DatabaseFunction"
 export * from "./schema-builder/options/TableCheckOptions"
 export * from "./schema-builder/options/TableColumnOptions"
 export * from "./schema-builder/options/TableExclusionOptions"
 export * from "./schema-builder/options/TableForeignKeyOptions"
 export * from "./schema-builder/options/TableIndexOptions"
 export * from "./schema-builder/options/TableOptions"
+export * from "./schema-builder/options/TablePartitionOptions"
+export * from "./schema-builder/options/TablePartitioningOptions"
+export * from "./schema-builder/options/TableTriggerOptions"
+export * from "./schema-builder/options/TableSequenceOptions"
 export * from "./schema-builder/options/TableUniqueOptions"
 export * from "./schema-builder/options/ViewOptions"
+export * from "./schema-builder/options/DatabaseFunctionOptions"
+export * from "./schema-builder/options/DatabaseFunctionParameterOptions"
 export * from "./driver/mongodb/typings"
 export * from "./driver/types/DatabaseType"
 export * from "./driver/types/GeoJsonTypes"
 export * from "./driver/types/ReplicationMode"
+export * from "./driver/types/ReplicationRoutingOptions"
+export * from "./tenant/TenantContext"
+export * from "./instrumentation/Instrumentation"
+export * from "./instrumentation/InstrumentationContext"
+export * from "./instrumentation/OpenTelemetryInstrumentation"
 export * from "./driver/sqlserver/MssqlParameter"
 
 // export * from "./data-source";
@@ -152,17 +180,26 @@ export { UpdateQueryBuilder } from "./query-builder/UpdateQueryBuilder"
 export { RelationQueryBuilder } from "./query-builder/RelationQueryBuilder"
 export { Brackets } from "./query-builder/Brackets"
 export { NotBrackets } from "./query-builder/NotBrackets"
+export { WindowExpressionBuilder } from "./query-builder/WindowExpressionBuilder"
 export { WhereExpressionBuilder } from "./query-builder/WhereExpressionBuilder"
 export { WhereExpression } from "./query-builder/WhereExpressionBuilder"
 export { InsertResult } from "./query-builder/result/InsertResult"
 export { UpdateResult } from "./query-builder/result/UpdateResult"
 export { DeleteResult } from "./query-builder/result/DeleteResult"
+export { CursorPaginationResult } from "./query-builder/result/CursorPaginationResult"
 export { QueryResult } from "./query-runner/QueryResult"
+export { ProcedureParameter } from "./query-runner/ProcedureParameter"
+export { ProcedureResult } from "./query-runner/ProcedureResult"
 export { QueryRunner } from "./query-runner/QueryRunner"
 export { MongoEntityManager } from "./entity-manager/MongoEntityManager"
 export { Migration } from "./migration/Migration"
 export { MigrationExecutor } from "./migration/MigrationExecutor"
 export { MigrationInterface } from "./migration/MigrationInterface"
+export { MigrationDryRun } from "./migration/MigrationDryRun"
+export { Seed } from "./seed/Seed"
+export { SeedExecutor } from "./seed/SeedExecutor"
+export { SeederInterface } from "./seed/SeederInterface"
+export { EntityFactory, EntityFactoryDefinition } from "./factory/EntityFactory"
 export { DefaultNamingStrategy } from "./naming-strategy/DefaultNamingStrategy"
 export { NamingStrategyInterface } from "./naming-strategy/NamingStrategyInterface"
 export { LegacyOracleNamingStrategy } from "./naming-strategy/LegacyOracleNamingStrategy"
@@ -185,3 +222,11 @@ export { ColumnType } from "./driver/types/ColumnTypes"
 export { EntitySchemaOptions } from "./entity-schema/EntitySchemaOptions"
 export { InstanceChecker } from "./util/InstanceChecker"
 export { TreeRepositoryUtils } from "./util/TreeRepositoryUtils"
+export {
+    JsonSchemaExporter,
+    JsonSchemaExporterOptions,
+} from "./schema-export/JsonSchemaExporter"
+export {
+    EntitySchemaExporter,
+    ExportedEntitySchema,
+} from "./schema-export/EntitySchemaExporter"
@@ -0,0 +1,62 @@
+/**
+ * Attributes describing a span, e.g. "db.system" or "db.statement".
+ */
+export type InstrumentationAttributes = {
+    [key: string]: string | number | boolean | undefined
+}
+
+/**
+ * Options of the span started by instrumentation.
+ */
+export interface InstrumentationSpanOptions {
+    /**
+     * Kind of the span.
+     * Spans of queries are "client" spans, other spans are "internal".
+     */
+    kind: "client" | "internal"
+
+    /**
+     * Attributes of the span.
+     */
+    attributes: InstrumentationAttributes
+
+    /**
+     * Span in which this span is started, e.g. span of the transaction the query is executed in.
+     * Not set for spans started outside of other TypeORM spans.
+     */
+    parent?: InstrumentationSpan
+}
+
+/**
+ * Span started by instrumentation, measuring a single operation.
+ */
+export interface InstrumentationSpan {
+    /**
+     * Sets attribute of the span.
+     */
+    setAttribute(key: string, value: string | number | boolean): void
+
+    /**
+     * Records error the operation failed with.
+     */
+    recordError(error: any): void
+
+    /**
+     * Ends the span.
+     */
+    end(): void
+}
+
+/**
+ * Traces queries, transactions, persistence operations and migrations executed by TypeORM.
+ * Set by "instrumentation" data source option, e.g. to OpenTelemetryInstrumentation.
+ */
+export interface Instrumentation {
+    /**
+     * Starts span of the operation with the given name.
+     */
+    startSpan(
+        name: string,
+        options: InstrumentationSpanOptions,
+    ): InstrumentationSpan
+}
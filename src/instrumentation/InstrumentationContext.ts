@@ -0,0 +1,261 @@
+import { DataSource } from "../data-source/DataSource"
+import { QueryRunner } from "../query-runner/QueryRunner"
+import { LazyAsyncLocalStorage } from "../platform/LazyAsyncLocalStorage"
+import {
+    Instrumentation,
+    InstrumentationAttributes,
+    InstrumentationSpan,
+} from "./Instrumentation"
+
+/**
+ * Span started by instrumentation context.
+ * Spans are ended once, and are not created at all if instrumentation is not set.
+ */
+export class TracedSpan {
+    /**
+     * Indicates if span was ended.
+     */
+    isEnded = false
+
+    constructor(
+        readonly span?: InstrumentationSpan,
+        readonly order: number = 0,
+    ) {}
+
+    /**
+     * Sets attribute of the span.
+     */
+    setAttribute(key: string, value: string | number | boolean): void {
+        this.span?.setAttribute(key, value)
+    }
+
+    /**
+     * Ends the span, recording the given error if operation failed.
+     */
+    end(error?: any): void {
+        if (this.isEnded) return
+
+        this.isEnded = true
+        if (!this.span) return
+
+        if (error !== undefined) this.span.recordError(error)
+        this.span.end()
+    }
+}
+
+/**
+ * Values of "db.system" attribute by driver types.
+ */
+const dbSystems: { [type: string]: string } = {
+    postgres: "postgresql",
+    "aurora-postgres": "postgresql",
+    cockroachdb: "cockroachdb",
+    mysql: "mysql",
+    "aurora-mysql": "mysql",
+    planetscale: "mysql",
+    mariadb: "mariadb",
+    mssql: "mssql",
+    oracle: "oracle",
+    sap: "hanadb",
+    spanner: "spanner",
+    mongodb: "mongodb",
+    sqlite: "sqlite",
+    "better-sqlite3": "sqlite",
+    sqljs: "sqlite",
+    capacitor: "sqlite",
+    cordova: "sqlite",
+    expo: "sqlite",
+    nativescript: "sqlite",
+    "react-native": "sqlite",
+}
+
+/**
+ * Starts spans of queries, transactions, persistence operations and migrations
+ * by instrumentation set in data source options.
+ *
+ * Span of the transaction is the parent of queries executed in it,
+ * and spans of persistence operations and migrations are parents of spans started in their callbacks,
+ * including asynchronous operations started in them.
+ */
+export class InstrumentationContext {
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Storage of the current span.
+     */
+    protected storage = new LazyAsyncLocalStorage<TracedSpan>()
+
+    /**
+     * Spans of the transactions, by query runners they are started in.
+     */
+    protected transactionSpans = new WeakMap<QueryRunner, TracedSpan>()
+
+    /**
+     * Number of started spans, used to find the most recent parent span.
+     */
+    protected spanCount = 0
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(protected connection: DataSource) {}
+
+    // -------------------------------------------------------------------------
+    // Accessors
+    // -------------------------------------------------------------------------
+
+    /**
+     * Instrumentation set in data source options.
+     */
+    get instrumentation(): Instrumentation | undefined {
+        return this.connection.options.instrumentation
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Starts span of the given query executed by the given query runner.
+     */
+    startQuerySpan(query: string, queryRunner?: QueryRunner): TracedSpan {
+        if (!this.instrumentation) return new TracedSpan()
+
+        const operation = this.getOperation(query)
+        const table = operation ? this.getTable(query, operation) : undefined
+        return this.startSpan(
+            [operation || "query", table].filter(Boolean).join(" "),
+            "client",
+            {
+                "db.statement": query,
+                "db.operation": operation,
+                "db.sql.table": table,
+            },
+            queryRunner,
+        )
+    }
+
+    /**
+     * Starts span of the transaction started by the given query runner.
+     */
+    startTransactionSpan(queryRunner: QueryRunner, isolationLevel?: string) {
+        if (!this.instrumentation) return
+
+        // span of the transaction whose start failed
+        this.transactionSpans.get(queryRunner)?.end()
+
+        this.transactionSpans.set(
+            queryRunner,
+            this.startSpan(
+                "transaction",
+                "internal",
+                { "db.transaction.isolation_level": isolationLevel },
+                queryRunner,
+            ),
+        )
+    }
+
+    /**
+     * Ends span of the transaction committed or rolled back by the given query runner.
+     */
+    endTransactionSpan(
+        queryRunner: QueryRunner,
+        outcome: "commit" | "rollback",
+        error?: any,
+    ) {
+        const span = this.transactionSpans.get(queryRunner)
+        if (!span) return
+
+        this.transactionSpans.delete(queryRunner)
+        span.setAttribute("db.transaction.outcome", outcome)
+        span.end(error)
+    }
+
+    /**
+     * Runs the given callback in the span with the given name and attributes,
+     * ending it once the callback is finished.
+     */
+    async trace<T>(
+        name: string,
+        attributes: InstrumentationAttributes,
+        queryRunner: QueryRunner | undefined,
+        callback: () => Promise<T>,
+    ): Promise<T> {
+        if (!this.instrumentation) return callback()
+
+        const span = this.startSpan(name, "internal", attributes, queryRunner)
+        try {
+            const result = await this.storage.run(span, callback)
+            span.end()
+            return result
+        } catch (error) {
+            span.end(error)
+            throw error
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Starts span in the current span or transaction of the given query runner,
+     * whichever was started later.
+     */
+    protected startSpan(
+        name: string,
+        kind: "client" | "internal",
+        attributes: InstrumentationAttributes,
+        queryRunner?: QueryRunner,
+    ): TracedSpan {
+        const spanAttributes: InstrumentationAttributes = {
+            "db.system":
+                dbSystems[this.connection.options.type] ??
+                this.connection.options.type,
+            "db.name": this.connection.driver.database,
+            ...attributes,
+        }
+        for (const key of Object.keys(spanAttributes)) {
+            if (spanAttributes[key] === undefined) delete spanAttributes[key]
+        }
+
+        const parent = [
+            this.storage.getStore(),
+            queryRunner && this.transactionSpans.get(queryRunner),
+        ]
+            .filter((span): span is TracedSpan => !!span && !span.isEnded)
+            .sort((a, b) => b.order - a.order)[0]
+
+        const span = this.instrumentation!.startSpan(name, {
+            kind,
+            attributes: spanAttributes,
+            parent: parent?.span,
+        })
+        return new TracedSpan(span, ++this.spanCount)
+    }
+
+    /**
+     * Gets operation of the given query, e.g. "SELECT".
+     */
+    protected getOperation(query: string): string | undefined {
+        const match = query.match(/^\s*\(*\s*([a-z]+)/i)
+        return match ? match[1].toUpperCase() : undefined
+    }
+
+    /**
+     * Gets name of the table the given query operates on, if it can be found in the query.
+     */
+    protected getTable(query: string, operation: string): string | undefined {
+        const patterns: { [operation: string]: RegExp } = {
+            SELECT: /\sFROM\s+([^\s(),;]+)/i,
+            INSERT: /^\s*INSERT\s+INTO\s+([^\s(),;]+)/i,
+            UPDATE: /^\s*UPDATE\s+([^\s(),;]+)/i,
+            DELETE: /^\s*DELETE\s+FROM\s+([^\s(),;]+)/i,
+        }
+        const match = patterns[operation] && query.match(patterns[operation])
+        return match ? match[1].replace(/["`[\]]/g, "") : undefined
+    }
+}
@@ -0,0 +1,124 @@
+import {
+    Instrumentation,
+    InstrumentationAttributes,
+    InstrumentationSpan,
+    InstrumentationSpanOptions,
+} from "./Instrumentation"
+
+/**
+ * Span of OpenTelemetry API used by the adapter.
+ */
+export interface OpenTelemetrySpan {
+    setAttribute(key: string, value: string | number | boolean): any
+    recordException(exception: any): void
+    setStatus(status: { code: number; message?: string }): any
+    end(): void
+}
+
+/**
+ * Tracer of OpenTelemetry API used by the adapter.
+ */
+export interface OpenTelemetryTracer {
+    startSpan(
+        name: string,
+        options?: { kind?: number; attributes?: InstrumentationAttributes },
+        context?: any,
+    ): OpenTelemetrySpan
+}
+
+/**
+ * Part of OpenTelemetry API (the "@opentelemetry/api" package) used by the adapter.
+ * Package is supplied by the application, so TypeORM does not depend on it.
+ */
+export interface OpenTelemetryApi {
+    trace: {
+        getTracer(name: string, version?: string): OpenTelemetryTracer
+        setSpan(context: any, span: OpenTelemetrySpan): any
+    }
+    context: {
+        active(): any
+    }
+}
+
+/**
+ * Values of SpanKind and SpanStatusCode of OpenTelemetry API.
+ */
+const SPAN_KIND_INTERNAL = 0
+const SPAN_KIND_CLIENT = 2
+const SPAN_STATUS_CODE_ERROR = 2
+
+/**
+ * Span of OpenTelemetry tracer, wrapped by the adapter.
+ */
+class OpenTelemetryInstrumentationSpan implements InstrumentationSpan {
+    constructor(readonly span: OpenTelemetrySpan) {}
+
+    setAttribute(key: string, value: string | number | boolean): void {
+        this.span.setAttribute(key, value)
+    }
+
+    recordError(error: any): void {
+        this.span.recordException(error)
+        this.span.setStatus({
+            code: SPAN_STATUS_CODE_ERROR,
+            message: error instanceof Error ? error.message : String(error),
+        })
+    }
+
+    end(): void {
+        this.span.end()
+    }
+}
+
+/**
+ * Instrumentation creating spans by OpenTelemetry tracer.
+ *
+ * Spans started outside of other TypeORM spans are children of the active context of the application,
+ * other spans are children of the TypeORM span they are started in,
+ * e.g. queries are children of the transaction or persistence operation executing them.
+ */
+export class OpenTelemetryInstrumentation implements Instrumentation {
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates instrumentation using the given OpenTelemetry API, e.g. `require("@opentelemetry/api")`,
+     * and the tracer supplied by the application, or the tracer named "typeorm" by default.
+     */
+    constructor(
+        protected api: OpenTelemetryApi,
+        protected tracer: OpenTelemetryTracer = api.trace.getTracer("typeorm"),
+    ) {}
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Starts span of the operation with the given name.
+     */
+    startSpan(
+        name: string,
+        options: InstrumentationSpanOptions,
+    ): InstrumentationSpan {
+        const context = this.api.context.active()
+        const parentContext =
+            options.parent instanceof OpenTelemetryInstrumentationSpan
+                ? this.api.trace.setSpan(context, options.parent.span)
+                : context
+
+        const span = this.tracer.startSpan(
+            name,
+            {
+                kind:
+                    options.kind === "client"
+                        ? SPAN_KIND_CLIENT
+                        : SPAN_KIND_INTERNAL,
+                attributes: options.attributes,
+            },
+            parentContext,
+        )
+        return new OpenTelemetryInstrumentationSpan(span)
+    }
+}
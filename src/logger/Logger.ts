@@ -29,6 +29,18 @@ export interface Logger {
         queryRunner?: QueryRunner,
     ): any
 
+    /**
+     * Logs query that is executed successfully,
+     * with its execution time and number of returned or affected rows.
+     */
+    logQueryExecuted?(
+        time: number,
+        query: string,
+        parameters?: any[],
+        rowCount?: number,
+        queryRunner?: QueryRunner,
+    ): any
+
     /**
      * Logs events from the schema build process.
      */
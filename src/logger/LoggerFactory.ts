@@ -4,6 +4,7 @@ import { SimpleConsoleLogger } from "./SimpleConsoleLogger"
 import { AdvancedConsoleLogger } from "./AdvancedConsoleLogger"
 import { FileLogger } from "./FileLogger"
 import { DebugLogger } from "./DebugLogger"
+import { StructuredLogger } from "./StructuredLogger"
 import { ObjectUtils } from "../util/ObjectUtils"
 
 /**
@@ -19,6 +20,7 @@ export class LoggerFactory {
             | "simple-console"
             | "file"
             | "debug"
+            | "structured"
             | Logger,
         options?: LoggerOptions,
     ): Logger {
@@ -37,6 +39,9 @@ export class LoggerFactory {
 
                 case "debug":
                     return new DebugLogger()
+
+                case "structured":
+                    return new StructuredLogger(options)
             }
         }
 
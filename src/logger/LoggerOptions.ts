@@ -14,3 +14,22 @@ export type FileLoggerOptions = {
      */
     logPath: string
 }
+
+/**
+ * Structured logging options.
+ */
+export type StructuredLoggerOptions = {
+    /**
+     * How query parameters are logged:
+     * "count" logs number of parameters only, "redacted" logs parameters with values replaced,
+     * and "values" logs actual values of parameters.
+     * Default is "count".
+     */
+    parameters?: "count" | "redacted" | "values"
+
+    /**
+     * Writes a single log line.
+     * By default lines are written to the console.
+     */
+    write?: (line: string) => void
+}
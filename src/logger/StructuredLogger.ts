@@ -0,0 +1,223 @@
+import { LogLevel, LogMessage } from "./Logger"
+import { LoggerOptions, StructuredLoggerOptions } from "./LoggerOptions"
+import { AbstractLogger } from "./AbstractLogger"
+import { QueryRunner } from "../query-runner/QueryRunner"
+import { ObjectLiteral } from "../common/ObjectLiteral"
+import { LazyAsyncLocalStorage } from "../platform/LazyAsyncLocalStorage"
+
+/**
+ * Performs logging of the events in TypeORM.
+ * This version of logger writes every event as a single line of JSON,
+ * so logs can be shipped directly into log processing pipelines.
+ *
+ * Queries are logged once they are executed, together with their execution time and row count.
+ * Each line also contains driver, replication mode and transaction of the query runner,
+ * and the context set by runWithContext() for the code which triggered the event.
+ */
+export class StructuredLogger extends AbstractLogger {
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Storage of the current context.
+     */
+    protected storage = new LazyAsyncLocalStorage<ObjectLiteral>()
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(
+        options?: LoggerOptions,
+        protected structuredLoggerOptions: StructuredLoggerOptions = {},
+    ) {
+        super(options)
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Runs the given callback with the given context,
+     * which is added to every line logged by the code running in it,
+     * including asynchronous operations started in it.
+     * Context of the outer callback is extended by the given one.
+     */
+    runWithContext<R>(context: ObjectLiteral, callback: () => R): R {
+        return this.storage.run({ ...this.getContext(), ...context }, callback)
+    }
+
+    /**
+     * Gets the current context.
+     */
+    getContext(): ObjectLiteral | undefined {
+        return this.storage.getStore()
+    }
+
+    /**
+     * Queries are logged after they are executed, with their execution time and row count.
+     */
+    logQuery(query: string, parameters?: any[], queryRunner?: QueryRunner) {}
+
+    /**
+     * Logs query that is executed successfully.
+     */
+    logQueryExecuted(
+        time: number,
+        query: string,
+        parameters?: any[],
+        rowCount?: number,
+        queryRunner?: QueryRunner,
+    ) {
+        if (!this.isLogEnabledFor("query")) {
+            return
+        }
+
+        this.writeLog(
+            "query",
+            {
+                type: "query",
+                message: query,
+                format: "sql",
+                parameters,
+                additionalInfo: {
+                    time,
+                    rowCount,
+                },
+            },
+            queryRunner,
+        )
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Write log to specific output.
+     */
+    protected writeLog(
+        level: LogLevel,
+        logMessage:
+            | LogMessage
+            | string
+            | number
+            | (LogMessage | string | number)[],
+        queryRunner?: QueryRunner,
+    ) {
+        const messages = Array.isArray(logMessage) ? logMessage : [logMessage]
+        const entry: ObjectLiteral = {
+            timestamp: new Date().toISOString(),
+            level,
+        }
+
+        for (const message of messages) {
+            if (typeof message !== "object") {
+                entry.message = message
+                continue
+            }
+
+            if (message.type && !entry.type) entry.type = message.type
+
+            if (message.format === "sql") {
+                entry.query = String(message.message)
+                Object.assign(entry, this.createParameters(message.parameters))
+            } else if (message.type === "query-error") {
+                entry.error = this.createError(message.message)
+            } else if (message.type !== "query-slow") {
+                entry.message = message.message
+            }
+
+            if (message.additionalInfo) {
+                const { time, ...additionalInfo } = message.additionalInfo
+                if (time !== undefined) entry.duration = time
+                Object.assign(entry, additionalInfo)
+            }
+        }
+
+        if (queryRunner) {
+            entry.driver = queryRunner.connection.options.type
+            const replicationMode = queryRunner.getReplicationMode()
+            if (replicationMode) entry.replicationMode = replicationMode
+            if (queryRunner.transactionId)
+                entry.transactionId = queryRunner.transactionId
+        }
+
+        const context = this.getContext()
+        if (context) entry.context = context
+
+        this.write(this.stringifyEntry(entry))
+    }
+
+    /**
+     * Creates properties describing the given query parameters.
+     */
+    protected createParameters(parameters?: any[]): ObjectLiteral {
+        const count = parameters ? parameters.length : 0
+        switch (this.structuredLoggerOptions.parameters) {
+            case "values":
+                return { parameterCount: count, parameters: parameters || [] }
+
+            case "redacted":
+                return {
+                    parameterCount: count,
+                    parameters: (parameters || []).map((parameter) =>
+                        parameter === null || parameter === undefined
+                            ? null
+                            : "[REDACTED]",
+                    ),
+                }
+
+            default:
+                return { parameterCount: count }
+        }
+    }
+
+    /**
+     * Creates properties describing the given query error.
+     */
+    protected createError(error: any): ObjectLiteral {
+        if (error instanceof Error) {
+            const result: ObjectLiteral = {
+                name: error.name,
+                message: error.message,
+            }
+            if ((error as any).code !== undefined)
+                result.code = (error as any).code
+            return result
+        }
+
+        return { message: String(error) }
+    }
+
+    /**
+     * Converts log entry to a single line of JSON.
+     * Parameters which cannot be serialized, e.g. circular objects, are left out.
+     */
+    protected stringifyEntry(entry: ObjectLiteral): string {
+        try {
+            return JSON.stringify(entry, (key, value) =>
+                typeof value === "bigint" ? value.toString() : value,
+            )
+        } catch (error) {
+            // most probably circular objects in parameters
+            return JSON.stringify({
+                ...entry,
+                parameters: "[Unserializable]",
+            })
+        }
+    }
+
+    /**
+     * Writes line to the output.
+     */
+    protected write(line: string) {
+        if (this.structuredLoggerOptions.write) {
+            this.structuredLoggerOptions.write(line)
+        } else {
+            console.log(line)
+        }
+    }
+}
@@ -16,4 +16,9 @@ export interface CheckMetadataArgs {
      * Check expression.
      */
     expression: string
+
+    /**
+     * Names of the database functions the check expression depends on.
+     */
+    dependsOnFunctions?: string[]
 }
@@ -15,5 +15,10 @@ export interface GeneratedMetadataArgs {
     /**
      * Generation strategy.
      */
-    readonly strategy: "uuid" | "increment" | "rowid"
+    readonly strategy: "uuid" | "increment" | "rowid" | "sequence"
+
+    /**
+     * Name of the sequence used by "sequence" generation strategy.
+     */
+    readonly sequenceName?: string
 }
@@ -21,6 +21,8 @@ import { TreeMetadataArgs } from "./TreeMetadataArgs"
 import { UniqueMetadataArgs } from "./UniqueMetadataArgs"
 import { CheckMetadataArgs } from "./CheckMetadataArgs"
 import { ExclusionMetadataArgs } from "./ExclusionMetadataArgs"
+import { TriggerMetadataArgs } from "./TriggerMetadataArgs"
+import { SequenceMetadataArgs } from "./SequenceMetadataArgs"
 
 /**
  * Storage all metadatas args of all available types: tables, columns, subscribers, relations, etc.
@@ -43,6 +45,8 @@ export class MetadataArgsStorage {
     readonly uniques: UniqueMetadataArgs[] = []
     readonly checks: CheckMetadataArgs[] = []
     readonly exclusions: ExclusionMetadataArgs[] = []
+    readonly triggers: TriggerMetadataArgs[] = []
+    readonly sequences: SequenceMetadataArgs[] = []
     readonly columns: ColumnMetadataArgs[] = []
     readonly generations: GeneratedMetadataArgs[] = []
     readonly relations: RelationMetadataArgs[] = []
@@ -194,6 +198,30 @@ export class MetadataArgsStorage {
         })
     }
 
+    filterTriggers(target: Function | string): TriggerMetadataArgs[]
+    filterTriggers(target: (Function | string)[]): TriggerMetadataArgs[]
+    filterTriggers(
+        target: (Function | string) | (Function | string)[],
+    ): TriggerMetadataArgs[] {
+        return this.triggers.filter((trigger) => {
+            return Array.isArray(target)
+                ? target.indexOf(trigger.target) !== -1
+                : trigger.target === target
+        })
+    }
+
+    filterSequences(target: Function | string): SequenceMetadataArgs[]
+    filterSequences(target: (Function | string)[]): SequenceMetadataArgs[]
+    filterSequences(
+        target: (Function | string) | (Function | string)[],
+    ): SequenceMetadataArgs[] {
+        return this.sequences.filter((sequence) => {
+            return Array.isArray(target)
+                ? target.indexOf(sequence.target) !== -1
+                : sequence.target === target
+        })
+    }
+
     filterListeners(target: Function | string): EntityListenerMetadataArgs[]
     filterListeners(target: (Function | string)[]): EntityListenerMetadataArgs[]
     filterListeners(
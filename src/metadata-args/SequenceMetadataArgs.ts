@@ -0,0 +1,16 @@
+import { SequenceOptions } from "../decorator/options/SequenceOptions"
+
+/**
+ * Arguments for SequenceMetadata class.
+ */
+export interface SequenceMetadataArgs extends SequenceOptions {
+    /**
+     * Class to which sequence is applied.
+     */
+    target: Function | string
+
+    /**
+     * Sequence name.
+     */
+    name: string
+}
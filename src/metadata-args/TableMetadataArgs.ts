@@ -1,6 +1,8 @@
 import { DataSource, SelectQueryBuilder } from ".."
 import { OrderByCondition } from "../find-options/OrderByCondition"
 import { TableType } from "../metadata/types/TableTypes"
+import { EntityPartitioningOptions } from "../decorator/options/EntityPartitioningOptions"
+import { EntityCacheOptions } from "../decorator/options/EntityCacheOptions"
 
 /**
  * Arguments for TableMetadata class, helps to construct an TableMetadata object.
@@ -60,6 +62,11 @@ export interface TableMetadataArgs {
      */
     dependsOn?: Set<Function | string>
 
+    /**
+     * Names of the database functions the view depends on.
+     */
+    dependsOnFunctions?: string[]
+
     /**
      * Indicates if view is materialized
      */
@@ -75,4 +82,14 @@ export interface TableMetadataArgs {
      * Table comment. Not supported by all database types.
      */
     comment?: string
+
+    /**
+     * Table partitioning. Supported by Postgres and MySQL.
+     */
+    partitioning?: EntityPartitioningOptions
+
+    /**
+     * Entity caching by primary keys.
+     */
+    cache?: boolean | EntityCacheOptions
 }
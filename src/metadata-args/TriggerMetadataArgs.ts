@@ -0,0 +1,16 @@
+import { TriggerOptions } from "../decorator/options/TriggerOptions"
+
+/**
+ * Arguments for TriggerMetadata class.
+ */
+export interface TriggerMetadataArgs extends TriggerOptions {
+    /**
+     * Class to which trigger is applied.
+     */
+    target: Function | string
+
+    /**
+     * Trigger name.
+     */
+    name?: string
+}
@@ -12,6 +12,7 @@ export type ColumnMode =
     | "updateDate"
     | "deleteDate"
     | "version"
+    | "tenant"
     | "treeChildrenCount"
     | "treeLevel"
     | "objectId"
@@ -17,6 +17,8 @@ import { DataSource } from "../data-source/DataSource"
 import { EntityListenerMetadata } from "../metadata/EntityListenerMetadata"
 import { UniqueMetadata } from "../metadata/UniqueMetadata"
 import { CheckMetadata } from "../metadata/CheckMetadata"
+import { TriggerMetadata } from "../metadata/TriggerMetadata"
+import { SequenceMetadata } from "../metadata/SequenceMetadata"
 import { ExclusionMetadata } from "../metadata/ExclusionMetadata"
 import { TypeORMError } from "../error"
 import { DriverUtils } from "../driver/DriverUtils"
@@ -379,6 +381,18 @@ export class EntityMetadataBuilder {
             )
         })
 
+        // build all triggers
+        entityMetadatas.forEach((entityMetadata) => {
+            entityMetadata.triggers.forEach((trigger) =>
+                trigger.build(this.connection.namingStrategy),
+            )
+        })
+
+        // build all sequences
+        entityMetadatas.forEach((entityMetadata) => {
+            entityMetadata.sequences.forEach((sequence) => sequence.build())
+        })
+
         // build all exclusion constraints
         entityMetadatas.forEach((entityMetadata) => {
             entityMetadata.exclusions.forEach((exclusion) =>
@@ -410,6 +424,7 @@ export class EntityMetadataBuilder {
                 if (generated) {
                     column.isGenerated = true
                     column.generationStrategy = generated.strategy
+                    column.sequenceName = generated.sequenceName
                     if (generated.strategy === "uuid") {
                         column.type = "uuid"
                     } else if (generated.strategy === "rowid") {
@@ -423,6 +438,33 @@ export class EntityMetadataBuilder {
             })
         })
 
+        // declare sequences used by generated columns but not declared by any entity
+        entityMetadatas.forEach((entityMetadata) => {
+            entityMetadata.columns
+                .filter(
+                    (column) =>
+                        column.generationStrategy === "sequence" &&
+                        column.sequenceName &&
+                        !entityMetadatas.some((metadata) =>
+                            metadata.sequences.some(
+                                (sequence) =>
+                                    sequence.name === column.sequenceName,
+                            ),
+                        ),
+                )
+                .forEach((column) => {
+                    const sequence = new SequenceMetadata({
+                        entityMetadata,
+                        args: {
+                            target: entityMetadata.target,
+                            name: column.sequenceName!,
+                            ownedBy: column.propertyPath,
+                        },
+                    })
+                    entityMetadata.sequences.push(sequence.build())
+                })
+        })
+
         return entityMetadatas
     }
 
@@ -765,6 +807,16 @@ export class EntityMetadataBuilder {
             .map((args) => {
                 return new CheckMetadata({ entityMetadata, args })
             })
+        entityMetadata.triggers = this.metadataArgsStorage
+            .filterTriggers(entityMetadata.inheritanceTree)
+            .map((args) => {
+                return new TriggerMetadata({ entityMetadata, args })
+            })
+        entityMetadata.sequences = this.metadataArgsStorage
+            .filterSequences(entityMetadata.inheritanceTree)
+            .map((args) => {
+                return new SequenceMetadata({ entityMetadata, args })
+            })
 
         // Only PostgreSQL supports exclusion constraints.
         if (this.connection.driver.options.type === "postgres") {
@@ -1065,6 +1117,9 @@ export class EntityMetadataBuilder {
         entityMetadata.versionColumn = entityMetadata.columns.find(
             (column) => column.isVersion,
         )
+        entityMetadata.tenantColumn = entityMetadata.columns.find(
+            (column) => column.isTenant,
+        )
         entityMetadata.discriminatorColumn = entityMetadata.columns.find(
             (column) => column.isDiscriminator,
         )
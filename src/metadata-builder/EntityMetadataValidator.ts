@@ -207,6 +207,41 @@ export class EntityMetadataValidator {
                 )
         }
 
+        // Sequences are supported only by databases with standalone sequence objects.
+        const sequenceColumn = entityMetadata.columns.find(
+            (column) => column.generationStrategy === "sequence",
+        )
+        if (sequenceColumn && !sequenceColumn.sequenceName)
+            throw new TypeORMError(
+                `Column "${sequenceColumn.propertyName}" of Entity "${entityMetadata.name}" is generated with "sequence" strategy, but missing "sequenceName" option.`,
+            )
+        if (
+            (sequenceColumn || entityMetadata.sequences.length > 0) &&
+            ![
+                "postgres",
+                "aurora-postgres",
+                "cockroachdb",
+                "oracle",
+                "mssql",
+                "sap",
+            ].includes(driver.options.type)
+        )
+            throw new TypeORMError(
+                `Error in ${entityMetadata.name} entity. Sequences are not supported by ${driver.options.type} driver.`,
+            )
+
+        // Cached entities are stored in query result cache and loaded without any relations.
+        if (entityMetadata.cache) {
+            if (!entityMetadata.connection.options.cache)
+                throw new TypeORMError(
+                    `Entity "${entityMetadata.name}" is cached, but query result cache is not enabled in data source options.`,
+                )
+            if (entityMetadata.eagerRelations.length > 0)
+                throw new TypeORMError(
+                    `Entity "${entityMetadata.name}" is cached, but cached entities can not have eager relations.`,
+                )
+        }
+
         // check if relations are all without initialized properties
         const entityInstance = entityMetadata.create(undefined, {
             fromDeserializer: true,
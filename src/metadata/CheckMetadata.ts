@@ -25,6 +25,12 @@ export class CheckMetadata {
      */
     expression: string
 
+    /**
+     * Names of the database functions the check expression depends on.
+     * Check is recreated when any of these functions has to be recreated.
+     */
+    dependsOnFunctions: string[] = []
+
     /**
      * User specified check constraint name.
      */
@@ -51,6 +57,8 @@ export class CheckMetadata {
             this.target = options.args.target
             this.expression = options.args.expression
             this.givenName = options.args.name
+            if (options.args.dependsOnFunctions)
+                this.dependsOnFunctions = options.args.dependsOnFunctions
         }
     }
 
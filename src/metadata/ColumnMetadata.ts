@@ -11,6 +11,7 @@ import { ApplyValueTransformers } from "../util/ApplyValueTransformers"
 import { ObjectUtils } from "../util/ObjectUtils"
 import { InstanceChecker } from "../util/InstanceChecker"
 import { VirtualColumnOptions } from "../decorator/options/VirtualColumnOptions"
+import { escapeRegExp } from "../util/escapeRegExp"
 
 /**
  * This metadata contains all information about entity's column.
@@ -110,7 +111,12 @@ export class ColumnMetadata {
     /**
      * Specifies generation strategy if this column will use auto increment.
      */
-    generationStrategy?: "uuid" | "increment" | "rowid"
+    generationStrategy?: "uuid" | "increment" | "rowid" | "sequence"
+
+    /**
+     * Name of the sequence used by "sequence" generation strategy.
+     */
+    sequenceName?: string
 
     /**
      * Identity column type. Supports only in Postgres 10+.
@@ -283,11 +289,21 @@ export class ColumnMetadata {
      */
     isVersion: boolean = false
 
+    /**
+     * Indicates if this column contains id of the tenant owning the entity.
+     */
+    isTenant: boolean = false
+
     /**
      * Indicates if this column contains an object id.
      */
     isObjectId: boolean = false
 
+    /**
+     * Indicates if values of this column are sensitive and must be masked in logs, query errors and query events.
+     */
+    isSensitive: boolean = false
+
     /**
      * If this column is foreign key then it references some other column,
      * and this property will contain reference to this column.
@@ -394,6 +410,19 @@ export class ColumnMetadata {
             this.isUpdate = !options.args.options.readonly
         if (options.args.options.comment)
             this.comment = options.args.options.comment
+        if (options.args.options.sensitive) {
+            this.isSensitive = true
+        } else if (options.connection?.options.redaction?.columns) {
+            this.isSensitive =
+                options.connection.options.redaction.columns.some((name) =>
+                    new RegExp(
+                        "^" +
+                            name.split("*").map(escapeRegExp).join(".*") +
+                            "$",
+                        "i",
+                    ).test(this.propertyName),
+                )
+        }
         if (options.args.options.default !== undefined)
             this.default = options.args.options.default
         if (options.args.options.onUpdate)
@@ -470,6 +499,7 @@ export class ColumnMetadata {
             this.isUpdateDate = options.args.mode === "updateDate"
             this.isDeleteDate = options.args.mode === "deleteDate"
             this.isVersion = options.args.mode === "version"
+            this.isTenant = options.args.mode === "tenant"
             this.isObjectId = options.args.mode === "objectId"
         }
         if (this.isVirtualProperty) {
@@ -580,7 +610,8 @@ export class ColumnMetadata {
                 // this is bugfix for #720 when increment number is bigint we need to make sure its a string
                 if (
                     (this.generationStrategy === "increment" ||
-                        this.generationStrategy === "rowid") &&
+                        this.generationStrategy === "rowid" ||
+                        this.generationStrategy === "sequence") &&
                     this.type === "bigint" &&
                     value !== null
                 )
@@ -597,7 +628,8 @@ export class ColumnMetadata {
             // this is bugfix for #720 when increment number is bigint we need to make sure its a string
             if (
                 (this.generationStrategy === "increment" ||
-                    this.generationStrategy === "rowid") &&
+                    this.generationStrategy === "rowid" ||
+                    this.generationStrategy === "sequence") &&
                 this.type === "bigint" &&
                 value !== null
             )
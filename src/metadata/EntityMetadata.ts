@@ -11,6 +11,8 @@ import { ColumnMetadata } from "./ColumnMetadata"
 import { EmbeddedMetadata } from "./EmbeddedMetadata"
 import { EntityListenerMetadata } from "./EntityListenerMetadata"
 import { ExclusionMetadata } from "./ExclusionMetadata"
+import { TriggerMetadata } from "./TriggerMetadata"
+import { SequenceMetadata } from "./SequenceMetadata"
 import { ForeignKeyMetadata } from "./ForeignKeyMetadata"
 import { IndexMetadata } from "./IndexMetadata"
 import { RelationCountMetadata } from "./RelationCountMetadata"
@@ -23,6 +25,8 @@ import { ClosureTreeOptions } from "./types/ClosureTreeOptions"
 import { EntityPropertyNotFoundError } from "../error/EntityPropertyNotFoundError"
 import { ObjectUtils } from "../util/ObjectUtils"
 import { shorten } from "../util/StringUtils"
+import { EntityPartitioningOptions } from "../decorator/options/EntityPartitioningOptions"
+import { EntityCacheOptions } from "../decorator/options/EntityCacheOptions"
 
 /**
  * Contains all entity metadata.
@@ -107,6 +111,12 @@ export class EntityMetadata {
      */
     dependsOn?: Set<Function | string>
 
+    /**
+     * Names of the database functions the view depends on.
+     * Used in views
+     */
+    dependsOnFunctions?: string[]
+
     /**
      * Enables Sqlite "WITHOUT ROWID" modifier for the "CREATE TABLE" statement
      */
@@ -289,6 +299,11 @@ export class EntityMetadata {
      */
     versionColumn?: ColumnMetadata
 
+    /**
+     * Gets entity column which contains id of the tenant owning the entity.
+     */
+    tenantColumn?: ColumnMetadata
+
     /**
      * Gets the discriminator column used to store entity identificator in single-table inheritance tables.
      */
@@ -442,6 +457,16 @@ export class EntityMetadata {
      */
     exclusions: ExclusionMetadata[] = []
 
+    /**
+     * Entity's trigger metadatas.
+     */
+    triggers: TriggerMetadata[] = []
+
+    /**
+     * Entity's sequence metadatas.
+     */
+    sequences: SequenceMetadata[] = []
+
     /**
      * Entity's own listener metadatas.
      */
@@ -521,6 +546,16 @@ export class EntityMetadata {
      */
     comment?: string
 
+    /**
+     * Table partitioning. Supported by Postgres and MySQL.
+     */
+    partitioning?: EntityPartitioningOptions
+
+    /**
+     * Entity caching by primary keys. Undefined if entity is not cached.
+     */
+    cache?: EntityCacheOptions
+
     // ---------------------------------------------------------------------
     // Constructor
     // ---------------------------------------------------------------------
@@ -547,6 +582,7 @@ export class EntityMetadata {
         this.expression = this.tableMetadataArgs.expression
         this.withoutRowid = this.tableMetadataArgs.withoutRowid
         this.dependsOn = this.tableMetadataArgs.dependsOn
+        this.dependsOnFunctions = this.tableMetadataArgs.dependsOnFunctions
     }
 
     // -------------------------------------------------------------------------
@@ -1068,6 +1104,12 @@ export class EntityMetadata {
             this.tableMetadataArgs.type === "closure-junction"
 
         this.comment = this.tableMetadataArgs.comment
+        this.partitioning = this.tableMetadataArgs.partitioning
+        if (this.tableMetadataArgs.cache)
+            this.cache =
+                this.tableMetadataArgs.cache === true
+                    ? {}
+                    : this.tableMetadataArgs.cache
     }
 
     /**
@@ -0,0 +1,113 @@
+import { EntityMetadata } from "./EntityMetadata"
+import { ColumnMetadata } from "./ColumnMetadata"
+import { SequenceMetadataArgs } from "../metadata-args/SequenceMetadataArgs"
+import { TypeORMError } from "../error"
+
+/**
+ * Sequence metadata contains all information about database sequence declared by entity.
+ */
+export class SequenceMetadata {
+    // ---------------------------------------------------------------------
+    // Public Properties
+    // ---------------------------------------------------------------------
+
+    /**
+     * Entity metadata of the class which declares this sequence.
+     */
+    entityMetadata: EntityMetadata
+
+    /**
+     * Target class to which metadata is applied.
+     */
+    target?: Function | string
+
+    /**
+     * Sequence name.
+     */
+    name: string
+
+    /**
+     * First value returned by the sequence.
+     */
+    start?: number
+
+    /**
+     * Value added to the current sequence value to create a new value.
+     */
+    increment?: number
+
+    /**
+     * Minimum value the sequence can generate.
+     */
+    minValue?: number
+
+    /**
+     * Maximum value the sequence can generate.
+     */
+    maxValue?: number
+
+    /**
+     * Indicates if sequence wraps around when it reaches its limit.
+     */
+    cycle: boolean = false
+
+    /**
+     * Number of sequence values preallocated and stored in memory.
+     */
+    cache?: number
+
+    /**
+     * Property path of the owner column given by a user.
+     */
+    givenOwnedBy?: string
+
+    /**
+     * Column which owns the sequence.
+     */
+    ownedBy?: ColumnMetadata
+
+    // ---------------------------------------------------------------------
+    // Constructor
+    // ---------------------------------------------------------------------
+
+    constructor(options: {
+        entityMetadata: EntityMetadata
+        args?: SequenceMetadataArgs
+    }) {
+        this.entityMetadata = options.entityMetadata
+
+        if (options.args) {
+            this.target = options.args.target
+            this.name = options.args.name
+            this.start = options.args.start
+            this.increment = options.args.increment
+            this.minValue = options.args.minValue
+            this.maxValue = options.args.maxValue
+            if (options.args.cycle) this.cycle = options.args.cycle
+            this.cache = options.args.cache
+            this.givenOwnedBy = options.args.ownedBy
+        }
+    }
+
+    // ---------------------------------------------------------------------
+    // Public Build Methods
+    // ---------------------------------------------------------------------
+
+    /**
+     * Builds some depend sequence properties.
+     * Must be called after all entity metadata's properties map, columns and relations are built.
+     */
+    build(): this {
+        if (this.givenOwnedBy) {
+            const column = this.entityMetadata.findColumnWithPropertyPath(
+                this.givenOwnedBy,
+            )
+            if (!column)
+                throw new TypeORMError(
+                    `Owner column "${this.givenOwnedBy}" of sequence "${this.name}" was not found in ${this.entityMetadata.name}.`,
+                )
+            this.ownedBy = column
+        }
+        return this
+    }
+}
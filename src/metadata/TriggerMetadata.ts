@@ -0,0 +1,100 @@
+import { EntityMetadata } from "./EntityMetadata"
+import { NamingStrategyInterface } from "../naming-strategy/NamingStrategyInterface"
+import { TriggerMetadataArgs } from "../metadata-args/TriggerMetadataArgs"
+
+/**
+ * Trigger metadata contains all information about table's triggers.
+ */
+export class TriggerMetadata {
+    // ---------------------------------------------------------------------
+    // Public Properties
+    // ---------------------------------------------------------------------
+
+    /**
+     * Entity metadata of the class to which this trigger is applied.
+     */
+    entityMetadata: EntityMetadata
+
+    /**
+     * Target class to which metadata is applied.
+     */
+    target?: Function | string
+
+    /**
+     * When trigger fires relative to the triggering statement.
+     */
+    timing: "BEFORE" | "AFTER" | "INSTEAD OF"
+
+    /**
+     * Statements which fire the trigger.
+     */
+    events: ("INSERT" | "UPDATE" | "DELETE")[]
+
+    /**
+     * Indicates if trigger fires once per affected row or once per statement.
+     */
+    level: "ROW" | "STATEMENT" = "ROW"
+
+    /**
+     * Trigger action, as written after the trigger header.
+     */
+    body?: string
+
+    /**
+     * Name of the existing function executed by the trigger.
+     */
+    function?: string
+
+    /**
+     * User specified trigger name.
+     */
+    givenName?: string
+
+    /**
+     * Final trigger name.
+     * If trigger name was given by a user then it stores givenName.
+     * If trigger name was not given then its generated.
+     */
+    name: string
+
+    // ---------------------------------------------------------------------
+    // Constructor
+    // ---------------------------------------------------------------------
+
+    constructor(options: {
+        entityMetadata: EntityMetadata
+        args?: TriggerMetadataArgs
+    }) {
+        this.entityMetadata = options.entityMetadata
+
+        if (options.args) {
+            this.target = options.args.target
+            this.timing = options.args.timing
+            this.events = options.args.events
+            if (options.args.level) this.level = options.args.level
+            this.body = options.args.body
+            this.function = options.args.function
+            this.givenName = options.args.name
+        }
+    }
+
+    // ---------------------------------------------------------------------
+    // Public Build Methods
+    // ---------------------------------------------------------------------
+
+    /**
+     * Builds some depend trigger properties.
+     * Must be called after all entity metadata's properties map, columns and relations are built.
+     */
+    build(namingStrategy: NamingStrategyInterface): this {
+        this.name = this.givenName
+            ? this.givenName
+            : namingStrategy.triggerName(
+                  this.entityMetadata.tableName,
+                  this.timing,
+                  this.events,
+                  this.function || this.body || "",
+              )
+        return this
+    }
+}
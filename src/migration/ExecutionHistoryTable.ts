@@ -0,0 +1,202 @@
+import { Table } from "../schema-builder/table/Table"
+import { DataSource } from "../data-source/DataSource"
+import { ObjectLiteral } from "../common/ObjectLiteral"
+import { QueryRunner } from "../query-runner/QueryRunner"
+import { MssqlParameter } from "../driver/sqlserver/MssqlParameter"
+import { MongoQueryRunner } from "../driver/mongodb/MongoQueryRunner"
+
+/**
+ * Table keeping track of executed migrations or seeds by their timestamps and names.
+ */
+export class ExecutionHistoryTable {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    readonly database?: string
+    readonly schema?: string
+
+    /**
+     * Full path of the table, including its schema and database.
+     */
+    readonly tablePath: string
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(protected connection: DataSource, readonly tableName: string) {
+        const { schema } = this.connection.driver.options as any
+        this.database = this.connection.driver.database
+        this.schema = schema
+        this.tablePath = this.connection.driver.buildTableName(
+            tableName,
+            schema,
+            this.database,
+        )
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates the table if it does not exist yet.
+     */
+    async createIfNotExist(queryRunner: QueryRunner): Promise<void> {
+        // If driver is mongo no need to create
+        if (this.connection.driver.options.type === "mongodb") {
+            return
+        }
+        const tableExist = await queryRunner.hasTable(this.tablePath)
+        if (!tableExist) {
+            await queryRunner.createTable(
+                new Table({
+                    database: this.database,
+                    schema: this.schema,
+                    name: this.tablePath,
+                    columns: [
+                        {
+                            name: "id",
+                            type: this.connection.driver.normalizeType({
+                                type: this.connection.driver.mappedDataTypes
+                                    .migrationId,
+                            }),
+                            isGenerated: true,
+                            generationStrategy: "increment",
+                            isPrimary: true,
+                            isNullable: false,
+                        },
+                        {
+                            name: "timestamp",
+                            type: this.connection.driver.normalizeType({
+                                type: this.connection.driver.mappedDataTypes
+                                    .migrationTimestamp,
+                            }),
+                            isPrimary: false,
+                            isNullable: false,
+                        },
+                        {
+                            name: "name",
+                            type: this.connection.driver.normalizeType({
+                                type: this.connection.driver.mappedDataTypes
+                                    .migrationName,
+                            }),
+                            isNullable: false,
+                        },
+                    ],
+                }),
+            )
+        }
+    }
+
+    /**
+     * Loads all executed records (sorts by id, the latest first),
+     * creating them from their ids, timestamps and names.
+     */
+    async load<T>(
+        queryRunner: QueryRunner,
+        create: (id: number, timestamp: number, name: string) => T,
+    ): Promise<T[]> {
+        if (this.connection.driver.options.type === "mongodb") {
+            const mongoRunner = queryRunner as MongoQueryRunner
+            return mongoRunner
+                .cursor(this.tableName, {})
+                .sort({ _id: -1 })
+                .toArray() as Promise<any[]>
+        } else {
+            const rows: ObjectLiteral[] = await this.connection.manager
+                .createQueryBuilder(queryRunner)
+                .select()
+                .orderBy(this.connection.driver.escape("id"), "DESC")
+                .from(this.tablePath, this.tableName)
+                .getRawMany()
+            return rows.map((row) =>
+                create(
+                    parseInt(row["id"]),
+                    parseInt(row["timestamp"]),
+                    row["name"],
+                ),
+            )
+        }
+    }
+
+    /**
+     * Inserts record of the executed migration or seed.
+     */
+    async insert(
+        queryRunner: QueryRunner,
+        record: { timestamp: number; name: string },
+    ): Promise<void> {
+        const values = this.createValues(record)
+        if (this.connection.driver.options.type === "mongodb") {
+            const mongoRunner = queryRunner as MongoQueryRunner
+            await mongoRunner.databaseConnection
+                .db(this.connection.driver.database!)
+                .collection(this.tableName)
+                .insertOne(values)
+        } else {
+            const qb = queryRunner.manager.createQueryBuilder()
+            await qb.insert().into(this.tablePath).values(values).execute()
+        }
+    }
+
+    /**
+     * Deletes record of the previously executed migration or seed.
+     */
+    async delete(
+        queryRunner: QueryRunner,
+        record: { timestamp: number; name: string },
+    ): Promise<void> {
+        const conditions = this.createValues(record)
+        if (this.connection.driver.options.type === "mongodb") {
+            const mongoRunner = queryRunner as MongoQueryRunner
+            await mongoRunner.databaseConnection
+                .db(this.connection.driver.database!)
+                .collection(this.tableName)
+                .deleteOne(conditions)
+        } else {
+            const qb = queryRunner.manager.createQueryBuilder()
+            await qb
+                .delete()
+                .from(this.tablePath)
+                .where(`${qb.escape("timestamp")} = :timestamp`)
+                .andWhere(`${qb.escape("name")} = :name`)
+                .setParameters(conditions)
+                .execute()
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates column values of the given record.
+     */
+    protected createValues(record: {
+        timestamp: number
+        name: string
+    }): ObjectLiteral {
+        const values: ObjectLiteral = {}
+        if (this.connection.driver.options.type === "mssql") {
+            values["timestamp"] = new MssqlParameter(
+                record.timestamp,
+                this.connection.driver.normalizeType({
+                    type: this.connection.driver.mappedDataTypes
+                        .migrationTimestamp,
+                }) as any,
+            )
+            values["name"] = new MssqlParameter(
+                record.name,
+                this.connection.driver.normalizeType({
+                    type: this.connection.driver.mappedDataTypes.migrationName,
+                }) as any,
+            )
+        } else {
+            values["timestamp"] = record.timestamp
+            values["name"] = record.name
+        }
+        return values
+    }
+}
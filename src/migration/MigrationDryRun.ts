@@ -0,0 +1,49 @@
+import { Query } from "../driver/Query"
+import { Migration } from "./Migration"
+
+/**
+ * Sql queries recorded during dry-run of a single migration.
+ */
+export class MigrationDryRun {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Migration that was dry-run.
+     */
+    migration: Migration
+
+    /**
+     * Migration method that was dry-run.
+     */
+    direction: "up" | "down"
+
+    /**
+     * All queries that would be executed, in execution order.
+     */
+    queries: Query[]
+
+    /**
+     * Queries passed directly to QueryRunner.query().
+     * They were recorded but not executed, so their results were not available to the migration
+     * and the following queries may differ from the real run.
+     */
+    rawQueries: Query[]
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(
+        migration: Migration,
+        direction: "up" | "down",
+        queries: Query[],
+        rawQueries: Query[],
+    ) {
+        this.migration = migration
+        this.direction = direction
+        this.queries = queries
+        this.rawQueries = rawQueries
+    }
+}
@@ -0,0 +1,311 @@
+import { Query } from "../driver/Query"
+import { EntityManager } from "../entity-manager/EntityManager"
+import { TypeORMError } from "../error"
+import { QueryResult } from "../query-runner/QueryResult"
+import { QueryRunner } from "../query-runner/QueryRunner"
+import { Table } from "../schema-builder/table/Table"
+
+/**
+ * Wraps a query runner used to dry-run migrations.
+ * Queries are recorded instead of being executed, except queries made by the methods
+ * reading database metadata (e.g. hasTable or getTable) which are needed to build schema changes.
+ * Tables created and dropped by previous migrations are remembered, so following migrations can use them.
+ */
+export class MigrationDryRunQueryRunner {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Query runner given to migrations instead of the wrapped one.
+     */
+    readonly queryRunner: QueryRunner
+
+    /**
+     * Queries passed directly to query() since the last clear.
+     */
+    rawQueries: Query[] = []
+
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Methods reading database metadata, queries made by them are executed.
+     * Includes protected methods of the drivers' query runners called by their schema changing methods.
+     */
+    protected static readonly metadataReadMethods: string[] = [
+        "getCurrentDatabase",
+        "getCurrentSchema",
+        "getDatabases",
+        "getSchemas",
+        "getVersion",
+        "getReplicationMode",
+        "getTable",
+        "getTables",
+        "getView",
+        "getViews",
+        "getSequences",
+        "getFunctions",
+        "getCachedTable",
+        "getCachedView",
+        "getCachedSequence",
+        "getCachedFunction",
+        "getUserDefinedTypeName",
+        "getTableNameWithSchema",
+        "hasDatabase",
+        "hasSchema",
+        "hasTable",
+        "hasColumn",
+        "hasEnumType",
+        "hasSupportForPartitionedTables",
+        "loadTables",
+        "loadViews",
+        "loadSequences",
+        "loadFunctions",
+        "loadTableRecords",
+        "loadPragmaRecords",
+    ]
+
+    /**
+     * Methods which are executed without query() and cannot be recorded.
+     */
+    protected static readonly unsupportedMethods: string[] = [
+        "callProcedure",
+        "stream",
+        "clearDatabase",
+    ]
+
+    /**
+     * Number of metadata reads in progress, queries are executed while it is greater than zero.
+     */
+    protected readDepth = 0
+
+    /**
+     * Paths of tables dropped or renamed by migrations.
+     */
+    protected droppedTablePaths = new Set<string>()
+
+    /**
+     * Entity manager working with the wrapping query runner.
+     */
+    protected manager?: EntityManager
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(protected target: QueryRunner) {
+        this.queryRunner = new Proxy(target, {
+            get: (target, property, receiver: QueryRunner) =>
+                this.getProperty(property, receiver),
+            set: (target, property, value) => {
+                // entity manager created for the wrapper must not replace manager of the wrapped query runner
+                if (property === "manager") {
+                    this.manager = value
+                    return true
+                }
+                return Reflect.set(target, property, value)
+            },
+        })
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Clears recorded queries.
+     */
+    clear(): void {
+        this.rawQueries = []
+        this.target.clearSqlMemory()
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Gets property of the wrapping query runner.
+     * Methods of the wrapped query runner are called with the wrapping one as "this",
+     * so their queries and calls of other methods are intercepted as well.
+     */
+    protected getProperty(
+        property: string | symbol,
+        receiver: QueryRunner,
+    ): unknown {
+        switch (property) {
+            case "manager":
+                if (!this.manager)
+                    this.manager =
+                        this.target.connection.createEntityManager(receiver)
+                return this.manager
+            case "query":
+                return (
+                    query: string,
+                    parameters?: unknown[],
+                    useStructuredResult?: boolean,
+                ) => this.query(query, parameters, useStructuredResult)
+            case "startTransaction":
+            case "commitTransaction":
+            case "rollbackTransaction":
+                // migrations are not executed, so there is nothing to run in transaction
+                return () => Promise.resolve()
+            case "hasTable":
+                return (target: Table | string) => this.hasTable(target)
+            case "getCachedTable":
+                return (tableName: string) => this.getCachedTable(tableName)
+            case "createTable":
+                return (...args: Parameters<QueryRunner["createTable"]>) =>
+                    this.createTable(...args)
+            case "dropTable":
+                return (...args: Parameters<QueryRunner["dropTable"]>) =>
+                    this.dropTable(...args)
+            case "renameTable":
+                return (...args: Parameters<QueryRunner["renameTable"]>) =>
+                    this.renameTable(...args)
+        }
+
+        const value: unknown = Reflect.get(this.target, property, receiver)
+        if (typeof property !== "string" || typeof value !== "function")
+            return value
+
+        if (MigrationDryRunQueryRunner.unsupportedMethods.includes(property))
+            return () =>
+                Promise.reject(
+                    new TypeORMError(
+                        `${property}() cannot be used in migrations dry-run.`,
+                    ),
+                )
+
+        if (MigrationDryRunQueryRunner.metadataReadMethods.includes(property))
+            return (...args: unknown[]) =>
+                this.read(() => value.apply(receiver, args))
+
+        return value
+    }
+
+    /**
+     * Executes given metadata read, allowing its queries to be executed.
+     */
+    protected read<T>(callback: () => T): T {
+        this.readDepth++
+        let result: T
+        try {
+            result = callback()
+        } catch (err) {
+            this.readDepth--
+            throw err
+        }
+        if (!(result instanceof Promise)) {
+            this.readDepth--
+            return result
+        }
+        return result.finally(() => this.readDepth--) as T
+    }
+
+    /**
+     * Executes query made by metadata read, records all other queries.
+     */
+    protected async query(
+        query: string,
+        parameters?: unknown[],
+        useStructuredResult?: boolean,
+    ): Promise<unknown> {
+        if (this.readDepth > 0)
+            return useStructuredResult
+                ? this.target.query(query, parameters, true)
+                : this.target.query(query, parameters)
+
+        const rawQuery = new Query(query, parameters)
+        this.rawQueries.push(rawQuery)
+        this.target.getMemorySql().upQueries.push(rawQuery)
+        return useStructuredResult ? new QueryResult() : []
+    }
+
+    protected async hasTable(target: Table | string): Promise<boolean> {
+        const tablePath = this.getTablePath(target)
+        if (this.droppedTablePaths.has(tablePath)) return false
+        if (this.findLoadedTable(tablePath)) return true
+        return this.read(() =>
+            this.target.hasTable.call(this.queryRunner, target),
+        )
+    }
+
+    protected async getCachedTable(tableName: string): Promise<Table> {
+        const tablePath = this.getTablePath(tableName)
+        if (this.droppedTablePaths.has(tablePath))
+            throw new TypeORMError(`Table "${tableName}" does not exist.`)
+
+        const table = this.findLoadedTable(tablePath)
+        if (table) return table
+
+        // getCachedTable is protected in query runners
+        const getCachedTable = Reflect.get(this.target, "getCachedTable") as (
+            tableName: string,
+        ) => Promise<Table>
+        return this.read(() => getCachedTable.call(this.queryRunner, tableName))
+    }
+
+    protected async createTable(
+        ...args: Parameters<QueryRunner["createTable"]>
+    ): Promise<void> {
+        const [table] = args
+        const tablePath = this.getTablePath(table)
+        const isTableExist = await this.hasTable(table)
+        await this.target.createTable.apply(this.queryRunner, args)
+        if (isTableExist) return
+
+        this.droppedTablePaths.delete(tablePath)
+        this.forgetLoadedTable(tablePath)
+        this.target.loadedTables.push(table.clone())
+    }
+
+    protected async dropTable(
+        ...args: Parameters<QueryRunner["dropTable"]>
+    ): Promise<void> {
+        const [target] = args
+        const isTableExist = await this.hasTable(target)
+        await this.target.dropTable.apply(this.queryRunner, args)
+        if (!isTableExist) return
+
+        const tablePath = this.getTablePath(target)
+        this.forgetLoadedTable(tablePath)
+        this.droppedTablePaths.add(tablePath)
+    }
+
+    protected async renameTable(
+        ...args: Parameters<QueryRunner["renameTable"]>
+    ): Promise<void> {
+        const [target, newTableName] = args
+        await this.target.renameTable.apply(this.queryRunner, args)
+        this.droppedTablePaths.add(this.getTablePath(target))
+        this.droppedTablePaths.delete(this.getTablePath(newTableName))
+    }
+
+    protected findLoadedTable(tablePath: string): Table | undefined {
+        return this.target.loadedTables.find(
+            (table) => this.getTablePath(table) === tablePath,
+        )
+    }
+
+    protected forgetLoadedTable(tablePath: string): void {
+        this.target.loadedTables = this.target.loadedTables.filter(
+            (table) => this.getTablePath(table) !== tablePath,
+        )
+    }
+
+    /**
+     * Gets path of the given table used to track tables changed during dry-run.
+     */
+    protected getTablePath(target: Table | string): string {
+        const driver = this.target.connection.driver
+        const parsed = driver.parseTableName(target)
+        return driver.buildTableName(
+            parsed.tableName,
+            parsed.schema,
+            parsed.database,
+        )
+    }
+}
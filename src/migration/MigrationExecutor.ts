@@ -1,12 +1,15 @@
 import { Table } from "../schema-builder/table/Table"
 import { DataSource } from "../data-source/DataSource"
 import { Migration } from "./Migration"
-import { ObjectLiteral } from "../common/ObjectLiteral"
 import { QueryRunner } from "../query-runner/QueryRunner"
-import { MssqlParameter } from "../driver/sqlserver/MssqlParameter"
-import { MongoQueryRunner } from "../driver/mongodb/MongoQueryRunner"
-import { ForbiddenTransactionModeOverrideError, TypeORMError } from "../error"
+import { CannotAcquireMigrationsLockError, TypeORMError } from "../error"
 import { InstanceChecker } from "../util/InstanceChecker"
+import { MigrationDryRun } from "./MigrationDryRun"
+import { MigrationDryRunQueryRunner } from "./MigrationDryRunQueryRunner"
+import { DriverUtils } from "../driver/DriverUtils"
+import { hash } from "../util/StringUtils"
+import { ExecutionHistoryTable } from "./ExecutionHistoryTable"
+import { TransactionModeUtils } from "../util/TransactionModeUtils"
 
 /**
  * Executes migrations: runs pending and reverts previously executed migrations.
@@ -42,6 +45,15 @@ export class MigrationExecutor {
     private readonly migrationsTable: string
     private readonly migrationsTableName: string
 
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Table keeping track of executed migrations.
+     */
+    protected readonly migrationsHistory: ExecutionHistoryTable
+
     // -------------------------------------------------------------------------
     // Constructor
     // -------------------------------------------------------------------------
@@ -61,6 +73,10 @@ export class MigrationExecutor {
             schema,
             database,
         )
+        this.migrationsHistory = new ExecutionHistoryTable(
+            connection,
+            this.migrationsTableName,
+        )
     }
 
     // -------------------------------------------------------------------------
@@ -81,7 +97,7 @@ export class MigrationExecutor {
             }
 
             await queryRunner.beforeMigration()
-            await (migration.instance as any).up(queryRunner)
+            await this.runMigration(queryRunner, migration, "up")
             await queryRunner.afterMigration()
             await this.insertExecutedMigration(queryRunner, migration)
 
@@ -191,6 +207,122 @@ export class MigrationExecutor {
     async executePendingMigrations(): Promise<Migration[]> {
         const queryRunner =
             this.queryRunner || this.connection.createQueryRunner()
+        return this.withMigrationsLock(queryRunner, () =>
+            this.runPendingMigrations(queryRunner),
+        )
+    }
+
+    /**
+     * Reverts last migration that were run.
+     */
+    async undoLastMigration(): Promise<void> {
+        const queryRunner =
+            this.queryRunner || this.connection.createQueryRunner()
+        return this.withMigrationsLock(queryRunner, () =>
+            this.revertLastMigration(queryRunner),
+        )
+    }
+
+    /**
+     * Runs or reverts migrations, so the given target becomes the last executed migration.
+     * Target is a migration name or timestamp, 0 reverts all executed migrations.
+     * When direction is given, migrating to a target which requires the opposite direction throws an error.
+     * Returns migrations that were executed or reverted.
+     */
+    async migrateTo(
+        target: string | number,
+        direction?: "up" | "down",
+    ): Promise<Migration[]> {
+        const queryRunner =
+            this.queryRunner || this.connection.createQueryRunner()
+        return this.withMigrationsLock(queryRunner, () =>
+            this.runMigrationsTo(queryRunner, target, direction),
+        )
+    }
+
+    /**
+     * Records sql queries of all pending migrations without executing them.
+     * Nothing is written into the database, including the migrations table.
+     */
+    async dryRunPendingMigrations(): Promise<MigrationDryRun[]> {
+        return this.withQueryRunner(async (queryRunner) => {
+            const executedMigrations =
+                await this.loadExecutedMigrationsForDryRun(queryRunner)
+
+            const pendingMigrations = this.getMigrations().filter(
+                (migration) =>
+                    !executedMigrations.find(
+                        (executedMigration) =>
+                            executedMigration.name === migration.name,
+                    ),
+            )
+
+            return this.dryRunMigrations(queryRunner, pendingMigrations, "up")
+        })
+    }
+
+    /**
+     * Records sql queries of the last executed migration revert without executing them.
+     * Returns undefined if there is no migration to revert.
+     */
+    async dryRunUndoLastMigration(): Promise<MigrationDryRun | undefined> {
+        return this.withQueryRunner(async (queryRunner) => {
+            const executedMigrations =
+                await this.loadExecutedMigrationsForDryRun(queryRunner)
+
+            const lastTimeExecutedMigration =
+                this.getLatestExecutedMigration(executedMigrations)
+            if (!lastTimeExecutedMigration) return undefined
+
+            const migrationToRevert = this.getMigrations().find(
+                (migration) =>
+                    migration.name === lastTimeExecutedMigration.name,
+            )
+            if (!migrationToRevert)
+                throw new TypeORMError(
+                    `No migration ${lastTimeExecutedMigration.name} was found in the source code. Make sure you have this migration in your codebase and its included in the connection options.`,
+                )
+
+            const [dryRun] = await this.dryRunMigrations(
+                queryRunner,
+                [migrationToRevert],
+                "down",
+            )
+            return dryRun
+        })
+    }
+
+    /**
+     * Records sql queries of migrations executed or reverted by migrateTo without executing them.
+     */
+    async dryRunMigrateTo(
+        target: string | number,
+        allowedDirection?: "up" | "down",
+    ): Promise<MigrationDryRun[]> {
+        return this.withQueryRunner(async (queryRunner) => {
+            const executedMigrations =
+                await this.loadExecutedMigrationsForDryRun(queryRunner)
+
+            const { direction, migrations } = this.getMigrationsToTarget(
+                executedMigrations,
+                target,
+                allowedDirection,
+            )
+
+            return this.dryRunMigrations(queryRunner, migrations, direction)
+        })
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Executes all pending migrations using the given query runner.
+     */
+    protected async runPendingMigrations(
+        queryRunner: QueryRunner,
+    ): Promise<Migration[]> {
         // create migrations table if it's not created yet
         await this.createMigrationsTableIfNotExist(queryRunner)
 
@@ -212,9 +344,6 @@ export class MigrationExecutor {
         // get all user's migrations in the source code
         const allMigrations = this.getMigrations()
 
-        // variable to store all migrations we did successfully
-        const successMigrations: Migration[] = []
-
         // find all migrations that needs to be executed
         const pendingMigrations = allMigrations.filter((migration) => {
             // check if we already have executed migration
@@ -235,8 +364,6 @@ export class MigrationExecutor {
         // if no migrations are pending then nothing to do here
         if (!pendingMigrations.length) {
             this.connection.logger.logSchemaBuild(`No migrations are pending`)
-            // if query runner was created by us then release it
-            if (!this.queryRunner) await queryRunner.release()
             return []
         }
 
@@ -259,141 +386,15 @@ export class MigrationExecutor {
             `${pendingMigrations.length} migrations are new migrations must be executed.`,
         )
 
-        if (this.transaction === "all") {
-            // If we desire to run all migrations in a single transaction
-            // but there is a migration that explicitly overrides the transaction mode
-            // then we have to fail since we cannot properly resolve that intent
-            // In theory we could support overrides that are set to `true`,
-            // however to keep the interface more rigid, we fail those too
-            const migrationsOverridingTransactionMode =
-                pendingMigrations.filter(
-                    (migration) =>
-                        !(migration.instance?.transaction === undefined),
-                )
-
-            if (migrationsOverridingTransactionMode.length > 0) {
-                const error = new ForbiddenTransactionModeOverrideError(
-                    migrationsOverridingTransactionMode,
-                )
-                this.connection.logger.logMigration(
-                    `Migrations failed, error: ${error.message}`,
-                )
-                throw error
-            }
-        }
-
-        // Set the per-migration defaults for the transaction mode
-        // so that we have one centralized place that controls this behavior
-
-        // When transaction mode is `each` the default is to run in a transaction
-        // When transaction mode is `none` the default is to not run in a transaction
-        // When transaction mode is `all` the default is to not run in a transaction
-        // since all the migrations are already running in one single transaction
-
-        const txModeDefault = {
-            each: true,
-            none: false,
-            all: false,
-        }[this.transaction]
-
-        for (const migration of pendingMigrations) {
-            if (migration.instance) {
-                const instanceTx = migration.instance.transaction
-
-                if (instanceTx === undefined) {
-                    migration.transaction = txModeDefault
-                } else {
-                    migration.transaction = instanceTx
-                }
-            }
-        }
-
-        // start transaction if its not started yet
-        let transactionStartedByUs = false
-        if (this.transaction === "all" && !queryRunner.isTransactionActive) {
-            await queryRunner.beforeMigration()
-            await queryRunner.startTransaction()
-            transactionStartedByUs = true
-        }
-
-        // run all pending migrations in a sequence
-        try {
-            for (const migration of pendingMigrations) {
-                if (this.fake) {
-                    // directly insert migration record into the database if it is fake
-                    await this.insertExecutedMigration(queryRunner, migration)
-
-                    // nothing else needs to be done, continue to next migration
-                    continue
-                }
-
-                if (migration.transaction && !queryRunner.isTransactionActive) {
-                    await queryRunner.beforeMigration()
-                    await queryRunner.startTransaction()
-                    transactionStartedByUs = true
-                }
-
-                await migration
-                    .instance!.up(queryRunner)
-                    .catch((error) => {
-                        // informative log about migration failure
-                        this.connection.logger.logMigration(
-                            `Migration "${migration.name}" failed, error: ${error?.message}`,
-                        )
-                        throw error
-                    })
-                    .then(async () => {
-                        // now when migration is executed we need to insert record about it into the database
-                        await this.insertExecutedMigration(
-                            queryRunner,
-                            migration,
-                        )
-                        // commit transaction if we started it
-                        if (migration.transaction && transactionStartedByUs) {
-                            await queryRunner.commitTransaction()
-                            await queryRunner.afterMigration()
-                        }
-                    })
-                    .then(() => {
-                        // informative log about migration success
-                        successMigrations.push(migration)
-                        this.connection.logger.logSchemaBuild(
-                            `Migration ${migration.name} has been ${
-                                this.fake ? "(fake)" : ""
-                            } executed successfully.`,
-                        )
-                    })
-            }
-
-            // commit transaction if we started it
-            if (this.transaction === "all" && transactionStartedByUs) {
-                await queryRunner.commitTransaction()
-                await queryRunner.afterMigration()
-            }
-        } catch (err) {
-            // rollback transaction if we started it
-            if (transactionStartedByUs) {
-                try {
-                    // we throw original error even if rollback thrown an error
-                    await queryRunner.rollbackTransaction()
-                } catch (rollbackError) {}
-            }
-
-            throw err
-        } finally {
-            // if query runner was created by us then release it
-            if (!this.queryRunner) await queryRunner.release()
-        }
-        return successMigrations
+        return this.executeMigrations(queryRunner, pendingMigrations, "up")
     }
 
     /**
-     * Reverts last migration that were run.
+     * Reverts last migration that were run using the given query runner.
      */
-    async undoLastMigration(): Promise<void> {
-        const queryRunner =
-            this.queryRunner || this.connection.createQueryRunner()
-
+    protected async revertLastMigration(
+        queryRunner: QueryRunner,
+    ): Promise<void> {
         // create migrations table if it's not created yet
         await this.createMigrationsTableIfNotExist(queryRunner)
 
@@ -457,7 +458,7 @@ export class MigrationExecutor {
         try {
             if (!this.fake) {
                 await queryRunner.beforeMigration()
-                await migrationToRevert.instance!.down(queryRunner)
+                await this.runMigration(queryRunner, migrationToRevert, "down")
                 await queryRunner.afterMigration()
             }
 
@@ -480,112 +481,370 @@ export class MigrationExecutor {
             }
 
             throw err
-        } finally {
-            // if query runner was created by us then release it
-            if (!this.queryRunner) await queryRunner.release()
         }
     }
 
-    // -------------------------------------------------------------------------
-    // Protected Methods
-    // -------------------------------------------------------------------------
-
     /**
-     * Creates table "migrations" that will store information about executed migrations.
+     * Runs or reverts migrations up to the given target using the given query runner.
      */
-    protected async createMigrationsTableIfNotExist(
+    protected async runMigrationsTo(
         queryRunner: QueryRunner,
-    ): Promise<void> {
-        // If driver is mongo no need to create
-        if (this.connection.driver.options.type === "mongodb") {
-            return
+        target: string | number,
+        allowedDirection?: "up" | "down",
+    ): Promise<Migration[]> {
+        // create migrations table if it's not created yet
+        await this.createMigrationsTableIfNotExist(queryRunner)
+
+        // create the typeorm_metadata table if it's not created yet
+        const schemaBuilder = this.connection.driver.createSchemaBuilder()
+        if (InstanceChecker.isRdbmsSchemaBuilder(schemaBuilder)) {
+            await schemaBuilder.createMetadataTableIfNecessary(queryRunner)
         }
-        const tableExist = await queryRunner.hasTable(this.migrationsTable) // todo: table name should be configurable
-        if (!tableExist) {
-            await queryRunner.createTable(
-                new Table({
-                    database: this.migrationsDatabase,
-                    schema: this.migrationsSchema,
-                    name: this.migrationsTable,
-                    columns: [
-                        {
-                            name: "id",
-                            type: this.connection.driver.normalizeType({
-                                type: this.connection.driver.mappedDataTypes
-                                    .migrationId,
-                            }),
-                            isGenerated: true,
-                            generationStrategy: "increment",
-                            isPrimary: true,
-                            isNullable: false,
-                        },
-                        {
-                            name: "timestamp",
-                            type: this.connection.driver.normalizeType({
-                                type: this.connection.driver.mappedDataTypes
-                                    .migrationTimestamp,
-                            }),
-                            isPrimary: false,
-                            isNullable: false,
-                        },
-                        {
-                            name: "name",
-                            type: this.connection.driver.normalizeType({
-                                type: this.connection.driver.mappedDataTypes
-                                    .migrationName,
-                            }),
-                            isNullable: false,
-                        },
-                    ],
-                }),
+
+        // get all migrations that are executed and saved in the database
+        const executedMigrations = await this.loadExecutedMigrations(
+            queryRunner,
+        )
+
+        const { direction, migrations } = this.getMigrationsToTarget(
+            executedMigrations,
+            target,
+            allowedDirection,
+        )
+
+        // if target is already the last executed migration then nothing to do here
+        if (!migrations.length) {
+            this.connection.logger.logSchemaBuild(
+                `Database is already migrated to ${target}. Nothing to do!`,
             )
+            return []
         }
-    }
 
-    /**
-     * Loads all migrations that were executed and saved into the database (sorts by id).
-     */
-    protected async loadExecutedMigrations(
-        queryRunner: QueryRunner,
-    ): Promise<Migration[]> {
-        if (this.connection.driver.options.type === "mongodb") {
-            const mongoRunner = queryRunner as MongoQueryRunner
-            return mongoRunner
-                .cursor(this.migrationsTableName, {})
-                .sort({ _id: -1 })
-                .toArray()
-        } else {
-            const migrationsRaw: ObjectLiteral[] = await this.connection.manager
-                .createQueryBuilder(queryRunner)
-                .select()
-                .orderBy(this.connection.driver.escape("id"), "DESC")
-                .from(this.migrationsTable, this.migrationsTableName)
-                .getRawMany()
-            return migrationsRaw.map((migrationRaw) => {
-                return new Migration(
-                    parseInt(migrationRaw["id"]),
-                    parseInt(migrationRaw["timestamp"]),
-                    migrationRaw["name"],
-                )
-            })
-        }
+        this.connection.logger.logSchemaBuild(
+            `${executedMigrations.length} migrations are already loaded in the database.`,
+        )
+        this.connection.logger.logSchemaBuild(
+            `${migrations.length} migrations must be ${
+                direction === "up" ? "executed" : "reverted"
+            } to migrate to ${target}.`,
+        )
+
+        return this.executeMigrations(queryRunner, migrations, direction)
     }
 
     /**
-     * Gets all migrations that setup for this connection.
+     * Finds migrations that must be executed or reverted to make the given target the last executed migration.
+     * Migrations to revert are returned in the reverse order of their execution.
+     * Throws an error if migrations must be executed in other than the allowed direction.
      */
-    protected getMigrations(): Migration[] {
-        const migrations = this.connection.migrations.map((migration) => {
-            const migrationClassName =
-                migration.name || (migration.constructor as any).name
-            const migrationTimestamp = parseInt(
-                migrationClassName.substr(-13),
-                10,
+    protected getMigrationsToTarget(
+        executedMigrations: Migration[],
+        target: string | number,
+        allowedDirection?: "up" | "down",
+    ): { direction: "up" | "down"; migrations: Migration[] } {
+        const allMigrations = this.getMigrations()
+        const revertAll = String(target) === "0"
+        const targetMigration = allMigrations.find(
+            (migration) =>
+                migration.name === String(target) ||
+                String(migration.timestamp) === String(target),
+        )
+        if (!revertAll && !targetMigration)
+            throw new TypeORMError(
+                `No migration ${target} was found in the source code. Target should be a migration name or timestamp.`,
             )
-            if (!migrationTimestamp || isNaN(migrationTimestamp)) {
-                throw new TypeORMError(
-                    `${migrationClassName} migration name is wrong. Migration class name should have a JavaScript timestamp appended.`,
-                )
+
+        const isExecuted = (migration: Migration) =>
+            executedMigrations.some(
+                (executedMigration) =>
+                    executedMigration.name === migration.name,
+            )
+
+        if (targetMigration && !isExecuted(targetMigration)) {
+            // running the target would leave later executed migrations applied before it
+            const laterExecutedMigrations = executedMigrations.filter(
+                (executedMigration) =>
+                    executedMigration.timestamp > targetMigration.timestamp,
+            )
+            if (laterExecutedMigrations.length > 0) {
+                const names = laterExecutedMigrations
+                    .map((migration) => migration.name)
+                    .join(", ")
+                throw new TypeORMError(
+                    `Cannot migrate to ${targetMigration.name}, because newer migrations ${names} are already executed. Revert them first.`,
+                )
+            }
+
+            if (allowedDirection === "down")
+                throw new TypeORMError(
+                    `Cannot revert to ${targetMigration.name}, because it is not executed yet. Run migrations to it instead.`,
+                )
+
+            return {
+                direction: "up",
+                migrations: allMigrations.filter(
+                    (migration) =>
+                        migration.timestamp <= targetMigration.timestamp &&
+                        !isExecuted(migration),
+                ),
+            }
+        }
+
+        // executed migrations are sorted by descending id
+        const migrations = executedMigrations
+            .filter(
+                (executedMigration) =>
+                    !targetMigration ||
+                    executedMigration.timestamp > targetMigration.timestamp,
+            )
+            .map((executedMigration) => {
+                const migration = allMigrations.find(
+                    (migration) => migration.name === executedMigration.name,
+                )
+                if (!migration)
+                    throw new TypeORMError(
+                        `No migration ${executedMigration.name} was found in the source code. Make sure you have this migration in your codebase and its included in the connection options.`,
+                    )
+                return migration
+            })
+
+        if (allowedDirection === "up" && migrations.length > 0)
+            throw new TypeORMError(
+                `Cannot run migrations to ${target}, because it requires reverting migrations ${migrations
+                    .map((migration) => migration.name)
+                    .join(", ")}. Revert them instead.`,
+            )
+
+        return { direction: "down", migrations }
+    }
+
+    /**
+     * Runs up or down methods of the given migrations in a sequence,
+     * respecting the configured transaction mode for the whole sequence.
+     */
+    protected async executeMigrations(
+        queryRunner: QueryRunner,
+        migrations: Migration[],
+        direction: "up" | "down",
+    ): Promise<Migration[]> {
+        try {
+            TransactionModeUtils.applyTransactionMode(
+                migrations,
+                this.transaction,
+                "migration",
+            )
+        } catch (error) {
+            this.connection.logger.logMigration(
+                `Migrations failed, error: ${error.message}`,
+            )
+            throw error
+        }
+
+        // start transaction if its not started yet
+        let transactionStartedByUs = false
+        if (this.transaction === "all" && !queryRunner.isTransactionActive) {
+            await queryRunner.beforeMigration()
+            await queryRunner.startTransaction()
+            transactionStartedByUs = true
+        }
+
+        // variable to store all migrations we did successfully
+        const successMigrations: Migration[] = []
+
+        // run all migrations in a sequence
+        try {
+            for (const migration of migrations) {
+                if (this.fake) {
+                    // directly insert or delete migration record in the database if it is fake
+                    if (direction === "up") {
+                        await this.insertExecutedMigration(
+                            queryRunner,
+                            migration,
+                        )
+                    } else {
+                        await this.deleteExecutedMigration(
+                            queryRunner,
+                            migration,
+                        )
+                    }
+
+                    // nothing else needs to be done, continue to next migration
+                    continue
+                }
+
+                if (migration.transaction && !queryRunner.isTransactionActive) {
+                    await queryRunner.beforeMigration()
+                    await queryRunner.startTransaction()
+                    transactionStartedByUs = true
+                }
+
+                await this.runMigration(queryRunner, migration, direction)
+                    .catch((error) => {
+                        // informative log about migration failure
+                        this.connection.logger.logMigration(
+                            `Migration "${migration.name}" failed, error: ${error?.message}`,
+                        )
+                        throw error
+                    })
+                    .then(async () => {
+                        // now when migration is executed we need to insert or delete record about it in the database
+                        if (direction === "up") {
+                            await this.insertExecutedMigration(
+                                queryRunner,
+                                migration,
+                            )
+                        } else {
+                            await this.deleteExecutedMigration(
+                                queryRunner,
+                                migration,
+                            )
+                        }
+                        // commit transaction if we started it
+                        if (migration.transaction && transactionStartedByUs) {
+                            await queryRunner.commitTransaction()
+                            await queryRunner.afterMigration()
+                        }
+                    })
+                    .then(() => {
+                        // informative log about migration success
+                        successMigrations.push(migration)
+                        this.connection.logger.logSchemaBuild(
+                            `Migration ${migration.name} has been ${
+                                this.fake ? "(fake)" : ""
+                            } ${
+                                direction === "up" ? "executed" : "reverted"
+                            } successfully.`,
+                        )
+                    })
+            }
+
+            // commit transaction if we started it
+            if (this.transaction === "all" && transactionStartedByUs) {
+                await queryRunner.commitTransaction()
+                await queryRunner.afterMigration()
+            }
+        } catch (err) {
+            // rollback transaction if we started it
+            if (transactionStartedByUs) {
+                try {
+                    // we throw original error even if rollback thrown an error
+                    await queryRunner.rollbackTransaction()
+                } catch (rollbackError) {}
+            }
+
+            throw err
+        }
+        return successMigrations
+    }
+
+    /**
+     * Creates table "migrations" that will store information about executed migrations.
+     */
+    protected async createMigrationsTableIfNotExist(
+        queryRunner: QueryRunner,
+    ): Promise<void> {
+        await this.migrationsHistory.createIfNotExist(queryRunner)
+    }
+
+    /**
+     * Loads all migrations that were executed and saved into the database (sorts by id).
+     */
+    protected async loadExecutedMigrations(
+        queryRunner: QueryRunner,
+    ): Promise<Migration[]> {
+        return this.migrationsHistory.load(
+            queryRunner,
+            (id, timestamp, name) => new Migration(id, timestamp, name),
+        )
+    }
+
+    /**
+     * Loads executed migrations without creating the migrations table if it does not exist yet.
+     */
+    protected async loadExecutedMigrationsForDryRun(
+        queryRunner: QueryRunner,
+    ): Promise<Migration[]> {
+        if (this.connection.driver.options.type === "mongodb")
+            throw new TypeORMError(
+                `Migrations dry-run is not supported by MongoDB driver.`,
+            )
+
+        if (!(await queryRunner.hasTable(this.migrationsTable))) return []
+
+        return this.loadExecutedMigrations(queryRunner)
+    }
+
+    /**
+     * Runs up or down methods of the given migrations one after another with sql memory enabled,
+     * using a query runner which records queries instead of executing them.
+     */
+    protected async dryRunMigrations(
+        queryRunner: QueryRunner,
+        migrations: Migration[],
+        direction: "up" | "down",
+    ): Promise<MigrationDryRun[]> {
+        const dryRunQueryRunner = new MigrationDryRunQueryRunner(queryRunner)
+        const dryRuns: MigrationDryRun[] = []
+        queryRunner.enableSqlMemory()
+        try {
+            for (const migration of migrations) {
+                dryRunQueryRunner.clear()
+                await migration.instance![direction](
+                    dryRunQueryRunner.queryRunner,
+                )
+
+                dryRuns.push(
+                    new MigrationDryRun(
+                        migration,
+                        direction,
+                        [...queryRunner.getMemorySql().upQueries],
+                        dryRunQueryRunner.rawQueries,
+                    ),
+                )
+            }
+            return dryRuns
+        } finally {
+            // tables created and dropped during dry-run were tracked in loaded tables
+            queryRunner.loadedTables = []
+            queryRunner.disableSqlMemory()
+        }
+    }
+
+    /**
+     * Runs the given migration in the given direction, tracing it by the instrumentation.
+     */
+    protected runMigration(
+        queryRunner: QueryRunner,
+        migration: Migration,
+        direction: "up" | "down",
+    ): Promise<void> {
+        return this.connection.instrumentationContext.trace(
+            `migration ${direction} ${migration.name}`,
+            {
+                "typeorm.migration.name": migration.name,
+                "typeorm.migration.timestamp": migration.timestamp,
+                "typeorm.migration.direction": direction,
+            },
+            queryRunner,
+            () => migration.instance![direction](queryRunner),
+        )
+    }
+
+    /**
+     * Gets all migrations that setup for this connection.
+     */
+    protected getMigrations(): Migration[] {
+        const migrations = this.connection.migrations.map((migration) => {
+            const migrationClassName =
+                migration.name || (migration.constructor as any).name
+            const migrationTimestamp = parseInt(
+                migrationClassName.substr(-13),
+                10,
+            )
+            if (!migrationTimestamp || isNaN(migrationTimestamp)) {
+                throw new TypeORMError(
+                    `${migrationClassName} migration name is wrong. Migration class name should have a JavaScript timestamp appended.`,
+                )
             }
 
             return new Migration(
@@ -646,39 +905,7 @@ export class MigrationExecutor {
         queryRunner: QueryRunner,
         migration: Migration,
     ): Promise<void> {
-        const values: ObjectLiteral = {}
-        if (this.connection.driver.options.type === "mssql") {
-            values["timestamp"] = new MssqlParameter(
-                migration.timestamp,
-                this.connection.driver.normalizeType({
-                    type: this.connection.driver.mappedDataTypes
-                        .migrationTimestamp,
-                }) as any,
-            )
-            values["name"] = new MssqlParameter(
-                migration.name,
-                this.connection.driver.normalizeType({
-                    type: this.connection.driver.mappedDataTypes.migrationName,
-                }) as any,
-            )
-        } else {
-            values["timestamp"] = migration.timestamp
-            values["name"] = migration.name
-        }
-        if (this.connection.driver.options.type === "mongodb") {
-            const mongoRunner = queryRunner as MongoQueryRunner
-            await mongoRunner.databaseConnection
-                .db(this.connection.driver.database!)
-                .collection(this.migrationsTableName)
-                .insertOne(values)
-        } else {
-            const qb = queryRunner.manager.createQueryBuilder()
-            await qb
-                .insert()
-                .into(this.migrationsTable)
-                .values(values)
-                .execute()
-        }
+        await this.migrationsHistory.insert(queryRunner, migration)
     }
 
     /**
@@ -688,42 +915,7 @@ export class MigrationExecutor {
         queryRunner: QueryRunner,
         migration: Migration,
     ): Promise<void> {
-        const conditions: ObjectLiteral = {}
-        if (this.connection.driver.options.type === "mssql") {
-            conditions["timestamp"] = new MssqlParameter(
-                migration.timestamp,
-                this.connection.driver.normalizeType({
-                    type: this.connection.driver.mappedDataTypes
-                        .migrationTimestamp,
-                }) as any,
-            )
-            conditions["name"] = new MssqlParameter(
-                migration.name,
-                this.connection.driver.normalizeType({
-                    type: this.connection.driver.mappedDataTypes.migrationName,
-                }) as any,
-            )
-        } else {
-            conditions["timestamp"] = migration.timestamp
-            conditions["name"] = migration.name
-        }
-
-        if (this.connection.driver.options.type === "mongodb") {
-            const mongoRunner = queryRunner as MongoQueryRunner
-            await mongoRunner.databaseConnection
-                .db(this.connection.driver.database!)
-                .collection(this.migrationsTableName)
-                .deleteOne(conditions)
-        } else {
-            const qb = queryRunner.manager.createQueryBuilder()
-            await qb
-                .delete()
-                .from(this.migrationsTable)
-                .where(`${qb.escape("timestamp")} = :timestamp`)
-                .andWhere(`${qb.escape("name")} = :name`)
-                .setParameters(conditions)
-                .execute()
-        }
+        await this.migrationsHistory.delete(queryRunner, migration)
     }
 
     protected async withQueryRunner<T extends any>(
@@ -740,4 +932,315 @@ export class MigrationExecutor {
             }
         }
     }
+
+    /**
+     * Executes given callback while holding the migrations lock,
+     * so migrations are never run by several processes at the same time.
+     * Releases the query runner afterwards if it was created by us.
+     */
+    protected async withMigrationsLock<T>(
+        queryRunner: QueryRunner,
+        callback: () => Promise<T>,
+    ): Promise<T> {
+        try {
+            await this.acquireMigrationsLock(queryRunner)
+        } catch (err) {
+            if (!this.queryRunner) await queryRunner.release()
+            throw err
+        }
+
+        try {
+            return await callback()
+        } finally {
+            // error of the lock release must not replace error of the migrations
+            try {
+                await this.releaseMigrationsLock(queryRunner)
+            } catch (err) {
+                this.connection.logger.log(
+                    "warn",
+                    `Failed to release migrations lock: ${err.message}`,
+                )
+            }
+
+            // if query runner was created by us then release it
+            if (!this.queryRunner) await queryRunner.release()
+        }
+    }
+
+    /**
+     * Acquires the migrations lock using the locking mechanism of the current database.
+     * Databases without session level locks use a row in the migrations lock table.
+     * CockroachDB uses the lock table as well, because its advisory lock functions do not lock anything.
+     */
+    protected async acquireMigrationsLock(
+        queryRunner: QueryRunner,
+    ): Promise<void> {
+        if (!this.isMigrationsLockEnabled()) return
+
+        const driver = this.connection.driver
+        const timeout = this.getMigrationsLockTimeout()
+        const lockKey = this.getMigrationsLockKey()
+
+        if (this.isMigrationsAdvisoryLockSupported()) {
+            await this.pollMigrationsLock(timeout, async () => {
+                const [result] = await queryRunner.query(
+                    `SELECT pg_try_advisory_lock(${lockKey}) AS "locked"`,
+                )
+                return result.locked === true || result.locked === "t"
+            })
+        } else if (DriverUtils.isMySQLFamily(driver)) {
+            const [result] = await queryRunner.query(
+                "SELECT GET_LOCK(?, ?) AS `locked`",
+                [this.getMigrationsLockName(), Math.ceil(timeout / 1000)],
+            )
+            if (Number(result.locked) !== 1)
+                throw new CannotAcquireMigrationsLockError(timeout)
+        } else if (driver.options.type === "mssql") {
+            const [result] = await queryRunner.query(
+                `DECLARE @result int; ` +
+                    `EXEC @result = sp_getapplock @Resource = @0, @LockMode = 'Exclusive', @LockOwner = 'Session', @LockTimeout = ${timeout}; ` +
+                    `SELECT @result AS "result"`,
+                [this.getMigrationsLockName()],
+            )
+            if (result.result < 0)
+                throw new CannotAcquireMigrationsLockError(
+                    timeout,
+                    `sp_getapplock returned ${result.result}`,
+                )
+        } else if (driver.options.type === "oracle") {
+            try {
+                await queryRunner.query(
+                    `DECLARE "result" INTEGER; ` +
+                        `BEGIN ` +
+                        `"result" := DBMS_LOCK.REQUEST(${lockKey}, DBMS_LOCK.X_MODE, ${Math.ceil(
+                            timeout / 1000,
+                        )}, FALSE); ` +
+                        `IF "result" NOT IN (0, 4) THEN ` +
+                        `RAISE_APPLICATION_ERROR(-20001, 'DBMS_LOCK.REQUEST returned ' || "result"); ` +
+                        `END IF; ` +
+                        `END;`,
+                )
+            } catch (err) {
+                throw new CannotAcquireMigrationsLockError(timeout, err.message)
+            }
+        } else {
+            await this.createMigrationsLockTableIfNotExist(queryRunner)
+            await this.pollMigrationsLock(timeout, () =>
+                this.tryInsertMigrationsLockRow(queryRunner),
+            )
+        }
+    }
+
+    /**
+     * Tries to insert the lock row into the migrations lock table.
+     * Lock row left by a crashed process is removed once it is older than the lock expiry.
+     */
+    protected async tryInsertMigrationsLockRow(
+        queryRunner: QueryRunner,
+    ): Promise<boolean> {
+        const lockTable = this.getMigrationsLockTable()
+        const escape = (name: string) => this.connection.driver.escape(name)
+        try {
+            await queryRunner.manager
+                .createQueryBuilder(queryRunner)
+                .insert()
+                .into(lockTable, ["id", "timestamp"])
+                .values({ id: 1, timestamp: Date.now() })
+                .execute()
+            return true
+        } catch (err) {
+            // insert can only fail because of existing lock row, otherwise it's a real error
+            const lockRow = await queryRunner.manager
+                .createQueryBuilder(queryRunner)
+                .select("lock.timestamp", "timestamp")
+                .from(lockTable, "lock")
+                .where("lock.id = 1")
+                .getRawOne()
+            // lock row was removed by its holder in the meantime, so we can try again
+            if (!lockRow) return false
+
+            // lock is held by someone else, unless the holder crashed and the row is stale
+            const timestamp = Number(lockRow.timestamp)
+            if (Date.now() - timestamp < this.getMigrationsLockExpiry())
+                return false
+
+            this.connection.logger.log(
+                "warn",
+                `Removing migrations lock acquired at ${new Date(
+                    timestamp,
+                ).toISOString()}, it is considered stale.`,
+            )
+            await queryRunner.manager
+                .createQueryBuilder(queryRunner)
+                .delete()
+                .from(lockTable)
+                .where(
+                    `${escape("id")} = 1 AND ${escape(
+                        "timestamp",
+                    )} = :timestamp`,
+                    { timestamp: lockRow.timestamp },
+                )
+                .execute()
+            return false
+        }
+    }
+
+    /**
+     * Releases the migrations lock acquired by acquireMigrationsLock.
+     */
+    protected async releaseMigrationsLock(
+        queryRunner: QueryRunner,
+    ): Promise<void> {
+        if (!this.isMigrationsLockEnabled()) return
+
+        const driver = this.connection.driver
+        if (this.isMigrationsAdvisoryLockSupported()) {
+            await queryRunner.query(
+                `SELECT pg_advisory_unlock(${this.getMigrationsLockKey()})`,
+            )
+        } else if (DriverUtils.isMySQLFamily(driver)) {
+            await queryRunner.query("SELECT RELEASE_LOCK(?)", [
+                this.getMigrationsLockName(),
+            ])
+        } else if (driver.options.type === "mssql") {
+            await queryRunner.query(
+                `EXEC sp_releaseapplock @Resource = @0, @LockOwner = 'Session'`,
+                [this.getMigrationsLockName()],
+            )
+        } else if (driver.options.type === "oracle") {
+            await queryRunner.query(
+                `DECLARE "result" INTEGER; ` +
+                    `BEGIN "result" := DBMS_LOCK.RELEASE(${this.getMigrationsLockKey()}); END;`,
+            )
+        } else {
+            await queryRunner.manager
+                .createQueryBuilder(queryRunner)
+                .delete()
+                .from(this.getMigrationsLockTable())
+                .where(`${queryRunner.connection.driver.escape("id")} = 1`)
+                .execute()
+        }
+    }
+
+    /**
+     * Creates the migrations lock table used by databases without session level locks.
+     */
+    protected async createMigrationsLockTableIfNotExist(
+        queryRunner: QueryRunner,
+    ): Promise<void> {
+        const tableName = this.getMigrationsLockTable()
+        const tableExist = await queryRunner.hasTable(tableName)
+        if (tableExist) return
+
+        try {
+            await queryRunner.createTable(
+                new Table({
+                    database: this.migrationsDatabase,
+                    schema: this.migrationsSchema,
+                    name: tableName,
+                    columns: [
+                        {
+                            name: "id",
+                            type: this.connection.driver.normalizeType({
+                                type: this.connection.driver.mappedDataTypes
+                                    .migrationId,
+                            }),
+                            isPrimary: true,
+                            isNullable: false,
+                        },
+                        {
+                            name: "timestamp",
+                            type: this.connection.driver.normalizeType({
+                                type: this.connection.driver.mappedDataTypes
+                                    .migrationTimestamp,
+                            }),
+                            isNullable: false,
+                        },
+                    ],
+                }),
+                true,
+            )
+        } catch (err) {
+            // table could be created by a concurrent migration run in the meantime
+            if (!(await queryRunner.hasTable(tableName))) throw err
+        }
+    }
+
+    /**
+     * Calls given callback until it acquires the lock or the timeout expires.
+     */
+    protected async pollMigrationsLock(
+        timeout: number,
+        tryAcquire: () => Promise<boolean>,
+    ): Promise<void> {
+        const startTime = Date.now()
+        while (!(await tryAcquire())) {
+            if (Date.now() - startTime >= timeout)
+                throw new CannotAcquireMigrationsLockError(timeout)
+
+            await new Promise((ok) => setTimeout(ok, 100))
+        }
+    }
+
+    /**
+     * Checks if migrations must be run under the migrations lock.
+     */
+    protected isMigrationsLockEnabled(): boolean {
+        if (this.connection.driver.options.type === "mongodb") return false
+
+        return this.connection.options.migrationsLock === true
+    }
+
+    /**
+     * Checks if the migrations lock can be acquired using Postgres advisory locks.
+     */
+    protected isMigrationsAdvisoryLockSupported(): boolean {
+        const driver = this.connection.driver
+        return (
+            DriverUtils.isPostgresFamily(driver) &&
+            driver.options.type !== "cockroachdb"
+        )
+    }
+
+    /**
+     * Gets the time in milliseconds to wait for the migrations lock.
+     */
+    protected getMigrationsLockTimeout(): number {
+        return this.connection.options.migrationsLockTimeout ?? 60000
+    }
+
+    /**
+     * Gets the time in milliseconds after which the lock row in the migrations lock table is considered stale.
+     */
+    protected getMigrationsLockExpiry(): number {
+        return this.connection.options.migrationsLockExpiry ?? 3600000
+    }
+
+    /**
+     * Gets the lock name used by MySQL GET_LOCK and SQL Server sp_getapplock.
+     * MySQL allows names of at most 64 characters, so longer names are hashed.
+     */
+    protected getMigrationsLockName(): string {
+        if (this.migrationsTable.length <= 64) return this.migrationsTable
+
+        return hash(this.migrationsTable)
+    }
+
+    /**
+     * Gets the numeric lock identifier used by Postgres advisory locks and Oracle DBMS_LOCK.
+     */
+    protected getMigrationsLockKey(): number {
+        return parseInt(hash(this.migrationsTable, { length: 7 }), 16)
+    }
+
+    /**
+     * Gets the path of the table holding the migrations lock row.
+     */
+    protected getMigrationsLockTable(): string {
+        return this.connection.driver.buildTableName(
+            this.migrationsTableName + "_lock",
+            this.migrationsSchema,
+            this.migrationsDatabase,
+        )
+    }
 }
@@ -155,6 +155,20 @@ export class DefaultNamingStrategy implements NamingStrategyInterface {
         return "XCL_" + RandomGenerator.sha1(key).substr(0, 26)
     }
 
+    triggerName(
+        tableOrName: Table | string,
+        timing: string,
+        events: string[],
+        definition: string,
+    ): string {
+        const tableName = this.getTableName(tableOrName)
+        const replacedTableName = tableName.replace(".", "_")
+        const key = `${replacedTableName}_${timing}_${events.join(
+            "_",
+        )}_${definition}`
+        return "TRG_" + RandomGenerator.sha1(key).substr(0, 26)
+    }
+
     joinColumnName(relationName: string, referencedColumnName: string): string {
         return camelCase(relationName + "_" + referencedColumnName)
     }
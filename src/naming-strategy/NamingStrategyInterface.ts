@@ -112,6 +112,16 @@ export interface NamingStrategyInterface {
         expression: string,
     ): string
 
+    /**
+     * Gets the name of the trigger.
+     */
+    triggerName(
+        tableOrName: Table | string,
+        timing: string,
+        events: string[],
+        definition: string,
+    ): string
+
     /**
      * Gets the name of the join column used in the one-to-one and many-to-one relations.
      */
@@ -13,6 +13,7 @@ import { ManyToManySubjectBuilder } from "./subject-builder/ManyToManySubjectBui
 import { SubjectDatabaseEntityLoader } from "./SubjectDatabaseEntityLoader"
 import { CascadesSubjectBuilder } from "./subject-builder/CascadesSubjectBuilder"
 import { OrmUtils } from "../util/OrmUtils"
+import { EntityMetadata } from "../metadata/EntityMetadata"
 
 /**
  * Persists a single entity or multiple entities - saves or removes them.
@@ -43,6 +44,37 @@ export class EntityPersistExecutor {
         if (!this.entity || typeof this.entity !== "object")
             return Promise.reject(new MustBeEntityError(this.mode, this.entity))
 
+        const instrumentationContext = this.connection.instrumentationContext
+        if (!instrumentationContext.instrumentation)
+            return this.executeOperations()
+
+        const entities = Array.isArray(this.entity)
+            ? this.entity
+            : [this.entity]
+        const metadatas = this.getMetadatas(entities)
+        const entityNames = metadatas.map((metadata) => metadata.name)
+        return instrumentationContext.trace(
+            [this.mode, ...entityNames].join(" "),
+            {
+                "db.operation": this.mode,
+                "db.sql.table":
+                    metadatas.length === 1 ? metadatas[0].tablePath : undefined,
+                "typeorm.entity.name": entityNames.join(",") || undefined,
+                "typeorm.entity.count": entities.length,
+            },
+            this.queryRunner,
+            () => this.executeOperations(),
+        )
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Executes persistence operation, in a transaction unless it is already started or disabled.
+     */
+    protected async executeOperations(): Promise<void> {
         // we MUST call "fake" resolve here to make sure all properties of lazily loaded relations are resolved
         await Promise.resolve()
 
@@ -204,4 +236,23 @@ export class EntityPersistExecutor {
             if (!this.queryRunner) await queryRunner.release()
         }
     }
+
+    /**
+     * Gets distinct metadatas of the given entities, skipping entities which are not known to the connection.
+     */
+    protected getMetadatas(entities: ObjectLiteral[]): EntityMetadata[] {
+        const metadatas: EntityMetadata[] = []
+        for (const entity of entities) {
+            const entityTarget = this.target ? this.target : entity.constructor
+            if (
+                entityTarget === Object ||
+                !this.connection.hasMetadata(entityTarget)
+            )
+                continue
+
+            const metadata = this.connection.getMetadata(entityTarget)
+            if (metadatas.indexOf(metadata) === -1) metadatas.push(metadata)
+        }
+        return metadatas
+    }
 }
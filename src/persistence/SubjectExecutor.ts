@@ -6,6 +6,7 @@ import { SubjectWithoutIdentifierError } from "../error/SubjectWithoutIdentifier
 import { SubjectRemovedAndUpdatedError } from "../error/SubjectRemovedAndUpdatedError"
 import { MongoEntityManager } from "../entity-manager/MongoEntityManager"
 import { ObjectLiteral } from "../common/ObjectLiteral"
+import { EntityMetadata } from "../metadata/EntityMetadata"
 import { SaveOptions } from "../repository/SaveOptions"
 import { RemoveOptions } from "../repository/RemoveOptions"
 import { BroadcasterResult } from "../subscriber/BroadcasterResult"
@@ -173,6 +174,9 @@ export class SubjectExecutor {
         // execute recover operations
         await this.executeRecoverOperations()
 
+        // remove persisted entities from the entity cache
+        await this.evictEntityCache()
+
         // update all special columns in persisted entities, like inserted id or remove ids from the removed entities
         // console.time(".updateSpecialColumnsInPersistedEntities");
         this.updateSpecialColumnsInPersistedEntities()
@@ -193,6 +197,56 @@ export class SubjectExecutor {
     // Protected Methods
     // -------------------------------------------------------------------------
 
+    /**
+     * Removes persisted entities from the entity cache by their ids,
+     * together with entities changed by foreign keys of the removed entities.
+     * Query builders used by persistence are not evicting the cache on their own,
+     * since they don't know ids of the changed entities.
+     */
+    protected async evictEntityCache(): Promise<void> {
+        const entityCache = this.queryRunner.connection.entityCache
+        const subjects = [
+            ...this.insertSubjects,
+            ...this.updateSubjects,
+            ...this.removeSubjects,
+            ...this.softRemoveSubjects,
+            ...this.recoverSubjects,
+        ]
+
+        const entityIds = new Map<
+            EntityMetadata,
+            (ObjectLiteral | undefined)[]
+        >()
+        for (const subject of subjects) {
+            if (!subject.metadata.cache) continue
+
+            let ids = entityIds.get(subject.metadata)
+            if (!ids) {
+                ids = []
+                entityIds.set(subject.metadata, ids)
+            }
+            // primary keys of updated entities can be changed as well
+            ids.push(
+                subject.identifier,
+                subject.metadata.getEntityIdMap(subject.databaseEntity),
+            )
+        }
+        for (const [metadata, ids] of entityIds) {
+            await entityCache.evict(metadata, ids, this.queryRunner)
+        }
+
+        const removedMetadatas: EntityMetadata[] = []
+        for (const subject of this.removeSubjects) {
+            if (removedMetadatas.indexOf(subject.metadata) !== -1) continue
+
+            removedMetadatas.push(subject.metadata)
+            await entityCache.evictDependents(
+                subject.metadata,
+                this.queryRunner,
+            )
+        }
+    }
+
     /**
      * Validates all given subjects.
      */
@@ -444,6 +498,7 @@ export class SubjectExecutor {
                                 : true,
                         )
                         .callListeners(false)
+                        .evictEntityCache(false)
                         .execute()
 
                     bulkInsertSubjects.forEach((subject, index) => {
@@ -476,6 +531,7 @@ export class SubjectExecutor {
                                     : true,
                             )
                             .callListeners(false)
+                            .evictEntityCache(false)
                             .execute()
                             .then((insertResult) => {
                                 subject.identifier = insertResult.identifiers[0]
@@ -608,6 +664,7 @@ export class SubjectExecutor {
                             : true,
                     )
                     .callListeners(false)
+                    .evictEntityCache(false)
 
                 if (subject.entity) {
                     updateQueryBuilder.whereEntity(subject.identifier)
@@ -732,6 +789,7 @@ export class SubjectExecutor {
                     .from(subjects[0].metadata.target)
                     .where(deleteMaps)
                     .callListeners(false)
+                    .evictEntityCache(false)
                     .execute()
             }
         }
@@ -829,6 +887,7 @@ export class SubjectExecutor {
                                 : true,
                         )
                         .callListeners(false)
+                        .evictEntityCache(false)
 
                     if (subject.entity) {
                         softDeleteQueryBuilder.whereEntity(subject.identifier)
@@ -952,6 +1011,7 @@ export class SubjectExecutor {
                                 : true,
                         )
                         .callListeners(false)
+                        .evictEntityCache(false)
 
                     if (subject.entity) {
                         softDeleteQueryBuilder.whereEntity(subject.identifier)
@@ -5,6 +5,7 @@ import { CannotAttachTreeChildrenEntityError } from "../../error/CannotAttachTre
 import { DeleteQueryBuilder } from "../../query-builder/DeleteQueryBuilder"
 import { OrmUtils } from "../../util/OrmUtils"
 import { ColumnMetadata } from "../../metadata/ColumnMetadata"
+import { EntityMetadata } from "../../metadata/EntityMetadata"
 
 /**
  * Executes subject operations for closure entities.
@@ -170,9 +171,21 @@ export class ClosureSubjectExecutor {
             return
         }
 
+        await this.move(subject.metadata, entity, parent)
+    }
+
+    /**
+     * Moves the subtree of the given entity under the given parent,
+     * or makes it a root if parent is not set.
+     */
+    async move(
+        metadata: EntityMetadata,
+        entity: ObjectLiteral,
+        parent: ObjectLiteral | undefined,
+    ): Promise<void> {
         const escape = (alias: string) =>
             this.queryRunner.connection.driver.escape(alias)
-        const closureTable = subject.metadata.closureJunctionTable
+        const closureTable = metadata.closureJunctionTable
 
         const ancestorColumnNames = closureTable.ancestorColumns.map(
             (column) => {
@@ -213,7 +226,7 @@ export class ClosureSubjectExecutor {
         }
 
         const parameters: ObjectLiteral = {}
-        for (const column of subject.metadata.primaryColumns) {
+        for (const column of metadata.primaryColumns) {
             parameters[`value_${column.databaseName}`] =
                 entity![column.databaseName]
         }
@@ -261,25 +274,23 @@ export class ClosureSubjectExecutor {
             ]
 
             const entityWhereCondition =
-                subject.metadata.closureJunctionTable.ancestorColumns.map(
-                    (column) => {
-                        const columnName = escape(column.databaseName)
-                        const entityId =
-                            column.referencedColumn!.getEntityValue(entity!)
+                metadata.closureJunctionTable.ancestorColumns.map((column) => {
+                    const columnName = escape(column.databaseName)
+                    const entityId = column.referencedColumn!.getEntityValue(
+                        entity!,
+                    )
 
-                        queryParams.push(entityId)
-                        const parameterName =
-                            this.queryRunner.connection.driver.createParameter(
-                                "entity_" +
-                                    column.referencedColumn!.databaseName,
-                                queryParams.length - 1,
-                            )
-                        return `${subAlias}.${columnName} = ${parameterName}`
-                    },
-                )
+                    queryParams.push(entityId)
+                    const parameterName =
+                        this.queryRunner.connection.driver.createParameter(
+                            "entity_" + column.referencedColumn!.databaseName,
+                            queryParams.length - 1,
+                        )
+                    return `${subAlias}.${columnName} = ${parameterName}`
+                })
 
             const parentWhereCondition =
-                subject.metadata.closureJunctionTable.descendantColumns.map(
+                metadata.closureJunctionTable.descendantColumns.map(
                     (column) => {
                         const columnName = escape(column.databaseName)
                         const parentId =
@@ -287,7 +298,7 @@ export class ClosureSubjectExecutor {
 
                         if (!parentId)
                             throw new CannotAttachTreeChildrenEntityError(
-                                subject.metadata.name,
+                                metadata.name,
                             )
 
                         queryParams.push(parentId)
@@ -37,7 +37,7 @@ export class MaterializedPathSubjectExecutor {
 
         let parentPath: string = ""
         if (parentId) {
-            parentPath = await this.getEntityPath(subject, parentId)
+            parentPath = await this.getEntityPath(subject.metadata, parentId)
         }
 
         const insertedEntityId = subject.metadata
@@ -100,13 +100,16 @@ export class MaterializedPathSubjectExecutor {
 
         let newParentPath: string = ""
         if (newParentId) {
-            newParentPath = await this.getEntityPath(subject, newParentId)
+            newParentPath = await this.getEntityPath(
+                subject.metadata,
+                newParentId,
+            )
         }
 
         let oldParentPath: string = ""
         if (oldParentId) {
             oldParentPath =
-                (await this.getEntityPath(subject, oldParentId)) || ""
+                (await this.getEntityPath(subject.metadata, oldParentId)) || ""
         }
 
         const entityPath = subject.metadata
@@ -115,19 +118,70 @@ export class MaterializedPathSubjectExecutor {
             })
             .join("_")
 
-        const propertyPath =
-            subject.metadata.materializedPathColumn!.propertyPath
+        await this.replacePath(
+            subject.metadata,
+            `${oldParentPath}${entityPath}.`,
+            `${newParentPath}${entityPath}.`,
+        )
+    }
+
+    /**
+     * Moves the subtree of the given entity under the given parent,
+     * or makes it a root if parent is not set.
+     */
+    async move(
+        metadata: EntityMetadata,
+        entity: ObjectLiteral,
+        parent: ObjectLiteral | undefined,
+    ): Promise<void> {
+        const entityPath = metadata
+            .treeParentRelation!.joinColumns.map((joinColumn) => {
+                return joinColumn.referencedColumn!.getEntityValue(entity)
+            })
+            .join("_")
+
+        const oldPath = await this.getEntityPath(
+            metadata,
+            metadata.getEntityIdMap(entity)!,
+        )
+        const newParentPath = parent
+            ? await this.getEntityPath(
+                  metadata,
+                  metadata.getEntityIdMap(parent)!,
+              )
+            : ""
+
+        await this.replacePath(
+            metadata,
+            oldPath,
+            `${newParentPath}${entityPath}.`,
+        )
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Replaces path prefix of all entities in the subtree starting with the given path.
+     */
+    protected async replacePath(
+        metadata: EntityMetadata,
+        oldPath: string,
+        newPath: string,
+    ): Promise<void> {
+        const propertyPath = metadata.materializedPathColumn!.propertyPath
         await this.queryRunner.manager
             .createQueryBuilder()
-            .update(subject.metadata.target)
+            .update(metadata.target)
             .set({
                 [propertyPath]: () =>
                     `REPLACE(${this.queryRunner.connection.driver.escape(
                         propertyPath,
-                    )}, '${oldParentPath}${entityPath}.', '${newParentPath}${entityPath}.')`,
+                    )}, '${oldPath}', '${newPath}')`,
             } as any)
             .where(`${propertyPath} LIKE :path`, {
-                path: `${oldParentPath}${entityPath}.%`,
+                path: `${oldPath}%`,
             })
             .execute()
     }
@@ -149,22 +203,21 @@ export class MaterializedPathSubjectExecutor {
     }
 
     private getEntityPath(
-        subject: Subject,
+        metadata: EntityMetadata,
         id: ObjectLiteral,
     ): Promise<string> {
-        const metadata = subject.metadata
         const normalized = (Array.isArray(id) ? id : [id]).map((id) =>
             metadata.ensureEntityIdMap(id),
         )
         return this.queryRunner.manager
             .createQueryBuilder()
             .select(
-                subject.metadata.targetName +
+                metadata.targetName +
                     "." +
-                    subject.metadata.materializedPathColumn!.propertyPath,
+                    metadata.materializedPathColumn!.propertyPath,
                 "path",
             )
-            .from(subject.metadata.target, subject.metadata.targetName)
+            .from(metadata.target, metadata.targetName)
             .where(
                 new Brackets((qb) => {
                     for (const data of normalized) {
@@ -279,6 +279,70 @@ export class NestedSetSubjectExecutor {
         }
     }
 
+    /**
+     * Moves the subtree of the given entity to become the last child of the given parent.
+     * Nested sets have a single root, so moving an entity to the root is only allowed
+     * if it already is the root.
+     */
+    async move(
+        metadata: EntityMetadata,
+        entityId: ObjectLiteral,
+        parentId: ObjectLiteral | undefined,
+    ): Promise<void> {
+        const [entityNs] = await this.getNestedSetIds(metadata, entityId)
+        if (!entityNs) return
+
+        if (!parentId) {
+            if (entityNs.left !== 1) throw new NestedSetMultipleRootError()
+            return
+        }
+
+        const [parentNs] = await this.getNestedSetIds(metadata, parentId)
+        if (!parentNs) return
+
+        const escape = (alias: string) =>
+            this.queryRunner.connection.driver.escape(alias)
+        const tableName = this.getTableName(metadata.tablePath)
+        const treeSize = entityNs.right - entityNs.left + 1
+        const position = parentNs.right
+
+        // subtree is moved right before the right boundary of its new parent,
+        // nodes between its old and new positions are shifted to fill the gap
+        const createCase = (columnName: string) => {
+            if (position > entityNs.right) {
+                return (
+                    `CASE ` +
+                    `WHEN ${columnName} >= ${entityNs.left} AND ${columnName} <= ${entityNs.right} ` +
+                    `THEN ${columnName} + ${position - entityNs.right - 1} ` +
+                    `WHEN ${columnName} > ${entityNs.right} AND ${columnName} < ${position} ` +
+                    `THEN ${columnName} - ${treeSize} ` +
+                    `ELSE ${columnName} END`
+                )
+            } else {
+                return (
+                    `CASE ` +
+                    `WHEN ${columnName} >= ${entityNs.left} AND ${columnName} <= ${entityNs.right} ` +
+                    `THEN ${columnName} - ${entityNs.left - position} ` +
+                    `WHEN ${columnName} >= ${position} AND ${columnName} < ${entityNs.left} ` +
+                    `THEN ${columnName} + ${treeSize} ` +
+                    `ELSE ${columnName} END`
+                )
+            }
+        }
+
+        const leftColumnName = escape(
+            metadata.nestedSetLeftColumn!.databaseName,
+        )
+        const rightColumnName = escape(
+            metadata.nestedSetRightColumn!.databaseName,
+        )
+        await this.queryRunner.query(
+            `UPDATE ${tableName} ` +
+                `SET ${leftColumnName} = ${createCase(leftColumnName)}, ` +
+                `${rightColumnName} = ${createCase(rightColumnName)}`,
+        )
+    }
+
     /**
      * Get the nested set ids for a given entity
      */
@@ -0,0 +1,38 @@
+import { PlatformTools } from "./PlatformTools"
+
+/**
+ * Storage of values kept through asynchronous operations started in its callback.
+ * AsyncLocalStorage is created once a value is stored for the first time,
+ * so platforms not supporting it fail only when the storage is used.
+ */
+export class LazyAsyncLocalStorage<T> {
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    protected storage?: {
+        run<R>(store: T, callback: () => R): R
+        getStore(): T | undefined
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Runs the given callback with the given value stored.
+     */
+    run<R>(store: T, callback: () => R): R {
+        if (!this.storage)
+            this.storage = PlatformTools.createAsyncLocalStorage<T>()
+
+        return this.storage.run(store, callback)
+    }
+
+    /**
+     * Gets value stored for the currently running callback.
+     */
+    getStore(): T | undefined {
+        return this.storage?.getStore()
+    }
+}
@@ -3,6 +3,7 @@ import * as fs from "fs"
 import dotenv from "dotenv"
 import chalk from "chalk"
 import { highlight, Theme } from "cli-highlight"
+import { AsyncLocalStorage } from "async_hooks"
 
 export { ReadStream } from "fs"
 export { EventEmitter } from "events"
@@ -206,6 +207,13 @@ export class PlatformTools {
         return process.env[name]
     }
 
+    /**
+     * Creates a storage of values kept through asynchronous operations started in its callback.
+     */
+    static createAsyncLocalStorage<T>(): AsyncLocalStorage<T> {
+        return new AsyncLocalStorage<T>()
+    }
+
     /**
      * Highlights sql string to be print in the console.
      */
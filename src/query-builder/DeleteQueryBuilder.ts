@@ -48,7 +48,8 @@ export class DeleteQueryBuilder<Entity extends ObjectLiteral>
      * Executes sql generated by query builder and returns raw database results.
      */
     async execute(): Promise<DeleteResult> {
-        const [sql, parameters] = this.getQueryAndParameters()
+        const [sql, parameters, redactedParameters] =
+            this.getQueryAndRedactedParameters()
         const queryRunner = this.obtainQueryRunner()
         let transactionStartedByUs: boolean = false
 
@@ -74,7 +75,12 @@ export class DeleteQueryBuilder<Entity extends ObjectLiteral>
             }
 
             // execute query
-            const queryResult = await queryRunner.query(sql, parameters, true)
+            const queryResult = await queryRunner.query(
+                sql,
+                parameters,
+                true,
+                redactedParameters,
+            )
             const deleteResult = DeleteResult.from(queryResult)
 
             // call after deletion methods in listeners and subscribers
@@ -88,6 +94,22 @@ export class DeleteQueryBuilder<Entity extends ObjectLiteral>
                 )
             }
 
+            // remove deleted entities and entities changed by foreign keys from the entity cache
+            if (
+                this.expressionMap.evictEntityCache === true &&
+                this.expressionMap.mainAlias!.hasMetadata
+            ) {
+                const metadata = this.expressionMap.mainAlias!.metadata
+                await this.connection.entityCache.evictAll(
+                    metadata,
+                    queryRunner,
+                )
+                await this.connection.entityCache.evictDependents(
+                    metadata,
+                    queryRunner,
+                )
+            }
+
             // close transaction if we started it
             if (transactionStartedByUs) await queryRunner.commitTransaction()
 
@@ -153,14 +153,20 @@ export class InsertQueryBuilder<
 
             // execute query
             // console.time(".getting query and parameters");
-            const [insertSql, parameters] = this.getQueryAndParameters()
+            const [insertSql, parameters, redactedParameters] =
+                this.getQueryAndRedactedParameters()
             // console.timeEnd(".getting query and parameters");
 
             // console.time(".query execution by database");
             const statements = [declareSql, insertSql, selectOutputSql]
             const sql = statements.filter((s) => s != null).join(";\n\n")
 
-            const queryResult = await queryRunner.query(sql, parameters, true)
+            const queryResult = await queryRunner.query(
+                sql,
+                parameters,
+                true,
+                redactedParameters,
+            )
 
             const insertResult = InsertResult.from(queryResult)
 
@@ -195,6 +201,36 @@ export class InsertQueryBuilder<
                 await broadcastResult.wait()
             }
 
+            // remove inserted entities from the entity cache, since their absence could be cached,
+            // or all entities if existing rows could be updated
+            if (
+                this.expressionMap.evictEntityCache === true &&
+                this.expressionMap.mainAlias!.hasMetadata &&
+                this.expressionMap.mainAlias!.metadata.cache
+            ) {
+                const metadata = this.expressionMap.mainAlias!.metadata
+                if (
+                    this.expressionMap.onUpdate ||
+                    this.expressionMap.onConflict
+                ) {
+                    await this.connection.entityCache.evictAll(
+                        metadata,
+                        queryRunner,
+                    )
+                } else {
+                    await this.connection.entityCache.evict(
+                        metadata,
+                        [
+                            ...insertResult.identifiers,
+                            ...valueSets.map((valueSet) =>
+                                metadata.getEntityIdMap(valueSet),
+                            ),
+                        ],
+                        queryRunner,
+                    )
+                }
+            }
+
             // close transaction if we started it
             // console.time(".commit");
             if (transactionStartedByUs) {
@@ -808,6 +844,36 @@ export class InsertQueryBuilder<
                         //     const rightColumnName = this.connection.driver.escape(column.entityMetadata.nestedSetRightColumn!.databaseName);
                         //     const subQuery = `(SELECT c.max + 2 FROM (SELECT MAX(${rightColumnName}) as max from ${tableName}) c)`;
                         //     expression += subQuery;
+                    } else if (
+                        column.isTenant &&
+                        !this.connection.tenantContext.isRunningWithoutTenant()
+                    ) {
+                        // inserted entities always belong to the current tenant
+                        const tenantId = this.getTenantIdForValueSet(
+                            column,
+                            valueSet,
+                            "insert",
+                        )
+                        expression += this.createParameter(tenantId)
+
+                        if (value === undefined) {
+                            if (
+                                !(
+                                    valueSetIndex in
+                                    this.expressionMap.locallyGenerated
+                                )
+                            ) {
+                                this.expressionMap.locallyGenerated[
+                                    valueSetIndex
+                                ] = {}
+                            }
+                            column.setEntityValue(
+                                this.expressionMap.locallyGenerated[
+                                    valueSetIndex
+                                ],
+                                tenantId,
+                            )
+                        }
                     } else if (column.isDiscriminator) {
                         expression += this.createParameter(
                             this.expressionMap.mainAlias!.metadata
@@ -858,8 +924,10 @@ export class InsertQueryBuilder<
                         ) {
                             // unfortunately sqlite does not support DEFAULT expression in INSERT queries
                             if (
-                                column.default !== undefined &&
-                                column.default !== null
+                                (column.default !== undefined &&
+                                    column.default !== null) ||
+                                (column.isGenerated &&
+                                    column.generationStrategy === "sequence")
                             ) {
                                 // try to use default defined in the column
                                 expression +=
@@ -893,7 +961,7 @@ export class InsertQueryBuilder<
                         // if (value instanceof Array)
                         //     value = new ArrayParameter(value);
 
-                        const paramName = this.createParameter(value)
+                        const paramName = this.createParameter(value, column)
 
                         if (
                             (DriverUtils.isMySQLFamily(
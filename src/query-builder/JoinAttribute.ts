@@ -19,7 +19,12 @@ export class JoinAttribute {
     /**
      * Join direction.
      */
-    direction: "LEFT" | "INNER"
+    direction: "LEFT" | "INNER" | "CROSS"
+
+    /**
+     * Indicates if joined subquery is a LATERAL subquery (CROSS APPLY / OUTER APPLY in SQL Server and Oracle).
+     */
+    lateral?: boolean
 
     /**
      * Alias of the joined (destination) table.
@@ -25,6 +25,9 @@ import { ReturningType } from "../driver/Driver"
 import { OracleDriver } from "../driver/oracle/OracleDriver"
 import { InstanceChecker } from "../util/InstanceChecker"
 import { escapeRegExp } from "../util/escapeRegExp"
+import { TenantNotSetError } from "../error/TenantNotSetError"
+import { TenantMismatchError } from "../error/TenantMismatchError"
+import { RedactionUtils } from "../util/RedactionUtils"
 
 // todo: completely cover query builder with tests
 // todo: entityOrProperty can be target name. implement proper behaviour if it is.
@@ -411,7 +414,11 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
         return this
     }
 
-    protected createParameter(value: any): string {
+    /**
+     * Creates a parameter with the given value and returns its placeholder.
+     * Parameters bound to sensitive columns are masked in logs, query errors and query events.
+     */
+    protected createParameter(value: any, column?: ColumnMetadata): string {
         let parameterName
 
         do {
@@ -419,10 +426,23 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
         } while (this.hasParameter(parameterName))
 
         this.setParameter(parameterName, value)
+        if (column?.isSensitive)
+            this.setSensitiveParameter(parameterName, column)
 
         return `:${parameterName}`
     }
 
+    /**
+     * Marks parameter with the given name as bound to the given sensitive column.
+     */
+    protected setSensitiveParameter(key: string, column: ColumnMetadata) {
+        if (this.parentQueryBuilder) {
+            this.parentQueryBuilder.setSensitiveParameter(key, column)
+        }
+
+        this.expressionMap.sensitiveParameters[key] = column
+    }
+
     /**
      * Adds native parameters from the given object.
      *
@@ -466,6 +486,10 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
             }
         }
 
+        // add current tenant parameter used by tenant conditions
+        const tenantId = this.connection.tenantContext.getTenantId()
+        if (tenantId !== undefined) parameters["orm_tenant_id"] = tenantId
+
         return parameters
     }
 
@@ -474,8 +498,9 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
      */
     printSql(): this {
         // TODO rename to logSql()
-        const [query, parameters] = this.getQueryAndParameters()
-        this.connection.logger.logQuery(query, parameters)
+        const [query, parameters, redactedParameters] =
+            this.getQueryAndRedactedParameters()
+        this.connection.logger.logQuery(query, redactedParameters ?? parameters)
         return this
     }
 
@@ -505,10 +530,16 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
      * Executes sql generated by query builder and returns raw database results.
      */
     async execute(): Promise<any> {
-        const [sql, parameters] = this.getQueryAndParameters()
+        const [sql, parameters, redactedParameters] =
+            this.getQueryAndRedactedParameters()
         const queryRunner = this.obtainQueryRunner()
         try {
-            return await queryRunner.query(sql, parameters) // await is needed here because we are using finally
+            return await queryRunner.query(
+                sql,
+                parameters,
+                false,
+                redactedParameters,
+            ) // await is needed here because we are using finally
         } finally {
             if (queryRunner !== this.queryRunner) {
                 // means we created our own query runner
@@ -581,6 +612,15 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
         return this
     }
 
+    /**
+     * Indicates if changed entities must be removed from the entity cache after query execution.
+     * Enabled by default.
+     */
+    evictEntityCache(enabled: boolean): this {
+        this.expressionMap.evictEntityCache = enabled
+        return this
+    }
+
     /**
      * If set to true the query will be wrapped into a transaction.
      */
@@ -823,6 +863,53 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
         return `/* ${this.expressionMap.comment.replace(/\*\//g, "")} */ `
     }
 
+    /**
+     * Creates condition filtering rows of the given entity by the current tenant.
+     * Returns undefined if entity does not have a tenant column or queries are run without tenant.
+     */
+    protected createTenantCondition(
+        metadata: EntityMetadata,
+        aliasName?: string,
+    ): string | undefined {
+        if (!metadata.tenantColumn) return undefined
+
+        const tenantContext = this.connection.tenantContext
+        if (tenantContext.isRunningWithoutTenant()) return undefined
+        if (tenantContext.getTenantId() === undefined)
+            throw new TenantNotSetError(metadata)
+
+        const column = aliasName
+            ? aliasName + "." + metadata.tenantColumn.propertyPath
+            : metadata.tenantColumn.propertyPath
+        return `${column} = :orm_tenant_id`
+    }
+
+    /**
+     * Gets id of the current tenant to write into the given tenant column.
+     * Inserted or updated values can not contain id of another tenant.
+     */
+    protected getTenantIdForValueSet(
+        column: ColumnMetadata,
+        valueSet: ObjectLiteral,
+        operation: "insert" | "update",
+    ): any {
+        const tenantId = this.connection.tenantContext.getTenantId()
+        if (tenantId === undefined)
+            throw new TenantNotSetError(column.entityMetadata)
+
+        let value = column.getEntityValue(valueSet)
+        if (typeof value === "function") value = value()
+        if (value !== undefined && String(value) !== String(tenantId))
+            throw new TenantMismatchError(
+                column.entityMetadata,
+                value,
+                tenantId,
+                operation,
+            )
+
+        return tenantId
+    }
+
     /**
      * Time travel queries for CockroachDB
      */
@@ -869,6 +956,18 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
                 conditionsArray.push(condition)
             }
 
+            // Adds the condition of the current tenant for the entity with tenant column.
+            if (this.expressionMap.queryType !== "insert") {
+                const condition = this.createTenantCondition(
+                    metadata,
+                    this.expressionMap.aliasNamePrefixingEnabled
+                        ? this.expressionMap.mainAlias!.name
+                        : undefined,
+                )
+                if (condition)
+                    conditionsArray.push(this.replacePropertyNames(condition))
+            }
+
             if (metadata.discriminatorColumn && metadata.parentEntityMetadata) {
                 const column = this.expressionMap.aliasNamePrefixingEnabled
                     ? this.expressionMap.mainAlias!.name +
@@ -1491,7 +1590,7 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
                         true,
                     )
 
-                    yield [aliasPath, parameterValue]
+                    yield [aliasPath, parameterValue, column]
                 }
             }
         } else {
@@ -1509,6 +1608,7 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
     protected getWherePredicateCondition(
         aliasPath: string,
         parameterValue: any,
+        column?: ColumnMetadata,
     ): WhereClauseCondition {
         if (InstanceChecker.isFindOperator(parameterValue)) {
             let parameters: any[] = []
@@ -1517,10 +1617,12 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
                     this.setParameters(parameterValue.objectLiteralParameters)
                 } else if (parameterValue.multipleParameters) {
                     for (const v of parameterValue.value) {
-                        parameters.push(this.createParameter(v))
+                        parameters.push(this.createParameter(v, column))
                     }
                 } else {
-                    parameters.push(this.createParameter(parameterValue.value))
+                    parameters.push(
+                        this.createParameter(parameterValue.value, column),
+                    )
                 }
             }
 
@@ -1540,6 +1642,7 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
                         condition: this.getWherePredicateCondition(
                             aliasPath,
                             parameterValue.child,
+                            column,
                         ),
                     }
                 } else {
@@ -1558,6 +1661,7 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
                             this.getWherePredicateCondition(
                                 aliasPath,
                                 operator,
+                                column,
                             ),
                         ),
                     ),
@@ -1572,6 +1676,7 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
                             this.getWherePredicateCondition(
                                 aliasPath,
                                 operator,
+                                column,
                             ),
                         ),
                     ),
@@ -1592,7 +1697,10 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
         } else {
             return {
                 operator: "equal",
-                parameters: [aliasPath, this.createParameter(parameterValue)],
+                parameters: [
+                    aliasPath,
+                    this.createParameter(parameterValue, column),
+                ],
             }
         }
     }
@@ -1623,6 +1731,8 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
                 this.expressionMap.parameters
             whereQueryBuilder.expressionMap.nativeParameters =
                 this.expressionMap.nativeParameters
+            whereQueryBuilder.expressionMap.sensitiveParameters =
+                this.expressionMap.sensitiveParameters
 
             whereQueryBuilder.expressionMap.wheres = []
 
@@ -1647,14 +1757,17 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
             const conditions: WhereClauseCondition = []
 
             // Filter the conditions and set up the parameter values
-            for (const [aliasPath, parameterValue] of this.getPredicates(
-                where,
-            )) {
+            for (const [
+                aliasPath,
+                parameterValue,
+                column,
+            ] of this.getPredicates(where)) {
                 conditions.push({
                     type: "and",
                     condition: this.getWherePredicateCondition(
                         aliasPath,
                         parameterValue,
+                        column,
                     ),
                 })
             }
@@ -1679,4 +1792,91 @@ export abstract class QueryBuilder<Entity extends ObjectLiteral> {
     protected hasCommonTableExpressions(): boolean {
         return this.expressionMap.commonTableExpressions.length > 0
     }
+
+    /**
+     * Gets query to be executed with all parameters used in it,
+     * and their masked copy if some of them are bound to sensitive columns.
+     * Masked copy should be passed to query runner, which uses it in logs, query errors and query events.
+     */
+    protected getQueryAndRedactedParameters(): [
+        string,
+        any[],
+        any[] | undefined,
+    ] {
+        // this execution order is important because getQuery method generates this.expressionMap.nativeParameters values
+        const query = this.getQuery()
+        const parameters = this.getParameters()
+        const [escapedQuery, escapedParameters] =
+            this.connection.driver.escapeQueryWithParameters(
+                query,
+                parameters,
+                this.expressionMap.nativeParameters,
+            )
+        return [
+            escapedQuery,
+            escapedParameters,
+            this.redactParameters(
+                query,
+                parameters,
+                escapedQuery,
+                escapedParameters,
+            ),
+        ]
+    }
+
+    /**
+     * Creates masked copy of the escaped parameters, if some of them are bound to sensitive columns.
+     * Parameters with masked sensitive values are escaped the same way, so masks take positions of the sensitive values.
+     * Drivers inline some values into the query (e.g. numbers in SQLite), in that case all parameters are masked.
+     */
+    protected redactParameters(
+        query: string,
+        parameters: ObjectLiteral,
+        escapedQuery: string,
+        escapedParameters: any[],
+    ): any[] | undefined {
+        const parameterNames = Object.keys(
+            this.expressionMap.sensitiveParameters,
+        ).filter((parameterName) => parameters.hasOwnProperty(parameterName))
+        if (!parameterNames.length) return undefined
+
+        const mask =
+            this.connection.options.redaction?.mask ??
+            RedactionUtils.defaultMask
+        const maskValue = (value: any, column: ColumnMetadata) => {
+            if (
+                value === null ||
+                value === undefined ||
+                typeof value === "function"
+            )
+                return value
+
+            return typeof mask === "function" ? mask(value, column) : mask
+        }
+
+        const maskedParameters = { ...parameters }
+        for (const parameterName of parameterNames) {
+            const column = this.expressionMap.sensitiveParameters[parameterName]
+            const value = parameters[parameterName]
+            maskedParameters[parameterName] = Array.isArray(value)
+                ? value.map((item) => maskValue(item, column))
+                : maskValue(value, column)
+        }
+
+        const [maskedQuery, redactedParameters] =
+            this.connection.driver.escapeQueryWithParameters(
+                query,
+                maskedParameters,
+                this.expressionMap.nativeParameters,
+            )
+        if (
+            maskedQuery !== escapedQuery ||
+            redactedParameters.length !== escapedParameters.length
+        )
+            return escapedParameters.map(() =>
+                typeof mask === "function" ? RedactionUtils.defaultMask : mask,
+            )
+
+        return redactedParameters
+    }
 }
@@ -4,6 +4,7 @@ import { OrderByCondition } from "../find-options/OrderByCondition"
 import { JoinAttribute } from "./JoinAttribute"
 import { QueryBuilder } from "./QueryBuilder"
 import { QueryBuilderCteOptions } from "./QueryBuilderCte"
+import { SetOperationType } from "./SetOperationType"
 import { RelationIdAttribute } from "./relation-id/RelationIdAttribute"
 import { RelationCountAttribute } from "./relation-count/RelationCountAttribute"
 import { DataSource } from "../data-source/DataSource"
@@ -227,6 +228,12 @@ export class QueryExpressionMap {
      */
     parameters: ObjectLiteral = {}
 
+    /**
+     * Columns of sensitive parameters, by parameter names.
+     * Values of these parameters are masked in logs, query errors and query events.
+     */
+    sensitiveParameters: { [parameterName: string]: ColumnMetadata } = {}
+
     /**
      * Indicates if alias, table names and column names will be escaped by driver, or not.
      *
@@ -271,12 +278,24 @@ export class QueryExpressionMap {
      */
     cacheDuration: number
 
+    /**
+     * Time in milliseconds after cache expiration during which the expired result is still returned.
+     * If not set then global stale-while-revalidate time will be used.
+     */
+    cacheStaleWhileRevalidate?: number
+
     /**
      * Cache id.
      * Used to identifier your cache queries.
      */
     cacheId: string
 
+    /**
+     * Tags of the cached query result set by user.
+     * Paths of the tables used by the query are added to them automatically.
+     */
+    cacheTags: string[] = []
+
     /**
      * Options that define QueryBuilder behaviour.
      */
@@ -315,6 +334,11 @@ export class QueryExpressionMap {
      */
     callListeners: boolean = true
 
+    /**
+     * Indicates if changed entities must be removed from the entity cache after query execution.
+     */
+    evictEntityCache: boolean = true
+
     /**
      * Indicates if query must be wrapped into transaction.
      */
@@ -351,6 +375,20 @@ export class QueryExpressionMap {
         options: QueryBuilderCteOptions
     }[] = []
 
+    /**
+     * Named windows declared in the WINDOW clause.
+     */
+    windows: { name: string; specification: string }[] = []
+
+    /**
+     * Queries combined with the main query using UNION, INTERSECT or EXCEPT.
+     * Applied in the order they were added.
+     */
+    setOperations: {
+        type: SetOperationType
+        queryBuilder: QueryBuilder<any>
+    }[] = []
+
     // -------------------------------------------------------------------------
     // Constructor
     // -------------------------------------------------------------------------
@@ -523,6 +561,7 @@ export class QueryExpressionMap {
         map.lockTables = this.lockTables
         map.withDeleted = this.withDeleted
         map.parameters = Object.assign({}, this.parameters)
+        map.sensitiveParameters = Object.assign({}, this.sensitiveParameters)
         map.disableEscaping = this.disableEscaping
         map.enableRelationIdValues = this.enableRelationIdValues
         map.extraAppendedAndWhereCondition = this.extraAppendedAndWhereCondition
@@ -531,12 +570,15 @@ export class QueryExpressionMap {
         map.cache = this.cache
         map.cacheId = this.cacheId
         map.cacheDuration = this.cacheDuration
+        map.cacheStaleWhileRevalidate = this.cacheStaleWhileRevalidate
+        map.cacheTags = [...this.cacheTags]
         map.relationPropertyPath = this.relationPropertyPath
         map.of = this.of
         map.insertColumns = this.insertColumns
         map.whereEntities = this.whereEntities
         map.updateEntity = this.updateEntity
         map.callListeners = this.callListeners
+        map.evictEntityCache = this.evictEntityCache
         map.useTransaction = this.useTransaction
         map.timeTravel = this.timeTravel
         map.nativeParameters = Object.assign({}, this.nativeParameters)
@@ -551,6 +593,11 @@ export class QueryExpressionMap {
                 options: cteOptions.options,
             }),
         )
+        map.windows = this.windows.map((window) => ({ ...window }))
+        map.setOperations = this.setOperations.map((setOperation) => ({
+            type: setOperation.type,
+            queryBuilder: setOperation.queryBuilder.clone(),
+        }))
         return map
     }
 }
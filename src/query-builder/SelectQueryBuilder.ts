@@ -1,5 +1,6 @@
 import { RawSqlResultsToEntityTransformer } from "./transformer/RawSqlResultsToEntityTransformer"
 import { ObjectLiteral } from "../common/ObjectLiteral"
+import { VersionUtils } from "../util/VersionUtils"
 import { PessimisticLockTransactionRequiredError } from "../error/PessimisticLockTransactionRequiredError"
 import { NoVersionOrUpdateDateColumnError } from "../error/NoVersionOrUpdateDateColumnError"
 import { OptimisticLockVersionMismatchError } from "../error/OptimisticLockVersionMismatchError"
@@ -45,6 +46,15 @@ import { AuroraMysqlDriver } from "../driver/aurora-mysql/AuroraMysqlDriver"
 import { InstanceChecker } from "../util/InstanceChecker"
 import { FindOperator } from "../find-options/FindOperator"
 import { ApplyValueTransformers } from "../util/ApplyValueTransformers"
+import { SetOperationType } from "./SetOperationType"
+import { WindowExpressionBuilder } from "./WindowExpressionBuilder"
+import { CursorPaginationOptions } from "../find-options/CursorPaginationOptions"
+import { CursorPaginationResult } from "./result/CursorPaginationResult"
+import { InvalidCursorError } from "../error/InvalidCursorError"
+import { WhereClauseCondition } from "./WhereClause"
+import { Alias } from "./Alias"
+import { TableColumn } from "../schema-builder/table/TableColumn"
+import { TableUtils } from "../schema-builder/util/TableUtils"
 
 /**
  * Allows to build complex sql queries in a fashion way and execute those queries.
@@ -73,6 +83,11 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
     }[] = []
     protected relationMetadatas: RelationMetadata[] = []
 
+    /**
+     * Prefix of parameter names of this query when it is combined into another one using set operation.
+     */
+    protected setOperationParameterPrefix: string = ""
+
     // -------------------------------------------------------------------------
     // Public Implemented Methods
     // -------------------------------------------------------------------------
@@ -83,19 +98,40 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
     getQuery(): string {
         let sql = this.createComment()
         sql += this.createCteExpression()
-        sql += this.createSelectExpression()
-        sql += this.createJoinExpression()
-        sql += this.createWhereExpression()
-        sql += this.createGroupByExpression()
-        sql += this.createHavingExpression()
-        sql += this.createOrderByExpression()
-        sql += this.createLimitOffsetExpression()
-        sql += this.createLockExpression()
+        if (this.hasSetOperations()) {
+            sql += this.createSetOperationExpression()
+            sql += this.createOrderByExpression()
+            sql += this.createLimitOffsetExpression()
+        } else {
+            sql += this.createSelectExpression()
+            sql += this.createJoinExpression()
+            sql += this.createWhereExpression()
+            sql += this.createGroupByExpression()
+            sql += this.createHavingExpression()
+            sql += this.createWindowClauseExpression()
+            sql += this.createOrderByExpression()
+            sql += this.createLimitOffsetExpression()
+            sql += this.createLockExpression()
+        }
         sql = sql.trim()
         if (this.expressionMap.subQuery) sql = "(" + sql + ")"
         return this.replacePropertyNamesForTheWholeQuery(sql)
     }
 
+    /**
+     * Gets all parameters, including parameters of queries combined using set operations.
+     */
+    getParameters(): ObjectLiteral {
+        const parameters = super.getParameters()
+        this.expressionMap.setOperations.forEach((_, index) => {
+            Object.assign(
+                parameters,
+                this.createSetOperationQueryBuilder(index).getParameters(),
+            )
+        })
+        return parameters
+    }
+
     // -------------------------------------------------------------------------
     // Public Methods
     // -------------------------------------------------------------------------
@@ -226,6 +262,86 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
         return this
     }
 
+    /**
+     * Adds a window function to the selection, e.g.
+     * addSelectWindow((window) => window.rowNumber().partitionBy("post.authorId").orderBy("post.id"), "rowNumber").
+     */
+    addSelectWindow(
+        windowFactory: (
+            window: WindowExpressionBuilder,
+        ) => WindowExpressionBuilder,
+        selectionAliasName: string,
+    ): this {
+        this.expressionMap.selects.push({
+            selection: this.createWindowFunctionExpression(
+                windowFactory(new WindowExpressionBuilder()),
+            ),
+            aliasName: selectionAliasName,
+        })
+        return this
+    }
+
+    /**
+     * Adds a window function to the selection and maps its value onto the given entity property, e.g.
+     * addSelectWindowAndMap((window) => window.rank().orderBy("post.rating", "DESC"), "post.rank").
+     * Mapped property must be a column which is not selected by default, e.g. a virtual column.
+     */
+    addSelectWindowAndMap(
+        windowFactory: (
+            window: WindowExpressionBuilder,
+        ) => WindowExpressionBuilder,
+        mapToProperty: string,
+    ): this {
+        const [aliasName, ...propertyPathParts] = mapToProperty.split(".")
+        const propertyPath = propertyPathParts.join(".")
+        const alias = this.expressionMap.findAliasByName(aliasName)
+        const column = alias.hasMetadata
+            ? alias.metadata.findColumnWithPropertyPath(propertyPath)
+            : undefined
+        if (!column)
+            throw new EntityPropertyNotFoundError(propertyPath, alias.metadata)
+
+        this.expressionMap.selects.push({
+            selection: this.createWindowFunctionCast(
+                this.createWindowFunctionExpression(
+                    windowFactory(new WindowExpressionBuilder()),
+                ),
+                column,
+            ),
+            aliasName: DriverUtils.buildAlias(
+                this.connection.driver,
+                undefined,
+                aliasName,
+                column.databaseName,
+            ),
+        })
+        return this
+    }
+
+    /**
+     * Declares a named window in the WINDOW clause which can be used by window functions, e.g.
+     * window("w", (window) => window.partitionBy("post.authorId").orderBy("post.id")).
+     */
+    window(
+        name: string,
+        windowFactory: (
+            window: WindowExpressionBuilder,
+        ) => WindowExpressionBuilder,
+    ): this {
+        if (!this.isWindowClauseSupported())
+            throw new TypeORMError(
+                `WINDOW clause is not supported by ${this.connection.driver.options.type} driver, use partitionBy() and orderBy() of the window function instead.`,
+            )
+
+        this.expressionMap.windows.push({
+            name,
+            specification: this.createWindowSpecification(
+                windowFactory(new WindowExpressionBuilder()),
+            ),
+        })
+        return this
+    }
+
     /**
      * Set max execution time.
      * @param milliseconds
@@ -991,131 +1107,432 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
     }
 
     /**
+     * LEFT JOINs given subquery as a LATERAL join (OUTER APPLY in SQL Server and Oracle).
+     * Subquery can reference aliases of the outer query, e.g. to select top N children per parent.
+     * You also need to specify an alias of the joined data.
+     * Optionally, you can add condition and parameters used in condition.
      */
-    // selectAndMap(mapToProperty: string, property: string, aliasName: string, qbFactory: ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>)): this;
+    leftJoinLateral(
+        subQueryFactory: (
+            qb: SelectQueryBuilder<any>,
+        ) => SelectQueryBuilder<any>,
+        alias: string,
+        condition?: string,
+        parameters?: ObjectLiteral,
+    ): this {
+        this.join(
+            "LEFT",
+            subQueryFactory,
+            alias,
+            condition,
+            parameters,
+            undefined,
+            undefined,
+            undefined,
+            true,
+        )
+        return this
+    }
 
     /**
+     * INNER JOINs given subquery as a LATERAL join (CROSS APPLY in SQL Server and Oracle).
+     * Subquery can reference aliases of the outer query, e.g. to select top N children per parent.
+     * You also need to specify an alias of the joined data.
+     * Optionally, you can add condition and parameters used in condition.
      */
-    // selectAndMap(mapToProperty: string, entity: Function|string, aliasName: string, qbFactory: ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>)): this;
+    innerJoinLateral(
+        subQueryFactory: (
+            qb: SelectQueryBuilder<any>,
+        ) => SelectQueryBuilder<any>,
+        alias: string,
+        condition?: string,
+        parameters?: ObjectLiteral,
+    ): this {
+        this.join(
+            "INNER",
+            subQueryFactory,
+            alias,
+            condition,
+            parameters,
+            undefined,
+            undefined,
+            undefined,
+            true,
+        )
+        return this
+    }
 
     /**
+     * LEFT JOINs given subquery as a LATERAL join (OUTER APPLY in SQL Server and Oracle) and SELECTs all its columns.
+     * You also need to specify an alias of the joined data.
+     * Optionally, you can add condition and parameters used in condition.
      */
-    // selectAndMap(mapToProperty: string, tableName: string, aliasName: string, qbFactory: ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>)): this;
+    leftJoinLateralAndSelect(
+        subQueryFactory: (
+            qb: SelectQueryBuilder<any>,
+        ) => SelectQueryBuilder<any>,
+        alias: string,
+        condition?: string,
+        parameters?: ObjectLiteral,
+    ): this {
+        this.addSelect(alias)
+        this.leftJoinLateral(subQueryFactory, alias, condition, parameters)
+        return this
+    }
 
     /**
+     * INNER JOINs given subquery as a LATERAL join (CROSS APPLY in SQL Server and Oracle) and SELECTs all its columns.
+     * You also need to specify an alias of the joined data.
+     * Optionally, you can add condition and parameters used in condition.
      */
-    // selectAndMap(mapToProperty: string, entityOrProperty: Function|string, aliasName: string, qbFactory: ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>)): this {
-    //     const select = new SelectAttribute(this.expressionMap);
-    //     select.mapToProperty = mapToProperty;
-    //     select.entityOrProperty = entityOrProperty;
-    //     select.aliasName = aliasName;
-    //     select.qbFactory = qbFactory;
-    //     return this;
-    // }
+    innerJoinLateralAndSelect(
+        subQueryFactory: (
+            qb: SelectQueryBuilder<any>,
+        ) => SelectQueryBuilder<any>,
+        alias: string,
+        condition?: string,
+        parameters?: ObjectLiteral,
+    ): this {
+        this.addSelect(alias)
+        this.innerJoinLateral(subQueryFactory, alias, condition, parameters)
+        return this
+    }
 
     /**
-     * LEFT JOINs relation id and maps it into some entity's property.
-     * Optionally, you can add condition and parameters used in condition.
+     * LEFT JOINs given subquery as a LATERAL join (OUTER APPLY in SQL Server and Oracle),
+     * SELECTs the data returned by a join and MAPs all that data to some entity's property.
+     * It will assume that there are multiple rows of selecting data, and mapped result will be an array.
+     * If mapAsEntity is given, subquery must select columns of that entity by their database names, e.g. using select("*").
      */
-    loadRelationIdAndMap(
+    leftJoinLateralAndMapMany(
         mapToProperty: string,
-        relationName: string,
-        options?: { disableMixedMap?: boolean },
-    ): this
+        subQueryFactory: (
+            qb: SelectQueryBuilder<any>,
+        ) => SelectQueryBuilder<any>,
+        alias: string,
+        condition?: string,
+        parameters?: ObjectLiteral,
+        mapAsEntity?: Function | string,
+    ): this {
+        this.addSelect(alias)
+        this.join(
+            "LEFT",
+            subQueryFactory,
+            alias,
+            condition,
+            parameters,
+            mapToProperty,
+            true,
+            mapAsEntity,
+            true,
+        )
+        return this
+    }
 
     /**
-     * LEFT JOINs relation id and maps it into some entity's property.
-     * Optionally, you can add condition and parameters used in condition.
+     * LEFT JOINs given subquery as a LATERAL join (OUTER APPLY in SQL Server and Oracle),
+     * SELECTs the data returned by a join and MAPs all that data to some entity's property.
+     * It will assume that there is a single row of selecting data, and mapped result will be a single selected value.
+     * If mapAsEntity is given, subquery must select columns of that entity by their database names, e.g. using select("*").
      */
-    loadRelationIdAndMap(
+    leftJoinLateralAndMapOne(
         mapToProperty: string,
-        relationName: string,
-        alias: string,
-        queryBuilderFactory: (
+        subQueryFactory: (
             qb: SelectQueryBuilder<any>,
         ) => SelectQueryBuilder<any>,
-    ): this
+        alias: string,
+        condition?: string,
+        parameters?: ObjectLiteral,
+        mapAsEntity?: Function | string,
+    ): this {
+        this.addSelect(alias)
+        this.join(
+            "LEFT",
+            subQueryFactory,
+            alias,
+            condition,
+            parameters,
+            mapToProperty,
+            false,
+            mapAsEntity,
+            true,
+        )
+        return this
+    }
 
     /**
-     * LEFT JOINs relation id and maps it into some entity's property.
-     * Optionally, you can add condition and parameters used in condition.
+     * INNER JOINs given subquery as a LATERAL join (CROSS APPLY in SQL Server and Oracle),
+     * SELECTs the data returned by a join and MAPs all that data to some entity's property.
+     * It will assume that there are multiple rows of selecting data, and mapped result will be an array.
+     * If mapAsEntity is given, subquery must select columns of that entity by their database names, e.g. using select("*").
      */
-    loadRelationIdAndMap(
+    innerJoinLateralAndMapMany(
         mapToProperty: string,
-        relationName: string,
-        aliasNameOrOptions?: string | { disableMixedMap?: boolean },
-        queryBuilderFactory?: (
+        subQueryFactory: (
             qb: SelectQueryBuilder<any>,
         ) => SelectQueryBuilder<any>,
+        alias: string,
+        condition?: string,
+        parameters?: ObjectLiteral,
+        mapAsEntity?: Function | string,
     ): this {
-        const relationIdAttribute = new RelationIdAttribute(this.expressionMap)
-        relationIdAttribute.mapToProperty = mapToProperty
-        relationIdAttribute.relationName = relationName
-        if (typeof aliasNameOrOptions === "string")
-            relationIdAttribute.alias = aliasNameOrOptions
-        if (
-            typeof aliasNameOrOptions === "object" &&
-            (aliasNameOrOptions as any).disableMixedMap
+        this.addSelect(alias)
+        this.join(
+            "INNER",
+            subQueryFactory,
+            alias,
+            condition,
+            parameters,
+            mapToProperty,
+            true,
+            mapAsEntity,
+            true,
         )
-            relationIdAttribute.disableMixedMap = true
-
-        relationIdAttribute.queryBuilderFactory = queryBuilderFactory
-        this.expressionMap.relationIdAttributes.push(relationIdAttribute)
-
-        if (relationIdAttribute.relation.junctionEntityMetadata) {
-            this.expressionMap.createAlias({
-                type: "other",
-                name: relationIdAttribute.junctionAlias,
-                metadata: relationIdAttribute.relation.junctionEntityMetadata,
-            })
-        }
         return this
     }
 
     /**
-     * Counts number of entities of entity's relation and maps the value into some entity's property.
-     * Optionally, you can add condition and parameters used in condition.
+     * INNER JOINs given subquery as a LATERAL join (CROSS APPLY in SQL Server and Oracle),
+     * SELECTs the data returned by a join and MAPs all that data to some entity's property.
+     * It will assume that there is a single row of selecting data, and mapped result will be a single selected value.
+     * If mapAsEntity is given, subquery must select columns of that entity by their database names, e.g. using select("*").
      */
-    loadRelationCountAndMap(
+    innerJoinLateralAndMapOne(
         mapToProperty: string,
-        relationName: string,
-        aliasName?: string,
-        queryBuilderFactory?: (
+        subQueryFactory: (
             qb: SelectQueryBuilder<any>,
         ) => SelectQueryBuilder<any>,
+        alias: string,
+        condition?: string,
+        parameters?: ObjectLiteral,
+        mapAsEntity?: Function | string,
     ): this {
-        const relationCountAttribute = new RelationCountAttribute(
-            this.expressionMap,
+        this.addSelect(alias)
+        this.join(
+            "INNER",
+            subQueryFactory,
+            alias,
+            condition,
+            parameters,
+            mapToProperty,
+            false,
+            mapAsEntity,
+            true,
         )
-        relationCountAttribute.mapToProperty = mapToProperty
-        relationCountAttribute.relationName = relationName
-        relationCountAttribute.alias = aliasName
-        relationCountAttribute.queryBuilderFactory = queryBuilderFactory
-        this.expressionMap.relationCountAttributes.push(relationCountAttribute)
-
-        this.expressionMap.createAlias({
-            type: "other",
-            name: relationCountAttribute.junctionAlias,
-        })
-        if (relationCountAttribute.relation.junctionEntityMetadata) {
-            this.expressionMap.createAlias({
-                type: "other",
-                name: relationCountAttribute.junctionAlias,
-                metadata:
-                    relationCountAttribute.relation.junctionEntityMetadata,
-            })
-        }
         return this
     }
 
     /**
-     * Loads all relation ids for all relations of the selected entity.
-     * All relation ids will be mapped to relation property themself.
-     * If array of strings is given then loads only relation ids of the given properties.
+     * CROSS JOINs (without selection) given entity, table or subquery.
+     * You also need to specify an alias of the joined data.
      */
-    loadAllRelationIds(options?: {
-        relations?: string[]
-        disableMixedMap?: boolean
+    crossJoin(
+        entityOrSubQueryFactory:
+            | Function
+            | string
+            | ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>),
+        alias: string,
+    ): this {
+        this.join("CROSS", entityOrSubQueryFactory, alias)
+        return this
+    }
+
+    /**
+     * CROSS JOINs given entity, table or subquery and SELECTs the data returned by a join.
+     * You also need to specify an alias of the joined data.
+     */
+    crossJoinAndSelect(
+        entityOrSubQueryFactory:
+            | Function
+            | string
+            | ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>),
+        alias: string,
+    ): this {
+        this.addSelect(alias)
+        this.crossJoin(entityOrSubQueryFactory, alias)
+        return this
+    }
+
+    /**
+     * CROSS JOINs given entity, table or subquery, SELECTs the data returned by a join and MAPs all that data to some entity's property.
+     * It will assume that there are multiple rows of selecting data, and mapped result will be an array.
+     */
+    crossJoinAndMapMany(
+        mapToProperty: string,
+        entityOrSubQueryFactory:
+            | Function
+            | string
+            | ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>),
+        alias: string,
+        mapAsEntity?: Function | string,
+    ): this {
+        this.addSelect(alias)
+        this.join(
+            "CROSS",
+            entityOrSubQueryFactory,
+            alias,
+            undefined,
+            undefined,
+            mapToProperty,
+            true,
+            mapAsEntity,
+        )
+        return this
+    }
+
+    /**
+     * CROSS JOINs given entity, table or subquery, SELECTs the data returned by a join and MAPs all that data to some entity's property.
+     * It will assume that there is a single row of selecting data, and mapped result will be a single selected value.
+     */
+    crossJoinAndMapOne(
+        mapToProperty: string,
+        entityOrSubQueryFactory:
+            | Function
+            | string
+            | ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>),
+        alias: string,
+        mapAsEntity?: Function | string,
+    ): this {
+        this.addSelect(alias)
+        this.join(
+            "CROSS",
+            entityOrSubQueryFactory,
+            alias,
+            undefined,
+            undefined,
+            mapToProperty,
+            false,
+            mapAsEntity,
+        )
+        return this
+    }
+
+    /**
+     */
+    // selectAndMap(mapToProperty: string, property: string, aliasName: string, qbFactory: ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>)): this;
+
+    /**
+     */
+    // selectAndMap(mapToProperty: string, entity: Function|string, aliasName: string, qbFactory: ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>)): this;
+
+    /**
+     */
+    // selectAndMap(mapToProperty: string, tableName: string, aliasName: string, qbFactory: ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>)): this;
+
+    /**
+     */
+    // selectAndMap(mapToProperty: string, entityOrProperty: Function|string, aliasName: string, qbFactory: ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>)): this {
+    //     const select = new SelectAttribute(this.expressionMap);
+    //     select.mapToProperty = mapToProperty;
+    //     select.entityOrProperty = entityOrProperty;
+    //     select.aliasName = aliasName;
+    //     select.qbFactory = qbFactory;
+    //     return this;
+    // }
+
+    /**
+     * LEFT JOINs relation id and maps it into some entity's property.
+     * Optionally, you can add condition and parameters used in condition.
+     */
+    loadRelationIdAndMap(
+        mapToProperty: string,
+        relationName: string,
+        options?: { disableMixedMap?: boolean },
+    ): this
+
+    /**
+     * LEFT JOINs relation id and maps it into some entity's property.
+     * Optionally, you can add condition and parameters used in condition.
+     */
+    loadRelationIdAndMap(
+        mapToProperty: string,
+        relationName: string,
+        alias: string,
+        queryBuilderFactory: (
+            qb: SelectQueryBuilder<any>,
+        ) => SelectQueryBuilder<any>,
+    ): this
+
+    /**
+     * LEFT JOINs relation id and maps it into some entity's property.
+     * Optionally, you can add condition and parameters used in condition.
+     */
+    loadRelationIdAndMap(
+        mapToProperty: string,
+        relationName: string,
+        aliasNameOrOptions?: string | { disableMixedMap?: boolean },
+        queryBuilderFactory?: (
+            qb: SelectQueryBuilder<any>,
+        ) => SelectQueryBuilder<any>,
+    ): this {
+        const relationIdAttribute = new RelationIdAttribute(this.expressionMap)
+        relationIdAttribute.mapToProperty = mapToProperty
+        relationIdAttribute.relationName = relationName
+        if (typeof aliasNameOrOptions === "string")
+            relationIdAttribute.alias = aliasNameOrOptions
+        if (
+            typeof aliasNameOrOptions === "object" &&
+            (aliasNameOrOptions as any).disableMixedMap
+        )
+            relationIdAttribute.disableMixedMap = true
+
+        relationIdAttribute.queryBuilderFactory = queryBuilderFactory
+        this.expressionMap.relationIdAttributes.push(relationIdAttribute)
+
+        if (relationIdAttribute.relation.junctionEntityMetadata) {
+            this.expressionMap.createAlias({
+                type: "other",
+                name: relationIdAttribute.junctionAlias,
+                metadata: relationIdAttribute.relation.junctionEntityMetadata,
+            })
+        }
+        return this
+    }
+
+    /**
+     * Counts number of entities of entity's relation and maps the value into some entity's property.
+     * Optionally, you can add condition and parameters used in condition.
+     */
+    loadRelationCountAndMap(
+        mapToProperty: string,
+        relationName: string,
+        aliasName?: string,
+        queryBuilderFactory?: (
+            qb: SelectQueryBuilder<any>,
+        ) => SelectQueryBuilder<any>,
+    ): this {
+        const relationCountAttribute = new RelationCountAttribute(
+            this.expressionMap,
+        )
+        relationCountAttribute.mapToProperty = mapToProperty
+        relationCountAttribute.relationName = relationName
+        relationCountAttribute.alias = aliasName
+        relationCountAttribute.queryBuilderFactory = queryBuilderFactory
+        this.expressionMap.relationCountAttributes.push(relationCountAttribute)
+
+        this.expressionMap.createAlias({
+            type: "other",
+            name: relationCountAttribute.junctionAlias,
+        })
+        if (relationCountAttribute.relation.junctionEntityMetadata) {
+            this.expressionMap.createAlias({
+                type: "other",
+                name: relationCountAttribute.junctionAlias,
+                metadata:
+                    relationCountAttribute.relation.junctionEntityMetadata,
+            })
+        }
+        return this
+    }
+
+    /**
+     * Loads all relation ids for all relations of the selected entity.
+     * All relation ids will be mapped to relation property themself.
+     * If array of strings is given then loads only relation ids of the given properties.
+     */
+    loadAllRelationIds(options?: {
+        relations?: string[]
+        disableMixedMap?: boolean
     }): this {
         // todo: add skip relations
         this.expressionMap.mainAlias!.metadata.relations.forEach((relation) => {
@@ -1596,6 +2013,40 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
         return this
     }
 
+    /**
+     * Combines results of this query with results of the given queries using UNION.
+     * Duplicate rows are removed from the combined result.
+     * Selected columns of all queries must match columns selected by this query.
+     */
+    union(...queryBuilders: SelectQueryBuilder<any>[]): this {
+        return this.addSetOperation("union", queryBuilders)
+    }
+
+    /**
+     * Combines results of this query with results of the given queries using UNION ALL.
+     * Duplicate rows are kept in the combined result.
+     * Selected columns of all queries must match columns selected by this query.
+     */
+    unionAll(...queryBuilders: SelectQueryBuilder<any>[]): this {
+        return this.addSetOperation("union-all", queryBuilders)
+    }
+
+    /**
+     * Keeps only rows returned by this query and by each of the given queries (INTERSECT).
+     * Selected columns of all queries must match columns selected by this query.
+     */
+    intersect(...queryBuilders: SelectQueryBuilder<any>[]): this {
+        return this.addSetOperation("intersect", queryBuilders)
+    }
+
+    /**
+     * Removes rows returned by the given queries from the results of this query (EXCEPT, or MINUS in Oracle).
+     * Selected columns of all queries must match columns selected by this query.
+     */
+    except(...queryBuilders: SelectQueryBuilder<any>[]): this {
+        return this.addSetOperation("except", queryBuilders)
+    }
+
     /**
      * Gets first raw result returned by execution of generated query builder sql.
      */
@@ -1902,12 +2353,100 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
         }
     }
 
+    /**
+     * Executes built SQL query and returns a page of entities using cursor (keyset) pagination.
+     * Instead of OFFSET, entities are filtered by comparison with the values of the ordered columns
+     * of the entity given by the cursor, which is stable under concurrent inserts and fast on large tables.
+     * Order, skip and take of this query builder are replaced by the pagination order and page size.
+     */
+    async paginate(
+        options: CursorPaginationOptions = {},
+    ): Promise<CursorPaginationResult<Entity>> {
+        if (!this.expressionMap.mainAlias?.hasMetadata)
+            throw new TypeORMError(
+                `Cursor pagination can be used only when entity is selected.`,
+            )
+        if (options.first !== undefined && options.last !== undefined)
+            throw new TypeORMError(
+                `"first" and "last" options of cursor pagination cannot be used together.`,
+            )
+
+        const isBackward = options.last !== undefined
+        const pageSize = isBackward ? options.last : options.first
+        const orderColumns = this.getCursorOrderColumns(options.orderBy)
+        const afterValues =
+            options.after !== undefined
+                ? this.decodeCursor(options.after, orderColumns)
+                : undefined
+        const beforeValues =
+            options.before !== undefined
+                ? this.decodeCursor(options.before, orderColumns)
+                : undefined
+
+        const aliasName = this.expressionMap.mainAlias.name
+        const pageQuery = this.createCursorQueryBuilder(orderColumns, [
+            afterValues
+                ? { values: afterValues, direction: "after" }
+                : undefined,
+            beforeValues
+                ? { values: beforeValues, direction: "before" }
+                : undefined,
+        ])
+        orderColumns.forEach(({ column, order }) => {
+            const pageOrder = isBackward
+                ? order === "ASC"
+                    ? "DESC"
+                    : "ASC"
+                : order
+            pageQuery.addOrderBy(
+                aliasName + "." + column.propertyPath,
+                pageOrder,
+            )
+        })
+        if (pageSize !== undefined) pageQuery.take(pageSize + 1)
+
+        let items = await pageQuery.getMany()
+        const hasMore = pageSize !== undefined && items.length > pageSize
+        if (hasMore) items = items.slice(0, pageSize)
+        if (isBackward) items.reverse()
+
+        // entities on the other side of the given cursor (including the cursor entity itself) exist
+        // if the cursor does not match everything in the direction we paginate from
+        const hasEntitiesBeyond = async (
+            values: any[] | undefined,
+            direction: "after" | "before",
+        ) => {
+            if (!values) return false
+            return this.createCursorQueryBuilder(orderColumns, [
+                { values, direction, negated: true },
+            ]).getExists()
+        }
+
+        const result = new CursorPaginationResult<Entity>()
+        result.items = items
+        result.cursors = items.map((item) =>
+            this.encodeCursor(item, orderColumns),
+        )
+        result.pageInfo = {
+            hasNextPage: isBackward
+                ? await hasEntitiesBeyond(beforeValues, "before")
+                : hasMore,
+            hasPreviousPage: isBackward
+                ? hasMore
+                : await hasEntitiesBeyond(afterValues, "after"),
+            startCursor: result.cursors[0],
+            endCursor: result.cursors[result.cursors.length - 1],
+        }
+        return result
+    }
+
     /**
      * Executes built SQL query and returns raw data stream.
      */
     async stream(): Promise<ReadStream> {
         this.expressionMap.queryEntity = false
-        const [sql, parameters] = this.getQueryAndParameters()
+        const [sql, parameters, redactedParameters] =
+            this.getQueryAndRedactedParameters()
         const queryRunner = this.obtainQueryRunner()
         let transactionStartedByUs: boolean = false
         try {
@@ -1931,6 +2470,7 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
                 parameters,
                 releaseFn,
                 releaseFn,
+                redactedParameters,
             )
 
             // close transaction if we started it
@@ -1955,138 +2495,721 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
      */
     cache(enabled: boolean): this
 
-    /**
-     * Enables query result caching and sets in milliseconds in which cache will expire.
-     * If not set then global caching time will be used.
-     */
-    cache(milliseconds: number): this
+    /**
+     * Enables query result caching and sets in milliseconds in which cache will expire.
+     * If not set then global caching time will be used.
+     */
+    cache(milliseconds: number): this
+
+    /**
+     * Enables query result caching and sets cache id and milliseconds in which cache will expire.
+     * Optionally sets milliseconds after expiration during which the expired result is still returned,
+     * while a single caller loads a fresh result.
+     */
+    cache(id: any, milliseconds?: number, staleWhileRevalidate?: number): this
+
+    /**
+     * Enables or disables query result caching.
+     */
+    cache(
+        enabledOrMillisecondsOrId: boolean | number | string,
+        maybeMilliseconds?: number,
+        maybeStaleWhileRevalidate?: number,
+    ): this {
+        if (typeof enabledOrMillisecondsOrId === "boolean") {
+            this.expressionMap.cache = enabledOrMillisecondsOrId
+        } else if (typeof enabledOrMillisecondsOrId === "number") {
+            this.expressionMap.cache = true
+            this.expressionMap.cacheDuration = enabledOrMillisecondsOrId
+        } else if (
+            typeof enabledOrMillisecondsOrId === "string" ||
+            typeof enabledOrMillisecondsOrId === "number"
+        ) {
+            this.expressionMap.cache = true
+            this.expressionMap.cacheId = enabledOrMillisecondsOrId
+        }
+
+        if (maybeMilliseconds) {
+            this.expressionMap.cacheDuration = maybeMilliseconds
+        }
+
+        if (maybeStaleWhileRevalidate !== undefined) {
+            this.expressionMap.cacheStaleWhileRevalidate =
+                maybeStaleWhileRevalidate
+        }
+
+        return this
+    }
+
+    /**
+     * Sets tags of the cached query result, which can be used to invalidate it.
+     * Paths of the tables used by the query are added to the tags automatically.
+     */
+    cacheTags(tags: string[]): this {
+        this.expressionMap.cacheTags = tags
+        return this
+    }
+
+    /**
+     * Sets extra options that can be used to configure how query builder works.
+     */
+    setOption(option: SelectQueryBuilderOption): this {
+        this.expressionMap.options.push(option)
+        return this
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    protected join(
+        direction: "INNER" | "LEFT" | "CROSS",
+        entityOrProperty:
+            | Function
+            | string
+            | ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>),
+        aliasName: string,
+        condition?: string,
+        parameters?: ObjectLiteral,
+        mapToProperty?: string,
+        isMappingMany?: boolean,
+        mapAsEntity?: Function | string,
+        lateral?: boolean,
+    ): void {
+        if (lateral && !this.isLateralJoinSupported())
+            throw new TypeORMError(
+                `LATERAL joins are not supported by ${this.connection.driver.options.type} driver.`,
+            )
+
+        if (parameters) {
+            this.setParameters(parameters)
+        }
+
+        const joinAttribute = new JoinAttribute(
+            this.connection,
+            this.expressionMap,
+        )
+        joinAttribute.direction = direction
+        joinAttribute.lateral = lateral
+        joinAttribute.mapAsEntity = mapAsEntity
+        joinAttribute.mapToProperty = mapToProperty
+        joinAttribute.isMappingMany = isMappingMany
+        joinAttribute.entityOrProperty = entityOrProperty // relationName
+        joinAttribute.condition = condition // joinInverseSideCondition
+        // joinAttribute.junctionAlias = joinAttribute.relation.isOwning ? parentAlias + "_" + destinationTableAlias : destinationTableAlias + "_" + parentAlias;
+        if (direction === "CROSS" && joinAttribute.relation)
+            throw new TypeORMError(
+                `Relation "${entityOrProperty}" cannot be cross joined, because it requires a join condition, use innerJoin() instead.`,
+            )
+
+        this.expressionMap.joinAttributes.push(joinAttribute)
+
+        const joinAttributeMetadata = joinAttribute.metadata
+        if (joinAttributeMetadata) {
+            if (
+                joinAttributeMetadata.deleteDateColumn &&
+                !this.expressionMap.withDeleted
+            ) {
+                const conditionDeleteColumn = `${aliasName}.${joinAttributeMetadata.deleteDateColumn.propertyName} IS NULL`
+                joinAttribute.condition = joinAttribute.condition
+                    ? ` ${joinAttribute.condition} AND ${conditionDeleteColumn}`
+                    : `${conditionDeleteColumn}`
+            }
+            // lateral subqueries are mapped as entity but still must be joined as subqueries
+            let subQuery: string | undefined = undefined
+            if (lateral && typeof entityOrProperty === "function") {
+                const subQueryBuilder: SelectQueryBuilder<any> = (
+                    entityOrProperty as any
+                )((this as any as SelectQueryBuilder<any>).subQuery())
+                this.setParameters(subQueryBuilder.getParameters())
+                subQuery = subQueryBuilder.getQuery()
+            }
+            // todo: find and set metadata right there?
+            joinAttribute.alias = this.expressionMap.createAlias({
+                type: "join",
+                name: aliasName,
+                metadata: joinAttributeMetadata,
+                subQuery: subQuery,
+            })
+            if (
+                joinAttribute.relation &&
+                joinAttribute.relation.junctionEntityMetadata
+            ) {
+                this.expressionMap.createAlias({
+                    type: "join",
+                    name: joinAttribute.junctionAlias,
+                    metadata: joinAttribute.relation.junctionEntityMetadata,
+                })
+            }
+        } else {
+            let subQuery: string = ""
+            if (typeof entityOrProperty === "function") {
+                const subQueryBuilder: SelectQueryBuilder<any> = (
+                    entityOrProperty as any
+                )((this as any as SelectQueryBuilder<any>).subQuery())
+                this.setParameters(subQueryBuilder.getParameters())
+                subQuery = subQueryBuilder.getQuery()
+            } else {
+                subQuery = entityOrProperty
+            }
+            const isSubQuery =
+                typeof entityOrProperty === "function" ||
+                (entityOrProperty.substr(0, 1) === "(" &&
+                    entityOrProperty.substr(-1) === ")")
+            joinAttribute.alias = this.expressionMap.createAlias({
+                type: "join",
+                name: aliasName,
+                tablePath:
+                    isSubQuery === false
+                        ? (entityOrProperty as string)
+                        : undefined,
+                subQuery: isSubQuery === true ? subQuery : undefined,
+            })
+        }
+    }
+
+    /**
+     * Adds given query builders to the list of queries combined with this query.
+     */
+    protected addSetOperation(
+        type: SetOperationType,
+        queryBuilders: SelectQueryBuilder<any>[],
+    ): this {
+        if (this.connection.driver.options.type === "mongodb")
+            throw new TypeORMError(
+                `Set operations are not supported by ${this.connection.driver.options.type} driver.`,
+            )
+
+        queryBuilders.forEach((queryBuilder) => {
+            this.expressionMap.setOperations.push({ type, queryBuilder })
+        })
+        return this
+    }
+
+    /**
+     * Checks if this query is combined with other queries using set operations.
+     */
+    protected hasSetOperations(): boolean {
+        return this.expressionMap.setOperations.length > 0
+    }
+
+    /**
+     * Creates query combined from this query and all queries added using set operations.
+     * ORDER BY and LIMIT / OFFSET of this query are applied to the combined result,
+     * so they are not part of the generated expression.
+     */
+    protected createSetOperationExpression(): string {
+        const isSqlite = DriverUtils.isSQLiteFamily(this.connection.driver)
+
+        // queries with their own ORDER BY, LIMIT or set operations are wrapped into a derived table
+        // because not every database accepts them as a part of a compound select.
+        // SQLite also does not allow parentheses around queries of a compound select.
+        const wrapQuery = (sql: string, isCompound: boolean, index: number) => {
+            if (isCompound)
+                sql =
+                    "SELECT * FROM (" +
+                    sql +
+                    ") " +
+                    this.escape("set_operation_" + index)
+            return isSqlite ? sql : "(" + sql + ")"
+        }
+
+        const mainQuery = this.replacePropertyNamesForTheWholeQuery(
+            this.createSelectExpression() +
+                this.createJoinExpression() +
+                this.createWhereExpression() +
+                this.createGroupByExpression() +
+                this.createHavingExpression() +
+                this.createWindowClauseExpression(),
+        )
+
+        let sql = wrapQuery(mainQuery.trim(), false, 0)
+        this.expressionMap.setOperations.forEach(
+            ({ type, queryBuilder }, index) => {
+                // databases differ in precedence of set operators (e.g. INTERSECT binds tighter than UNION in Postgres),
+                // so queries combined before the operator changes are grouped to apply operations in the order they were added
+                if (
+                    index > 0 &&
+                    type !== this.expressionMap.setOperations[index - 1].type
+                ) {
+                    const groupSql =
+                        "SELECT * FROM (" +
+                        sql +
+                        ") " +
+                        this.escape("set_operations_" + index)
+                    sql = isSqlite ? groupSql : "(" + groupSql + ")"
+                }
+
+                if (queryBuilder.expressionMap.subQuery)
+                    throw new TypeORMError(
+                        `Subqueries cannot be combined using set operations, use createQueryBuilder() to create a combined query instead.`,
+                    )
+
+                const isCompound =
+                    Object.keys(queryBuilder.expressionMap.orderBys).length >
+                        0 ||
+                    queryBuilder.expressionMap.limit !== undefined ||
+                    queryBuilder.expressionMap.offset !== undefined ||
+                    queryBuilder.expressionMap.take !== undefined ||
+                    queryBuilder.expressionMap.skip !== undefined ||
+                    queryBuilder.expressionMap.setOperations.length > 0
+
+                const querySql =
+                    this.createSetOperationQueryBuilder(index).getQuery()
+
+                sql +=
+                    " " +
+                    this.createSetOperator(type) +
+                    " " +
+                    wrapQuery(querySql, isCompound, index + 1)
+            },
+        )
+
+        return sql
+    }
+
+    /**
+     * Creates a copy of the query combined using set operation with the given index,
+     * with its parameters renamed, so they do not collide with same-named parameters of other combined queries.
+     */
+    protected createSetOperationQueryBuilder(
+        index: number,
+    ): SelectQueryBuilder<any> {
+        const queryBuilder = this.expressionMap.setOperations[
+            index
+        ].queryBuilder.clone() as SelectQueryBuilder<any>
+        const prefix = this.getSetOperationParameterName(index, "")
+        queryBuilder.setOperationParameterPrefix = prefix
+
+        const map = queryBuilder.expressionMap
+        const names = new Set(Object.keys(map.parameters))
+        if (names.size === 0) return queryBuilder
+
+        // string literals are skipped, so only references to parameters are renamed
+        const rename = (text: string) =>
+            text.replace(
+                /'(?:[^']|'')*'|(?<!:):(\.\.\.)?([A-Za-z0-9_.]+)/g,
+                (match, spread: string | undefined, name: string | undefined) =>
+                    name !== undefined && names.has(name)
+                        ? ":" + (spread || "") + prefix + name
+                        : match,
+            )
+        const renameKeys = <T>(object: { [key: string]: T }) => {
+            const renamed: { [key: string]: T } = {}
+            for (const key of Object.keys(object))
+                renamed[names.has(key) ? prefix + key : key] = object[key]
+            return renamed
+        }
+        const renameCondition = (
+            condition: WhereClauseCondition,
+        ): WhereClauseCondition => {
+            if (typeof condition === "string") return rename(condition)
+            if (Array.isArray(condition))
+                return condition.map((where) => ({
+                    ...where,
+                    condition: renameCondition(where.condition),
+                }))
+            if ("parameters" in condition)
+                return {
+                    ...condition,
+                    parameters: condition.parameters.map(rename),
+                }
+            return {
+                ...condition,
+                condition: renameCondition(condition.condition),
+            }
+        }
+
+        map.parameters = renameKeys(map.parameters)
+        map.sensitiveParameters = renameKeys(map.sensitiveParameters)
+        map.selects = map.selects.map((select) => ({
+            ...select,
+            selection: rename(select.selection),
+        }))
+        map.wheres = map.wheres.map((where) => ({
+            ...where,
+            condition: renameCondition(where.condition),
+        }))
+        map.havings = map.havings.map((having) => ({
+            ...having,
+            condition: rename(having.condition),
+        }))
+        map.groupBys = map.groupBys.map(rename)
+        map.orderBys = Object.keys(map.orderBys).reduce((orderBys, key) => {
+            orderBys[rename(key)] = map.orderBys[key]
+            return orderBys
+        }, {} as OrderByCondition)
+        map.windows = map.windows.map((window) => ({
+            ...window,
+            specification: rename(window.specification),
+        }))
+        map.joinAttributes.forEach((join) => {
+            if (join.condition) join.condition = rename(join.condition)
+        })
+        map.aliases = map.aliases.map((alias) => {
+            if (!alias.subQuery) return alias
+
+            const renamedAlias = new Alias(alias)
+            renamedAlias.subQuery = rename(alias.subQuery)
+            if (map.mainAlias?.name === alias.name) map.mainAlias = renamedAlias
+            return renamedAlias
+        })
+        return queryBuilder
+    }
+
+    /**
+     * Gets name of the given parameter of the query combined using set operation with the given index.
+     */
+    protected getSetOperationParameterName(index: number, name: string) {
+        return (
+            this.setOperationParameterPrefix +
+            "set_operation_" +
+            index +
+            "_" +
+            name
+        )
+    }
+
+    /**
+     * Creates SQL operator for the given set operation type.
+     */
+    protected createSetOperator(type: SetOperationType): string {
+        const { driver } = this.connection
+        switch (type) {
+            case "union":
+                // spanner requires explicit DISTINCT for set operations
+                return driver.options.type === "spanner"
+                    ? "UNION DISTINCT"
+                    : "UNION"
+            case "union-all":
+                return "UNION ALL"
+            case "intersect":
+                return driver.options.type === "spanner"
+                    ? "INTERSECT DISTINCT"
+                    : "INTERSECT"
+            case "except":
+                if (driver.options.type === "oracle") return "MINUS"
+                return driver.options.type === "spanner"
+                    ? "EXCEPT DISTINCT"
+                    : "EXCEPT"
+        }
+    }
+
+    /**
+     * Creates window function call with its OVER clause.
+     */
+    protected createWindowFunctionExpression(
+        window: WindowExpressionBuilder,
+    ): string {
+        if (!window.functionName)
+            throw new TypeORMError(
+                `Window function is not specified, use one of the window functions, e.g. rowNumber().`,
+            )
+
+        const functionArguments: string[] = []
+        if (window.functionPropertyPath)
+            functionArguments.push(
+                this.createWindowPropertyPath(window.functionPropertyPath),
+            )
+        if (
+            window.functionOffset !== undefined ||
+            window.functionDefaultValue !== undefined
+        )
+            functionArguments.push(String(window.functionOffset ?? 1))
+        if (window.functionDefaultValue !== undefined)
+            functionArguments.push(
+                this.createParameter(window.functionDefaultValue),
+            )
+
+        if (
+            window.windowName &&
+            (window.partitionBys.length ||
+                window.orderBys.length ||
+                window.frame)
+        )
+            throw new TypeORMError(
+                `Window function using named window "${window.windowName}" cannot have its own partitions, orders or frame, declare them in the named window instead.`,
+            )
+
+        const over = window.windowName
+            ? this.escape(window.windowName)
+            : "(" + this.createWindowSpecification(window) + ")"
+
+        return `${window.functionName}(${functionArguments.join(
+            ", ",
+        )}) OVER ${over}`
+    }
+
+    /**
+     * Casts value of the window function to the type of the column it is mapped onto,
+     * e.g. ROW_NUMBER() returns bigint, which most drivers return as a string.
+     */
+    protected createWindowFunctionCast(
+        expression: string,
+        column: ColumnMetadata,
+    ): string {
+        // MySQL accepts only a few types in CAST, its drivers return window function values as numbers anyway
+        if (DriverUtils.isMySQLFamily(this.connection.driver) || column.enum)
+            return expression
+
+        const type = this.connection.driver.createFullType(
+            new TableColumn(
+                TableUtils.createTableColumnOptions(
+                    column,
+                    this.connection.driver,
+                ),
+            ),
+        )
+        return `CAST(${expression} AS ${type})`
+    }
+
+    /**
+     * Creates PARTITION BY, ORDER BY and frame parts of the window.
+     */
+    protected createWindowSpecification(
+        window: WindowExpressionBuilder,
+    ): string {
+        const specification: string[] = []
+        if (window.partitionBys.length)
+            specification.push(
+                "PARTITION BY " +
+                    window.partitionBys
+                        .map((propertyPath) =>
+                            this.createWindowPropertyPath(propertyPath),
+                        )
+                        .join(", "),
+            )
+        if (window.orderBys.length)
+            specification.push(
+                "ORDER BY " +
+                    window.orderBys
+                        .map(
+                            ({ propertyPath, order, nulls }) =>
+                                this.createWindowPropertyPath(propertyPath) +
+                                " " +
+                                order +
+                                (nulls ? " " + nulls : ""),
+                        )
+                        .join(", "),
+            )
+        if (window.frame) specification.push(window.frame)
+
+        return specification.join(" ")
+    }
+
+    /**
+     * Resolves given property path (e.g. "post.authorId") into an escaped column name.
+     */
+    protected createWindowPropertyPath(propertyPath: string): string {
+        if (propertyPath.indexOf(".") === -1) return this.escape(propertyPath)
+
+        const [aliasName, ...propertyPathParts] = propertyPath.split(".")
+        const aliasPropertyPath = propertyPathParts.join(".")
+        const alias = this.expressionMap.findAliasByName(aliasName)
+        if (!alias.hasMetadata)
+            return this.escape(aliasName) + "." + this.escape(aliasPropertyPath)
+
+        const column =
+            alias.metadata.findColumnWithPropertyPath(aliasPropertyPath)
+        if (!column)
+            throw new EntityPropertyNotFoundError(
+                aliasPropertyPath,
+                alias.metadata,
+            )
+
+        return this.escape(aliasName) + "." + this.escape(column.databaseName)
+    }
+
+    /**
+     * Creates "WINDOW" part of SQL query.
+     */
+    protected createWindowClauseExpression(): string {
+        if (!this.expressionMap.windows.length) return ""
+
+        return (
+            " WINDOW " +
+            this.expressionMap.windows
+                .map(
+                    (window) =>
+                        this.escape(window.name) +
+                        " AS (" +
+                        window.specification +
+                        ")",
+                )
+                .join(", ")
+        )
+    }
+
+    /**
+     * Gets columns used to order entities in cursor pagination.
+     * Primary columns are appended to make the order stable.
+     */
+    protected getCursorOrderColumns(
+        orderBy: {
+            [propertyPath: string]: "ASC" | "DESC"
+        } = {},
+    ): { column: ColumnMetadata; order: "ASC" | "DESC" }[] {
+        const metadata = this.expressionMap.mainAlias!.metadata
+        const orderColumns = Object.keys(orderBy).map((propertyPath) => {
+            const column = metadata.findColumnWithPropertyPath(propertyPath)
+            if (!column)
+                throw new EntityPropertyNotFoundError(propertyPath, metadata)
+
+            // comparisons with NULL are never true, so rows with NULL values would be skipped
+            if (column.isNullable)
+                throw new TypeORMError(
+                    `Cursor pagination cannot be ordered by nullable column "${propertyPath}".`,
+                )
+
+            const order = orderBy[propertyPath].toUpperCase()
+            if (order !== "ASC" && order !== "DESC")
+                throw new TypeORMError(
+                    `SELECT query's ORDER BY direction can be only "ASC" or "DESC", but "${order}" given for "${propertyPath}".`,
+                )
+
+            return { column, order: order as "ASC" | "DESC" }
+        })
+
+        metadata.primaryColumns.forEach((primaryColumn) => {
+            if (!orderColumns.some(({ column }) => column === primaryColumn))
+                orderColumns.push({ column: primaryColumn, order: "ASC" })
+        })
+        return orderColumns
+    }
+
+    /**
+     * Creates a copy of this query builder filtered by the given cursor conditions,
+     * without any ordering and pagination applied.
+     */
+    protected createCursorQueryBuilder(
+        orderColumns: { column: ColumnMetadata; order: "ASC" | "DESC" }[],
+        cursorConditions: (
+            | {
+                  values: any[]
+                  direction: "after" | "before"
+                  negated?: boolean
+              }
+            | undefined
+        )[],
+    ): SelectQueryBuilder<Entity> {
+        const queryBuilder = this.clone()
+            .orderBy()
+            .offset(undefined)
+            .limit(undefined)
+            .skip(undefined)
+            .take(undefined)
+            .setOption("disable-global-order")
+
+        const conditions = cursorConditions
+            .filter((condition) => condition !== undefined)
+            .map((condition) => {
+                const expression = queryBuilder.createCursorCondition(
+                    condition!.values,
+                    orderColumns,
+                    condition!.direction,
+                )
+                return condition!.negated
+                    ? `NOT (${expression})`
+                    : `(${expression})`
+            })
+
+        // cursor conditions are appended as a separate condition to not mix with user's OR conditions
+        if (queryBuilder.expressionMap.extraAppendedAndWhereCondition)
+            conditions.unshift(
+                `(${queryBuilder.expressionMap.extraAppendedAndWhereCondition})`,
+            )
+        queryBuilder.expressionMap.extraAppendedAndWhereCondition =
+            conditions.join(" AND ")
 
-    /**
-     * Enables query result caching and sets cache id and milliseconds in which cache will expire.
-     */
-    cache(id: any, milliseconds?: number): this
+        return queryBuilder
+    }
 
     /**
-     * Enables or disables query result caching.
+     * Creates condition selecting rows ordered after (or before) the row with given values of the ordered columns, e.g.
+     * (a > :a) OR (a = :a AND b > :b).
      */
-    cache(
-        enabledOrMillisecondsOrId: boolean | number | string,
-        maybeMilliseconds?: number,
-    ): this {
-        if (typeof enabledOrMillisecondsOrId === "boolean") {
-            this.expressionMap.cache = enabledOrMillisecondsOrId
-        } else if (typeof enabledOrMillisecondsOrId === "number") {
-            this.expressionMap.cache = true
-            this.expressionMap.cacheDuration = enabledOrMillisecondsOrId
-        } else if (
-            typeof enabledOrMillisecondsOrId === "string" ||
-            typeof enabledOrMillisecondsOrId === "number"
-        ) {
-            this.expressionMap.cache = true
-            this.expressionMap.cacheId = enabledOrMillisecondsOrId
-        }
-
-        if (maybeMilliseconds) {
-            this.expressionMap.cacheDuration = maybeMilliseconds
-        }
-
-        return this
+    protected createCursorCondition(
+        values: any[],
+        orderColumns: { column: ColumnMetadata; order: "ASC" | "DESC" }[],
+        direction: "after" | "before",
+    ): string {
+        const aliasName = this.expressionMap.mainAlias!.name
+        const columnPaths = orderColumns.map(
+            ({ column }) =>
+                this.escape(aliasName) + "." + this.escape(column.databaseName),
+        )
+        const parameters = values.map((value) => this.createParameter(value))
+
+        return orderColumns
+            .map(({ order }, index) => {
+                const operator =
+                    (order === "ASC") === (direction === "after") ? ">" : "<"
+                const equalities = columnPaths
+                    .slice(0, index)
+                    .map(
+                        (columnPath, equalityIndex) =>
+                            `${columnPath} = ${parameters[equalityIndex]}`,
+                    )
+                return (
+                    "(" +
+                    [
+                        ...equalities,
+                        `${columnPaths[index]} ${operator} ${parameters[index]}`,
+                    ].join(" AND ") +
+                    ")"
+                )
+            })
+            .join(" OR ")
     }
 
     /**
-     * Sets extra options that can be used to configure how query builder works.
+     * Encodes values of the ordered columns of the given entity into an opaque cursor.
+     * Values are stored as they are persisted, i.e. with column transformers applied,
+     * because they are compared with the values stored in the database.
      */
-    setOption(option: SelectQueryBuilderOption): this {
-        this.expressionMap.options.push(option)
-        return this
+    protected encodeCursor(
+        entity: ObjectLiteral,
+        orderColumns: { column: ColumnMetadata; order: "ASC" | "DESC" }[],
+    ): string {
+        const values = orderColumns.map(({ column }) => {
+            // driver applies column transformers before converting value to the column type
+            const value = this.connection.driver.preparePersistentValue(
+                column.getEntityValue(entity),
+                column,
+            )
+            if (value instanceof Date) return { date: value.toISOString() }
+            if (Buffer.isBuffer(value))
+                return { buffer: value.toString("base64") }
+            if (typeof value === "bigint") return value.toString()
+            return value
+        })
+        return Buffer.from(JSON.stringify(values)).toString("base64")
     }
 
-    // -------------------------------------------------------------------------
-    // Protected Methods
-    // -------------------------------------------------------------------------
-
-    protected join(
-        direction: "INNER" | "LEFT",
-        entityOrProperty:
-            | Function
-            | string
-            | ((qb: SelectQueryBuilder<any>) => SelectQueryBuilder<any>),
-        aliasName: string,
-        condition?: string,
-        parameters?: ObjectLiteral,
-        mapToProperty?: string,
-        isMappingMany?: boolean,
-        mapAsEntity?: Function | string,
-    ): void {
-        if (parameters) {
-            this.setParameters(parameters)
+    /**
+     * Decodes values of the ordered columns from the given cursor.
+     */
+    protected decodeCursor(
+        cursor: string,
+        orderColumns: { column: ColumnMetadata; order: "ASC" | "DESC" }[],
+    ): any[] {
+        let values: any
+        try {
+            values = JSON.parse(Buffer.from(cursor, "base64").toString())
+        } catch (error) {
+            throw new InvalidCursorError(cursor)
         }
 
-        const joinAttribute = new JoinAttribute(
-            this.connection,
-            this.expressionMap,
-        )
-        joinAttribute.direction = direction
-        joinAttribute.mapAsEntity = mapAsEntity
-        joinAttribute.mapToProperty = mapToProperty
-        joinAttribute.isMappingMany = isMappingMany
-        joinAttribute.entityOrProperty = entityOrProperty // relationName
-        joinAttribute.condition = condition // joinInverseSideCondition
-        // joinAttribute.junctionAlias = joinAttribute.relation.isOwning ? parentAlias + "_" + destinationTableAlias : destinationTableAlias + "_" + parentAlias;
-        this.expressionMap.joinAttributes.push(joinAttribute)
+        if (!Array.isArray(values) || values.length !== orderColumns.length)
+            throw new InvalidCursorError(cursor)
 
-        const joinAttributeMetadata = joinAttribute.metadata
-        if (joinAttributeMetadata) {
-            if (
-                joinAttributeMetadata.deleteDateColumn &&
-                !this.expressionMap.withDeleted
-            ) {
-                const conditionDeleteColumn = `${aliasName}.${joinAttributeMetadata.deleteDateColumn.propertyName} IS NULL`
-                joinAttribute.condition = joinAttribute.condition
-                    ? ` ${joinAttribute.condition} AND ${conditionDeleteColumn}`
-                    : `${conditionDeleteColumn}`
-            }
-            // todo: find and set metadata right there?
-            joinAttribute.alias = this.expressionMap.createAlias({
-                type: "join",
-                name: aliasName,
-                metadata: joinAttributeMetadata,
-            })
-            if (
-                joinAttribute.relation &&
-                joinAttribute.relation.junctionEntityMetadata
-            ) {
-                this.expressionMap.createAlias({
-                    type: "join",
-                    name: joinAttribute.junctionAlias,
-                    metadata: joinAttribute.relation.junctionEntityMetadata,
-                })
-            }
-        } else {
-            let subQuery: string = ""
-            if (typeof entityOrProperty === "function") {
-                const subQueryBuilder: SelectQueryBuilder<any> = (
-                    entityOrProperty as any
-                )((this as any as SelectQueryBuilder<any>).subQuery())
-                this.setParameters(subQueryBuilder.getParameters())
-                subQuery = subQueryBuilder.getQuery()
-            } else {
-                subQuery = entityOrProperty
-            }
-            const isSubQuery =
-                typeof entityOrProperty === "function" ||
-                (entityOrProperty.substr(0, 1) === "(" &&
-                    entityOrProperty.substr(-1) === ")")
-            joinAttribute.alias = this.expressionMap.createAlias({
-                type: "join",
-                name: aliasName,
-                tablePath:
-                    isSubQuery === false
-                        ? (entityOrProperty as string)
-                        : undefined,
-                subQuery: isSubQuery === true ? subQuery : undefined,
-            })
-        }
+        return values.map((value) => {
+            if (ObjectUtils.isObject(value) && typeof value.date === "string")
+                return new Date(value.date)
+            if (ObjectUtils.isObject(value) && typeof value.buffer === "string")
+                return Buffer.from(value.buffer, "base64")
+            return value
+        })
     }
 
     /**
@@ -2258,27 +3381,36 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
             const relation = joinAttr.relation
             const destinationTableName = joinAttr.tablePath
             const destinationTableAlias = joinAttr.alias.name
-            let appendedCondition = joinAttr.condition
-                ? " AND (" + joinAttr.condition + ")"
+            const joinCondition = this.createJoinCondition(joinAttr)
+            let appendedCondition = joinCondition
+                ? " AND (" + joinCondition + ")"
                 : ""
             const parentAlias = joinAttr.parentAlias
 
             // if join was build without relation (e.g. without "post.category") then it means that we have direct
             // table to join, without junction table involved. This means we simply join direct table.
             if (!parentAlias || !relation) {
+                if (joinAttr.lateral)
+                    return this.createLateralJoinExpression(joinAttr)
+
                 const destinationJoin = joinAttr.alias.subQuery
                     ? joinAttr.alias.subQuery
                     : this.getTableName(destinationTableName)
+                // cross join with a condition (e.g. soft delete condition) is an inner join
+                const direction =
+                    joinAttr.direction === "CROSS" && joinCondition
+                        ? "INNER"
+                        : joinAttr.direction
                 return (
                     " " +
-                    joinAttr.direction +
+                    direction +
                     " JOIN " +
                     destinationJoin +
                     " " +
                     this.escape(destinationTableAlias) +
                     this.createTableLockExpression() +
-                    (joinAttr.condition
-                        ? " ON " + this.replacePropertyNames(joinAttr.condition)
+                    (joinCondition
+                        ? " ON " + this.replacePropertyNames(joinCondition)
                         : "")
                 )
             }
@@ -2465,6 +3597,94 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
         return joins.join(" ")
     }
 
+    /**
+     * Checks if current driver supports named windows declared in the WINDOW clause.
+     */
+    protected isWindowClauseSupported(): boolean {
+        return (
+            DriverUtils.isPostgresFamily(this.connection.driver) ||
+            DriverUtils.isMySQLFamily(this.connection.driver) ||
+            DriverUtils.isSQLiteFamily(this.connection.driver) ||
+            this.connection.driver.options.type === "aurora-mysql"
+        )
+    }
+
+    /**
+     * Checks if current driver supports LATERAL joins or their CROSS APPLY / OUTER APPLY equivalents.
+     */
+    protected isLateralJoinSupported(): boolean {
+        const { driver } = this.connection
+        if (
+            ["mysql", "aurora-mysql", "planetscale"].includes(
+                driver.options.type,
+            )
+        ) {
+            // "mysql" driver can be connected to MariaDB, which does not support LATERAL joins,
+            // and MySQL supports them since 8.0.14
+            if (!driver.version) return false
+            return (
+                !/mariadb/i.test(driver.version) &&
+                VersionUtils.isGreaterOrEqual(driver.version, "8.0.14")
+            )
+        }
+
+        return (
+            DriverUtils.isPostgresFamily(driver) ||
+            ["mssql", "oracle"].includes(driver.options.type)
+        )
+    }
+
+    /**
+     * Creates condition of the given join,
+     * including condition of the current tenant if joined entity has a tenant column.
+     */
+    protected createJoinCondition(joinAttr: JoinAttribute): string | undefined {
+        // joined sub-queries are filtered by tenant on their own
+        const metadata = joinAttr.alias.subQuery ? undefined : joinAttr.metadata
+        const tenantCondition = metadata
+            ? this.createTenantCondition(metadata, joinAttr.alias.name)
+            : undefined
+        if (!tenantCondition) return joinAttr.condition
+
+        return joinAttr.condition
+            ? `(${joinAttr.condition}) AND ${tenantCondition}`
+            : tenantCondition
+    }
+
+    /**
+     * Creates LATERAL join of a subquery.
+     * SQL Server and Oracle use CROSS APPLY and OUTER APPLY which don't have an ON clause,
+     * so join condition is applied to the subquery results instead.
+     */
+    protected createLateralJoinExpression(joinAttr: JoinAttribute): string {
+        const subQuery = joinAttr.alias.subQuery!
+        const escapedAlias = this.escape(joinAttr.alias.name)
+        const condition = joinAttr.condition
+            ? this.replacePropertyNames(joinAttr.condition)
+            : undefined
+
+        if (
+            this.connection.driver.options.type === "mssql" ||
+            this.connection.driver.options.type === "oracle"
+        ) {
+            const apply =
+                joinAttr.direction === "LEFT" ? "OUTER APPLY" : "CROSS APPLY"
+            const appliedQuery = condition
+                ? `(SELECT * FROM ${subQuery} ${escapedAlias} WHERE ${condition})`
+                : subQuery
+            return ` ${apply} ${appliedQuery} ${escapedAlias}`
+        }
+
+        if (joinAttr.direction === "CROSS" && !condition)
+            return ` CROSS JOIN LATERAL ${subQuery} ${escapedAlias}`
+
+        const direction =
+            joinAttr.direction === "CROSS" ? "INNER" : joinAttr.direction
+        return ` ${direction} JOIN LATERAL ${subQuery} ${escapedAlias} ON ${
+            condition ?? "TRUE"
+        }`
+    }
+
     /**
      * Creates "GROUP BY" part of SQL query.
      */
@@ -2497,9 +3717,10 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
                     const selection = this.expressionMap.selects.find(
                         (s) => s.selection === columnName,
                     )
+                    // combined results of set operations can only be ordered by selected column aliases
                     if (
-                        selection &&
-                        !selection.aliasName &&
+                        ((selection && !selection.aliasName) ||
+                            this.hasSetOperations()) &&
                         columnName.indexOf(".") !== -1
                     ) {
                         const criteriaParts = columnName.split(".")
@@ -2546,7 +3767,8 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
         if (
             !offset &&
             !limit &&
-            this.expressionMap.joinAttributes.length === 0
+            (this.expressionMap.joinAttributes.length === 0 ||
+                this.hasSetOperations())
         ) {
             offset = this.expressionMap.skip
             limit = this.expressionMap.take
@@ -3041,6 +4263,34 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
     protected async executeCountQuery(
         queryRunner: QueryRunner,
     ): Promise<number> {
+        if (this.hasSetOperations()) {
+            // combined results can only be counted from a derived table
+            const combinedQuery = this.clone()
+                .orderBy()
+                .offset(undefined)
+                .limit(undefined)
+                .skip(undefined)
+                .take(undefined)
+                .setOption("disable-global-order")
+            const combinedSql = combinedQuery.getQuery()
+
+            const combinedResults = await this.createQueryBuilder(queryRunner)
+                .select("COUNT(*)", "cnt")
+                .from(`(${combinedSql})`, "combined")
+                .setParameters(combinedQuery.getParameters())
+                .setNativeParameters(this.expressionMap.nativeParameters)
+                .loadRawResults(queryRunner)
+
+            if (
+                !combinedResults ||
+                !combinedResults[0] ||
+                !combinedResults[0]["cnt"]
+            )
+                return 0
+
+            return parseInt(combinedResults[0]["cnt"])
+        }
+
         const countSql = this.computeCountExpression()
 
         const results = await this.clone()
@@ -3243,7 +4493,10 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
                 this.cache(
                     this.findOptions.cache.id,
                     this.findOptions.cache.milliseconds,
+                    this.findOptions.cache.staleWhileRevalidate,
                 )
+                if (this.findOptions.cache.tags)
+                    this.cacheTags(this.findOptions.cache.tags)
             }
 
             if (this.findOptions.join) {
@@ -3428,7 +4681,8 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
         // and second query loads the actual data in given ids range
         if (
             (this.expressionMap.skip || this.expressionMap.take) &&
-            this.expressionMap.joinAttributes.length > 0
+            this.expressionMap.joinAttributes.length > 0 &&
+            !this.hasSetOperations()
         ) {
             // we are skipping order by here because its not working in subqueries anyway
             // to make order by working we need to apply it on a distinct query
@@ -3493,6 +4747,7 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
                         ? `${this.expressionMap.cacheId}-pagination`
                         : this.expressionMap.cache,
                     this.expressionMap.cacheDuration,
+                    this.expressionMap.cacheStaleWhileRevalidate,
                 )
                 .setParameters(this.getParameters())
                 .setNativeParameters(this.expressionMap.nativeParameters)
@@ -3759,7 +5014,8 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
      * Loads raw results from the database.
      */
     protected async loadRawResults(queryRunner: QueryRunner) {
-        const [sql, parameters] = this.getQueryAndParameters()
+        const [sql, parameters, redactedParameters] =
+            this.getQueryAndRedactedParameters()
         const queryId =
             sql +
             " -- PARAMETERS: " +
@@ -3778,69 +5034,205 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
                 this.expressionMap.cache !== false) ||
             // ...or it's enabled locally explicitly.
             this.expressionMap.cache === true
-        let cacheError = false
-        if (this.connection.queryResultCache && isCachingEnabled) {
-            try {
-                savedQueryResultCacheOptions =
-                    await this.connection.queryResultCache.getFromCache(
-                        {
-                            identifier: this.expressionMap.cacheId,
-                            query: queryId,
-                            duration:
-                                this.expressionMap.cacheDuration ||
-                                cacheOptions.duration ||
-                                1000,
-                        },
-                        queryRunner,
-                    )
-                if (
-                    savedQueryResultCacheOptions &&
-                    !this.connection.queryResultCache.isExpired(
+        const queryResultCache = this.connection.queryResultCache
+        if (!queryResultCache || !isCachingEnabled) {
+            const results = await queryRunner.query(
+                sql,
+                parameters,
+                true,
+                redactedParameters,
+            )
+            return results.records
+        }
+
+        const queryResultCacheOptions: QueryResultCacheOptions = {
+            identifier: this.expressionMap.cacheId,
+            query: queryId,
+            duration:
+                this.expressionMap.cacheDuration ||
+                cacheOptions.duration ||
+                1000,
+        }
+        const staleWhileRevalidate =
+            this.expressionMap.cacheStaleWhileRevalidate !== undefined
+                ? this.expressionMap.cacheStaleWhileRevalidate
+                : cacheOptions.staleWhileRevalidate
+        // stale-while-revalidate window is passed only when it's used, the same way as tags
+        if (staleWhileRevalidate)
+            queryResultCacheOptions.staleWhileRevalidate = staleWhileRevalidate
+
+        const cacheKey = this.expressionMap.cacheId || queryId
+        const refreshes = this.connection.queryResultCacheRefreshes
+        let isRefreshLocked = false
+        try {
+            savedQueryResultCacheOptions = await queryResultCache.getFromCache(
+                queryResultCacheOptions,
+                queryRunner,
+            )
+            if (
+                savedQueryResultCacheOptions &&
+                !queryResultCache.isExpired(savedQueryResultCacheOptions)
+            ) {
+                return JSON.parse(savedQueryResultCacheOptions.result)
+            }
+
+            // expired result is returned while another caller refreshes it
+            if (
+                savedQueryResultCacheOptions &&
+                staleWhileRevalidate &&
+                this.isCachedResultStale(
+                    savedQueryResultCacheOptions,
+                    staleWhileRevalidate,
+                )
+            ) {
+                if (refreshes.has(cacheKey))
+                    return JSON.parse(savedQueryResultCacheOptions.result)
+
+                if (queryResultCache.lockRefresh) {
+                    isRefreshLocked = await queryResultCache.lockRefresh(
+                        queryResultCacheOptions,
                         savedQueryResultCacheOptions,
+                        queryRunner,
                     )
-                ) {
-                    return JSON.parse(savedQueryResultCacheOptions.result)
+                    if (!isRefreshLocked)
+                        return JSON.parse(savedQueryResultCacheOptions.result)
                 }
-            } catch (error) {
-                if (!cacheOptions.ignoreErrors) {
-                    throw error
-                }
-                cacheError = true
             }
-        }
+        } catch (error) {
+            if (!cacheOptions.ignoreErrors) {
+                throw error
+            }
 
-        const results = await queryRunner.query(sql, parameters, true)
+            const results = await queryRunner.query(
+                sql,
+                parameters,
+                true,
+                redactedParameters,
+            )
+            return results.records
+        }
 
-        if (
-            !cacheError &&
-            this.connection.queryResultCache &&
-            isCachingEnabled
-        ) {
+        const refresh = async () => {
             try {
-                await this.connection.queryResultCache.storeInCache(
-                    {
-                        identifier: this.expressionMap.cacheId,
-                        query: queryId,
-                        time: new Date().getTime(),
-                        duration:
-                            this.expressionMap.cacheDuration ||
-                            cacheOptions.duration ||
-                            1000,
-                        result: JSON.stringify(results.records),
-                    },
-                    savedQueryResultCacheOptions,
+                return await this.refreshCachedResults(
                     queryRunner,
+                    sql,
+                    parameters,
+                    redactedParameters,
+                    queryResultCacheOptions,
+                    savedQueryResultCacheOptions,
                 )
             } catch (error) {
-                if (!cacheOptions.ignoreErrors) {
-                    throw error
-                }
+                // failed refresh must not leave the stale result locked as a fresh one
+                if (isRefreshLocked && queryResultCache.unlockRefresh)
+                    await queryResultCache
+                        .unlockRefresh(
+                            queryResultCacheOptions,
+                            savedQueryResultCacheOptions!,
+                            queryRunner,
+                        )
+                        .catch(() => undefined)
+                throw error
+            }
+        }
+
+        // results of queries in transaction may differ from results seen by other query runners
+        if (queryRunner.isTransactionActive) return refresh()
+
+        // concurrent callers of the same query wait for a single refresh
+        const pendingRefresh = refreshes.get(cacheKey)
+        if (pendingRefresh) return pendingRefresh
+
+        const pending = refresh()
+        refreshes.set(cacheKey, pending)
+        try {
+            return await pending
+        } finally {
+            refreshes.delete(cacheKey)
+        }
+    }
+
+    /**
+     * Loads raw results from the database and stores them in the query result cache.
+     */
+    protected async refreshCachedResults(
+        queryRunner: QueryRunner,
+        sql: string,
+        parameters: any[],
+        redactedParameters: any[] | undefined,
+        options: QueryResultCacheOptions,
+        savedQueryResultCacheOptions: QueryResultCacheOptions | undefined,
+    ) {
+        const results = await queryRunner.query(
+            sql,
+            parameters,
+            true,
+            redactedParameters,
+        )
+
+        const cacheOptions =
+            typeof this.connection.options.cache === "object"
+                ? this.connection.options.cache
+                : {}
+        const queryResultCache = this.connection.queryResultCache!
+        try {
+            const queryResultCacheOptions: QueryResultCacheOptions = {
+                ...options,
+                time: new Date().getTime(),
+                result: JSON.stringify(results.records),
+            }
+            // tags are passed only to caches supporting invalidation by tags
+            if (queryResultCache.invalidateTags)
+                queryResultCacheOptions.tags = this.getCacheTags()
+
+            await queryResultCache.storeInCache(
+                queryResultCacheOptions,
+                savedQueryResultCacheOptions,
+                queryRunner,
+            )
+        } catch (error) {
+            if (!cacheOptions.ignoreErrors) {
+                throw error
             }
         }
 
         return results.records
     }
 
+    /**
+     * Checks if expired cached result can still be returned
+     * during stale-while-revalidate window.
+     */
+    protected isCachedResultStale(
+        savedCache: QueryResultCacheOptions,
+        staleWhileRevalidate: number,
+    ): boolean {
+        const time =
+            typeof savedCache.time === "string"
+                ? parseInt(savedCache.time)
+                : savedCache.time!
+        const duration =
+            typeof savedCache.duration === "string"
+                ? parseInt(savedCache.duration)
+                : savedCache.duration
+        return time + duration + staleWhileRevalidate >= new Date().getTime()
+    }
+
+    /**
+     * Gets tags of the cached query result:
+     * tags set by user and paths of the tables used by the query.
+     */
+    protected getCacheTags(): string[] {
+        const tags = [...this.expressionMap.cacheTags]
+        for (const alias of this.expressionMap.aliases) {
+            if (!alias.hasMetadata) continue
+
+            const tablePath = alias.metadata.tablePath
+            if (tags.indexOf(tablePath) === -1) tags.push(tablePath)
+        }
+        return tags
+    }
+
     /**
      * Merges into expression map given expression map properties.
      */
@@ -4324,6 +5716,7 @@ export class SelectQueryBuilder<Entity extends ObjectLiteral>
                             this.getWherePredicateCondition(
                                 aliasPath,
                                 parameterValue,
+                                column,
                             ),
                         ),
                         // parameterValue.toSql(this.connection, aliasPath, parameters));
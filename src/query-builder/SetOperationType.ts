@@ -0,0 +1,4 @@
+/**
+ * Set operations that can be used to combine results of several select queries.
+ */
+export type SetOperationType = "union" | "union-all" | "intersect" | "except"
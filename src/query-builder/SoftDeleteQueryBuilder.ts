@@ -102,9 +102,15 @@ export class SoftDeleteQueryBuilder<Entity extends ObjectLiteral>
             }
 
             // execute update query
-            const [sql, parameters] = this.getQueryAndParameters()
-
-            const queryResult = await queryRunner.query(sql, parameters, true)
+            const [sql, parameters, redactedParameters] =
+                this.getQueryAndRedactedParameters()
+
+            const queryResult = await queryRunner.query(
+                sql,
+                parameters,
+                true,
+                redactedParameters,
+            )
             const updateResult = UpdateResult.from(queryResult)
 
             // if we are updating entities and entity updation is enabled we must update some of entity columns (like version, update date, etc.)
@@ -136,6 +142,17 @@ export class SoftDeleteQueryBuilder<Entity extends ObjectLiteral>
                     )
             }
 
+            // remove soft-deleted or restored entities from the entity cache
+            if (
+                this.expressionMap.evictEntityCache === true &&
+                this.expressionMap.mainAlias!.hasMetadata
+            ) {
+                await this.connection.entityCache.evictAll(
+                    this.expressionMap.mainAlias!.metadata,
+                    queryRunner,
+                )
+            }
+
             // close transaction if we started it
             if (transactionStartedByUs) await queryRunner.commitTransaction()
 
@@ -139,13 +139,15 @@ export class UpdateQueryBuilder<Entity extends ObjectLiteral>
             }
 
             // execute update query
-            const [updateSql, parameters] = this.getQueryAndParameters()
+            const [updateSql, parameters, redactedParameters] =
+                this.getQueryAndRedactedParameters()
 
             const statements = [declareSql, updateSql, selectOutputSql]
             const queryResult = await queryRunner.query(
                 statements.filter((sql) => sql != null).join(";\n\n"),
                 parameters,
                 true,
+                redactedParameters,
             )
             const updateResult = UpdateResult.from(queryResult)
 
@@ -173,6 +175,17 @@ export class UpdateQueryBuilder<Entity extends ObjectLiteral>
                 )
             }
 
+            // remove updated entities from the entity cache
+            if (
+                this.expressionMap.evictEntityCache === true &&
+                this.expressionMap.mainAlias!.hasMetadata
+            ) {
+                await this.connection.entityCache.evictAll(
+                    this.expressionMap.mainAlias!.metadata,
+                    queryRunner,
+                )
+            }
+
             // close transaction if we started it
             if (transactionStartedByUs) await queryRunner.commitTransaction()
 
@@ -513,6 +526,17 @@ export class UpdateQueryBuilder<Entity extends ObjectLiteral>
 
                         updatedColumns.push(column)
 
+                        // updated entities can not be moved to another tenant
+                        if (
+                            column.isTenant &&
+                            !this.connection.tenantContext.isRunningWithoutTenant()
+                        )
+                            this.getTenantIdForValueSet(
+                                column,
+                                valuesSetNormalized,
+                                "update",
+                            )
+
                         //
                         let value = column.getEntityValue(valuesSetNormalized)
                         if (
@@ -558,7 +582,10 @@ export class UpdateQueryBuilder<Entity extends ObjectLiteral>
                                 ).parametrizeValue(column, value)
                             }
 
-                            const paramName = this.createParameter(value)
+                            const paramName = this.createParameter(
+                                value,
+                                column,
+                            )
 
                             let expression = null
                             if (
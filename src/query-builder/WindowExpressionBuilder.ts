@@ -0,0 +1,207 @@
+/**
+ * Window functions supported by WindowExpressionBuilder.
+ */
+export type WindowFunctionName =
+    | "ROW_NUMBER"
+    | "RANK"
+    | "DENSE_RANK"
+    | "LAG"
+    | "LEAD"
+    | "SUM"
+    | "AVG"
+
+/**
+ * Builds a window function call and its OVER clause,
+ * e.g. ROW_NUMBER() OVER (PARTITION BY post.authorId ORDER BY post.createdAt DESC).
+ *
+ * Property paths (e.g. "post.authorId") are resolved and escaped by the query builder
+ * the window expression is used in.
+ */
+export class WindowExpressionBuilder {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Window function to be called.
+     */
+    functionName?: WindowFunctionName
+
+    /**
+     * Property path passed to the window function (e.g. column to LAG or SUM).
+     */
+    functionPropertyPath?: string
+
+    /**
+     * Offset used by LAG and LEAD functions.
+     */
+    functionOffset?: number
+
+    /**
+     * Default value used by LAG and LEAD functions.
+     */
+    functionDefaultValue?: any
+
+    /**
+     * Property paths used in PARTITION BY.
+     */
+    partitionBys: string[] = []
+
+    /**
+     * Property paths used in ORDER BY of the window.
+     */
+    orderBys: {
+        propertyPath: string
+        order: "ASC" | "DESC"
+        nulls?: "NULLS FIRST" | "NULLS LAST"
+    }[] = []
+
+    /**
+     * Frame clause of the window, e.g. ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW.
+     */
+    frame?: string
+
+    /**
+     * Name of the window declared using SelectQueryBuilder.window() this window refers to.
+     */
+    windowName?: string
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sequential number of the row within its partition, starting at 1.
+     */
+    rowNumber(): this {
+        return this.setFunction("ROW_NUMBER")
+    }
+
+    /**
+     * Rank of the row within its partition, with gaps.
+     */
+    rank(): this {
+        return this.setFunction("RANK")
+    }
+
+    /**
+     * Rank of the row within its partition, without gaps.
+     */
+    denseRank(): this {
+        return this.setFunction("DENSE_RANK")
+    }
+
+    /**
+     * Value of the given property in the row that precedes the current row by the given offset.
+     */
+    lag(propertyPath: string, offset?: number, defaultValue?: any): this {
+        this.setFunction("LAG", propertyPath)
+        this.functionOffset = offset
+        this.functionDefaultValue = defaultValue
+        return this
+    }
+
+    /**
+     * Value of the given property in the row that follows the current row by the given offset.
+     */
+    lead(propertyPath: string, offset?: number, defaultValue?: any): this {
+        this.setFunction("LEAD", propertyPath)
+        this.functionOffset = offset
+        this.functionDefaultValue = defaultValue
+        return this
+    }
+
+    /**
+     * Sum of the given property over the window.
+     */
+    sum(propertyPath: string): this {
+        return this.setFunction("SUM", propertyPath)
+    }
+
+    /**
+     * Average of the given property over the window.
+     */
+    avg(propertyPath: string): this {
+        return this.setFunction("AVG", propertyPath)
+    }
+
+    /**
+     * Sum of the given property from the first row of the partition up to the current row.
+     */
+    runningSum(propertyPath: string): this {
+        this.setFunction("SUM", propertyPath)
+        return this.rows("UNBOUNDED PRECEDING", "CURRENT ROW")
+    }
+
+    /**
+     * Average of the given property from the first row of the partition up to the current row.
+     */
+    runningAvg(propertyPath: string): this {
+        this.setFunction("AVG", propertyPath)
+        return this.rows("UNBOUNDED PRECEDING", "CURRENT ROW")
+    }
+
+    /**
+     * Sets PARTITION BY of the window.
+     * Replaces all previously set partitions.
+     */
+    partitionBy(...propertyPaths: string[]): this {
+        this.partitionBys = propertyPaths
+        return this
+    }
+
+    /**
+     * Sets ORDER BY of the window.
+     * Replaces all previously set orders.
+     */
+    orderBy(
+        propertyPath: string,
+        order: "ASC" | "DESC" = "ASC",
+        nulls?: "NULLS FIRST" | "NULLS LAST",
+    ): this {
+        this.orderBys = []
+        return this.addOrderBy(propertyPath, order, nulls)
+    }
+
+    /**
+     * Adds ORDER BY to the window.
+     */
+    addOrderBy(
+        propertyPath: string,
+        order: "ASC" | "DESC" = "ASC",
+        nulls?: "NULLS FIRST" | "NULLS LAST",
+    ): this {
+        this.orderBys.push({ propertyPath, order, nulls })
+        return this
+    }
+
+    /**
+     * Sets ROWS frame of the window, e.g. rows("2 PRECEDING", "CURRENT ROW").
+     */
+    rows(start: string, end: string): this {
+        this.frame = `ROWS BETWEEN ${start} AND ${end}`
+        return this
+    }
+
+    /**
+     * Uses a named window declared using SelectQueryBuilder.window().
+     * Cannot be combined with partitionBy(), orderBy() or rows() of this window.
+     */
+    over(windowName: string): this {
+        this.windowName = windowName
+        return this
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    protected setFunction(
+        functionName: WindowFunctionName,
+        propertyPath?: string,
+    ): this {
+        this.functionName = functionName
+        this.functionPropertyPath = propertyPath
+        return this
+    }
+}
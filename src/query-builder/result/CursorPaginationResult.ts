@@ -0,0 +1,39 @@
+/**
+ * Page of entities loaded using cursor (keyset) pagination.
+ */
+export class CursorPaginationResult<Entity> {
+    /**
+     * Loaded entities in the requested order.
+     */
+    items: Entity[] = []
+
+    /**
+     * Information about the loaded page.
+     */
+    pageInfo: {
+        /**
+         * Indicates if there are more entities after the last loaded entity.
+         */
+        hasNextPage: boolean
+
+        /**
+         * Indicates if there are more entities before the first loaded entity.
+         */
+        hasPreviousPage: boolean
+
+        /**
+         * Cursor of the first loaded entity.
+         */
+        startCursor?: string
+
+        /**
+         * Cursor of the last loaded entity.
+         */
+        endCursor?: string
+    } = { hasNextPage: false, hasPreviousPage: false }
+
+    /**
+     * Cursors of the loaded entities, in the same order as items.
+     */
+    cursors: string[] = []
+}
@@ -4,6 +4,10 @@ import { SqlInMemory } from "../driver/SqlInMemory"
 import { SqlServerConnectionOptions } from "../driver/sqlserver/SqlServerConnectionOptions"
 import { TableIndex } from "../schema-builder/table/TableIndex"
 import { View } from "../schema-builder/view/View"
+import { TableSequence } from "../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../schema-builder/function/DatabaseFunction"
+import { ProcedureParameter } from "./ProcedureParameter"
+import { ProcedureResult } from "./ProcedureResult"
 import { DataSource } from "../data-source/DataSource"
 import { Table } from "../schema-builder/table/Table"
 import { EntityManager } from "../entity-manager/EntityManager"
@@ -16,6 +20,7 @@ import { TableForeignKey } from "../schema-builder/table/TableForeignKey"
 import { OrmUtils } from "../util/OrmUtils"
 import { MetadataTableType } from "../driver/types/MetadataTableType"
 import { InstanceChecker } from "../util/InstanceChecker"
+import { v4 as uuidv4 } from "uuid"
 
 export abstract class BaseQueryRunner {
     // -------------------------------------------------------------------------
@@ -39,9 +44,10 @@ export abstract class BaseQueryRunner {
     isReleased = false
 
     /**
-     * Indicates if transaction is in progress.
+     * Identifier of the transaction in progress.
+     * Generated when transaction starts, and nested transactions share identifier of the outer one.
      */
-    isTransactionActive = false
+    transactionId?: string
 
     /**
      * Stores temporarily user data.
@@ -59,6 +65,16 @@ export abstract class BaseQueryRunner {
      */
     loadedViews: View[] = []
 
+    /**
+     * All synchronized sequences in the database.
+     */
+    loadedSequences: TableSequence[] = []
+
+    /**
+     * All functions and stored procedures created by TypeORM in the database.
+     */
+    loadedFunctions: DatabaseFunction[] = []
+
     /**
      * Broadcaster used on this query runner to broadcast entity events.
      */
@@ -98,6 +114,25 @@ export abstract class BaseQueryRunner {
 
     private cachedTablePaths: Record<string, string> = {}
 
+    // -------------------------------------------------------------------------
+    // Accessors
+    // -------------------------------------------------------------------------
+
+    /**
+     * Indicates if transaction is in progress.
+     */
+    get isTransactionActive(): boolean {
+        return this.transactionId !== undefined
+    }
+
+    set isTransactionActive(isTransactionActive: boolean) {
+        if (!isTransactionActive) {
+            this.transactionId = undefined
+        } else if (this.transactionId === undefined) {
+            this.transactionId = uuidv4()
+        }
+    }
+
     // -------------------------------------------------------------------------
     // Public Abstract Methods
     // -------------------------------------------------------------------------
@@ -109,6 +144,7 @@ export abstract class BaseQueryRunner {
         query: string,
         parameters?: any[],
         useStructuredResult?: boolean,
+        redactedParameters?: any[],
     ): Promise<any>
 
     // -------------------------------------------------------------------------
@@ -175,6 +211,35 @@ export abstract class BaseQueryRunner {
         return this.loadedViews
     }
 
+    /**
+     * Loads given sequences' data from the database.
+     */
+    async getSequences(sequencePaths?: string[]): Promise<TableSequence[]> {
+        this.loadedSequences = await this.loadSequences(sequencePaths)
+        return this.loadedSequences
+    }
+
+    /**
+     * Loads given functions' data from the database.
+     */
+    async getFunctions(functionNames?: string[]): Promise<DatabaseFunction[]> {
+        this.loadedFunctions = await this.loadFunctions(functionNames)
+        return this.loadedFunctions
+    }
+
+    /**
+     * Calls a stored procedure with the given parameters.
+     * Drivers supporting stored procedures override this method.
+     */
+    async callProcedure(
+        name: string,
+        parameters?: ProcedureParameter[],
+    ): Promise<ProcedureResult> {
+        throw new TypeORMError(
+            `${this.connection.driver.options.type} driver does not support stored procedure calls.`,
+        )
+    }
+
     /**
      * Enables special query runner mode in which sql queries won't be executed,
      * instead they will be memorized into a special variable inside query runner.
@@ -255,6 +320,103 @@ export abstract class BaseQueryRunner {
         }
     }
 
+    /**
+     * Gets sequence from previously loaded sequences, otherwise loads it from database.
+     */
+    protected async getCachedSequence(
+        sequenceName: string,
+    ): Promise<TableSequence> {
+        const sequence = this.loadedSequences.find(
+            (sequence) => sequence.name === sequenceName,
+        )
+        if (sequence) return sequence
+
+        const foundSequences = await this.loadSequences([sequenceName])
+        if (foundSequences.length > 0) {
+            this.loadedSequences.push(foundSequences[0])
+            return foundSequences[0]
+        } else {
+            throw new TypeORMError(`Sequence "${sequenceName}" does not exist.`)
+        }
+    }
+
+    /**
+     * Loads sequences created by TypeORM from the database.
+     * Drivers supporting sequences override this method.
+     */
+    protected async loadSequences(
+        sequencePaths?: string[],
+    ): Promise<TableSequence[]> {
+        throw new TypeORMError(
+            `${this.connection.driver.options.type} driver does not support sequences.`,
+        )
+    }
+
+    /**
+     * Gets function from previously loaded functions, otherwise loads it from database.
+     */
+    protected async getCachedFunction(
+        functionName: string,
+    ): Promise<DatabaseFunction> {
+        const fn = this.loadedFunctions.find((fn) => fn.name === functionName)
+        if (fn) return fn
+
+        const foundFunctions = await this.loadFunctions([functionName])
+        if (foundFunctions.length > 0) {
+            this.loadedFunctions.push(foundFunctions[0])
+            return foundFunctions[0]
+        } else {
+            throw new TypeORMError(`Function "${functionName}" does not exist.`)
+        }
+    }
+
+    /**
+     * Loads functions and stored procedures created by TypeORM from the database.
+     * Drivers supporting functions override this method.
+     */
+    protected async loadFunctions(
+        functionNames?: string[],
+    ): Promise<DatabaseFunction[]> {
+        throw new TypeORMError(
+            `${this.connection.driver.options.type} driver does not support functions.`,
+        )
+    }
+
+    /**
+     * Serializes function definition to be stored in typeorm metadata table.
+     */
+    protected buildFunctionDefinition(fn: DatabaseFunction): string {
+        return JSON.stringify({
+            parameters: fn.parameters,
+            returns: fn.returns,
+            language: fn.language,
+            body: fn.body,
+            dependsOn: fn.dependsOn,
+        })
+    }
+
+    /**
+     * Creates function from the definition stored in typeorm metadata table.
+     */
+    protected parseFunctionDefinition(
+        name: string,
+        type: MetadataTableType,
+        definition: string,
+    ): DatabaseFunction {
+        const { parameters, returns, language, body, dependsOn } =
+            JSON.parse(definition)
+        return new DatabaseFunction({
+            name,
+            type:
+                type === MetadataTableType.PROCEDURE ? "procedure" : "function",
+            parameters,
+            returns,
+            language,
+            body,
+            dependsOn,
+        })
+    }
+
     /**
      * Gets table from previously loaded tables, otherwise loads it from database.
      */
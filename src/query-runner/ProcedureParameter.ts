@@ -0,0 +1,26 @@
+/**
+ * Parameter passed to a stored procedure call.
+ */
+export interface ProcedureParameter {
+    /**
+     * Parameter name.
+     * Named parameters are passed using named notation, required by SQL Server.
+     */
+    name?: string
+
+    /**
+     * Value of IN and INOUT parameters.
+     */
+    value?: any
+
+    /**
+     * Parameter mode. Default is "IN".
+     */
+    mode?: "IN" | "OUT" | "INOUT"
+
+    /**
+     * Database type of the parameter, e.g. "int" or "varchar".
+     * Required for OUT and INOUT parameters in SQL Server.
+     */
+    type?: string
+}
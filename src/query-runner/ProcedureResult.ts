@@ -0,0 +1,22 @@
+import { ObjectLiteral } from "../common/ObjectLiteral"
+
+/**
+ * Result object returned by a stored procedure call.
+ */
+export class ProcedureResult<Entity = any> {
+    /**
+     * All result sets returned by the procedure, in order.
+     */
+    resultSets: any[][] = []
+
+    /**
+     * Values of OUT and INOUT parameters by parameter name.
+     * Parameters without name are keyed by their position.
+     */
+    outputs: ObjectLiteral = {}
+
+    /**
+     * Entities mapped from a result set, if entity mapping was requested.
+     */
+    entities: Entity[] = []
+}
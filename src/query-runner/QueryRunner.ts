@@ -13,7 +13,13 @@ import { Broadcaster } from "../subscriber/Broadcaster"
 import { TableCheck } from "../schema-builder/table/TableCheck"
 import { IsolationLevel } from "../driver/types/IsolationLevel"
 import { TableExclusion } from "../schema-builder/table/TableExclusion"
+import { TablePartition } from "../schema-builder/table/TablePartition"
+import { TableTrigger } from "../schema-builder/table/TableTrigger"
+import { TableSequence } from "../schema-builder/table/TableSequence"
+import { DatabaseFunction } from "../schema-builder/function/DatabaseFunction"
 import { QueryResult } from "./QueryResult"
+import { ProcedureParameter } from "./ProcedureParameter"
+import { ProcedureResult } from "./ProcedureResult"
 import { ReplicationMode } from "../driver/types/ReplicationMode"
 
 /**
@@ -46,6 +52,11 @@ export interface QueryRunner {
      */
     readonly isTransactionActive: boolean
 
+    /**
+     * Identifier of the transaction in progress.
+     */
+    readonly transactionId?: string
+
     /**
      * Stores temporarily user data.
      * Useful for sharing data with subscribers.
@@ -66,6 +77,16 @@ export interface QueryRunner {
      */
     loadedViews: View[]
 
+    /**
+     * All sequences created by TypeORM in the database.
+     */
+    loadedSequences: TableSequence[]
+
+    /**
+     * All functions and stored procedures created by TypeORM in the database.
+     */
+    loadedFunctions: DatabaseFunction[]
+
     /**
      * Creates/uses database connection from the connection pool to perform further operations.
      * Returns obtained database connection.
@@ -114,26 +135,45 @@ export interface QueryRunner {
 
     /**
      * Executes a given SQL query and returns raw database results.
+     * Redacted parameters, if given, are used instead of parameters in logs, query errors and query events.
      */
     query(
         query: string,
         parameters: any[] | undefined,
         useStructuredResult: true,
+        redactedParameters?: any[],
     ): Promise<QueryResult>
 
     /**
      * Executes a given SQL query and returns raw database results.
+     * Redacted parameters, if given, are used instead of parameters in logs, query errors and query events.
+     */
+    query(
+        query: string,
+        parameters?: any[],
+        useStructuredResult?: boolean,
+        redactedParameters?: any[],
+    ): Promise<any>
+
+    /**
+     * Calls a stored procedure with the given parameters.
+     * Returns all result sets and values of OUT and INOUT parameters.
      */
-    query(query: string, parameters?: any[]): Promise<any>
+    callProcedure(
+        name: string,
+        parameters?: ProcedureParameter[],
+    ): Promise<ProcedureResult>
 
     /**
      * Returns raw data stream.
+     * Redacted parameters, if given, are used instead of parameters in logs and query errors.
      */
     stream(
         query: string,
         parameters?: any[],
         onEnd?: Function,
         onError?: Function,
+        redactedParameters?: any[],
     ): Promise<ReadStream>
 
     /**
@@ -168,6 +208,16 @@ export interface QueryRunner {
      */
     getViews(viewPaths?: string[]): Promise<View[]>
 
+    /**
+     * Loads all sequences (with given names) created by TypeORM from the database and returns them.
+     */
+    getSequences(sequencePaths?: string[]): Promise<TableSequence[]>
+
+    /**
+     * Loads all functions and stored procedures (with given names) created by TypeORM from the database and returns them.
+     */
+    getFunctions(functionNames?: string[]): Promise<DatabaseFunction[]>
+
     /**
      * Returns replication mode (ex: `master` or `slave`).
      */
@@ -452,6 +502,103 @@ export interface QueryRunner {
         exclusionConstraints: TableExclusion[],
     ): Promise<void>
 
+    /**
+     * Creates a new partition of the partitioned table.
+     */
+    createPartition(
+        table: Table | string,
+        partition: TablePartition,
+    ): Promise<void>
+
+    /**
+     * Drops a partition of the partitioned table together with its data.
+     */
+    dropPartition(
+        table: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void>
+
+    /**
+     * Attaches an existing table as a partition of the partitioned table.
+     * Only supported by Postgres.
+     */
+    attachPartition(
+        table: Table | string,
+        partition: TablePartition,
+    ): Promise<void>
+
+    /**
+     * Detaches a partition from the partitioned table, keeping it as a standalone table.
+     * Only supported by Postgres.
+     */
+    detachPartition(
+        table: Table | string,
+        partitionOrName: TablePartition | string,
+    ): Promise<void>
+
+    /**
+     * Creates a new trigger.
+     */
+    createTrigger(table: Table | string, trigger: TableTrigger): Promise<void>
+
+    /**
+     * Drops a trigger.
+     */
+    dropTrigger(
+        table: Table | string,
+        triggerOrName: TableTrigger | string,
+    ): Promise<void>
+
+    /**
+     * Creates a new sequence.
+     */
+    createSequence(
+        sequence: TableSequence,
+        syncWithMetadata?: boolean,
+    ): Promise<void>
+
+    /**
+     * Changes options of the sequence.
+     */
+    alterSequence(
+        oldSequenceOrName: TableSequence | string,
+        newSequence: TableSequence,
+    ): Promise<void>
+
+    /**
+     * Drops a sequence.
+     */
+    dropSequence(
+        sequenceOrName: TableSequence | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void>
+
+    /**
+     * Creates a new function or stored procedure.
+     */
+    createFunction(
+        fn: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void>
+
+    /**
+     * Replaces function or stored procedure with a new definition.
+     * Function is recreated if its signature was changed or the database can not replace it.
+     */
+    changeFunction(
+        oldFunctionOrName: DatabaseFunction | string,
+        newFunction: DatabaseFunction,
+        syncWithMetadata?: boolean,
+    ): Promise<void>
+
+    /**
+     * Drops a function or stored procedure.
+     */
+    dropFunction(
+        functionOrName: DatabaseFunction | string,
+        syncWithMetadata?: boolean,
+    ): Promise<void>
+
     /**
      * Creates a new foreign key.
      */
@@ -16,6 +16,8 @@ import { QueryDeepPartialEntity } from "../query-builder/QueryPartialEntity"
 import { UpsertOptions } from "./UpsertOptions"
 import { EntityTarget } from "../common/EntityTarget"
 import { PickKeysByType } from "../common/PickKeysByType"
+import { FindManyCursorOptions } from "../find-options/FindManyCursorOptions"
+import { CursorPaginationResult } from "../query-builder/result/CursorPaginationResult"
 
 /**
  * Base abstract entity for all entities, used in ActiveRecord patterns.
@@ -483,6 +485,16 @@ export class BaseEntity {
         return this.getRepository<T>().find(options)
     }
 
+    /**
+     * Finds a page of entities that match given find options using cursor (keyset) pagination.
+     */
+    static paginate<T extends BaseEntity>(
+        this: { new (): T } & typeof BaseEntity,
+        options?: FindManyCursorOptions<T>,
+    ): Promise<CursorPaginationResult<T>> {
+        return this.getRepository<T>().paginate(options)
+    }
+
     /**
      * Finds entities that match given WHERE conditions.
      */
@@ -16,6 +16,8 @@ import { FindOptionsWhere } from "../find-options/FindOptionsWhere"
 import { UpsertOptions } from "./UpsertOptions"
 import { EntityTarget } from "../common/EntityTarget"
 import { PickKeysByType } from "../common/PickKeysByType"
+import { FindManyCursorOptions } from "../find-options/FindManyCursorOptions"
+import { CursorPaginationResult } from "../query-builder/result/CursorPaginationResult"
 
 /**
  * Repository is supposed to work with your entity objects. Find entities, insert, update, delete, etc.
@@ -544,6 +546,15 @@ export class Repository<Entity extends ObjectLiteral> {
         return this.manager.find(this.metadata.target, options)
     }
 
+    /**
+     * Finds a page of entities that match given find options using cursor (keyset) pagination.
+     */
+    async paginate(
+        options?: FindManyCursorOptions<Entity>,
+    ): Promise<CursorPaginationResult<Entity>> {
+        return this.manager.paginate(this.metadata.target, options)
+    }
+
     /**
      * Finds entities that match given find options.
      */
@@ -1,9 +1,16 @@
 import { ObjectLiteral } from "../common/ObjectLiteral"
 import { DriverUtils } from "../driver/DriverUtils"
+import { CannotAttachTreeChildrenEntityError } from "../error/CannotAttachTreeChildrenEntityError"
+import { CannotMoveTreeEntityError } from "../error/CannotMoveTreeEntityError"
 import { TypeORMError } from "../error/TypeORMError"
 import { FindOptionsUtils } from "../find-options/FindOptionsUtils"
 import { FindTreeOptions } from "../find-options/FindTreeOptions"
+import { FindOptionsWhere } from "../find-options/FindOptionsWhere"
+import { ClosureSubjectExecutor } from "../persistence/tree/ClosureSubjectExecutor"
+import { MaterializedPathSubjectExecutor } from "../persistence/tree/MaterializedPathSubjectExecutor"
+import { NestedSetSubjectExecutor } from "../persistence/tree/NestedSetSubjectExecutor"
 import { SelectQueryBuilder } from "../query-builder/SelectQueryBuilder"
+import { OrmUtils } from "../util/OrmUtils"
 import { TreeRepositoryUtils } from "../util/TreeRepositoryUtils"
 import { Repository } from "./Repository"
 
@@ -409,9 +416,94 @@ export class TreeRepository<
     }
 
     /**
-     * Moves entity to the children of then given entity.
-     *
-    move(entity: Entity, to: Entity): Promise<void> {
-        return Promise.resolve();
-    } */
+     * Moves entity with all its descendants to the children of the given entity.
+     * If parent is not given, entity becomes a root.
+     */
+    async move(entity: Entity, parent: Entity | null): Promise<void> {
+        const entityId = this.metadata.getEntityIdMap(entity)
+        if (!entityId)
+            throw new TypeORMError(
+                `Cannot move entity "${this.metadata.name}" without primary key value.`,
+            )
+
+        const parentId = parent
+            ? this.metadata.getEntityIdMap(parent)
+            : undefined
+        if (parent && !parentId)
+            throw new CannotAttachTreeChildrenEntityError(this.metadata.name)
+
+        await this.manager.transaction(async (manager) => {
+            const repository = manager.getTreeRepository<Entity>(
+                this.metadata.target,
+            )
+            const databaseEntity = await repository.findOneOrFail({
+                where: entityId as FindOptionsWhere<Entity>,
+                relations: [this.metadata.treeParentRelation!.propertyPath],
+            })
+
+            let databaseParent: Entity | undefined = undefined
+            if (parentId) {
+                databaseParent = await repository.findOneByOrFail(
+                    parentId as FindOptionsWhere<Entity>,
+                )
+
+                const isDescendant = await repository
+                    .createDescendantsQueryBuilder(
+                        "treeEntity",
+                        "treeClosure",
+                        databaseEntity,
+                    )
+                    .andWhereInIds(parentId)
+                    .getExists()
+                if (isDescendant)
+                    throw new CannotMoveTreeEntityError(this.metadata.name)
+            }
+
+            const oldParentId = this.metadata.getEntityIdMap(
+                this.metadata.treeParentRelation!.getEntityValue(
+                    databaseEntity,
+                ),
+            )
+            if (OrmUtils.compareIds(oldParentId, parentId)) return
+
+            const queryRunner = manager.queryRunner!
+            if (this.metadata.treeType === "nested-set") {
+                await new NestedSetSubjectExecutor(queryRunner).move(
+                    this.metadata,
+                    entityId,
+                    parentId,
+                )
+            } else if (this.metadata.treeType === "closure-table") {
+                await new ClosureSubjectExecutor(queryRunner).move(
+                    this.metadata,
+                    databaseEntity,
+                    databaseParent,
+                )
+            } else if (this.metadata.treeType === "materialized-path") {
+                await new MaterializedPathSubjectExecutor(queryRunner).move(
+                    this.metadata,
+                    databaseEntity,
+                    databaseParent,
+                )
+            }
+
+            await manager
+                .createQueryBuilder()
+                .update(this.metadata.target)
+                .set({
+                    [this.metadata.treeParentRelation!.propertyPath]:
+                        databaseParent ?? null,
+                } as any)
+                .whereInIds(entityId)
+                .callListeners(false)
+                .execute()
+        })
+    }
+
+    /**
+     * Moves entity with all its descendants to the root of the tree.
+     */
+    moveToRoot(entity: Entity): Promise<void> {
+        return this.move(entity, null)
+    }
 }
@@ -5,6 +5,7 @@ import { TableIndex } from "./table/TableIndex"
 import { QueryRunner } from "../query-runner/QueryRunner"
 import { ColumnMetadata } from "../metadata/ColumnMetadata"
 import { EntityMetadata } from "../metadata/EntityMetadata"
+import { SequenceMetadata } from "../metadata/SequenceMetadata"
 import { DataSource } from "../data-source/DataSource"
 import { SchemaBuilder } from "./SchemaBuilder"
 import { SqlInMemory } from "../driver/SqlInMemory"
@@ -13,10 +14,15 @@ import { TableColumnOptions } from "./options/TableColumnOptions"
 import { TableUnique } from "./table/TableUnique"
 import { TableCheck } from "./table/TableCheck"
 import { TableExclusion } from "./table/TableExclusion"
+import { TablePartition } from "./table/TablePartition"
+import { TableTrigger } from "./table/TableTrigger"
+import { TableSequence } from "./table/TableSequence"
+import { DatabaseFunction } from "./function/DatabaseFunction"
 import { View } from "./view/View"
 import { ViewUtils } from "./util/ViewUtils"
 import { DriverUtils } from "../driver/DriverUtils"
 import { PostgresQueryRunner } from "../driver/postgres/PostgresQueryRunner"
+import { TypeORMError } from "../error"
 
 /**
  * Creates complete tables schemas in the database based on the entity metadatas.
@@ -91,6 +97,8 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
 
             await this.queryRunner.getTables(tablePaths)
             await this.queryRunner.getViews(viewPaths)
+            await this.loadOwnedSequences()
+            await this.loadOwnedFunctions()
 
             await this.executeSchemaSyncOperationsInProperOrder()
 
@@ -126,7 +134,10 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
     ): Promise<void> {
         if (
             this.viewEntityToSyncMetadatas.length > 0 ||
-            this.hasGeneratedColumns()
+            this.hasGeneratedColumns() ||
+            (this.hasSequenceSupport() &&
+                this.sequenceToSyncMetadatas.length > 0) ||
+            (this.hasFunctionSupport() && this.functionsToSync.length > 0)
         ) {
             await this.createTypeormMetadataTable(queryRunner)
         }
@@ -147,6 +158,8 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
             )
             await this.queryRunner.getTables(tablePaths)
             await this.queryRunner.getViews(viewPaths)
+            await this.loadOwnedSequences()
+            await this.loadOwnedFunctions()
 
             this.queryRunner.enableSqlMemory()
             await this.executeSchemaSyncOperationsInProperOrder()
@@ -199,6 +212,124 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         )
     }
 
+    /**
+     * Returns sequences declared by entities that should be synced in the database.
+     * Sequence declared by several entities is returned only once.
+     */
+    protected get sequenceToSyncMetadatas(): SequenceMetadata[] {
+        const sequences: SequenceMetadata[] = []
+        for (const metadata of this.entityToSyncMetadatas) {
+            for (const sequence of metadata.sequences) {
+                const exists = sequences.some(
+                    (existSequence) =>
+                        this.getTablePath(existSequence.name) ===
+                        this.getTablePath(sequence.name),
+                )
+                if (!exists) sequences.push(sequence)
+            }
+        }
+        return sequences
+    }
+
+    /**
+     * Returns functions and stored procedures declared in the data source options,
+     * sorted in creation order by their dependencies.
+     */
+    protected get functionsToSync(): DatabaseFunction[] {
+        const functions = (this.connection.options.functions || []).map(
+            (options) => new DatabaseFunction(options),
+        )
+        for (const fn of functions) {
+            if (fn.type === "function" && !fn.returns)
+                throw new TypeORMError(
+                    `Function "${fn.name}" must declare its return type.`,
+                )
+            if (fn.type === "procedure" && fn.returns)
+                throw new TypeORMError(
+                    `Procedure "${fn.name}" can not declare a return type.`,
+                )
+        }
+        return this.sortFunctionsByDependencies(functions, true)
+    }
+
+    /**
+     * Sorts functions so each function goes after the functions it depends on.
+     * In strict mode unknown and circular dependencies are reported as errors,
+     * otherwise unknown dependencies are ignored.
+     */
+    protected sortFunctionsByDependencies(
+        functions: DatabaseFunction[],
+        strict: boolean,
+    ): DatabaseFunction[] {
+        const sortedFunctions: DatabaseFunction[] = []
+        const visitingFunctions = new Set<DatabaseFunction>()
+        const visit = (fn: DatabaseFunction) => {
+            if (sortedFunctions.indexOf(fn) !== -1) return
+            if (visitingFunctions.has(fn)) {
+                if (!strict) return
+                throw new TypeORMError(
+                    `Function "${fn.name}" has a circular dependency.`,
+                )
+            }
+
+            visitingFunctions.add(fn)
+            for (const dependencyName of fn.dependsOn) {
+                const dependency = functions.find(
+                    (dependency) =>
+                        this.getTablePath(dependency.name) ===
+                        this.getTablePath(dependencyName),
+                )
+                if (dependency) {
+                    visit(dependency)
+                } else if (strict) {
+                    throw new TypeORMError(
+                        `Function "${fn.name}" depends on "${dependencyName}" which is not declared.`,
+                    )
+                }
+            }
+            visitingFunctions.delete(fn)
+            sortedFunctions.push(fn)
+        }
+        functions.forEach(visit)
+        return sortedFunctions
+    }
+
+    /**
+     * Returns functions created by TypeORM which have to be dropped:
+     * removed from the data source options or with a changed signature.
+     */
+    protected get functionsToDrop(): DatabaseFunction[] {
+        if (!this.hasFunctionSupport()) return []
+
+        const functionsToSync = this.functionsToSync
+        return this.queryRunner.loadedFunctions.filter((loadedFunction) => {
+            const fn = functionsToSync.find(
+                (fn) =>
+                    this.getTablePath(fn.name) ===
+                    this.getTablePath(loadedFunction.name),
+            )
+            return !fn || !fn.isSameSignature(loadedFunction)
+        })
+    }
+
+    /**
+     * Checks if any of the given functions is going to be dropped.
+     */
+    protected dependsOnDroppedFunctions(
+        functionNames: string[] | undefined,
+        functionsToDrop: DatabaseFunction[],
+    ): boolean {
+        if (!functionNames) return false
+
+        return functionNames.some((functionName) =>
+            functionsToDrop.some(
+                (fn) =>
+                    this.getTablePath(fn.name) ===
+                    this.getTablePath(functionName),
+            ),
+        )
+    }
+
     /**
      * Checks if there are at least one generated column.
      */
@@ -217,23 +348,31 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         await this.dropOldForeignKeys()
         await this.dropOldIndices()
         await this.dropOldChecks()
+        await this.dropOldFunctions()
         await this.dropOldExclusions()
+        await this.dropOldTriggers()
         await this.dropCompositeUniqueConstraints()
         // await this.renameTables();
         await this.renameColumns()
         await this.changeTableComment()
+        await this.createNewSequences()
         await this.createNewTables()
         await this.dropRemovedColumns()
         await this.addNewColumns()
         await this.updatePrimaryKeys()
         await this.updateExistColumns()
+        await this.createNewFunctions()
         await this.createNewIndices()
         await this.createNewChecks()
         await this.createNewExclusions()
+        await this.createNewTriggers()
+        await this.createNewPartitions()
         await this.createCompositeUniqueConstraints()
         await this.createForeignKeys()
         await this.createViews()
         await this.createNewViewIndices()
+        await this.updateSequences()
+        await this.dropOldSequences()
     }
 
     private getTablePath(
@@ -248,6 +387,73 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         )
     }
 
+    /**
+     * Gets path of the schema (and database) the given object belongs to.
+     */
+    private getSchemaPath(target: EntityMetadata | string): string {
+        const parsed = this.connection.driver.parseTableName(target)
+
+        return [
+            parsed.database || this.currentDatabase,
+            parsed.schema || this.currentSchema,
+        ]
+            .filter((part) => !!part)
+            .join(".")
+    }
+
+    /**
+     * Returns paths of the schemas used by this data source:
+     * the default one and the schemas of its entities, sequences and functions.
+     */
+    protected getOwnedSchemaPaths(): string[] {
+        const targets: (EntityMetadata | string)[] = [
+            this.connection.metadataTableName,
+            ...this.connection.entityMetadatas,
+            ...this.connection.entityMetadatas.reduce(
+                (names, metadata) =>
+                    names.concat(
+                        metadata.sequences.map((sequence) => sequence.name),
+                    ),
+                [] as string[],
+            ),
+            ...(this.connection.options.functions || []).map(
+                (options) => options.name,
+            ),
+        ]
+        return targets
+            .map((target) => this.getSchemaPath(target))
+            .filter((path, index, paths) => paths.indexOf(path) === index)
+    }
+
+    /**
+     * Loads sequences managed by TypeORM to be able to drop removed ones.
+     * Only sequences of the schemas used by this data source are kept,
+     * sequences of other schemas can be managed by other data sources.
+     */
+    protected async loadOwnedSequences(): Promise<void> {
+        if (!this.hasSequenceSupport()) return
+
+        const schemaPaths = this.getOwnedSchemaPaths()
+        const sequences = await this.queryRunner.getSequences()
+        this.queryRunner.loadedSequences = sequences.filter((sequence) =>
+            schemaPaths.includes(this.getSchemaPath(sequence.name)),
+        )
+    }
+
+    /**
+     * Loads functions and stored procedures managed by TypeORM to be able to drop removed ones.
+     * Only functions of the schemas used by this data source are kept.
+     */
+    protected async loadOwnedFunctions(): Promise<void> {
+        if (!this.hasFunctionSupport()) return
+
+        const schemaPaths = this.getOwnedSchemaPaths()
+        const functions = await this.queryRunner.getFunctions()
+        this.queryRunner.loadedFunctions = functions.filter((fn) =>
+            schemaPaths.includes(this.getSchemaPath(fn.name)),
+        )
+    }
+
     /**
      * Drops all (old) foreign keys that exist in the tables, but do not exist in the entity metadata.
      */
@@ -503,6 +709,7 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         )
             return
 
+        const functionsToDrop = this.functionsToDrop
         for (const metadata of this.entityToSyncMetadatas) {
             const table = this.queryRunner.loadedTables.find(
                 (table) =>
@@ -510,10 +717,18 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
             )
             if (!table) continue
 
+            // checks depending on dropped functions are dropped too and created again later
             const oldChecks = table.checks.filter((tableCheck) => {
-                return !metadata.checks.find(
+                const checkMetadata = metadata.checks.find(
                     (checkMetadata) => checkMetadata.name === tableCheck.name,
                 )
+                return (
+                    !checkMetadata ||
+                    this.dependsOnDroppedFunctions(
+                        checkMetadata.dependsOnFunctions,
+                        functionsToDrop,
+                    )
+                )
             })
 
             if (oldChecks.length === 0) continue
@@ -527,6 +742,46 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         }
     }
 
+    /**
+     * Drops all (old) triggers that exist in the tables, but do not exist in the entity metadata
+     * or whose definition was changed.
+     */
+    protected async dropOldTriggers(): Promise<void> {
+        if (!this.hasTriggerSupport()) return
+
+        for (const metadata of this.entityToSyncMetadatas) {
+            const table = this.queryRunner.loadedTables.find(
+                (table) =>
+                    this.getTablePath(table) === this.getTablePath(metadata),
+            )
+            if (!table) continue
+
+            const oldTriggers = table.triggers.filter((tableTrigger) => {
+                const triggerMetadata = metadata.triggers.find(
+                    (triggerMetadata) =>
+                        triggerMetadata.name === tableTrigger.name,
+                )
+                return (
+                    !triggerMetadata ||
+                    !tableTrigger.isSameDefinition(
+                        TableTrigger.create(triggerMetadata),
+                    )
+                )
+            })
+
+            if (oldTriggers.length === 0) continue
+
+            this.connection.logger.logSchemaBuild(
+                `dropping old triggers: ${oldTriggers
+                    .map((trigger) => `"${trigger.name}"`)
+                    .join(", ")} from table "${table.name}"`,
+            )
+            for (const trigger of oldTriggers) {
+                await this.queryRunner.dropTrigger(table, trigger)
+            }
+        }
+    }
+
     protected async dropCompositeUniqueConstraints(): Promise<void> {
         for (const metadata of this.entityToSyncMetadatas) {
             const table = this.queryRunner.loadedTables.find(
@@ -631,7 +886,16 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
             )
 
             // create a new table and sync it in the database
+            // checks depending on functions are created later, when functions exist
             const table = Table.create(metadata, this.connection.driver)
+            table.checks = table.checks.filter(
+                (tableCheck) =>
+                    !metadata.checks.some(
+                        (checkMetadata) =>
+                            checkMetadata.name === tableCheck.name &&
+                            checkMetadata.dependsOnFunctions.length > 0,
+                    ),
+            )
             await this.queryRunner.createTable(table, false, false)
             this.queryRunner.loadedTables.push(table)
         }
@@ -670,6 +934,7 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
     protected async dropOldViews(): Promise<void> {
         const droppedViews: Array<View> = []
         const viewEntityToSyncMetadatas = this.viewEntityToSyncMetadatas
+        const functionsToDrop = this.functionsToDrop
         // BuIld lookup cache for finding views metadata
         const viewToMetadata = new Map<View, EntityMetadata>()
         for (const view of this.queryRunner.loadedViews) {
@@ -695,7 +960,15 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
                     ? viewMetadata.expression.trim()
                     : viewMetadata.expression!(this.connection).getQuery()
 
-            if (viewExpression === metadataExpression) continue
+            // views depending on dropped functions are dropped too and created again later
+            if (
+                viewExpression === metadataExpression &&
+                !this.dependsOnDroppedFunctions(
+                    viewMetadata.dependsOnFunctions,
+                    functionsToDrop,
+                )
+            )
+                continue
 
             this.connection.logger.logSchemaBuild(
                 `dropping an old view: ${view.name}`,
@@ -1091,6 +1364,184 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         }
     }
 
+    /**
+     * Creates triggers which are missing in db yet.
+     */
+    protected async createNewTriggers(): Promise<void> {
+        if (!this.hasTriggerSupport()) return
+
+        for (const metadata of this.entityToSyncMetadatas) {
+            const table = this.queryRunner.loadedTables.find(
+                (table) =>
+                    this.getTablePath(table) === this.getTablePath(metadata),
+            )
+            if (!table) continue
+
+            const newTriggers = metadata.triggers
+                .filter(
+                    (triggerMetadata) =>
+                        !table.triggers.find(
+                            (tableTrigger) =>
+                                tableTrigger.name === triggerMetadata.name,
+                        ),
+                )
+                .map((triggerMetadata) => TableTrigger.create(triggerMetadata))
+
+            if (newTriggers.length === 0) continue
+
+            this.connection.logger.logSchemaBuild(
+                `adding new triggers: ${newTriggers
+                    .map((trigger) => `"${trigger.name}"`)
+                    .join(", ")} in table "${table.name}"`,
+            )
+            for (const trigger of newTriggers) {
+                await this.queryRunner.createTrigger(table, trigger)
+            }
+        }
+    }
+
+    /**
+     * Creates sequences which are missing in db yet.
+     * Sequences are created before tables, because column defaults can depend on them,
+     * so the owner column is set later, when sequences are updated.
+     */
+    protected async createNewSequences(): Promise<void> {
+        if (!this.hasSequenceSupport()) return
+
+        for (const metadata of this.sequenceToSyncMetadatas) {
+            const existSequence = this.queryRunner.loadedSequences.find(
+                (sequence) =>
+                    this.getTablePath(sequence.name) ===
+                    this.getTablePath(metadata.name),
+            )
+            if (existSequence) continue
+
+            this.connection.logger.logSchemaBuild(
+                `creating a new sequence: ${metadata.name}`,
+            )
+
+            const sequence = this.createTableSequence(metadata)
+            sequence.ownedByTable = undefined
+            sequence.ownedByColumn = undefined
+            await this.queryRunner.createSequence(sequence, true)
+            this.queryRunner.loadedSequences.push(sequence)
+        }
+    }
+
+    /**
+     * Changes options of the sequences which definition was changed.
+     */
+    protected async updateSequences(): Promise<void> {
+        if (!this.hasSequenceSupport()) return
+
+        for (const metadata of this.sequenceToSyncMetadatas) {
+            const existSequence = this.queryRunner.loadedSequences.find(
+                (sequence) =>
+                    this.getTablePath(sequence.name) ===
+                    this.getTablePath(metadata.name),
+            )
+            if (!existSequence) continue
+
+            const sequence = this.createTableSequence(metadata)
+            if (sequence.isSameDefinition(existSequence)) continue
+
+            this.connection.logger.logSchemaBuild(
+                `updating sequence: ${metadata.name}`,
+            )
+            await this.queryRunner.alterSequence(existSequence, sequence)
+        }
+    }
+
+    /**
+     * Drops sequences created by TypeORM which do not exist in the entity metadata anymore.
+     * Sequences of entities excluded from synchronization are kept.
+     */
+    protected async dropOldSequences(): Promise<void> {
+        if (!this.hasSequenceSupport()) return
+
+        const sequenceMetadatas = this.connection.entityMetadatas.reduce(
+            (sequences, metadata) => sequences.concat(metadata.sequences),
+            [] as SequenceMetadata[],
+        )
+        const oldSequences = this.queryRunner.loadedSequences.filter(
+            (sequence) =>
+                !sequenceMetadatas.some(
+                    (metadata) =>
+                        this.getTablePath(sequence.name) ===
+                        this.getTablePath(metadata.name),
+                ),
+        )
+
+        for (const sequence of oldSequences) {
+            this.connection.logger.logSchemaBuild(
+                `dropping an old sequence: ${sequence.name}`,
+            )
+            await this.queryRunner.dropSequence(sequence, true)
+        }
+    }
+
+    /**
+     * Creates functions and stored procedures which are missing in db yet
+     * and replaces functions which definition was changed.
+     */
+    protected async createNewFunctions(): Promise<void> {
+        if (!this.hasFunctionSupport()) return
+
+        for (const fn of this.functionsToSync) {
+            const existFunction = this.queryRunner.loadedFunctions.find(
+                (loadedFunction) =>
+                    this.getTablePath(loadedFunction.name) ===
+                    this.getTablePath(fn.name),
+            )
+            if (!existFunction) {
+                this.connection.logger.logSchemaBuild(
+                    `creating a new ${fn.type}: ${fn.name}`,
+                )
+                await this.queryRunner.createFunction(fn, true)
+                this.queryRunner.loadedFunctions.push(fn)
+                continue
+            }
+
+            if (existFunction.isSameDefinition(fn)) continue
+
+            this.connection.logger.logSchemaBuild(
+                `updating ${fn.type}: ${fn.name}`,
+            )
+            await this.queryRunner.changeFunction(existFunction, fn, true)
+        }
+    }
+
+    /**
+     * Drops functions and stored procedures created by TypeORM which do not exist in the data source options anymore
+     * or which signature was changed. Functions are dropped in reverse order of their dependencies.
+     */
+    protected async dropOldFunctions(): Promise<void> {
+        const functionsToDrop = this.sortFunctionsByDependencies(
+            this.functionsToDrop,
+            false,
+        ).reverse()
+
+        for (const fn of functionsToDrop) {
+            this.connection.logger.logSchemaBuild(
+                `dropping an old ${fn.type}: ${fn.name}`,
+            )
+            await this.queryRunner.dropFunction(fn, true)
+        }
+    }
+
+    /**
+     * Creates sequence from the given sequence metadata.
+     * Owner column is supported only by Postgres.
+     */
+    protected createTableSequence(metadata: SequenceMetadata): TableSequence {
+        const sequence = TableSequence.create(metadata, this.connection.driver)
+        if (!this.hasSequenceOwnerSupport()) {
+            sequence.ownedByTable = undefined
+            sequence.ownedByColumn = undefined
+        }
+        return sequence
+    }
+
     /**
      * Creates composite uniques which are missing in db yet.
      */
@@ -1167,6 +1618,67 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         }
     }
 
+    /**
+     * Creates partitions declared in the entity which do not exist in the table yet.
+     * Partitions which are not declared in the entity are never dropped.
+     */
+    protected async createNewPartitions(): Promise<void> {
+        // Only PostgreSQL and MySQL support declarative partitioning
+        if (
+            !["postgres", "mysql", "mariadb"].includes(
+                this.connection.driver.options.type,
+            )
+        )
+            return
+
+        for (const metadata of this.entityToSyncMetadatas) {
+            if (!metadata.partitioning) continue
+
+            const table = this.queryRunner.loadedTables.find(
+                (table) =>
+                    this.getTablePath(table) === this.getTablePath(metadata),
+            )
+            if (!table) continue
+
+            // partitioning of existing table can not be changed without recreating the table
+            const partitioning =
+                TableUtils.createTablePartitioningOptions(metadata)!
+            if (
+                !table.partitioning ||
+                table.partitioning.type !== partitioning.type ||
+                table.partitioning.columnNames.join() !==
+                    partitioning.columnNames.join()
+            ) {
+                this.connection.logger.log(
+                    "warn",
+                    `partitioning of table "${table.name}" differs from the entity and can not be synchronized, the table must be recreated manually`,
+                )
+                continue
+            }
+
+            const newPartitions = (metadata.partitioning.partitions || [])
+                .filter(
+                    (partitionOptions) =>
+                        !table.partitions.find(
+                            (tablePartition) =>
+                                tablePartition.name === partitionOptions.name,
+                        ),
+                )
+                .map((partitionOptions) => new TablePartition(partitionOptions))
+
+            if (newPartitions.length === 0) continue
+
+            this.connection.logger.logSchemaBuild(
+                `adding new partitions: ${newPartitions
+                    .map((partition) => `"${partition.name}"`)
+                    .join(", ")} in table "${table.name}"`,
+            )
+            for (const partition of newPartitions) {
+                await this.queryRunner.createPartition(table, partition)
+            }
+        }
+    }
+
     /**
      * Creates foreign keys which does not exist in the table yet.
      */
@@ -1320,6 +1832,60 @@ export class RdbmsSchemaBuilder implements SchemaBuilder {
         await this.queryRunner.dropUniqueConstraints(table, relatedUniques)
     }
 
+    /**
+     * Checks if the current driver supports triggers.
+     */
+    protected hasTriggerSupport(): boolean {
+        return (
+            DriverUtils.isSQLiteFamily(this.connection.driver) ||
+            [
+                "postgres",
+                "aurora-postgres",
+                "mysql",
+                "mariadb",
+                "mssql",
+                "oracle",
+            ].includes(this.connection.driver.options.type)
+        )
+    }
+
+    /**
+     * Checks if the current driver supports sequences.
+     */
+    protected hasSequenceSupport(): boolean {
+        return [
+            "postgres",
+            "aurora-postgres",
+            "cockroachdb",
+            "oracle",
+            "mssql",
+            "sap",
+        ].includes(this.connection.driver.options.type)
+    }
+
+    /**
+     * Checks if the current driver supports functions and stored procedures.
+     */
+    protected hasFunctionSupport(): boolean {
+        return [
+            "postgres",
+            "aurora-postgres",
+            "mysql",
+            "mariadb",
+            "mssql",
+            "oracle",
+        ].includes(this.connection.driver.options.type)
+    }
+
+    /**
+     * Checks if the current driver supports sequences owned by a column.
+     */
+    protected hasSequenceOwnerSupport(): boolean {
+        return ["postgres", "aurora-postgres"].includes(
+            this.connection.driver.options.type,
+        )
+    }
+
     /**
      * Creates new columns from the given column metadatas.
      */
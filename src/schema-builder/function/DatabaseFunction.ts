@@ -0,0 +1,118 @@
+import { DatabaseFunctionOptions } from "../options/DatabaseFunctionOptions"
+import { DatabaseFunctionParameterOptions } from "../options/DatabaseFunctionParameterOptions"
+
+/**
+ * Database's function or stored procedure stored in this class.
+ */
+export class DatabaseFunction {
+    readonly "@instanceof" = Symbol.for("DatabaseFunction")
+
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Function name. Can be prefixed with a schema name.
+     */
+    name: string
+
+    /**
+     * Indicates if function or stored procedure is stored.
+     */
+    type: "function" | "procedure"
+
+    /**
+     * Function parameters.
+     */
+    parameters: DatabaseFunctionParameterOptions[]
+
+    /**
+     * Type returned by the function.
+     */
+    returns?: string
+
+    /**
+     * Language the body is written in.
+     */
+    language?: string
+
+    /**
+     * Function body.
+     */
+    body: string
+
+    /**
+     * Names of the functions this function depends on.
+     */
+    dependsOn: string[]
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(options: DatabaseFunctionOptions) {
+        this.name = options.name
+        this.type = options.type || "function"
+        this.parameters = (options.parameters || []).map((parameter) => ({
+            ...parameter,
+        }))
+        this.returns = options.returns
+        this.language = options.language
+        this.body = options.body
+        this.dependsOn = options.dependsOn ? [...options.dependsOn] : []
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates a new copy of this function with exactly same properties.
+     */
+    clone(): DatabaseFunction {
+        return new DatabaseFunction(<DatabaseFunctionOptions>{
+            name: this.name,
+            type: this.type,
+            parameters: this.parameters,
+            returns: this.returns,
+            language: this.language,
+            body: this.body,
+            dependsOn: this.dependsOn,
+        })
+    }
+
+    /**
+     * Checks if given function has the same signature as this function:
+     * type, parameters and return type.
+     * Function with a changed signature can not be replaced and has to be recreated.
+     */
+    isSameSignature(fn: DatabaseFunction): boolean {
+        return (
+            this.type === fn.type &&
+            (this.returns || "").toLowerCase() ===
+                (fn.returns || "").toLowerCase() &&
+            this.parameters.length === fn.parameters.length &&
+            this.parameters.every((parameter, index) => {
+                const otherParameter = fn.parameters[index]
+                return (
+                    parameter.name === otherParameter.name &&
+                    parameter.type.toLowerCase() ===
+                        otherParameter.type.toLowerCase() &&
+                    (parameter.mode || "IN") === (otherParameter.mode || "IN")
+                )
+            })
+        )
+    }
+
+    /**
+     * Checks if given function has the same definition as this function.
+     */
+    isSameDefinition(fn: DatabaseFunction): boolean {
+        return (
+            this.isSameSignature(fn) &&
+            (this.language || "").toLowerCase() ===
+                (fn.language || "").toLowerCase() &&
+            this.body.trim() === fn.body.trim()
+        )
+    }
+}
@@ -0,0 +1,48 @@
+import { DatabaseFunctionParameterOptions } from "./DatabaseFunctionParameterOptions"
+
+/**
+ * Database's function or stored procedure options.
+ */
+export interface DatabaseFunctionOptions {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Function name. Can be prefixed with a schema name, e.g. "billing.invoice_total".
+     */
+    name: string
+
+    /**
+     * Indicates if function or stored procedure is declared. Default is "function".
+     */
+    type?: "function" | "procedure"
+
+    /**
+     * Function parameters.
+     */
+    parameters?: DatabaseFunctionParameterOptions[]
+
+    /**
+     * Type returned by the function, e.g. "integer".
+     * Required for functions, must not be set for stored procedures.
+     */
+    returns?: string
+
+    /**
+     * Language the body is written in, e.g. "sql" or "plpgsql".
+     * Supported only by Postgres, where default is "sql".
+     */
+    language?: string
+
+    /**
+     * Function body, as written after the function header.
+     */
+    body: string
+
+    /**
+     * Names of the functions this function depends on.
+     * They are created before and dropped after this function.
+     */
+    dependsOn?: string[]
+}
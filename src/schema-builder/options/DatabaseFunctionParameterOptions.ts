@@ -0,0 +1,21 @@
+/**
+ * Parameter of the database function or stored procedure.
+ */
+export interface DatabaseFunctionParameterOptions {
+    /**
+     * Parameter name.
+     * Required by SQL Server and Oracle.
+     */
+    name?: string
+
+    /**
+     * Parameter type, e.g. "integer" or "varchar(255)".
+     */
+    type: string
+
+    /**
+     * Parameter mode. Default is "IN".
+     * OUT and INOUT parameters are supported only by stored procedures.
+     */
+    mode?: "IN" | "OUT" | "INOUT"
+}
@@ -39,7 +39,17 @@ export interface TableColumnOptions {
     /**
      * Specifies generation strategy if this column will use auto increment.
      */
-    generationStrategy?: "uuid" | "increment" | "rowid" | "identity"
+    generationStrategy?:
+        | "uuid"
+        | "increment"
+        | "rowid"
+        | "identity"
+        | "sequence"
+
+    /**
+     * Name of the sequence used by "sequence" generation strategy.
+     */
+    sequenceName?: string
 
     /**
      * Indicates if column is a primary key.
@@ -4,6 +4,9 @@ import { TableForeignKeyOptions } from "./TableForeignKeyOptions"
 import { TableUniqueOptions } from "./TableUniqueOptions"
 import { TableCheckOptions } from "./TableCheckOptions"
 import { TableExclusionOptions } from "./TableExclusionOptions"
+import { TablePartitioningOptions } from "./TablePartitioningOptions"
+import { TablePartitionOptions } from "./TablePartitionOptions"
+import { TableTriggerOptions } from "./TableTriggerOptions"
 
 /**
  * Table options.
@@ -58,6 +61,11 @@ export interface TableOptions {
      */
     exclusions?: TableExclusionOptions[]
 
+    /**
+     * Table triggers.
+     */
+    triggers?: TableTriggerOptions[]
+
     /**
      * Indicates if table was just created.
      * This is needed, for example to check if we need to skip primary keys creation
@@ -79,4 +87,14 @@ export interface TableOptions {
      * Table comment. Not supported by all database types.
      */
     comment?: string
+
+    /**
+     * Table partitioning. Supported by Postgres and MySQL.
+     */
+    partitioning?: TablePartitioningOptions
+
+    /**
+     * Table partitions.
+     */
+    partitions?: TablePartitionOptions[]
 }
@@ -0,0 +1,22 @@
+/**
+ * Database's table partition options.
+ */
+export interface TablePartitionOptions {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Partition name.
+     * In Postgres partitions are tables, so it is the name of the partition table.
+     */
+    name: string
+
+    /**
+     * Partition bound, e.g. "FROM ('2024-01-01') TO ('2024-02-01')", "IN ('eu', 'us')",
+     * "WITH (MODULUS 4, REMAINDER 0)" or "DEFAULT" in Postgres
+     * and "LESS THAN ('2024-02-01')" or "IN ('eu', 'us')" in MySQL.
+     * Not used by hash partitions in MySQL.
+     */
+    values?: string
+}
@@ -0,0 +1,18 @@
+/**
+ * Describes how table is partitioned.
+ */
+export interface TablePartitioningOptions {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Partitioning strategy.
+     */
+    type: "RANGE" | "LIST" | "HASH"
+
+    /**
+     * Names of the columns used as partition key.
+     */
+    columnNames: string[]
+}
@@ -0,0 +1,53 @@
+/**
+ * Database's sequence options.
+ */
+export interface TableSequenceOptions {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sequence name. Can be prefixed with a schema name, e.g. "billing.invoice_seq".
+     */
+    name: string
+
+    /**
+     * First value returned by the sequence.
+     */
+    start?: number
+
+    /**
+     * Value added to the current sequence value to create a new value.
+     */
+    increment?: number
+
+    /**
+     * Minimum value the sequence can generate.
+     */
+    minValue?: number
+
+    /**
+     * Maximum value the sequence can generate.
+     */
+    maxValue?: number
+
+    /**
+     * Indicates if sequence wraps around when it reaches its limit.
+     */
+    cycle?: boolean
+
+    /**
+     * Number of sequence values preallocated and stored in memory.
+     */
+    cache?: number
+
+    /**
+     * Path of the table which owns the sequence.
+     */
+    ownedByTable?: string
+
+    /**
+     * Name of the column which owns the sequence.
+     */
+    ownedByColumn?: string
+}
@@ -8,6 +8,9 @@ import { TableUtils } from "../util/TableUtils"
 import { TableUnique } from "./TableUnique"
 import { TableCheck } from "./TableCheck"
 import { TableExclusion } from "./TableExclusion"
+import { TablePartition } from "./TablePartition"
+import { TableTrigger } from "./TableTrigger"
+import { TablePartitioningOptions } from "../options/TablePartitioningOptions"
 
 /**
  * Table in the database represented in this class.
@@ -66,6 +69,11 @@ export class Table {
      */
     exclusions: TableExclusion[] = []
 
+    /**
+     * Table triggers.
+     */
+    triggers: TableTrigger[] = []
+
     /**
      * Indicates if table was just created.
      * This is needed, for example to check if we need to skip primary keys creation
@@ -88,6 +96,16 @@ export class Table {
      */
     comment?: string
 
+    /**
+     * Table partitioning. Supported by Postgres and MySQL.
+     */
+    partitioning?: TablePartitioningOptions
+
+    /**
+     * Table partitions.
+     */
+    partitions: TablePartition[] = []
+
     // -------------------------------------------------------------------------
     // Constructor
     // -------------------------------------------------------------------------
@@ -136,6 +154,11 @@ export class Table {
                     (exclusion) => new TableExclusion(exclusion),
                 )
 
+            if (options.triggers)
+                this.triggers = options.triggers.map(
+                    (trigger) => new TableTrigger(trigger),
+                )
+
             if (options.justCreated !== undefined)
                 this.justCreated = options.justCreated
 
@@ -144,6 +167,17 @@ export class Table {
             this.engine = options.engine
 
             this.comment = options.comment
+
+            if (options.partitioning)
+                this.partitioning = {
+                    type: options.partitioning.type,
+                    columnNames: [...options.partitioning.columnNames],
+                }
+
+            if (options.partitions)
+                this.partitions = options.partitions.map(
+                    (partition) => new TablePartition(partition),
+                )
         }
     }
 
@@ -175,10 +209,13 @@ export class Table {
             uniques: this.uniques.map((constraint) => constraint.clone()),
             checks: this.checks.map((constraint) => constraint.clone()),
             exclusions: this.exclusions.map((constraint) => constraint.clone()),
+            triggers: this.triggers.map((trigger) => trigger.clone()),
             justCreated: this.justCreated,
             withoutRowid: this.withoutRowid,
             engine: this.engine,
             comment: this.comment,
+            partitioning: this.partitioning,
+            partitions: this.partitions.map((partition) => partition.clone()),
         })
     }
 
@@ -267,6 +304,44 @@ export class Table {
         }
     }
 
+    /**
+     * Adds trigger.
+     */
+    addTrigger(trigger: TableTrigger): void {
+        this.triggers.push(trigger)
+    }
+
+    /**
+     * Removes trigger.
+     */
+    removeTrigger(removedTrigger: TableTrigger): void {
+        const foundTrigger = this.triggers.find(
+            (trigger) => trigger.name === removedTrigger.name,
+        )
+        if (foundTrigger) {
+            this.triggers.splice(this.triggers.indexOf(foundTrigger), 1)
+        }
+    }
+
+    /**
+     * Adds partition.
+     */
+    addPartition(partition: TablePartition): void {
+        this.partitions.push(partition)
+    }
+
+    /**
+     * Removes partition.
+     */
+    removePartition(removedPartition: TablePartition): void {
+        const foundPartition = this.partitions.find(
+            (partition) => partition.name === removedPartition.name,
+        )
+        if (foundPartition) {
+            this.partitions.splice(this.partitions.indexOf(foundPartition), 1)
+        }
+    }
+
     /**
      * Adds foreign keys.
      */
@@ -419,7 +494,13 @@ export class Table {
             exclusions: entityMetadata.exclusions.map((exclusion) =>
                 TableExclusion.create(exclusion),
             ),
+            triggers: entityMetadata.triggers.map((trigger) =>
+                TableTrigger.create(trigger),
+            ),
             comment: entityMetadata.comment,
+            partitioning:
+                TableUtils.createTablePartitioningOptions(entityMetadata),
+            partitions: entityMetadata.partitioning?.partitions,
         }
 
         return new Table(options)
@@ -44,7 +44,17 @@ export class TableColumn {
      * Specifies generation strategy if this column will use auto increment.
      * `rowid` option supported only in CockroachDB.
      */
-    generationStrategy?: "uuid" | "increment" | "rowid" | "identity"
+    generationStrategy?:
+        | "uuid"
+        | "increment"
+        | "rowid"
+        | "identity"
+        | "sequence"
+
+    /**
+     * Name of the sequence used by "sequence" generation strategy.
+     */
+    sequenceName?: string
 
     /**
      * Indicates if column is a primary key.
@@ -172,6 +182,7 @@ export class TableColumn {
             this.isNullable = options.isNullable || false
             this.isGenerated = options.isGenerated || false
             this.generationStrategy = options.generationStrategy
+            this.sequenceName = options.sequenceName
             this.generatedIdentity = options.generatedIdentity
             this.isPrimary = options.isPrimary || false
             this.isUnique = options.isUnique || false
@@ -216,6 +227,7 @@ export class TableColumn {
             isNullable: this.isNullable,
             isGenerated: this.isGenerated,
             generationStrategy: this.generationStrategy,
+            sequenceName: this.sequenceName,
             generatedIdentity: this.generatedIdentity,
             isPrimary: this.isPrimary,
             isUnique: this.isUnique,
@@ -0,0 +1,45 @@
+import { TablePartitionOptions } from "../options/TablePartitionOptions"
+
+/**
+ * Database's table partition stored in this class.
+ */
+export class TablePartition {
+    readonly "@instanceof" = Symbol.for("TablePartition")
+
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Partition name.
+     */
+    name: string
+
+    /**
+     * Partition bound.
+     */
+    values?: string
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(options: TablePartitionOptions) {
+        this.name = options.name
+        this.values = options.values
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates a new copy of this partition with exactly same properties.
+     */
+    clone(): TablePartition {
+        return new TablePartition(<TablePartitionOptions>{
+            name: this.name,
+            values: this.values,
+        })
+    }
+}
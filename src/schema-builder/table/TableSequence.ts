@@ -0,0 +1,148 @@
+import { TableSequenceOptions } from "../options/TableSequenceOptions"
+import { SequenceMetadata } from "../../metadata/SequenceMetadata"
+import { Driver } from "../../driver/Driver"
+
+/**
+ * Database's sequence stored in this class.
+ */
+export class TableSequence {
+    readonly "@instanceof" = Symbol.for("TableSequence")
+
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sequence name. Can be prefixed with a schema name.
+     */
+    name: string
+
+    /**
+     * First value returned by the sequence.
+     */
+    start?: number
+
+    /**
+     * Value added to the current sequence value to create a new value.
+     */
+    increment?: number
+
+    /**
+     * Minimum value the sequence can generate.
+     */
+    minValue?: number
+
+    /**
+     * Maximum value the sequence can generate.
+     */
+    maxValue?: number
+
+    /**
+     * Indicates if sequence wraps around when it reaches its limit.
+     */
+    cycle: boolean
+
+    /**
+     * Number of sequence values preallocated and stored in memory.
+     */
+    cache?: number
+
+    /**
+     * Path of the table which owns the sequence.
+     */
+    ownedByTable?: string
+
+    /**
+     * Name of the column which owns the sequence.
+     */
+    ownedByColumn?: string
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(options: TableSequenceOptions) {
+        this.name = options.name
+        this.start = options.start
+        this.increment = options.increment
+        this.minValue = options.minValue
+        this.maxValue = options.maxValue
+        this.cycle = options.cycle || false
+        this.cache = options.cache
+        this.ownedByTable = options.ownedByTable
+        this.ownedByColumn = options.ownedByColumn
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates a new copy of this sequence with exactly same properties.
+     */
+    clone(): TableSequence {
+        return new TableSequence(<TableSequenceOptions>{
+            name: this.name,
+            start: this.start,
+            increment: this.increment,
+            minValue: this.minValue,
+            maxValue: this.maxValue,
+            cycle: this.cycle,
+            cache: this.cache,
+            ownedByTable: this.ownedByTable,
+            ownedByColumn: this.ownedByColumn,
+        })
+    }
+
+    /**
+     * Checks if given sequence (usually loaded from the database) has the same definition as this sequence.
+     * Options not set on this sequence are left to the database defaults,
+     * and options the database does not report (e.g. start value in Oracle) are not compared.
+     */
+    isSameDefinition(sequence: TableSequence): boolean {
+        const isSame = (value?: number, otherValue?: number) =>
+            value === undefined ||
+            otherValue === undefined ||
+            value === otherValue
+
+        return (
+            isSame(this.start, sequence.start) &&
+            isSame(this.increment, sequence.increment) &&
+            isSame(this.minValue, sequence.minValue) &&
+            isSame(this.maxValue, sequence.maxValue) &&
+            isSame(this.cache, sequence.cache) &&
+            this.cycle === sequence.cycle &&
+            (!this.ownedByColumn ||
+                (this.ownedByTable === sequence.ownedByTable &&
+                    this.ownedByColumn === sequence.ownedByColumn))
+        )
+    }
+
+    // -------------------------------------------------------------------------
+    // Static Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates sequence from a sequence metadata object.
+     */
+    static create(metadata: SequenceMetadata, driver: Driver): TableSequence {
+        const ownerEntity = metadata.ownedBy?.entityMetadata
+        return new TableSequence(<TableSequenceOptions>{
+            name: metadata.name,
+            start: metadata.start,
+            increment: metadata.increment,
+            minValue: metadata.minValue,
+            maxValue: metadata.maxValue,
+            cycle: metadata.cycle,
+            cache: metadata.cache,
+            ownedByTable: ownerEntity
+                ? driver.buildTableName(
+                      ownerEntity.tableName,
+                      ownerEntity.schema,
+                      ownerEntity.database,
+                  )
+                : undefined,
+            ownedByColumn: metadata.ownedBy?.databaseName,
+        })
+    }
+}
@@ -0,0 +1,110 @@
+import { TableTriggerOptions } from "../options/TableTriggerOptions"
+import { TriggerMetadata } from "../../metadata/TriggerMetadata"
+
+/**
+ * Database's table trigger stored in this class.
+ */
+export class TableTrigger {
+    readonly "@instanceof" = Symbol.for("TableTrigger")
+
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Trigger name.
+     */
+    name: string
+
+    /**
+     * When trigger fires relative to the triggering statement.
+     */
+    timing: "BEFORE" | "AFTER" | "INSTEAD OF"
+
+    /**
+     * Statements which fire the trigger.
+     */
+    events: ("INSERT" | "UPDATE" | "DELETE")[]
+
+    /**
+     * Indicates if trigger fires once per affected row or once per statement.
+     */
+    level: "ROW" | "STATEMENT"
+
+    /**
+     * Trigger action, as written after the trigger header.
+     */
+    body?: string
+
+    /**
+     * Name of the existing function executed by the trigger.
+     */
+    function?: string
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(options: TableTriggerOptions) {
+        this.name = options.name
+        this.timing = options.timing
+        this.events = options.events
+        this.level = options.level || "ROW"
+        this.body = options.body
+        this.function = options.function
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates a new copy of this trigger with exactly same properties.
+     */
+    clone(): TableTrigger {
+        return new TableTrigger(<TableTriggerOptions>{
+            name: this.name,
+            timing: this.timing,
+            events: [...this.events],
+            level: this.level,
+            body: this.body,
+            function: this.function,
+        })
+    }
+
+    /**
+     * Checks if given trigger has the same definition as this trigger.
+     * Bodies are compared ignoring whitespace differences.
+     */
+    isSameDefinition(trigger: TableTrigger): boolean {
+        const normalizeBody = (body?: string) =>
+            body ? body.replace(/\s+/g, " ").trim() : ""
+
+        return (
+            this.timing === trigger.timing &&
+            this.level === trigger.level &&
+            [...this.events].sort().join(",") ===
+                [...trigger.events].sort().join(",") &&
+            (this.function || "") === (trigger.function || "") &&
+            normalizeBody(this.body) === normalizeBody(trigger.body)
+        )
+    }
+
+    // -------------------------------------------------------------------------
+    // Static Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates trigger from the trigger metadata object.
+     */
+    static create(triggerMetadata: TriggerMetadata): TableTrigger {
+        return new TableTrigger(<TableTriggerOptions>{
+            name: triggerMetadata.name,
+            timing: triggerMetadata.timing,
+            events: [...triggerMetadata.events],
+            level: triggerMetadata.level,
+            body: triggerMetadata.body,
+            function: triggerMetadata.function,
+        })
+    }
+}
@@ -1,6 +1,8 @@
 import { TableColumnOptions } from "../options/TableColumnOptions"
 import { ColumnMetadata } from "../../metadata/ColumnMetadata"
 import { Driver } from "../../driver/Driver"
+import { EntityMetadata } from "../../metadata/EntityMetadata"
+import { TablePartitioningOptions } from "../options/TablePartitioningOptions"
 
 export class TableUtils {
     static createTableColumnOptions(
@@ -24,6 +26,7 @@ export class TableUtils {
             comment: columnMetadata.comment,
             isGenerated: columnMetadata.isGenerated,
             generationStrategy: columnMetadata.generationStrategy,
+            sequenceName: columnMetadata.sequenceName,
             generatedIdentity: columnMetadata.generatedIdentity,
             isNullable: columnMetadata.isNullable,
             type: driver.normalizeType(columnMetadata),
@@ -39,4 +42,23 @@ export class TableUtils {
             srid: columnMetadata.srid,
         }
     }
+
+    /**
+     * Creates table partitioning options from the entity partitioning,
+     * resolving property names of the partition key into column names.
+     */
+    static createTablePartitioningOptions(
+        entityMetadata: EntityMetadata,
+    ): TablePartitioningOptions | undefined {
+        if (!entityMetadata.partitioning) return undefined
+
+        return {
+            type: entityMetadata.partitioning.type,
+            columnNames: entityMetadata.partitioning.columns.map(
+                (propertyPath) =>
+                    entityMetadata.findColumnWithPropertyPath(propertyPath)
+                        ?.databaseName ?? propertyPath,
+            ),
+        }
+    }
 }
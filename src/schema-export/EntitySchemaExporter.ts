@@ -0,0 +1,557 @@
+import { ObjectLiteral } from "../common/ObjectLiteral"
+import { DataSource } from "../data-source/DataSource"
+import { ColumnMetadata } from "../metadata/ColumnMetadata"
+import { EmbeddedMetadata } from "../metadata/EmbeddedMetadata"
+import { EntityMetadata } from "../metadata/EntityMetadata"
+import { RelationMetadata } from "../metadata/RelationMetadata"
+
+/**
+ * EntitySchema file generated from entity metadata.
+ */
+export interface ExportedEntitySchema {
+    /**
+     * Name of the entity.
+     */
+    name: string
+
+    /**
+     * Name of the file the entity schema should be written to.
+     */
+    fileName: string
+
+    /**
+     * Source code of the entity schema file.
+     */
+    content: string
+}
+
+/**
+ * Code inserted into generated source as is.
+ */
+class Code {
+    constructor(readonly code: string) {}
+}
+
+/**
+ * Exports entity metadata as EntitySchema definitions,
+ * for projects replacing decorated entity classes with entity schemas.
+ *
+ * Each file contains an interface of the entity and its EntitySchema.
+ * Column transformers and inheritance can not be exported and must be added manually.
+ */
+export class EntitySchemaExporter {
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(protected connection: DataSource) {}
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Generates entity schema files of all entities.
+     */
+    generate(): ExportedEntitySchema[] {
+        return this.connection.entityMetadatas
+            .filter(
+                (metadata) =>
+                    metadata.tableType !== "junction" &&
+                    metadata.tableType !== "closure-junction",
+            )
+            .map((metadata) => ({
+                name: metadata.name,
+                fileName: metadata.name + ".ts",
+                content: this.render(metadata),
+            }))
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Renders source code of the entity schema file of the given entity.
+     */
+    protected render(metadata: EntityMetadata): string {
+        const relatedEntities = new Set<string>()
+        const relations = metadata.relations.filter(
+            (relation) => !relation.embeddedMetadata,
+        )
+        for (const relation of relations) {
+            if (relation.inverseEntityMetadata !== metadata)
+                relatedEntities.add(relation.inverseEntityMetadata.name)
+        }
+
+        const imports = [`import { EntitySchema } from "typeorm"`]
+        for (const name of Array.from(relatedEntities).sort()) {
+            imports.push(`import { ${name} } from "./${name}"`)
+        }
+
+        // embeddeds are declared before the entity using them
+        const declarations: string[] = []
+        const renderEmbeddeds = (embeddeds: EmbeddedMetadata[]) => {
+            for (const embedded of embeddeds) {
+                renderEmbeddeds(embedded.embeddeds)
+
+                const name = this.getEmbeddedName(embedded)
+                declarations.push(
+                    this.renderInterface(
+                        name,
+                        embedded.columns,
+                        [],
+                        embedded.embeddeds,
+                    ),
+                    this.renderSchema(name, {
+                        name,
+                        columns: this.createColumnsOptions(embedded.columns),
+                        ...this.omitEmpty({
+                            embeddeds: this.createEmbeddedsOptions(
+                                embedded.embeddeds,
+                            ),
+                        }),
+                    }),
+                )
+            }
+        }
+        renderEmbeddeds(metadata.embeddeds)
+
+        declarations.push(
+            this.renderInterface(
+                metadata.name,
+                metadata.columns.filter((column) => !column.embeddedMetadata),
+                relations,
+                metadata.embeddeds,
+            ),
+            this.renderSchema(
+                metadata.name,
+                this.createEntityOptions(metadata, relations),
+            ),
+        )
+
+        return imports.join("\n") + "\n\n" + declarations.join("\n\n") + "\n"
+    }
+
+    /**
+     * Renders interface describing objects of an entity or embedded.
+     */
+    protected renderInterface(
+        name: string,
+        columns: ColumnMetadata[],
+        relations: RelationMetadata[],
+        embeddeds: EmbeddedMetadata[],
+    ): string {
+        const properties: string[] = []
+        for (const column of columns) {
+            if (column.isVirtual) continue
+            properties.push(
+                `${column.propertyName}: ${this.getPropertyType(column)}`,
+            )
+        }
+        for (const embedded of embeddeds) {
+            properties.push(
+                `${embedded.propertyName}: ${this.getEmbeddedName(embedded)}${
+                    embedded.isArray ? "[]" : ""
+                }`,
+            )
+        }
+        for (const relation of relations) {
+            let type = relation.inverseEntityMetadata.name
+            if (relation.isOneToMany || relation.isManyToMany) type += "[]"
+            if (relation.isLazy) type = `Promise<${type}>`
+            properties.push(`${relation.propertyName}: ${type}`)
+        }
+
+        return (
+            `export interface ${name} {\n` +
+            properties.map((property) => `    ${property}\n`).join("") +
+            "}"
+        )
+    }
+
+    /**
+     * Renders declaration of an entity schema with the given options.
+     */
+    protected renderSchema(name: string, options: ObjectLiteral): string {
+        return `export const ${name}Schema = new EntitySchema<${name}>(${this.renderValue(
+            options,
+            "",
+        )})`
+    }
+
+    /**
+     * Creates options of the schema of the given entity.
+     */
+    protected createEntityOptions(
+        metadata: EntityMetadata,
+        relations: RelationMetadata[],
+    ): ObjectLiteral {
+        const driver = this.connection.driver
+        const options: ObjectLiteral = { name: metadata.name }
+        if (metadata.givenTableName) options.tableName = metadata.givenTableName
+        if (metadata.database && metadata.database !== driver.database)
+            options.database = metadata.database
+        if (metadata.schema && metadata.schema !== driver.schema)
+            options.schema = metadata.schema
+        if (metadata.tableType === "view") {
+            options.type = "view"
+            if (typeof metadata.expression === "string")
+                options.expression = metadata.expression
+        }
+        if (!metadata.synchronize) options.synchronize = false
+        if (metadata.orderBy && typeof metadata.orderBy === "object")
+            options.orderBy = metadata.orderBy
+
+        options.columns = this.createColumnsOptions(
+            metadata.columns.filter((column) => !column.embeddedMetadata),
+        )
+        options.relations = this.createRelationsOptions(relations)
+        options.embeddeds = this.createEmbeddedsOptions(metadata.embeddeds)
+
+        // unique constraints of one-to-one relations are created by relations
+        const isRelationConstraint = (columns: ColumnMetadata[]) =>
+            metadata.ownerOneToOneRelations.some(
+                (relation) =>
+                    relation.joinColumns.length === columns.length &&
+                    relation.joinColumns.every(
+                        (column) => columns.indexOf(column) !== -1,
+                    ),
+            )
+        const getColumns = (columns: ColumnMetadata[]) =>
+            columns.map((column) => column.propertyPath)
+
+        options.indices = metadata.ownIndices
+            .filter(
+                (index) =>
+                    !(index.isUnique && isRelationConstraint(index.columns)),
+            )
+            .map((index) =>
+                this.omitEmpty({
+                    name: index.givenName,
+                    columns: getColumns(index.columns),
+                    unique: index.isUnique || undefined,
+                    spatial: index.isSpatial || undefined,
+                    fulltext: index.isFulltext || undefined,
+                    nullFiltered: index.isNullFiltered || undefined,
+                    sparse: index.isSparse || undefined,
+                    parser: index.parser,
+                    where: index.where,
+                    synchronize: index.synchronize ? undefined : false,
+                }),
+            )
+        options.uniques = metadata.ownUniques
+            .filter((unique) => !isRelationConstraint(unique.columns))
+            .map((unique) =>
+                this.omitEmpty({
+                    name: unique.givenName,
+                    columns: getColumns(unique.columns),
+                    deferrable: unique.deferrable,
+                }),
+            )
+        options.checks = metadata.checks.map((check) =>
+            this.omitEmpty({
+                name: check.givenName,
+                expression: check.expression,
+            }),
+        )
+        options.exclusions = metadata.exclusions.map((exclusion) =>
+            this.omitEmpty({
+                name: exclusion.givenName,
+                expression: exclusion.expression,
+            }),
+        )
+
+        return this.omitEmpty(options)
+    }
+
+    /**
+     * Creates options of the given columns, by property names.
+     */
+    protected createColumnsOptions(columns: ColumnMetadata[]): ObjectLiteral {
+        const options: ObjectLiteral = {}
+        for (const column of columns) {
+            // join columns without own properties are defined by relations
+            if (column.isVirtual) continue
+
+            options[column.propertyName] = this.createColumnOptions(column)
+        }
+        return options
+    }
+
+    /**
+     * Creates options of the given column.
+     */
+    protected createColumnOptions(column: ColumnMetadata): ObjectLiteral {
+        return this.omitEmpty({
+            type:
+                typeof column.type === "function"
+                    ? new Code(column.type.name)
+                    : column.type,
+            name: column.givenDatabaseName,
+            primary: column.isPrimary || undefined,
+            generated: column.isGenerated
+                ? column.generationStrategy || true
+                : undefined,
+            objectId: column.isObjectId || undefined,
+            createDate: column.isCreateDate || undefined,
+            updateDate: column.isUpdateDate || undefined,
+            deleteDate: column.isDeleteDate || undefined,
+            version: column.isVersion || undefined,
+            tenant: column.isTenant || undefined,
+            treeLevel: column.isTreeLevel || undefined,
+            length: column.length
+                ? /^\d+$/.test(column.length)
+                    ? parseInt(column.length)
+                    : column.length
+                : undefined,
+            width: column.width,
+            precision: column.precision !== null ? column.precision : undefined,
+            scale: column.scale,
+            unsigned: column.unsigned || undefined,
+            zerofill: column.zerofill || undefined,
+            nullable: column.isNullable || undefined,
+            select: column.isSelect ? undefined : false,
+            insert: column.isInsert ? undefined : false,
+            update: column.isUpdate ? undefined : false,
+            // default values of date columns are set by drivers
+            default:
+                column.isCreateDate || column.isUpdateDate
+                    ? undefined
+                    : typeof column.default === "function"
+                    ? new Code(column.default.toString())
+                    : column.default,
+            onUpdate: column.onUpdate,
+            enum: column.enum,
+            enumName: column.enumName,
+            array: column.isArray || undefined,
+            asExpression: column.asExpression,
+            generatedType: column.asExpression
+                ? column.generatedType
+                : undefined,
+            hstoreType: column.hstoreType,
+            charset: column.charset,
+            collation: column.collation,
+            comment: column.comment,
+            sensitive: column.isSensitive || undefined,
+            sequenceName: column.sequenceName,
+            primaryKeyConstraintName: column.primaryKeyConstraintName,
+        })
+    }
+
+    /**
+     * Creates options of the given relations, by property names.
+     */
+    protected createRelationsOptions(
+        relations: RelationMetadata[],
+    ): ObjectLiteral {
+        const options: ObjectLiteral = {}
+        for (const relation of relations) {
+            const cascade = [
+                relation.isCascadeInsert && "insert",
+                relation.isCascadeUpdate && "update",
+                relation.isCascadeRemove && "remove",
+                relation.isCascadeSoftRemove && "soft-remove",
+                relation.isCascadeRecover && "recover",
+            ].filter((operation) => !!operation)
+
+            options[relation.propertyName] = this.omitEmpty({
+                type: relation.relationType,
+                target: relation.inverseEntityMetadata.name,
+                inverseSide: relation.inverseRelation?.propertyName,
+                joinColumn: relation.isWithJoinColumn
+                    ? this.createJoinColumnsOptions(relation.joinColumns)
+                    : undefined,
+                joinTable: relation.isManyToManyOwner
+                    ? {
+                          name: relation.junctionEntityMetadata!.tableName,
+                          joinColumns: relation.joinColumns.map((column) =>
+                              this.createJoinColumnOptions(column),
+                          ),
+                          inverseJoinColumns: relation.inverseJoinColumns.map(
+                              (column) => this.createJoinColumnOptions(column),
+                          ),
+                      }
+                    : undefined,
+                lazy: relation.isLazy || undefined,
+                eager: relation.isEager || undefined,
+                primary: relation.isPrimary || undefined,
+                persistence: relation.persistenceEnabled ? undefined : false,
+                cascade: cascade.length ? cascade : undefined,
+                nullable:
+                    relation.isOwning && !relation.isNullable
+                        ? false
+                        : undefined,
+                onDelete: relation.onDelete,
+                onUpdate: relation.onUpdate,
+                deferrable: relation.deferrable,
+                createForeignKeyConstraints:
+                    relation.createForeignKeyConstraints ? undefined : false,
+                orphanedRowAction:
+                    relation.orphanedRowAction !== "nullify"
+                        ? relation.orphanedRowAction
+                        : undefined,
+                treeParent: relation.isTreeParent || undefined,
+                treeChildren: relation.isTreeChildren || undefined,
+            })
+        }
+        return options
+    }
+
+    /**
+     * Creates options of the given embeddeds, by property names.
+     */
+    protected createEmbeddedsOptions(
+        embeddeds: EmbeddedMetadata[],
+    ): ObjectLiteral {
+        const options: ObjectLiteral = {}
+        for (const embedded of embeddeds) {
+            options[embedded.propertyName] = this.omitEmpty({
+                schema: new Code(this.getEmbeddedName(embedded) + "Schema"),
+                prefix: embedded.customPrefix,
+                array: embedded.isArray || undefined,
+            })
+        }
+        return options
+    }
+
+    /**
+     * Creates options of join columns of a many-to-one or one-to-one relation.
+     */
+    protected createJoinColumnsOptions(
+        columns: ColumnMetadata[],
+    ): ObjectLiteral | ObjectLiteral[] {
+        const options = columns.map((column) =>
+            this.createJoinColumnOptions(column),
+        )
+        return options.length === 1 ? options[0] : options
+    }
+
+    /**
+     * Creates options of the given join column.
+     */
+    protected createJoinColumnOptions(column: ColumnMetadata): ObjectLiteral {
+        return this.omitEmpty({
+            name: column.databaseNameWithoutPrefixes,
+            referencedColumnName: column.referencedColumn?.propertyPath,
+            foreignKeyConstraintName: column.foreignKeyConstraintName,
+        })
+    }
+
+    /**
+     * Gets TypeScript type of a property mapped to the given column.
+     */
+    protected getPropertyType(column: ColumnMetadata): string {
+        let type: string
+        if (column.enum) {
+            type = column.enum.map((value) => JSON.stringify(value)).join(" | ")
+        } else if (typeof column.type === "function") {
+            const name = column.type.name
+            type = ["String", "Number", "Boolean"].includes(name)
+                ? name.toLowerCase()
+                : name === "Object"
+                ? "any"
+                : name
+        } else {
+            const databaseType = column.type.toLowerCase()
+            if (/json/.test(databaseType)) {
+                type = "any"
+            } else if (
+                /bigint|int8|bigserial|decimal|numeric|money|interval/.test(
+                    databaseType,
+                )
+            ) {
+                type = "string"
+            } else if (/int|serial|float|double|real/.test(databaseType)) {
+                type = "number"
+            } else if (/bool/.test(databaseType)) {
+                type = "boolean"
+            } else if (/datetime|timestamp/.test(databaseType)) {
+                type = "Date"
+            } else if (/blob|binary|bytea|image/.test(databaseType)) {
+                type = "Buffer"
+            } else {
+                type = "string"
+            }
+        }
+
+        if (column.isArray || column.type === "simple-array")
+            type = type.indexOf(" | ") !== -1 ? `(${type})[]` : `${type}[]`
+        if (column.isNullable) type += " | null"
+        return type
+    }
+
+    /**
+     * Gets name of the interface and schema of the given embedded.
+     */
+    protected getEmbeddedName(embedded: EmbeddedMetadata): string {
+        return typeof embedded.type === "function"
+            ? embedded.type.name
+            : embedded.type
+    }
+
+    /**
+     * Removes undefined values, empty objects and empty arrays from the given options.
+     */
+    protected omitEmpty(options: ObjectLiteral): ObjectLiteral {
+        const result: ObjectLiteral = {}
+        for (const key of Object.keys(options)) {
+            const value = options[key]
+            if (value === undefined) continue
+            if (Array.isArray(value) && value.length === 0) continue
+            if (
+                value !== null &&
+                value.constructor === Object &&
+                Object.keys(value).length === 0
+            )
+                continue
+
+            result[key] = value
+        }
+        return result
+    }
+
+    /**
+     * Renders the given value as TypeScript source.
+     */
+    protected renderValue(value: any, indentation: string): string {
+        if (value instanceof Code) return value.code
+        if (value instanceof Date) return `new Date(${JSON.stringify(value)})`
+
+        const nestedIndentation = indentation + "    "
+        if (Array.isArray(value)) {
+            if (value.every((item) => typeof item !== "object"))
+                return `[${value
+                    .map((item) => this.renderValue(item, nestedIndentation))
+                    .join(", ")}]`
+
+            return `[\n${value
+                .map(
+                    (item) =>
+                        nestedIndentation +
+                        this.renderValue(item, nestedIndentation) +
+                        ",\n",
+                )
+                .join("")}${indentation}]`
+        }
+        if (value !== null && typeof value === "object") {
+            if (Object.keys(value).length === 0) return "{}"
+
+            return `{\n${Object.keys(value)
+                .map(
+                    (key) =>
+                        `${nestedIndentation}${
+                            /^[A-Za-z_$][\w$]*$/.test(key)
+                                ? key
+                                : JSON.stringify(key)
+                        }: ${this.renderValue(
+                            value[key],
+                            nestedIndentation,
+                        )},\n`,
+                )
+                .join("")}${indentation}}`
+        }
+
+        return JSON.stringify(value)
+    }
+}
@@ -0,0 +1,258 @@
+import { ObjectLiteral } from "../common/ObjectLiteral"
+import { DataSource } from "../data-source/DataSource"
+import { EntityTarget } from "../common/EntityTarget"
+import { ColumnMetadata } from "../metadata/ColumnMetadata"
+import { EmbeddedMetadata } from "../metadata/EmbeddedMetadata"
+import { EntityMetadata } from "../metadata/EntityMetadata"
+import { RelationMetadata } from "../metadata/RelationMetadata"
+
+/**
+ * Options of JSON Schema export.
+ */
+export interface JsonSchemaExporterOptions {
+    /**
+     * URI prepended to identifiers of exported schemas, e.g. "https://example.com/schemas/".
+     * Schema of each entity is identified by "<baseUri><EntityName>.json",
+     * and relations reference schemas of related entities relatively to it.
+     */
+    baseUri?: string
+}
+
+/**
+ * Exports entity metadata as JSON Schema (draft 2020-12), one schema per entity.
+ *
+ * Schemas describe entities as they are serialized to JSON:
+ * dates are strings, and bigint and decimal values are strings as they are returned by drivers.
+ * Columns not selected by default are marked as write only,
+ * and columns generated by the database are marked as read only.
+ */
+export class JsonSchemaExporter {
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(
+        protected connection: DataSource,
+        protected options: JsonSchemaExporterOptions = {},
+    ) {}
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates schemas of all entities, by entity names.
+     */
+    createSchemas(): { [entityName: string]: ObjectLiteral } {
+        const schemas: { [entityName: string]: ObjectLiteral } = {}
+        for (const metadata of this.connection.entityMetadatas) {
+            // junction tables are represented by many-to-many relations
+            if (
+                metadata.tableType === "junction" ||
+                metadata.tableType === "closure-junction"
+            )
+                continue
+
+            schemas[metadata.name] = this.createEntitySchema(metadata)
+        }
+        return schemas
+    }
+
+    /**
+     * Creates schema of the given entity.
+     */
+    createSchema(target: EntityTarget<any>): ObjectLiteral {
+        return this.createEntitySchema(this.connection.getMetadata(target))
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates schema of the entity with the given metadata.
+     */
+    protected createEntitySchema(metadata: EntityMetadata): ObjectLiteral {
+        const schema: ObjectLiteral = {
+            $schema: "https://json-schema.org/draft/2020-12/schema",
+            $id: (this.options.baseUri || "") + this.getSchemaPath(metadata),
+            title: metadata.name,
+        }
+        if (metadata.comment) schema.description = metadata.comment
+
+        return Object.assign(
+            schema,
+            this.createObjectSchema(
+                metadata.columns.filter((column) => !column.embeddedMetadata),
+                metadata.relations.filter(
+                    (relation) => !relation.embeddedMetadata,
+                ),
+                metadata.embeddeds,
+            ),
+        )
+    }
+
+    /**
+     * Creates schema of an object with the given columns, relations and embeddeds.
+     */
+    protected createObjectSchema(
+        columns: ColumnMetadata[],
+        relations: RelationMetadata[],
+        embeddeds: EmbeddedMetadata[],
+    ): ObjectLiteral {
+        const properties: ObjectLiteral = {}
+        const required: string[] = []
+
+        for (const column of columns) {
+            // join columns without own properties are represented by relations
+            if (column.isVirtual) continue
+
+            properties[column.propertyName] = this.createColumnSchema(column)
+            if (this.isRequired(column)) required.push(column.propertyName)
+        }
+        for (const embedded of embeddeds) {
+            const embeddedSchema = this.createObjectSchema(
+                embedded.columns,
+                embedded.relations,
+                embedded.embeddeds,
+            )
+            properties[embedded.propertyName] = embedded.isArray
+                ? { type: "array", items: embeddedSchema }
+                : embeddedSchema
+            if (!embedded.isArray && embeddedSchema.required)
+                required.push(embedded.propertyName)
+        }
+        for (const relation of relations) {
+            properties[relation.propertyName] =
+                this.createRelationSchema(relation)
+        }
+
+        const schema: ObjectLiteral = { type: "object", properties }
+        if (required.length) schema.required = required
+        return schema
+    }
+
+    /**
+     * Creates schema of the given column.
+     */
+    protected createColumnSchema(column: ColumnMetadata): ObjectLiteral {
+        let schema = this.createValueSchema(column)
+        if (column.isArray || column.type === "simple-array")
+            schema = { type: "array", items: schema }
+
+        if (column.isNullable) {
+            if (schema.enum) {
+                schema.enum = [...schema.enum, null]
+            } else if (schema.type) {
+                schema.type = [schema.type, "null"]
+            }
+        }
+
+        if (column.comment) schema.description = column.comment
+        if (
+            column.default !== undefined &&
+            column.default !== null &&
+            typeof column.default !== "function"
+        )
+            schema.default = column.default
+        if (
+            column.isGenerated ||
+            column.isCreateDate ||
+            column.isUpdateDate ||
+            column.isVersion ||
+            column.isTenant ||
+            column.asExpression ||
+            column.isVirtualProperty ||
+            (!column.isInsert && !column.isUpdate)
+        )
+            schema.readOnly = true
+        if (!column.isSelect) schema.writeOnly = true
+
+        return schema
+    }
+
+    /**
+     * Creates schema of a single value of the given column.
+     */
+    protected createValueSchema(column: ColumnMetadata): ObjectLiteral {
+        if (column.enum) return { enum: [...column.enum] }
+
+        const type = this.connection.driver.normalizeType(column).toLowerCase()
+        if (/json/.test(type)) return {}
+        if (/bigint|int8|bigserial/.test(type))
+            return { type: "string", pattern: "^-?\\d+$" }
+        if (/decimal|numeric|money/.test(type))
+            return { type: "string", pattern: this.getDecimalPattern(column) }
+        if (/interval/.test(type)) return { type: "string" }
+        if (/int|serial/.test(type)) return { type: "integer" }
+        if (/float|double|real/.test(type)) return { type: "number" }
+        if (/bool/.test(type)) return { type: "boolean" }
+        if (/datetime|timestamp/.test(type))
+            return { type: "string", format: "date-time" }
+        if (/^date$/.test(type)) return { type: "string", format: "date" }
+        if (/^time/.test(type)) return { type: "string", format: "time" }
+        if (/uuid|uniqueidentifier/.test(type))
+            return { type: "string", format: "uuid" }
+        if (/blob|binary|bytea|image/.test(type))
+            return { type: "string", contentEncoding: "base64" }
+
+        const schema: ObjectLiteral = { type: "string" }
+        if (column.length && /^\d+$/.test(column.length))
+            schema.maxLength = parseInt(column.length)
+        return schema
+    }
+
+    /**
+     * Creates schema of the given relation, referencing schema of the related entity.
+     */
+    protected createRelationSchema(relation: RelationMetadata): ObjectLiteral {
+        const ref = { $ref: this.getSchemaPath(relation.inverseEntityMetadata) }
+        if (relation.isOneToMany || relation.isManyToMany)
+            return { type: "array", items: ref }
+        if (relation.isNullable) return { anyOf: [ref, { type: "null" }] }
+        return ref
+    }
+
+    /**
+     * Checks if value of the given column must be set in a valid entity.
+     * Values which are generated, have a default or are not selected are not required.
+     */
+    protected isRequired(column: ColumnMetadata): boolean {
+        return (
+            !column.isNullable &&
+            column.isSelect &&
+            column.default === undefined &&
+            !column.isGenerated &&
+            !column.isCreateDate &&
+            !column.isUpdateDate &&
+            !column.isDeleteDate &&
+            !column.isVersion &&
+            !column.isTenant &&
+            !column.isDiscriminator &&
+            !column.isTreeLevel &&
+            !column.asExpression &&
+            !column.isVirtualProperty
+        )
+    }
+
+    /**
+     * Gets pattern of decimal values with precision and scale of the given column.
+     */
+    protected getDecimalPattern(column: ColumnMetadata): string {
+        if (column.precision === undefined || column.precision === null)
+            return "^-?\\d+(\\.\\d+)?$"
+
+        const scale = column.scale || 0
+        const integerDigits = Math.max(column.precision - scale, 1)
+        return scale > 0
+            ? `^-?\\d{1,${integerDigits}}(\\.\\d{1,${scale}})?$`
+            : `^-?\\d{1,${integerDigits}}$`
+    }
+
+    /**
+     * Gets path of the schema of the given entity, relative to the base URI.
+     */
+    protected getSchemaPath(metadata: EntityMetadata): string {
+        return metadata.name + ".json"
+    }
+}
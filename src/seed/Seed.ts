@@ -0,0 +1,54 @@
+import { SeederInterface } from "./SeederInterface"
+
+/**
+ * Represents entity of the executed seed in the database.
+ */
+export class Seed {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Seed id.
+     * Indicates order of the executed seeds.
+     */
+    id: number | undefined
+
+    /**
+     * Timestamp of the seed.
+     */
+    timestamp: number
+
+    /**
+     * Name of the seed (class name).
+     */
+    name: string
+
+    /**
+     * Seeder instance that needs to be run.
+     */
+    instance?: SeederInterface
+
+    /**
+     * Whether to run this seed within a transaction
+     */
+    transaction?: boolean
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(
+        id: number | undefined,
+        timestamp: number,
+        name: string,
+        instance?: SeederInterface,
+        transaction?: boolean,
+    ) {
+        this.id = id
+        this.timestamp = timestamp
+        this.name = name
+        this.instance = instance
+        this.transaction = transaction
+    }
+}
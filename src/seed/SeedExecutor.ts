@@ -0,0 +1,355 @@
+import { DataSource } from "../data-source/DataSource"
+import { Seed } from "./Seed"
+import { QueryRunner } from "../query-runner/QueryRunner"
+import { TypeORMError } from "../error/TypeORMError"
+import { ExecutionHistoryTable } from "../migration/ExecutionHistoryTable"
+import { TransactionModeUtils } from "../util/TransactionModeUtils"
+
+/**
+ * Executes seeders and keeps track of the one-time seeds that were already applied.
+ */
+export class SeedExecutor {
+    // -------------------------------------------------------------------------
+    // Public Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Indicates how seeders should be run in transactions.
+     *   all: all seeders are run in a single transaction
+     *   none: all seeders are run without a transaction
+     *   each: each seeder is run in a separate transaction
+     */
+    transaction: "all" | "none" | "each" = "all"
+
+    /**
+     * Option to fake-run seeders, adding them to the executed seeds table,
+     * but not actually running them. Useful when data was already seeded
+     * manually or by another application.
+     */
+    fake: boolean
+
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Table keeping track of executed one-time seeds.
+     */
+    protected readonly seedsHistory: ExecutionHistoryTable
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(
+        protected connection: DataSource,
+        protected queryRunner?: QueryRunner,
+    ) {
+        this.seedsHistory = new ExecutionHistoryTable(
+            connection,
+            connection.options.seedsTableName || "seeds",
+        )
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Returns an array of all seeds.
+     */
+    public async getAllSeeds(): Promise<Seed[]> {
+        return Promise.resolve(this.getSeeds())
+    }
+
+    /**
+     * Returns an array of all executed one-time seeds.
+     */
+    public async getExecutedSeeds(): Promise<Seed[]> {
+        return this.withQueryRunner(async (queryRunner) => {
+            await this.createSeedsTableIfNotExist(queryRunner)
+
+            return await this.loadExecutedSeeds(queryRunner)
+        })
+    }
+
+    /**
+     * Returns an array of all seeds that will be run on the next seeds run.
+     * These are one-time seeds that were not executed yet and all seeds that run every time.
+     */
+    public async getPendingSeeds(): Promise<Seed[]> {
+        const allSeeds = await this.getAllSeeds()
+        const executedSeeds = await this.getExecutedSeeds()
+
+        return this.filterPendingSeeds(allSeeds, executedSeeds)
+    }
+
+    /**
+     * Lists all seeds and whether they have been executed or not.
+     * Returns true if there are one-time seeds that were not executed yet.
+     */
+    async showSeeds(): Promise<boolean> {
+        return this.withQueryRunner(async (queryRunner) => {
+            let hasUnappliedSeeds = false
+
+            // create seeds table if its not created yet
+            await this.createSeedsTableIfNotExist(queryRunner)
+
+            // get all seeds that are executed and saved in the database
+            const executedSeeds = await this.loadExecutedSeeds(queryRunner)
+
+            // get all user's seeders in the source code
+            const allSeeds = this.getSeeds()
+
+            for (const seed of allSeeds) {
+                const executedSeed = executedSeeds.find(
+                    (executedSeed) => executedSeed.name === seed.name,
+                )
+
+                if (seed.instance?.once === false) {
+                    this.connection.logger.logSchemaBuild(
+                        `[~] ${seed.name} (runs every time)`,
+                    )
+                } else if (executedSeed) {
+                    this.connection.logger.logSchemaBuild(
+                        `[X] ${executedSeed.id} ${seed.name}`,
+                    )
+                } else {
+                    hasUnappliedSeeds = true
+                    this.connection.logger.logSchemaBuild(`[ ] ${seed.name}`)
+                }
+            }
+
+            return hasUnappliedSeeds
+        })
+    }
+
+    /**
+     * Executes all pending seeds. Pending seeds are one-time seeds that were not executed yet
+     * and seeds that are run every time.
+     */
+    async executePendingSeeds(): Promise<Seed[]> {
+        return this.withQueryRunner((queryRunner) =>
+            this.executeSeeds(queryRunner),
+        )
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Executes all pending seeds using the given query runner.
+     */
+    protected async executeSeeds(queryRunner: QueryRunner): Promise<Seed[]> {
+        // create seeds table if it's not created yet
+        await this.createSeedsTableIfNotExist(queryRunner)
+
+        // get all seeds that are executed and saved in the database
+        const executedSeeds = await this.loadExecutedSeeds(queryRunner)
+
+        // get all user's seeders in the source code
+        const allSeeds = this.getSeeds()
+
+        // variable to store all seeds we did successfully
+        const successSeeds: Seed[] = []
+
+        // find all seeds that needs to be executed
+        const pendingSeeds = this.filterPendingSeeds(allSeeds, executedSeeds)
+
+        // if no seeds are pending then nothing to do here
+        if (!pendingSeeds.length) {
+            this.connection.logger.logSchemaBuild(`No seeds are pending`)
+            return []
+        }
+
+        // log information about seeds execution
+        this.connection.logger.logSchemaBuild(
+            `${executedSeeds.length} seeds are already loaded in the database.`,
+        )
+        this.connection.logger.logSchemaBuild(
+            `${allSeeds.length} seeds were found in the source code.`,
+        )
+        this.connection.logger.logSchemaBuild(
+            `${pendingSeeds.length} seeds must be executed.`,
+        )
+
+        try {
+            TransactionModeUtils.applyTransactionMode(
+                pendingSeeds,
+                this.transaction,
+                "seed",
+            )
+        } catch (error) {
+            this.connection.logger.log(
+                "warn",
+                `Seeds failed, error: ${error.message}`,
+            )
+            throw error
+        }
+
+        // start transaction if its not started yet
+        let transactionStartedByUs = false
+        if (this.transaction === "all" && !queryRunner.isTransactionActive) {
+            await queryRunner.startTransaction()
+            transactionStartedByUs = true
+        }
+
+        // run all pending seeds in a sequence
+        try {
+            for (const seed of pendingSeeds) {
+                const isOnce = seed.instance!.once !== false
+
+                if (this.fake) {
+                    // directly insert seed record into the database if it is fake
+                    if (isOnce) await this.insertExecutedSeed(queryRunner, seed)
+
+                    // nothing else needs to be done, continue to next seed
+                    continue
+                }
+
+                let seedTransactionStartedByUs = false
+                if (seed.transaction && !queryRunner.isTransactionActive) {
+                    await queryRunner.startTransaction()
+                    seedTransactionStartedByUs = transactionStartedByUs = true
+                }
+
+                try {
+                    await seed.instance!.run(queryRunner)
+                } catch (error) {
+                    // informative log about seed failure
+                    this.connection.logger.log(
+                        "warn",
+                        `Seed "${seed.name}" failed, error: ${error?.message}`,
+                    )
+                    throw error
+                }
+
+                // now when seed is executed we need to insert record about it into the database
+                if (isOnce) await this.insertExecutedSeed(queryRunner, seed)
+
+                // commit transaction if we started it
+                if (seedTransactionStartedByUs) {
+                    await queryRunner.commitTransaction()
+                    transactionStartedByUs = false
+                }
+
+                successSeeds.push(seed)
+                this.connection.logger.logSchemaBuild(
+                    `Seed ${seed.name} has been executed successfully.`,
+                )
+            }
+
+            // commit transaction if we started it
+            if (this.transaction === "all" && transactionStartedByUs) {
+                await queryRunner.commitTransaction()
+            }
+        } catch (err) {
+            // rollback transaction if we started it
+            if (transactionStartedByUs) {
+                try {
+                    // we throw original error even if rollback thrown an error
+                    await queryRunner.rollbackTransaction()
+                } catch (rollbackError) {}
+            }
+
+            throw err
+        }
+        return successSeeds
+    }
+
+    /**
+     * Creates table "seeds" that will store information about executed one-time seeds.
+     */
+    protected async createSeedsTableIfNotExist(
+        queryRunner: QueryRunner,
+    ): Promise<void> {
+        await this.seedsHistory.createIfNotExist(queryRunner)
+    }
+
+    /**
+     * Loads all seeds that were executed and saved into the database (sorts by id).
+     */
+    protected async loadExecutedSeeds(
+        queryRunner: QueryRunner,
+    ): Promise<Seed[]> {
+        return this.seedsHistory.load(
+            queryRunner,
+            (id, timestamp, name) => new Seed(id, timestamp, name),
+        )
+    }
+
+    /**
+     * Gets all seeds that setup for this connection.
+     */
+    protected getSeeds(): Seed[] {
+        const seeds = this.connection.seeds.map((seeder) => {
+            const seederClassName =
+                seeder.name || (seeder.constructor as any).name
+            const seedTimestamp = parseInt(seederClassName.substr(-13), 10)
+            if (!seedTimestamp || isNaN(seedTimestamp)) {
+                throw new TypeORMError(
+                    `${seederClassName} seeder name is wrong. Seeder class name should have a JavaScript timestamp appended.`,
+                )
+            }
+
+            return new Seed(undefined, seedTimestamp, seederClassName, seeder)
+        })
+
+        const seedNames = seeds.map((seed) => seed.name)
+        const duplicates = Array.from(
+            new Set(
+                seedNames.filter(
+                    (seedName, index) => seedNames.indexOf(seedName) < index,
+                ),
+            ),
+        )
+        if (duplicates.length > 0) {
+            throw new TypeORMError(`Duplicate seeds: ${duplicates.join(", ")}`)
+        }
+
+        // sort them by timestamp
+        return seeds.sort((a, b) => a.timestamp - b.timestamp)
+    }
+
+    /**
+     * Filters seeds that were not executed yet or are run every time.
+     */
+    protected filterPendingSeeds(
+        allSeeds: Seed[],
+        executedSeeds: Seed[],
+    ): Seed[] {
+        return allSeeds.filter(
+            (seed) =>
+                seed.instance?.once === false ||
+                !executedSeeds.find(
+                    (executedSeed) => executedSeed.name === seed.name,
+                ),
+        )
+    }
+
+    /**
+     * Inserts new executed seed's data into seeds table.
+     */
+    protected async insertExecutedSeed(
+        queryRunner: QueryRunner,
+        seed: Seed,
+    ): Promise<void> {
+        await this.seedsHistory.insert(queryRunner, seed)
+    }
+
+    protected async withQueryRunner<T extends any>(
+        callback: (queryRunner: QueryRunner) => T | Promise<T>,
+    ) {
+        const queryRunner =
+            this.queryRunner || this.connection.createQueryRunner()
+
+        try {
+            return await callback(queryRunner)
+        } finally {
+            if (!this.queryRunner) {
+                await queryRunner.release()
+            }
+        }
+    }
+}
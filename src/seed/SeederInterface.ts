@@ -0,0 +1,32 @@
+import { QueryRunner } from "../query-runner/QueryRunner"
+
+/**
+ * Seeders should implement this interface and all its methods.
+ */
+export interface SeederInterface {
+    /**
+     * Optional seeder name, defaults to class name.
+     */
+    name?: string
+
+    /**
+     * Optional flag to determine whether seeder is run only once.
+     * One-time seeders are saved into the seeds table and are not re-applied on the next runs,
+     * other seeders are run every time seeds are run.
+     * Defaults to `true`.
+     */
+    once?: boolean
+
+    /**
+     * Optional flag to determine whether to run the seeder in a transaction or not.
+     * Can only be used when `seedsTransactionMode` is either "each" or "none"
+     * Defaults to `true` when `seedsTransactionMode` is "each"
+     * Defaults to `false` when `seedsTransactionMode` is "none"
+     */
+    transaction?: boolean
+
+    /**
+     * Run the seeder.
+     */
+    run(queryRunner: QueryRunner): Promise<any>
+}
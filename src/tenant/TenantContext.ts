@@ -0,0 +1,67 @@
+import { LazyAsyncLocalStorage } from "../platform/LazyAsyncLocalStorage"
+
+/**
+ * Tenant set for the asynchronous operations started in a callback.
+ */
+interface TenantStore {
+    /**
+     * Id of the current tenant.
+     */
+    tenantId?: any
+
+    /**
+     * Indicates if queries are not filtered by tenant.
+     */
+    allTenants: boolean
+}
+
+/**
+ * Keeps the tenant whose data is queried by the code running in its callbacks,
+ * including asynchronous operations started in them.
+ * Entities with a tenant column are filtered by the current tenant,
+ * and inserted entities get its id.
+ */
+export class TenantContext {
+    // -------------------------------------------------------------------------
+    // Protected Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Storage of the current tenant.
+     */
+    protected storage = new LazyAsyncLocalStorage<TenantStore>()
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Runs the given callback with the given tenant set as the current one.
+     */
+    run<R>(tenantId: any, callback: () => R): R {
+        return this.storage.run({ tenantId, allTenants: false }, callback)
+    }
+
+    /**
+     * Runs the given callback without filtering queries by tenant,
+     * e.g. to run administrative queries across all tenants.
+     */
+    runWithoutTenant<R>(callback: () => R): R {
+        return this.storage.run({ allTenants: true }, callback)
+    }
+
+    /**
+     * Gets id of the current tenant.
+     */
+    getTenantId(): any | undefined {
+        const tenantId = this.storage.getStore()?.tenantId
+        return tenantId === null ? undefined : tenantId
+    }
+
+    /**
+     * Checks if queries are run without filtering by tenant.
+     */
+    isRunningWithoutTenant(): boolean {
+        return this.storage.getStore()?.allTenants === true
+    }
+}
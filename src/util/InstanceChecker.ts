@@ -19,8 +19,12 @@ import type { TableColumn } from "../schema-builder/table/TableColumn"
 import type { TableExclusion } from "../schema-builder/table/TableExclusion"
 import type { TableForeignKey } from "../schema-builder/table/TableForeignKey"
 import type { TableIndex } from "../schema-builder/table/TableIndex"
+import type { TablePartition } from "../schema-builder/table/TablePartition"
+import type { TableTrigger } from "../schema-builder/table/TableTrigger"
+import type { TableSequence } from "../schema-builder/table/TableSequence"
 import type { TableUnique } from "../schema-builder/table/TableUnique"
 import type { View } from "../schema-builder/view/View"
+import type { DatabaseFunction } from "../schema-builder/function/DatabaseFunction"
 import type { NotBrackets } from "../query-builder/NotBrackets"
 import type { EntityMetadata } from "../metadata/EntityMetadata"
 import type { ColumnMetadata } from "../metadata/ColumnMetadata"
@@ -118,12 +122,24 @@ export class InstanceChecker {
     static isTableIndex(obj: unknown): obj is TableIndex {
         return this.check(obj, "TableIndex")
     }
+    static isTablePartition(obj: unknown): obj is TablePartition {
+        return this.check(obj, "TablePartition")
+    }
+    static isTableTrigger(obj: unknown): obj is TableTrigger {
+        return this.check(obj, "TableTrigger")
+    }
+    static isTableSequence(obj: unknown): obj is TableSequence {
+        return this.check(obj, "TableSequence")
+    }
     static isTableUnique(obj: unknown): obj is TableUnique {
         return this.check(obj, "TableUnique")
     }
     static isView(obj: unknown): obj is View {
         return this.check(obj, "View")
     }
+    static isDatabaseFunction(obj: unknown): obj is DatabaseFunction {
+        return this.check(obj, "DatabaseFunction")
+    }
     static isDataSource(obj: unknown): obj is DataSource {
         return this.check(obj, "DataSource")
     }
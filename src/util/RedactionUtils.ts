@@ -0,0 +1,6 @@
+export class RedactionUtils {
+    /**
+     * Value logged instead of a sensitive parameter by default.
+     */
+    static readonly defaultMask = "[REDACTED]"
+}
@@ -0,0 +1,50 @@
+import { Migration } from "../migration/Migration"
+import { Seed } from "../seed/Seed"
+import { ForbiddenTransactionModeOverrideError } from "../error/ForbiddenTransactionModeOverrideError"
+
+export class TransactionModeUtils {
+    /**
+     * Sets if each of the given migrations or seeds is run in its own transaction,
+     * by the global transaction mode and the transaction mode of its instance.
+     *
+     * When transaction mode is "each" the default is to run in a transaction.
+     * When transaction mode is "none" or "all" the default is to not run in a transaction,
+     * since in "all" mode they are already running in one single transaction.
+     */
+    static applyTransactionMode(
+        items: (Migration | Seed)[],
+        transaction: "all" | "none" | "each",
+        type: "migration" | "seed",
+    ): void {
+        if (transaction === "all") {
+            // If we desire to run all of them in a single transaction
+            // but one of them explicitly overrides the transaction mode
+            // then we have to fail since we cannot properly resolve that intent
+            // In theory we could support overrides that are set to `true`,
+            // however to keep the interface more rigid, we fail those too
+            const itemsOverridingTransactionMode = items.filter(
+                (item) => !(item.instance?.transaction === undefined),
+            )
+
+            if (itemsOverridingTransactionMode.length > 0)
+                throw new ForbiddenTransactionModeOverrideError(
+                    itemsOverridingTransactionMode,
+                    type,
+                )
+        }
+
+        const txModeDefault = {
+            each: true,
+            none: false,
+            all: false,
+        }[transaction]
+
+        for (const item of items) {
+            if (item.instance) {
+                const instanceTx = item.instance.transaction
+                item.transaction =
+                    instanceTx === undefined ? txModeDefault : instanceTx
+            }
+        }
+    }
+}
@@ -0,0 +1,207 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { User } from "./entity/User"
+
+describe("cache > tags", () => {
+    const createUser = (firstName: string, isAdmin: boolean) => {
+        const user = new User()
+        user.firstName = firstName
+        user.lastName = "Saw"
+        user.isAdmin = isAdmin
+        return user
+    }
+
+    for (const type of ["memory", "database"] as const) {
+        describe(`${type} cache`, () => {
+            let connections: DataSource[]
+            before(
+                async () =>
+                    (connections = await createTestingConnections({
+                        entities: [__dirname + "/entity/*{.js,.ts}"],
+                        enabledDrivers: [
+                            "sqlite",
+                            "better-sqlite3",
+                            "sqljs",
+                            "postgres",
+                        ],
+                        cache: { type, autoInvalidate: true, duration: 60000 },
+                    })),
+            )
+            beforeEach(async () => {
+                await reloadTestingDatabases(connections)
+                // memory cache is not cleared together with the database
+                await Promise.all(
+                    connections.map((connection) =>
+                        connection.queryResultCache!.clear(),
+                    ),
+                )
+            })
+            after(() => closeTestingConnections(connections))
+
+            it("should invalidate cached results using changed tables", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        await connection.manager.save(
+                            createUser("Timber", true),
+                        )
+
+                        const admins1 = await connection
+                            .createQueryBuilder(User, "user")
+                            .where("user.isAdmin = :isAdmin", { isAdmin: true })
+                            .cache(true)
+                            .getMany()
+                        expect(admins1.length).to.be.equal(1)
+
+                        await connection.manager.save(createUser("Umed", true))
+
+                        const admins2 = await connection
+                            .createQueryBuilder(User, "user")
+                            .where("user.isAdmin = :isAdmin", { isAdmin: true })
+                            .cache(true)
+                            .getMany()
+                        expect(admins2.length).to.be.equal(2)
+
+                        await connection
+                            .getRepository(User)
+                            .update({ firstName: "Umed" }, { isAdmin: false })
+
+                        const admins3 = await connection
+                            .getRepository(User)
+                            .find({
+                                where: { isAdmin: true },
+                                cache: true,
+                            })
+                        expect(admins3.length).to.be.equal(1)
+                    }),
+                ))
+
+            it("should invalidate cached results by explicit tags", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        await connection.manager.save(
+                            createUser("Timber", true),
+                        )
+
+                        const users1 = await connection
+                            .createQueryBuilder(User, "user")
+                            .cache(true)
+                            .cacheTags(["admins"])
+                            .getMany()
+                        expect(users1.length).to.be.equal(1)
+
+                        // insert without triggering persistence events
+                        await connection
+                            .createQueryBuilder()
+                            .insert()
+                            .into(User)
+                            .values(createUser("Alex", false))
+                            .callListeners(false)
+                            .execute()
+
+                        const users2 = await connection
+                            .createQueryBuilder(User, "user")
+                            .cache(true)
+                            .cacheTags(["admins"])
+                            .getMany()
+                        expect(users2.length).to.be.equal(1)
+
+                        await connection.queryResultCache!.invalidateTags!([
+                            "admins",
+                        ])
+
+                        const users3 = await connection
+                            .createQueryBuilder(User, "user")
+                            .cache(true)
+                            .cacheTags(["admins"])
+                            .getMany()
+                        expect(users3.length).to.be.equal(2)
+                    }),
+                ))
+
+            it("should invalidate cached results after transaction is committed", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const findAll = () =>
+                            connection
+                                .createQueryBuilder(User, "user")
+                                .cache(true)
+                                .getMany()
+
+                        expect((await findAll()).length).to.be.equal(0)
+
+                        await connection.transaction(async (manager) => {
+                            await manager.save(createUser("Timber", true))
+                            // cache is not invalidated until commit
+                            expect((await findAll()).length).to.be.equal(0)
+                        })
+
+                        expect((await findAll()).length).to.be.equal(1)
+                    }),
+                ))
+        })
+    }
+
+    describe("memory cache size", () => {
+        let connections: DataSource[]
+        before(
+            async () =>
+                (connections = await createTestingConnections({
+                    entities: [__dirname + "/entity/*{.js,.ts}"],
+                    enabledDrivers: ["sqlite", "better-sqlite3", "sqljs"],
+                    cache: { type: "memory", maxEntries: 2, duration: 60000 },
+                })),
+        )
+        beforeEach(() => reloadTestingDatabases(connections))
+        after(() => closeTestingConnections(connections))
+
+        it("should remove least recently used results", () =>
+            Promise.all(
+                connections.map(async (connection) => {
+                    const cache = connection.queryResultCache!
+                    const store = (identifier: string) =>
+                        cache.storeInCache(
+                            {
+                                identifier,
+                                time: new Date().getTime(),
+                                duration: 60000,
+                                result: "[]",
+                            },
+                            undefined,
+                        )
+
+                    await store("first")
+                    await store("second")
+                    await cache.getFromCache({
+                        identifier: "first",
+                        duration: 60000,
+                    })
+                    await store("third")
+
+                    expect(
+                        await cache.getFromCache({
+                            identifier: "first",
+                            duration: 60000,
+                        }),
+                    ).not.to.be.undefined
+                    expect(
+                        await cache.getFromCache({
+                            identifier: "second",
+                            duration: 60000,
+                        }),
+                    ).to.be.undefined
+                    expect(
+                        await cache.getFromCache({
+                            identifier: "third",
+                            duration: 60000,
+                        }),
+                    ).not.to.be.undefined
+                }),
+            ))
+    })
+})
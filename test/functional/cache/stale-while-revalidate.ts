@@ -0,0 +1,202 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import sinon from "sinon"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+    sleep,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { User } from "./entity/User"
+
+describe("cache > stale-while-revalidate", () => {
+    const createUser = (firstName: string) => {
+        const user = new User()
+        user.firstName = firstName
+        user.lastName = "Saw"
+        user.isAdmin = true
+        return user
+    }
+
+    for (const type of ["memory", "database"] as const) {
+        describe(`${type} cache`, () => {
+            let connections: DataSource[]
+            before(
+                async () =>
+                    (connections = await createTestingConnections({
+                        entities: [__dirname + "/entity/*{.js,.ts}"],
+                        enabledDrivers: [
+                            "sqlite",
+                            "better-sqlite3",
+                            "sqljs",
+                            "postgres",
+                        ],
+                        cache: { type },
+                    })),
+            )
+            beforeEach(async () => {
+                await reloadTestingDatabases(connections)
+                // memory cache is not cleared together with the database
+                await Promise.all(
+                    connections.map((connection) =>
+                        connection.queryResultCache!.clear(),
+                    ),
+                )
+            })
+            after(() => closeTestingConnections(connections))
+
+            it("should return stale result while a single caller refreshes it", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const findAll = () =>
+                            connection
+                                .createQueryBuilder(User, "user")
+                                .cache("stale-users", 100, 60000)
+                                .getMany()
+
+                        await connection.manager.save(createUser("Timber"))
+                        expect((await findAll()).length).to.be.equal(1)
+
+                        await connection.manager.save(createUser("Umed"))
+                        await sleep(200)
+
+                        const storeInCache = sinon.spy(
+                            connection.queryResultCache!,
+                            "storeInCache",
+                        )
+                        try {
+                            const results = await Promise.all([
+                                findAll(),
+                                findAll(),
+                                findAll(),
+                            ])
+                            expect(
+                                results.map((users) => users.length).sort(),
+                            ).to.be.eql([1, 1, 2])
+                            expect(storeInCache.callCount).to.be.equal(1)
+                        } finally {
+                            storeInCache.restore()
+                        }
+
+                        expect((await findAll()).length).to.be.equal(2)
+                    }),
+                ))
+
+            it("should refresh stale result again after its refresh has failed", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const findAll = () =>
+                            connection
+                                .createQueryBuilder(User, "user")
+                                .cache("failed-users", 100, 60000)
+                                .getMany()
+
+                        await connection.manager.save(createUser("Timber"))
+                        expect((await findAll()).length).to.be.equal(1)
+
+                        await connection.manager.save(createUser("Umed"))
+                        await sleep(200)
+
+                        const storeInCache = sinon
+                            .stub(connection.queryResultCache!, "storeInCache")
+                            .rejects(new Error("Cache is not available"))
+                        try {
+                            await expect(findAll()).to.be.rejectedWith(
+                                "Cache is not available",
+                            )
+                        } finally {
+                            storeInCache.restore()
+                        }
+
+                        // stale result is not returned as a fresh one
+                        expect((await findAll()).length).to.be.equal(2)
+                    }),
+                ))
+
+            it("should refresh result expired longer than stale-while-revalidate window", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const findAll = () =>
+                            connection.getRepository(User).find({
+                                cache: {
+                                    id: "expired-users",
+                                    milliseconds: 100,
+                                    staleWhileRevalidate: 100,
+                                },
+                            })
+
+                        await connection.manager.save(createUser("Timber"))
+                        expect((await findAll()).length).to.be.equal(1)
+
+                        await connection.manager.save(createUser("Umed"))
+                        await sleep(300)
+
+                        expect((await findAll()).length).to.be.equal(2)
+                    }),
+                ))
+
+            it("should load result only once for concurrent callers", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        await connection.manager.save(createUser("Timber"))
+
+                        const storeInCache = sinon.spy(
+                            connection.queryResultCache!,
+                            "storeInCache",
+                        )
+                        try {
+                            const results = await Promise.all(
+                                [1, 2, 3].map(() =>
+                                    connection
+                                        .createQueryBuilder(User, "user")
+                                        .cache(60000)
+                                        .getMany(),
+                                ),
+                            )
+                            results.forEach((users) =>
+                                expect(users.length).to.be.equal(1),
+                            )
+                            expect(storeInCache.callCount).to.be.equal(1)
+                        } finally {
+                            storeInCache.restore()
+                        }
+                    }),
+                ))
+
+            it("should not share refreshed results with queries in transaction", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const findAll = (manager = connection.manager) =>
+                            manager
+                                .createQueryBuilder(User, "user")
+                                .cache("transaction-users", 60000)
+                                .getMany()
+
+                        await connection.manager.save(createUser("Timber"))
+
+                        const storeInCache = sinon.spy(
+                            connection.queryResultCache!,
+                            "storeInCache",
+                        )
+                        try {
+                            await connection.manager.transaction(
+                                async (manager) => {
+                                    await manager.save(createUser("Umed"))
+
+                                    const [, users] = await Promise.all([
+                                        findAll(),
+                                        findAll(manager),
+                                    ])
+                                    expect(users.length).to.be.equal(2)
+                                },
+                            )
+                            expect(storeInCache.callCount).to.be.equal(2)
+                        } finally {
+                            storeInCache.restore()
+                        }
+                    }),
+                ))
+        })
+    }
+})
@@ -0,0 +1,219 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import sinon from "sinon"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { Author } from "./entity/Author"
+import { Book } from "./entity/Book"
+
+describe("entity cache", () => {
+    // changes the author without evicting it from the entity cache
+    const renameSilently = (connection: DataSource, id: number, name: string) =>
+        connection
+            .createQueryBuilder()
+            .update(Author)
+            .set({ name })
+            .where({ id })
+            .evictEntityCache(false)
+            .execute()
+
+    for (const type of ["memory", "database"] as const) {
+        describe(`${type} cache`, () => {
+            let connections: DataSource[]
+            before(
+                async () =>
+                    (connections = await createTestingConnections({
+                        entities: [__dirname + "/entity/*{.js,.ts}"],
+                        enabledDrivers: [
+                            "sqlite",
+                            "better-sqlite3",
+                            "sqljs",
+                            "postgres",
+                        ],
+                        cache: { type, duration: 60000 },
+                    })),
+            )
+            beforeEach(async () => {
+                await reloadTestingDatabases(connections)
+                await Promise.all(
+                    connections.map((connection) =>
+                        connection.queryResultCache!.clear(),
+                    ),
+                )
+            })
+            after(() => closeTestingConnections(connections))
+
+            it("should load entities by primary keys from the cache", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const repository = connection.getRepository(Author)
+                        const author = await repository.save({ name: "Umed" })
+
+                        const loaded1 = await repository.findOneBy({
+                            id: author.id,
+                        })
+                        expect(loaded1!.name).to.be.equal("Umed")
+
+                        await renameSilently(connection, author.id, "Timber")
+
+                        const loaded2 = await repository.findOneBy({
+                            id: author.id,
+                        })
+                        expect(loaded2!.name).to.be.equal("Umed")
+
+                        const loaded3 = await repository.findByIds([author.id])
+                        expect(loaded3.map((author) => author.name)).to.be.eql([
+                            "Umed",
+                        ])
+
+                        // other conditions are not served from the entity cache
+                        const loaded4 = await repository.findOneBy({
+                            name: "Timber",
+                        })
+                        expect(loaded4!.id).to.be.equal(author.id)
+                    }),
+                ))
+
+            it("should load only entities missing in the cache when finding by ids", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const repository = connection.getRepository(Author)
+                        const [first, second, third] = await repository.save([
+                            { name: "Umed" },
+                            { name: "Timber" },
+                            { name: "Dmitry" },
+                        ])
+                        await repository.findOneBy({ id: first.id })
+
+                        await renameSilently(connection, first.id, "Alex")
+                        await renameSilently(connection, second.id, "Alex")
+
+                        const queryRunner = connection.createQueryRunner()
+                        const query = sinon.spy(queryRunner, "query")
+                        const loaded = await queryRunner.manager.findByIds(
+                            Author,
+                            [first.id, second.id, third.id],
+                        )
+                        const authorQueries = query
+                            .getCalls()
+                            .filter(
+                                (call) =>
+                                    call.args[0].startsWith("SELECT") &&
+                                    call.args[0].includes(
+                                        connection.driver.escape("author"),
+                                    ),
+                            )
+                        await queryRunner.release()
+
+                        expect(
+                            loaded
+                                .map((author) => [author.id, author.name])
+                                .sort(),
+                        ).to.be.eql([
+                            [first.id, "Umed"],
+                            [second.id, "Alex"],
+                            [third.id, "Dmitry"],
+                        ])
+                        authorQueries.length.should.be.equal(1)
+                    }),
+                ))
+
+            it("should evict entities changed by persistence", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const repository = connection.getRepository(Author)
+                        const author = await repository.save({ name: "Umed" })
+                        await repository.findOneBy({ id: author.id })
+
+                        author.name = "Timber"
+                        await repository.save(author)
+                        const loaded1 = await repository.findOneBy({
+                            id: author.id,
+                        })
+                        expect(loaded1!.name).to.be.equal("Timber")
+
+                        await repository.remove(loaded1!)
+                        const loaded2 = await repository.findOneBy({
+                            id: author.id,
+                        })
+                        expect(loaded2).to.be.null
+                    }),
+                ))
+
+            it("should evict entities changed by query builder", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const repository = connection.getRepository(Author)
+                        const author = await repository.save({ name: "Umed" })
+                        await repository.findOneBy({ id: author.id })
+
+                        await repository.update(author.id, { name: "Timber" })
+                        const loaded1 = await repository.findOneBy({
+                            id: author.id,
+                        })
+                        expect(loaded1!.name).to.be.equal("Timber")
+
+                        await repository.delete(author.id)
+                        const loaded2 = await repository.findOneBy({
+                            id: author.id,
+                        })
+                        expect(loaded2).to.be.null
+                    }),
+                ))
+
+            it("should evict entities removed by foreign key cascades", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const author = await connection
+                            .getRepository(Author)
+                            .save({ name: "Umed" })
+                        const book = await connection
+                            .getRepository(Book)
+                            .save({ title: "About TypeORM", author })
+
+                        const loaded1 = await connection
+                            .getRepository(Book)
+                            .findOneBy({ id: book.id })
+                        expect(loaded1).not.to.be.null
+
+                        await connection.getRepository(Author).remove(author)
+
+                        const loaded2 = await connection
+                            .getRepository(Book)
+                            .findOneBy({ id: book.id })
+                        expect(loaded2).to.be.null
+                    }),
+                ))
+
+            it("should evict entities changed in transaction after commit", () =>
+                Promise.all(
+                    connections.map(async (connection) => {
+                        const repository = connection.getRepository(Author)
+                        const author = await repository.save({ name: "Umed" })
+                        await repository.findOneBy({ id: author.id })
+
+                        await connection.transaction(async (manager) => {
+                            await manager.update(Author, author.id, {
+                                name: "Timber",
+                            })
+
+                            // entity cache is not used inside transactions
+                            const loaded = await manager.findOneBy(Author, {
+                                id: author.id,
+                            })
+                            expect(loaded!.name).to.be.equal("Timber")
+                        })
+
+                        const loaded = await repository.findOneBy({
+                            id: author.id,
+                        })
+                        expect(loaded!.name).to.be.equal("Timber")
+                    }),
+                ))
+        })
+    }
+})
@@ -0,0 +1,17 @@
+import { Entity } from "../../../../src/decorator/entity/Entity"
+import { PrimaryGeneratedColumn } from "../../../../src/decorator/columns/PrimaryGeneratedColumn"
+import { Column } from "../../../../src/decorator/columns/Column"
+import { ManyToOne } from "../../../../src/decorator/relations/ManyToOne"
+import { Author } from "./Author"
+
+@Entity({ cache: true })
+export class Book {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column()
+    title: string
+
+    @ManyToOne(() => Author, { onDelete: "CASCADE" })
+    author: Author
+}
@@ -0,0 +1,294 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { EntityIntrospector } from "../../../src/commands/EntityIntrospector"
+import { Post } from "./entity/Post"
+import { User } from "./entity/User"
+
+describe("entity introspector", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [__dirname + "/entity/*{.js,.ts}"],
+                enabledDrivers: ["sqljs"],
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    const generate = async (
+        connection: DataSource,
+        options?: { include?: string[]; exclude?: string[] },
+    ) => {
+        const entities = await new EntityIntrospector(
+            connection,
+            options,
+        ).generate()
+        const contents: { [className: string]: string } = {}
+        entities.forEach((entity) => {
+            expect(entity.fileName).to.be.equal(entity.className + ".ts")
+            contents[entity.className] = entity.content
+        })
+        return contents
+    }
+
+    it("should generate entities with columns, indices and constraints", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const contents = await generate(connection)
+
+                expect(Object.keys(contents).sort()).to.be.eql([
+                    "Post",
+                    "PostTitle",
+                    "Profile",
+                    "Tag",
+                    "User",
+                ])
+
+                expect(contents.User).to.contain(
+                    `import { Column, Entity, OneToMany, OneToOne, PrimaryGeneratedColumn, Unique } from "typeorm"`,
+                )
+                expect(contents.User).to.contain(
+                    `@Entity()\n@Unique(["email"])\nexport class User {`,
+                )
+                expect(contents.User).to.contain(
+                    `    @PrimaryGeneratedColumn()\n    id: number`,
+                )
+                expect(contents.User).to.contain(
+                    `    @Column({ name: "first_name", type: "varchar", length: 100 })\n    firstName: string`,
+                )
+
+                expect(contents.Post).to.contain(`@Index(["title"])`)
+                expect(contents.Post).to.contain(`"(\\"rating\\" >= 0)")`)
+                expect(contents.Post).to.contain(
+                    `    @Column({ type: "decimal", precision: 5, scale: 2, default: 0 })\n    rating: string`,
+                )
+                expect(contents.Post).to.contain(
+                    `    @Column({ type: "varchar", default: "draft" })\n    status: string`,
+                )
+                expect(contents.Post).to.contain(
+                    `    @Column({ type: "datetime", default: () => "datetime('now')" })\n    createdAt: Date`,
+                )
+
+                expect(contents.Profile).to.contain(
+                    `    @Column({ type: "text", nullable: true })\n    bio: string | null`,
+                )
+            }),
+        ))
+
+    it("should generate relations from foreign keys and junction tables", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const contents = await generate(connection)
+
+                expect(contents.Post).to.contain(
+                    `import { Tag } from "./Tag"\nimport { User } from "./User"`,
+                )
+                expect(contents.Post).to.contain(
+                    `    @Column({ type: "integer", nullable: true })\n    authorId: number | null`,
+                )
+                expect(contents.Post).to.contain(
+                    `    @ManyToOne(() => User, (user) => user.posts)\n    @JoinColumn({ name: "authorId" })\n    author: User`,
+                )
+                expect(contents.User).to.contain(
+                    `    @OneToMany(() => Post, (post) => post.author)\n    posts: Post[]`,
+                )
+
+                // one-to-one relation creates its unique constraint itself
+                expect(contents.Profile).to.not.contain("@Unique")
+                expect(contents.Profile).to.contain(
+                    `    @OneToOne(() => User, (user) => user.profile, { onDelete: "CASCADE" })\n    @JoinColumn({ name: "userId" })\n    user: User`,
+                )
+                expect(contents.User).to.contain(
+                    `    @OneToOne(() => Profile, (profile) => profile.user)\n    profile: Profile`,
+                )
+
+                expect(contents.Post).to.contain(
+                    [
+                        `    @ManyToMany(() => Tag, (tag) => tag.posts)`,
+                        `    @JoinTable({`,
+                        `        name: "post_tags_tag",`,
+                        `        joinColumns: [{ name: "postId", referencedColumnName: "id" }],`,
+                        `        inverseJoinColumns: [{ name: "tagId", referencedColumnName: "id" }],`,
+                        `    })`,
+                        `    tags: Tag[]`,
+                    ].join("\n"),
+                )
+                expect(contents.Tag).to.contain(
+                    `    @ManyToMany(() => Post, (post) => post.tags)\n    posts: Post[]`,
+                )
+            }),
+        ))
+
+    it("should generate view entities with columns of returned rows", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const user = await connection.manager.save(User, {
+                    firstName: "Timber",
+                    email: "timber@example.com",
+                })
+                await connection.manager.save(Post, {
+                    title: "About introspection",
+                    author: user,
+                })
+
+                const contents = await generate(connection)
+                expect(contents.PostTitle).to.be.equal(
+                    [
+                        `import { ViewColumn, ViewEntity } from "typeorm"`,
+                        ``,
+                        `@ViewEntity({ expression: \`SELECT "id", "title" FROM "post"\` })`,
+                        `export class PostTitle {`,
+                        `    @ViewColumn()`,
+                        `    id: number`,
+                        ``,
+                        `    @ViewColumn()`,
+                        `    title: string`,
+                        `}`,
+                        ``,
+                    ].join("\n"),
+                )
+            }),
+        ))
+
+    it("should generate view entities for views not created by TypeORM", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.query(
+                    `CREATE VIEW "tag_name" AS SELECT "name" FROM "tag"`,
+                )
+
+                const contents = await generate(connection)
+                expect(contents.TagName).to.be.equal(
+                    [
+                        `import { ViewColumn, ViewEntity } from "typeorm"`,
+                        ``,
+                        `@ViewEntity({ expression: \`SELECT "name" FROM "tag"\` })`,
+                        `export class TagName {`,
+                        `    @ViewColumn()`,
+                        `    name: any`,
+                        `}`,
+                        ``,
+                    ].join("\n"),
+                )
+            }),
+        ))
+
+    it("should generate entities only for included tables", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const contents = await generate(connection, {
+                    include: ["post*", "user"],
+                    exclude: ["post_title"],
+                })
+
+                expect(Object.keys(contents).sort()).to.be.eql([
+                    "Post",
+                    "PostTagsTag",
+                    "User",
+                ])
+
+                // relations to excluded tables are not generated
+                expect(contents.Post).to.contain("author: User")
+                expect(contents.Post).to.not.contain("tags: Tag[]")
+                expect(contents.User).to.not.contain("Profile")
+
+                // junction table joining an excluded table is a regular entity
+                expect(contents.PostTagsTag).to.contain(
+                    `    @ManyToOne(() => Post, (post) => post.postTagsTags, { onDelete: "CASCADE", onUpdate: "CASCADE" })`,
+                )
+                expect(contents.PostTagsTag).to.contain(
+                    `    @PrimaryColumn({ type: "integer" })\n    tagId: number`,
+                )
+            }),
+        ))
+})
+
+describe("entity introspector > database catalog", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [User],
+                enabledDrivers: ["postgres", "mysql", "mariadb"],
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should generate entities only for tables and views of the current schema", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const escape = (name: string) => connection.driver.escape(name)
+                await connection.manager.save(User, {
+                    firstName: "Timber",
+                    email: "timber@example.com",
+                })
+                await connection.query(
+                    `CREATE VIEW ${escape("user_email")} AS SELECT ${escape(
+                        "id",
+                    )}, ${escape("email")} FROM ${escape("user")}`,
+                )
+
+                const entities = await new EntityIntrospector(
+                    connection,
+                ).generate()
+                const contents: { [className: string]: string } = {}
+                entities.forEach(
+                    (entity) => (contents[entity.className] = entity.content),
+                )
+
+                expect(Object.keys(contents).sort()).to.be.eql([
+                    "User",
+                    "UserEmail",
+                ])
+                expect(contents.UserEmail).to.contain("@ViewEntity({")
+                expect(contents.UserEmail).to.not.contain("@Entity(")
+                expect(contents.UserEmail).to.contain(
+                    `    @ViewColumn()\n    id: number\n\n    @ViewColumn()\n    email: string`,
+                )
+
+                // columns are generated in their ordinal order
+                const positions = [
+                    "id:",
+                    "firstName:",
+                    "email:",
+                    "isActive:",
+                ].map((declaration) => contents.User.indexOf(declaration))
+                expect(positions).to.be.eql(
+                    [...positions].sort((a, b) => a - b),
+                )
+                expect(positions[0]).to.not.be.equal(-1)
+            }),
+        ))
+
+    it("should keep names of enum types", () =>
+        Promise.all(
+            connections
+                .filter(
+                    (connection) =>
+                        connection.driver.options.type === "postgres",
+                )
+                .map(async (connection) => {
+                    await connection.query(
+                        `CREATE TYPE "user_role" AS ENUM ('admin', 'member')`,
+                    )
+                    await connection.query(
+                        `CREATE TABLE "membership" ("id" integer PRIMARY KEY, "role" "user_role" NOT NULL)`,
+                    )
+
+                    const entities = await new EntityIntrospector(connection, {
+                        include: ["membership"],
+                    }).generate()
+                    expect(entities[0].content).to.contain(
+                        `    @Column({ type: "enum", enum: ["admin", "member"], enumName: "user_role" })\n    role: "admin" | "member"`,
+                    )
+                }),
+        ))
+})
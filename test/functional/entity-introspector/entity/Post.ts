@@ -0,0 +1,40 @@
+import {
+    Check,
+    Column,
+    CreateDateColumn,
+    Entity,
+    Index,
+    JoinTable,
+    ManyToMany,
+    ManyToOne,
+    PrimaryGeneratedColumn,
+} from "../../../../src"
+import { Tag } from "./Tag"
+import { User } from "./User"
+
+@Entity()
+@Index(["title"])
+@Check(`"rating" >= 0`)
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column()
+    title: string
+
+    @Column({ type: "decimal", precision: 5, scale: 2, default: 0 })
+    rating: string
+
+    @Column({ default: "draft" })
+    status: string
+
+    @CreateDateColumn()
+    createdAt: Date
+
+    @ManyToOne(() => User)
+    author: User
+
+    @ManyToMany(() => Tag)
+    @JoinTable()
+    tags: Tag[]
+}
@@ -0,0 +1,12 @@
+import { ViewColumn, ViewEntity } from "../../../../src"
+
+@ViewEntity({
+    expression: `SELECT "id", "title" FROM "post"`,
+})
+export class PostTitle {
+    @ViewColumn()
+    id: number
+
+    @ViewColumn()
+    title: string
+}
@@ -0,0 +1,21 @@
+import {
+    Column,
+    Entity,
+    JoinColumn,
+    OneToOne,
+    PrimaryGeneratedColumn,
+} from "../../../../src"
+import { User } from "./User"
+
+@Entity()
+export class Profile {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column({ type: "text", nullable: true })
+    bio: string | null
+
+    @OneToOne(() => User, { onDelete: "CASCADE" })
+    @JoinColumn()
+    user: User
+}
@@ -0,0 +1,17 @@
+import { Column, Entity, PrimaryGeneratedColumn, Unique } from "../../../../src"
+
+@Entity()
+@Unique(["email"])
+export class User {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column({ name: "first_name", length: 100 })
+    firstName: string
+
+    @Column()
+    email: string
+
+    @Column({ default: true })
+    isActive: boolean
+}
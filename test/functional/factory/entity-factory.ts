@@ -0,0 +1,168 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { EntityFactory } from "../../../src/factory/EntityFactory"
+import { Category } from "./entity/Category"
+import { Post } from "./entity/Post"
+import { User, UserRole } from "./entity/User"
+
+describe("entity factory", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [__dirname + "/entity/*{.js,.ts}"],
+                enabledDrivers: [
+                    "better-sqlite3",
+                    "mariadb",
+                    "mysql",
+                    "postgres",
+                    "sqlite",
+                    "sqljs",
+                ],
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should make entities with values generated from column metadata", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const factory = new EntityFactory(connection, User)
+
+                const first = factory.make()
+                first.should.be.instanceOf(User)
+                first.name.should.be.equal("name 1")
+                first.role.should.be.equal(UserRole.Admin)
+                first.isActive.should.be.equal(true)
+                first.rating.should.be.equal(1)
+                first.registeredAt.should.be.eql(new Date(Date.UTC(2000, 0, 1)))
+                expect(first.bio).to.be.undefined
+                expect(first.locale).to.be.undefined
+                expect(first.createdAt).to.be.undefined
+                expect(first.id).to.be.undefined
+
+                const second = factory.make()
+                second.name.should.be.equal("name 2")
+                second.role.should.be.equal(UserRole.Editor)
+                second.isActive.should.be.equal(false)
+
+                // length of the column is respected
+                const long = factory.makeMany(10).pop()!
+                long.name.length.should.be.at.most(12)
+            }),
+        ))
+
+    it("should apply definition and overrides", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const factory = new EntityFactory(
+                    connection,
+                    User,
+                    (sequence) => ({
+                        name: `User #${sequence}`,
+                        role: UserRole.Editor,
+                    }),
+                )
+
+                const users = factory.makeMany(2, { rating: 5 })
+                users
+                    .map((user) => user.name)
+                    .should.be.eql(["User #1", "User #2"])
+                users[0].role.should.be.equal(UserRole.Editor)
+                users[0].rating.should.be.equal(5)
+            }),
+        ))
+
+    it("should create entities with many-to-one parents and to-many children", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const post = await new EntityFactory(connection, Post)
+                    .has("categories", 2)
+                    .create({ title: "About factories" })
+
+                post.id.should.be.a("number")
+                post.author.should.be.instanceOf(User)
+                post.author.id.should.be.a("number")
+
+                const loadedPost = await connection.manager.findOne(Post, {
+                    where: { id: post.id },
+                    relations: { author: true, categories: true },
+                })
+                loadedPost!.title.should.be.equal("About factories")
+                loadedPost!.author.name.should.be.equal("name 1")
+                loadedPost!.categories
+                    .map((category) => category.code)
+                    .should.have.members(["code 1", "code 2"])
+
+                const author = await new EntityFactory(connection, User)
+                    .has("posts", 3)
+                    .create()
+                author.posts.length.should.be.equal(3)
+
+                const posts = await connection.manager.find(Post, {
+                    where: { author: { id: author.id } },
+                })
+                posts.length.should.be.equal(3)
+                ;(await connection.manager.count(User)).should.be.equal(2)
+                ;(await connection.manager.count(Category)).should.be.equal(2)
+            }),
+        ))
+
+    it("should use given factories for related entities", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const author = await new EntityFactory(
+                    connection,
+                    User,
+                    () => ({
+                        name: "Timber",
+                    }),
+                ).create()
+
+                const post = new EntityFactory(connection, Post)
+                    .for(
+                        "author",
+                        new EntityFactory(connection, User, () => ({
+                            name: "Umed",
+                        })),
+                    )
+                    .make()
+                post.author.name.should.be.equal("Umed")
+
+                const postWithAuthor = await new EntityFactory(
+                    connection,
+                    Post,
+                ).create({ author })
+                postWithAuthor.author.id.should.be.equal(author.id)
+                ;(await connection.manager.count(User)).should.be.equal(1)
+            }),
+        ))
+
+    it("should not make parents of relations with given join column values", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const author = await new EntityFactory(
+                    connection,
+                    User,
+                ).create()
+
+                const post = await new EntityFactory(connection, Post).create({
+                    authorId: author.id,
+                })
+                expect(post.author).to.be.undefined
+
+                const loadedPost = await connection.manager.findOne(Post, {
+                    where: { id: post.id },
+                    relations: { author: true },
+                })
+                loadedPost!.author.id.should.be.equal(author.id)
+                ;(await connection.manager.count(User)).should.be.equal(1)
+            }),
+        ))
+})
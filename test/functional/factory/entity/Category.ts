@@ -0,0 +1,12 @@
+import { Entity } from "../../../../src/decorator/entity/Entity"
+import { PrimaryColumn } from "../../../../src/decorator/columns/PrimaryColumn"
+import { Column } from "../../../../src/decorator/columns/Column"
+
+@Entity()
+export class Category {
+    @PrimaryColumn()
+    code: string
+
+    @Column()
+    name: string
+}
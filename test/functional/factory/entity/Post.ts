@@ -0,0 +1,27 @@
+import { Entity } from "../../../../src/decorator/entity/Entity"
+import { PrimaryGeneratedColumn } from "../../../../src/decorator/columns/PrimaryGeneratedColumn"
+import { Column } from "../../../../src/decorator/columns/Column"
+import { ManyToOne } from "../../../../src/decorator/relations/ManyToOne"
+import { ManyToMany } from "../../../../src/decorator/relations/ManyToMany"
+import { JoinTable } from "../../../../src/decorator/relations/JoinTable"
+import { Category } from "./Category"
+import { User } from "./User"
+
+@Entity()
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column()
+    title: string
+
+    @ManyToOne(() => User, (user) => user.posts, { nullable: false })
+    author: User
+
+    @Column()
+    authorId: number
+
+    @ManyToMany(() => Category)
+    @JoinTable()
+    categories: Category[]
+}
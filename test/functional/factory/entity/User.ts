@@ -0,0 +1,44 @@
+import { Entity } from "../../../../src/decorator/entity/Entity"
+import { PrimaryGeneratedColumn } from "../../../../src/decorator/columns/PrimaryGeneratedColumn"
+import { Column } from "../../../../src/decorator/columns/Column"
+import { CreateDateColumn } from "../../../../src/decorator/columns/CreateDateColumn"
+import { OneToMany } from "../../../../src/decorator/relations/OneToMany"
+import { Post } from "./Post"
+
+export enum UserRole {
+    Admin = "admin",
+    Editor = "editor",
+}
+
+@Entity()
+export class User {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column({ length: 12 })
+    name: string
+
+    @Column({ type: "simple-enum", enum: UserRole })
+    role: UserRole
+
+    @Column()
+    isActive: boolean
+
+    @Column()
+    rating: number
+
+    @Column()
+    registeredAt: Date
+
+    @Column({ type: "varchar", nullable: true })
+    bio: string | null
+
+    @Column({ default: "en" })
+    locale: string
+
+    @CreateDateColumn()
+    createdAt: Date
+
+    @OneToMany(() => Post, (post) => post.author)
+    posts: Post[]
+}
@@ -0,0 +1,16 @@
+import { Entity } from "../../../../src/decorator/entity/Entity"
+import { Column } from "../../../../src/decorator/columns/Column"
+import { PrimaryGeneratedColumn } from "../../../../src/decorator/columns/PrimaryGeneratedColumn"
+import { Check } from "../../../../src/decorator/Check"
+
+@Entity()
+@Check("CHK_PAYMENT_AMOUNT", `is_positive("amount")`, {
+    dependsOnFunctions: ["is_positive"],
+})
+export class Payment {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column()
+    amount: number
+}
@@ -0,0 +1,14 @@
+import { ViewEntity } from "../../../../src/decorator/entity-view/ViewEntity"
+import { ViewColumn } from "../../../../src/decorator/columns/ViewColumn"
+
+@ViewEntity({
+    expression: `SELECT "id", with_tax("amount") AS "total" FROM "payment"`,
+    dependsOnFunctions: ["with_tax"],
+})
+export class PaymentWithTax {
+    @ViewColumn()
+    id: number
+
+    @ViewColumn()
+    total: number
+}
@@ -0,0 +1,268 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { DatabaseFunction } from "../../../src/schema-builder/function/DatabaseFunction"
+import { DatabaseFunctionOptions } from "../../../src/schema-builder/options/DatabaseFunctionOptions"
+import { Payment } from "./entity/Payment"
+import { PaymentWithTax } from "./entity/PaymentWithTax"
+
+describe("functions", () => {
+    const functions: DatabaseFunctionOptions[] = [
+        {
+            name: "with_tax",
+            parameters: [{ name: "value", type: "integer" }],
+            returns: "integer",
+            body: "SELECT tax(value) + value",
+            dependsOn: ["tax"],
+        },
+        {
+            name: "tax",
+            parameters: [{ name: "value", type: "integer" }],
+            returns: "integer",
+            body: "SELECT value / 10",
+        },
+        {
+            name: "is_positive",
+            parameters: [{ name: "value", type: "integer" }],
+            returns: "boolean",
+            body: "SELECT value > 0",
+        },
+    ]
+
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Payment, PaymentWithTax],
+                enabledDrivers: ["postgres"],
+                schemaCreate: true,
+                dropSchema: true,
+                driverSpecific: { functions },
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should create declared functions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                const dbFunctions = await queryRunner.getFunctions()
+                await queryRunner.release()
+
+                dbFunctions
+                    .map((fn) => fn.name)
+                    .sort()
+                    .should.be.eql(["is_positive", "tax", "with_tax"])
+                dbFunctions
+                    .find((fn) => fn.name === "with_tax")!
+                    .dependsOn.should.be.eql(["tax"])
+            }),
+        ))
+
+    it("should use functions in checks and views", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.getRepository(Payment).save({ amount: 50 })
+                await connection.getRepository(Payment).save({ amount: -5 })
+                    .should.be.rejected
+
+                const payments = await connection
+                    .getRepository(PaymentWithTax)
+                    .find()
+                payments.length.should.be.equal(1)
+                payments[0].total.should.be.equal(55)
+            }),
+        ))
+
+    it("should not generate schema changes for synchronized functions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const sqlInMemory = await connection.driver
+                    .createSchemaBuilder()
+                    .log()
+                sqlInMemory.upQueries.length.should.be.equal(0)
+            }),
+        ))
+
+    it("should recreate dependent check and view when function signature changes", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const options = connection.options as any
+                options.functions = functions.map((fn) =>
+                    fn.name === "is_positive"
+                        ? {
+                              ...fn,
+                              parameters: [{ name: "value", type: "bigint" }],
+                          }
+                        : fn,
+                )
+
+                const sqlInMemory = await connection.driver
+                    .createSchemaBuilder()
+                    .log()
+                options.functions = functions
+
+                const upQueries = sqlInMemory.upQueries.map(
+                    (query) => query.query,
+                )
+                expect(
+                    upQueries.some((query) =>
+                        query.startsWith(`DROP FUNCTION "is_positive"`),
+                    ),
+                ).to.be.true
+                expect(
+                    upQueries.some((query) =>
+                        query.includes(`ADD CONSTRAINT "CHK_PAYMENT_AMOUNT"`),
+                    ),
+                ).to.be.true
+            }),
+        ))
+
+    it("should create, change and drop functions using query runner", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.createFunction(
+                    new DatabaseFunction({
+                        name: "double_value",
+                        parameters: [{ name: "value", type: "integer" }],
+                        returns: "integer",
+                        body: "SELECT value * 2",
+                    }),
+                    true,
+                )
+                await queryRunner.changeFunction(
+                    "double_value",
+                    new DatabaseFunction({
+                        name: "double_value",
+                        parameters: [{ name: "value", type: "integer" }],
+                        returns: "integer",
+                        body: "SELECT value + value",
+                    }),
+                    true,
+                )
+
+                let dbFunctions = await queryRunner.getFunctions([
+                    "double_value",
+                ])
+                dbFunctions.length.should.be.equal(1)
+                dbFunctions[0].body.should.be.equal("SELECT value + value")
+
+                await queryRunner.dropFunction("double_value", true)
+                dbFunctions = await queryRunner.getFunctions(["double_value"])
+                dbFunctions.length.should.be.equal(0)
+
+                await queryRunner.executeMemoryDownSql()
+                dbFunctions = await queryRunner.getFunctions(["double_value"])
+                await queryRunner.release()
+
+                dbFunctions.length.should.be.equal(0)
+            }),
+        ))
+
+    it("should recreate functions after database is cleared", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.clearDatabase()
+                await connection.synchronize()
+                const dbFunctions = await queryRunner.getFunctions()
+                await queryRunner.release()
+
+                dbFunctions
+                    .map((fn) => fn.name)
+                    .sort()
+                    .should.be.eql(["is_positive", "tax", "with_tax"])
+            }),
+        ))
+
+    it("should not drop functions of schemas not used by data source", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.createSchema("functions_other", true)
+                await queryRunner.createFunction(
+                    new DatabaseFunction({
+                        name: "functions_other.double_value",
+                        parameters: [{ name: "value", type: "integer" }],
+                        returns: "integer",
+                        body: "SELECT value * 2",
+                    }),
+                    true,
+                )
+
+                await connection.synchronize()
+                const dbFunctions = await queryRunner.getFunctions([
+                    "functions_other.double_value",
+                ])
+                await queryRunner.dropSchema("functions_other", true, true)
+                await queryRunner.release()
+
+                dbFunctions.length.should.be.equal(1)
+            }),
+        ))
+})
+
+describe("functions > mysql", () => {
+    const functions: DatabaseFunctionOptions[] = [
+        {
+            name: "tax",
+            parameters: [{ name: "value", type: "int" }],
+            returns: "int",
+            body: "DETERMINISTIC RETURN value DIV 10",
+        },
+        {
+            name: "with_tax",
+            parameters: [{ name: "value", type: "int" }],
+            returns: "int",
+            body: "DETERMINISTIC RETURN tax(value) + value",
+            dependsOn: ["tax"],
+        },
+    ]
+
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [],
+                enabledDrivers: ["mysql", "mariadb"],
+                schemaCreate: true,
+                dropSchema: true,
+                driverSpecific: { functions },
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should create declared functions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const [{ total }] = await connection.query(
+                    "SELECT with_tax(50) AS total",
+                )
+                Number(total).should.be.equal(55)
+            }),
+        ))
+
+    it("should recreate functions after database is cleared", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.clearDatabase()
+                await connection.synchronize()
+                const dbFunctions = await queryRunner.getFunctions()
+                await queryRunner.release()
+
+                dbFunctions
+                    .map((fn) => fn.name)
+                    .sort()
+                    .should.be.eql(["tax", "with_tax"])
+            }),
+        ))
+})
@@ -0,0 +1,320 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import {
+    OpenTelemetryApi,
+    OpenTelemetryInstrumentation,
+    OpenTelemetrySpan,
+} from "../../../src/instrumentation/OpenTelemetryInstrumentation"
+import { QueryFailedError } from "../../../src/error/QueryFailedError"
+import { AbstractLogger } from "../../../src/logger/AbstractLogger"
+import { Post } from "./entity/Post"
+import { AddPostTitleIndex1700000000200 } from "./migration/AddPostTitleIndex1700000000200"
+
+/**
+ * Span recorded by the in-memory tracer.
+ */
+class RecordedSpan implements OpenTelemetrySpan {
+    exceptions: any[] = []
+    status?: { code: number; message?: string }
+
+    constructor(
+        readonly name: string,
+        readonly kind: number | undefined,
+        readonly attributes: { [key: string]: any },
+        readonly parent: RecordedSpan | undefined,
+        protected finishedSpans: RecordedSpan[],
+    ) {}
+
+    setAttribute(key: string, value: any) {
+        this.attributes[key] = value
+    }
+
+    recordException(exception: any) {
+        this.exceptions.push(exception)
+    }
+
+    setStatus(status: { code: number; message?: string }) {
+        this.status = status
+    }
+
+    end() {
+        this.finishedSpans.push(this)
+    }
+}
+
+/**
+ * Logger failing to log executed queries when asked to.
+ */
+class FailingLogger extends AbstractLogger {
+    failExecutedQueries = false
+
+    logQueryExecuted() {
+        if (this.failExecutedQueries) throw new Error("logger failed")
+    }
+
+    protected writeLog() {}
+}
+
+describe("instrumentation", () => {
+    // finished spans, in the same way as they are collected by in-memory span exporter
+    const spans: RecordedSpan[] = []
+    const api: OpenTelemetryApi = {
+        trace: {
+            getTracer: () => ({
+                startSpan: (name, options, context) =>
+                    new RecordedSpan(
+                        name,
+                        options?.kind,
+                        { ...options?.attributes },
+                        context?.span,
+                        spans,
+                    ),
+            }),
+            setSpan: (context, span) => ({ ...context, span }),
+        },
+        context: {
+            active: () => ({}),
+        },
+    }
+
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Post],
+                migrations: [AddPostTitleIndex1700000000200],
+                enabledDrivers: ["sqljs"],
+                driverSpecific: {
+                    instrumentation: new OpenTelemetryInstrumentation(api),
+                },
+            })),
+    )
+    beforeEach(async () => {
+        await reloadTestingDatabases(connections)
+        spans.length = 0
+    })
+    after(() => closeTestingConnections(connections))
+
+    it("should trace queries with database attributes", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.getRepository(Post).find()
+
+                expect(spans).to.have.length(1)
+                const [span] = spans
+                expect(span.name).to.equal("SELECT post")
+                expect(span.kind).to.equal(2)
+                expect(span.attributes).to.include({
+                    "db.system": "sqlite",
+                    "db.operation": "SELECT",
+                    "db.sql.table": "post",
+                })
+                expect(span.attributes["db.statement"]).to.match(
+                    /^SELECT .* FROM "post"/,
+                )
+                expect(span.parent).to.be.undefined
+            }),
+        ))
+
+    it("should trace persistence operations with their transactions and queries", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection
+                    .getRepository(Post)
+                    .save([{ title: "first" }, { title: "second" }])
+
+                const persist = spans.find((span) => span.name === "save Post")!
+                expect(persist).not.to.be.undefined
+                expect(persist.kind).to.equal(0)
+                expect(persist.attributes).to.include({
+                    "db.system": "sqlite",
+                    "db.operation": "save",
+                    "db.sql.table": "post",
+                    "typeorm.entity.name": "Post",
+                    "typeorm.entity.count": 2,
+                })
+                expect(spans[spans.length - 1]).to.equal(persist)
+
+                const transaction = spans.find(
+                    (span) => span.name === "transaction",
+                )!
+                expect(transaction.parent).to.equal(persist)
+                expect(transaction.attributes).to.include({
+                    "db.transaction.outcome": "commit",
+                })
+
+                const inserts = spans.filter(
+                    (span) => span.name === "INSERT post",
+                )
+                expect(inserts).to.have.length(2)
+                for (const insert of inserts) {
+                    expect(insert.parent).to.equal(transaction)
+                    expect(insert.attributes["db.operation"]).to.equal("INSERT")
+                }
+            }),
+        ))
+
+    it("should record errors of failed queries and rolled back transactions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                try {
+                    await queryRunner.startTransaction()
+                    await queryRunner
+                        .query(`SELECT * FROM "missing"`)
+                        .should.be.rejectedWith(QueryFailedError)
+                    await queryRunner.rollbackTransaction()
+                } finally {
+                    await queryRunner.release()
+                }
+
+                const [begin, query, rollback, transaction] = spans
+                expect(begin.name).to.equal("BEGIN")
+                expect(begin.parent).to.equal(transaction)
+                expect(query.name).to.equal("SELECT missing")
+                expect(query.exceptions).to.have.length(1)
+                expect(query.status).to.include({ code: 2 })
+
+                expect(rollback.name).to.equal("ROLLBACK")
+                expect(rollback.parent).to.equal(transaction)
+                expect(query.parent).to.equal(transaction)
+                expect(transaction.attributes).to.include({
+                    "db.transaction.outcome": "rollback",
+                })
+                expect(transaction.exceptions).to.be.empty
+            }),
+        ))
+
+    it("should trace migrations", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.runMigrations()
+
+                const migration = spans.find(
+                    (span) =>
+                        span.name ===
+                        "migration up AddPostTitleIndex1700000000200",
+                )!
+                expect(migration).not.to.be.undefined
+                expect(migration.attributes).to.include({
+                    "typeorm.migration.name": "AddPostTitleIndex1700000000200",
+                    "typeorm.migration.timestamp": 1700000000200,
+                    "typeorm.migration.direction": "up",
+                })
+                expect(migration.parent!.name).to.equal("transaction")
+
+                const createIndex = spans.find((span) =>
+                    /IDX_post_title/.test(span.attributes["db.statement"]),
+                )!
+                expect(createIndex.parent).to.equal(migration)
+            }),
+        ))
+
+    it("should not trace anything without instrumentation", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const instrumentation = connection.options.instrumentation
+                connection.setOptions({ instrumentation: undefined })
+                try {
+                    await connection
+                        .getRepository(Post)
+                        .save({ title: "untraced" })
+                } finally {
+                    connection.setOptions({ instrumentation })
+                }
+
+                expect(spans).to.be.empty
+            }),
+        ))
+})
+
+describe("instrumentation > failing loggers and subscribers", () => {
+    const startedSpans: RecordedSpan[] = []
+    const spans: RecordedSpan[] = []
+    const api: OpenTelemetryApi = {
+        trace: {
+            getTracer: () => ({
+                startSpan: (name, options, context) => {
+                    const span = new RecordedSpan(
+                        name,
+                        options?.kind,
+                        { ...options?.attributes },
+                        context?.span,
+                        spans,
+                    )
+                    startedSpans.push(span)
+                    return span
+                },
+            }),
+            setSpan: (context, span) => ({ ...context, span }),
+        },
+        context: {
+            active: () => ({}),
+        },
+    }
+
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Post],
+                enabledDrivers: ["postgres", "mysql", "mssql"],
+                createLogger: () => new FailingLogger(),
+                driverSpecific: {
+                    instrumentation: new OpenTelemetryInstrumentation(api),
+                },
+            })),
+    )
+    beforeEach(async () => {
+        await reloadTestingDatabases(connections)
+        startedSpans.length = 0
+        spans.length = 0
+    })
+    after(() => closeTestingConnections(connections))
+
+    it("should end query spans when beforeQuery subscriber throws", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                connection.subscribers.push({
+                    beforeQuery: () => {
+                        throw new Error("subscriber failed")
+                    },
+                })
+                try {
+                    await connection
+                        .getRepository(Post)
+                        .find()
+                        .should.be.rejectedWith("subscriber failed")
+                } finally {
+                    connection.subscribers.pop()
+                }
+
+                expect(spans).to.have.members(startedSpans)
+            }),
+        ))
+
+    it("should end query spans once when logger throws", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const logger = connection.logger as FailingLogger
+                logger.failExecutedQueries = true
+                try {
+                    await connection.getRepository(Post).find().should.be
+                        .rejected
+                } finally {
+                    logger.failExecutedQueries = false
+                }
+
+                expect(startedSpans).to.have.length(1)
+                expect(spans).to.have.length(1)
+                expect(spans[0]).to.equal(startedSpans[0])
+                expect(spans[0].exceptions).to.have.length(1)
+            }),
+        ))
+})
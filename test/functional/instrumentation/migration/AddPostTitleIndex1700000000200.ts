@@ -0,0 +1,14 @@
+import { MigrationInterface } from "../../../../src/migration/MigrationInterface"
+import { QueryRunner } from "../../../../src/query-runner/QueryRunner"
+
+export class AddPostTitleIndex1700000000200 implements MigrationInterface {
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE INDEX "IDX_post_title" ON "post" ("title")`,
+        )
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_post_title"`)
+    }
+}
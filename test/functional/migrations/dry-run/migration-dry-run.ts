@@ -0,0 +1,176 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { MigrationExecutor } from "../../../../src/migration/MigrationExecutor"
+import { CommandUtils } from "../../../../src/commands/CommandUtils"
+import { CreatePost1700000000000 } from "./migration/CreatePost1700000000000"
+import { InsertPost1700000000001 } from "./migration/InsertPost1700000000001"
+import { AddPostText1700000000002 } from "./migration/AddPostText1700000000002"
+import { InsertPostInTransaction1700000000003 } from "./migration/InsertPostInTransaction1700000000003"
+
+describe("migrations > dry-run", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                migrations: [CreatePost1700000000000, InsertPost1700000000001],
+                enabledDrivers: [
+                    "postgres",
+                    "sqlite",
+                    "better-sqlite3",
+                    "sqljs",
+                ],
+                schemaCreate: true,
+                dropSchema: true,
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should record queries of pending migrations without executing them", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const dryRuns = await new MigrationExecutor(
+                    connection,
+                ).dryRunPendingMigrations()
+
+                dryRuns
+                    .map((dryRun) => dryRun.migration.name)
+                    .should.be.eql([
+                        "CreatePost1700000000000",
+                        "InsertPost1700000000001",
+                    ])
+                dryRuns[0].direction.should.be.equal("up")
+                dryRuns[0].queries.length.should.be.equal(1)
+                dryRuns[0].queries[0].query.should.contain("CREATE TABLE")
+                dryRuns[0].rawQueries.length.should.be.equal(0)
+
+                dryRuns[1].queries.length.should.be.equal(1)
+                dryRuns[1].rawQueries.should.be.eql(dryRuns[1].queries)
+
+                const queryRunner = connection.createQueryRunner()
+                ;(await queryRunner.hasTable("post")).should.be.equal(false)
+                ;(await queryRunner.hasTable("migrations")).should.be.equal(
+                    false,
+                )
+                await queryRunner.release()
+
+                // query runner is usable normally after dry-run
+                const migrations = await connection.runMigrations()
+                migrations.length.should.be.equal(2)
+            }),
+        ))
+
+    it("should record queries of migration revert without executing them", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const executor = new MigrationExecutor(connection)
+                expect(await executor.dryRunUndoLastMigration()).to.be.undefined
+
+                await connection.runMigrations()
+
+                const dryRun = (await executor.dryRunUndoLastMigration())!
+                dryRun.migration.name.should.be.equal("InsertPost1700000000001")
+                dryRun.direction.should.be.equal("down")
+                dryRun.rawQueries.length.should.be.equal(1)
+
+                const posts = await connection.query(`SELECT * FROM "post"`)
+                posts.length.should.be.equal(1)
+
+                const sql = CommandUtils.getMigrationDryRunSql([dryRun])
+                sql.should.contain(
+                    "-- Migration InsertPost1700000000001 (down)",
+                )
+                sql.should.contain("-- WARNING: raw query")
+                sql.should.contain(`DELETE FROM "post";`)
+            }),
+        ))
+
+    describe("with dependent migrations", () => {
+        let connections: DataSource[]
+        before(
+            async () =>
+                (connections = await createTestingConnections({
+                    migrations: [
+                        CreatePost1700000000000,
+                        AddPostText1700000000002,
+                        InsertPostInTransaction1700000000003,
+                    ],
+                    enabledDrivers: [
+                        "postgres",
+                        "sqlite",
+                        "better-sqlite3",
+                        "sqljs",
+                    ],
+                    schemaCreate: true,
+                    dropSchema: true,
+                })),
+        )
+        beforeEach(() => reloadTestingDatabases(connections))
+        after(() => closeTestingConnections(connections))
+
+        it("should see tables created by previous pending migrations", () =>
+            Promise.all(
+                connections.map(async (connection) => {
+                    const dryRuns = await new MigrationExecutor(
+                        connection,
+                    ).dryRunPendingMigrations()
+
+                    dryRuns.length.should.be.equal(3)
+                    dryRuns[1].migration.name.should.be.equal(
+                        "AddPostText1700000000002",
+                    )
+                    dryRuns[1].queries
+                        .some((query) => query.query.includes(`"text"`))
+                        .should.be.equal(true)
+
+                    const queryRunner = connection.createQueryRunner()
+                    ;(await queryRunner.hasTable("post")).should.be.equal(false)
+                    await queryRunner.release()
+                }),
+            ))
+
+        it("should not execute raw queries even if they start like reading ones", () =>
+            Promise.all(
+                connections.map(async (connection) => {
+                    const executor = new MigrationExecutor(connection)
+                    await executor.migrateTo("CreatePost1700000000000")
+
+                    const [dryRun] = await executor.dryRunPendingMigrations()
+                    dryRun.rawQueries.length.should.be.equal(1)
+                    dryRun.rawQueries[0].query.should.contain("INSERT INTO")
+
+                    const posts = await connection.query(`SELECT * FROM "post"`)
+                    posts.length.should.be.equal(0)
+
+                    const queryRunner = connection.createQueryRunner()
+                    const table = await queryRunner.getTable("post")
+                    await queryRunner.release()
+                    expect(table!.findColumnByName("text")).to.be.undefined
+                }),
+            ))
+
+        it("should not start transactions nor execute queries of entity manager", () =>
+            Promise.all(
+                connections.map(async (connection) => {
+                    const executor = new MigrationExecutor(connection)
+                    await executor.migrateTo("AddPostText1700000000002")
+
+                    const [dryRun] = await executor.dryRunPendingMigrations()
+                    dryRun.migration.name.should.be.equal(
+                        "InsertPostInTransaction1700000000003",
+                    )
+                    dryRun.rawQueries.length.should.be.equal(1)
+                    dryRun.rawQueries[0].query.should.contain("INSERT INTO")
+
+                    const posts = await connection.query(`SELECT * FROM "post"`)
+                    posts.length.should.be.equal(1)
+                }),
+            ))
+    })
+})
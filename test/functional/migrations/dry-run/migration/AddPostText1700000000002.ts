@@ -0,0 +1,23 @@
+import { MigrationInterface } from "../../../../../src/migration/MigrationInterface"
+import { QueryRunner } from "../../../../../src/query-runner/QueryRunner"
+import { TableColumn } from "../../../../../src/schema-builder/table/TableColumn"
+
+export class AddPostText1700000000002 implements MigrationInterface {
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.addColumn(
+            "post",
+            new TableColumn({
+                name: "text",
+                type: "varchar",
+                isNullable: true,
+            }),
+        )
+        await queryRunner.query(
+            `WITH "new_post" AS (SELECT 2 AS "id") INSERT INTO "post" ("id", "title") SELECT "id", 'Hi' FROM "new_post"`,
+        )
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("post", "text")
+    }
+}
@@ -0,0 +1,14 @@
+import { MigrationInterface } from "../../../../../src/migration/MigrationInterface"
+import { QueryRunner } from "../../../../../src/query-runner/QueryRunner"
+
+export class InsertPost1700000000001 implements MigrationInterface {
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `INSERT INTO "post" ("id", "title") VALUES (1, 'Hello')`,
+        )
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DELETE FROM "post"`)
+    }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface } from "../../../../../src/migration/MigrationInterface"
+import { QueryRunner } from "../../../../../src/query-runner/QueryRunner"
+
+export class InsertPostInTransaction1700000000003
+    implements MigrationInterface
+{
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.startTransaction()
+        await queryRunner.manager
+            .createQueryBuilder()
+            .insert()
+            .into("post")
+            .values({ id: 3, title: "In transaction" })
+            .execute()
+        await queryRunner.commitTransaction()
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.manager.query(`DELETE FROM "post" WHERE "id" = 3`)
+    }
+}
@@ -0,0 +1,161 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { Table } from "../../../../src/schema-builder/table/Table"
+import { CannotAcquireMigrationsLockError } from "../../../../src/error/CannotAcquireMigrationsLockError"
+import { CreatePost1700000000100 } from "./migration/CreatePost1700000000100"
+import { MigrationExecutor } from "../../../../src/migration/MigrationExecutor"
+import { TypeORMError } from "../../../../src/error/TypeORMError"
+
+describe("migrations > lock", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                migrations: [CreatePost1700000000100],
+                enabledDrivers: ["sqlite", "better-sqlite3", "sqljs"],
+                schemaCreate: true,
+                dropSchema: true,
+                driverSpecific: { migrationsLock: true },
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should run pending migrations only once when executed concurrently", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const results = await Promise.all([
+                    connection.runMigrations(),
+                    connection.runMigrations(),
+                ])
+                results
+                    .map((migrations) => migrations.length)
+                    .sort()
+                    .should.be.eql([0, 1])
+
+                const executedMigrations = await connection.query(
+                    `SELECT * FROM "migrations"`,
+                )
+                executedMigrations.length.should.be.equal(1)
+
+                // lock is released after migrations are executed
+                const lockRows = await connection.query(
+                    `SELECT * FROM "migrations_lock"`,
+                )
+                lockRows.length.should.be.equal(0)
+            }),
+        ))
+
+    it("should throw an error when lock cannot be acquired in time", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                connection.setOptions({ migrationsLockTimeout: 200 })
+
+                // simulate lock held by another process
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.createTable(
+                    new Table({
+                        name: "migrations_lock",
+                        columns: [
+                            { name: "id", type: "integer", isPrimary: true },
+                            { name: "timestamp", type: "bigint" },
+                        ],
+                    }),
+                    true,
+                )
+                await queryRunner.query(
+                    `INSERT INTO "migrations_lock" ("id", "timestamp") VALUES (1, ?)`,
+                    [Date.now()],
+                )
+
+                let error: unknown
+                try {
+                    await connection.runMigrations()
+                } catch (err) {
+                    error = err
+                }
+                expect(error).to.be.instanceOf(CannotAcquireMigrationsLockError)
+                ;(await queryRunner.hasTable("post")).should.be.equal(false)
+
+                await queryRunner.query(`DELETE FROM "migrations_lock"`)
+                await queryRunner.release()
+
+                const migrations = await connection.runMigrations()
+                migrations.length.should.be.equal(1)
+
+                connection.setOptions({ migrationsLockTimeout: undefined })
+            }),
+        ))
+
+    it("should remove stale lock row left by a crashed process", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                // simulate lock row left long ago
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.createTable(
+                    new Table({
+                        name: "migrations_lock",
+                        columns: [
+                            { name: "id", type: "integer", isPrimary: true },
+                            { name: "timestamp", type: "bigint" },
+                        ],
+                    }),
+                    true,
+                )
+                await queryRunner.query(
+                    `INSERT INTO "migrations_lock" ("id", "timestamp") VALUES (1, ?)`,
+                    [Date.now() - 3600000],
+                )
+                await queryRunner.release()
+
+                const migrations = await connection.runMigrations()
+                migrations.length.should.be.equal(1)
+
+                const lockRows = await connection.query(
+                    `SELECT * FROM "migrations_lock"`,
+                )
+                lockRows.length.should.be.equal(0)
+            }),
+        ))
+
+    it("should not replace migration results with an error of the lock release", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                class FailingLockReleaseMigrationExecutor extends MigrationExecutor {
+                    protected async releaseMigrationsLock(): Promise<void> {
+                        throw new TypeORMError("Lock release failed")
+                    }
+                }
+
+                const migrations =
+                    await new FailingLockReleaseMigrationExecutor(
+                        connection,
+                    ).executePendingMigrations()
+                migrations.length.should.be.equal(1)
+            }),
+        ))
+
+    it("should not use the lock unless it is enabled", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                connection.setOptions({ migrationsLock: undefined })
+
+                const migrations = await connection.runMigrations()
+                migrations.length.should.be.equal(1)
+
+                const queryRunner = connection.createQueryRunner()
+                ;(
+                    await queryRunner.hasTable("migrations_lock")
+                ).should.be.equal(false)
+                await queryRunner.release()
+
+                connection.setOptions({ migrationsLock: true })
+            }),
+        ))
+})
@@ -0,0 +1,21 @@
+import { MigrationInterface } from "../../../../../src/migration/MigrationInterface"
+import { QueryRunner } from "../../../../../src/query-runner/QueryRunner"
+import { Table } from "../../../../../src/schema-builder/table/Table"
+
+export class CreatePost1700000000100 implements MigrationInterface {
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.createTable(
+            new Table({
+                name: "post",
+                columns: [
+                    { name: "id", type: "integer", isPrimary: true },
+                    { name: "title", type: "varchar", length: "255" },
+                ],
+            }),
+        )
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("post")
+    }
+}
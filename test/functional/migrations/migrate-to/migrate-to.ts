@@ -0,0 +1,234 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { MigrationExecutor } from "../../../../src/migration/MigrationExecutor"
+import { TypeORMError } from "../../../../src/error/TypeORMError"
+import { CreatePost1700000000200 } from "./migration/CreatePost1700000000200"
+import { CreateCategory1700000000300 } from "./migration/CreateCategory1700000000300"
+import { CreateTag1700000000400 } from "./migration/CreateTag1700000000400"
+import { Failing1700000000500 } from "./migration/Failing1700000000500"
+
+describe("migrations > migrate to", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                migrations: [
+                    CreatePost1700000000200,
+                    CreateCategory1700000000300,
+                    CreateTag1700000000400,
+                    Failing1700000000500,
+                ],
+                enabledDrivers: [
+                    "postgres",
+                    "sqlite",
+                    "better-sqlite3",
+                    "sqljs",
+                ],
+                schemaCreate: true,
+                dropSchema: true,
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    const hasTables = async (connection: DataSource, tableNames: string[]) => {
+        const queryRunner = connection.createQueryRunner()
+        const result: boolean[] = []
+        for (const tableName of tableNames) {
+            result.push(await queryRunner.hasTable(tableName))
+        }
+        await queryRunner.release()
+        return result
+    }
+
+    it("should run pending migrations up to the target migration name", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const migrations = await connection.migrateTo(
+                    "CreateCategory1700000000300",
+                )
+                migrations
+                    .map((migration) => migration.name)
+                    .should.be.eql([
+                        "CreatePost1700000000200",
+                        "CreateCategory1700000000300",
+                    ])
+                ;(
+                    await hasTables(connection, ["post", "category", "tag"])
+                ).should.be.eql([true, true, false])
+
+                // target is already the last executed migration
+                ;(
+                    await connection.migrateTo("CreateCategory1700000000300")
+                ).length.should.be.equal(0)
+            }),
+        ))
+
+    it("should revert executed migrations down to the target migration timestamp", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.migrateTo(1700000000400)
+
+                const migrations = await connection.migrateTo("1700000000200")
+                migrations
+                    .map((migration) => migration.name)
+                    .should.be.eql([
+                        "CreateTag1700000000400",
+                        "CreateCategory1700000000300",
+                    ])
+                ;(
+                    await hasTables(connection, ["post", "category", "tag"])
+                ).should.be.eql([true, false, false])
+
+                const executedMigrations = await new MigrationExecutor(
+                    connection,
+                ).getExecutedMigrations()
+                executedMigrations
+                    .map((migration) => migration.name)
+                    .should.be.eql(["CreatePost1700000000200"])
+            }),
+        ))
+
+    it("should revert all executed migrations when target is 0", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.migrateTo("CreateTag1700000000400")
+
+                const migrations = await connection.migrateTo(0)
+                migrations.length.should.be.equal(3)
+                ;(
+                    await hasTables(connection, ["post", "category", "tag"])
+                ).should.be.eql([false, false, false])
+            }),
+        ))
+
+    it("should rollback the whole range when a migration fails in transaction mode all", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await expect(
+                    connection.migrateTo("Failing1700000000500"),
+                ).to.be.rejectedWith("Failing migration")
+                ;(
+                    await hasTables(connection, ["post", "category", "tag"])
+                ).should.be.eql([false, false, false])
+
+                // migrations before the failing one are kept in each transaction mode
+                await expect(
+                    connection.migrateTo("Failing1700000000500", {
+                        transaction: "each",
+                    }),
+                ).to.be.rejectedWith("Failing migration")
+                ;(
+                    await hasTables(connection, ["post", "category", "tag"])
+                ).should.be.eql([true, true, true])
+            }),
+        ))
+
+    it("should throw an error when target migration does not exist", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await expect(
+                    connection.migrateTo("Unknown1700000000999"),
+                ).to.be.rejectedWith(
+                    "No migration Unknown1700000000999 was found in the source code",
+                )
+            }),
+        ))
+
+    it("should throw an error when newer migrations than the unexecuted target are executed", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.migrateTo("CreateTag1700000000400")
+
+                // simulate migration history with the category migration not executed
+                await connection.query(
+                    `DELETE FROM "migrations" WHERE "name" = 'CreateCategory1700000000300'`,
+                )
+
+                await expect(
+                    connection.migrateTo("CreateCategory1700000000300"),
+                ).to.be.rejectedWith(
+                    "Cannot migrate to CreateCategory1700000000300, because newer migrations CreateTag1700000000400 are already executed",
+                )
+            }),
+        ))
+
+    it("should not revert migrations when only running them is allowed", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.migrateTo("CreateTag1700000000400")
+
+                await expect(
+                    connection.migrateTo("CreatePost1700000000200", {
+                        direction: "up",
+                    }),
+                ).to.be.rejectedWith(
+                    "Cannot run migrations to CreatePost1700000000200, because it requires reverting migrations CreateTag1700000000400, CreateCategory1700000000300",
+                )
+                await expect(
+                    new MigrationExecutor(connection).dryRunMigrateTo(
+                        "CreatePost1700000000200",
+                        "up",
+                    ),
+                ).to.be.rejectedWith(TypeORMError)
+                ;(
+                    await hasTables(connection, ["post", "category", "tag"])
+                ).should.be.eql([true, true, true])
+            }),
+        ))
+
+    it("should not run migrations when only reverting them is allowed", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.migrateTo("CreatePost1700000000200")
+
+                await expect(
+                    connection.migrateTo("CreateTag1700000000400", {
+                        direction: "down",
+                    }),
+                ).to.be.rejectedWith(
+                    "Cannot revert to CreateTag1700000000400, because it is not executed yet",
+                )
+                await expect(
+                    new MigrationExecutor(connection).dryRunMigrateTo(
+                        "CreateTag1700000000400",
+                        "down",
+                    ),
+                ).to.be.rejectedWith(TypeORMError)
+                ;(
+                    await hasTables(connection, ["post", "category", "tag"])
+                ).should.be.eql([true, false, false])
+
+                const migrations = await connection.migrateTo(0, {
+                    direction: "down",
+                })
+                migrations.length.should.be.equal(1)
+            }),
+        ))
+
+    it("should record queries of migrations to revert in dry-run", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.migrateTo("CreateTag1700000000400")
+
+                const dryRuns = await new MigrationExecutor(
+                    connection,
+                ).dryRunMigrateTo("CreatePost1700000000200")
+                dryRuns
+                    .map((dryRun) => [dryRun.migration.name, dryRun.direction])
+                    .should.be.eql([
+                        ["CreateTag1700000000400", "down"],
+                        ["CreateCategory1700000000300", "down"],
+                    ])
+                ;(
+                    await hasTables(connection, ["post", "category", "tag"])
+                ).should.be.eql([true, true, true])
+            }),
+        ))
+})
@@ -0,0 +1,18 @@
+import { MigrationInterface } from "../../../../../src/migration/MigrationInterface"
+import { QueryRunner } from "../../../../../src/query-runner/QueryRunner"
+import { Table } from "../../../../../src/schema-builder/table/Table"
+
+export class CreateTag1700000000400 implements MigrationInterface {
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.createTable(
+            new Table({
+                name: "tag",
+                columns: [{ name: "id", type: "integer", isPrimary: true }],
+            }),
+        )
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("tag")
+    }
+}
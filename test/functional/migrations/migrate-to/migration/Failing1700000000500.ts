@@ -0,0 +1,10 @@
+import { MigrationInterface } from "../../../../../src/migration/MigrationInterface"
+import { QueryRunner } from "../../../../../src/query-runner/QueryRunner"
+
+export class Failing1700000000500 implements MigrationInterface {
+    async up(queryRunner: QueryRunner): Promise<void> {
+        throw new Error("Failing migration")
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {}
+}
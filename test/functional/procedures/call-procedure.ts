@@ -0,0 +1,159 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { DriverUtils } from "../../../src/driver/DriverUtils"
+import { Account } from "./entity/Account"
+
+describe("procedures > call procedure", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Account],
+                enabledDrivers: [
+                    "postgres",
+                    "mysql",
+                    "mariadb",
+                    "mssql",
+                    "oracle",
+                ],
+                schemaCreate: true,
+                dropSchema: true,
+            })),
+    )
+    beforeEach(async () => {
+        await reloadTestingDatabases(connections)
+        await Promise.all(
+            connections.map(async (connection) => {
+                await connection.getRepository(Account).save([
+                    { id: 1, owner: "Alice", balance: 100 },
+                    { id: 2, owner: "Bob", balance: 50 },
+                ])
+
+                if (DriverUtils.isMySQLFamily(connection.driver)) {
+                    await connection.query("DROP PROCEDURE IF EXISTS `deposit`")
+                    await connection.query(
+                        "CREATE PROCEDURE `deposit`(IN account_id INT, INOUT amount INT, OUT total INT) " +
+                            "BEGIN " +
+                            "UPDATE `account` SET `balance` = `balance` + amount WHERE `id` = account_id; " +
+                            "SELECT `balance` INTO total FROM `account` WHERE `id` = account_id; " +
+                            "SET amount = amount * 2; " +
+                            "SELECT * FROM `account` ORDER BY `id`; " +
+                            "SELECT COUNT(*) AS `count` FROM `account`; " +
+                            "END",
+                    )
+                } else if (connection.driver.options.type === "mssql") {
+                    await connection.query(
+                        `CREATE OR ALTER PROCEDURE "deposit" @account_id INT, @amount INT OUTPUT, @total INT OUTPUT AS BEGIN ` +
+                            `UPDATE "account" SET "balance" = "balance" + @amount WHERE "id" = @account_id; ` +
+                            `SELECT @total = "balance" FROM "account" WHERE "id" = @account_id; ` +
+                            `SET @amount = @amount * 2; ` +
+                            `END`,
+                    )
+                } else if (connection.driver.options.type === "oracle") {
+                    await connection.query(
+                        `CREATE OR REPLACE PROCEDURE "deposit"(account_id IN NUMBER, amount IN OUT NUMBER, total OUT NUMBER) AS BEGIN ` +
+                            `UPDATE "account" SET "balance" = "balance" + amount WHERE "id" = account_id; ` +
+                            `SELECT "balance" INTO total FROM "account" WHERE "id" = account_id; ` +
+                            `amount := amount * 2; ` +
+                            `END;`,
+                    )
+                } else {
+                    await connection.query(
+                        `CREATE OR REPLACE PROCEDURE "deposit"(account_id INT, INOUT amount INT, OUT total INT) ` +
+                            `LANGUAGE plpgsql AS $$ BEGIN ` +
+                            `UPDATE "account" SET "balance" = "balance" + amount WHERE "id" = account_id; ` +
+                            `SELECT "balance" INTO total FROM "account" WHERE "id" = account_id; ` +
+                            `amount := amount * 2; ` +
+                            `END $$`,
+                    )
+                }
+            }),
+        )
+    })
+    after(() => closeTestingConnections(connections))
+
+    it("should return value of OUT parameter", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const result = await connection.manager.callProcedure(
+                    "deposit",
+                    [
+                        { name: "account_id", value: 1 },
+                        {
+                            name: "amount",
+                            value: 20,
+                            mode: "INOUT",
+                            type: "int",
+                        },
+                        { name: "total", mode: "OUT", type: "int" },
+                    ],
+                )
+
+                expect(Number(result.outputs.total)).to.be.equal(120)
+
+                const account = await connection
+                    .getRepository(Account)
+                    .findOneByOrFail({ id: 1 })
+                account.balance.should.be.equal(120)
+            }),
+        ))
+
+    it("should return value of INOUT parameter", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const result = await connection.manager.callProcedure(
+                    "deposit",
+                    [
+                        { name: "account_id", value: 2 },
+                        {
+                            name: "amount",
+                            value: 5,
+                            mode: "INOUT",
+                            type: "int",
+                        },
+                        { name: "total", mode: "OUT", type: "int" },
+                    ],
+                )
+
+                expect(Number(result.outputs.amount)).to.be.equal(10)
+                expect(Number(result.outputs.total)).to.be.equal(55)
+            }),
+        ))
+
+    it("should return all result sets and map result set onto entity", () =>
+        Promise.all(
+            connections
+                .filter((connection) =>
+                    DriverUtils.isMySQLFamily(connection.driver),
+                )
+                .map(async (connection) => {
+                    const result = await connection.manager.callProcedure(
+                        "deposit",
+                        [
+                            { value: 2 },
+                            { value: 5, mode: "INOUT" },
+                            { mode: "OUT" },
+                        ],
+                        { entity: Account },
+                    )
+
+                    result.resultSets.length.should.be.equal(2)
+                    expect(Number(result.resultSets[1][0].count)).to.be.equal(2)
+                    expect(Number(result.outputs["2"])).to.be.equal(55)
+
+                    result.entities.length.should.be.equal(2)
+                    result.entities[0].should.be.instanceOf(Account)
+                    result.entities[1].should.be.eql({
+                        id: 2,
+                        owner: "Bob",
+                        balance: 55,
+                    })
+                }),
+        ))
+})
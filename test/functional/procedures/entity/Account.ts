@@ -0,0 +1,15 @@
+import { Entity } from "../../../../src/decorator/entity/Entity"
+import { Column } from "../../../../src/decorator/columns/Column"
+import { PrimaryColumn } from "../../../../src/decorator/columns/PrimaryColumn"
+
+@Entity()
+export class Account {
+    @PrimaryColumn()
+    id: number
+
+    @Column()
+    owner: string
+
+    @Column()
+    balance: number
+}
@@ -0,0 +1,35 @@
+import { Entity } from "../../../../../src/decorator/entity/Entity"
+import { PrimaryColumn } from "../../../../../src/decorator/columns/PrimaryColumn"
+import { Column } from "../../../../../src/decorator/columns/Column"
+import { ManyToOne } from "../../../../../src/decorator/relations/ManyToOne"
+import { Author } from "./Author"
+
+@Entity()
+export class Post {
+    @PrimaryColumn()
+    id: number
+
+    @Column()
+    title: string
+
+    @Column()
+    rating: number
+
+    @Column()
+    createdAt: Date
+
+    @Column({
+        type: "int",
+        transformer: {
+            to: (value: number) => 100 - value,
+            from: (value: number) => 100 - value,
+        },
+    })
+    priority: number
+
+    @Column({ type: "varchar", nullable: true })
+    subtitle: string | null
+
+    @ManyToOne(() => Author)
+    author: Author
+}
@@ -0,0 +1,209 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { InvalidCursorError } from "../../../../src/error/InvalidCursorError"
+import { TypeORMError } from "../../../../src/error/TypeORMError"
+import { Author } from "./entity/Author"
+import { Post } from "./entity/Post"
+
+describe("query builder > cursor pagination", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [__dirname + "/entity/*{.js,.ts}"],
+                enabledDrivers: [
+                    "better-sqlite3",
+                    "cockroachdb",
+                    "mariadb",
+                    "mssql",
+                    "mysql",
+                    "oracle",
+                    "postgres",
+                    "sqlite",
+                    "sqljs",
+                ],
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    async function preparePosts(connection: DataSource) {
+        const author = await connection
+            .getRepository(Author)
+            .save({ id: 1, name: "Timber" })
+        await connection.getRepository(Post).save(
+            [1, 2, 3, 4, 5, 6, 7].map((id) => ({
+                id,
+                title: `Post #${id}`,
+                rating: id % 3,
+                createdAt: new Date(Date.UTC(2024, 0, id % 4)),
+                priority: id % 4,
+                subtitle: null,
+                author,
+            })),
+        )
+    }
+
+    it("should load pages forward and backward using cursors", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+                const repository = connection.getRepository(Post)
+
+                const firstPage = await repository
+                    .createQueryBuilder("post")
+                    .paginate({ first: 3, orderBy: { rating: "DESC" } })
+                expect(firstPage.items.map((post) => post.id)).to.be.eql([
+                    2, 5, 1,
+                ])
+                expect(firstPage.pageInfo.hasNextPage).to.be.true
+                expect(firstPage.pageInfo.hasPreviousPage).to.be.false
+
+                const secondPage = await repository
+                    .createQueryBuilder("post")
+                    .paginate({
+                        first: 3,
+                        after: firstPage.pageInfo.endCursor,
+                        orderBy: { rating: "DESC" },
+                    })
+                expect(secondPage.items.map((post) => post.id)).to.be.eql([
+                    4, 7, 3,
+                ])
+                expect(secondPage.pageInfo.hasNextPage).to.be.true
+                expect(secondPage.pageInfo.hasPreviousPage).to.be.true
+
+                const lastPage = await repository
+                    .createQueryBuilder("post")
+                    .paginate({
+                        first: 3,
+                        after: secondPage.pageInfo.endCursor,
+                        orderBy: { rating: "DESC" },
+                    })
+                expect(lastPage.items.map((post) => post.id)).to.be.eql([6])
+                expect(lastPage.pageInfo.hasNextPage).to.be.false
+
+                const previousPage = await repository
+                    .createQueryBuilder("post")
+                    .paginate({
+                        last: 2,
+                        before: secondPage.pageInfo.startCursor,
+                        orderBy: { rating: "DESC" },
+                    })
+                expect(previousPage.items.map((post) => post.id)).to.be.eql([
+                    5, 1,
+                ])
+                expect(previousPage.pageInfo.hasPreviousPage).to.be.true
+                expect(previousPage.pageInfo.hasNextPage).to.be.true
+            }),
+        ))
+
+    it("should respect query conditions and date columns in cursors", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const query = () =>
+                    connection
+                        .getRepository(Post)
+                        .createQueryBuilder("post")
+                        .where("post.rating > :rating", { rating: 0 })
+                        .orWhere("post.id = :id", { id: 3 })
+
+                const firstPage = await query().paginate({
+                    first: 2,
+                    orderBy: { createdAt: "ASC" },
+                })
+                const secondPage = await query().paginate({
+                    first: 10,
+                    after: firstPage.pageInfo.endCursor,
+                    orderBy: { createdAt: "ASC" },
+                })
+
+                expect(
+                    [...firstPage.items, ...secondPage.items].map(
+                        (post) => post.id,
+                    ),
+                ).to.be.eql([4, 1, 5, 2, 3, 7])
+                expect(secondPage.pageInfo.hasNextPage).to.be.false
+            }),
+        ))
+
+    it("should compare transformed values of ordered columns", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                // priority is stored in reverse order, so pages are ordered by the stored values
+                const query = () =>
+                    connection.getRepository(Post).createQueryBuilder("post")
+                const firstPage = await query().paginate({
+                    first: 3,
+                    orderBy: { priority: "ASC" },
+                })
+                const secondPage = await query().paginate({
+                    first: 10,
+                    after: firstPage.pageInfo.endCursor,
+                    orderBy: { priority: "ASC" },
+                })
+
+                expect(
+                    [...firstPage.items, ...secondPage.items].map(
+                        (post) => post.id,
+                    ),
+                ).to.be.eql([3, 7, 2, 6, 1, 5, 4])
+            }),
+        ))
+
+    it("should throw when ordered by nullable column", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await expect(
+                    connection
+                        .getRepository(Post)
+                        .createQueryBuilder("post")
+                        .paginate({ first: 2, orderBy: { subtitle: "ASC" } }),
+                ).to.be.rejectedWith(TypeORMError)
+            }),
+        ))
+
+    it("should paginate using repository find options with relations", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const page = await connection.getRepository(Post).paginate({
+                    where: { author: { id: 1 } },
+                    relations: { author: true },
+                    first: 2,
+                    after: (
+                        await connection
+                            .getRepository(Post)
+                            .paginate({ first: 2 })
+                    ).pageInfo.endCursor,
+                })
+
+                expect(page.items.map((post) => post.id)).to.be.eql([3, 4])
+                expect(page.items[0].author.name).to.be.equal("Timber")
+                expect(page.cursors.length).to.be.equal(2)
+                expect(page.pageInfo.hasNextPage).to.be.true
+                expect(page.pageInfo.hasPreviousPage).to.be.true
+            }),
+        ))
+
+    it("should throw on invalid cursor", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await expect(
+                    connection
+                        .getRepository(Post)
+                        .paginate({ first: 2, after: "not a cursor" }),
+                ).to.be.rejectedWith(InvalidCursorError)
+            }),
+        ))
+})
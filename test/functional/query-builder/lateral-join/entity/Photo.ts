@@ -0,0 +1,20 @@
+import { Entity } from "../../../../../src/decorator/entity/Entity"
+import { PrimaryColumn } from "../../../../../src/decorator/columns/PrimaryColumn"
+import { Column } from "../../../../../src/decorator/columns/Column"
+import { ManyToOne } from "../../../../../src/decorator/relations/ManyToOne"
+import { Post } from "./Post"
+
+@Entity()
+export class Photo {
+    @PrimaryColumn()
+    id: number
+
+    @Column()
+    url: string
+
+    @Column()
+    postId: number
+
+    @ManyToOne(() => Post, (post) => post.photos)
+    post: Post
+}
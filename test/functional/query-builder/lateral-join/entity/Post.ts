@@ -0,0 +1,19 @@
+import { Entity } from "../../../../../src/decorator/entity/Entity"
+import { PrimaryColumn } from "../../../../../src/decorator/columns/PrimaryColumn"
+import { Column } from "../../../../../src/decorator/columns/Column"
+import { OneToMany } from "../../../../../src/decorator/relations/OneToMany"
+import { Photo } from "./Photo"
+
+@Entity()
+export class Post {
+    @PrimaryColumn()
+    id: number
+
+    @Column()
+    title: string
+
+    @OneToMany(() => Photo, (photo) => photo.post)
+    photos: Photo[]
+
+    latestPhotos: Photo[]
+}
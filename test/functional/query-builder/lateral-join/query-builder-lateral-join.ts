@@ -0,0 +1,189 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { TypeORMError } from "../../../../src/error/TypeORMError"
+import { Post } from "./entity/Post"
+import { Photo } from "./entity/Photo"
+
+describe("query builder > lateral and cross joins", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [__dirname + "/entity/*{.js,.ts}"],
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    const lateralJoinDrivers = [
+        "aurora-postgres",
+        "cockroachdb",
+        "mssql",
+        "mysql",
+        "oracle",
+        "postgres",
+    ]
+
+    async function preparePosts(connection: DataSource) {
+        await connection.getRepository(Post).save([
+            { id: 1, title: "About TypeORM" },
+            { id: 2, title: "About databases" },
+            { id: 3, title: "About nothing" },
+        ])
+        await connection.getRepository(Photo).save([
+            { id: 1, url: "typeorm-1.jpg", postId: 1 },
+            { id: 2, url: "typeorm-2.jpg", postId: 1 },
+            { id: 3, url: "typeorm-3.jpg", postId: 1 },
+            { id: 4, url: "databases-1.jpg", postId: 2 },
+        ])
+    }
+
+    it("should cross join entities", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const rows = await connection
+                    .createQueryBuilder(Post, "post")
+                    .select("post.id", "postId")
+                    .crossJoin(Photo, "photo")
+                    .addSelect("photo.id", "photoId")
+                    .orderBy("post.id")
+                    .addOrderBy("photo.id")
+                    .getRawMany()
+
+                expect(rows.length).to.be.equal(12)
+                expect(Number(rows[0].postId)).to.be.equal(1)
+                expect(Number(rows[0].photoId)).to.be.equal(1)
+            }),
+        ))
+
+    it("should cross join and map entities", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const post = await connection
+                    .createQueryBuilder(Post, "post")
+                    .crossJoinAndMapMany("post.latestPhotos", Photo, "photo")
+                    .where("post.id = :id", { id: 3 })
+                    .orderBy("photo.id")
+                    .getOneOrFail()
+
+                expect(post.latestPhotos.map((photo) => photo.id)).to.be.eql([
+                    1, 2, 3, 4,
+                ])
+            }),
+        ))
+
+    it("should throw an error when relation is cross joined", () =>
+        connections.forEach((connection) => {
+            expect(() =>
+                connection
+                    .createQueryBuilder(Post, "post")
+                    .crossJoin("post.photos", "photo"),
+            ).to.throw(TypeORMError)
+        }))
+
+    it("should select top N children per parent using lateral join", () =>
+        Promise.all(
+            connections
+                .filter((connection) =>
+                    lateralJoinDrivers.includes(connection.driver.options.type),
+                )
+                .map(async (connection) => {
+                    await preparePosts(connection)
+
+                    const posts = await connection
+                        .createQueryBuilder(Post, "post")
+                        .leftJoinLateralAndMapMany(
+                            "post.latestPhotos",
+                            (qb) =>
+                                qb
+                                    .select("*")
+                                    .from(Photo, "photo")
+                                    .where("photo.postId = post.id")
+                                    .orderBy("photo.id", "DESC")
+                                    .limit(2),
+                            "latestPhoto",
+                            undefined,
+                            undefined,
+                            Photo,
+                        )
+                        .orderBy("post.id")
+                        .addOrderBy("latestPhoto.id", "DESC")
+                        .getMany()
+
+                    expect(
+                        posts.map((post) =>
+                            post.latestPhotos.map((photo) => photo.id),
+                        ),
+                    ).to.be.eql([[3, 2], [4], []])
+                    expect(posts[0].latestPhotos[0]).to.be.instanceOf(Photo)
+                }),
+        ))
+
+    it("should filter parents without children using inner lateral join", () =>
+        Promise.all(
+            connections
+                .filter((connection) =>
+                    lateralJoinDrivers.includes(connection.driver.options.type),
+                )
+                .map(async (connection) => {
+                    await preparePosts(connection)
+
+                    // columns of joined subqueries are not resolved, so they must be escaped
+                    const url = `${connection.driver.escape(
+                        "firstPhoto",
+                    )}.${connection.driver.escape("url")}`
+                    const rows = await connection
+                        .createQueryBuilder(Post, "post")
+                        .select("post.id", "postId")
+                        .innerJoinLateral(
+                            (qb) =>
+                                qb
+                                    .select("photo.url", "url")
+                                    .from(Photo, "photo")
+                                    .where("photo.postId = post.id"),
+                            "firstPhoto",
+                            `${url} LIKE :url`,
+                            { url: "%-1.jpg" },
+                        )
+                        .addSelect(url, "url")
+                        .orderBy("post.id")
+                        .getRawMany()
+
+                    expect(
+                        rows.map((row) => [Number(row.postId), row.url]),
+                    ).to.be.eql([
+                        [1, "typeorm-1.jpg"],
+                        [2, "databases-1.jpg"],
+                    ])
+                }),
+        ))
+
+    it("should throw an error when lateral joins are not supported", () =>
+        connections
+            .filter(
+                (connection) =>
+                    !lateralJoinDrivers.includes(
+                        connection.driver.options.type,
+                    ),
+            )
+            .forEach((connection) => {
+                expect(() =>
+                    connection
+                        .createQueryBuilder(Post, "post")
+                        .leftJoinLateral(
+                            (qb) => qb.from(Photo, "photo"),
+                            "photo",
+                        ),
+                ).to.throw(TypeORMError)
+            }))
+})
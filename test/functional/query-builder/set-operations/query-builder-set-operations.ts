@@ -0,0 +1,248 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { Post } from "./entity/Post"
+
+describe("query builder > set operations", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [__dirname + "/entity/*{.js,.ts}"],
+                enabledDrivers: [
+                    "better-sqlite3",
+                    "cockroachdb",
+                    "mssql",
+                    "oracle",
+                    "postgres",
+                    "sqlite",
+                    "sqljs",
+                ],
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    async function preparePosts(connection: DataSource) {
+        await connection.getRepository(Post).save([
+            { id: 1, title: "About TypeORM", rating: 10 },
+            { id: 2, title: "About databases", rating: 5 },
+            { id: 3, title: "About ORMs", rating: 8 },
+            { id: 4, title: "About SQL", rating: 1 },
+        ])
+    }
+
+    it("should combine results of queries using union and merge their parameters", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const posts = await connection
+                    .createQueryBuilder(Post, "post")
+                    .where("post.rating > :minRating", { minRating: 7 })
+                    .union(
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .where("post.rating < :maxRating", {
+                                maxRating: 2,
+                            }),
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .where("post.id = :id", { id: 1 }),
+                    )
+                    .orderBy("post.id", "ASC")
+                    .getMany()
+
+                expect(posts.map((post) => post.id)).to.be.eql([1, 3, 4])
+                posts.forEach((post) => expect(post).to.be.instanceOf(Post))
+            }),
+        ))
+
+    it("should not mix up same-named parameters of combined queries", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const query = connection
+                    .createQueryBuilder(Post, "post")
+                    .where("post.id = :id", { id: 1 })
+                    .union(
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .where("post.id = :id", { id: 3 }),
+                    )
+                    .orderBy("post.id", "ASC")
+
+                // generating sql does not change parameters of the query
+                query.getQuery()
+                expect(query.expressionMap.parameters).to.be.eql({ id: 1 })
+
+                const posts = await query.getMany()
+                expect(posts.map((post) => post.id)).to.be.eql([1, 3])
+            }),
+        ))
+
+    it("should not rename parameter-like text in string literals of combined queries", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const query = connection
+                    .createQueryBuilder(Post, "post")
+                    .where("post.id = :id", { id: 1 })
+                    .union(
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .where(
+                                "post.title = :title AND post.title <> ':title'",
+                                { title: "About SQL" },
+                            ),
+                    )
+                    .orderBy("post.id", "ASC")
+
+                expect(query.getQuery()).to.contain("<> ':title'")
+                expect(query.getParameters()).to.be.eql({
+                    id: 1,
+                    set_operation_0_title: "About SQL",
+                })
+
+                const posts = await query.getMany()
+                expect(posts.map((post) => post.id)).to.be.eql([1, 4])
+            }),
+        ))
+
+    it("should apply mixed set operations in the order they were added", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const posts = await connection
+                    .createQueryBuilder(Post, "post")
+                    .where("post.rating >= :minRating", { minRating: 8 })
+                    .union(
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .where("post.rating < :maxRating", {
+                                maxRating: 2,
+                            }),
+                    )
+                    .intersect(
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .where("post.id IN (:...ids)", { ids: [2, 3, 4] }),
+                    )
+                    .orderBy("post.id", "ASC")
+                    .getMany()
+
+                // (1, 3 UNION 4) INTERSECT 2, 3, 4, not 1, 3 UNION (4 INTERSECT 2, 3, 4)
+                expect(posts.map((post) => post.id)).to.be.eql([3, 4])
+            }),
+        ))
+
+    it("should keep duplicates when union all is used", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const posts = await connection
+                    .createQueryBuilder(Post, "post")
+                    .where("post.rating > :minRating", { minRating: 7 })
+                    .unionAll(
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .where("post.id = :id", { id: 1 }),
+                    )
+                    .orderBy("post.id", "ASC")
+                    .getRawMany()
+
+                expect(posts.map((post) => post.post_id)).to.be.eql([1, 1, 3])
+            }),
+        ))
+
+    it("should intersect and except results of queries", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const intersected = await connection
+                    .createQueryBuilder(Post, "post")
+                    .where("post.rating > :minRating", { minRating: 4 })
+                    .intersect(
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .where("post.rating < :maxRating", {
+                                maxRating: 9,
+                            }),
+                    )
+                    .orderBy("post.id", "ASC")
+                    .getMany()
+
+                expect(intersected.map((post) => post.id)).to.be.eql([2, 3])
+
+                const excepted = await connection
+                    .createQueryBuilder(Post, "post")
+                    .except(
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .where("post.rating < :maxRating", {
+                                maxRating: 9,
+                            }),
+                    )
+                    .getMany()
+
+                expect(excepted.map((post) => post.id)).to.be.eql([1])
+            }),
+        ))
+
+    it("should apply order, limit and count to the combined result", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const query = connection
+                    .createQueryBuilder(Post, "post")
+                    .where("post.rating >= :minRating", { minRating: 8 })
+                    .union(
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .where("post.title = :title", {
+                                title: "About SQL",
+                            }),
+                    )
+                    .orderBy("post.rating", "DESC")
+                    .skip(1)
+                    .take(2)
+
+                const [posts, count] = await query.getManyAndCount()
+
+                expect(posts.map((post) => post.id)).to.be.eql([3, 4])
+                expect(count).to.be.equal(3)
+            }),
+        ))
+
+    it("should allow combined queries with their own order and limit", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const posts = await connection
+                    .createQueryBuilder(Post, "post")
+                    .where("post.id = :id", { id: 2 })
+                    .union(
+                        connection
+                            .createQueryBuilder(Post, "post")
+                            .orderBy("post.rating", "DESC")
+                            .limit(1),
+                    )
+                    .orderBy("post.id", "ASC")
+                    .getMany()
+
+                expect(posts.map((post) => post.id)).to.be.eql([1, 2])
+            }),
+        ))
+})
@@ -0,0 +1,19 @@
+import { Entity } from "../../../../../src/decorator/entity/Entity"
+import { PrimaryColumn } from "../../../../../src/decorator/columns/PrimaryColumn"
+import { Column } from "../../../../../src/decorator/columns/Column"
+import { VirtualColumn } from "../../../../../src/decorator/columns/VirtualColumn"
+
+@Entity()
+export class Post {
+    @PrimaryColumn()
+    id: number
+
+    @Column()
+    authorId: number
+
+    @Column()
+    rating: number
+
+    @VirtualColumn({ type: "int", query: () => "NULL" })
+    positionInAuthor?: number
+}
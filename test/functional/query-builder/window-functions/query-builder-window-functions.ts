@@ -0,0 +1,175 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { EntityPropertyNotFoundError } from "../../../../src/error/EntityPropertyNotFoundError"
+import { TypeORMError } from "../../../../src/error/TypeORMError"
+import { Post } from "./entity/Post"
+
+describe("query builder > window functions", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [__dirname + "/entity/*{.js,.ts}"],
+                enabledDrivers: [
+                    "better-sqlite3",
+                    "cockroachdb",
+                    "mysql",
+                    "postgres",
+                    "sqlite",
+                    "sqljs",
+                ],
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    async function preparePosts(connection: DataSource) {
+        await connection.getRepository(Post).save([
+            { id: 1, authorId: 1, rating: 10 },
+            { id: 2, authorId: 1, rating: 5 },
+            { id: 3, authorId: 2, rating: 8 },
+            { id: 4, authorId: 1, rating: 7 },
+        ])
+    }
+
+    it("should escape and resolve property paths of window expressions", () =>
+        connections.map((connection) => {
+            const sql = connection
+                .createQueryBuilder(Post, "post")
+                .select("post.id", "id")
+                .addSelectWindow(
+                    (window) =>
+                        window
+                            .rowNumber()
+                            .partitionBy("post.authorId")
+                            .orderBy("post.rating", "DESC"),
+                    "rowNumber",
+                )
+                .getQuery()
+
+            expect(sql).to.contain(
+                `ROW_NUMBER() OVER (PARTITION BY ${connection.driver.escape(
+                    "post",
+                )}.${connection.driver.escape(
+                    "authorId",
+                )} ORDER BY ${connection.driver.escape(
+                    "post",
+                )}.${connection.driver.escape(
+                    "rating",
+                )} DESC) AS ${connection.driver.escape("rowNumber")}`,
+            )
+        }))
+
+    it("should select ranking and running totals", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const rows = await connection
+                    .createQueryBuilder(Post, "post")
+                    .select("post.id", "id")
+                    .addSelectWindow(
+                        (window) =>
+                            window
+                                .denseRank()
+                                .partitionBy("post.authorId")
+                                .orderBy("post.rating", "DESC"),
+                        "rank",
+                    )
+                    .addSelectWindow(
+                        (window) =>
+                            window
+                                .runningSum("post.rating")
+                                .partitionBy("post.authorId")
+                                .orderBy("post.id"),
+                        "total",
+                    )
+                    .addSelectWindow(
+                        (window) => window.lag("post.rating", 1, 0).over("w"),
+                        "previousRating",
+                    )
+                    .window("w", (window) =>
+                        window.partitionBy("post.authorId").orderBy("post.id"),
+                    )
+                    .orderBy("post.id")
+                    .getRawMany()
+
+                expect(
+                    rows.map((row) => [
+                        Number(row.id),
+                        Number(row.rank),
+                        Number(row.total),
+                        Number(row.previousRating),
+                    ]),
+                ).to.be.eql([
+                    [1, 1, 10, 0],
+                    [2, 3, 15, 10],
+                    [3, 1, 8, 0],
+                    [4, 2, 22, 5],
+                ])
+            }),
+        ))
+
+    it("should map window function value onto entity property", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await preparePosts(connection)
+
+                const posts = await connection
+                    .createQueryBuilder(Post, "post")
+                    .addSelectWindowAndMap(
+                        (window) =>
+                            window
+                                .rowNumber()
+                                .partitionBy("post.authorId")
+                                .orderBy("post.rating", "DESC"),
+                        "post.positionInAuthor",
+                    )
+                    .orderBy("post.id")
+                    .getMany()
+
+                expect(
+                    posts.map((post) => [post.id, post.positionInAuthor]),
+                ).to.be.eql([
+                    [1, 1],
+                    [2, 3],
+                    [3, 1],
+                    [4, 2],
+                ])
+            }),
+        ))
+
+    it("should throw when window function using named window has its own partitions or orders", () =>
+        connections.map((connection) => {
+            expect(() =>
+                connection
+                    .createQueryBuilder(Post, "post")
+                    .addSelectWindow(
+                        (window) =>
+                            window
+                                .rank()
+                                .partitionBy("post.authorId")
+                                .over("w"),
+                        "rank",
+                    ),
+            ).to.throw(TypeORMError)
+        }))
+
+    it("should throw when window expression uses unknown property", () =>
+        connections.map((connection) => {
+            expect(() =>
+                connection
+                    .createQueryBuilder(Post, "post")
+                    .addSelectWindow(
+                        (window) => window.rank().orderBy("post.unknown"),
+                        "rank",
+                    ),
+            ).to.throw(EntityPropertyNotFoundError)
+        }))
+})
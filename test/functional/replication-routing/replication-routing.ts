@@ -0,0 +1,112 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import sinon from "sinon"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+    sleep,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { Post } from "./entity/Post"
+
+describe("replication routing > sticky reads", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Post],
+                enabledDrivers: [
+                    "sqlite",
+                    "better-sqlite3",
+                    "sqljs",
+                    "postgres",
+                    "mysql",
+                ],
+                driverSpecific: {
+                    replicationRouting: { stickyReadsAfterWrite: 200 },
+                },
+            })),
+    )
+    beforeEach(async () => {
+        await reloadTestingDatabases(connections)
+        await sleep(200)
+    })
+    after(() => closeTestingConnections(connections))
+
+    it("should read from master after a write until sticky time passes", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                expect(connection.defaultReplicationModeForReads()).to.equal(
+                    "slave",
+                )
+
+                await connection.getRepository(Post).save({ title: "About" })
+
+                const createQueryRunner = sinon.spy(
+                    connection,
+                    "createQueryRunner",
+                )
+                try {
+                    await connection.getRepository(Post).find()
+                    expect(createQueryRunner.firstCall.args[0]).to.equal(
+                        "master",
+                    )
+                } finally {
+                    createQueryRunner.restore()
+                }
+
+                await sleep(300)
+                expect(connection.defaultReplicationModeForReads()).to.equal(
+                    "slave",
+                )
+            }),
+        ))
+
+    it("should read from master after writes made by query builder", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection
+                    .createQueryBuilder()
+                    .update(Post)
+                    .set({ title: "About" })
+                    .execute()
+
+                expect(connection.defaultReplicationModeForReads()).to.equal(
+                    "master",
+                )
+            }),
+        ))
+
+    it("should read from master once a transaction writing data is committed", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.transaction(async (manager) => {
+                    await manager.getRepository(Post).save({ title: "About" })
+                    await sleep(300)
+                })
+
+                expect(connection.defaultReplicationModeForReads()).to.equal(
+                    "master",
+                )
+            }),
+        ))
+
+    it("should not read from master after a transaction is rolled back", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection
+                    .transaction(async (manager) => {
+                        await manager
+                            .getRepository(Post)
+                            .save({ title: "About" })
+                        throw new Error("rollback")
+                    })
+                    .catch(() => {})
+
+                expect(connection.defaultReplicationModeForReads()).to.equal(
+                    "slave",
+                )
+            }),
+        ))
+})
@@ -0,0 +1,9 @@
+import { Column } from "../../../../src"
+
+export class Name {
+    @Column({ length: 50 })
+    first: string
+
+    @Column({ type: "varchar", nullable: true })
+    last: string | null
+}
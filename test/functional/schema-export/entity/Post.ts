@@ -0,0 +1,31 @@
+import {
+    Entity,
+    Index,
+    JoinTable,
+    ManyToMany,
+    ManyToOne,
+    PrimaryGeneratedColumn,
+    Column,
+} from "../../../../src"
+import { Tag } from "./Tag"
+import { User } from "./User"
+
+@Entity("posts")
+@Index("IDX_post_title", ["title"])
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column()
+    title: string
+
+    @ManyToOne(() => User, (user) => user.posts, {
+        nullable: false,
+        onDelete: "CASCADE",
+    })
+    author: User
+
+    @ManyToMany(() => Tag, { cascade: ["insert"] })
+    @JoinTable()
+    tags: Tag[]
+}
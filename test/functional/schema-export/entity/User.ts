@@ -0,0 +1,36 @@
+import {
+    Column,
+    CreateDateColumn,
+    Entity,
+    OneToMany,
+    PrimaryGeneratedColumn,
+} from "../../../../src"
+import { Name } from "./Name"
+import { Post } from "./Post"
+
+@Entity()
+export class User {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column(() => Name)
+    name: Name
+
+    @Column({ select: false })
+    password: string
+
+    @Column({ type: "simple-enum", enum: ["admin", "user"], default: "user" })
+    role: "admin" | "user"
+
+    @Column({ type: "decimal", precision: 6, scale: 2 })
+    balance: string
+
+    @Column({ type: "text", nullable: true, comment: "About the user" })
+    bio: string | null
+
+    @CreateDateColumn()
+    createdAt: Date
+
+    @OneToMany(() => Post, (post) => post.author)
+    posts: Post[]
+}
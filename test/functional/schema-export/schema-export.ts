@@ -0,0 +1,248 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import * as ts from "typescript"
+import * as typeorm from "../../../src"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { EntitySchema } from "../../../src/entity-schema/EntitySchema"
+import { SqljsDriver } from "../../../src/driver/sqljs/SqljsDriver"
+import { JsonSchemaExporter } from "../../../src/schema-export/JsonSchemaExporter"
+import {
+    EntitySchemaExporter,
+    ExportedEntitySchema,
+} from "../../../src/schema-export/EntitySchemaExporter"
+import { Post } from "./entity/Post"
+import { User } from "./entity/User"
+
+describe("schema export", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [__dirname + "/entity/*{.js,.ts}"],
+                enabledDrivers: ["sqljs"],
+                schemaCreate: true,
+            })),
+    )
+    after(() => closeTestingConnections(connections))
+
+    /**
+     * Compiles exported files and gets entity schemas declared in them.
+     */
+    const loadEntitySchemas = (files: ExportedEntitySchema[]) => {
+        const modules: { [name: string]: { exports: any } } = {}
+        const load = (name: string) => {
+            if (modules[name]) return modules[name].exports
+
+            const file = files.find((file) => file.name === name)!
+            const module = (modules[name] = { exports: {} })
+            const { outputText } = ts.transpileModule(file.content, {
+                compilerOptions: { module: ts.ModuleKind.CommonJS },
+            })
+            new Function("require", "exports", "module", outputText)(
+                (path: string) =>
+                    path === "typeorm" ? typeorm : load(path.substr(2)),
+                module.exports,
+                module,
+            )
+            return module.exports
+        }
+
+        return files.map(
+            (file) => load(file.name)[file.name + "Schema"] as EntitySchema,
+        )
+    }
+
+    describe("JSON Schema", () => {
+        it("should export columns with their constraints", () =>
+            connections.forEach((connection) => {
+                const schema = new JsonSchemaExporter(connection).createSchema(
+                    User,
+                )
+
+                expect(schema.$schema).to.be.equal(
+                    "https://json-schema.org/draft/2020-12/schema",
+                )
+                expect(schema.$id).to.be.equal("User.json")
+                expect(schema.title).to.be.equal("User")
+                expect(schema.type).to.be.equal("object")
+                expect(schema.properties.id).to.be.eql({
+                    type: "integer",
+                    readOnly: true,
+                })
+                expect(schema.properties.role).to.be.eql({
+                    enum: ["admin", "user"],
+                    default: "user",
+                })
+                expect(schema.properties.balance).to.be.eql({
+                    type: "string",
+                    pattern: "^-?\\d{1,4}(\\.\\d{1,2})?$",
+                })
+                expect(schema.properties.bio).to.be.eql({
+                    type: ["string", "null"],
+                    description: "About the user",
+                })
+                expect(schema.properties.createdAt).to.be.eql({
+                    type: "string",
+                    format: "date-time",
+                    readOnly: true,
+                })
+            }))
+
+        it("should export columns not selected by default as write only", () =>
+            connections.forEach((connection) => {
+                const schema = new JsonSchemaExporter(connection).createSchema(
+                    User,
+                )
+
+                expect(schema.properties.password).to.be.eql({
+                    type: "string",
+                    writeOnly: true,
+                })
+                expect(schema.required).to.be.eql(["balance", "name"])
+            }))
+
+        it("should export embedded columns as nested objects", () =>
+            connections.forEach((connection) => {
+                const schema = new JsonSchemaExporter(connection).createSchema(
+                    User,
+                )
+
+                expect(schema.properties.name).to.be.eql({
+                    type: "object",
+                    properties: {
+                        first: { type: "string", maxLength: 50 },
+                        last: { type: ["string", "null"] },
+                    },
+                    required: ["first"],
+                })
+            }))
+
+        it("should export relations as references to related schemas", () =>
+            connections.forEach((connection) => {
+                const schemas = new JsonSchemaExporter(connection, {
+                    baseUri: "https://example.com/schemas/",
+                }).createSchemas()
+
+                // junction tables are not exported
+                expect(Object.keys(schemas).sort()).to.be.eql([
+                    "Post",
+                    "Tag",
+                    "User",
+                ])
+                expect(schemas.Post.$id).to.be.equal(
+                    "https://example.com/schemas/Post.json",
+                )
+                expect(schemas.Post.properties.author).to.be.eql({
+                    $ref: "User.json",
+                })
+                expect(schemas.Post.properties.tags).to.be.eql({
+                    type: "array",
+                    items: { $ref: "Tag.json" },
+                })
+                expect(schemas.User.properties.posts).to.be.eql({
+                    type: "array",
+                    items: { $ref: "Post.json" },
+                })
+            }))
+    })
+
+    describe("EntitySchema", () => {
+        it("should export entities as entity schema files", () =>
+            connections.forEach((connection) => {
+                const files = new EntitySchemaExporter(connection).generate()
+                const post = files.find((file) => file.name === "Post")!
+
+                expect(files.map((file) => file.fileName).sort()).to.be.eql([
+                    "Post.ts",
+                    "Tag.ts",
+                    "User.ts",
+                ])
+                expect(post.content).to.contain(
+                    [
+                        `import { EntitySchema } from "typeorm"`,
+                        `import { Tag } from "./Tag"`,
+                        `import { User } from "./User"`,
+                        ``,
+                        `export interface Post {`,
+                        `    id: number`,
+                        `    title: string`,
+                        `    author: User`,
+                        `    tags: Tag[]`,
+                        `}`,
+                        ``,
+                        `export const PostSchema = new EntitySchema<Post>({`,
+                        `    name: "Post",`,
+                        `    tableName: "posts",`,
+                    ].join("\n"),
+                )
+                expect(post.content).to.contain(
+                    [
+                        `        author: {`,
+                        `            type: "many-to-one",`,
+                        `            target: "User",`,
+                        `            inverseSide: "posts",`,
+                        `            joinColumn: {`,
+                        `                name: "authorId",`,
+                        `                referencedColumnName: "id",`,
+                        `            },`,
+                        `            nullable: false,`,
+                        `            onDelete: "CASCADE",`,
+                        `        },`,
+                    ].join("\n"),
+                )
+            }))
+
+        it("should export entity schemas creating the same database schema", () =>
+            Promise.all(
+                connections.map(async (connection) => {
+                    const schemas = loadEntitySchemas(
+                        new EntitySchemaExporter(connection).generate(),
+                    )
+
+                    // entity schemas are used with a copy of the database created from decorated entities
+                    const dataSource = new DataSource({
+                        type: "sqljs",
+                        database: (
+                            connection.driver as SqljsDriver
+                        ).databaseConnection.export(),
+                        entities: schemas,
+                    })
+                    await dataSource.initialize()
+                    try {
+                        const sqlInMemory = await dataSource.driver
+                            .createSchemaBuilder()
+                            .log()
+                        expect(sqlInMemory.upQueries).to.be.eql([])
+
+                        const user = await dataSource.manager.save("User", {
+                            name: { first: "Timber", last: null },
+                            password: "secret",
+                            balance: "10.50",
+                        })
+                        await dataSource.manager.save("Post", {
+                            title: "About export",
+                            author: user,
+                            tags: [{ name: "typeorm" }],
+                        })
+                        const post = await dataSource.manager.findOne<Post>(
+                            "Post",
+                            {
+                                where: { title: "About export" },
+                                relations: { author: true, tags: true },
+                            },
+                        )
+                        expect(post!.author.name.first).to.be.equal("Timber")
+                        expect(post!.tags.map((tag) => tag.name)).to.be.eql([
+                            "typeorm",
+                        ])
+                    } finally {
+                        await dataSource.destroy()
+                    }
+                }),
+            ))
+    })
+})
@@ -0,0 +1,8 @@
+import { SeederInterface } from "../../../../src/seed/SeederInterface"
+import { QueryRunner } from "../../../../src/query-runner/QueryRunner"
+
+export class FailingSeeder1700000000002 implements SeederInterface {
+    async run(queryRunner: QueryRunner): Promise<void> {
+        throw new Error("Seeder failed")
+    }
+}
@@ -0,0 +1,12 @@
+import { SeederInterface } from "../../../../src/seed/SeederInterface"
+import { QueryRunner } from "../../../../src/query-runner/QueryRunner"
+import { Post } from "../entity/Post"
+
+export class PostSeeder1700000000000 implements SeederInterface {
+    async run(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.manager.insert(Post, [
+            { title: "About TypeORM" },
+            { title: "About seeding" },
+        ])
+    }
+}
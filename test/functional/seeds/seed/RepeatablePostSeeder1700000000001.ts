@@ -0,0 +1,11 @@
+import { SeederInterface } from "../../../../src/seed/SeederInterface"
+import { QueryRunner } from "../../../../src/query-runner/QueryRunner"
+import { Post } from "../entity/Post"
+
+export class RepeatablePostSeeder1700000000001 implements SeederInterface {
+    once = false
+
+    async run(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.manager.insert(Post, { title: "Repeatable" })
+    }
+}
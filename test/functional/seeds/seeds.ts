@@ -0,0 +1,127 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { Post } from "./entity/Post"
+import { PostSeeder1700000000000 } from "./seed/PostSeeder1700000000000"
+import { RepeatablePostSeeder1700000000001 } from "./seed/RepeatablePostSeeder1700000000001"
+import { FailingSeeder1700000000002 } from "./seed/FailingSeeder1700000000002"
+
+describe("seeds", () => {
+    describe("run", () => {
+        let connections: DataSource[]
+        before(
+            async () =>
+                (connections = await createTestingConnections({
+                    entities: [Post],
+                    seeds: [
+                        PostSeeder1700000000000,
+                        RepeatablePostSeeder1700000000001,
+                    ],
+                    enabledDrivers: [
+                        "postgres",
+                        "sqlite",
+                        "better-sqlite3",
+                        "sqljs",
+                    ],
+                    schemaCreate: true,
+                    dropSchema: true,
+                })),
+        )
+        beforeEach(() => reloadTestingDatabases(connections))
+        after(() => closeTestingConnections(connections))
+
+        it("should run pending seeds and not re-apply one-time seeds", () =>
+            Promise.all(
+                connections.map(async (connection) => {
+                    const firstRun = await connection.runSeeds()
+                    firstRun
+                        .map((seed) => seed.name)
+                        .should.be.eql([
+                            "PostSeeder1700000000000",
+                            "RepeatablePostSeeder1700000000001",
+                        ])
+                    ;(await connection.manager.count(Post)).should.be.equal(3)
+
+                    const secondRun = await connection.runSeeds()
+                    secondRun
+                        .map((seed) => seed.name)
+                        .should.be.eql(["RepeatablePostSeeder1700000000001"])
+                    ;(await connection.manager.count(Post)).should.be.equal(4)
+                }),
+            ))
+
+        it("should recognise pending seeds", () =>
+            Promise.all(
+                connections.map(async (connection) => {
+                    ;(await connection.showSeeds()).should.be.equal(true)
+                    await connection.runSeeds({ transaction: "each" })
+                    ;(await connection.showSeeds()).should.be.equal(false)
+                }),
+            ))
+
+        it("should only record one-time seeds when faking", () =>
+            Promise.all(
+                connections.map(async (connection) => {
+                    await connection.runSeeds({ fake: true })
+                    ;(await connection.manager.count(Post)).should.be.equal(0)
+                    ;(await connection.showSeeds()).should.be.equal(false)
+                }),
+            ))
+    })
+
+    describe("transaction", () => {
+        let connections: DataSource[]
+        before(
+            async () =>
+                (connections = await createTestingConnections({
+                    entities: [Post],
+                    seeds: [
+                        PostSeeder1700000000000,
+                        FailingSeeder1700000000002,
+                    ],
+                    enabledDrivers: [
+                        "postgres",
+                        "sqlite",
+                        "better-sqlite3",
+                        "sqljs",
+                    ],
+                    schemaCreate: true,
+                    dropSchema: true,
+                })),
+        )
+        beforeEach(() => reloadTestingDatabases(connections))
+        after(() => closeTestingConnections(connections))
+
+        it("should rollback all seeds when transaction mode is all", () =>
+            Promise.all(
+                connections.map(async (connection) => {
+                    await expect(
+                        connection.runSeeds({ transaction: "all" }),
+                    ).to.be.rejectedWith("Seeder failed")
+                    ;(await connection.manager.count(Post)).should.be.equal(0)
+                    ;(await connection.showSeeds()).should.be.equal(true)
+                }),
+            ))
+
+        it("should keep successful seeds when transaction mode is each", () =>
+            Promise.all(
+                connections.map(async (connection) => {
+                    await expect(
+                        connection.runSeeds({ transaction: "each" }),
+                    ).to.be.rejectedWith("Seeder failed")
+                    ;(await connection.manager.count(Post)).should.be.equal(2)
+
+                    // successful one-time seed is not re-applied on the next run
+                    await expect(
+                        connection.runSeeds({ transaction: "each" }),
+                    ).to.be.rejectedWith("Seeder failed")
+                    ;(await connection.manager.count(Post)).should.be.equal(2)
+                }),
+            ))
+    })
+})
@@ -0,0 +1,16 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "../../../../src"
+
+@Entity()
+export class User {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column({ unique: true })
+    email: string
+
+    @Column({ sensitive: true })
+    password: string
+
+    @Column({ nullable: true })
+    apiToken: string
+}
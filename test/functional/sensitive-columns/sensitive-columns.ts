@@ -0,0 +1,250 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { AbstractLogger } from "../../../src/logger/AbstractLogger"
+import { LogLevel, LogMessage } from "../../../src/logger/Logger"
+import { QueryFailedError } from "../../../src/error/QueryFailedError"
+import { AfterQueryEvent } from "../../../src/subscriber/event/QueryEvent"
+import { In } from "../../../src/find-options/operator/In"
+import { User } from "./entity/User"
+
+class MemoryLogger extends AbstractLogger {
+    messages: LogMessage[] = []
+
+    protected writeLog(level: LogLevel, message: LogMessage | LogMessage[]) {
+        this.messages.push(...(Array.isArray(message) ? message : [message]))
+    }
+}
+
+describe("sensitive columns", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [User],
+                enabledDrivers: ["sqljs", "postgres", "mysql"],
+                createLogger: () => new MemoryLogger(["query", "error"]),
+                driverSpecific: {
+                    redaction: {
+                        columns: ["*token"],
+                    },
+                },
+            })),
+    )
+    beforeEach(async () => {
+        await reloadTestingDatabases(connections)
+        connections.forEach(
+            (connection) => ((connection.logger as MemoryLogger).messages = []),
+        )
+    })
+    after(() => closeTestingConnections(connections))
+
+    // gets parameters of logged queries starting with the given sql
+    const loggedParameters = (connection: DataSource, sql: string) =>
+        (connection.logger as MemoryLogger).messages
+            .filter((message) => String(message.message).startsWith(sql))
+            .map((message) => message.parameters)
+
+    it("should mark columns as sensitive by options and redaction policy", () =>
+        connections.forEach((connection) => {
+            const metadata = connection.getMetadata(User)
+            const isSensitive = (propertyName: string) =>
+                metadata.findColumnWithPropertyName(propertyName)!.isSensitive
+
+            expect(isSensitive("password")).to.be.true
+            expect(isSensitive("apiToken")).to.be.true
+            expect(isSensitive("email")).to.be.false
+        }))
+
+    it("should mask inserted and updated sensitive values in logs", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.getRepository(User).insert({
+                    email: "john@example.com",
+                    password: "secret",
+                    apiToken: "token",
+                })
+                await connection
+                    .getRepository(User)
+                    .update(
+                        { email: "john@example.com" },
+                        { password: "new secret" },
+                    )
+
+                expect(loggedParameters(connection, "INSERT")).to.deep.equal([
+                    ["john@example.com", "[REDACTED]", "[REDACTED]"],
+                ])
+                expect(loggedParameters(connection, "UPDATE")).to.deep.equal([
+                    ["[REDACTED]", "john@example.com"],
+                ])
+
+                const user = await connection
+                    .getRepository(User)
+                    .findOneBy({ email: "john@example.com" })
+                expect(user!.password).to.equal("new secret")
+            }),
+        ))
+
+    it("should mask sensitive values of find conditions in logs", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.getRepository(User).find({
+                    where: {
+                        email: "john@example.com",
+                        password: In(["first", "second"]),
+                    },
+                })
+                await connection
+                    .getRepository(User)
+                    .createQueryBuilder("user")
+                    .where({ apiToken: "token" })
+                    .getMany()
+
+                expect(loggedParameters(connection, "SELECT")).to.deep.equal([
+                    ["john@example.com", "[REDACTED]", "[REDACTED]"],
+                    ["[REDACTED]"],
+                ])
+            }),
+        ))
+
+    it("should not mask non-sensitive values equal to sensitive values", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.getRepository(User).insert({
+                    email: "secret",
+                    password: "secret",
+                })
+                await connection
+                    .getRepository(User)
+                    .findOneBy({ email: "secret", password: "secret" })
+
+                expect(loggedParameters(connection, "INSERT")).to.deep.equal([
+                    ["secret", "[REDACTED]"],
+                ])
+                expect(
+                    loggedParameters(connection, "SELECT").pop(),
+                ).to.deep.equal(["secret", "[REDACTED]"])
+            }),
+        ))
+
+    it("should log redacted parameters passed to query runner", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const [sql, parameters] = connection
+                    .createQueryBuilder()
+                    .select("user.id")
+                    .from(User, "user")
+                    .where("user.password = :password", { password: "secret" })
+                    .getQueryAndParameters()
+                const queryRunner = connection.createQueryRunner()
+                try {
+                    await queryRunner.query(sql, parameters, false, ["***"])
+                } finally {
+                    await queryRunner.release()
+                }
+
+                expect(loggedParameters(connection, "SELECT")).to.deep.equal([
+                    ["***"],
+                ])
+            }),
+        ))
+
+    it("should mask sensitive values in query errors and query events", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const events: AfterQueryEvent<any>[] = []
+                connection.subscribers.push({
+                    afterQuery: (event) => {
+                        events.push(event)
+                    },
+                })
+
+                try {
+                    const user = {
+                        email: "john@example.com",
+                        password: "secret",
+                    }
+                    await connection.getRepository(User).insert(user)
+
+                    let error: QueryFailedError | undefined
+                    await connection
+                        .getRepository(User)
+                        .insert(user)
+                        .catch((err) => (error = err))
+
+                    expect(error).to.be.instanceOf(QueryFailedError)
+                    expect(error!.parameters).to.deep.equal([
+                        "john@example.com",
+                        "[REDACTED]",
+                    ])
+                    expect(
+                        events
+                            .filter((event) => event.query.startsWith("INSERT"))
+                            .map((event) => event.parameters),
+                    ).to.deep.equal([
+                        ["john@example.com", "[REDACTED]"],
+                        ["john@example.com", "[REDACTED]"],
+                    ])
+                } finally {
+                    connection.subscribers.pop()
+                }
+            }),
+        ))
+
+    it("should remove sensitive values from queries formatted by driver in query errors", () => {
+        const query = `INSERT INTO "user"("email", "password") VALUES (?, ?)`
+        const driverError = Object.assign(new Error("Duplicate entry"), {
+            sql: `INSERT INTO "user"("email", "password") VALUES ('john@example.com', 'secret')`,
+        })
+
+        const error = new QueryFailedError(
+            query,
+            ["john@example.com", "secret"],
+            driverError,
+            ["john@example.com", "[REDACTED]"],
+        )
+        expect((error as any).sql).to.equal(query)
+        expect(error.driverError.sql).to.equal(query)
+        expect(error.parameters).to.deep.equal([
+            "john@example.com",
+            "[REDACTED]",
+        ])
+
+        // queries without sensitive parameters are kept as they are
+        const otherError = new QueryFailedError(
+            query,
+            ["john@example.com", "secret"],
+            Object.assign(new Error("Duplicate entry"), { sql: "formatted" }),
+        )
+        expect((otherError as any).sql).to.equal("formatted")
+    })
+
+    it("should mask sensitive values using mask of redaction policy", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const options = connection.options as any
+                const redaction = options.redaction
+                options.redaction = {
+                    ...redaction,
+                    mask: (value: any) => `<${String(value).length} chars>`,
+                }
+
+                try {
+                    await connection
+                        .getRepository(User)
+                        .findOneBy({ password: "secret" })
+                } finally {
+                    options.redaction = redaction
+                }
+
+                expect(loggedParameters(connection, "SELECT")).to.deep.equal([
+                    ["<6 chars>"],
+                ])
+            }),
+        ))
+})
@@ -0,0 +1,19 @@
+import { Entity } from "../../../../src/decorator/entity/Entity"
+import { Column } from "../../../../src/decorator/columns/Column"
+import { PrimaryGeneratedColumn } from "../../../../src/decorator/columns/PrimaryGeneratedColumn"
+import { Generated } from "../../../../src/decorator/Generated"
+import { Sequence } from "../../../../src/decorator/Sequence"
+
+@Entity()
+@Sequence("invoice_number_seq", { start: 1000, increment: 10, cycle: true })
+export class Invoice {
+    @PrimaryGeneratedColumn("sequence", { sequenceName: "invoice_id_seq" })
+    id: number
+
+    @Column()
+    @Generated("sequence", { sequenceName: "invoice_number_seq" })
+    number: number
+
+    @Column()
+    customer: string
+}
@@ -0,0 +1,152 @@
+import "reflect-metadata"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { TableSequence } from "../../../src/schema-builder/table/TableSequence"
+import { Invoice } from "./entity/Invoice"
+
+describe("sequences", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Invoice],
+                enabledDrivers: ["postgres"],
+                schemaCreate: true,
+                dropSchema: true,
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should create declared and implicit sequences", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                const sequences = await queryRunner.getSequences()
+                await queryRunner.release()
+
+                sequences
+                    .map((sequence) => [
+                        sequence.name,
+                        sequence.ownedByTable,
+                        sequence.ownedByColumn,
+                    ])
+                    .sort()
+                    .should.be.eql([
+                        ["invoice_id_seq", "invoice", "id"],
+                        ["invoice_number_seq", undefined, undefined],
+                    ])
+
+                const numberSequence = sequences.find(
+                    (sequence) => sequence.name === "invoice_number_seq",
+                )!
+                numberSequence.start!.should.be.equal(1000)
+                numberSequence.increment!.should.be.equal(10)
+                numberSequence.cycle.should.be.true
+            }),
+        ))
+
+    it("should take column values from sequences", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const repository = connection.getRepository(Invoice)
+                const first = await repository.save({ customer: "Alice" })
+                const second = await repository.save({ customer: "Bob" })
+
+                first.id.should.be.equal(1)
+                second.id.should.be.equal(2)
+                first.number.should.be.equal(1000)
+                second.number.should.be.equal(1010)
+            }),
+        ))
+
+    it("should not generate schema changes for synchronized sequences", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const sqlInMemory = await connection.driver
+                    .createSchemaBuilder()
+                    .log()
+                sqlInMemory.upQueries.length.should.be.equal(0)
+            }),
+        ))
+
+    it("should create, alter and drop sequences using query runner", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.createSequence(
+                    new TableSequence({ name: "ticket_seq", start: 5 }),
+                    true,
+                )
+                await queryRunner.alterSequence(
+                    "ticket_seq",
+                    new TableSequence({
+                        name: "ticket_seq",
+                        start: 5,
+                        increment: 2,
+                        maxValue: 100,
+                    }),
+                )
+
+                let sequences = await queryRunner.getSequences(["ticket_seq"])
+                sequences.length.should.be.equal(1)
+                sequences[0].increment!.should.be.equal(2)
+                sequences[0].maxValue!.should.be.equal(100)
+
+                // only the drop is memorized, so its down queries restore the sequence
+                queryRunner.clearSqlMemory()
+                await queryRunner.dropSequence("ticket_seq", true)
+                sequences = await queryRunner.getSequences(["ticket_seq"])
+                sequences.length.should.be.equal(0)
+
+                await queryRunner.executeMemoryDownSql()
+                sequences = await queryRunner.getSequences(["ticket_seq"])
+                await queryRunner.release()
+
+                sequences.length.should.be.equal(1)
+                sequences[0].increment!.should.be.equal(2)
+                sequences[0].maxValue!.should.be.equal(100)
+            }),
+        ))
+
+    it("should recreate sequences after database is cleared", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.clearDatabase()
+                await connection.synchronize()
+                const sequences = await queryRunner.getSequences()
+                await queryRunner.release()
+
+                sequences
+                    .map((sequence) => sequence.name)
+                    .sort()
+                    .should.be.eql(["invoice_id_seq", "invoice_number_seq"])
+            }),
+        ))
+
+    it("should not drop sequences of schemas not used by data source", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.createSchema("sequences_other", true)
+                await queryRunner.createSequence(
+                    new TableSequence({ name: "sequences_other.ticket_seq" }),
+                    true,
+                )
+
+                await connection.synchronize()
+                const sequences = await queryRunner.getSequences([
+                    "sequences_other.ticket_seq",
+                ])
+                await queryRunner.dropSchema("sequences_other", true, true)
+                await queryRunner.release()
+
+                sequences.length.should.be.equal(1)
+            }),
+        ))
+})
@@ -0,0 +1,148 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { StructuredLogger } from "../../../src/logger/StructuredLogger"
+import { StructuredLoggerOptions } from "../../../src/logger/LoggerOptions"
+import { Post } from "./entity/Post"
+
+describe("structured logger", () => {
+    const lines: string[] = []
+    const loggerOptions: StructuredLoggerOptions = {
+        write: (line) => lines.push(line),
+    }
+
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Post],
+                enabledDrivers: ["sqljs"],
+                createLogger: () =>
+                    new StructuredLogger(["query", "error"], loggerOptions),
+            })),
+    )
+    beforeEach(async () => {
+        await reloadTestingDatabases(connections)
+        lines.length = 0
+        loggerOptions.parameters = undefined
+    })
+    after(() => closeTestingConnections(connections))
+
+    const entries = () => lines.map((line) => JSON.parse(line))
+
+    it("should log executed queries with duration, row count and driver", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection
+                    .getRepository(Post)
+                    .insert([{ title: "first" }, { title: "second" }])
+                lines.length = 0
+
+                await connection.getRepository(Post).find()
+                await connection
+                    .getRepository(Post)
+                    .update({ title: "first" }, { title: "updated" })
+
+                const [select, update] = entries()
+                expect(select).to.include({
+                    level: "query",
+                    type: "query",
+                    parameterCount: 0,
+                    rowCount: 2,
+                    driver: connection.options.type,
+                })
+                expect(select.query).to.match(/^SELECT /)
+                expect(select.duration).to.be.a("number")
+                expect(select.timestamp).to.be.a("string")
+                expect(select).not.to.have.property("transactionId")
+                expect(select).not.to.have.property("parameters")
+
+                expect(update.query).to.match(/^UPDATE /)
+                expect(update).to.include({ parameterCount: 2, rowCount: 1 })
+            }),
+        ))
+
+    it("should log redacted or actual parameter values", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                loggerOptions.parameters = "redacted"
+                await connection
+                    .getRepository(Post)
+                    .findOneBy({ title: "secret" })
+                loggerOptions.parameters = "values"
+                await connection
+                    .getRepository(Post)
+                    .findOneBy({ title: "public" })
+
+                const [redacted, values] = entries()
+                expect(redacted.parameters).to.deep.equal(["[REDACTED]"])
+                expect(values.parameters).to.include("public")
+            }),
+        ))
+
+    it("should log the same transaction id for queries of a transaction", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const transactionIds: (string | undefined)[] = []
+                for (let i = 0; i < 2; i++) {
+                    await connection.transaction(async (manager) => {
+                        await manager.save(Post, { title: "post" })
+                        transactionIds.push(manager.queryRunner!.transactionId)
+                    })
+                }
+                await connection.getRepository(Post).count()
+
+                const entriesOfTransactions = entries().slice(0, -1)
+                expect(entriesOfTransactions).not.to.be.empty
+                for (const entry of entriesOfTransactions) {
+                    expect(transactionIds).to.include(entry.transactionId)
+                }
+                expect(transactionIds[0]).to.be.a("string")
+                expect(transactionIds[0]).not.to.equal(transactionIds[1])
+                expect(entries().pop()).not.to.have.property("transactionId")
+            }),
+        ))
+
+    it("should log context of the code running the query", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const logger = connection.logger as StructuredLogger
+                await logger.runWithContext({ requestId: "r1" }, () =>
+                    logger.runWithContext({ userId: 42 }, () =>
+                        connection.getRepository(Post).find(),
+                    ),
+                )
+                await connection.getRepository(Post).find()
+
+                const [withContext, withoutContext] = entries()
+                expect(withContext.context).to.deep.equal({
+                    requestId: "r1",
+                    userId: 42,
+                })
+                expect(withoutContext).not.to.have.property("context")
+            }),
+        ))
+
+    it("should log failed queries with error", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection
+                    .query("SELECT * FROM missing_table WHERE id = ?", [1])
+                    .catch(() => undefined)
+
+                const [failed] = entries()
+                expect(failed).to.include({
+                    level: "warn",
+                    type: "query-error",
+                    query: "SELECT * FROM missing_table WHERE id = ?",
+                    parameterCount: 1,
+                })
+                expect(failed.error.message).to.contain("missing_table")
+            }),
+        ))
+})
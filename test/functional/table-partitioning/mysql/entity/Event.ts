@@ -0,0 +1,24 @@
+import { Entity } from "../../../../../src/decorator/entity/Entity"
+import { Column } from "../../../../../src/decorator/columns/Column"
+import { PrimaryColumn } from "../../../../../src/decorator/columns/PrimaryColumn"
+
+@Entity({
+    partitioning: {
+        type: "RANGE",
+        columns: ["createdAt"],
+        partitions: [
+            { name: "p2024_01", values: "LESS THAN ('2024-02-01')" },
+            { name: "p2024_02", values: "LESS THAN ('2024-03-01')" },
+        ],
+    },
+})
+export class Event {
+    @PrimaryColumn()
+    id: number
+
+    @PrimaryColumn({ type: "date" })
+    createdAt: string
+
+    @Column()
+    name: string
+}
@@ -0,0 +1,121 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { TablePartition } from "../../../../src/schema-builder/table/TablePartition"
+import { Event } from "./entity/Event"
+
+describe("table partitioning > mysql", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Event],
+                enabledDrivers: ["mysql", "mariadb"],
+                schemaCreate: true,
+                dropSchema: true,
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should create partitioned table with declared partitions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                const table = await queryRunner.getTable("event")
+                await queryRunner.release()
+
+                table!.partitioning!.should.be.eql({
+                    type: "RANGE",
+                    columnNames: ["createdAt"],
+                })
+                table!.partitions
+                    .map((partition) => partition.name)
+                    .should.be.eql(["p2024_01", "p2024_02"])
+                table!.partitions[0].values!.should.match(
+                    /^LESS THAN \('2024-02-01'\)$/,
+                )
+
+                await connection.getRepository(Event).save([
+                    { id: 1, createdAt: "2024-01-15", name: "first" },
+                    { id: 2, createdAt: "2024-02-15", name: "second" },
+                ])
+                const rows = await connection.query(
+                    "SELECT * FROM `event` PARTITION (`p2024_02`)",
+                )
+                rows.length.should.be.equal(1)
+            }),
+        ))
+
+    it("should not generate schema changes for synchronized partitions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const sqlInMemory = await connection.driver
+                    .createSchemaBuilder()
+                    .log()
+                sqlInMemory.upQueries.length.should.be.equal(0)
+            }),
+        ))
+
+    it("should create newly declared partitions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const metadata = connection.getMetadata(Event)
+                const partitions = metadata.partitioning!.partitions!
+                partitions.push({
+                    name: "p2024_03",
+                    values: "LESS THAN ('2024-04-01')",
+                })
+
+                try {
+                    await connection.synchronize()
+
+                    const queryRunner = connection.createQueryRunner()
+                    const table = await queryRunner.getTable("event")
+                    await queryRunner.release()
+
+                    table!.partitions
+                        .map((partition) => partition.name)
+                        .should.include("p2024_03")
+                } finally {
+                    partitions.pop()
+                }
+            }),
+        ))
+
+    it("should create and drop partitions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+
+                await queryRunner.createPartition(
+                    "event",
+                    new TablePartition({
+                        name: "p_max",
+                        values: "LESS THAN (MAXVALUE)",
+                    }),
+                )
+                let table = await queryRunner.getTable("event")
+                table!.partitions
+                    .map((partition) => partition.name)
+                    .should.include("p_max")
+
+                await queryRunner.dropPartition("event", "p_max")
+                table = await queryRunner.getTable("event")
+                table!.partitions
+                    .map((partition) => partition.name)
+                    .should.not.include("p_max")
+
+                await expect(
+                    queryRunner.detachPartition("event", "p2024_01"),
+                ).to.be.rejectedWith("MySql does not support detaching")
+
+                await queryRunner.release()
+            }),
+        ))
+})
@@ -0,0 +1,30 @@
+import { Entity } from "../../../../../src/decorator/entity/Entity"
+import { Column } from "../../../../../src/decorator/columns/Column"
+import { PrimaryColumn } from "../../../../../src/decorator/columns/PrimaryColumn"
+
+@Entity({
+    partitioning: {
+        type: "RANGE",
+        columns: ["createdAt"],
+        partitions: [
+            {
+                name: "event_2024_01",
+                values: "FROM ('2024-01-01') TO ('2024-02-01')",
+            },
+            {
+                name: "event_2024_02",
+                values: "FROM ('2024-02-01') TO ('2024-03-01')",
+            },
+        ],
+    },
+})
+export class Event {
+    @PrimaryColumn()
+    id: number
+
+    @PrimaryColumn({ type: "date" })
+    createdAt: string
+
+    @Column()
+    name: string
+}
@@ -0,0 +1,135 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { TablePartition } from "../../../../src/schema-builder/table/TablePartition"
+import { Event } from "./entity/Event"
+
+describe("table partitioning > postgres", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Event],
+                enabledDrivers: ["postgres"],
+                schemaCreate: true,
+                dropSchema: true,
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should create partitioned table with declared partitions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                const table = await queryRunner.getTable("event")
+                await queryRunner.release()
+
+                table!.partitioning!.should.be.eql({
+                    type: "RANGE",
+                    columnNames: ["createdAt"],
+                })
+                table!.partitions
+                    .map((partition) => [partition.name, partition.values])
+                    .should.be.eql([
+                        [
+                            "event_2024_01",
+                            "FROM ('2024-01-01') TO ('2024-02-01')",
+                        ],
+                        [
+                            "event_2024_02",
+                            "FROM ('2024-02-01') TO ('2024-03-01')",
+                        ],
+                    ])
+
+                await connection.getRepository(Event).save([
+                    { id: 1, createdAt: "2024-01-15", name: "first" },
+                    { id: 2, createdAt: "2024-02-15", name: "second" },
+                ])
+                const rows = await connection.query(
+                    `SELECT * FROM "event_2024_02"`,
+                )
+                rows.length.should.be.equal(1)
+            }),
+        ))
+
+    it("should not generate schema changes for synchronized partitions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const sqlInMemory = await connection.driver
+                    .createSchemaBuilder()
+                    .log()
+                sqlInMemory.upQueries.length.should.be.equal(0)
+            }),
+        ))
+
+    it("should create newly declared partitions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const metadata = connection.getMetadata(Event)
+                const partitions = metadata.partitioning!.partitions!
+                partitions.push({
+                    name: "event_2024_03",
+                    values: "FROM ('2024-03-01') TO ('2024-04-01')",
+                })
+
+                try {
+                    await connection.synchronize()
+
+                    const queryRunner = connection.createQueryRunner()
+                    const table = await queryRunner.getTable("event")
+                    await queryRunner.release()
+
+                    table!.partitions
+                        .map((partition) => partition.name)
+                        .should.include("event_2024_03")
+                } finally {
+                    partitions.pop()
+                }
+            }),
+        ))
+
+    it("should create, detach, attach and drop partitions", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                const partition = new TablePartition({
+                    name: "event_default",
+                    values: "DEFAULT",
+                })
+
+                await queryRunner.createPartition("event", partition)
+                let table = await queryRunner.getTable("event")
+                table!.partitions
+                    .map((partition) => partition.name)
+                    .should.include("event_default")
+
+                await queryRunner.detachPartition("event", "event_default")
+                table = await queryRunner.getTable("event")
+                table!.partitions
+                    .map((partition) => partition.name)
+                    .should.not.include("event_default")
+                expect(await queryRunner.hasTable("event_default")).to.be.true
+
+                await queryRunner.attachPartition("event", partition)
+                table = await queryRunner.getTable("event")
+                table!.partitions
+                    .map((partition) => partition.name)
+                    .should.include("event_default")
+
+                await queryRunner.dropPartition("event", "event_default")
+                expect(await queryRunner.hasTable("event_default")).to.be.false
+
+                // revert all changes
+                await queryRunner.executeMemoryDownSql()
+                expect(await queryRunner.hasTable("event_default")).to.be.false
+
+                await queryRunner.release()
+            }),
+        ))
+})
@@ -0,0 +1,21 @@
+import { Entity } from "../../../../src/decorator/entity/Entity"
+import { PrimaryGeneratedColumn } from "../../../../src/decorator/columns/PrimaryGeneratedColumn"
+import { Column } from "../../../../src/decorator/columns/Column"
+import { TenantColumn } from "../../../../src/decorator/columns/TenantColumn"
+import { OneToMany } from "../../../../src/decorator/relations/OneToMany"
+import { Task } from "./Task"
+
+@Entity()
+export class Project {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @TenantColumn()
+    tenantId: string
+
+    @Column()
+    name: string
+
+    @OneToMany(() => Task, (task) => task.project)
+    tasks: Task[]
+}
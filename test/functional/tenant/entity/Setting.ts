@@ -0,0 +1,16 @@
+import { Entity } from "../../../../src/decorator/entity/Entity"
+import { PrimaryColumn } from "../../../../src/decorator/columns/PrimaryColumn"
+import { Column } from "../../../../src/decorator/columns/Column"
+import { TenantColumn } from "../../../../src/decorator/columns/TenantColumn"
+
+@Entity({ cache: true })
+export class Setting {
+    @PrimaryColumn()
+    name: string
+
+    @TenantColumn()
+    tenantId: string
+
+    @Column()
+    value: string
+}
@@ -0,0 +1,21 @@
+import { Entity } from "../../../../src/decorator/entity/Entity"
+import { PrimaryGeneratedColumn } from "../../../../src/decorator/columns/PrimaryGeneratedColumn"
+import { Column } from "../../../../src/decorator/columns/Column"
+import { TenantColumn } from "../../../../src/decorator/columns/TenantColumn"
+import { ManyToOne } from "../../../../src/decorator/relations/ManyToOne"
+import { Project } from "./Project"
+
+@Entity()
+export class Task {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @TenantColumn()
+    tenantId: string
+
+    @Column()
+    title: string
+
+    @ManyToOne(() => Project, (project) => project.tasks)
+    project: Project
+}
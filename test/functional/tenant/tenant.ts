@@ -0,0 +1,242 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../utils/test-utils"
+import { DataSource } from "../../../src/data-source/DataSource"
+import { TenantNotSetError } from "../../../src/error/TenantNotSetError"
+import { TenantMismatchError } from "../../../src/error/TenantMismatchError"
+import { Project } from "./entity/Project"
+import { Task } from "./entity/Task"
+import { Setting } from "./entity/Setting"
+
+describe("tenant", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [__dirname + "/entity/*{.js,.ts}"],
+                enabledDrivers: [
+                    "sqlite",
+                    "better-sqlite3",
+                    "sqljs",
+                    "postgres",
+                    "mysql",
+                ],
+                cache: { type: "memory", duration: 60000 },
+            })),
+    )
+    beforeEach(async () => {
+        await reloadTestingDatabases(connections)
+        await Promise.all(
+            connections.map((connection) =>
+                connection.queryResultCache!.clear(),
+            ),
+        )
+    })
+    after(() => closeTestingConnections(connections))
+
+    // creates a project with a task for each of the given tenants
+    const createProjects = (connection: DataSource, tenantIds: string[]) =>
+        connection.tenantContext.runWithoutTenant(async () => {
+            for (const tenantId of tenantIds) {
+                const project = await connection
+                    .getRepository(Project)
+                    .save({ tenantId, name: `${tenantId} project` })
+                await connection
+                    .getRepository(Task)
+                    .save({ tenantId, title: `${tenantId} task`, project })
+            }
+        })
+
+    it("should load entities of the current tenant only", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await createProjects(connection, ["acme", "globex"])
+
+                await connection.tenantContext.run("acme", async () => {
+                    const projects = await connection
+                        .getRepository(Project)
+                        .find()
+                    expect(projects.map((project) => project.name)).to.eql([
+                        "acme project",
+                    ])
+
+                    const count = await connection
+                        .getRepository(Task)
+                        .countBy({ title: "globex task" })
+                    expect(count).to.equal(0)
+                })
+            }),
+        ))
+
+    it("should filter joined entities by the current tenant", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await createProjects(connection, ["acme"])
+
+                // task of another tenant referencing acme project
+                await connection.tenantContext.runWithoutTenant(async () => {
+                    const project = await connection
+                        .getRepository(Project)
+                        .findOneByOrFail({ tenantId: "acme" })
+                    await connection
+                        .getRepository(Task)
+                        .save({ tenantId: "globex", title: "leak", project })
+                })
+
+                await connection.tenantContext.run("acme", async () => {
+                    const projects = await connection
+                        .getRepository(Project)
+                        .find({ relations: { tasks: true } })
+                    expect(projects.length).to.equal(1)
+                    expect(projects[0].tasks.map((task) => task.title)).to.eql([
+                        "acme task",
+                    ])
+                })
+            }),
+        ))
+
+    it("should insert entities with id of the current tenant", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.tenantContext.run("acme", async () => {
+                    const project = await connection
+                        .getRepository(Project)
+                        .save({ name: "Saved" })
+                    expect(project.tenantId).to.equal("acme")
+
+                    await connection
+                        .getRepository(Project)
+                        .insert({ name: "Inserted" })
+
+                    await expect(
+                        connection
+                            .getRepository(Project)
+                            .save({ tenantId: "globex", name: "Foreign" }),
+                    ).to.be.rejectedWith(TenantMismatchError)
+                })
+
+                const projects =
+                    await connection.tenantContext.runWithoutTenant(() =>
+                        connection
+                            .getRepository(Project)
+                            .find({ order: { name: "ASC" } }),
+                    )
+                expect(
+                    projects.map((project) => [project.name, project.tenantId]),
+                ).to.eql([
+                    ["Inserted", "acme"],
+                    ["Saved", "acme"],
+                ])
+            }),
+        ))
+
+    it("should not move updated entities to another tenant", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.tenantContext.run("acme", async () => {
+                    const repository = connection.getRepository(Project)
+                    await repository.save({ name: "Acme project" })
+
+                    await expect(
+                        repository
+                            .createQueryBuilder()
+                            .update()
+                            .set({ tenantId: "globex" })
+                            .execute(),
+                    ).to.be.rejectedWith(TenantMismatchError)
+
+                    const project = await repository.findOneByOrFail({
+                        name: "Acme project",
+                    })
+                    project.tenantId = "globex"
+                    await expect(repository.save(project)).to.be.rejectedWith(
+                        TenantMismatchError,
+                    )
+
+                    // tenant id of the current tenant can be set
+                    await repository.update(
+                        { id: project.id },
+                        { tenantId: "acme", name: "Renamed" },
+                    )
+                })
+
+                const projects =
+                    await connection.tenantContext.runWithoutTenant(() =>
+                        connection.getRepository(Project).find(),
+                    )
+                expect(
+                    projects.map((project) => [project.name, project.tenantId]),
+                ).to.eql([["Renamed", "acme"]])
+            }),
+        ))
+
+    it("should update and delete entities of the current tenant only", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await createProjects(connection, ["acme", "globex"])
+
+                await connection.tenantContext.run("acme", async () => {
+                    await connection
+                        .createQueryBuilder()
+                        .update(Project)
+                        .set({ name: "Renamed" })
+                        .execute()
+                    await connection.getRepository(Task).delete({})
+                })
+
+                await connection.tenantContext.runWithoutTenant(async () => {
+                    const projects = await connection
+                        .getRepository(Project)
+                        .find({ order: { tenantId: "ASC" } })
+                    expect(projects.map((project) => project.name)).to.eql([
+                        "Renamed",
+                        "globex project",
+                    ])
+
+                    const tasks = await connection.getRepository(Task).find()
+                    expect(tasks.map((task) => task.tenantId)).to.eql([
+                        "globex",
+                    ])
+                })
+            }),
+        ))
+
+    it("should not query entities with tenant column outside of tenant context", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await expect(
+                    connection.getRepository(Project).find(),
+                ).to.be.rejectedWith(TenantNotSetError)
+                await expect(
+                    connection.getRepository(Project).save({ name: "New" }),
+                ).to.be.rejectedWith(TenantNotSetError)
+            }),
+        ))
+
+    it("should cache entities for each tenant", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                await connection.tenantContext.run("acme", async () => {
+                    await connection
+                        .getRepository(Setting)
+                        .save({ name: "theme", value: "dark" })
+
+                    const setting = await connection
+                        .getRepository(Setting)
+                        .findOneBy({ name: "theme" })
+                    expect(setting!.value).to.equal("dark")
+                })
+
+                await connection.tenantContext.run("globex", async () => {
+                    const setting = await connection
+                        .getRepository(Setting)
+                        .findOneBy({ name: "theme" })
+                    expect(setting).to.be.null
+                })
+            }),
+        ))
+})
@@ -1,5 +1,7 @@
 import "reflect-metadata"
 import { Category } from "./entity/Category"
+import { CannotMoveTreeEntityError } from "../../../../src/error/CannotMoveTreeEntityError"
+import { expect } from "chai"
 import { DataSource } from "../../../../src/data-source/DataSource"
 import {
     closeTestingConnections,
@@ -729,4 +731,116 @@ describe("tree tables > materialized-path", () => {
                 pathResult.mpath.should.not.match(/^undefined/)
             }),
         ))
+
+    it("move should relocate entity with all its descendants", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const categoryRepository =
+                    connection.getTreeRepository(Category)
+
+                const a1 = await categoryRepository.save(
+                    categoryRepository.create({ name: "a1" }),
+                )
+                const a11 = await categoryRepository.save(
+                    categoryRepository.create({
+                        name: "a11",
+                        parentCategory: a1,
+                    }),
+                )
+                const a111 = await categoryRepository.save(
+                    categoryRepository.create({
+                        name: "a111",
+                        parentCategory: a11,
+                    }),
+                )
+                const a12 = await categoryRepository.save(
+                    categoryRepository.create({
+                        name: "a12",
+                        parentCategory: a1,
+                    }),
+                )
+
+                await categoryRepository.move(a11, a12)
+
+                const a12Children = await categoryRepository.findDescendants(
+                    a12,
+                )
+                a12Children
+                    .map((i) => i.name)
+                    .should.have.members(["a12", "a11", "a111"])
+
+                const a111Parents = await categoryRepository.findAncestors(a111)
+                a111Parents
+                    .map((i) => i.name)
+                    .should.have.members(["a1", "a12", "a11", "a111"])
+
+                const a1Children = await categoryRepository.findDescendants(a1)
+                a1Children.length.should.be.equal(4)
+
+                const movedA11 = await categoryRepository.findOne({
+                    where: { id: a11.id },
+                    relations: { parentCategory: true },
+                })
+                movedA11!.parentCategory.name.should.be.equal("a12")
+
+                await categoryRepository.moveToRoot(a11)
+
+                const roots = await categoryRepository.findRoots()
+                roots.map((i) => i.name).should.have.members(["a1", "a11"])
+
+                const a11Children = await categoryRepository.findDescendants(
+                    a11,
+                )
+                a11Children
+                    .map((i) => i.name)
+                    .should.have.members(["a11", "a111"])
+
+                const a1Descendants = await categoryRepository.findDescendants(
+                    a1,
+                )
+                a1Descendants
+                    .map((i) => i.name)
+                    .should.have.members(["a1", "a12"])
+            }),
+        ))
+
+    it("move should not allow to move entity under its own descendant", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const categoryRepository =
+                    connection.getTreeRepository(Category)
+
+                const a1 = await categoryRepository.save(
+                    categoryRepository.create({ name: "a1" }),
+                )
+                const a11 = await categoryRepository.save(
+                    categoryRepository.create({
+                        name: "a11",
+                        parentCategory: a1,
+                    }),
+                )
+                const a111 = await categoryRepository.save(
+                    categoryRepository.create({
+                        name: "a111",
+                        parentCategory: a11,
+                    }),
+                )
+                const a12 = await categoryRepository.save(
+                    categoryRepository.create({
+                        name: "a12",
+                        parentCategory: a1,
+                    }),
+                )
+
+                await expect(
+                    categoryRepository.move(a1, a111),
+                ).to.be.rejectedWith(CannotMoveTreeEntityError)
+                await expect(
+                    categoryRepository.move(a11, a11),
+                ).to.be.rejectedWith(CannotMoveTreeEntityError)
+
+                const a12Parents = await categoryRepository.findAncestors(a12)
+                a12Parents.map((i) => i.name).should.have.members(["a1", "a12"])
+            }),
+        ))
 })
@@ -0,0 +1,28 @@
+import { Entity } from "../../../../../src/decorator/entity/Entity"
+import { Column } from "../../../../../src/decorator/columns/Column"
+import { PrimaryGeneratedColumn } from "../../../../../src/decorator/columns/PrimaryGeneratedColumn"
+import { Trigger } from "../../../../../src/decorator/Trigger"
+
+@Entity()
+@Trigger("post_insert_log", {
+    timing: "AFTER",
+    events: ["INSERT"],
+    body: `BEGIN INSERT INTO "post_log" ("postId") VALUES (NEW."id"); RETURN NEW; END`,
+})
+@Trigger("post_title_upper", {
+    timing: "BEFORE",
+    events: ["INSERT", "UPDATE"],
+    body: `BEGIN NEW."title" := upper(NEW."title"); RETURN NEW; END`,
+})
+@Trigger("post_skip_redundant_updates", {
+    timing: "BEFORE",
+    events: ["UPDATE"],
+    function: "suppress_redundant_updates_trigger",
+})
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column()
+    title: string
+}
@@ -0,0 +1,12 @@
+import { Entity } from "../../../../../src/decorator/entity/Entity"
+import { Column } from "../../../../../src/decorator/columns/Column"
+import { PrimaryGeneratedColumn } from "../../../../../src/decorator/columns/PrimaryGeneratedColumn"
+
+@Entity()
+export class PostLog {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column()
+    postId: number
+}
@@ -0,0 +1,106 @@
+import "reflect-metadata"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { Post } from "./entity/Post"
+import { PostLog } from "./entity/PostLog"
+
+describe("triggers > postgres", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Post, PostLog],
+                enabledDrivers: ["postgres"],
+                schemaCreate: true,
+                dropSchema: true,
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should create triggers and their functions together with the table", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                const table = await queryRunner.getTable("post")
+                await queryRunner.release()
+
+                table!.triggers
+                    .map((trigger) => [
+                        trigger.name,
+                        trigger.timing,
+                        trigger.events,
+                        trigger.level,
+                        trigger.function,
+                    ])
+                    .should.be.eql([
+                        [
+                            "post_insert_log",
+                            "AFTER",
+                            ["INSERT"],
+                            "ROW",
+                            undefined,
+                        ],
+                        [
+                            "post_skip_redundant_updates",
+                            "BEFORE",
+                            ["UPDATE"],
+                            "ROW",
+                            "suppress_redundant_updates_trigger",
+                        ],
+                        [
+                            "post_title_upper",
+                            "BEFORE",
+                            ["INSERT", "UPDATE"],
+                            "ROW",
+                            undefined,
+                        ],
+                    ])
+
+                const post = await connection
+                    .getRepository(Post)
+                    .save({ title: "About triggers" })
+                const savedPost = await connection
+                    .getRepository(Post)
+                    .findOneBy({ id: post.id })
+                savedPost!.title.should.be.equal("ABOUT TRIGGERS")
+
+                const logs = await connection.getRepository(PostLog).find()
+                logs.length.should.be.equal(1)
+                logs[0].postId.should.be.equal(post.id)
+            }),
+        ))
+
+    it("should not generate schema changes for synchronized triggers", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const sqlInMemory = await connection.driver
+                    .createSchemaBuilder()
+                    .log()
+                sqlInMemory.upQueries.length.should.be.equal(0)
+            }),
+        ))
+
+    it("should drop trigger function together with the trigger", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.dropTrigger("post", "post_title_upper")
+
+                const functions = await queryRunner.query(
+                    `SELECT "proname" FROM "pg_proc" WHERE "proname" = 'post_title_upper'`,
+                )
+                functions.length.should.be.equal(0)
+
+                await queryRunner.executeMemoryDownSql()
+                const table = await queryRunner.getTable("post")
+                await queryRunner.release()
+
+                table!.triggers.length.should.be.equal(3)
+            }),
+        ))
+})
@@ -0,0 +1,23 @@
+import { Entity } from "../../../../../src/decorator/entity/Entity"
+import { Column } from "../../../../../src/decorator/columns/Column"
+import { PrimaryGeneratedColumn } from "../../../../../src/decorator/columns/PrimaryGeneratedColumn"
+import { Trigger } from "../../../../../src/decorator/Trigger"
+
+@Entity()
+@Trigger("post_insert_log", {
+    timing: "AFTER",
+    events: ["INSERT"],
+    body: `BEGIN INSERT INTO "post_log" ("postId") VALUES (NEW."id"); END`,
+})
+@Trigger({
+    timing: "BEFORE",
+    events: ["DELETE"],
+    body: `BEGIN DELETE FROM "post_log" WHERE "postId" = OLD."id"; END`,
+})
+export class Post {
+    @PrimaryGeneratedColumn()
+    id: number
+
+    @Column()
+    title: string
+}
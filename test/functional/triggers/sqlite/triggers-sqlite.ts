@@ -0,0 +1,150 @@
+import "reflect-metadata"
+import { expect } from "chai"
+import {
+    closeTestingConnections,
+    createTestingConnections,
+    reloadTestingDatabases,
+} from "../../../utils/test-utils"
+import { DataSource } from "../../../../src/data-source/DataSource"
+import { TableColumn } from "../../../../src/schema-builder/table/TableColumn"
+import { Post } from "./entity/Post"
+import { PostLog } from "./entity/PostLog"
+
+describe("triggers > sqlite", () => {
+    let connections: DataSource[]
+    before(
+        async () =>
+            (connections = await createTestingConnections({
+                entities: [Post, PostLog],
+                enabledDrivers: ["sqlite", "better-sqlite3", "sqljs"],
+                schemaCreate: true,
+                dropSchema: true,
+            })),
+    )
+    beforeEach(() => reloadTestingDatabases(connections))
+    after(() => closeTestingConnections(connections))
+
+    it("should create triggers together with the table", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                const table = await queryRunner.getTable("post")
+                await queryRunner.release()
+
+                table!.triggers.length.should.be.equal(2)
+                const insertTrigger = table!.triggers.find(
+                    (trigger) => trigger.name === "post_insert_log",
+                )!
+                insertTrigger.timing.should.be.equal("AFTER")
+                insertTrigger.events.should.be.eql(["INSERT"])
+                insertTrigger.level.should.be.equal("ROW")
+
+                const deleteTrigger = table!.triggers.find(
+                    (trigger) => trigger.name !== "post_insert_log",
+                )!
+                deleteTrigger.name.should.match(/^TRG_/)
+                deleteTrigger.timing.should.be.equal("BEFORE")
+                deleteTrigger.events.should.be.eql(["DELETE"])
+
+                const post = await connection
+                    .getRepository(Post)
+                    .save({ title: "About triggers" })
+                let logs = await connection.getRepository(PostLog).find()
+                logs.length.should.be.equal(1)
+                logs[0].postId.should.be.equal(post.id)
+
+                await connection.getRepository(Post).delete(post.id)
+                logs = await connection.getRepository(PostLog).find()
+                logs.length.should.be.equal(0)
+            }),
+        ))
+
+    it("should not generate schema changes for synchronized triggers", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const sqlInMemory = await connection.driver
+                    .createSchemaBuilder()
+                    .log()
+                sqlInMemory.upQueries.length.should.be.equal(0)
+            }),
+        ))
+
+    it("should recreate trigger when its definition changes", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const trigger = connection
+                    .getMetadata(Post)
+                    .triggers.find((t) => t.name === "post_insert_log")!
+                const body = trigger.body
+                trigger.body = `BEGIN INSERT INTO "post_log" ("postId") VALUES (NEW."id" * 10); END`
+
+                try {
+                    const sqlInMemory = await connection.driver
+                        .createSchemaBuilder()
+                        .log()
+                    sqlInMemory.upQueries
+                        .map((query) => query.query)
+                        .should.be.eql([
+                            `DROP TRIGGER "post_insert_log"`,
+                            `CREATE TRIGGER "post_insert_log" AFTER INSERT ON "post" FOR EACH ROW ${trigger.body}`,
+                        ])
+                } finally {
+                    trigger.body = body
+                }
+            }),
+        ))
+
+    it("should drop and create trigger and revert the changes", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+
+                let table = await queryRunner.getTable("post")
+                const trigger = table!.triggers.find(
+                    (t) => t.name === "post_insert_log",
+                )!
+
+                await queryRunner.dropTrigger(table!, "post_insert_log")
+                table = await queryRunner.getTable("post")
+                table!.triggers.length.should.be.equal(1)
+
+                await queryRunner.createTrigger(table!, trigger)
+                table = await queryRunner.getTable("post")
+                table!.triggers.length.should.be.equal(2)
+
+                await queryRunner.executeMemoryDownSql()
+                table = await queryRunner.getTable("post")
+                table!.triggers.length.should.be.equal(2)
+                expect(
+                    table!.triggers.find((t) => t.name === "post_insert_log"),
+                ).to.exist
+
+                await queryRunner.release()
+            }),
+        ))
+
+    it("should keep triggers when table is recreated", () =>
+        Promise.all(
+            connections.map(async (connection) => {
+                const queryRunner = connection.createQueryRunner()
+                await queryRunner.addColumn(
+                    "post",
+                    new TableColumn({
+                        name: "text",
+                        type: "varchar",
+                        isNullable: true,
+                    }),
+                )
+                const table = await queryRunner.getTable("post")
+                await queryRunner.release()
+
+                table!.triggers.length.should.be.equal(2)
+
+                await connection.query(
+                    `INSERT INTO "post" ("title", "text") VALUES ('title', 'text')`,
+                )
+                const logs = await connection.getRepository(PostLog).find()
+                logs.length.should.be.equal(1)
+            }),
+        ))
+})
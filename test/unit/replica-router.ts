@@ -0,0 +1,82 @@
+import { expect } from "chai"
+import { ReplicaRouter } from "../../src/driver/ReplicaRouter"
+
+describe(`replica-router`, () => {
+    const selectMany = (router: ReplicaRouter, count: number) =>
+        new Array(count).fill(0).map(() => router.select())
+
+    describe("select", () => {
+        it("selects replicas alternately with round-robin policy", () => {
+            const router = new ReplicaRouter(3, { policy: "round-robin" })
+            expect(selectMany(router, 5)).to.eql([0, 1, 2, 0, 1])
+        })
+
+        it("selects replicas by their weights with weighted policy", () => {
+            const router = new ReplicaRouter(3, {
+                policy: "weighted",
+                weights: [0, 1, 3],
+            })
+            const selected = selectMany(router, 400)
+            expect(selected).not.to.include(0)
+
+            const third = selected.filter((index) => index === 2).length
+            expect(third).to.be.greaterThan(200)
+        })
+
+        it("selects replica with the least connections in use", () => {
+            const router = new ReplicaRouter(3, {
+                policy: "least-connections",
+            })
+            router.acquire(0)
+            router.acquire(1)
+            router.acquire(1)
+            expect(router.select()).to.equal(2)
+
+            router.acquire(2)
+            router.acquire(2)
+            expect(router.select()).to.equal(0)
+
+            router.release(1)
+            router.release(2)
+            expect(router.select()).to.equal(1)
+        })
+
+        it("skips evicted and excluded replicas", () => {
+            const router = new ReplicaRouter(3, { policy: "random" })
+            router.evict(0)
+            expect(router.isAvailable(0)).to.be.false
+            expect(selectMany(router, 20)).not.to.include(0)
+            expect(router.select([1])).to.equal(2)
+            expect(router.select([1, 2])).to.be.undefined
+
+            router.restore(0)
+            expect(router.select([1, 2])).to.equal(0)
+        })
+
+        it("uses evicted replicas again once eviction time passes", () => {
+            const router = new ReplicaRouter(1, {
+                healthCheck: { evictionTime: 0 },
+            })
+            router.evict(0)
+            expect(router.select()).to.equal(0)
+        })
+    })
+
+    describe("checkHealth", () => {
+        it("evicts failing and lagging replicas and restores healthy ones", async () => {
+            const router = new ReplicaRouter(3, {
+                healthCheck: { maxReplicationLag: 1000 },
+            })
+            router.evict(0)
+
+            await router.checkHealth(async (index) => {
+                if (index === 1) throw new Error("Connection refused")
+                return index === 2 ? 5000 : 0
+            })
+
+            expect(router.isAvailable(0)).to.be.true
+            expect(router.isAvailable(1)).to.be.false
+            expect(router.isAvailable(2)).to.be.false
+        })
+    })
+})
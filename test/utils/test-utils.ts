@@ -63,6 +63,11 @@ export interface TestingOptions {
      */
     migrations?: (string | Function)[]
 
+    /**
+     * Seeders needs to be included in connection for the given test suite.
+     */
+    seeds?: (string | Function)[]
+
     /**
      * Subscribers needs to be included in the connection for the given test suite.
      */
@@ -112,12 +117,14 @@ export interface TestingOptions {
                * - "database" means cached values will be stored in the separate table in database. This is default value.
                * - "mongodb" means cached values will be stored in mongodb database. You must provide mongodb connection options.
                * - "redis" means cached values will be stored inside redis. You must provide redis connection options.
+               * - "memory" means cached values will be stored in memory of the current process.
                */
               readonly type?:
                   | "database"
                   | "redis"
                   | "ioredis"
-                  | "ioredis/cluster" // todo: add mongodb and other cache providers as well in the future
+                  | "ioredis/cluster"
+                  | "memory" // todo: add mongodb and other cache providers as well in the future
 
               /**
                * Factory function for custom cache providers that implement QueryResultCache.
@@ -140,6 +147,21 @@ export interface TestingOptions {
                * Default value is 1000 which is equivalent to 1 second.
                */
               duration?: number
+
+              /**
+               * Time in milliseconds after cache expiration during which the expired result is still returned.
+               */
+              staleWhileRevalidate?: number
+
+              /**
+               * Maximum number of results stored by "memory" type cache.
+               */
+              maxEntries?: number
+
+              /**
+               * If set to true then cached results using changed tables are removed after entities are persisted.
+               */
+              autoInvalidate?: boolean
           }
 
     /**
@@ -264,6 +286,7 @@ export function setupTestingConnections(
                         options && options.entities ? options.entities : [],
                     migrations:
                         options && options.migrations ? options.migrations : [],
+                    seeds: options && options.seeds ? options.seeds : [],
                     subscribers:
                         options && options.subscribers
                             ? options.subscribers